@@ -0,0 +1,80 @@
+/**
+ * Policy Endorsement DTOs
+ */
+
+import { IsArray, IsEmail, IsNotEmpty, IsObject, IsOptional, IsString, Matches, ValidateNested } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class EndorsementAddressDto {
+  @ApiProperty({ example: '123 Main St', description: 'Street address' })
+  @IsString()
+  @IsNotEmpty()
+  addressLine1: string;
+
+  @ApiPropertyOptional({ example: 'Apt 4B', description: 'Apartment, suite, etc.' })
+  @IsString()
+  @IsOptional()
+  addressLine2?: string;
+
+  @ApiProperty({ example: 'Springfield', description: 'City' })
+  @IsString()
+  @IsNotEmpty()
+  city: string;
+
+  @ApiProperty({ example: 'IL', description: 'State code' })
+  @IsString()
+  @IsNotEmpty()
+  state: string;
+
+  @ApiProperty({ example: '62701', description: 'ZIP code' })
+  @IsString()
+  @IsNotEmpty()
+  zipCode: string;
+}
+
+export class EndorsementContactDto {
+  @ApiPropertyOptional({ example: 'john.doe@example.com', description: 'Email address' })
+  @IsEmail()
+  @IsOptional()
+  email?: string;
+
+  @ApiPropertyOptional({ example: '555-123-4567', description: 'Phone number' })
+  @IsString()
+  @IsOptional()
+  phone?: string;
+}
+
+export class ProposeEndorsementDto {
+  @ApiPropertyOptional({ example: '2026-11-01', description: 'Date the change takes effect (YYYY-MM-DD, default today)' })
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, { message: 'effectiveDate must be in YYYY-MM-DD format' })
+  @IsOptional()
+  effectiveDate?: string;
+
+  @ApiPropertyOptional({ type: () => [Object], description: 'Insured vehicles (replaces the current list)' })
+  @IsArray()
+  @IsOptional()
+  vehicles?: any[]; // Same shape as the quote flow's vehicles
+
+  @ApiPropertyOptional({ type: () => [Object], description: 'Additional drivers (replaces the current list)' })
+  @IsArray()
+  @IsOptional()
+  additionalDrivers?: any[]; // Same shape as the quote flow's additional drivers
+
+  @ApiPropertyOptional({ example: { collisionDeductible: 1000 }, description: 'Coverage selections to change' })
+  @IsObject()
+  @IsOptional()
+  coverages?: Record<string, any>;
+
+  @ApiPropertyOptional({ type: () => EndorsementAddressDto, description: 'New garaging address' })
+  @ValidateNested()
+  @Type(() => EndorsementAddressDto)
+  @IsOptional()
+  address?: EndorsementAddressDto;
+
+  @ApiPropertyOptional({ type: () => EndorsementContactDto, description: 'Primary insured contact details' })
+  @ValidateNested()
+  @Type(() => EndorsementContactDto)
+  @IsOptional()
+  contact?: EndorsementContactDto;
+}
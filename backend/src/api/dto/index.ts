@@ -9,3 +9,4 @@ export * from './update-driver.dto';
 export * from './update-coverage.dto';
 export * from './bind-policy.dto';
 export * from './file-claim.dto';
+export * from './replay-rating.dto';
@@ -0,0 +1,21 @@
+/**
+ * Replay Rating DTO
+ */
+
+import { IsString, IsNotEmpty, IsOptional, Matches } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class ReplayRatingDto {
+  @ApiProperty({ example: 'DZQV87Z4FH', description: 'Quote number to replay' })
+  @IsString()
+  @IsNotEmpty()
+  quoteNumber: string;
+
+  @ApiPropertyOptional({
+    example: '2026-01-01',
+    description: 'Rate effective date to compare against (YYYY-MM-DD). Defaults to today.',
+  })
+  @IsOptional()
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, { message: 'targetRateEffectiveDate must be in YYYY-MM-DD format' })
+  targetRateEffectiveDate?: string;
+}
@@ -2,9 +2,34 @@
  * Update Driver DTOs
  */
 
-import { IsEmail, IsString, IsInt, Min, IsArray, ValidateNested, IsDateString, IsOptional, IsNotEmpty } from 'class-validator';
+import { IsEmail, IsString, IsInt, Min, IsArray, ValidateNested, IsDateString, IsOptional, IsNotEmpty, IsIn, IsBoolean } from 'class-validator';
 import { Type } from 'class-transformer';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { VIOLATION_TYPES, ACCIDENT_TYPES } from '../../services/rating-engine/driver-rating';
+
+export class DriverViolationDto {
+  @ApiProperty({ example: 'SPEEDING', enum: VIOLATION_TYPES, description: 'Violation type' })
+  @IsIn(VIOLATION_TYPES)
+  type: string;
+
+  @ApiProperty({ example: '2024-03-01', description: 'Conviction date' })
+  @IsDateString()
+  date: string;
+}
+
+export class DriverAccidentDto {
+  @ApiProperty({ example: 'COLLISION', enum: ACCIDENT_TYPES, description: 'Accident type' })
+  @IsIn(ACCIDENT_TYPES)
+  type: string;
+
+  @ApiProperty({ example: true, description: 'Driver was at fault' })
+  @IsBoolean()
+  atFault: boolean;
+
+  @ApiProperty({ example: '2023-11-12', description: 'Accident date' })
+  @IsDateString()
+  date: string;
+}
 
 export class UpdatePrimaryDriverDto {
   @ApiPropertyOptional({ example: 'John', description: 'First name' })
@@ -31,6 +56,20 @@ export class UpdatePrimaryDriverDto {
   @IsString()
   @IsOptional()
   phoneNumber?: string;
+
+  @ApiPropertyOptional({ type: () => [DriverViolationDto], description: 'Moving violations' })
+  @IsArray()
+  @IsOptional()
+  @ValidateNested({ each: true })
+  @Type(() => DriverViolationDto)
+  violations?: DriverViolationDto[];
+
+  @ApiPropertyOptional({ type: () => [DriverAccidentDto], description: 'Accidents' })
+  @IsArray()
+  @IsOptional()
+  @ValidateNested({ each: true })
+  @Type(() => DriverAccidentDto)
+  accidents?: DriverAccidentDto[];
 }
 
 export class DriverUpdateDto {
@@ -74,6 +113,20 @@ export class DriverUpdateDto {
   @IsOptional()
   @Min(0)
   violationsLast3Years?: number;
+
+  @ApiPropertyOptional({ type: () => [DriverViolationDto], description: 'Moving violations' })
+  @IsArray()
+  @IsOptional()
+  @ValidateNested({ each: true })
+  @Type(() => DriverViolationDto)
+  violations?: DriverViolationDto[];
+
+  @ApiPropertyOptional({ type: () => [DriverAccidentDto], description: 'Accidents' })
+  @IsArray()
+  @IsOptional()
+  @ValidateNested({ each: true })
+  @Type(() => DriverAccidentDto)
+  accidents?: DriverAccidentDto[];
 }
 
 export class UpdateDriversDto {
@@ -0,0 +1,42 @@
+/**
+ * Admin Authentication Guard
+ *
+ * Protects staff and system operations that move money or change a policy
+ * for the insurer (refunds, cancellations, reinstatements). Customers never
+ * call these directly.
+ *
+ * When ADMIN_API_SECRET is set, requests must carry
+ * `Authorization: Bearer <ADMIN_API_SECRET>`. Without it, these routes only
+ * work outside production, like the cron jobs without CRON_SECRET.
+ */
+
+import { CanActivate, ExecutionContext, Injectable, Logger } from '@nestjs/common';
+import type { Request } from 'express';
+import { timingSafeEqual } from 'crypto';
+import { UnauthorizedError } from './error-handler';
+
+@Injectable()
+export class AdminAuthGuard implements CanActivate {
+  private readonly logger = new Logger(AdminAuthGuard.name);
+
+  canActivate(context: ExecutionContext): boolean {
+    const req = context.switchToHttp().getRequest<Request>();
+    const secret = process.env.ADMIN_API_SECRET;
+
+    if (!secret) {
+      if (process.env.NODE_ENV === 'production') {
+        throw new UnauthorizedError('Invalid admin credentials');
+      }
+      return true;
+    }
+
+    const expected = Buffer.from(`Bearer ${secret}`);
+    const given = Buffer.from(req.headers.authorization || '');
+    if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+      this.logger.warn(`Rejected admin request to ${req.method} ${req.url}`);
+      throw new UnauthorizedError('Invalid admin credentials');
+    }
+
+    return true;
+  }
+}
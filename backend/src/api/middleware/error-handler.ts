@@ -3,6 +3,7 @@
  *
  * Centralized error handling for the NestJS application.
  * Catches all exceptions, logs them, and returns user-friendly responses.
+ * Card numbers are masked in both the responses and the logs.
  */
 
 import {
@@ -14,6 +15,7 @@ import {
   Logger,
 } from '@nestjs/common';
 import { Request, Response } from 'express';
+import { redactCardNumbers, redactCardNumbersDeep } from '../../utils/validators';
 
 /**
  * Custom error response interface
@@ -120,7 +122,7 @@ export class AllExceptionsFilter implements ExceptionFilter {
     const response = ctx.getResponse<Response>();
     const request = ctx.getRequest<Request>();
 
-    const errorResponse = this.buildErrorResponse(exception, request);
+    const errorResponse = redactCardNumbersDeep(this.buildErrorResponse(exception, request));
 
     // Log the error
     this.logError(exception, request, errorResponse);
@@ -278,7 +280,7 @@ export class AllExceptionsFilter implements ExceptionFilter {
     if (errorResponse.statusCode >= 500) {
       this.logger.error(
         `${errorResponse.error}: ${errorResponse.message}`,
-        exception instanceof Error ? exception.stack : JSON.stringify(exception),
+        redactCardNumbers(exception instanceof Error ? exception.stack || '' : String(JSON.stringify(exception))),
         JSON.stringify(logContext)
       );
     }
@@ -317,7 +319,7 @@ export class HttpExceptionFilter implements ExceptionFilter {
     const status = exception.getStatus();
     const exceptionResponse = exception.getResponse();
 
-    const errorResponse: ErrorResponse = {
+    const errorResponse: ErrorResponse = redactCardNumbersDeep({
       statusCode: status,
       timestamp: new Date().toISOString(),
       path: request.url,
@@ -326,7 +328,7 @@ export class HttpExceptionFilter implements ExceptionFilter {
         ? exceptionResponse
         : (exceptionResponse as any).message || exception.message,
       error: exception.name,
-    };
+    });
 
     this.logger.warn(
       `HTTP ${status} - ${request.method} ${request.url}`,
@@ -0,0 +1,84 @@
+/**
+ * Portal Authentication Guard
+ *
+ * Requires a signed-in session (the session cookie, or an
+ * `Authorization: Bearer <token>` header for API clients). On routes with a
+ * :policyNumber parameter the policy must also be linked to the signed-in
+ * account (user_account_policy).
+ *
+ * - No session, or an expired or signed-out one: 401
+ * - Signed in but not linked to the policy (or no such policy): 403
+ *
+ * The session is attached to the request as `req.portalSession` for controllers.
+ */
+
+import { CanActivate, ExecutionContext, ForbiddenException, Inject, Injectable, Logger } from '@nestjs/common';
+import type { CookieOptions, Request } from 'express';
+import { AuthService, ActiveSession } from '../../services/user-account-service/auth.service';
+import { UnauthorizedError } from './error-handler';
+
+/**
+ * Name of the cookie holding the session token
+ */
+export const SESSION_COOKIE = 'dz_session';
+
+export type AuthenticatedRequest = Request & { portalSession?: ActiveSession };
+
+/**
+ * Cookie settings for the session token
+ *
+ * HttpOnly keeps it out of reach of page scripts; SameSite=Lax keeps other
+ * sites from sending it with their POSTs. Scoped to the API.
+ */
+export function sessionCookieOptions(expiresAt?: Date): CookieOptions {
+  return {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/api',
+    ...(expiresAt && { expires: expiresAt }),
+  };
+}
+
+/**
+ * Session token sent with a request, from the Authorization header or the session cookie
+ */
+export function readSessionToken(req: Request): string | undefined {
+  const authorization = req.headers.authorization;
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim() || undefined;
+  }
+
+  for (const pair of (req.headers.cookie || '').split(';')) {
+    const separator = pair.indexOf('=');
+    if (separator > 0 && pair.slice(0, separator).trim() === SESSION_COOKIE) {
+      return decodeURIComponent(pair.slice(separator + 1).trim()) || undefined;
+    }
+  }
+  return undefined;
+}
+
+@Injectable()
+export class PortalAuthGuard implements CanActivate {
+  private readonly logger = new Logger(PortalAuthGuard.name);
+
+  constructor(@Inject(AuthService) private readonly authService: AuthService) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const req = context.switchToHttp().getRequest<AuthenticatedRequest>();
+
+    const session = await this.authService.validateSession(readSessionToken(req));
+    if (!session) {
+      throw new UnauthorizedError('Please sign in to continue');
+    }
+    req.portalSession = session;
+
+    const policyNumber = req.params?.policyNumber;
+    if (policyNumber && !(await this.authService.canAccessPolicy(session.account, policyNumber))) {
+      this.logger.warn(`Account ${session.account.account_id} denied access to policy ${policyNumber}`);
+      throw new ForbiddenException('You do not have access to this policy');
+    }
+
+    return true;
+  }
+}
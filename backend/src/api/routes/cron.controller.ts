@@ -0,0 +1,168 @@
+/**
+ * Cron Controller
+ *
+ * Scheduled jobs, called by Vercel Cron (see vercel.json). Locally, run the
+ * same jobs with `npm run job -- <name>` instead.
+ *
+ * - GET /api/v1/cron/collect-payments - Collect due installments
+ * - GET /api/v1/cron/settle-ach-payments - Settle or return processing ACH debits
+ * - GET /api/v1/cron/process-cancellations - Cancel policies on their scheduled cancellation date
+ * - GET /api/v1/cron/process-renewals - Offer renewals before expiration; renew or lapse at expiration
+ * - GET /api/v1/cron/expire-quotes - Mark unbound quotes past their 30-day validity EXPIRED
+ * - GET /api/v1/cron/activate-policies - Put bound policies in force on their effective date (hourly)
+ *
+ * When CRON_SECRET is set, requests must carry `Authorization: Bearer <CRON_SECRET>`
+ * (Vercel Cron sends it automatically). Without it, jobs only run outside production.
+ */
+
+import { Controller, Get, Headers, Logger } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiHeader } from '@nestjs/swagger';
+import { CollectionService } from '../../services/billing/collection.service';
+import type { CollectionRunResult } from '../../services/billing/collection.service';
+import { AchSettlementService } from '../../services/billing/ach-settlement.service';
+import type { AchSettlementRunResult } from '../../services/billing/ach-settlement.service';
+import { PolicyCancellationService } from '../../services/policy/policy-cancellation.service';
+import type { CancellationRunResult } from '../../services/policy/policy-cancellation.service';
+import { RenewalService } from '../../services/policy/renewal.service';
+import type { RenewalRunResult } from '../../services/policy/renewal.service';
+import { QuoteService } from '../../services/quote/quote.service';
+import type { QuoteExpirationRunResult, PolicyActivationRunResult } from '../../services/quote/quote.service';
+import { UnauthorizedError } from '../middleware/error-handler';
+
+@ApiTags('Scheduled Jobs')
+@ApiHeader({ name: 'Authorization', description: 'Bearer <CRON_SECRET>', required: false })
+@Controller('api/v1/cron')
+export class CronController {
+  private readonly logger = new Logger(CronController.name);
+
+  constructor(
+    private readonly collectionService: CollectionService,
+    private readonly achSettlementService: AchSettlementService,
+    private readonly cancellationService: PolicyCancellationService,
+    private readonly renewalService: RenewalService,
+    private readonly quoteService: QuoteService,
+  ) {}
+
+  /**
+   * Collect due installments
+   *
+   * GET /api/v1/cron/collect-payments
+   */
+  @Get('collect-payments')
+  @ApiOperation({
+    summary: 'Collect due installments',
+    description: 'Charge due scheduled installments, retry declines and start pending cancellation after the grace period',
+  })
+  @ApiResponse({ status: 200, description: 'Collection run completed' })
+  @ApiResponse({ status: 401, description: 'Missing or invalid cron secret' })
+  async collectPayments(@Headers('authorization') authorization?: string): Promise<CollectionRunResult> {
+    this.authorize(authorization);
+    this.logger.log('Running installment collection');
+
+    return this.collectionService.run();
+  }
+
+  /**
+   * Settle processing ACH debits
+   *
+   * GET /api/v1/cron/settle-ach-payments
+   */
+  @Get('settle-ach-payments')
+  @ApiOperation({
+    summary: 'Settle ACH debits',
+    description: 'Complete settled ACH debits, and mark returned ones RETURNED with the policy on payment hold',
+  })
+  @ApiResponse({ status: 200, description: 'Settlement run completed' })
+  @ApiResponse({ status: 401, description: 'Missing or invalid cron secret' })
+  async settleAchPayments(@Headers('authorization') authorization?: string): Promise<AchSettlementRunResult> {
+    this.authorize(authorization);
+    this.logger.log('Running ACH settlement');
+
+    return this.achSettlementService.run();
+  }
+
+  /**
+   * Complete scheduled cancellations
+   *
+   * GET /api/v1/cron/process-cancellations
+   */
+  @Get('process-cancellations')
+  @ApiOperation({
+    summary: 'Process scheduled cancellations',
+    description: 'Cancel PENDING_CANCELLATION policies whose cancellation date has arrived and refund their unearned premium',
+  })
+  @ApiResponse({ status: 200, description: 'Cancellation run completed' })
+  @ApiResponse({ status: 401, description: 'Missing or invalid cron secret' })
+  async processCancellations(@Headers('authorization') authorization?: string): Promise<CancellationRunResult> {
+    this.authorize(authorization);
+    this.logger.log('Processing scheduled cancellations');
+
+    return this.cancellationService.processScheduledCancellations();
+  }
+
+  /**
+   * Offer, renew and lapse policy renewals
+   *
+   * GET /api/v1/cron/process-renewals
+   */
+  @Get('process-renewals')
+  @ApiOperation({
+    summary: 'Process policy renewals',
+    description: 'Offer re-rated renewals to policies nearing expiration, then renew them on the payment method on file or let declined ones lapse at expiration',
+  })
+  @ApiResponse({ status: 200, description: 'Renewal run completed' })
+  @ApiResponse({ status: 401, description: 'Missing or invalid cron secret' })
+  async processRenewals(@Headers('authorization') authorization?: string): Promise<RenewalRunResult> {
+    this.authorize(authorization);
+    this.logger.log('Processing policy renewals');
+
+    return this.renewalService.run();
+  }
+
+  /**
+   * Expire stale quotes
+   *
+   * GET /api/v1/cron/expire-quotes
+   */
+  @Get('expire-quotes')
+  @ApiOperation({
+    summary: 'Expire stale quotes',
+    description: 'Mark quotes that were not bound within 30 days of pricing EXPIRED; they can be re-quoted at current rates',
+  })
+  @ApiResponse({ status: 200, description: 'Quote expiration run completed' })
+  @ApiResponse({ status: 401, description: 'Missing or invalid cron secret' })
+  async expireQuotes(@Headers('authorization') authorization?: string): Promise<QuoteExpirationRunResult> {
+    this.authorize(authorization);
+    this.logger.log('Expiring stale quotes');
+
+    return this.quoteService.expireQuotes();
+  }
+
+  /**
+   * Activate policies reaching their effective date
+   *
+   * GET /api/v1/cron/activate-policies
+   */
+  @Get('activate-policies')
+  @ApiOperation({
+    summary: 'Activate bound policies',
+    description: 'Move BOUND policies to IN_FORCE once their effective date is reached in the policy time zone, ' +
+      'issue their ID cards and send the activation notice. Reruns never repeat a completed activation; failed ones are resumed',
+  })
+  @ApiResponse({ status: 200, description: 'Activation run completed' })
+  @ApiResponse({ status: 401, description: 'Missing or invalid cron secret' })
+  async activatePolicies(@Headers('authorization') authorization?: string): Promise<PolicyActivationRunResult> {
+    this.authorize(authorization);
+    this.logger.log('Activating policies reaching their effective date');
+
+    return this.quoteService.activateDuePolicies();
+  }
+
+  private authorize(authorization?: string): void {
+    const secret = process.env.CRON_SECRET;
+
+    if (secret ? authorization !== `Bearer ${secret}` : process.env.NODE_ENV === 'production') {
+      throw new UnauthorizedError('Invalid cron secret');
+    }
+  }
+}
@@ -5,6 +5,9 @@
  * - GET /api/v1/portal/:policyNumber/documents - List all documents for a policy
  * - GET /api/v1/portal/:policyNumber/documents/:documentId/download - Download a document
  *
+ * Both require a signed-in account linked to :policyNumber (PortalAuthGuard).
+ * The session travels in a cookie, so download links opened in a new tab work.
+ *
  * Feature: 003-portal-document-download
  * Tasks: T023, T024, T025
  */
@@ -19,6 +22,7 @@ import {
   InternalServerErrorException,
   Logger,
   HttpStatus,
+  UseGuards,
 } from '@nestjs/common';
 import { Response } from 'express';
 import { DocumentService } from '../../services/document-service/document.service';
@@ -31,8 +35,10 @@ import { Inject } from '@nestjs/common';
 import { policy } from '../../../../database/schema/policy.schema';
 import { eq } from 'drizzle-orm';
 import { mapPolicyToDeclarationsData } from '../../utils/document-formatters';
+import { PortalAuthGuard } from '../middleware/portal-auth.guard';
 
 @Controller('api/v1/portal')
+@UseGuards(PortalAuthGuard)
 export class DocumentsController {
   private readonly logger = new Logger(DocumentsController.name);
 
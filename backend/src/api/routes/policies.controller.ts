@@ -1,8 +1,11 @@
 /**
  * Policies API Controller
  *
- * Handles policy binding and activation endpoints.
+ * Handles policy binding, activation, refund, cancellation, reinstatement and version endpoints.
  * This controller manages the conversion of quotes to policies with payment.
+ *
+ * Staff and system operations (refunds, cancellations, reinstatements)
+ * require AdminAuthGuard.
  */
 
 import {
@@ -12,18 +15,46 @@ import {
   Put,
   Body,
   Param,
+  Query,
   HttpCode,
   HttpStatus,
   Logger,
+  BadRequestException,
+  UseGuards,
 } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiBody, ApiParam, ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBody,
+  ApiParam,
+  ApiQuery,
+  ApiProperty,
+  ApiPropertyOptional,
+  ApiHeader,
+} from '@nestjs/swagger';
+import { IsBoolean, IsIn, IsNumber, IsOptional, IsString, IsUUID, Matches, Min } from 'class-validator';
 import { QuoteService } from '../../services/quote/quote.service';
+import { RefundService } from '../../services/billing/refund.service';
+import {
+  PolicyCancellationService,
+  CANCELLATION_REASONS,
+  RETURN_PREMIUM_METHODS,
+} from '../../services/policy/policy-cancellation.service';
+import type { CancellationReason, ReturnPremiumMethod } from '../../services/policy/policy-cancellation.service';
+import { PolicyVersionService } from '../../services/policy/policy-version.service';
+import { PolicyReinstatementService } from '../../services/policy/policy-reinstatement.service';
+import { AdminAuthGuard } from '../middleware/admin-auth.guard';
 
 /**
  * DTO for binding a quote to a policy
+ *
+ * Payment is by token only (tokenized in the browser against the payment
+ * gateway); raw card and bank account details are rejected.
  */
 export class BindQuoteDto {
   @ApiProperty({ example: 'DZQV87Z4FH', description: 'Quote number in DZXXXXXXXX format' })
+  @IsString()
   quoteNumber: string;
 
   @ApiProperty({
@@ -31,43 +62,135 @@ export class BindQuoteDto {
     description: 'Payment method type',
     enum: ['credit_card', 'ach']
   })
+  @IsIn(['credit_card', 'ach'])
   paymentMethod: 'credit_card' | 'ach';
 
-  // Credit card fields
-  @ApiPropertyOptional({ example: '4242424242424242', description: 'Credit card number (required if paymentMethod is credit_card)' })
-  cardNumber?: string;
+  @ApiProperty({ example: 'tok_visa_4242_lx2k9a', description: 'Payment token from the payment gateway (POST /v1/tokens)' })
+  @IsString()
+  paymentToken: string;
+
+  @ApiPropertyOptional({
+    example: 'checking',
+    description: 'Account type (ach only)',
+    enum: ['checking', 'savings']
+  })
+  @IsOptional()
+  @IsIn(['checking', 'savings'])
+  accountType?: 'checking' | 'savings';
+}
+
+/**
+ * DTO for refunding a policy payment
+ *
+ * With a paymentId, refunds that payment (in full unless an amount is given);
+ * without one, returns the amount from the policy's payments, newest first.
+ */
+export class RefundPaymentDto {
+  @ApiPropertyOptional({ example: 'uuid', description: 'Payment to refund (default: the policy\'s payments, newest first)' })
+  @IsOptional()
+  @IsUUID()
+  paymentId?: string;
+
+  @ApiPropertyOptional({ example: 50.25, description: 'Amount to refund in USD (required without paymentId; default: the full payment)' })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0.01)
+  amount?: number;
+
+  @ApiProperty({ example: 'Billing error', description: 'Reason shown on the refund' })
+  @IsString()
+  reason: string;
+}
+
+/**
+ * DTO for cancelling a policy
+ *
+ * Without a cancellationDate, the policy is cancelled as early as the reason
+ * allows: today for insured requests, after the notice period otherwise.
+ */
+export class CancelPolicyDto {
+  @ApiProperty({ example: 'INSURED_REQUEST', description: 'Cancellation reason', enum: CANCELLATION_REASONS })
+  @IsIn(CANCELLATION_REASONS)
+  reason: CancellationReason;
 
-  @ApiPropertyOptional({ example: '12/25', description: 'Card expiration date MM/YY (required if paymentMethod is credit_card)' })
-  cardExpiry?: string;
+  @ApiPropertyOptional({ example: '2026-11-15', description: 'Cancellation date in YYYY-MM-DD format (default: earliest allowed)' })
+  @IsOptional()
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, { message: 'cancellationDate must be in YYYY-MM-DD format' })
+  cancellationDate?: string;
 
-  @ApiPropertyOptional({ example: '123', description: 'Card CVV (required if paymentMethod is credit_card)' })
-  cardCvv?: string;
+  @ApiPropertyOptional({
+    example: 'PRO_RATA',
+    description: 'Return premium method (default: SHORT_RATE for insured requests, PRO_RATA otherwise)',
+    enum: RETURN_PREMIUM_METHODS
+  })
+  @IsOptional()
+  @IsIn(RETURN_PREMIUM_METHODS)
+  returnPremiumMethod?: ReturnPremiumMethod;
 
-  // ACH fields
-  @ApiPropertyOptional({ example: '110000000', description: 'Bank routing number (required if paymentMethod is ach)' })
-  routingNumber?: string;
+  @ApiPropertyOptional({ example: 'Sold the vehicle', description: 'Shown on the cancellation notice' })
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
 
-  @ApiPropertyOptional({ example: '000123456789', description: 'Bank account number (required if paymentMethod is ach)' })
-  accountNumber?: string;
+/**
+ * DTO for reinstating a policy after non-payment
+ *
+ * Without a paymentToken, the past-due amount is charged to the payment
+ * method on file; a new token also pays the remaining installments.
+ */
+export class ReinstatePolicyDto {
+  @ApiPropertyOptional({
+    example: 'credit_card',
+    description: 'Payment method type (required with paymentToken)',
+    enum: ['credit_card', 'ach']
+  })
+  @IsOptional()
+  @IsIn(['credit_card', 'ach'])
+  paymentMethod?: 'credit_card' | 'ach';
+
+  @ApiPropertyOptional({ example: 'tok_visa_4242_lx2k9a', description: 'Payment token from the payment gateway (POST /v1/tokens) (default: payment method on file)' })
+  @IsOptional()
+  @IsString()
+  paymentToken?: string;
 
   @ApiPropertyOptional({
     example: 'checking',
-    description: 'Account type (required if paymentMethod is ach)',
+    description: 'Account type (ach only)',
     enum: ['checking', 'savings']
   })
+  @IsOptional()
+  @IsIn(['checking', 'savings'])
   accountType?: 'checking' | 'savings';
+
+  @ApiPropertyOptional({
+    example: true,
+    description: 'Reinstate a cancelled policy with a lapse in coverage from the cancellation date (default: without a lapse while allowed)'
+  })
+  @IsOptional()
+  @IsBoolean()
+  withLapse?: boolean;
 }
 
+// Raw payment details that must go through tokenization instead
+const RAW_PAYMENT_FIELDS = ['cardNumber', 'cardExpiry', 'cardCvv', 'routingNumber', 'accountNumber'];
+
 /**
  * T095: Policies Controller
- * Endpoints for policy binding, activation, and retrieval
+ * Endpoints for policy binding, activation, refunds, cancellation, reinstatement, versions and retrieval
  */
 @ApiTags('Policies')
 @Controller('api/v1/policies')
 export class PoliciesController {
   private readonly logger = new Logger(PoliciesController.name);
 
-  constructor(private readonly quoteService: QuoteService) {}
+  constructor(
+    private readonly quoteService: QuoteService,
+    private readonly refundService: RefundService,
+    private readonly cancellationService: PolicyCancellationService,
+    private readonly reinstatementService: PolicyReinstatementService,
+    private readonly policyVersions: PolicyVersionService,
+  ) {}
 
   /**
    * POST /api/v1/policies/bind
@@ -78,9 +201,7 @@ export class PoliciesController {
    * {
    *   "quoteNumber": "DZ12345678",
    *   "paymentMethod": "credit_card",
-   *   "cardNumber": "4242424242424242",
-   *   "cardExpiry": "12/25",
-   *   "cardCvv": "123"
+   *   "paymentToken": "tok_visa_4242_lx2k9a"
    * }
    *
    * Response:
@@ -98,26 +219,31 @@ export class PoliciesController {
   @Post('bind')
   @ApiOperation({
     summary: 'Bind quote to policy',
-    description: 'Convert a quote to a bound policy by processing payment. Supports credit card and ACH payments. Transitions quote status from QUOTED → BINDING → BOUND.'
+    description: 'Convert a quote to a bound policy by charging a tokenized payment method (credit card or ACH). Transitions quote status from QUOTED → BINDING → BOUND, ' +
+      'then to IN_FORCE when coverage starts the same day.'
   })
   @ApiBody({ type: BindQuoteDto, description: 'Payment information and quote number' })
   @ApiResponse({ status: 200, description: 'Policy bound successfully with payment confirmation and generated documents' })
-  @ApiResponse({ status: 400, description: 'Invalid payment details or quote not in QUOTED status' })
+  @ApiResponse({ status: 400, description: 'Raw payment details, payment declined or quote not in QUOTED status' })
   @ApiResponse({ status: 404, description: 'Quote not found' })
+  @ApiResponse({ status: 410, description: 'Quote has expired; re-quote it at current rates' })
+  @ApiResponse({ status: 422, description: 'Liability limits below the garaging state minimum' })
   @ApiResponse({ status: 500, description: 'Internal server error' })
   @HttpCode(HttpStatus.OK)
   async bindQuote(@Body() bindQuoteDto: BindQuoteDto) {
+    if (RAW_PAYMENT_FIELDS.some(field => field in bindQuoteDto)) {
+      throw new BadRequestException(
+        'Card and bank account details are not accepted here; tokenize them with the payment gateway and send the token'
+      );
+    }
+
     this.logger.log(`Binding quote ${bindQuoteDto.quoteNumber}`);
 
     const result = await this.quoteService.bindQuote(
       bindQuoteDto.quoteNumber,
       {
         paymentMethod: bindQuoteDto.paymentMethod,
-        cardNumber: bindQuoteDto.cardNumber,
-        cardExpiry: bindQuoteDto.cardExpiry,
-        cardCvv: bindQuoteDto.cardCvv,
-        routingNumber: bindQuoteDto.routingNumber,
-        accountNumber: bindQuoteDto.accountNumber,
+        paymentToken: bindQuoteDto.paymentToken,
         accountType: bindQuoteDto.accountType,
       }
     );
@@ -139,21 +265,29 @@ export class PoliciesController {
    *   "success": true,
    *   "data": {
    *     "policyId": "uuid",
+   *     "policyNumber": "DZ12345678",
    *     "status": "IN_FORCE",
    *     "effectiveDate": "2025-11-01",
-   *     "expirationDate": "2026-11-01"
+   *     "expirationDate": "2026-11-01",
+   *     "timeZone": "America/Chicago",
+   *     "activatedAt": "2025-11-01T05:05:00.000Z",
+   *     "idCardCount": 2,
+   *     "alreadyActivated": false
    *   }
    * }
    */
   @Post(':id/activate')
   @ApiOperation({
     summary: 'Activate policy',
-    description: 'Activate a bound policy (transitions status from BOUND → IN_FORCE). This happens automatically on the effective date.'
+    description: 'Activate a bound policy (transitions status from BOUND → IN_FORCE), issue its ID cards and send the activation notice. ' +
+      'This happens automatically on the effective date in the policy time zone (activate-policies job), or at binding for coverage starting the same day; ' +
+      'activating an already activated policy returns it unchanged.'
   })
   @ApiParam({ name: 'id', description: 'Policy ID (UUID) or policy number (DZXXXXXXXX format)', example: 'DZQV87Z4FH' })
   @ApiResponse({ status: 200, description: 'Policy activated successfully' })
-  @ApiResponse({ status: 400, description: 'Policy not in BOUND status' })
   @ApiResponse({ status: 404, description: 'Policy not found' })
+  @ApiResponse({ status: 409, description: 'Policy not in BOUND status' })
+  @ApiResponse({ status: 422, description: 'Effective date not reached, or the policy is already being activated' })
   @ApiResponse({ status: 500, description: 'Internal server error' })
   @HttpCode(HttpStatus.OK)
   async activatePolicy(@Param('id') policyId: string) {
@@ -168,15 +302,256 @@ export class PoliciesController {
     };
   }
 
+  /**
+   * POST /api/v1/policies/:id/refunds
+   * Refund a payment in full or in part, or return premium from the policy's payments
+   *
+   * @example
+   * Request:
+   * {
+   *   "paymentId": "uuid",
+   *   "amount": 50.25,
+   *   "reason": "Billing error"
+   * }
+   *
+   * Response:
+   * {
+   *   "success": true,
+   *   "data": [
+   *     {
+   *       "refundId": "uuid",
+   *       "refundNumber": "REF-ABC12345",
+   *       "paymentId": "uuid",
+   *       "paymentNumber": "PAY-XYZ98765",
+   *       "amount": 50.25,
+   *       "status": "COMPLETED",
+   *       "paymentStatus": "PARTIALLY_REFUNDED",
+   *       "refundableAmount": 149.75
+   *     }
+   *   ]
+   * }
+   */
+  @Post(':id/refunds')
+  @UseGuards(AdminAuthGuard)
+  @ApiHeader({ name: 'Authorization', description: 'Bearer <ADMIN_API_SECRET>', required: false })
+  @ApiOperation({
+    summary: 'Refund payment',
+    description: 'Refund a completed payment (full or partial) through the payment gateway, or return an amount of premium from the policy\'s payments. Refunds are recorded as credits linked to the original payment.'
+  })
+  @ApiParam({ name: 'id', description: 'Policy ID (UUID)' })
+  @ApiBody({ type: RefundPaymentDto })
+  @ApiResponse({ status: 200, description: 'Refund issued' })
+  @ApiResponse({ status: 400, description: 'Missing amount or reason' })
+  @ApiResponse({ status: 401, description: 'Missing or invalid admin secret' })
+  @ApiResponse({ status: 404, description: 'Payment not found on this policy' })
+  @ApiResponse({ status: 422, description: 'Payment not refundable, amount exceeds what is left to refund, or refund declined' })
+  @HttpCode(HttpStatus.OK)
+  async refundPayment(@Param('id') policyId: string, @Body() refundDto: RefundPaymentDto) {
+    this.logger.log(`Refunding payment on policy ${policyId}`);
+
+    if (!refundDto.paymentId && refundDto.amount === undefined) {
+      throw new BadRequestException('amount is required when no paymentId is given');
+    }
+
+    const refunds = refundDto.paymentId
+      ? [await this.refundService.refundPayment(refundDto.paymentId, refundDto.reason, refundDto.amount, policyId)]
+      : await this.refundService.refundPolicy(policyId, refundDto.amount!, refundDto.reason);
+
+    return {
+      success: true,
+      data: refunds,
+      message: 'Refund issued successfully',
+    };
+  }
+
+  /**
+   * POST /api/v1/policies/:id/cancel
+   * Cancel a policy now or on a future date, returning the unearned premium
+   *
+   * @example
+   * Request:
+   * {
+   *   "reason": "INSURED_REQUEST",
+   *   "cancellationDate": "2026-11-15"
+   * }
+   *
+   * Response:
+   * {
+   *   "success": true,
+   *   "data": {
+   *     "policyId": "uuid",
+   *     "policyNumber": "DZ12345678",
+   *     "status": "PENDING_CANCELLATION",
+   *     "reason": "INSURED_REQUEST",
+   *     "cancellationDate": "2026-11-15",
+   *     "returnPremium": { "method": "SHORT_RATE", "earnedPremium": 112.4, "returnPremium": 531.6, ... },
+   *     "refunds": [],
+   *     "noticeDocumentId": "uuid"
+   *   }
+   * }
+   */
+  @Post(':id/cancel')
+  @UseGuards(AdminAuthGuard)
+  @ApiHeader({ name: 'Authorization', description: 'Bearer <ADMIN_API_SECRET>', required: false })
+  @ApiOperation({
+    summary: 'Cancel policy',
+    description: 'Cancel a policy for an insured request, non-payment or underwriting reasons. A cancellation dated today takes effect immediately (CANCELLED) and refunds the unearned premium; a future one moves the policy to PENDING_CANCELLATION until that date. Generates a cancellation notice document.'
+  })
+  @ApiParam({ name: 'id', description: 'Policy ID (UUID)' })
+  @ApiBody({ type: CancelPolicyDto })
+  @ApiResponse({ status: 200, description: 'Policy cancelled or cancellation scheduled' })
+  @ApiResponse({ status: 400, description: 'Invalid reason, date or return premium method' })
+  @ApiResponse({ status: 401, description: 'Missing or invalid admin secret' })
+  @ApiResponse({ status: 404, description: 'Policy not found' })
+  @ApiResponse({ status: 409, description: 'Policy cannot be cancelled from its current status' })
+  @ApiResponse({ status: 422, description: 'Date inside the notice period or after expiration, or refund declined' })
+  @HttpCode(HttpStatus.OK)
+  async cancelPolicy(@Param('id') policyId: string, @Body() cancelDto: CancelPolicyDto) {
+    this.logger.log(`Cancelling policy ${policyId}`);
+
+    const result = await this.cancellationService.cancelPolicy(policyId, cancelDto);
+
+    return {
+      success: true,
+      data: result,
+      message: result.status === 'CANCELLED'
+        ? 'Policy cancelled successfully'
+        : `Policy cancellation scheduled for ${result.cancellationDate}`,
+    };
+  }
+
+  /**
+   * POST /api/v1/policies/:id/reinstate
+   * Collect the past-due amount and put a policy that left active status for non-payment back in force
+   *
+   * @example
+   * Request:
+   * {
+   *   "withLapse": true
+   * }
+   *
+   * Response:
+   * {
+   *   "success": true,
+   *   "data": {
+   *     "reinstatementId": "uuid",
+   *     "policyNumber": "DZ12345678",
+   *     "status": "IN_FORCE",
+   *     "previousStatus": "CANCELLED",
+   *     "reinstatementDate": "2026-11-20",
+   *     "lapse": { "start": "2026-11-05", "end": "2026-11-20", "days": 15 },
+   *     "pastDueAmount": 224.8,
+   *     "lapseCredit": 48.62,
+   *     "amountCollected": 176.18,
+   *     "payment": { "paymentId": "uuid", "paymentNumber": "PAY-X7K2M9QA", "status": "COMPLETED", ... }
+   *   }
+   * }
+   */
+  @Post(':id/reinstate')
+  @UseGuards(AdminAuthGuard)
+  @ApiHeader({ name: 'Authorization', description: 'Bearer <ADMIN_API_SECRET>', required: false })
+  @ApiOperation({
+    summary: 'Reinstate policy',
+    description: 'Reinstate a policy on payment hold, pending cancellation or cancelled for non-payment, within the reinstatement window (REINSTATEMENT_WINDOW_DAYS, default 30) after it left active status. Charges the past-due installments to the payment method on file or a new token and puts the policy back IN_FORCE. A cancelled policy is reinstated without a lapse in coverage within REINSTATEMENT_NO_LAPSE_DAYS (default 10) of its cancellation date; otherwise coverage lapses from the cancellation date, the premium for the lapse is credited and the lapse is recorded in the policy event history.'
+  })
+  @ApiParam({ name: 'id', description: 'Policy ID (UUID)' })
+  @ApiBody({ type: ReinstatePolicyDto })
+  @ApiResponse({ status: 200, description: 'Policy reinstated' })
+  @ApiResponse({ status: 400, description: 'Raw payment details, or a payment token without its method' })
+  @ApiResponse({ status: 401, description: 'Missing or invalid admin secret' })
+  @ApiResponse({ status: 404, description: 'Policy not found' })
+  @ApiResponse({ status: 409, description: 'Policy cannot be reinstated from its current status' })
+  @ApiResponse({ status: 422, description: 'Not suspended or cancelled for non-payment, window closed, lapse required, or payment declined' })
+  @HttpCode(HttpStatus.OK)
+  async reinstatePolicy(@Param('id') policyId: string, @Body() reinstateDto: ReinstatePolicyDto) {
+    if (RAW_PAYMENT_FIELDS.some(field => field in reinstateDto)) {
+      throw new BadRequestException(
+        'Card and bank account details are not accepted here; tokenize them with the payment gateway and send the token'
+      );
+    }
+
+    this.logger.log(`Reinstating policy ${policyId}`);
+
+    const result = await this.reinstatementService.reinstatePolicy(policyId, reinstateDto);
+
+    return {
+      success: true,
+      data: result,
+      message: result.lapse
+        ? `Policy reinstated with a ${result.lapse.days}-day lapse in coverage`
+        : 'Policy reinstated without a lapse in coverage',
+    };
+  }
+
+  /**
+   * GET /api/v1/policies/:id/versions
+   * List the versions of a policy (bind and each applied endorsement)
+   */
+  @Get(':id/versions')
+  @ApiOperation({
+    summary: 'Get policy versions',
+    description: 'List the immutable, effective-dated versions of a policy, oldest first. Version 1 is written at binding and each applied endorsement adds one.'
+  })
+  @ApiParam({ name: 'id', description: 'Policy ID (UUID) or policy number (DZXXXXXXXX format)', example: 'DZQV87Z4FH' })
+  @ApiResponse({ status: 200, description: 'Policy versions retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Policy not found' })
+  async getPolicyVersions(@Param('id') policyId: string) {
+    const versions = await this.policyVersions.getVersions(policyId);
+
+    return {
+      success: true,
+      data: versions,
+    };
+  }
+
+  /**
+   * GET /api/v1/policies/:id/versions/in-force?date=YYYY-MM-DD
+   * Drivers, vehicles and coverage in force on a date
+   *
+   * @example
+   * Response:
+   * {
+   *   "success": true,
+   *   "data": {
+   *     "policyNumber": "DZ12345678",
+   *     "asOfDate": "2026-03-14",
+   *     "versionNumber": 2,
+   *     "effectiveDate": "2026-02-01",
+   *     "vehicles": [ ... ],
+   *     "coverages": { ... }
+   *   }
+   * }
+   */
+  @Get(':id/versions/in-force')
+  @ApiOperation({
+    summary: 'Get coverage in force on a date',
+    description: 'Return the policy version in force on the given date, with its drivers, vehicles, coverages and term premium.'
+  })
+  @ApiParam({ name: 'id', description: 'Policy ID (UUID) or policy number (DZXXXXXXXX format)', example: 'DZQV87Z4FH' })
+  @ApiQuery({ name: 'date', description: 'Date (YYYY-MM-DD)', example: '2026-03-14' })
+  @ApiResponse({ status: 200, description: 'Version in force retrieved successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid date' })
+  @ApiResponse({ status: 404, description: 'Policy not found or not in force on that date' })
+  async getVersionInForce(@Param('id') policyId: string, @Query('date') date: string) {
+    const version = await this.policyVersions.getVersionInForce(policyId, date);
+
+    return {
+      success: true,
+      data: version,
+    };
+  }
+
   /**
    * GET /api/v1/policies/:id
-   * Get policy details by policy ID
+   * Get policy details by policy ID, with the actions its status allows
    *
    * @example
    * Response:
    * {
    *   "success": true,
    *   "data": {
+   *     "quote_status": "IN_FORCE",
+   *     "allowed_actions": ["ENDORSE", "RENEW", "HOLD_PAYMENT", "SCHEDULE_CANCELLATION", "CANCEL", "LAPSE"],
    *     "policy": { ... },
    *     "payments": [ ... ],
    *     "documents": [ ... ],
@@ -187,7 +562,8 @@ export class PoliciesController {
   @Get(':id')
   @ApiOperation({
     summary: 'Get policy details',
-    description: 'Retrieve complete policy details including payments, documents, and events by policy ID or policy number'
+    description: 'Retrieve complete policy details including payments, documents, and events by policy ID or policy number. ' +
+      'allowed_actions lists the actions the current status allows (e.g. BIND, ENDORSE, CANCEL)'
   })
   @ApiParam({ name: 'id', description: 'Policy ID (UUID) or policy number (DZXXXXXXXX format)', example: 'DZQV87Z4FH' })
   @ApiResponse({ status: 200, description: 'Policy details retrieved successfully' })
@@ -6,7 +6,12 @@
  * - Policy details (drivers, vehicles, coverages)
  * - Billing history
  * - Claims (list, view, file new)
+ * - Policy changes (propose, review and confirm endorsements)
  * - Document downloads
+ * - Sharing the policy with a household member's account
+ *
+ * Every route requires a signed-in account linked to :policyNumber
+ * (PortalAuthGuard): 401 without a session, 403 for someone else's policy.
  */
 
 import {
@@ -19,10 +24,18 @@ import {
   UseInterceptors,
   HttpException,
   HttpStatus,
+  UseGuards,
+  Req,
 } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiBody, ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { FileInterceptor } from '@nestjs/platform-express';
 import { QuoteService } from '../../services/quote/quote.service';
+import { EndorsementService } from '../../services/policy/endorsement.service';
+import { RenewalService } from '../../services/policy/renewal.service';
+import { ProposeEndorsementDto } from '../dto/endorsement.dto';
+import { IsEmail } from 'class-validator';
+import { AccountPolicyService } from '../../services/user-account-service/account-policy.service';
+import { PortalAuthGuard, AuthenticatedRequest } from '../middleware/portal-auth.guard';
 
 // Simple response helper
 const formatResponse = (data: any, message?: string) => ({
@@ -55,10 +68,25 @@ export class FileClaimDto {
   driver_identifier?: string;
 }
 
+/**
+ * DTO for sharing a policy with a household member
+ */
+export class SharePolicyDto {
+  @ApiProperty({ example: 'partner@example.com', description: 'Email of the household member\'s account' })
+  @IsEmail()
+  email: string;
+}
+
 @ApiTags('Portal')
 @Controller('api/v1/portal')
+@UseGuards(PortalAuthGuard)
 export class PortalController {
-  constructor(private readonly quoteService: QuoteService) {}
+  constructor(
+    private readonly quoteService: QuoteService,
+    private readonly endorsementService: EndorsementService,
+    private readonly renewalService: RenewalService,
+    private readonly accountPolicyService: AccountPolicyService,
+  ) {}
 
   /**
    * GET /api/v1/portal/:policyNumber/dashboard
@@ -76,7 +104,8 @@ export class PortalController {
   async getDashboard(@Param('policyNumber') policyNumber: string) {
     try {
       const data = await this.quoteService.getDashboardData(policyNumber);
-      return formatResponse(data, 'Dashboard data retrieved');
+      const renewal = await this.renewalService.getRenewal(policyNumber);
+      return formatResponse({ ...data, renewal }, 'Dashboard data retrieved');
     } catch (error) {
       throw new HttpException(
         error.message || 'Failed to get dashboard data',
@@ -271,6 +300,144 @@ export class PortalController {
     }
   }
 
+  /**
+   * GET /api/v1/portal/:policyNumber/endorsements
+   * List proposed and applied policy changes
+   */
+  @Get(':policyNumber/endorsements')
+  @ApiOperation({
+    summary: 'Get policy changes',
+    description: 'List proposed and applied endorsements on the policy, newest first.'
+  })
+  @ApiParam({ name: 'policyNumber', description: 'Policy number in DZXXXXXXXX format', example: 'DZQV87Z4FH' })
+  @ApiResponse({ status: 200, description: 'Endorsements retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Policy not found' })
+  async getEndorsements(@Param('policyNumber') policyNumber: string) {
+    const endorsements = await this.endorsementService.getEndorsements(policyNumber);
+    return formatResponse(endorsements);
+  }
+
+  /**
+   * POST /api/v1/portal/:policyNumber/endorsements
+   * Propose a mid-term change and preview the pro-rated premium
+   */
+  @Post(':policyNumber/endorsements')
+  @ApiOperation({
+    summary: 'Propose a policy change',
+    description: 'Re-rate the policy with changed vehicles, drivers, coverage or contact details. Returns the new term premium and the pro-rated difference for the rest of the term. Nothing changes until the endorsement is confirmed.'
+  })
+  @ApiParam({ name: 'policyNumber', description: 'Policy number in DZXXXXXXXX format', example: 'DZQV87Z4FH' })
+  @ApiBody({ type: ProposeEndorsementDto, description: 'Changes and the date they take effect' })
+  @ApiResponse({ status: 201, description: 'Change re-rated and proposed' })
+  @ApiResponse({ status: 400, description: 'No changes or invalid effective date' })
+  @ApiResponse({ status: 404, description: 'Policy not found' })
+  @ApiResponse({ status: 422, description: 'Policy not in force, date outside the term, or coverage below state minimums' })
+  async proposeEndorsement(
+    @Param('policyNumber') policyNumber: string,
+    @Body() body: ProposeEndorsementDto,
+  ) {
+    const { effectiveDate, ...changes } = body;
+    const endorsement = await this.endorsementService.proposeEndorsement(policyNumber, changes, effectiveDate);
+    return formatResponse(endorsement, 'Policy change proposed');
+  }
+
+  /**
+   * POST /api/v1/portal/:policyNumber/endorsements/:endorsementId/confirm
+   * Apply a proposed change as a new policy version
+   */
+  @Post(':policyNumber/endorsements/:endorsementId/confirm')
+  @ApiOperation({
+    summary: 'Confirm a policy change',
+    description: 'Apply a proposed endorsement as the next policy version. Bills the additional premium or returns the difference, logs a policy event and regenerates the declarations page.'
+  })
+  @ApiParam({ name: 'policyNumber', description: 'Policy number in DZXXXXXXXX format', example: 'DZQV87Z4FH' })
+  @ApiParam({ name: 'endorsementId', description: 'Endorsement ID (UUID)', example: 'a1b2c3d4-e5f6-7890-abcd-1234567890ab' })
+  @ApiResponse({ status: 201, description: 'Change applied' })
+  @ApiResponse({ status: 404, description: 'Policy or endorsement not found' })
+  @ApiResponse({ status: 422, description: 'Endorsement already applied or superseded by another change' })
+  async confirmEndorsement(
+    @Param('policyNumber') policyNumber: string,
+    @Param('endorsementId') endorsementId: string,
+  ) {
+    const endorsement = await this.endorsementService.confirmEndorsement(policyNumber, endorsementId);
+    return formatResponse(endorsement, 'Policy change applied');
+  }
+
+  /**
+   * GET /api/v1/portal/:policyNumber/renewal
+   * Renewal offer for the next term
+   */
+  @Get(':policyNumber/renewal')
+  @ApiOperation({
+    summary: 'Get renewal',
+    description: 'Latest renewal of the policy: the next term, its re-rated premium against the current term, and whether it was declined, renewed or lapsed. Null until a renewal is offered.'
+  })
+  @ApiParam({ name: 'policyNumber', description: 'Policy number in DZXXXXXXXX format', example: 'DZQV87Z4FH' })
+  @ApiResponse({ status: 200, description: 'Renewal retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Policy not found' })
+  async getRenewal(@Param('policyNumber') policyNumber: string) {
+    const renewal = await this.renewalService.getRenewal(policyNumber);
+    return formatResponse(renewal);
+  }
+
+  /**
+   * POST /api/v1/portal/:policyNumber/renewal/decline
+   * Decline the renewal offer
+   */
+  @Post(':policyNumber/renewal/decline')
+  @ApiOperation({
+    summary: 'Decline renewal',
+    description: 'Decline the offered renewal. The policy is not charged for the next term and expires at the end of the current one.'
+  })
+  @ApiParam({ name: 'policyNumber', description: 'Policy number in DZXXXXXXXX format', example: 'DZQV87Z4FH' })
+  @ApiResponse({ status: 201, description: 'Renewal declined' })
+  @ApiResponse({ status: 404, description: 'Policy or renewal offer not found' })
+  @ApiResponse({ status: 422, description: 'Renewal is not offered (already declined, renewed or lapsed)' })
+  async declineRenewal(@Param('policyNumber') policyNumber: string) {
+    const renewal = await this.renewalService.declineRenewal(policyNumber);
+    return formatResponse(renewal, 'Renewal declined');
+  }
+
+  /**
+   * POST /api/v1/portal/:policyNumber/renewal/accept
+   * Take back a declined renewal
+   */
+  @Post(':policyNumber/renewal/accept')
+  @ApiOperation({
+    summary: 'Accept renewal',
+    description: 'Take back a declined renewal before the renewal date, so the policy renews automatically on the payment method on file.'
+  })
+  @ApiParam({ name: 'policyNumber', description: 'Policy number in DZXXXXXXXX format', example: 'DZQV87Z4FH' })
+  @ApiResponse({ status: 201, description: 'Renewal accepted' })
+  @ApiResponse({ status: 404, description: 'Policy or renewal offer not found' })
+  @ApiResponse({ status: 422, description: 'Renewal was not declined' })
+  async acceptRenewal(@Param('policyNumber') policyNumber: string) {
+    const renewal = await this.renewalService.acceptRenewal(policyNumber);
+    return formatResponse(renewal, 'Renewal accepted');
+  }
+
+  /**
+   * POST /api/v1/portal/:policyNumber/household
+   * Share the policy with a household member's account
+   */
+  @Post(':policyNumber/household')
+  @ApiOperation({
+    summary: 'Share policy with a household member',
+    description: 'Link the policy to another account (by email), so it shows on their household dashboard and they can open its portal.'
+  })
+  @ApiParam({ name: 'policyNumber', description: 'Policy number in DZXXXXXXXX format', example: 'DZQV87Z4FH' })
+  @ApiBody({ type: SharePolicyDto })
+  @ApiResponse({ status: 201, description: 'Policy shared' })
+  @ApiResponse({ status: 404, description: 'No account uses that email' })
+  async sharePolicy(
+    @Param('policyNumber') policyNumber: string,
+    @Body() body: SharePolicyDto,
+    @Req() req: AuthenticatedRequest,
+  ) {
+    const shared = await this.accountPolicyService.sharePolicy(req.portalSession!.account, policyNumber, body.email);
+    return formatResponse(shared, `Policy shared with ${shared.email}`);
+  }
+
   /**
    * GET /api/v1/portal/:policyNumber/documents/:documentId
    * Download document (mock - returns metadata only)
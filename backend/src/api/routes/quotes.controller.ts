@@ -5,6 +5,10 @@
  * - POST /api/v1/quotes - Create new quote
  * - GET /api/v1/quotes/:id - Get quote by policy ID
  * - GET /api/v1/quotes/reference/:quoteNumber - Get quote by quote number
+ * - GET /api/v1/quotes/:quoteNumber/premium-history - Premium calculation timeline
+ * - POST /api/v1/quotes/:quoteNumber/requote - Clone an expired quote at current rates
+ *
+ * Updates to an expired quote (past its 30-day validity) are rejected with 410.
  *
  * This is a clean, simple implementation that works with the new QuoteService.
  */
@@ -23,10 +27,43 @@ import {
   Logger,
 } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiBody, ApiProperty } from '@nestjs/swagger';
-import { IsArray, IsEmail, IsOptional, IsBoolean, IsNumber, IsString, ValidateNested } from 'class-validator';
+import { IsArray, IsDateString, IsEmail, IsIn, IsOptional, IsBoolean, IsNumber, IsString, ValidateNested } from 'class-validator';
 import { Type } from 'class-transformer';
 import { QuoteService } from '../../services/quote/quote.service';
-import type { CreateQuoteInput, QuoteResult } from '../../services/quote/quote.service';
+import { BusinessRuleError } from '../middleware/error-handler';
+import { VIOLATION_TYPES, ACCIDENT_TYPES } from '../../services/rating-engine/driver-rating';
+import { PAYMENT_PLAN_CODES, PaymentPlanCode } from '../../services/billing/payment-plans';
+import type { CreateQuoteInput, QuoteResult, RequoteResult } from '../../services/quote/quote.service';
+
+/**
+ * Moving violation on a driver's record
+ */
+class ViolationDTO {
+  @ApiProperty({ example: 'SPEEDING', enum: VIOLATION_TYPES, description: 'Violation type' })
+  @IsIn(VIOLATION_TYPES)
+  type!: string;
+
+  @ApiProperty({ example: '2024-03-01', description: 'Conviction date (YYYY-MM-DD)' })
+  @IsDateString()
+  date!: string;
+}
+
+/**
+ * Accident on a driver's record
+ */
+class AccidentDTO {
+  @ApiProperty({ example: 'COLLISION', enum: ACCIDENT_TYPES, description: 'Accident type' })
+  @IsIn(ACCIDENT_TYPES)
+  type!: string;
+
+  @ApiProperty({ example: true, description: 'Was the driver at fault?' })
+  @IsBoolean()
+  at_fault!: boolean;
+
+  @ApiProperty({ example: '2023-11-12', description: 'Accident date (YYYY-MM-DD)' })
+  @IsDateString()
+  date!: string;
+}
 
 /**
  * Driver DTO
@@ -67,6 +104,20 @@ class DriverDTO {
 
   @ApiProperty({ example: true, required: false, description: 'Is this the primary named insured?' })
   is_primary?: boolean;
+
+  @ApiProperty({ type: [ViolationDTO], required: false, description: 'Moving violations (minor: 3-year lookback, DUI/major: 5-year)' })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ViolationDTO)
+  violations?: ViolationDTO[];
+
+  @ApiProperty({ type: [AccidentDTO], required: false, description: 'Accidents (at-fault: 3-year lookback)' })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => AccidentDTO)
+  accidents?: AccidentDTO[];
 }
 
 /**
@@ -133,6 +184,26 @@ class UpdatePrimaryDriverDTO {
   @IsString()
   driver_license_state?: string;
 
+  @IsOptional()
+  @IsBoolean()
+  driver_good_student?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  driver_defensive_driving_course?: boolean;
+
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ViolationDTO)
+  driver_violations?: ViolationDTO[];
+
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => AccidentDTO)
+  driver_accidents?: AccidentDTO[];
+
   @IsString()
   address_line_1!: string;
 
@@ -155,6 +226,8 @@ class UpdatePrimaryDriverDTO {
  */
 class UpdateDriversDTO {
   @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => DriverDTO)
   additionalDrivers!: DriverDTO[];
 }
 
@@ -239,6 +312,26 @@ class UpdateCoverageDTO {
   vehicle_add_ons?: VehicleAddOnsDTO[];
 }
 
+/**
+ * DTO for updating billing and document delivery choices on an existing quote
+ */
+class UpdatePreferencesDTO {
+  @ApiProperty({ example: 'PAY_IN_FULL', required: false, enum: PAYMENT_PLAN_CODES, description: 'How the premium will be paid (billed at binding)' })
+  @IsOptional()
+  @IsIn(PAYMENT_PLAN_CODES)
+  payment_plan?: PaymentPlanCode;
+
+  @ApiProperty({ example: 'ELECTRONIC', required: false, enum: ['ELECTRONIC', 'MAIL'], description: 'How policy documents are delivered' })
+  @IsOptional()
+  @IsIn(['ELECTRONIC', 'MAIL'])
+  document_delivery?: 'ELECTRONIC' | 'MAIL';
+
+  @ApiProperty({ example: true, required: false, description: 'Customer holds a home, renters or other policy with us' })
+  @IsOptional()
+  @IsBoolean()
+  has_other_policies?: boolean;
+}
+
 /**
  * DTO for per-vehicle coverage (nested in UpdateCoverageDTO)
  */
@@ -294,6 +387,10 @@ class CreateQuoteDTO {
       is_primary: true
     }]
   })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => DriverDTO)
   drivers?: DriverDTO[];
 
   @ApiProperty({
@@ -403,6 +500,17 @@ class CreateQuoteDTO {
   include_roadside_assistance?: boolean;
 }
 
+/**
+ * Driving record DTOs to service input format
+ */
+function toViolations(violations?: ViolationDTO[]) {
+  return (violations || []).map(v => ({ type: v.type, date: v.date }));
+}
+
+function toAccidents(accidents?: AccidentDTO[]) {
+  return (accidents || []).map(a => ({ type: a.type, atFault: !!a.at_fault, date: a.date }));
+}
+
 @ApiTags('Quotes')
 @Controller('api/v1/quotes')
 export class QuotesController {
@@ -558,6 +666,8 @@ export class QuotesController {
           gender: primaryDriver.gender,
           maritalStatus: primaryDriver.marital_status,
           yearsLicensed: primaryDriver.years_licensed,
+          violations: toViolations(primaryDriver.violations),
+          accidents: toAccidents(primaryDriver.accidents),
         },
         additionalDrivers: additionalDrivers
           .filter(d => d.first_name && d.last_name && d.birth_date && d.email)
@@ -571,6 +681,8 @@ export class QuotesController {
             maritalStatus: d.marital_status,
             yearsLicensed: d.years_licensed,
             relationship: d.relationship,
+            violations: toViolations(d.violations),
+            accidents: toAccidents(d.accidents),
           })),
         address: {
           addressLine1: dto.address_line_1,
@@ -747,6 +859,62 @@ export class QuotesController {
     }
   }
 
+  /**
+   * Get premium history for a quote
+   *
+   * GET /api/v1/quotes/:quoteNumber/premium-history
+   *
+   * Every premium calculation for the quote, oldest first, with the inputs
+   * that were rated, the rate-table version, the factor breakdown and the
+   * change from the previous calculation.
+   *
+   * @example Response:
+   * {
+   *   "quoteNumber": "DZQV87Z4FH",
+   *   "currentPremium": 1320,
+   *   "calculations": [
+   *     { "trigger": "QUOTE_CREATED", "rateVersion": "2025-01-01", "subtotal": 1200, "change": null, ... },
+   *     { "trigger": "COVERAGE_UPDATED", "rateVersion": "2025-01-01", "subtotal": 1320, "change": 120, ... }
+   *   ]
+   * }
+   */
+  @Get(':quoteNumber/premium-history')
+  @ApiOperation({
+    summary: 'Get premium history',
+    description: 'Timeline of every premium calculation for a quote with inputs, rate version and factor breakdown'
+  })
+  @ApiParam({ name: 'quoteNumber', description: 'Quote number in DZXXXXXXXX format', example: 'DZQV87Z4FH' })
+  @ApiResponse({ status: 200, description: 'Premium history retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Quote not found' })
+  @ApiResponse({ status: 500, description: 'Internal server error' })
+  async getPremiumHistory(@Param('quoteNumber') quoteNumber: string) {
+    try {
+      this.logger.debug('Fetching premium history', { quoteNumber });
+      return await this.quoteService.getPremiumHistory(quoteNumber);
+    } catch (error) {
+      this.logger.error('Failed to retrieve premium history', error);
+
+      if (error instanceof Error && error.message.includes('not found')) {
+        throw new HttpException(
+          {
+            statusCode: HttpStatus.NOT_FOUND,
+            message: `Quote ${quoteNumber} not found`,
+          },
+          HttpStatus.NOT_FOUND
+        );
+      }
+
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+          message: 'Failed to retrieve premium history',
+          error: error instanceof Error ? error.message : 'Unknown error',
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
   /**
    * PUT /api/v1/quotes/:quoteNumber/primary-driver
    * Update primary driver information for an existing quote
@@ -760,6 +928,7 @@ export class QuotesController {
   @ApiBody({ type: UpdatePrimaryDriverDTO, description: 'Updated driver information' })
   @ApiResponse({ status: 200, description: 'Primary driver updated successfully' })
   @ApiResponse({ status: 404, description: 'Quote not found' })
+  @ApiResponse({ status: 410, description: 'Quote has expired; re-quote it at current rates' })
   @ApiResponse({ status: 500, description: 'Internal server error' })
   async updatePrimaryDriver(
     @Param('quoteNumber') quoteNumber: string,
@@ -780,6 +949,10 @@ export class QuotesController {
           maritalStatus: dto.driver_marital_status,
           licenseNumber: dto.driver_license_number,
           licenseState: dto.driver_license_state,
+          goodStudent: dto.driver_good_student,
+          defensiveDrivingCourse: dto.driver_defensive_driving_course,
+          violations: dto.driver_violations && toViolations(dto.driver_violations),
+          accidents: dto.driver_accidents && toAccidents(dto.driver_accidents),
         },
         {
           addressLine1: dto.address_line_1,
@@ -795,6 +968,11 @@ export class QuotesController {
     } catch (error) {
       this.logger.error('Failed to update primary driver', error);
 
+      // Let AllExceptionsFilter report expired quotes as 410
+      if (error instanceof BusinessRuleError) {
+        throw error;
+      }
+
       if (error instanceof Error && error.message.includes('not found')) {
         throw new HttpException(
           {
@@ -829,6 +1007,7 @@ export class QuotesController {
   @ApiBody({ type: UpdateDriversDTO, description: 'Additional drivers information' })
   @ApiResponse({ status: 200, description: 'Drivers updated successfully' })
   @ApiResponse({ status: 404, description: 'Quote not found' })
+  @ApiResponse({ status: 410, description: 'Quote has expired; re-quote it at current rates' })
   @ApiResponse({ status: 500, description: 'Internal server error' })
   async updateDrivers(
     @Param('quoteNumber') quoteNumber: string,
@@ -850,6 +1029,8 @@ export class QuotesController {
         relationship: d.relationship,
         licenseNumber: d.license_number,
         licenseState: d.license_state,
+        violations: toViolations(d.violations),
+        accidents: toAccidents(d.accidents),
       }));
 
       const result = await this.quoteService.updateQuoteDrivers(
@@ -862,6 +1043,11 @@ export class QuotesController {
     } catch (error) {
       this.logger.error('Failed to update drivers', error);
 
+      // Let AllExceptionsFilter report expired quotes as 410
+      if (error instanceof BusinessRuleError) {
+        throw error;
+      }
+
       if (error instanceof Error && error.message.includes('not found')) {
         throw new HttpException(
           {
@@ -896,6 +1082,7 @@ export class QuotesController {
   @ApiBody({ type: UpdateVehiclesDTO, description: 'Vehicles information' })
   @ApiResponse({ status: 200, description: 'Vehicles updated successfully' })
   @ApiResponse({ status: 404, description: 'Quote not found' })
+  @ApiResponse({ status: 410, description: 'Quote has expired; re-quote it at current rates' })
   @ApiResponse({ status: 500, description: 'Internal server error' })
   async updateVehicles(
     @Param('quoteNumber') quoteNumber: string,
@@ -925,6 +1112,11 @@ export class QuotesController {
     } catch (error) {
       this.logger.error('Failed to update vehicles', error);
 
+      // Let AllExceptionsFilter report expired quotes as 410
+      if (error instanceof BusinessRuleError) {
+        throw error;
+      }
+
       if (error instanceof Error && error.message.includes('not found')) {
         throw new HttpException(
           {
@@ -959,6 +1151,8 @@ export class QuotesController {
   @ApiBody({ type: UpdateCoverageDTO, description: 'Coverage selections including liability limits, deductibles, and optional coverages' })
   @ApiResponse({ status: 200, description: 'Coverage updated and quote finalized successfully' })
   @ApiResponse({ status: 404, description: 'Quote not found' })
+  @ApiResponse({ status: 410, description: 'Quote has expired; re-quote it at current rates' })
+  @ApiResponse({ status: 422, description: 'Liability limits below the garaging state minimum' })
   @ApiResponse({ status: 500, description: 'Internal server error' })
   async updateCoverage(
     @Param('quoteNumber') quoteNumber: string,
@@ -1003,6 +1197,12 @@ export class QuotesController {
     } catch (error) {
       this.logger.error('Failed to update coverage', error);
 
+      // Let AllExceptionsFilter report rule violations (e.g. below state minimum limits) as 422
+      // and expired quotes as 410
+      if (error instanceof BusinessRuleError) {
+        throw error;
+      }
+
       if (error instanceof Error && error.message.includes('not found')) {
         throw new HttpException(
           {
@@ -1023,4 +1223,93 @@ export class QuotesController {
       );
     }
   }
+
+  /**
+   * PUT /api/v1/quotes/:quoteNumber/preferences
+   * Update billing and document delivery choices (re-rates discounts)
+   */
+  @Put(':quoteNumber/preferences')
+  @ApiOperation({
+    summary: 'Update quote preferences',
+    description: 'Update payment plan, document delivery and other-policy choices. Re-rates the quote for pay-in-full, paperless and multi-policy discounts.'
+  })
+  @ApiParam({ name: 'quoteNumber', description: 'Quote number in DZXXXXXXXX format', example: 'DZQV87Z4FH' })
+  @ApiBody({ type: UpdatePreferencesDTO, description: 'Billing and document delivery choices' })
+  @ApiResponse({ status: 200, description: 'Preferences updated and quote re-rated' })
+  @ApiResponse({ status: 404, description: 'Quote not found' })
+  @ApiResponse({ status: 410, description: 'Quote has expired; re-quote it at current rates' })
+  @ApiResponse({ status: 500, description: 'Internal server error' })
+  async updatePreferences(
+    @Param('quoteNumber') quoteNumber: string,
+    @Body() dto: UpdatePreferencesDTO
+  ): Promise<QuoteResult> {
+    this.logger.log('Updating preferences for quote', { quoteNumber });
+
+    try {
+      return await this.quoteService.updateQuotePreferences(quoteNumber, {
+        paymentPlan: dto.payment_plan,
+        documentDelivery: dto.document_delivery,
+        hasOtherPolicies: dto.has_other_policies,
+      });
+    } catch (error) {
+      this.logger.error('Failed to update preferences', error);
+
+      // Let AllExceptionsFilter report expired quotes as 410
+      if (error instanceof BusinessRuleError) {
+        throw error;
+      }
+
+      if (error instanceof Error && error.message.includes('not found')) {
+        throw new HttpException(
+          {
+            statusCode: HttpStatus.NOT_FOUND,
+            message: `Quote ${quoteNumber} not found`,
+          },
+          HttpStatus.NOT_FOUND
+        );
+      }
+
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+          message: 'Failed to update preferences',
+          error: error instanceof Error ? error.message : 'Unknown error',
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  /**
+   * Re-quote an expired quote
+   *
+   * POST /api/v1/quotes/:quoteNumber/requote
+   *
+   * Clones the drivers, vehicles, coverages and preferences of an expired
+   * quote into a new quote rated with the current rates. A coverage start
+   * date already in the past is cleared.
+   *
+   * @example Response:
+   * {
+   *   "quoteNumber": "DZK3M9P2QA",
+   *   "premium": 1345,
+   *   "requotedFrom": "DZQV87Z4FH",
+   *   "previousPremium": 1320,
+   *   "expiresAt": "2026-11-17T00:00:00.000Z",
+   *   ...
+   * }
+   */
+  @Post(':quoteNumber/requote')
+  @ApiOperation({
+    summary: 'Re-quote an expired quote',
+    description: 'Create a new quote from an expired one, re-rated with the current rates'
+  })
+  @ApiParam({ name: 'quoteNumber', description: 'Expired quote number in DZXXXXXXXX format', example: 'DZQV87Z4FH' })
+  @ApiResponse({ status: 201, description: 'New quote created' })
+  @ApiResponse({ status: 404, description: 'Quote not found' })
+  @ApiResponse({ status: 422, description: 'Quote has not expired or was already re-quoted' })
+  async requote(@Param('quoteNumber') quoteNumber: string): Promise<RequoteResult> {
+    this.logger.log('Re-quoting expired quote', { quoteNumber });
+    return this.quoteService.requoteExpiredQuote(quoteNumber);
+  }
 }
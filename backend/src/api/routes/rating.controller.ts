@@ -0,0 +1,75 @@
+/**
+ * Rating Controller
+ *
+ * REST API endpoints for the rating engine:
+ * - POST /api/v1/rating/replay - Re-rate a stored quote and diff against another rate version
+ */
+
+import {
+  Controller,
+  Post,
+  Body,
+  HttpCode,
+  HttpStatus,
+  Logger,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBody } from '@nestjs/swagger';
+import { RatingReplayService } from '../../services/rating-engine/rating-replay.service';
+import type { RatingReplayResult } from '../../services/rating-engine/rating-replay.service';
+import { ReplayRatingDto } from '../dto/replay-rating.dto';
+
+@ApiTags('Rating Engine')
+@Controller('api/v1/rating')
+export class RatingController {
+  private readonly logger = new Logger(RatingController.name);
+
+  constructor(private readonly ratingReplayService: RatingReplayService) {}
+
+  /**
+   * Replay a quote's rating for audit
+   *
+   * POST /api/v1/rating/replay
+   *
+   * Rates the inputs stored in the quote's snapshot under the rate tables in
+   * force when it was quoted and under those in force on the target date,
+   * and returns both results with a factor-by-factor diff.
+   *
+   * @example Request Body:
+   * {
+   *   "quoteNumber": "DZQV87Z4FH",
+   *   "targetRateEffectiveDate": "2026-01-01"
+   * }
+   *
+   * @example Response:
+   * {
+   *   "quoteNumber": "DZQV87Z4FH",
+   *   "quotedPremium": 1200,
+   *   "reproducesQuotedPremium": true,
+   *   "original": { "rateVersion": "2025-01-01", "subtotal": 1200, ... },
+   *   "target": { "rateVersion": "2026-01-01", "subtotal": 1260, ... },
+   *   "diff": {
+   *     "changed": true,
+   *     "factors": [{ "name": "driver.ageFactor", "original": 1.0, "target": 1.05, "change": 0.05, "changed": true }, ...],
+   *     "amounts": [{ "name": "subtotal", "original": 1200, "target": 1260, "change": 60, "changed": true }, ...]
+   *   }
+   * }
+   */
+  @Post('replay')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Replay quote rating',
+    description: 'Re-rate a stored quote under its original rates and the rates in force on a target date, with a structured diff'
+  })
+  @ApiBody({ type: ReplayRatingDto })
+  @ApiResponse({ status: 200, description: 'Quote replayed successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid target date or no rates in force on it' })
+  @ApiResponse({ status: 404, description: 'Quote not found' })
+  async replay(@Body() dto: ReplayRatingDto): Promise<RatingReplayResult> {
+    this.logger.log('Replaying quote rating', {
+      quoteNumber: dto.quoteNumber,
+      targetRateEffectiveDate: dto.targetRateEffectiveDate,
+    });
+
+    return this.ratingReplayService.replay(dto.quoteNumber, dto.targetRateEffectiveDate);
+  }
+}
@@ -5,26 +5,56 @@
  *
  * Endpoints:
  * - POST /api/v1/user-accounts/check-email - Check if email exists
- * - POST /api/v1/user-accounts - Create new user account
+ * - POST /api/v1/user-accounts - Create new user account (and sign in)
+ * - POST /api/v1/user-accounts/login - Sign in with email and password
+ * - POST /api/v1/user-accounts/logout - Sign out
+ * - GET /api/v1/user-accounts/me - Signed-in account
+ * - GET /api/v1/user-accounts/me/dashboard - Household dashboard (policies, saved quotes, claims)
+ * - GET /api/v1/user-accounts/me/policies - Policies and saved quotes linked to the account
+ * - POST /api/v1/user-accounts/me/policies - Add a policy or saved quote by number
+ * - POST /api/v1/user-accounts/verify-email/request - Email a new verification link
+ * - POST /api/v1/user-accounts/verify-email - Confirm the email with a link token
+ * - POST /api/v1/user-accounts/password/forgot - Email a password reset link
+ * - POST /api/v1/user-accounts/password/reset - Set a new password with a link token
+ * - POST /api/v1/user-accounts/magic-link/request - Email a passwordless sign-in link
+ * - POST /api/v1/user-accounts/magic-link/login - Sign in with a link token
  *
- * Note: For Phase 4, we're implementing basic email checking and account creation.
- * Password handling is simplified for demo purposes (stored in quote_snapshot).
- * In production, this would use proper authentication with bcrypt hashing.
+ * Signing in sets the session token as an HttpOnly cookie (see
+ * PortalAuthGuard), which the portal routes require. Policies insured under
+ * the account email are linked once the account proves it owns the email
+ * (verify-email, password reset or magic link). Emailed links are one-time
+ * tokens (see AccountTokenService).
  */
 
 import {
   Controller,
+  Get,
   Post,
   Body,
+  Req,
+  Res,
+  UseGuards,
+  HttpCode,
   HttpStatus,
   HttpException,
   ConflictException,
   BadRequestException,
   Logger,
 } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiProperty } from '@nestjs/swagger';
-import { IsEmail, IsString, MinLength } from 'class-validator';
+import type { Request, Response } from 'express';
+import { ApiTags, ApiOperation, ApiResponse, ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsEmail, IsOptional, IsString, Matches, MinLength } from 'class-validator';
 import { UserAccountService } from '../../services/user-account-service/user-account.service';
+import { AuthService, StartedSession } from '../../services/user-account-service/auth.service';
+import { AccountPolicyService } from '../../services/user-account-service/account-policy.service';
+import { AccountTokenService } from '../../services/user-account-service/account-token.service';
+import {
+  PortalAuthGuard,
+  AuthenticatedRequest,
+  SESSION_COOKIE,
+  readSessionToken,
+  sessionCookieOptions,
+} from '../middleware/portal-auth.guard';
 
 /**
  * DTO for checking email existence
@@ -73,6 +103,91 @@ class CreateUserAccountDTO {
   last_name!: string;
 }
 
+/**
+ * DTO for signing in
+ */
+class LoginDTO {
+  @ApiProperty({
+    example: 'user@example.com',
+    description: 'Account email address',
+  })
+  @IsEmail()
+  email!: string;
+
+  @ApiProperty({
+    example: 'SecurePass123',
+    description: 'Account password',
+  })
+  @IsString()
+  password!: string;
+}
+
+/**
+ * DTO for adding a policy or saved quote to the account
+ */
+class LinkPolicyDTO {
+  @ApiProperty({
+    example: 'DZQV87Z4FH',
+    description: 'Policy or quote number',
+  })
+  @IsString()
+  @Matches(/^DZ[A-Z0-9]{8}$/, { message: 'policy_number must look like DZXXXXXXXX' })
+  policy_number!: string;
+
+  @ApiPropertyOptional({
+    description: 'Claim token returned when the quote was created (needed to save a quote)',
+  })
+  @IsOptional()
+  @IsString()
+  claim_token?: string;
+}
+
+/**
+ * DTO for requesting an emailed link
+ */
+class AccountEmailDTO {
+  @ApiProperty({
+    example: 'user@example.com',
+    description: 'Account email address',
+  })
+  @IsEmail()
+  email!: string;
+}
+
+/**
+ * DTO for following an emailed link
+ */
+class AccountLinkTokenDTO {
+  @ApiProperty({
+    description: 'Token from the emailed link',
+  })
+  @IsString()
+  token!: string;
+}
+
+/**
+ * DTO for setting a new password with a reset link
+ */
+class ResetPasswordDTO {
+  @ApiProperty({
+    description: 'Token from the password reset email',
+  })
+  @IsString()
+  token!: string;
+
+  @ApiProperty({
+    example: 'NewSecurePass123',
+    description: 'New password (minimum 8 characters)',
+    minLength: 8,
+  })
+  @IsString()
+  @MinLength(8)
+  password!: string;
+}
+
+// Same answer whether or not the email has an account
+const EMAIL_LINK_SENT = 'If an account uses that email, we have sent it a link';
+
 /**
  * User Accounts Controller
  */
@@ -81,7 +196,12 @@ class CreateUserAccountDTO {
 export class UserAccountsController {
   private readonly logger = new Logger(UserAccountsController.name);
 
-  constructor(private readonly userAccountService: UserAccountService) {}
+  constructor(
+    private readonly userAccountService: UserAccountService,
+    private readonly authService: AuthService,
+    private readonly accountPolicyService: AccountPolicyService,
+    private readonly accountTokenService: AccountTokenService,
+  ) {}
 
   /**
    * T143: Check if email exists
@@ -155,12 +275,11 @@ export class UserAccountsController {
    *
    * POST /api/v1/user-accounts
    *
-   * Creates a new user account with email and password.
+   * Creates a new user account with email and password (stored as a bcrypt
+   * hash), emails it a verification link and signs it in, so checkout
+   * continues into the portal.
    * Used by AccountCreationModal during checkout for new users.
    *
-   * Note: For demo purposes, password is stored in quote_snapshot.
-   * In production, this would hash password with bcrypt and store in user_account table.
-   *
    * @example Request Body:
    * {
    *   "email": "newuser@example.com",
@@ -174,7 +293,11 @@ export class UserAccountsController {
    *   "status": "success",
    *   "data": {
    *     "user_account_id": "550e8400-e29b-41d4-a716-446655440000",
-   *     "email": "newuser@example.com"
+   *     "email": "newuser@example.com",
+   *     "first_name": "John",
+   *     "last_name": "Doe",
+   *     "email_verified": false,
+   *     "session_expires_at": "2026-10-18T22:00:00.000Z"
    *   }
    * }
    *
@@ -188,13 +311,17 @@ export class UserAccountsController {
   @ApiOperation({ summary: 'Create user account' })
   @ApiResponse({
     status: 201,
-    description: 'User account created successfully',
+    description: 'User account created and signed in; session cookie set',
     schema: {
       example: {
         status: 'success',
         data: {
           user_account_id: '550e8400-e29b-41d4-a716-446655440000',
           email: 'newuser@example.com',
+          first_name: 'John',
+          last_name: 'Doe',
+          email_verified: false,
+          session_expires_at: '2026-10-18T22:00:00.000Z',
         },
       },
     },
@@ -207,36 +334,28 @@ export class UserAccountsController {
     status: 409,
     description: 'Email already registered',
   })
-  async createAccount(@Body() dto: CreateUserAccountDTO) {
+  async createAccount(
+    @Body() dto: CreateUserAccountDTO,
+    @Res({ passthrough: true }) res: Response,
+  ) {
     this.logger.log(`Creating account for: ${dto.email}`);
 
     try {
-      // Check if email already exists
-      const existingUser = await this.userAccountService.findByEmail(dto.email);
-      if (existingUser) {
-        throw new ConflictException('Email already registered');
-      }
-
       // Validate password strength (basic validation)
       if (dto.password.length < 8) {
         throw new BadRequestException('Password must be at least 8 characters');
       }
 
-      // Create user account
+      // Create user account (409 if the email is taken) and sign it in
       const userAccount = await this.userAccountService.createAccount({
         email: dto.email,
         password: dto.password,
         first_name: dto.first_name,
         last_name: dto.last_name,
       });
+      await this.accountTokenService.requestEmailVerification(userAccount);
 
-      return {
-        status: 'success',
-        data: {
-          user_account_id: userAccount.account_id,
-          email: userAccount.email,
-        },
-      };
+      return this.signedIn(await this.authService.startSession(userAccount), res);
     } catch (error) {
       if (error instanceof ConflictException || error instanceof BadRequestException) {
         throw error;
@@ -249,4 +368,314 @@ export class UserAccountsController {
       );
     }
   }
+
+  /**
+   * Sign in
+   *
+   * POST /api/v1/user-accounts/login
+   *
+   * Checks the email and password and sets the session cookie. Used by
+   * LoginModal. Unknown emails and wrong passwords get the same 401.
+   *
+   * @example Request Body:
+   * {
+   *   "email": "user@example.com",
+   *   "password": "SecurePass123"
+   * }
+   *
+   * @example Error Response (401):
+   * {
+   *   "statusCode": 401,
+   *   "message": "Invalid email or password"
+   * }
+   */
+  @Post('login')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Sign in with email and password' })
+  @ApiResponse({ status: 200, description: 'Signed in; session cookie set' })
+  @ApiResponse({ status: 401, description: 'Invalid email or password' })
+  async login(
+    @Body() dto: LoginDTO,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    this.logger.log(`Sign-in for: ${dto.email}`);
+
+    return this.signedIn(await this.authService.login(dto.email, dto.password), res);
+  }
+
+  /**
+   * Sign out
+   *
+   * POST /api/v1/user-accounts/logout
+   *
+   * Ends the session and clears the cookie. Succeeds without a session too.
+   */
+  @Post('logout')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Sign out' })
+  @ApiResponse({ status: 204, description: 'Signed out' })
+  async logout(
+    @Req() req: Request,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<void> {
+    await this.authService.logout(readSessionToken(req));
+    res.clearCookie(SESSION_COOKIE, sessionCookieOptions());
+  }
+
+  /**
+   * Signed-in account
+   *
+   * GET /api/v1/user-accounts/me
+   *
+   * 401 when not signed in or the session has expired.
+   */
+  @Get('me')
+  @UseGuards(PortalAuthGuard)
+  @ApiOperation({ summary: 'Get the signed-in account' })
+  @ApiResponse({ status: 200, description: 'Signed-in account' })
+  @ApiResponse({ status: 401, description: 'Not signed in' })
+  async me(@Req() req: AuthenticatedRequest) {
+    const { account, expiresAt } = req.portalSession!;
+
+    return {
+      status: 'success',
+      data: this.accountData(account, expiresAt),
+    };
+  }
+
+  /**
+   * Household dashboard
+   *
+   * GET /api/v1/user-accounts/me/dashboard
+   *
+   * Every policy, saved quote and claim linked to the signed-in account.
+   */
+  @Get('me/dashboard')
+  @UseGuards(PortalAuthGuard)
+  @ApiOperation({ summary: 'Get the household dashboard of the signed-in account' })
+  @ApiResponse({ status: 200, description: 'Policies, saved quotes and claims' })
+  @ApiResponse({ status: 401, description: 'Not signed in' })
+  async dashboard(@Req() req: AuthenticatedRequest) {
+    return {
+      status: 'success',
+      data: await this.accountPolicyService.getDashboard(req.portalSession!.account),
+    };
+  }
+
+  /**
+   * Linked policies
+   *
+   * GET /api/v1/user-accounts/me/policies
+   *
+   * Policies and saved quotes the signed-in account can open (the portal's
+   * policy switcher).
+   */
+  @Get('me/policies')
+  @UseGuards(PortalAuthGuard)
+  @ApiOperation({ summary: 'List policies and saved quotes linked to the signed-in account' })
+  @ApiResponse({ status: 200, description: 'Linked policies and quotes' })
+  @ApiResponse({ status: 401, description: 'Not signed in' })
+  async listPolicies(@Req() req: AuthenticatedRequest) {
+    return {
+      status: 'success',
+      data: await this.accountPolicyService.listPolicies(req.portalSession!.account.account_id),
+    };
+  }
+
+  /**
+   * Add a policy or saved quote
+   *
+   * POST /api/v1/user-accounts/me/policies
+   *
+   * Links a policy insured under the account email, or an unbought quote
+   * with the claim token returned when it was created (checkout links the
+   * quote being bought). Anything else has to be shared by a household
+   * member who has it.
+   *
+   * @example Request Body:
+   * {
+   *   "policy_number": "DZQV87Z4FH",
+   *   "claim_token": "q3v...Zk"
+   * }
+   */
+  @Post('me/policies')
+  @UseGuards(PortalAuthGuard)
+  @ApiOperation({ summary: 'Add a policy or saved quote to the signed-in account' })
+  @ApiResponse({ status: 201, description: 'Linked' })
+  @ApiResponse({ status: 401, description: 'Not signed in' })
+  @ApiResponse({ status: 403, description: 'Not the insured, and no claim token for the quote' })
+  @ApiResponse({ status: 404, description: 'No such policy or quote' })
+  async linkPolicy(@Req() req: AuthenticatedRequest, @Body() dto: LinkPolicyDTO) {
+    return {
+      status: 'success',
+      data: await this.accountPolicyService.linkPolicy(req.portalSession!.account, dto.policy_number, dto.claim_token),
+    };
+  }
+
+  /**
+   * Resend the verification email
+   *
+   * POST /api/v1/user-accounts/verify-email/request
+   *
+   * Sign-up sends the first one. 429 after three in an hour.
+   */
+  @Post('verify-email/request')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @UseGuards(PortalAuthGuard)
+  @ApiOperation({ summary: 'Email the signed-in account a new verification link' })
+  @ApiResponse({ status: 202, description: 'Verification email sent' })
+  @ApiResponse({ status: 401, description: 'Not signed in' })
+  @ApiResponse({ status: 422, description: 'Email already verified' })
+  @ApiResponse({ status: 429, description: 'Too many emails requested' })
+  async requestEmailVerification(@Req() req: AuthenticatedRequest) {
+    const { expiresAt } = await this.accountTokenService.requestEmailVerification(req.portalSession!.account);
+
+    return {
+      status: 'success',
+      message: `Verification email sent to ${req.portalSession!.account.email}`,
+      data: { link_expires_at: expiresAt.toISOString() },
+    };
+  }
+
+  /**
+   * Verify email
+   *
+   * POST /api/v1/user-accounts/verify-email
+   *
+   * @example Request Body:
+   * {
+   *   "token": "VERIFY_EMAIL.1792368000000.kq3...Rw.5Jd...8s"
+   * }
+   *
+   * @example Error Response (422) - Link already followed:
+   * {
+   *   "statusCode": 422,
+   *   "message": "This link has already been used. Please request a new one.",
+   *   "details": { "ruleCode": "ACCOUNT_LINK_USED" }
+   * }
+   */
+  @Post('verify-email')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Confirm the account email with a verification link' })
+  @ApiResponse({ status: 200, description: 'Email verified' })
+  @ApiResponse({ status: 422, description: 'Link invalid, expired or already used' })
+  async verifyEmail(@Body() dto: AccountLinkTokenDTO) {
+    const account = await this.accountTokenService.verifyEmail(dto.token);
+
+    return {
+      status: 'success',
+      data: {
+        email: account.email,
+        email_verified_at: account.email_verified_at!.toISOString(),
+      },
+    };
+  }
+
+  /**
+   * Forgot password
+   *
+   * POST /api/v1/user-accounts/password/forgot
+   *
+   * Emails a reset link valid for an hour. Always 202 with the same message,
+   * so it cannot be used to find out which emails have accounts.
+   */
+  @Post('password/forgot')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({ summary: 'Email a password reset link' })
+  @ApiResponse({ status: 202, description: 'Reset link sent if the email has an account' })
+  async forgotPassword(@Body() dto: AccountEmailDTO) {
+    await this.accountTokenService.requestPasswordReset(dto.email);
+
+    return { status: 'success', message: EMAIL_LINK_SENT };
+  }
+
+  /**
+   * Reset password
+   *
+   * POST /api/v1/user-accounts/password/reset
+   *
+   * Sets the new password and signs the account out everywhere, including
+   * this browser; sign in again with the new password.
+   *
+   * @example Request Body:
+   * {
+   *   "token": "PASSWORD_RESET.1792368000000.kq3...Rw.5Jd...8s",
+   *   "password": "NewSecurePass123"
+   * }
+   */
+  @Post('password/reset')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Set a new password with a reset link' })
+  @ApiResponse({ status: 200, description: 'Password changed; all sessions signed out' })
+  @ApiResponse({ status: 422, description: 'Link invalid, expired or already used' })
+  async resetPassword(
+    @Body() dto: ResetPasswordDTO,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const account = await this.accountTokenService.resetPassword(dto.token, dto.password);
+    res.clearCookie(SESSION_COOKIE, sessionCookieOptions());
+
+    return {
+      status: 'success',
+      message: 'Your password has been changed. Please sign in.',
+      data: { email: account.email },
+    };
+  }
+
+  /**
+   * Request a magic link
+   *
+   * POST /api/v1/user-accounts/magic-link/request
+   *
+   * Emails a sign-in link valid for 15 minutes. Always 202 with the same
+   * message, like forgot password.
+   */
+  @Post('magic-link/request')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({ summary: 'Email a passwordless sign-in link' })
+  @ApiResponse({ status: 202, description: 'Sign-in link sent if the email has an account' })
+  async requestMagicLink(@Body() dto: AccountEmailDTO) {
+    await this.accountTokenService.requestMagicLink(dto.email);
+
+    return { status: 'success', message: EMAIL_LINK_SENT };
+  }
+
+  /**
+   * Sign in with a magic link
+   *
+   * POST /api/v1/user-accounts/magic-link/login
+   *
+   * Sets the session cookie, like signing in with a password.
+   */
+  @Post('magic-link/login')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Sign in with a magic link' })
+  @ApiResponse({ status: 200, description: 'Signed in; session cookie set' })
+  @ApiResponse({ status: 422, description: 'Link invalid, expired or already used' })
+  async magicLinkLogin(
+    @Body() dto: AccountLinkTokenDTO,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    return this.signedIn(await this.accountTokenService.loginWithMagicLink(dto.token), res);
+  }
+
+  private signedIn(session: StartedSession, res: Response) {
+    res.cookie(SESSION_COOKIE, session.token, sessionCookieOptions(session.expiresAt));
+
+    return {
+      status: 'success',
+      data: this.accountData(session.account, session.expiresAt),
+    };
+  }
+
+  private accountData(account: StartedSession['account'], expiresAt: Date) {
+    return {
+      user_account_id: account.account_id,
+      email: account.email,
+      first_name: account.first_name,
+      last_name: account.last_name,
+      email_verified: !!account.email_verified_at,
+      session_expires_at: expiresAt.toISOString(),
+    };
+  }
 }
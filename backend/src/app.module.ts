@@ -2,9 +2,11 @@ import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { DatabaseModule } from './database/database.module';
 import { QuoteModule } from './services/quote/quote.module';
+import { RatingEngineModule } from './services/rating-engine/rating-engine.module';
 import { DocumentServiceModule } from './services/document-service/document-service.module';
 import { SignatureModule } from './services/signature-service/signature.module';
 import { UserAccountModule } from './services/user-account-service/user-account.module';
+import { CollectionModule } from './services/billing/collection.module';
 
 @Module({
   imports: [
@@ -17,12 +19,16 @@ import { UserAccountModule } from './services/user-account-service/user-account.
     DatabaseModule,
     // Quote module - Phase 3 ✅
     QuoteModule,
+    // Rating engine module - table-driven premium calculation ✅
+    RatingEngineModule,
     // Document service module - Feature 003 ✅
     DocumentServiceModule,
     // Signature module - Feature 004 ✅
     SignatureModule,
     // User Account module - Feature 004 Phase 4 ✅
     UserAccountModule,
+    // Installment collection job (CLI + cron endpoint)
+    CollectionModule,
     // Policy module will be added in Phase 4
     // Portal module will be added in Phase 5
   ],
@@ -0,0 +1,53 @@
+/**
+ * Scheduled Job Runner (CLI)
+ *
+ * Runs a scheduled job once against the configured database - the local
+ * counterpart of the /api/v1/cron endpoints.
+ *
+ * Usage (after `npm run build`):
+ *   npm run job -- collect-payments
+ */
+
+import 'reflect-metadata';
+import { NestFactory } from '@nestjs/core';
+import { INestApplicationContext } from '@nestjs/common';
+import { AppModule } from '../app.module';
+import { CollectionService } from '../services/billing/collection.service';
+import { AchSettlementService } from '../services/billing/ach-settlement.service';
+import { PolicyCancellationService } from '../services/policy/policy-cancellation.service';
+import { RenewalService } from '../services/policy/renewal.service';
+import { QuoteService } from '../services/quote/quote.service';
+
+const JOBS: Record<string, (app: INestApplicationContext) => Promise<unknown>> = {
+  'collect-payments': app => app.get(CollectionService).run(),
+  'settle-ach-payments': app => app.get(AchSettlementService).run(),
+  'process-cancellations': app => app.get(PolicyCancellationService).processScheduledCancellations(),
+  'process-renewals': app => app.get(RenewalService).run(),
+  'expire-quotes': app => app.get(QuoteService).expireQuotes(),
+  'activate-policies': app => app.get(QuoteService).activateDuePolicies(),
+};
+
+async function runJob() {
+  const name = process.argv[2];
+  const job = JOBS[name];
+
+  if (!job) {
+    console.error(`Usage: npm run job -- <${Object.keys(JOBS).join(' | ')}>`);
+    process.exit(1);
+  }
+
+  const app = await NestFactory.createApplicationContext(AppModule, { logger: ['error', 'warn', 'log'] });
+
+  try {
+    const result = await job(app);
+    console.log(JSON.stringify(result, null, 2));
+    await app.close();
+    process.exit(0);
+  } catch (error) {
+    console.error(`❌ Job ${name} failed:`, error);
+    await app.close();
+    process.exit(1);
+  }
+}
+
+runJob();
@@ -0,0 +1,239 @@
+/**
+ * Local Stripe Stub Server
+ *
+ * Minimal Stripe-shaped HTTP API for exercising StripePaymentGateway without
+ * network access or real keys. Card and ACH behavior comes from
+ * MockPaymentGateway, so the stub accepts and declines the same test cards.
+ *
+ * Endpoints (form-encoded, Bearer secret key):
+ * - POST /v1/tokens (also with a publishable key, from the browser)
+ * - POST /v1/charges (capture=false places an authorization)
+ * - POST /v1/charges/:id/capture
+ * - POST /v1/refunds (without an amount on an uncaptured charge: void)
+ * - GET /v1/charges/:id (captured ACH debits are pending until looked up,
+ *   then settle or fail like MockPaymentGateway's)
+ *
+ * Charges are kept in memory for the life of the process. CORS is open so the
+ * frontend can tokenize card and bank details here directly, as it would with
+ * Stripe.js; raw details never pass through the API.
+ *
+ * Usage (after `npm run build`):
+ *   npm run stripe-stub
+ *   PAYMENT_GATEWAY=stripe npm run start:dev
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { MockPaymentGateway } from '../services/payment-gateway/mock-payment-gateway';
+import { STRIPE_STUB_PORT } from '../services/payment-gateway/payment-gateway.config';
+
+interface StubCharge {
+  id: string;
+  source: { object: 'card' | 'bank_account'; last4?: string; brand?: string };
+  amount: number; // Cents
+  captured: boolean;
+  amount_refunded: number; // Cents
+  refunded: boolean; // Fully refunded (or voided)
+  status: 'pending' | 'succeeded' | 'failed';
+  failure_code: string | null;
+  failure_message: string | null;
+}
+
+// Routes a publishable (browser) key may call; everything else needs sk_
+const PUBLISHABLE_ROUTES = [/^\/v1\/tokens$/];
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+};
+
+type StubRoute = [
+  string,
+  RegExp,
+  (params: URLSearchParams, match: RegExpExecArray) => Promise<[number, any]>,
+];
+
+/**
+ * Create the stub server (not yet listening)
+ */
+export function createStripeStub(gateway: MockPaymentGateway = new MockPaymentGateway()): Server {
+  const charges = new Map<string, StubCharge>();
+
+  const routes: StubRoute[] = [
+    ['POST', /^\/v1\/tokens$/, async params => {
+      const result = params.has('bank_account[account_number]')
+        ? await gateway.tokenize({
+          paymentMethod: 'ach',
+          routingNumber: params.get('bank_account[routing_number]') || '',
+          accountNumber: params.get('bank_account[account_number]') || '',
+        })
+        : await gateway.tokenize({
+          paymentMethod: 'credit_card',
+          cardNumber: params.get('card[number]') || '',
+          cardExpiry: `${params.get('card[exp_month]')}/${params.get('card[exp_year]')}`,
+          cardCvv: params.get('card[cvc]') || '',
+        });
+
+      if (!result.success) {
+        return [402, cardError('incorrect_number', result.message)];
+      }
+
+      const details = { last4: result.lastFourDigits };
+      return [200, result.cardBrand
+        ? { id: result.token, object: 'token', type: 'card', card: { ...details, brand: result.cardBrand } }
+        : { id: result.token, object: 'token', type: 'bank_account', bank_account: details }];
+    }],
+
+    ['POST', /^\/v1\/charges$/, async params => {
+      const amount = parseInt(params.get('amount') || '0', 10);
+      const result = await gateway.authorize(params.get('source') || '', amount / 100);
+
+      if (!result.success || !result.transactionId) {
+        return [402, cardError('card_declined', result.message)];
+      }
+
+      const charge: StubCharge = {
+        id: result.transactionId,
+        source: result.cardBrand
+          ? { object: 'card', last4: result.lastFourDigits, brand: result.cardBrand }
+          : { object: 'bank_account', last4: result.lastFourDigits },
+        amount,
+        captured: false,
+        amount_refunded: 0,
+        refunded: false,
+        status: 'succeeded',
+        failure_code: null,
+        failure_message: null,
+      };
+      charges.set(charge.id, charge);
+      return [200, toCharge(charge, result.message)];
+    }],
+
+    ['GET', /^\/v1\/charges\/([^/]+)$/, async (_params, match) => {
+      const charge = charges.get(decodeURIComponent(match[1]));
+      if (!charge) {
+        return [404, invalidRequest(`No such charge: '${match[1]}'`)];
+      }
+
+      if (charge.status === 'pending') {
+        const result = await gateway.getChargeStatus(charge.id);
+        charge.status = result.status || 'pending';
+        charge.failure_code = result.failureCode || null;
+        charge.failure_message = result.status === 'failed' ? result.message : null;
+      }
+
+      return [200, toCharge(charge, charge.failure_message || 'Payment complete.')];
+    }],
+
+    ['POST', /^\/v1\/charges\/([^/]+)\/capture$/, async (params, match) => {
+      const charge = charges.get(decodeURIComponent(match[1]));
+      if (!charge) {
+        return [404, invalidRequest(`No such charge: '${match[1]}'`)];
+      }
+      if (charge.captured || charge.refunded) {
+        const state = charge.captured ? 'captured' : 'refunded';
+        return [400, invalidRequest(`Charge ${charge.id} has already been ${state}.`)];
+      }
+
+      const amount = parseInt(params.get('amount') || String(charge.amount), 10);
+      const result = await gateway.capture(charge.id, amount / 100);
+
+      charge.captured = true;
+      charge.amount_refunded = charge.amount - amount; // Uncaptured remainder is released
+      charge.status = result.pending ? 'pending' : 'succeeded';
+      return [200, toCharge(charge, result.message)];
+    }],
+
+    ['POST', /^\/v1\/refunds$/, async params => {
+      const charge = charges.get(params.get('charge') || '');
+      if (!charge) {
+        return [404, invalidRequest(`No such charge: '${params.get('charge')}'`)];
+      }
+
+      const remaining = charge.amount - charge.amount_refunded;
+      const amount = params.has('amount') ? parseInt(params.get('amount')!, 10) : remaining;
+      if (amount > remaining) {
+        return [400, invalidRequest(
+          `Refund amount ($${amount / 100}) is greater than unrefunded amount on charge ($${remaining / 100})`
+        )];
+      }
+
+      const result = charge.captured
+        ? await gateway.refund(charge.id, amount / 100)
+        : await gateway.void(charge.id);
+
+      charge.amount_refunded += amount;
+      charge.refunded = charge.amount_refunded === charge.amount;
+      return [200, {
+        id: result.transactionId,
+        object: 'refund',
+        amount,
+        charge: charge.id,
+        status: 'succeeded',
+        description: result.message,
+      }];
+    }],
+  ];
+
+  return createServer(async (req: IncomingMessage, res: ServerResponse) => {
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json', ...CORS_HEADERS });
+      res.end(JSON.stringify(body));
+    };
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, CORS_HEADERS);
+      return res.end();
+    }
+
+    const path = (req.url || '').split('?')[0];
+    const key = /^Bearer (sk|pk)_/.exec(req.headers.authorization || '')?.[1];
+    if (!key || (key === 'pk' && !PUBLISHABLE_ROUTES.some(route => route.test(path)))) {
+      return send(401, invalidRequest('Invalid API Key provided'));
+    }
+
+    for (const [method, pattern, handle] of routes) {
+      const match = pattern.exec(path);
+      if (match && req.method === method) {
+        const params = new URLSearchParams(await readBody(req));
+        const [status, body] = await handle(params, match);
+        return send(status, body);
+      }
+    }
+
+    send(404, invalidRequest(`Unrecognized request URL (${req.method}: ${path})`));
+  });
+}
+
+function toCharge(charge: StubCharge, sellerMessage: string) {
+  return {
+    ...charge,
+    object: 'charge',
+    currency: 'usd',
+    outcome: { type: 'authorized', seller_message: sellerMessage },
+  };
+}
+
+function cardError(code: string, message: string) {
+  return { error: { type: 'card_error', code, message } };
+}
+
+function invalidRequest(message: string) {
+  return { error: { type: 'invalid_request_error', message } };
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+if (require.main === module) {
+  const port = parseInt(process.env.STRIPE_STUB_PORT || String(STRIPE_STUB_PORT), 10);
+  createStripeStub().listen(port, () => {
+    console.log(`Stripe stub listening on http://localhost:${port}`);
+  });
+}
@@ -170,7 +170,10 @@ export enum PaymentStatusCode {
   PROCESSING = 'PROCESSING',
   COMPLETED = 'COMPLETED',
   FAILED = 'FAILED',
+  RETURNED = 'RETURNED',
+  PARTIALLY_REFUNDED = 'PARTIALLY_REFUNDED',
   REFUNDED = 'REFUNDED',
+  CANCELLED = 'CANCELLED',
 }
 
 /**
@@ -0,0 +1,177 @@
+/**
+ * ACH Settlement Service
+ *
+ * Settles ACH debits, which are captured as PROCESSING (at binding or by the
+ * collection job) and only clear days later. Each run asks the payment
+ * gateway for the outcome of every processing debit:
+ *
+ * - Settled: the payment is COMPLETED
+ * - Returned by the bank (insufficient funds, account closed, ...): the
+ *   payment is RETURNED and the policy moves to PAYMENT_HOLD, which stops
+ *   activation and further installment collection
+ * - Still pending: left for the next run
+ *
+ * A debit that errors is logged and left PROCESSING for the next run, and the
+ * run carries on with the rest.
+ *
+ * Run daily by the settle-ach-payments job (CLI and cron endpoint).
+ */
+
+import { Injectable, Inject, Logger } from '@nestjs/common';
+import { and, eq, isNotNull } from 'drizzle-orm';
+import { payment } from '../../../../database/schema/payment.schema';
+import { policy } from '../../../../database/schema/policy.schema';
+import type { Database } from '../../database/drizzle.config';
+import { DATABASE_CONNECTION } from '../../database/database.module';
+import { formatDateToYYYYMMDD } from '../../utils/validators';
+import { QuoteService } from '../quote/quote.service';
+import { PAYMENT_GATEWAY, PaymentGateway } from '../payment-gateway/payment-gateway';
+import { canPerform } from '../policy/policy-status';
+import { InvalidStatusTransitionError } from '../../api/middleware/error-handler';
+
+/**
+ * Outcome of one settlement run
+ */
+export interface AchSettlementRunResult {
+  asOf: string; // YYYY-MM-DD
+  checked: number;
+  settled: number;
+  returned: number;
+  pending: number; // Not settled yet, or the gateway could not be reached
+  paymentHold: string[]; // Policy numbers moved to PAYMENT_HOLD
+}
+
+@Injectable()
+export class AchSettlementService {
+  private readonly logger = new Logger(AchSettlementService.name);
+
+  constructor(
+    @Inject(DATABASE_CONNECTION) private readonly db: Database,
+    @Inject(PAYMENT_GATEWAY) private readonly paymentGateway: PaymentGateway,
+    @Inject(QuoteService) private readonly quoteService: QuoteService,
+  ) {}
+
+  /**
+   * Settle or return every processing ACH debit
+   *
+   * @param asOf - Run date (default now)
+   */
+  async run(asOf: Date = new Date()): Promise<AchSettlementRunResult> {
+    const result: AchSettlementRunResult = {
+      asOf: formatDateToYYYYMMDD(asOf),
+      checked: 0,
+      settled: 0,
+      returned: 0,
+      pending: 0,
+      paymentHold: [],
+    };
+
+    const processing = await this.db
+      .select()
+      .from(payment)
+      .innerJoin(policy, eq(payment.policy_id, policy.policy_identifier))
+      .where(and(
+        eq(payment.payment_method, 'ach'),
+        eq(payment.payment_status, 'PROCESSING'),
+        isNotNull(payment.transaction_id),
+      ));
+
+    for (const { payment: debit, policy: policyRecord } of processing) {
+      result.checked++;
+
+      try {
+        result[await this.settle(debit, policyRecord, result.paymentHold)]++;
+      } catch (error) {
+        this.logger.error(`Failed to settle ACH debit ${debit.payment_number}`, error);
+        result.pending++;
+      }
+    }
+
+    this.logger.log('ACH settlement complete', result);
+    return result;
+  }
+
+  /**
+   * Settle or return one processing debit
+   *
+   * A returned debit is marked and its policy held in one transaction, so a
+   * failed hold leaves the debit PROCESSING for the next run.
+   *
+   * @param paymentHold - Policy numbers moved to PAYMENT_HOLD (added to)
+   */
+  private async settle(
+    debit: typeof payment.$inferSelect,
+    policyRecord: typeof policy.$inferSelect,
+    paymentHold: string[]
+  ): Promise<'settled' | 'returned' | 'pending'> {
+    const status = await this.paymentGateway.getChargeStatus(debit.transaction_id!);
+    if (!status.success || status.status === 'pending') {
+      return 'pending';
+    }
+
+    if (status.status === 'succeeded') {
+      await this.db
+        .update(payment)
+        .set({ payment_status: 'COMPLETED', processed_at: new Date(), updated_at: new Date() })
+        .where(and(eq(payment.payment_id, debit.payment_id), eq(payment.payment_status, 'PROCESSING')));
+
+      return 'settled';
+    }
+
+    const held = await this.db.transaction(async (tx) => {
+      await tx
+        .update(payment)
+        .set({
+          payment_status: 'RETURNED',
+          gateway_response: `ACH debit returned: ${status.message}`,
+          updated_at: new Date(),
+        })
+        .where(and(eq(payment.payment_id, debit.payment_id), eq(payment.payment_status, 'PROCESSING')));
+
+      return this.holdPolicy(policyRecord, debit, status.message, tx);
+    });
+
+    this.logger.warn(`ACH debit ${debit.payment_number} returned`, {
+      reason: status.message,
+      failureCode: status.failureCode,
+    });
+
+    if (held) {
+      paymentHold.push(policyRecord.policy_number);
+    }
+    return 'returned';
+  }
+
+  /**
+   * Put a policy on payment hold after a returned debit
+   *
+   * @returns Whether the policy was moved (false if already held, cancelled, ...)
+   */
+  private async holdPolicy(
+    policyRecord: typeof policy.$inferSelect,
+    debit: typeof payment.$inferSelect,
+    reason: string,
+    tx: Pick<Database, 'update' | 'insert'>
+  ): Promise<boolean> {
+    if (!canPerform(policyRecord.status_code, 'HOLD_PAYMENT')) {
+      return false;
+    }
+
+    try {
+      await this.quoteService.transitionStatus(
+        policyRecord,
+        'HOLD_PAYMENT',
+        `ACH debit ${debit.payment_number} of $${debit.amount} returned: ${reason}`,
+        {},
+        tx
+      );
+      return true;
+    } catch (error) {
+      // The policy moved since the debit was loaded
+      if (error instanceof InvalidStatusTransitionError) {
+        return false;
+      }
+      throw error;
+    }
+  }
+}
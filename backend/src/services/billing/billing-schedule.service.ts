@@ -0,0 +1,144 @@
+/**
+ * Billing Schedule Service
+ *
+ * Splits a quote's term total into the installments of a payment plan.
+ *
+ * - Premium is divided evenly; leftover cents go on the first installment
+ * - State taxes and policy/DMV fees are charged in full with the first
+ *   installment (they are fully earned at inception)
+ * - Each later installment carries the plan's installment fee
+ * - The first installment is due at binding, later ones are evenly spaced
+ *   from the policy effective date
+ *
+ * Amounts are worked in cents so the installments always add up to the
+ * quoted total plus installment fees.
+ */
+
+import { Injectable } from '@nestjs/common';
+import type { TaxFeeLine } from '../rating-engine/tax-fee-calculator';
+import { DEFAULT_POLICY_TERM_MONTHS } from '../rating-engine/rating-engine.service';
+import { PAYMENT_PLANS, PaymentPlanCode, getInstallmentCount } from './payment-plans';
+
+/**
+ * Quote premium to bill (snapshots from before taxes were itemized only carry the total)
+ */
+export interface BillablePremium {
+  subtotal?: number;
+  taxes?: TaxFeeLine[];
+  fees?: TaxFeeLine[];
+  total: number;
+}
+
+/**
+ * One installment of a billing schedule
+ */
+export interface ScheduledInstallment {
+  installmentNumber: number; // 1-based
+  dueDate: string; // YYYY-MM-DD
+  amount: number; // premiumAmount + taxAmount + feeAmount
+  premiumAmount: number;
+  taxAmount: number;
+  feeAmount: number; // Policy/DMV fees (first installment) or installment fee
+}
+
+/**
+ * Summary of a payment plan for a quote, for plan selection at checkout
+ */
+export interface PaymentPlanOption {
+  code: PaymentPlanCode;
+  name: string;
+  installments: number;
+  installmentFee: number;
+  dueToday: number; // First installment, charged at binding
+  installmentAmount: number | null; // Each later installment (null for a single payment)
+  total: number; // All installments, including installment fees
+}
+
+@Injectable()
+export class BillingScheduleService {
+  /**
+   * Build the billing schedule for a plan
+   *
+   * @param planCode - Payment plan
+   * @param premium - Quote premium (subtotal, taxes, fees, total)
+   * @param effectiveDate - Policy effective date (YYYY-MM-DD)
+   * @param firstDueDate - Due date of the first installment (YYYY-MM-DD, binding date)
+   * @param termMonths - Policy term in months
+   */
+  buildSchedule(
+    planCode: PaymentPlanCode,
+    premium: BillablePremium,
+    effectiveDate: string,
+    firstDueDate: string,
+    termMonths: number = DEFAULT_POLICY_TERM_MONTHS
+  ): ScheduledInstallment[] {
+    const plan = PAYMENT_PLANS[planCode];
+    const count = getInstallmentCount(plan, termMonths);
+    const spacingMonths = Math.max(1, Math.round(termMonths / count));
+
+    const itemized = premium.subtotal !== undefined;
+    const premiumCents = this.toCents(itemized ? premium.subtotal! : premium.total);
+    const taxCents = itemized ? this.sumCents(premium.taxes) : 0;
+    const feeCents = itemized ? this.sumCents(premium.fees) : 0;
+    const installmentFeeCents = this.toCents(plan.installmentFee);
+
+    const perInstallment = Math.floor(premiumCents / count);
+    const remainder = premiumCents - perInstallment * count;
+
+    return Array.from({ length: count }, (_, index) => {
+      const first = index === 0;
+      const premiumPart = perInstallment + (first ? remainder : 0);
+      const taxPart = first ? taxCents : 0;
+      const feePart = first ? feeCents : installmentFeeCents;
+
+      return {
+        installmentNumber: index + 1,
+        dueDate: first ? firstDueDate : this.addMonths(effectiveDate, index * spacingMonths),
+        amount: (premiumPart + taxPart + feePart) / 100,
+        premiumAmount: premiumPart / 100,
+        taxAmount: taxPart / 100,
+        feeAmount: feePart / 100,
+      };
+    });
+  }
+
+  /**
+   * Summarize every payment plan for a quote premium
+   */
+  getPlanOptions(premium: BillablePremium, termMonths: number = DEFAULT_POLICY_TERM_MONTHS): PaymentPlanOption[] {
+    return Object.values(PAYMENT_PLANS).map(plan => {
+      // Amounts don't depend on dates; any effective date will do
+      const schedule = this.buildSchedule(plan.code, premium, '2000-01-01', '2000-01-01', termMonths);
+      const total = schedule.reduce((sum, installment) => sum + this.toCents(installment.amount), 0) / 100;
+
+      return {
+        code: plan.code,
+        name: plan.name,
+        installments: schedule.length,
+        installmentFee: plan.installmentFee,
+        dueToday: schedule[0].amount,
+        installmentAmount: schedule.length > 1 ? schedule[1].amount : null,
+        total,
+      };
+    });
+  }
+
+  /**
+   * Add months to a YYYY-MM-DD date, clamping to the end of shorter months
+   */
+  private addMonths(date: string, months: number): string {
+    const [year, month, day] = date.split('-').map(Number);
+    const target = new Date(Date.UTC(year, month - 1 + months, 1));
+    const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+    target.setUTCDate(Math.min(day, lastDay));
+    return target.toISOString().slice(0, 10);
+  }
+
+  private toCents(amount: number): number {
+    return Math.round(amount * 100);
+  }
+
+  private sumCents(lines?: TaxFeeLine[]): number {
+    return (lines || []).reduce((sum, line) => sum + this.toCents(line.amount), 0);
+  }
+}
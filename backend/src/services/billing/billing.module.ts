@@ -0,0 +1,18 @@
+/**
+ * Billing Module
+ *
+ * Payment plans, the installment schedules generated at binding, and
+ * refunds of completed payments.
+ */
+
+import { Module } from '@nestjs/common';
+import { PaymentGatewayModule } from '../payment-gateway/payment-gateway.module';
+import { BillingScheduleService } from './billing-schedule.service';
+import { RefundService } from './refund.service';
+
+@Module({
+  imports: [PaymentGatewayModule],
+  providers: [BillingScheduleService, RefundService],
+  exports: [BillingScheduleService, RefundService],
+})
+export class BillingModule {}
@@ -0,0 +1,27 @@
+/**
+ * Collection Module
+ *
+ * Scheduled installment collection (see CollectionService) and ACH
+ * settlement (see AchSettlementService). Separate from BillingModule because
+ * they log policy events through QuoteService, which itself depends on
+ * BillingModule.
+ *
+ * Controllers:
+ * - CronController: scheduled jobs for Vercel Cron (GET /api/v1/cron/*)
+ */
+
+import { Module } from '@nestjs/common';
+import { DatabaseModule } from '../../database/database.module';
+import { PaymentGatewayModule } from '../payment-gateway/payment-gateway.module';
+import { QuoteModule } from '../quote/quote.module';
+import { CollectionService } from './collection.service';
+import { AchSettlementService } from './ach-settlement.service';
+import { CronController } from '../../api/routes/cron.controller';
+
+@Module({
+  imports: [DatabaseModule, PaymentGatewayModule, QuoteModule],
+  controllers: [CronController],
+  providers: [CollectionService, AchSettlementService],
+  exports: [CollectionService, AchSettlementService],
+})
+export class CollectionModule {}
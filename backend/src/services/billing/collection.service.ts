@@ -0,0 +1,266 @@
+/**
+ * Installment Collection Service
+ *
+ * Collects the scheduled installments created at binding (PENDING payment
+ * rows) once they fall due, charging the payment token stored at binding
+ * through the configured payment gateway.
+ *
+ * - Due installments are claimed (PENDING → PROCESSING) before charging, so
+ *   overlapping runs never charge the same installment twice. One that errors
+ *   before it is charged goes back to PENDING and counts as failed for the run
+ * - A declined installment is retried on the days in COLLECTION_RETRY_DAYS
+ *   after its due date, then marked FAILED
+ * - A policy with a FAILED installment still unpaid COLLECTION_GRACE_PERIOD_DAYS
+ *   after its due date moves to PENDING_CANCELLATION (one that fails to move
+ *   is logged and left for the next run)
+ *
+ * Run daily by the collect-payments job (CLI and cron endpoint).
+ */
+
+import { Injectable, Inject, Logger } from '@nestjs/common';
+import { and, eq, inArray, lte, sql } from 'drizzle-orm';
+import { payment } from '../../../../database/schema/payment.schema';
+import { policy } from '../../../../database/schema/policy.schema';
+import type { Database } from '../../database/drizzle.config';
+import { DATABASE_CONNECTION } from '../../database/database.module';
+import { formatDateToYYYYMMDD } from '../../utils/validators';
+import { QuoteService } from '../quote/quote.service';
+import { InvalidStatusTransitionError } from '../../api/middleware/error-handler';
+import {
+  PAYMENT_GATEWAY,
+  GatewayResult,
+  PaymentGateway,
+  authorizeAndCapture,
+} from '../payment-gateway/payment-gateway';
+
+/**
+ * Days after the due date on which a declined installment is retried
+ */
+export const COLLECTION_RETRY_DAYS = [3, 7];
+
+/**
+ * Days after the due date before an unpaid installment puts the policy in pending cancellation
+ */
+export const COLLECTION_GRACE_PERIOD_DAYS = 10;
+
+// Policies whose installments are still being collected
+const COLLECTABLE_POLICY_STATUSES = ['BOUND', 'IN_FORCE', 'ACTIVE'];
+
+/**
+ * Outcome of one collection run
+ */
+export interface CollectionRunResult {
+  asOf: string; // YYYY-MM-DD
+  attempted: number;
+  collected: number;
+  retryScheduled: number; // Declined, will be retried
+  failed: number; // Declined on the last retry
+  pendingCancellation: string[]; // Policy numbers moved to PENDING_CANCELLATION
+}
+
+@Injectable()
+export class CollectionService {
+  private readonly logger = new Logger(CollectionService.name);
+
+  constructor(
+    @Inject(DATABASE_CONNECTION) private readonly db: Database,
+    @Inject(PAYMENT_GATEWAY) private readonly paymentGateway: PaymentGateway,
+    @Inject(QuoteService) private readonly quoteService: QuoteService,
+  ) {}
+
+  /**
+   * Collect due installments and start cancellation for those past the grace period
+   *
+   * @param asOf - Run date (default now)
+   */
+  async run(asOf: Date = new Date()): Promise<CollectionRunResult> {
+    const today = formatDateToYYYYMMDD(asOf);
+    const result: CollectionRunResult = {
+      asOf: today,
+      attempted: 0,
+      collected: 0,
+      retryScheduled: 0,
+      failed: 0,
+      pendingCancellation: [],
+    };
+
+    const due = await this.db
+      .select()
+      .from(payment)
+      .innerJoin(policy, eq(payment.policy_id, policy.policy_identifier))
+      .where(and(
+        eq(payment.payment_status, 'PENDING'),
+        lte(sql`coalesce(${payment.next_attempt_date}, ${payment.due_date})`, today),
+        inArray(policy.status_code, COLLECTABLE_POLICY_STATUSES),
+      ));
+
+    for (const row of due) {
+      try {
+        const outcome = await this.collect(row.payment, today);
+        if (outcome) {
+          result.attempted++;
+          result[outcome]++;
+        }
+      } catch (error) {
+        this.logger.error(`Failed to collect installment ${row.payment.payment_number}`, error);
+        await this.releaseInstallment(row.payment);
+        result.attempted++;
+        result.failed++;
+      }
+    }
+
+    result.pendingCancellation = await this.startPendingCancellations(today);
+
+    this.logger.log('Installment collection complete', result);
+    return result;
+  }
+
+  /**
+   * Charge one due installment
+   *
+   * @returns Outcome, or null if another run already claimed the installment
+   */
+  private async collect(
+    installment: typeof payment.$inferSelect,
+    today: string
+  ): Promise<'collected' | 'retryScheduled' | 'failed' | null> {
+    const [claimed] = await this.db
+      .update(payment)
+      .set({ payment_status: 'PROCESSING', updated_at: new Date() })
+      .where(and(eq(payment.payment_id, installment.payment_id), eq(payment.payment_status, 'PENDING')))
+      .returning();
+
+    if (!claimed) {
+      return null;
+    }
+
+    const charge: GatewayResult = claimed.payment_token
+      ? await authorizeAndCapture(this.paymentGateway, claimed.payment_token, parseFloat(claimed.amount))
+      : { success: false, message: 'No payment method on file' };
+    const attemptCount = claimed.attempt_count + 1;
+
+    if (charge.success) {
+      try {
+        await this.db
+          .update(payment)
+          .set({
+            // ACH debits stay PROCESSING until the settlement job sees them settle
+            payment_status: charge.pending ? 'PROCESSING' : 'COMPLETED',
+            transaction_id: charge.transactionId,
+            gateway_response: charge.message,
+            attempt_count: attemptCount,
+            next_attempt_date: null,
+            payment_date: new Date(),
+            processed_at: charge.pending ? null : new Date(),
+            updated_at: new Date(),
+          })
+          .where(eq(payment.payment_id, claimed.payment_id));
+      } catch (error) {
+        // Charged: stay PROCESSING so no later run charges it again
+        this.logger.error(
+          `Installment ${claimed.payment_number} was charged but not recorded; left PROCESSING for review`,
+          { transactionId: charge.transactionId, error }
+        );
+      }
+
+      this.logger.log(`Collected installment ${claimed.payment_number}`);
+      return 'collected';
+    }
+
+    const retryDate = this.getRetryDate(claimed.due_date || today, attemptCount, today);
+
+    await this.db
+      .update(payment)
+      .set({
+        payment_status: retryDate ? 'PENDING' : 'FAILED',
+        transaction_id: charge.transactionId,
+        gateway_response: charge.message,
+        attempt_count: attemptCount,
+        next_attempt_date: retryDate,
+        updated_at: new Date(),
+      })
+      .where(eq(payment.payment_id, claimed.payment_id));
+
+    this.logger.warn(`Installment ${claimed.payment_number} declined`, {
+      reason: charge.message,
+      attemptCount,
+      retryDate,
+    });
+    return retryDate ? 'retryScheduled' : 'failed';
+  }
+
+  /**
+   * Put an installment that errored before it was charged back to PENDING for the next run
+   */
+  private async releaseInstallment(installment: typeof payment.$inferSelect): Promise<void> {
+    try {
+      await this.db
+        .update(payment)
+        .set({ payment_status: 'PENDING', updated_at: new Date() })
+        .where(and(eq(payment.payment_id, installment.payment_id), eq(payment.payment_status, 'PROCESSING')));
+    } catch (error) {
+      this.logger.error(`Failed to release installment ${installment.payment_number}`, error);
+    }
+  }
+
+  /**
+   * Next retry date after a decline, or null when the retries are used up
+   */
+  private getRetryDate(dueDate: string, attemptCount: number, today: string): string | null {
+    return COLLECTION_RETRY_DAYS
+      .slice(attemptCount - 1)
+      .map(days => this.addDays(dueDate, days))
+      .find(date => date > today) || null;
+  }
+
+  /**
+   * Move policies with a FAILED installment past the grace period to PENDING_CANCELLATION
+   *
+   * @returns Policy numbers moved
+   */
+  private async startPendingCancellations(today: string): Promise<string[]> {
+    const lastDueDate = this.addDays(today, -COLLECTION_GRACE_PERIOD_DAYS);
+
+    const pastDue = await this.db
+      .select()
+      .from(payment)
+      .innerJoin(policy, eq(payment.policy_id, policy.policy_identifier))
+      .where(and(
+        eq(payment.payment_status, 'FAILED'),
+        lte(payment.due_date, lastDueDate),
+        inArray(policy.status_code, COLLECTABLE_POLICY_STATUSES),
+      ));
+
+    const moved: string[] = [];
+    const seen = new Set<string>();
+    for (const { payment: installment, policy: policyRecord } of pastDue) {
+      if (seen.has(policyRecord.policy_identifier)) {
+        continue;
+      }
+      seen.add(policyRecord.policy_identifier);
+
+      try {
+        await this.quoteService.transitionStatus(
+          policyRecord,
+          'SCHEDULE_CANCELLATION',
+          `${installment.installment_number ? `Installment ${installment.installment_number}` : `Payment ${installment.payment_number}`} ` +
+            `of $${installment.amount} due ${installment.due_date} ` +
+            `unpaid after ${COLLECTION_GRACE_PERIOD_DAYS}-day grace period (${installment.gateway_response})`
+        );
+        moved.push(policyRecord.policy_number);
+      } catch (error) {
+        // The policy moved since it was loaded (paid up, cancelled, another run)
+        if (!(error instanceof InvalidStatusTransitionError)) {
+          this.logger.error(`Failed to start pending cancellation of policy ${policyRecord.policy_number}`, error);
+        }
+      }
+    }
+
+    return moved;
+  }
+
+  private addDays(date: string, days: number): string {
+    const [year, month, day] = date.split('-').map(Number);
+    return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+  }
+}
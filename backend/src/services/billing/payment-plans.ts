@@ -0,0 +1,46 @@
+/**
+ * Payment Plans
+ *
+ * How the policy-term total can be split into installments. The first
+ * installment is charged at binding; the rest are scheduled across the term.
+ *
+ * Installment fees are charged on every installment after the first.
+ * Update this table when plan terms or fees change.
+ */
+
+export const PAYMENT_PLAN_CODES = ['PAY_IN_FULL', 'TWO_PAY', 'QUARTERLY', 'MONTHLY'] as const;
+
+export type PaymentPlanCode = typeof PAYMENT_PLAN_CODES[number];
+
+/**
+ * Terms of one payment plan
+ *
+ * Plans split the term either into a fixed number of installments or into
+ * one installment per interval; the installments are evenly spaced.
+ */
+export interface PaymentPlan {
+  code: PaymentPlanCode;
+  name: string;
+  installments?: number; // Fixed number of installments per term
+  intervalMonths?: number; // One installment every N months
+  installmentFee: number; // Fee in dollars on each installment after the first
+}
+
+export const PAYMENT_PLANS: Record<PaymentPlanCode, PaymentPlan> = {
+  PAY_IN_FULL: { code: 'PAY_IN_FULL', name: 'Pay in Full', installments: 1, installmentFee: 0 },
+  TWO_PAY: { code: 'TWO_PAY', name: '2-Pay', installments: 2, installmentFee: 3 },
+  QUARTERLY: { code: 'QUARTERLY', name: 'Quarterly', intervalMonths: 3, installmentFee: 4 },
+  MONTHLY: { code: 'MONTHLY', name: 'Monthly', intervalMonths: 1, installmentFee: 5 },
+};
+
+export const DEFAULT_PAYMENT_PLAN: PaymentPlanCode = 'PAY_IN_FULL';
+
+/**
+ * Number of installments a plan bills over a policy term
+ */
+export function getInstallmentCount(plan: PaymentPlan, termMonths: number): number {
+  if (plan.installments) {
+    return plan.installments;
+  }
+  return Math.max(1, Math.floor(termMonths / (plan.intervalMonths || termMonths)));
+}
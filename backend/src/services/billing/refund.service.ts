@@ -0,0 +1,352 @@
+/**
+ * Refund Service
+ *
+ * Returns money from completed charges through the configured payment
+ * gateway. Each refund is stored as a payment row of type REFUND linked to
+ * the charge it came from (refunded_payment_id), and the charge moves to
+ * PARTIALLY_REFUNDED or REFUNDED.
+ *
+ * - refundPayment: full or partial refund of one charge
+ * - refundPolicy: a mid-term return premium, taken from the policy's charges
+ *   newest first (e.g. the latest installment before the down payment). A
+ *   refund declined after others went through is recorded as a FAILED
+ *   refund row for follow-up; the money stays refundable on the charge.
+ *
+ * Amounts are worked in cents so partial refunds never add up to more than
+ * was charged.
+ */
+
+import { Injectable, Inject, Logger } from '@nestjs/common';
+import { and, desc, eq, inArray } from 'drizzle-orm';
+import { payment } from '../../../../database/schema/payment.schema';
+import type { Database } from '../../database/drizzle.config';
+import { DATABASE_CONNECTION } from '../../database/database.module';
+import { BusinessRuleError, NotFoundError } from '../../api/middleware/error-handler';
+import { PAYMENT_GATEWAY, PaymentGateway, GatewayResult } from '../payment-gateway/payment-gateway';
+
+// Charges money can still be returned from
+const REFUNDABLE_STATUSES = ['COMPLETED', 'PARTIALLY_REFUNDED'];
+
+type PaymentRecord = typeof payment.$inferSelect;
+
+type RefundTx = Pick<Database, 'select' | 'insert' | 'update'>;
+
+/**
+ * One refund issued against a charge
+ */
+export interface RefundResult {
+  refundId: string;
+  refundNumber: string;
+  paymentId: string; // Charge refunded
+  paymentNumber: string;
+  amount: number;
+  status: 'COMPLETED' | 'FAILED'; // FAILED: declined, recorded for follow-up
+  paymentStatus: string; // Charge status after the refund
+  refundableAmount: number; // Left to refund on the charge
+  transactionId?: string;
+}
+
+@Injectable()
+export class RefundService {
+  private readonly logger = new Logger(RefundService.name);
+
+  constructor(
+    @Inject(DATABASE_CONNECTION) private readonly db: Database,
+    @Inject(PAYMENT_GATEWAY) private readonly paymentGateway: PaymentGateway,
+  ) {}
+
+  /**
+   * Refund all or part of a completed charge
+   *
+   * @param paymentId - Charge to refund
+   * @param reason - Shown on the refund line
+   * @param amount - USD (default: everything not yet refunded)
+   * @param policyId - When given, the charge must belong to this policy
+   * @throws NotFoundError if the charge does not exist (or is on another policy)
+   * @throws BusinessRuleError if the charge cannot be refunded, the amount is
+   *   more than is left to refund, or the gateway rejects the refund
+   */
+  async refundPayment(paymentId: string, reason: string, amount?: number, policyId?: string): Promise<RefundResult> {
+    const [charge] = await this.db
+      .select()
+      .from(payment)
+      .where(eq(payment.payment_id, paymentId))
+      .limit(1);
+
+    if (!charge || (policyId && charge.policy_id !== policyId)) {
+      throw new NotFoundError('Payment', paymentId);
+    }
+
+    if (charge.payment_type !== 'CHARGE' || !REFUNDABLE_STATUSES.includes(charge.payment_status)) {
+      throw new BusinessRuleError(
+        `Payment ${charge.payment_number} has status ${charge.payment_status}. Only completed charges can be refunded.`,
+        'PAYMENT_NOT_REFUNDABLE'
+      );
+    }
+
+    const refundableCents = await this.getRefundableCents(charge, this.db);
+    const amountCents = amount === undefined ? refundableCents : Math.round(amount * 100);
+
+    if (amountCents <= 0) {
+      throw new BusinessRuleError('Refund amount must be greater than zero', 'INVALID_REFUND_AMOUNT');
+    }
+
+    if (amountCents > refundableCents) {
+      throw new BusinessRuleError(
+        `Refund of $${this.toDollars(amountCents)} exceeds the $${this.toDollars(refundableCents)} ` +
+          `left to refund on payment ${charge.payment_number}`,
+        'REFUND_EXCEEDS_PAYMENT'
+      );
+    }
+
+    return this.issueRefund(charge, amountCents, refundableCents, reason, this.db);
+  }
+
+  /**
+   * Return premium to a policyholder from the policy's completed charges
+   *
+   * The amount is taken from the newest charges first, so it may be split
+   * over several refunds. Once one refund has gone through, a declined one
+   * is recorded as FAILED for follow-up instead of failing the rest: the
+   * money already returned cannot be taken back.
+   *
+   * @param policyId - Policy UUID
+   * @param amount - USD
+   * @param reason - Shown on each refund line
+   * @param tx - Transaction to write in (defaults to the shared connection)
+   * @throws BusinessRuleError if the policy's charges cannot cover the amount
+   *   or the gateway rejects every refund
+   */
+  async refundPolicy(policyId: string, amount: number, reason: string, tx: RefundTx = this.db): Promise<RefundResult[]> {
+    const refundable = await this.getRefundableCharges(policyId, tx);
+
+    let remainingCents = Math.round(amount * 100);
+    const availableCents = refundable.reduce((sum, { cents }) => sum + cents, 0);
+
+    if (remainingCents <= 0) {
+      throw new BusinessRuleError('Refund amount must be greater than zero', 'INVALID_REFUND_AMOUNT');
+    }
+
+    if (remainingCents > availableCents) {
+      throw new BusinessRuleError(
+        `Refund of $${this.toDollars(remainingCents)} exceeds the $${this.toDollars(availableCents)} ` +
+          'collected on this policy',
+        'REFUND_EXCEEDS_PAYMENT'
+      );
+    }
+
+    const refunds: RefundResult[] = [];
+    const declined: Array<{ charge: PaymentRecord; cents: number; amountCents: number; error: BusinessRuleError }> = [];
+    for (const { charge, cents } of refundable) {
+      if (remainingCents === 0) {
+        break;
+      }
+      if (cents === 0) {
+        continue;
+      }
+
+      const amountCents = Math.min(cents, remainingCents);
+      try {
+        refunds.push(await this.issueRefund(charge, amountCents, cents, reason, tx));
+      } catch (error) {
+        if (!(error instanceof BusinessRuleError)) {
+          throw error;
+        }
+        declined.push({ charge, cents, amountCents, error });
+      }
+      remainingCents -= amountCents;
+    }
+
+    if (!refunds.length && declined.length) {
+      throw declined[0].error;
+    }
+
+    for (const { charge, cents, amountCents, error } of declined) {
+      refunds.push(await this.recordDeclinedRefund(charge, amountCents, cents, reason, error.message, tx));
+    }
+
+    return refunds;
+  }
+
+  /**
+   * Amount that can still be returned from the policy's completed charges (USD)
+   *
+   * @param policyId - Policy UUID
+   * @param tx - Transaction to read in (defaults to the shared connection)
+   */
+  async getPolicyRefundableAmount(policyId: string, tx: Pick<Database, 'select'> = this.db): Promise<number> {
+    const refundable = await this.getRefundableCharges(policyId, tx);
+    return refundable.reduce((sum, { cents }) => sum + cents, 0) / 100;
+  }
+
+  /**
+   * The policy's refundable charges, newest first, with the cents left to refund on each
+   */
+  private async getRefundableCharges(
+    policyId: string,
+    tx: Pick<Database, 'select'>
+  ): Promise<Array<{ charge: PaymentRecord; cents: number }>> {
+    const charges = await tx
+      .select()
+      .from(payment)
+      .where(and(
+        eq(payment.policy_id, policyId),
+        eq(payment.payment_type, 'CHARGE'),
+        inArray(payment.payment_status, REFUNDABLE_STATUSES),
+      ))
+      .orderBy(desc(payment.payment_date));
+
+    return Promise.all(
+      charges.map(async charge => ({ charge, cents: await this.getRefundableCents(charge, tx) }))
+    );
+  }
+
+  /**
+   * Refund through the gateway, record the refund and update the charge
+   */
+  private async issueRefund(
+    charge: PaymentRecord,
+    amountCents: number,
+    refundableCents: number,
+    reason: string,
+    tx: RefundTx
+  ): Promise<RefundResult> {
+    if (!charge.transaction_id) {
+      throw new BusinessRuleError(
+        `Payment ${charge.payment_number} has no gateway transaction to refund`,
+        'PAYMENT_NOT_REFUNDABLE'
+      );
+    }
+
+    const result = await this.paymentGateway.refund(charge.transaction_id, amountCents / 100).catch(
+      (error: Error): GatewayResult => ({ success: false, message: error.message })
+    );
+    if (!result.success) {
+      this.logger.warn(`Refund of payment ${charge.payment_number} failed`, { reason: result.message });
+      throw new BusinessRuleError(`Refund failed: ${result.message}`, 'REFUND_FAILED');
+    }
+
+    const leftCents = refundableCents - amountCents;
+    const paymentStatus = leftCents === 0 ? 'REFUNDED' : 'PARTIALLY_REFUNDED';
+
+    const [refund] = await tx
+      .insert(payment)
+      .values({
+        policy_id: charge.policy_id,
+        refunded_payment_id: charge.payment_id,
+        payment_number: `REF-${this.generateId()}`,
+        payment_method: charge.payment_method,
+        payment_type: 'REFUND',
+        payment_status: 'COMPLETED',
+        amount: this.toDollars(amountCents),
+        last_four_digits: charge.last_four_digits,
+        card_brand: charge.card_brand,
+        account_type: charge.account_type,
+        transaction_id: result.transactionId,
+        gateway_response: result.message,
+        refund_reason: reason,
+        processed_at: new Date(),
+      })
+      .returning();
+
+    await tx
+      .update(payment)
+      .set({ payment_status: paymentStatus, updated_at: new Date() })
+      .where(eq(payment.payment_id, charge.payment_id));
+
+    this.logger.log(`Refunded $${this.toDollars(amountCents)} of payment ${charge.payment_number}`, { reason });
+
+    return {
+      refundId: refund.payment_id,
+      refundNumber: refund.payment_number,
+      paymentId: charge.payment_id,
+      paymentNumber: charge.payment_number,
+      amount: amountCents / 100,
+      status: 'COMPLETED',
+      paymentStatus,
+      refundableAmount: leftCents / 100,
+      transactionId: result.transactionId,
+    };
+  }
+
+  /**
+   * Record a declined refund as a FAILED refund row for follow-up
+   *
+   * The charge keeps its status, and the amount stays refundable on it.
+   */
+  private async recordDeclinedRefund(
+    charge: PaymentRecord,
+    amountCents: number,
+    refundableCents: number,
+    reason: string,
+    failure: string,
+    tx: RefundTx
+  ): Promise<RefundResult> {
+    const [refund] = await tx
+      .insert(payment)
+      .values({
+        policy_id: charge.policy_id,
+        refunded_payment_id: charge.payment_id,
+        payment_number: `REF-${this.generateId()}`,
+        payment_method: charge.payment_method,
+        payment_type: 'REFUND',
+        payment_status: 'FAILED',
+        amount: this.toDollars(amountCents),
+        last_four_digits: charge.last_four_digits,
+        card_brand: charge.card_brand,
+        account_type: charge.account_type,
+        gateway_response: failure.slice(0, 255),
+        refund_reason: reason,
+      })
+      .returning();
+
+    this.logger.error(
+      `Refund of $${this.toDollars(amountCents)} from payment ${charge.payment_number} was declined ` +
+        'after other refunds went through; recorded for follow-up',
+      { refundNumber: refund.payment_number, reason: failure }
+    );
+
+    return {
+      refundId: refund.payment_id,
+      refundNumber: refund.payment_number,
+      paymentId: charge.payment_id,
+      paymentNumber: charge.payment_number,
+      amount: amountCents / 100,
+      status: 'FAILED',
+      paymentStatus: charge.payment_status,
+      refundableAmount: refundableCents / 100,
+    };
+  }
+
+  /**
+   * Charged amount less the completed refunds already issued against it
+   */
+  private async getRefundableCents(charge: PaymentRecord, tx: Pick<Database, 'select'>): Promise<number> {
+    const refunds = await tx
+      .select()
+      .from(payment)
+      .where(and(
+        eq(payment.refunded_payment_id, charge.payment_id),
+        eq(payment.payment_status, 'COMPLETED'),
+      ));
+
+    const refundedCents = refunds.reduce((sum, refund) => sum + Math.round(parseFloat(refund.amount) * 100), 0);
+    return Math.max(Math.round(parseFloat(charge.amount) * 100) - refundedCents, 0);
+  }
+
+  private toDollars(cents: number): string {
+    return (cents / 100).toFixed(2);
+  }
+
+  /**
+   * Generate 8-character random alphanumeric ID (refund numbers)
+   */
+  private generateId(): string {
+    const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+    let id = '';
+    for (let i = 0; i < 8; i++) {
+      id += chars.charAt(Math.floor(Math.random() * chars.length));
+    }
+    return id;
+  }
+}
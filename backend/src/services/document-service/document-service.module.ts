@@ -5,6 +5,7 @@ import { TemplateService } from './template.service';
 import { DocumentService } from './document.service';
 import { DocumentsController } from '../../api/routes/documents.controller';
 import { DatabaseModule } from '../../database/database.module';
+import { UserAccountModule } from '../user-account-service/user-account.module';
 
 /**
  * DocumentServiceModule - Provides document generation and storage services
@@ -21,7 +22,7 @@ import { DatabaseModule } from '../../database/database.module';
  * Feature: 003-portal-document-download
  */
 @Module({
-  imports: [DatabaseModule],
+  imports: [DatabaseModule, UserAccountModule],
   controllers: [DocumentsController],
   providers: [
     DocumentService,
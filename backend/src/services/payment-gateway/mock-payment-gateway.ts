@@ -0,0 +1,190 @@
+/**
+ * Mock Payment Gateway
+ *
+ * In-process stand-in for Stripe in test mode. Also backs the local Stripe
+ * stub server, so both gateways behave the same against test cards.
+ *
+ * - Card numbers must pass the Luhn check; routing numbers must pass the ABA
+ *   checksum and account numbers be at least 4 digits
+ * - Tokens carry the card brand and last four digits, so scheduled
+ *   installments can be charged later from the stored token alone
+ * - Card numbers are never logged
+ * - Declines are keyed on the last four digits of the Stripe decline test cards:
+ *   - 4000000000000002: Card declined - insufficient funds
+ *   - 4000000000009995: Card declined - do not honor
+ * - ACH debits are authorized and captured as pending, then settle or are
+ *   returned when looked up, keyed on the last four digits of the Stripe ACH
+ *   test accounts:
+ *   - 000222222227: Insufficient funds (R01)
+ *   - 000111111113: Account closed (R02)
+ *   - 000111111116: No account (R03)
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import { isValidCreditCard, isValidRoutingNumber } from '../../utils/validators';
+import type {
+  ChargeStatusResult,
+  GatewayResult,
+  PaymentGateway,
+  PaymentMethodDetails,
+  TokenizeResult,
+} from './payment-gateway';
+
+const DECLINED_TEST_CARDS: Record<string, string> = {
+  '0002': 'Card declined - insufficient funds',
+  '9995': 'Card declined - do not honor',
+};
+
+const RETURNED_TEST_ACCOUNTS: Record<string, { failureCode: string; message: string }> = {
+  '2227': { failureCode: 'insufficient_funds', message: 'Insufficient funds (R01)' },
+  '1113': { failureCode: 'account_closed', message: 'Account closed (R02)' },
+  '1116': { failureCode: 'no_account', message: 'No account (R03)' },
+};
+
+// Brand codes carried in card tokens
+const CARD_BRANDS = {
+  visa: 'Visa',
+  mastercard: 'Mastercard',
+  amex: 'American Express',
+  discover: 'Discover',
+  unknown: 'Unknown',
+};
+
+// tok_<brand>_<last4>_<id> for cards, btok_<last4>_<id> for bank accounts (Stripe prefixes)
+const TOKEN_PATTERN = /^(?:tok_([a-z]+)|btok)_(\d{4})_[a-z0-9]+$/;
+
+// ach_<last4>_<id>: ACH debits carry the account's last four to settle from
+const ACH_TRANSACTION_PATTERN = /^ach_(\d{4})_[a-z0-9]+$/;
+
+@Injectable()
+export class MockPaymentGateway implements PaymentGateway {
+  readonly name = 'mock';
+  private readonly logger = new Logger(MockPaymentGateway.name);
+
+  async tokenize(details: PaymentMethodDetails): Promise<TokenizeResult> {
+    if (details.paymentMethod === 'ach') {
+      const { routingNumber, accountNumber } = details;
+
+      if (!routingNumber || routingNumber.length !== 9) {
+        return { success: false, message: 'Invalid routing number (must be 9 digits)' };
+      }
+
+      if (!isValidRoutingNumber(routingNumber)) {
+        return { success: false, message: 'Invalid routing number (failed ABA checksum)' };
+      }
+
+      if (!accountNumber || accountNumber.length < 4) {
+        return { success: false, message: 'Invalid account number' };
+      }
+
+      const lastFour = accountNumber.slice(-4);
+      return {
+        success: true,
+        token: `btok_${lastFour}_${this.generateId()}`,
+        lastFourDigits: lastFour,
+        message: 'Bank account tokenized',
+      };
+    }
+
+    const cardNumber = (details.cardNumber || '').replace(/[\s-]/g, '');
+
+    if (!isValidCreditCard(cardNumber)) {
+      this.logger.warn('Card tokenization failed', { reason: 'Luhn check failed', length: cardNumber.length });
+      return { success: false, message: 'Invalid card number (failed Luhn check)' };
+    }
+
+    const lastFour = cardNumber.slice(-4);
+    const brand = this.detectCardBrand(cardNumber);
+    return {
+      success: true,
+      token: `tok_${brand}_${lastFour}_${this.generateId()}`,
+      lastFourDigits: lastFour,
+      cardBrand: CARD_BRANDS[brand],
+      message: 'Card tokenized',
+    };
+  }
+
+  async authorize(token: string, amount: number): Promise<GatewayResult> {
+    const match = TOKEN_PATTERN.exec(token || '');
+    if (!match) {
+      return { success: false, message: 'Invalid payment token' };
+    }
+
+    const [, brand, lastFour] = match;
+    this.logger.debug('Authorizing mock charge', { brand: brand || 'bank_account', amount });
+
+    if (!brand) {
+      return {
+        success: true,
+        transactionId: `ach_${lastFour}_${this.generateId()}`,
+        message: 'ACH debit authorized',
+        lastFourDigits: lastFour,
+      };
+    }
+
+    // Stripe test mode: decline test cards fail, any other valid card succeeds
+    const decline = DECLINED_TEST_CARDS[lastFour];
+    if (decline) {
+      return { success: false, message: decline };
+    }
+
+    return {
+      success: true,
+      transactionId: `txn_${this.generateId()}`,
+      message: 'Authorized',
+      lastFourDigits: lastFour,
+      cardBrand: CARD_BRANDS[brand as keyof typeof CARD_BRANDS] || CARD_BRANDS.unknown,
+    };
+  }
+
+  async capture(transactionId: string, amount: number): Promise<GatewayResult> {
+    this.logger.debug('Capturing mock charge', { transactionId, amount });
+
+    if (ACH_TRANSACTION_PATTERN.test(transactionId)) {
+      return { success: true, transactionId, message: 'ACH debit submitted', pending: true };
+    }
+
+    return { success: true, transactionId, message: 'Payment successful' };
+  }
+
+  async refund(transactionId: string, amount: number): Promise<GatewayResult> {
+    this.logger.debug('Refunding mock charge', { transactionId, amount });
+
+    return { success: true, transactionId: `re_${this.generateId()}`, message: 'Refund successful' };
+  }
+
+  async void(transactionId: string): Promise<GatewayResult> {
+    this.logger.debug('Voiding mock authorization', { transactionId });
+
+    return { success: true, transactionId, message: 'Authorization voided' };
+  }
+
+  async getChargeStatus(transactionId: string): Promise<ChargeStatusResult> {
+    const achMatch = ACH_TRANSACTION_PATTERN.exec(transactionId);
+    if (!achMatch) {
+      return { success: true, status: 'succeeded', message: 'Payment successful' };
+    }
+
+    const returned = RETURNED_TEST_ACCOUNTS[achMatch[1]];
+    if (returned) {
+      return { success: true, status: 'failed', ...returned };
+    }
+
+    return { success: true, status: 'succeeded', message: 'ACH payment settled' };
+  }
+
+  /**
+   * Detect card brand from card number
+   */
+  private detectCardBrand(cardNumber: string): keyof typeof CARD_BRANDS {
+    if (cardNumber.startsWith('4')) return 'visa';
+    if (cardNumber.startsWith('5')) return 'mastercard';
+    if (cardNumber.startsWith('3')) return 'amex';
+    if (cardNumber.startsWith('6')) return 'discover';
+    return 'unknown';
+  }
+
+  private generateId(): string {
+    return `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+  }
+}
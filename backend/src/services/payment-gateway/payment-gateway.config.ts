@@ -0,0 +1,65 @@
+/**
+ * Payment Gateway Configuration
+ *
+ * Selects the payment gateway for the environment:
+ * - PAYMENT_GATEWAY: 'mock' (default) or 'stripe'
+ * - STRIPE_API_BASE_URL: Stripe API, or the local stub (`npm run stripe-stub`)
+ * - STRIPE_SECRET_KEY: Stripe secret key (required in production)
+ *
+ * Development and test default to the local stub so the Stripe adapter can be
+ * exercised without network access or real keys.
+ */
+
+export const PAYMENT_GATEWAY_PROVIDERS = ['mock', 'stripe'] as const;
+
+export type PaymentGatewayProvider = typeof PAYMENT_GATEWAY_PROVIDERS[number];
+
+export interface PaymentGatewayConfig {
+  provider: PaymentGatewayProvider;
+  stripe: {
+    apiBaseUrl: string;
+    secretKey: string;
+    timeoutMs: number;
+  };
+}
+
+/**
+ * Port the local Stripe stub listens on (same as stripe-mock)
+ */
+export const STRIPE_STUB_PORT = 12111;
+
+// Accepted by the local stub, never by Stripe
+const STRIPE_STUB_SECRET_KEY = 'sk_test_stub';
+
+/**
+ * Get payment gateway configuration based on environment
+ *
+ * @throws Error if the configuration is incomplete or unknown
+ */
+export function getPaymentGatewayConfig(): PaymentGatewayConfig {
+  const nodeEnv = process.env.NODE_ENV || 'development';
+  const provider = (process.env.PAYMENT_GATEWAY || 'mock') as PaymentGatewayProvider;
+
+  if (!PAYMENT_GATEWAY_PROVIDERS.includes(provider)) {
+    throw new Error(
+      `Unknown PAYMENT_GATEWAY "${provider}" (expected ${PAYMENT_GATEWAY_PROVIDERS.join(' | ')})`
+    );
+  }
+
+  const production = nodeEnv === 'production';
+  const secretKey = process.env.STRIPE_SECRET_KEY || (production ? '' : STRIPE_STUB_SECRET_KEY);
+
+  if (provider === 'stripe' && !secretKey) {
+    throw new Error('STRIPE_SECRET_KEY is required when PAYMENT_GATEWAY=stripe in production');
+  }
+
+  return {
+    provider,
+    stripe: {
+      apiBaseUrl: process.env.STRIPE_API_BASE_URL
+        || (production ? 'https://api.stripe.com' : `http://localhost:${STRIPE_STUB_PORT}`),
+      secretKey,
+      timeoutMs: parseInt(process.env.STRIPE_TIMEOUT_MS || '10000', 10),
+    },
+  };
+}
@@ -0,0 +1,33 @@
+/**
+ * Payment Gateway Module
+ *
+ * Provides the PaymentGateway configured for the environment under the
+ * PAYMENT_GATEWAY token (see payment-gateway.config.ts).
+ */
+
+import { Logger, Module } from '@nestjs/common';
+import { PAYMENT_GATEWAY, PaymentGateway } from './payment-gateway';
+import { getPaymentGatewayConfig } from './payment-gateway.config';
+import { MockPaymentGateway } from './mock-payment-gateway';
+import { StripePaymentGateway } from './stripe-payment-gateway';
+
+@Module({
+  providers: [
+    MockPaymentGateway,
+    {
+      provide: PAYMENT_GATEWAY,
+      inject: [MockPaymentGateway],
+      useFactory: (mockGateway: MockPaymentGateway): PaymentGateway => {
+        const config = getPaymentGatewayConfig();
+        const gateway = config.provider === 'stripe' ? new StripePaymentGateway(config.stripe) : mockGateway;
+
+        new Logger(PaymentGatewayModule.name).log(
+          `Using ${gateway.name} payment gateway${config.provider === 'stripe' ? ` at ${config.stripe.apiBaseUrl}` : ''}`
+        );
+        return gateway;
+      },
+    },
+  ],
+  exports: [PAYMENT_GATEWAY],
+})
+export class PaymentGatewayModule {}
@@ -0,0 +1,145 @@
+/**
+ * Payment Gateway
+ *
+ * The operations the app needs from a card/ACH payment gateway. Raw card and
+ * bank details never reach the API: the browser tokenizes them against the
+ * gateway directly (Stripe's POST /v1/tokens, or the local stub), and every
+ * call here works on the returned token or on a gateway transaction ID.
+ *
+ * ACH debits are captured as pending and settle (or are returned by the bank)
+ * days later; getChargeStatus() reports the outcome to the ACH settlement job.
+ *
+ * Implementations:
+ * - MockPaymentGateway: in-process, Stripe test-card behavior (default)
+ * - StripePaymentGateway: Stripe-shaped REST API (Stripe or the local stub)
+ *
+ * The implementation is chosen per environment (see payment-gateway.config.ts)
+ * and injected with the PAYMENT_GATEWAY token.
+ */
+
+/**
+ * Injection token for the configured PaymentGateway
+ */
+export const PAYMENT_GATEWAY = 'PAYMENT_GATEWAY';
+
+export type GatewayPaymentMethod = 'credit_card' | 'ach';
+
+/**
+ * Card details to tokenize
+ */
+export interface CardDetails {
+  paymentMethod: 'credit_card';
+  cardNumber: string;
+  cardExpiry?: string; // MM/YY
+  cardCvv?: string;
+}
+
+/**
+ * Bank account details to tokenize (ACH)
+ */
+export interface BankAccountDetails {
+  paymentMethod: 'ach';
+  routingNumber: string;
+  accountNumber: string;
+  accountType?: 'checking' | 'savings';
+}
+
+export type PaymentMethodDetails = CardDetails | BankAccountDetails;
+
+/**
+ * Result of tokenizing a payment method
+ */
+export interface TokenizeResult {
+  success: boolean;
+  token?: string; // Reusable reference to the payment method
+  lastFourDigits?: string;
+  cardBrand?: string; // Visa, Mastercard, Discover, American Express
+  message: string;
+}
+
+/**
+ * Result of an authorize, capture, refund or void call
+ */
+export interface GatewayResult {
+  success: boolean;
+  transactionId?: string; // Recorded as the payment's transaction_id
+  message: string; // Recorded as the payment's gateway_response
+  lastFourDigits?: string; // Payment method charged (authorize)
+  cardBrand?: string;
+  pending?: boolean; // Captured ACH debit that has not settled yet (capture)
+}
+
+/**
+ * Settlement state of a captured charge
+ */
+export type ChargeStatus = 'pending' | 'succeeded' | 'failed';
+
+/**
+ * Result of looking up a charge
+ */
+export interface ChargeStatusResult {
+  success: boolean; // The lookup itself succeeded
+  status?: ChargeStatus;
+  failureCode?: string; // Returned ACH debits: insufficient_funds, account_closed, no_account
+  message: string; // Return reason, e.g. "Insufficient funds (R01)"
+}
+
+export interface PaymentGateway {
+  readonly name: string;
+
+  /**
+   * Exchange card or bank details for a token
+   *
+   * Not called by the API; backs the local stub's POST /v1/tokens and tests.
+   */
+  tokenize(details: PaymentMethodDetails): Promise<TokenizeResult>;
+
+  /**
+   * Place a hold for an amount (USD) on a tokenized payment method
+   */
+  authorize(token: string, amount: number): Promise<GatewayResult>;
+
+  /**
+   * Collect an authorized amount (USD)
+   */
+  capture(transactionId: string, amount: number): Promise<GatewayResult>;
+
+  /**
+   * Return all or part of a captured amount (USD)
+   */
+  refund(transactionId: string, amount: number): Promise<GatewayResult>;
+
+  /**
+   * Release an authorization that was not captured
+   */
+  void(transactionId: string): Promise<GatewayResult>;
+
+  /**
+   * Whether a captured charge has settled (ACH debits settle days after capture)
+   */
+  getChargeStatus(transactionId: string): Promise<ChargeStatusResult>;
+}
+
+/**
+ * Authorize and immediately capture a charge
+ *
+ * An authorization whose capture fails is voided so the hold is released.
+ * The result carries the charged payment method from the authorization.
+ */
+export async function authorizeAndCapture(
+  gateway: PaymentGateway,
+  token: string,
+  amount: number
+): Promise<GatewayResult> {
+  const authorization = await gateway.authorize(token, amount);
+  if (!authorization.success || !authorization.transactionId) {
+    return authorization;
+  }
+
+  const capture = await gateway.capture(authorization.transactionId, amount);
+  if (!capture.success) {
+    await gateway.void(authorization.transactionId);
+  }
+
+  return { ...capture, lastFourDigits: authorization.lastFourDigits, cardBrand: authorization.cardBrand };
+}
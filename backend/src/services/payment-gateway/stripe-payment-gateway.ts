@@ -0,0 +1,184 @@
+/**
+ * Stripe Payment Gateway
+ *
+ * Adapter for the Stripe REST API (tokens, charges and refunds). Pointed at
+ * the local stub (src/cli/stripe-stub.ts) outside production.
+ *
+ * - tokenize: POST /v1/tokens
+ * - authorize: POST /v1/charges with capture=false
+ * - capture: POST /v1/charges/:id/capture
+ * - refund: POST /v1/refunds with an amount
+ * - void: POST /v1/refunds without an amount (releases an uncaptured charge)
+ * - getChargeStatus: GET /v1/charges/:id (ACH debits stay pending until they
+ *   settle or fail)
+ *
+ * Declines and API errors are returned as unsuccessful results carrying
+ * Stripe's error message; network failures and timeouts likewise, so callers
+ * handle every failure the same way.
+ */
+
+import { Logger } from '@nestjs/common';
+import type { PaymentGatewayConfig } from './payment-gateway.config';
+import type {
+  ChargeStatusResult,
+  GatewayResult,
+  PaymentGateway,
+  PaymentMethodDetails,
+  TokenizeResult,
+} from './payment-gateway';
+
+type StripeResponse = { ok: true; body: any } | { ok: false; message: string };
+
+// Stripe brand names that differ from the ones stored on payments
+const CARD_BRANDS: Record<string, string> = {
+  MasterCard: 'Mastercard',
+};
+
+export class StripePaymentGateway implements PaymentGateway {
+  readonly name = 'stripe';
+  private readonly logger = new Logger(StripePaymentGateway.name);
+
+  constructor(private readonly config: PaymentGatewayConfig['stripe']) {}
+
+  async tokenize(details: PaymentMethodDetails): Promise<TokenizeResult> {
+    const params: Record<string, string> = {};
+
+    if (details.paymentMethod === 'ach') {
+      Object.assign(params, {
+        'bank_account[country]': 'US',
+        'bank_account[currency]': 'usd',
+        'bank_account[routing_number]': details.routingNumber || '',
+        'bank_account[account_number]': details.accountNumber || '',
+        'bank_account[account_holder_type]': 'individual',
+        'bank_account[account_type]': details.accountType || 'checking',
+      });
+    } else {
+      const [expMonth, expYear] = (details.cardExpiry || '').split('/');
+      Object.assign(params, {
+        'card[number]': details.cardNumber?.replace(/\s/g, '') || '',
+        'card[exp_month]': expMonth || '',
+        'card[exp_year]': expYear || '',
+        'card[cvc]': details.cardCvv || '',
+      });
+    }
+
+    const response = await this.request('/v1/tokens', params);
+    if (!response.ok) {
+      return { success: false, message: response.message };
+    }
+
+    const { id, card, bank_account: bankAccount } = response.body;
+    return {
+      success: true,
+      token: id,
+      lastFourDigits: card?.last4 || bankAccount?.last4,
+      cardBrand: this.toCardBrand(card?.brand),
+      message: card ? 'Card tokenized' : 'Bank account tokenized',
+    };
+  }
+
+  async authorize(token: string, amount: number): Promise<GatewayResult> {
+    const response = await this.request('/v1/charges', {
+      amount: this.toCents(amount),
+      currency: 'usd',
+      source: token,
+      capture: 'false',
+    });
+
+    const result = this.toResult(response, 'Authorized');
+    if (!response.ok) {
+      return result;
+    }
+
+    // The charged card or bank account
+    const { source } = response.body;
+    return { ...result, lastFourDigits: source?.last4, cardBrand: this.toCardBrand(source?.brand) };
+  }
+
+  async capture(transactionId: string, amount: number): Promise<GatewayResult> {
+    const response = await this.request(`/v1/charges/${encodeURIComponent(transactionId)}/capture`, {
+      amount: this.toCents(amount),
+    });
+
+    const result = this.toResult(response, 'Payment successful');
+    return response.ok && response.body.status === 'pending' ? { ...result, pending: true } : result;
+  }
+
+  async refund(transactionId: string, amount: number): Promise<GatewayResult> {
+    const response = await this.request('/v1/refunds', {
+      charge: transactionId,
+      amount: this.toCents(amount),
+    });
+
+    return this.toResult(response, 'Refund successful');
+  }
+
+  async void(transactionId: string): Promise<GatewayResult> {
+    const response = await this.request('/v1/refunds', { charge: transactionId });
+
+    return this.toResult(response, 'Authorization voided');
+  }
+
+  async getChargeStatus(transactionId: string): Promise<ChargeStatusResult> {
+    const response = await this.request(`/v1/charges/${encodeURIComponent(transactionId)}`);
+    if (!response.ok) {
+      return { success: false, message: response.message };
+    }
+
+    const { status, failure_code: failureCode, failure_message: failureMessage } = response.body;
+    return {
+      success: true,
+      status,
+      failureCode: failureCode || undefined,
+      message: failureMessage || (status === 'pending' ? 'Payment pending' : 'Payment successful'),
+    };
+  }
+
+  /**
+   * POST form-encoded parameters to the Stripe API (GET without parameters)
+   */
+  private async request(path: string, params?: Record<string, string>): Promise<StripeResponse> {
+    try {
+      const response = await fetch(`${this.config.apiBaseUrl}${path}`, {
+        method: params ? 'POST' : 'GET',
+        headers: {
+          Authorization: `Bearer ${this.config.secretKey}`,
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: params ? new URLSearchParams(params).toString() : undefined,
+        signal: AbortSignal.timeout(this.config.timeoutMs),
+      });
+      const body = await response.json();
+
+      if (!response.ok) {
+        this.logger.warn(`Stripe ${path} failed`, { status: response.status, code: body?.error?.code });
+        return { ok: false, message: body?.error?.message || `Payment gateway error (HTTP ${response.status})` };
+      }
+
+      return { ok: true, body };
+    } catch (error) {
+      this.logger.error(`Stripe ${path} unreachable`, error instanceof Error ? error.message : error);
+      return { ok: false, message: 'Payment gateway unavailable' };
+    }
+  }
+
+  private toResult(response: StripeResponse, successMessage: string): GatewayResult {
+    if (!response.ok) {
+      return { success: false, message: response.message };
+    }
+
+    return {
+      success: true,
+      transactionId: response.body.id,
+      message: response.body.outcome?.seller_message || successMessage,
+    };
+  }
+
+  private toCardBrand(brand?: string): string | undefined {
+    return brand ? CARD_BRANDS[brand] || brand : undefined;
+  }
+
+  private toCents(amount: number): string {
+    return String(Math.round(amount * 100));
+  }
+}
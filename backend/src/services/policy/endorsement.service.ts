@@ -0,0 +1,747 @@
+/**
+ * Endorsement Service
+ *
+ * Mid-term changes to an in-force policy: vehicles, additional drivers,
+ * coverage and contact details.
+ *
+ * - Propose: the change is applied to a copy of the policy snapshot and
+ *   re-rated; the premium difference is pro-rated over the rest of the term
+ *   from the change's effective date. Nothing on the policy changes yet.
+ * - Confirm: the policy moves to the next version with the re-rated snapshot
+ *   (written to policy_version, effective from the change's date),
+ *   the premium history records the rating, and the difference is billed as
+ *   an additional charge (collected by the collection job) or returned
+ *   through RefundService (any remainder credited to upcoming installments).
+ *   A policy event is logged and the declarations page is regenerated.
+ *   These writes share one transaction, and the refund is issued last, so a
+ *   declined refund leaves the policy and the proposal as they were. When a
+ *   return is split over several charges and only some refunds go through,
+ *   the change is kept and the declined part is recorded for follow-up.
+ *
+ * A proposal is tied to the policy version it was rated against, so it can
+ * no longer be confirmed once another change has been applied.
+ */
+
+import { Injectable, Inject, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { and, desc, eq } from 'drizzle-orm';
+import { policy } from '../../../../database/schema/policy.schema';
+import { agreement } from '../../../../database/schema/agreement.schema';
+import { payment } from '../../../../database/schema/payment.schema';
+import { document } from '../../../../database/schema/document.schema';
+import { policyEndorsement } from '../../../../database/schema/policy-endorsement.schema';
+import type { Database } from '../../database/drizzle.config';
+import { DATABASE_CONNECTION } from '../../database/database.module';
+import { BusinessRuleError } from '../../api/middleware/error-handler';
+import { formatDateToYYYYMMDD } from '../../utils/validators';
+import { QuoteService } from '../quote/quote.service';
+import { RefundService, RefundResult } from '../billing/refund.service';
+import { CoverageRatingService } from '../rating-engine/coverage-rating';
+import { PremiumHistoryService, PremiumCalculationTrigger } from '../rating-engine/premium-history.service';
+import { PolicyVersionService } from './policy-version.service';
+import { addDays, daysBetween, isCalendarDate } from './policy-term';
+import { canPerform } from './policy-status';
+
+type PolicyRecord = typeof policy.$inferSelect;
+type EndorsementRecord = typeof policyEndorsement.$inferSelect;
+
+export interface EndorsementVehicle {
+  year: number;
+  make: string;
+  model: string;
+  vin: string;
+  bodyType?: string;
+  annualMileage?: number;
+  primaryDriverId?: string;
+}
+
+export interface EndorsementDriver {
+  firstName: string;
+  lastName: string;
+  birthDate: string; // YYYY-MM-DD
+  email: string;
+  phone?: string;
+  gender?: string;
+  maritalStatus?: string;
+  yearsLicensed?: number;
+  relationship?: string;
+  licenseNumber?: string;
+  licenseState?: string;
+}
+
+export interface EndorsementCoverages {
+  bodilyInjuryLimit?: string;
+  propertyDamageLimit?: string;
+  medicalPaymentsLimit?: number;
+  uninsuredMotoristBodilyInjury?: string;
+  underinsuredMotoristBodilyInjury?: string;
+  collision?: boolean;
+  collisionDeductible?: number;
+  comprehensive?: boolean;
+  comprehensiveDeductible?: number;
+  uninsuredMotorist?: boolean;
+  roadsideAssistance?: boolean;
+  rentalReimbursement?: boolean;
+  rentalLimit?: number;
+}
+
+/**
+ * Requested change (omitted parts stay as they are)
+ */
+export interface EndorsementChanges {
+  vehicles?: EndorsementVehicle[]; // Replaces the insured vehicles
+  additionalDrivers?: EndorsementDriver[]; // Replaces the additional drivers
+  coverages?: EndorsementCoverages; // Merged into the current selections
+  address?: {
+    addressLine1: string;
+    addressLine2?: string;
+    city: string;
+    state: string;
+    zipCode: string;
+  };
+  contact?: { email?: string; phone?: string }; // Primary insured
+}
+
+/**
+ * How the premium difference was billed
+ */
+export interface BillingAdjustment {
+  type: 'CHARGE' | 'CREDIT' | 'NONE';
+  amount: number; // USD, positive
+  paymentId?: string; // Additional charge (CHARGE)
+  dueDate?: string;
+  refunds: RefundResult[]; // Returned to the payment method (CREDIT); FAILED ones await follow-up
+  installmentCredit: number; // Taken off upcoming installments (CREDIT)
+}
+
+/**
+ * Endorsement as returned to callers
+ */
+export interface EndorsementSummary {
+  endorsementId: string;
+  endorsementNumber: string;
+  policyNumber: string;
+  status: string;
+  effectiveDate: string;
+  baseVersion: number;
+  versionNumber: number | null;
+  changes: EndorsementChanges;
+  previousTermPremium: number;
+  newTermPremium: number;
+  proratedPremium: number; // Negative when premium is returned
+  proratedTax: number;
+  proratedAmount: number;
+  remainingDays: number;
+  termDays: number;
+  appliedAt: Date | null;
+}
+
+export interface AppliedEndorsement extends EndorsementSummary {
+  billingAdjustment: BillingAdjustment;
+  declarationsDocumentId: string;
+}
+
+@Injectable()
+export class EndorsementService {
+  private readonly logger = new Logger(EndorsementService.name);
+
+  constructor(
+    @Inject(DATABASE_CONNECTION) private readonly db: Database,
+    @Inject(QuoteService) private readonly quoteService: QuoteService,
+    @Inject(RefundService) private readonly refundService: RefundService,
+    @Inject(CoverageRatingService) private readonly coverageRating: CoverageRatingService,
+    @Inject(PremiumHistoryService) private readonly premiumHistory: PremiumHistoryService,
+    @Inject(PolicyVersionService) private readonly policyVersions: PolicyVersionService,
+  ) {}
+
+  /**
+   * Re-rate a change and store it as a proposal
+   *
+   * @param policyNumber - DZXXXXXXXX policy number
+   * @param changes - Requested change
+   * @param effectiveDate - YYYY-MM-DD (default today)
+   * @param asOf - Request date (default now)
+   * @throws NotFoundException if the policy does not exist
+   * @throws BadRequestException if nothing is changed or the date is invalid
+   * @throws BusinessRuleError if the policy is not in force, the date is
+   *   outside the rest of the term or before an applied change, or the
+   *   coverage is below the state minimums
+   */
+  async proposeEndorsement(
+    policyNumber: string,
+    changes: EndorsementChanges,
+    effectiveDate?: string,
+    asOf: Date = new Date()
+  ): Promise<EndorsementSummary> {
+    const policyRecord = await this.getPolicy(policyNumber);
+    const today = formatDateToYYYYMMDD(asOf);
+
+    if (!canPerform(policyRecord.status_code, 'ENDORSE')) {
+      throw new BusinessRuleError(
+        `Policy ${policyNumber} has status ${policyRecord.status_code}. Only policies in force can be changed.`,
+        'POLICY_NOT_ENDORSABLE'
+      );
+    }
+
+    if (!Object.values(changes).some(change => change !== undefined)) {
+      throw new BadRequestException('No changes requested');
+    }
+
+    const changeDate = effectiveDate || today;
+    await this.validateEffectiveDate(policyRecord, changeDate, today);
+
+    const currentSnapshot = policyRecord.quote_snapshot as any;
+    const proposedSnapshot = this.applyChanges(currentSnapshot, changes);
+
+    this.coverageRating.validateStateMinimums(proposedSnapshot.coverages, proposedSnapshot.address?.state);
+
+    const { rating, premium } = await this.quoteService.rateSnapshot(proposedSnapshot, changeDate);
+    proposedSnapshot.premium = premium;
+    proposedSnapshot.rating = rating;
+    proposedSnapshot.discounts = rating.discounts;
+
+    const termDays = daysBetween(policyRecord.effective_date, policyRecord.expiration_date);
+    const remainingDays = daysBetween(changeDate, policyRecord.expiration_date);
+    const prorate = (termAmount: number) => Math.round(termAmount * 100 * remainingDays / termDays);
+
+    const previousPremium = currentSnapshot.premium || {};
+    const premiumCents = prorate(premium.subtotal - Number(previousPremium.subtotal ?? 0));
+    const taxCents = prorate(this.sumLines(premium.taxes) - this.sumLines(previousPremium.taxes));
+
+    const [endorsement] = await this.db
+      .insert(policyEndorsement)
+      .values({
+        policy_id: policyRecord.policy_identifier,
+        endorsement_number: `END-${this.generateId()}`,
+        status: 'PROPOSED',
+        effective_date: changeDate,
+        base_version: policyRecord.version_number,
+        changes,
+        proposed_snapshot: proposedSnapshot,
+        previous_term_premium: Number(previousPremium.subtotal ?? 0).toFixed(2),
+        new_term_premium: premium.subtotal.toFixed(2),
+        prorated_premium: (premiumCents / 100).toFixed(2),
+        prorated_tax: (taxCents / 100).toFixed(2),
+        prorated_amount: ((premiumCents + taxCents) / 100).toFixed(2),
+      })
+      .returning();
+
+    this.logger.log(`Proposed endorsement ${endorsement.endorsement_number} on policy ${policyNumber}`, {
+      effectiveDate: changeDate,
+      proratedAmount: endorsement.prorated_amount,
+    });
+
+    return this.toSummary(endorsement, policyRecord);
+  }
+
+  /**
+   * Apply a proposed change as the next policy version
+   *
+   * @param policyNumber - DZXXXXXXXX policy number
+   * @param endorsementId - Proposal to apply
+   * @param asOf - Confirmation date (default now)
+   * @throws NotFoundException if the policy or proposal does not exist
+   * @throws BusinessRuleError if the proposal was already applied, another
+   *   change was applied since it was proposed, or the refund is declined
+   */
+  async confirmEndorsement(policyNumber: string, endorsementId: string, asOf: Date = new Date()): Promise<AppliedEndorsement> {
+    const policyRecord = await this.getPolicy(policyNumber);
+    const endorsement = await this.getEndorsement(policyRecord, endorsementId);
+    const today = formatDateToYYYYMMDD(asOf);
+
+    if (endorsement.status !== 'PROPOSED') {
+      throw new BusinessRuleError(
+        `Endorsement ${endorsement.endorsement_number} has status ${endorsement.status}. Only proposed changes can be applied.`,
+        'ENDORSEMENT_NOT_PROPOSED'
+      );
+    }
+
+    if (!canPerform(policyRecord.status_code, 'ENDORSE')) {
+      throw new BusinessRuleError(
+        `Policy ${policyNumber} has status ${policyRecord.status_code}. Only policies in force can be changed.`,
+        'POLICY_NOT_ENDORSABLE'
+      );
+    }
+
+    const versionNumber = endorsement.base_version + 1;
+    const snapshot = endorsement.proposed_snapshot as any;
+    const amount = parseFloat(endorsement.prorated_amount);
+
+    const { applied, billingAdjustment, declarations } = await this.db.transaction(async (tx) => {
+      // Only moves the policy if no other change was applied since the proposal
+      const [updated] = await tx
+        .update(policy)
+        .set({ quote_snapshot: endorsement.proposed_snapshot, version_number: versionNumber, updated_at: new Date() })
+        .where(and(
+          eq(policy.policy_identifier, policyRecord.policy_identifier),
+          eq(policy.version_number, endorsement.base_version),
+        ))
+        .returning();
+
+      if (!updated) {
+        throw new BusinessRuleError(
+          `Endorsement ${endorsement.endorsement_number} was proposed against version ${endorsement.base_version} ` +
+            `but the policy is at version ${policyRecord.version_number}. Propose the change again.`,
+          'ENDORSEMENT_STALE'
+        );
+      }
+
+      const appliedAt = new Date();
+      const [applied] = await tx
+        .update(policyEndorsement)
+        .set({ status: 'APPLIED', version_number: versionNumber, applied_at: appliedAt, updated_at: appliedAt })
+        .where(eq(policyEndorsement.endorsement_id, endorsement.endorsement_id))
+        .returning();
+
+      await this.policyVersions.recordVersion({
+        policyId: policyRecord.policy_identifier,
+        versionNumber,
+        source: 'ENDORSEMENT',
+        effectiveDate: endorsement.effective_date,
+        snapshot: endorsement.proposed_snapshot,
+        endorsementId: endorsement.endorsement_id,
+      }, tx);
+
+      await tx
+        .update(agreement)
+        .set({ premium_amount: endorsement.new_term_premium })
+        .where(eq(agreement.agreement_identifier, policyRecord.policy_identifier));
+
+      const { ratingInput, rating } = await this.quoteService.rateSnapshot(snapshot, endorsement.effective_date);
+      await this.premiumHistory.record(
+        policyRecord.policy_identifier,
+        ratingInput,
+        rating,
+        PremiumCalculationTrigger.ENDORSEMENT,
+        tx
+      );
+
+      const declarations = await this.regenerateDeclarations(policyRecord, versionNumber, endorsement.effective_date, tx);
+
+      await this.quoteService.logPolicyEvent(
+        policyRecord.policy_identifier,
+        policyRecord.status_code,
+        policyRecord.status_code,
+        `Endorsement ${endorsement.endorsement_number} (${this.describeChanges(endorsement.changes as EndorsementChanges)}) ` +
+          `applied as version ${versionNumber} effective ${endorsement.effective_date}; ` +
+          `premium ${amount < 0 ? '-' : '+'}$${Math.abs(amount).toFixed(2)} for the rest of the term`,
+        tx
+      );
+
+      // Last, so a declined refund rolls the rest back (one declined after
+      // others went through is recorded for follow-up instead)
+      const billingAdjustment = await this.adjustBilling(policyRecord, endorsement, today, tx);
+
+      return { applied, billingAdjustment, declarations };
+    });
+
+    this.logger.log(`Applied endorsement ${endorsement.endorsement_number} to policy ${policyNumber}`, {
+      versionNumber,
+      billingAdjustment: billingAdjustment.type,
+    });
+
+    return {
+      ...this.toSummary(applied, policyRecord),
+      billingAdjustment,
+      declarationsDocumentId: declarations.document_id,
+    };
+  }
+
+  /**
+   * Endorsements on a policy, newest first
+   *
+   * @param policyNumber - DZXXXXXXXX policy number
+   */
+  async getEndorsements(policyNumber: string): Promise<EndorsementSummary[]> {
+    const policyRecord = await this.getPolicy(policyNumber);
+
+    const endorsements = await this.db
+      .select()
+      .from(policyEndorsement)
+      .where(eq(policyEndorsement.policy_id, policyRecord.policy_identifier))
+      .orderBy(desc(policyEndorsement.created_at));
+
+    return endorsements.map(endorsement => this.toSummary(endorsement, policyRecord));
+  }
+
+  private async getPolicy(policyNumber: string): Promise<PolicyRecord> {
+    const [policyRecord] = await this.db
+      .select()
+      .from(policy)
+      .where(eq(policy.policy_number, policyNumber))
+      .limit(1);
+
+    if (!policyRecord) {
+      throw new NotFoundException(`Policy ${policyNumber} not found`);
+    }
+
+    return policyRecord;
+  }
+
+  private async getEndorsement(policyRecord: PolicyRecord, endorsementId: string): Promise<EndorsementRecord> {
+    const [endorsement] = await this.db
+      .select()
+      .from(policyEndorsement)
+      .where(and(
+        eq(policyEndorsement.endorsement_id, endorsementId),
+        eq(policyEndorsement.policy_id, policyRecord.policy_identifier),
+      ))
+      .limit(1);
+
+    if (!endorsement) {
+      throw new NotFoundException(`Endorsement ${endorsementId} not found on policy ${policyRecord.policy_number}`);
+    }
+
+    return endorsement;
+  }
+
+  /**
+   * A change takes effect within the rest of the term, and not before one already applied
+   */
+  private async validateEffectiveDate(policyRecord: PolicyRecord, effectiveDate: string, today: string): Promise<void> {
+    if (!isCalendarDate(effectiveDate)) {
+      throw new BadRequestException('effectiveDate must be a date in YYYY-MM-DD format');
+    }
+
+    const earliest = policyRecord.effective_date > today ? policyRecord.effective_date : today;
+    if (effectiveDate < earliest || effectiveDate >= policyRecord.expiration_date) {
+      throw new BusinessRuleError(
+        `Change must take effect between ${earliest} and ${addDays(policyRecord.expiration_date, -1)}`,
+        'ENDORSEMENT_DATE_OUT_OF_TERM'
+      );
+    }
+
+    const [latest] = await this.db
+      .select()
+      .from(policyEndorsement)
+      .where(and(
+        eq(policyEndorsement.policy_id, policyRecord.policy_identifier),
+        eq(policyEndorsement.status, 'APPLIED'),
+      ))
+      .orderBy(desc(policyEndorsement.effective_date))
+      .limit(1);
+
+    if (latest && effectiveDate < latest.effective_date) {
+      throw new BusinessRuleError(
+        `Change cannot take effect before endorsement ${latest.endorsement_number} (effective ${latest.effective_date})`,
+        'ENDORSEMENT_OUT_OF_SEQUENCE'
+      );
+    }
+  }
+
+  /**
+   * Policy snapshot with the requested change, in the shape the quote flow stores
+   */
+  private applyChanges(snapshot: any, changes: EndorsementChanges): any {
+    const updated = { ...snapshot, meta: { ...snapshot.meta, updatedAt: new Date().toISOString() } };
+
+    if (changes.vehicles) {
+      updated.vehicles = changes.vehicles.map(v => ({
+        year: v.year,
+        make: v.make,
+        model: v.model,
+        vin: v.vin || null,
+        bodyType: v.bodyType || null,
+        annualMileage: v.annualMileage || null,
+        primaryDriverId: v.primaryDriverId || null,
+      }));
+      updated.vehicle = updated.vehicles[0] || null;
+    }
+
+    if (changes.additionalDrivers) {
+      // Drivers already on the policy keep their driving record
+      const existing = new Map<string, any>(
+        (snapshot.additionalDrivers || []).map((d: any) => [String(d.email).toLowerCase(), d])
+      );
+
+      updated.additionalDrivers = changes.additionalDrivers.map(d => {
+        const current = existing.get(d.email.toLowerCase());
+        return {
+          firstName: d.firstName,
+          lastName: d.lastName,
+          birthDate: d.birthDate,
+          email: d.email,
+          phone: d.phone,
+          gender: d.gender || null,
+          maritalStatus: d.maritalStatus || null,
+          yearsLicensed: d.yearsLicensed || null,
+          relationship: d.relationship || null,
+          licenseNumber: d.licenseNumber || null,
+          licenseState: d.licenseState || null,
+          violations: current?.violations || [],
+          accidents: current?.accidents || [],
+        };
+      });
+    }
+
+    if (changes.coverages) {
+      const c = changes.coverages;
+      const pick = <T>(value: T | undefined, current: T) => (value !== undefined ? value : current);
+      const current = snapshot.coverages || {};
+
+      updated.coverages = {
+        ...current,
+        bodilyInjuryLimit: pick(c.bodilyInjuryLimit, current.bodilyInjuryLimit),
+        propertyDamageLimit: pick(c.propertyDamageLimit, current.propertyDamageLimit),
+        medicalPaymentsLimit: pick(c.medicalPaymentsLimit, current.medicalPaymentsLimit),
+        uninsuredMotoristBodilyInjury: pick(c.uninsuredMotoristBodilyInjury, current.uninsuredMotoristBodilyInjury),
+        underinsuredMotoristBodilyInjury: pick(c.underinsuredMotoristBodilyInjury, current.underinsuredMotoristBodilyInjury),
+        hasCollision: pick(c.collision, current.hasCollision),
+        collisionDeductible: pick(c.collisionDeductible, current.collisionDeductible),
+        hasComprehensive: pick(c.comprehensive, current.hasComprehensive),
+        comprehensiveDeductible: pick(c.comprehensiveDeductible, current.comprehensiveDeductible),
+        hasUninsured: pick(c.uninsuredMotorist, current.hasUninsured),
+        hasRoadside: pick(c.roadsideAssistance, current.hasRoadside),
+        hasRental: pick(c.rentalReimbursement, current.hasRental),
+        rentalLimit: pick(c.rentalLimit, current.rentalLimit),
+      };
+    }
+
+    if (changes.address) {
+      updated.address = {
+        addressLine1: changes.address.addressLine1,
+        addressLine2: changes.address.addressLine2 || null,
+        city: changes.address.city,
+        state: changes.address.state,
+        zipCode: changes.address.zipCode,
+      };
+    }
+
+    if (changes.contact) {
+      updated.driver = {
+        ...snapshot.driver,
+        email: changes.contact.email ?? snapshot.driver?.email,
+        phone: changes.contact.phone ?? snapshot.driver?.phone,
+      };
+    }
+
+    return updated;
+  }
+
+  /**
+   * Bill additional premium, or return premium (refund first, then upcoming installments)
+   */
+  private async adjustBilling(
+    policyRecord: PolicyRecord,
+    endorsement: EndorsementRecord,
+    today: string,
+    tx: Pick<Database, 'select' | 'insert' | 'update'>
+  ): Promise<BillingAdjustment> {
+    const amountCents = Math.round(parseFloat(endorsement.prorated_amount) * 100);
+    const none: BillingAdjustment = { type: 'NONE', amount: 0, refunds: [], installmentCredit: 0 };
+
+    if (amountCents === 0) {
+      return none;
+    }
+
+    const [lastCharge] = await tx
+      .select()
+      .from(payment)
+      .where(and(eq(payment.policy_id, policyRecord.policy_identifier), eq(payment.payment_type, 'CHARGE')))
+      .orderBy(desc(payment.payment_date))
+      .limit(1);
+
+    if (amountCents > 0) {
+      const dueDate = endorsement.effective_date > today ? endorsement.effective_date : today;
+
+      const [charge] = await tx
+        .insert(payment)
+        .values({
+          policy_id: policyRecord.policy_identifier,
+          endorsement_id: endorsement.endorsement_id,
+          payment_number: `PAY-${this.generateId()}`,
+          payment_method: lastCharge?.payment_method || 'credit_card',
+          payment_status: 'PENDING',
+          amount: (amountCents / 100).toFixed(2),
+          premium_amount: endorsement.prorated_premium,
+          tax_amount: endorsement.prorated_tax,
+          fee_amount: '0.00',
+          due_date: dueDate,
+          payment_token: lastCharge?.payment_token,
+          last_four_digits: lastCharge?.last_four_digits,
+          card_brand: lastCharge?.card_brand,
+          account_type: lastCharge?.account_type,
+          payment_date: new Date(`${dueDate}T00:00:00Z`),
+        })
+        .returning();
+
+      return { ...none, type: 'CHARGE', amount: amountCents / 100, paymentId: charge.payment_id, dueDate };
+    }
+
+    const creditCents = -amountCents;
+    const refundableCents = Math.round(
+      await this.refundService.getPolicyRefundableAmount(policyRecord.policy_identifier, tx) * 100
+    );
+    const refundCents = Math.min(creditCents, refundableCents);
+
+    const refunds = refundCents > 0
+      ? await this.refundService.refundPolicy(
+          policyRecord.policy_identifier,
+          refundCents / 100,
+          `Return premium - endorsement ${endorsement.endorsement_number}`,
+          tx
+        )
+      : [];
+
+    const installmentCreditCents = await this.creditInstallments(policyRecord, creditCents - refundCents, tx);
+
+    return {
+      ...none,
+      type: 'CREDIT',
+      amount: creditCents / 100,
+      refunds,
+      installmentCredit: installmentCreditCents / 100,
+    };
+  }
+
+  /**
+   * Take a credit off the upcoming installments, last due first
+   *
+   * @returns Cents credited (less than asked if the installments run out)
+   */
+  private async creditInstallments(
+    policyRecord: PolicyRecord,
+    creditCents: number,
+    tx: Pick<Database, 'select' | 'update'>
+  ): Promise<number> {
+    if (creditCents <= 0) {
+      return 0;
+    }
+
+    const upcoming = await tx
+      .select()
+      .from(payment)
+      .where(and(
+        eq(payment.policy_id, policyRecord.policy_identifier),
+        eq(payment.payment_type, 'CHARGE'),
+        eq(payment.payment_status, 'PENDING'),
+      ))
+      .orderBy(desc(payment.due_date));
+
+    const toCents = (value: string | null) => Math.round(parseFloat(value ?? '0') * 100);
+    let remainingCents = creditCents;
+
+    for (const installment of upcoming) {
+      if (remainingCents === 0) {
+        break;
+      }
+
+      // Fees stay due; the credit comes off the premium and its tax
+      const creditableCents = toCents(installment.premium_amount) + toCents(installment.tax_amount);
+      const takeCents = Math.min(creditableCents, remainingCents);
+      if (takeCents === 0) {
+        continue;
+      }
+
+      const taxTakeCents = Math.min(
+        toCents(installment.tax_amount),
+        Math.round(takeCents * toCents(installment.tax_amount) / creditableCents)
+      );
+
+      await tx
+        .update(payment)
+        .set({
+          amount: ((toCents(installment.amount) - takeCents) / 100).toFixed(2),
+          premium_amount: ((toCents(installment.premium_amount) - (takeCents - taxTakeCents)) / 100).toFixed(2),
+          tax_amount: ((toCents(installment.tax_amount) - taxTakeCents) / 100).toFixed(2),
+          updated_at: new Date(),
+        })
+        .where(and(eq(payment.payment_id, installment.payment_id), eq(payment.payment_status, 'PENDING')));
+
+      remainingCents -= takeCents;
+    }
+
+    if (remainingCents > 0) {
+      this.logger.warn(`Endorsement credit of $${(remainingCents / 100).toFixed(2)} on policy ${policyRecord.policy_number} left unapplied`);
+    }
+
+    return creditCents - remainingCents;
+  }
+
+  /**
+   * Declarations page for a new policy version (mock - no actual PDF), superseding the previous one
+   */
+  private async regenerateDeclarations(
+    policyRecord: PolicyRecord,
+    versionNumber: number,
+    effectiveDate: string,
+    tx: Pick<Database, 'insert' | 'update'>
+  ): Promise<typeof document.$inferSelect> {
+    await tx
+      .update(document)
+      .set({ is_current: false, superseded_at: new Date(), updated_at: new Date() })
+      .where(and(
+        eq(document.policy_id, policyRecord.policy_identifier),
+        eq(document.document_type, 'POLICY_DOCUMENT'),
+        eq(document.is_current, true),
+      ));
+
+    const [declarations] = await tx
+      .insert(document)
+      .values({
+        policy_id: policyRecord.policy_identifier,
+        document_number: `DOC-${this.generateId()}`,
+        document_type: 'POLICY_DOCUMENT',
+        document_name: `Policy_Declarations_${policyRecord.policy_number}_v${versionNumber}.pdf`,
+        version: versionNumber,
+        is_current: true,
+        document_status: 'READY',
+        storage_url: `/documents/policies/${policyRecord.policy_number}/declarations_v${versionNumber}.pdf`,
+        mime_type: 'application/pdf',
+        description: `Policy declarations page (version ${versionNumber}, effective ${effectiveDate})`,
+        file_size_bytes: 245600, // Mock size
+        generated_at: new Date(),
+      })
+      .returning();
+
+    return declarations;
+  }
+
+  private describeChanges(changes: EndorsementChanges): string {
+    const parts = [
+      changes.vehicles && 'vehicles',
+      changes.additionalDrivers && 'drivers',
+      changes.coverages && 'coverage',
+      changes.address && 'address',
+      changes.contact && 'contact details',
+    ].filter(Boolean);
+
+    return parts.join(', ');
+  }
+
+  private toSummary(endorsement: EndorsementRecord, policyRecord: PolicyRecord): EndorsementSummary {
+    return {
+      endorsementId: endorsement.endorsement_id,
+      endorsementNumber: endorsement.endorsement_number,
+      policyNumber: policyRecord.policy_number,
+      status: endorsement.status,
+      effectiveDate: endorsement.effective_date,
+      baseVersion: endorsement.base_version,
+      versionNumber: endorsement.version_number,
+      changes: endorsement.changes as EndorsementChanges,
+      previousTermPremium: parseFloat(endorsement.previous_term_premium),
+      newTermPremium: parseFloat(endorsement.new_term_premium),
+      proratedPremium: parseFloat(endorsement.prorated_premium),
+      proratedTax: parseFloat(endorsement.prorated_tax),
+      proratedAmount: parseFloat(endorsement.prorated_amount),
+      remainingDays: daysBetween(endorsement.effective_date, policyRecord.expiration_date),
+      termDays: daysBetween(policyRecord.effective_date, policyRecord.expiration_date),
+      appliedAt: endorsement.applied_at,
+    };
+  }
+
+  private sumLines(lines?: Array<{ amount: number }>): number {
+    return (lines || []).reduce((sum, line) => sum + Number(line.amount), 0);
+  }
+
+  /**
+   * Generate 8-character random alphanumeric ID (endorsement, payment and document numbers)
+   */
+  private generateId(): string {
+    const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+    let id = '';
+    for (let i = 0; i < 8; i++) {
+      id += chars.charAt(Math.floor(Math.random() * chars.length));
+    }
+    return id;
+  }
+}
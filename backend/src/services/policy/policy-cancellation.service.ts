@@ -0,0 +1,538 @@
+/**
+ * Policy Cancellation Service
+ *
+ * Cancels a policy before its expiration date:
+ *
+ * - Reasons: insured-requested, non-payment and underwriting. The insurer must
+ *   give notice for its own cancellations (CANCELLATION_NOTICE_DAYS), so the
+ *   earliest cancellation date depends on the reason.
+ * - Immediate (cancellation date today): the policy is CANCELLED now.
+ *   Future: the policy is PENDING_CANCELLATION until the
+ *   process-cancellations job completes it on the cancellation date.
+ * - Return premium: pro-rata, or short-rate (pro-rata less a penalty) for
+ *   insured-requested cancellations. Only the premium is returned; taxes and
+ *   fees are fully earned. What was paid beyond the earned premium is refunded
+ *   through RefundService before the policy is CANCELLED, and future
+ *   installments are cancelled.
+ * - An ACH debit still clearing holds the cancellation back: the policy stays
+ *   PENDING_CANCELLATION until the debit settles or is returned, so the refund
+ *   counts it and it never settles on a cancelled policy.
+ *
+ * Every status change goes through QuoteService.transitionStatus, in one
+ * transaction with the cancellation's other writes, and a cancellation notice
+ * document is generated when the cancellation is requested.
+ */
+
+import { Injectable, Inject, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { and, eq, inArray, lte } from 'drizzle-orm';
+import { policy } from '../../../../database/schema/policy.schema';
+import { payment } from '../../../../database/schema/payment.schema';
+import { document } from '../../../../database/schema/document.schema';
+import type { Database } from '../../database/drizzle.config';
+import { DATABASE_CONNECTION } from '../../database/database.module';
+import { BusinessRuleError } from '../../api/middleware/error-handler';
+import { formatDateToYYYYMMDD } from '../../utils/validators';
+import { QuoteService } from '../quote/quote.service';
+import { RefundService, RefundResult } from '../billing/refund.service';
+import { addDays, daysBetween, isCalendarDate } from './policy-term';
+import { nextStatus } from './policy-status';
+
+export const CANCELLATION_REASONS = ['INSURED_REQUEST', 'NON_PAYMENT', 'UNDERWRITING'] as const;
+export type CancellationReason = typeof CANCELLATION_REASONS[number];
+
+export const RETURN_PREMIUM_METHODS = ['PRO_RATA', 'SHORT_RATE'] as const;
+export type ReturnPremiumMethod = typeof RETURN_PREMIUM_METHODS[number];
+
+/**
+ * Minimum days between the cancellation request and the cancellation date
+ */
+export const CANCELLATION_NOTICE_DAYS: Record<CancellationReason, number> = {
+  INSURED_REQUEST: 0,
+  NON_PAYMENT: 10,
+  UNDERWRITING: 30,
+};
+
+/**
+ * Share of the pro-rata return premium kept under the short-rate method
+ */
+export const SHORT_RATE_PENALTY = 0.1;
+
+// Short-rate only applies when the insured cancels
+const DEFAULT_RETURN_PREMIUM_METHOD: Record<CancellationReason, ReturnPremiumMethod> = {
+  INSURED_REQUEST: 'SHORT_RATE',
+  NON_PAYMENT: 'PRO_RATA',
+  UNDERWRITING: 'PRO_RATA',
+};
+
+const REASON_LABELS: Record<CancellationReason, string> = {
+  INSURED_REQUEST: 'Cancelled at the insured\'s request',
+  NON_PAYMENT: 'Cancelled for non-payment of premium',
+  UNDERWRITING: 'Cancelled for underwriting reasons',
+};
+
+// Charges whose premium counts as paid
+const PAID_CHARGE_STATUSES = ['COMPLETED', 'PARTIALLY_REFUNDED', 'REFUNDED'];
+
+type PolicyRecord = typeof policy.$inferSelect;
+
+// Written with the status change that schedules or completes the cancellation
+const cancellationFields = (policyRecord: PolicyRecord) => ({
+  cancellation_date: policyRecord.cancellation_date,
+  cancellation_reason: policyRecord.cancellation_reason,
+  cancellation_return_premium_method: policyRecord.cancellation_return_premium_method,
+});
+
+/**
+ * Cancellation request
+ */
+export interface CancellationRequest {
+  reason: CancellationReason;
+  cancellationDate?: string; // YYYY-MM-DD (default: today plus the notice period)
+  returnPremiumMethod?: ReturnPremiumMethod; // Default depends on the reason
+  notes?: string;
+}
+
+/**
+ * Premium earned up to the cancellation date and the premium returned
+ */
+export interface ReturnPremium {
+  method: ReturnPremiumMethod;
+  termDays: number;
+  daysInForce: number;
+  termPremium: number; // Premium before taxes and fees
+  earnedPremium: number;
+  returnPremium: number;
+  premiumPaid: number; // Premium collected, less refunds already issued
+  refundDue: number; // Paid beyond the earned premium
+  balanceDue: number; // Earned but not paid
+}
+
+/**
+ * Outcome of a cancellation request
+ */
+export interface CancellationResult {
+  policyId: string;
+  policyNumber: string;
+  status: 'CANCELLED' | 'PENDING_CANCELLATION';
+  reason: CancellationReason;
+  cancellationDate: string;
+  returnPremium: ReturnPremium;
+  refunds: RefundResult[]; // Issued once the cancellation takes effect
+  noticeDocumentId: string;
+}
+
+/**
+ * Outcome of one process-cancellations run
+ */
+export interface CancellationRunResult {
+  asOf: string; // YYYY-MM-DD
+  cancelled: string[]; // Policy numbers
+  awaitingSettlement: string[]; // Left PENDING_CANCELLATION until their ACH debits clear
+  failed: string[]; // Left PENDING_CANCELLATION, retried on the next run
+}
+
+/**
+ * Return premium for cancelling a term on a date
+ *
+ * Cancelling on or before the effective date (flat cancellation) returns the
+ * whole premium under either method.
+ *
+ * @param termPremium - Premium for the full term (USD)
+ * @param effectiveDate - Term start (YYYY-MM-DD)
+ * @param expirationDate - Term end (YYYY-MM-DD)
+ * @param cancellationDate - YYYY-MM-DD
+ */
+export function calculateReturnPremium(
+  termPremium: number,
+  effectiveDate: string,
+  expirationDate: string,
+  cancellationDate: string,
+  method: ReturnPremiumMethod
+): Pick<ReturnPremium, 'method' | 'termDays' | 'daysInForce' | 'termPremium' | 'earnedPremium' | 'returnPremium'> {
+  const termDays = daysBetween(effectiveDate, expirationDate);
+  const daysInForce = Math.min(Math.max(daysBetween(effectiveDate, cancellationDate), 0), termDays);
+  const termCents = Math.round(termPremium * 100);
+
+  const proRataCents = Math.round(termCents * (termDays - daysInForce) / termDays);
+  const returnCents = method === 'SHORT_RATE' && daysInForce > 0
+    ? Math.round(proRataCents * (1 - SHORT_RATE_PENALTY))
+    : proRataCents;
+
+  return {
+    method,
+    termDays,
+    daysInForce,
+    termPremium: termCents / 100,
+    earnedPremium: (termCents - returnCents) / 100,
+    returnPremium: returnCents / 100,
+  };
+}
+
+@Injectable()
+export class PolicyCancellationService {
+  private readonly logger = new Logger(PolicyCancellationService.name);
+
+  constructor(
+    @Inject(DATABASE_CONNECTION) private readonly db: Database,
+    @Inject(QuoteService) private readonly quoteService: QuoteService,
+    @Inject(RefundService) private readonly refundService: RefundService,
+  ) {}
+
+  /**
+   * Cancel a policy now or on a future date
+   *
+   * @param policyId - Policy UUID
+   * @param request - Reason, cancellation date and return premium method
+   * @param asOf - Request date (default now)
+   * @throws NotFoundException if the policy does not exist
+   * @throws InvalidStatusTransitionError if the policy is not in force or bound
+   * @throws BusinessRuleError if the date is inside the notice period or not
+   *   before the expiration date, or the refund is declined
+   */
+  async cancelPolicy(policyId: string, request: CancellationRequest, asOf: Date = new Date()): Promise<CancellationResult> {
+    const policyRecord = await this.getPolicy(policyId);
+    const today = formatDateToYYYYMMDD(asOf);
+
+    // PENDING_CANCELLATION policies can be rescheduled or cancelled now
+    nextStatus(policyRecord.status_code, 'CANCEL');
+
+    const cancellationDate = this.getCancellationDate(policyRecord, request, today);
+    const method = request.returnPremiumMethod || DEFAULT_RETURN_PREMIUM_METHOD[request.reason];
+
+    this.logger.log(`Cancelling policy ${policyRecord.policy_number} on ${cancellationDate}`, {
+      reason: request.reason,
+      method,
+    });
+
+    const scheduled: PolicyRecord = {
+      ...policyRecord,
+      cancellation_date: cancellationDate,
+      cancellation_reason: request.reason,
+      cancellation_return_premium_method: method,
+    };
+    const returnPremium = await this.getReturnPremium(scheduled);
+
+    // Coverage ends at 12:01 AM, so a cancellation dated today takes effect now,
+    // unless an ACH debit has to clear first
+    const immediate = cancellationDate <= today && !(await this.hasDebitsInFlight(policyId));
+    let refunds: RefundResult[] = [];
+
+    if (immediate) {
+      refunds = await this.completeCancellation(scheduled, returnPremium);
+    } else {
+      await this.scheduleCancellation(policyRecord, scheduled);
+    }
+
+    const notice = await this.generateCancellationNotice(scheduled, returnPremium, request.notes);
+
+    return {
+      policyId,
+      policyNumber: policyRecord.policy_number,
+      status: immediate ? 'CANCELLED' : 'PENDING_CANCELLATION',
+      reason: request.reason,
+      cancellationDate,
+      returnPremium,
+      refunds,
+      noticeDocumentId: notice.document_id,
+    };
+  }
+
+  /**
+   * Cancel the policies whose scheduled cancellation date has arrived
+   *
+   * Policies moved to PENDING_CANCELLATION by the collection job without a
+   * cancellation date are left alone until a cancellation is requested.
+   *
+   * @param asOf - Run date (default now)
+   */
+  async processScheduledCancellations(asOf: Date = new Date()): Promise<CancellationRunResult> {
+    const today = formatDateToYYYYMMDD(asOf);
+    const result: CancellationRunResult = { asOf: today, cancelled: [], awaitingSettlement: [], failed: [] };
+
+    const due = await this.db
+      .select()
+      .from(policy)
+      .where(and(
+        eq(policy.status_code, 'PENDING_CANCELLATION'),
+        lte(policy.cancellation_date, today),
+      ));
+
+    for (const policyRecord of due) {
+      try {
+        if (await this.hasDebitsInFlight(policyRecord.policy_identifier)) {
+          result.awaitingSettlement.push(policyRecord.policy_number);
+          continue;
+        }
+
+        const returnPremium = await this.getReturnPremium(policyRecord);
+        await this.completeCancellation(policyRecord, returnPremium);
+        result.cancelled.push(policyRecord.policy_number);
+      } catch (error) {
+        this.logger.error(`Failed to cancel policy ${policyRecord.policy_number}`, error);
+        result.failed.push(policyRecord.policy_number);
+      }
+    }
+
+    this.logger.log('Scheduled cancellations processed', result);
+    return result;
+  }
+
+  /**
+   * Record a future cancellation date and move the policy to PENDING_CANCELLATION
+   *
+   * @param policyRecord - Policy as read, before the cancellation
+   * @param scheduled - The same policy with the cancellation fields set
+   */
+  private async scheduleCancellation(policyRecord: PolicyRecord, scheduled: PolicyRecord): Promise<void> {
+    const reason = scheduled.cancellation_reason as CancellationReason;
+
+    await this.db.transaction(async (tx) => {
+      if (policyRecord.status_code === 'PENDING_CANCELLATION' && policyRecord.cancellation_date === scheduled.cancellation_date) {
+        await tx
+          .update(policy)
+          .set({ ...cancellationFields(scheduled), updated_at: new Date() })
+          .where(eq(policy.policy_identifier, policyRecord.policy_identifier));
+        return;
+      }
+
+      await this.quoteService.transitionStatus(
+        policyRecord,
+        'SCHEDULE_CANCELLATION',
+        `${REASON_LABELS[reason]} effective ${scheduled.cancellation_date}`,
+        cancellationFields(scheduled),
+        tx
+      );
+    });
+  }
+
+  /**
+   * Refund the unearned premium, cancel future installments and mark the policy CANCELLED
+   *
+   * The refund goes first: if it is declined, nothing else is written and the
+   * policy keeps its status. A refund issued before a failed write counts
+   * against the premium paid, so a retry does not refund it again.
+   *
+   * @throws BusinessRuleError if an ACH debit started clearing in the meantime
+   */
+  private async completeCancellation(policyRecord: PolicyRecord, returnPremium: ReturnPremium): Promise<RefundResult[]> {
+    const reason = policyRecord.cancellation_reason as CancellationReason;
+    const refunds = returnPremium.refundDue > 0
+      ? await this.refundService.refundPolicy(
+          policyRecord.policy_identifier,
+          returnPremium.refundDue,
+          `Return premium - policy cancelled ${policyRecord.cancellation_date}`
+        )
+      : [];
+
+    await this.db.transaction(async (tx) => {
+      await tx
+        .update(payment)
+        .set({ payment_status: 'CANCELLED', updated_at: new Date() })
+        .where(and(
+          eq(payment.policy_id, policyRecord.policy_identifier),
+          eq(payment.payment_type, 'CHARGE'),
+          inArray(payment.payment_status, ['PENDING', 'FAILED']),
+        ));
+
+      // The collection job may have claimed an installment since the check
+      if (await this.hasDebitsInFlight(policyRecord.policy_identifier, tx)) {
+        throw new BusinessRuleError(
+          `Policy ${policyRecord.policy_number} has an ACH debit still clearing`,
+          'ACH_DEBIT_IN_FLIGHT'
+        );
+      }
+
+      await this.quoteService.transitionStatus(
+        policyRecord,
+        'CANCEL',
+        `${REASON_LABELS[reason]} effective ${policyRecord.cancellation_date}; ` +
+          `return premium $${returnPremium.returnPremium.toFixed(2)} (${returnPremium.method})`,
+        cancellationFields(policyRecord),
+        tx
+      );
+    });
+
+    this.logger.log(`Policy ${policyRecord.policy_number} cancelled`, {
+      refunded: returnPremium.refundDue,
+      balanceDue: returnPremium.balanceDue,
+    });
+
+    return refunds;
+  }
+
+  /**
+   * Whether the policy has an ACH debit captured but not yet settled or returned
+   *
+   * Other PROCESSING charges (e.g. charged but not recorded, left for review)
+   * will never settle, so they do not hold the cancellation; they are logged
+   * for follow-up instead.
+   */
+  private async hasDebitsInFlight(policyId: string, tx: Pick<Database, 'select'> = this.db): Promise<boolean> {
+    const processing = await tx
+      .select()
+      .from(payment)
+      .where(and(
+        eq(payment.policy_id, policyId),
+        eq(payment.payment_type, 'CHARGE'),
+        eq(payment.payment_status, 'PROCESSING'),
+      ));
+
+    const inFlight = processing.filter(charge => charge.payment_method === 'ach' && charge.transaction_id);
+    const stuck = processing.filter(charge => !inFlight.includes(charge));
+    if (stuck.length) {
+      this.logger.warn(`Policy ${policyId} has charges left PROCESSING for review; not holding its cancellation for them`, {
+        payments: stuck.map(charge => charge.payment_number),
+      });
+    }
+
+    return inFlight.length > 0;
+  }
+
+  private async getPolicy(policyId: string): Promise<PolicyRecord> {
+    const [policyRecord] = await this.db
+      .select()
+      .from(policy)
+      .where(eq(policy.policy_identifier, policyId))
+      .limit(1);
+
+    if (!policyRecord) {
+      throw new NotFoundException(`Policy ${policyId} not found`);
+    }
+
+    return policyRecord;
+  }
+
+  /**
+   * Requested cancellation date, checked against the notice period and the term
+   */
+  private getCancellationDate(policyRecord: PolicyRecord, request: CancellationRequest, today: string): string {
+    const noticeDays = CANCELLATION_NOTICE_DAYS[request.reason];
+    const earliest = addDays(today, noticeDays);
+    const cancellationDate = request.cancellationDate || earliest;
+
+    if (!isCalendarDate(cancellationDate)) {
+      throw new BadRequestException('cancellationDate must be a date in YYYY-MM-DD format');
+    }
+
+    if (cancellationDate < earliest) {
+      throw new BusinessRuleError(
+        noticeDays === 0
+          ? 'Cancellation date cannot be in the past'
+          : `Cancellation for ${request.reason} requires ${noticeDays} days notice (earliest ${earliest})`,
+        'CANCELLATION_NOTICE_PERIOD'
+      );
+    }
+
+    if (cancellationDate >= policyRecord.expiration_date) {
+      throw new BusinessRuleError(
+        `Cancellation date must be before the policy expiration date ${policyRecord.expiration_date}`,
+        'CANCELLATION_AFTER_EXPIRATION'
+      );
+    }
+
+    return cancellationDate;
+  }
+
+  /**
+   * Return premium on the policy's cancellation date against the premium paid so far
+   */
+  private async getReturnPremium(policyRecord: PolicyRecord): Promise<ReturnPremium> {
+    const snapshot = policyRecord.quote_snapshot as any;
+    const termPremium = Number(snapshot?.premium?.subtotal ?? snapshot?.premium?.total ?? 0);
+
+    const computed = calculateReturnPremium(
+      termPremium,
+      policyRecord.effective_date,
+      policyRecord.expiration_date,
+      policyRecord.cancellation_date!,
+      policyRecord.cancellation_return_premium_method as ReturnPremiumMethod
+    );
+
+    const paidCents = await this.getPremiumPaidCents(policyRecord.policy_identifier);
+    const earnedCents = Math.round(computed.earnedPremium * 100);
+
+    return {
+      ...computed,
+      premiumPaid: paidCents / 100,
+      refundDue: Math.max(paidCents - earnedCents, 0) / 100,
+      balanceDue: Math.max(earnedCents - paidCents, 0) / 100,
+    };
+  }
+
+  /**
+   * Premium portion of the collected charges, less the refunds already issued
+   */
+  private async getPremiumPaidCents(policyId: string): Promise<number> {
+    const payments = await this.db
+      .select()
+      .from(payment)
+      .where(eq(payment.policy_id, policyId));
+
+    return payments.reduce((cents, row) => {
+      if (row.payment_type === 'REFUND' && row.payment_status === 'COMPLETED') {
+        return cents - Math.round(parseFloat(row.amount) * 100);
+      }
+      if (row.payment_type === 'CHARGE' && PAID_CHARGE_STATUSES.includes(row.payment_status)) {
+        return cents + Math.round(parseFloat(row.premium_amount ?? row.amount) * 100);
+      }
+      return cents;
+    }, 0);
+  }
+
+  /**
+   * Cancellation notice (mock - no actual PDF), replacing any earlier notice
+   */
+  private async generateCancellationNotice(
+    policyRecord: PolicyRecord,
+    returnPremium: ReturnPremium,
+    notes?: string
+  ): Promise<typeof document.$inferSelect> {
+    const [previous] = await this.db
+      .update(document)
+      .set({ is_current: false, superseded_at: new Date(), updated_at: new Date() })
+      .where(and(
+        eq(document.policy_id, policyRecord.policy_identifier),
+        eq(document.document_type, 'CANCELLATION_NOTICE'),
+        eq(document.is_current, true),
+      ))
+      .returning();
+
+    const version = (previous?.version ?? 0) + 1;
+    const reason = policyRecord.cancellation_reason as CancellationReason;
+
+    const [notice] = await this.db
+      .insert(document)
+      .values({
+        policy_id: policyRecord.policy_identifier,
+        document_number: `DOC-${this.generateId()}`,
+        document_type: 'CANCELLATION_NOTICE',
+        document_name: `Cancellation_Notice_${policyRecord.policy_number}.pdf`,
+        version,
+        is_current: true,
+        document_status: 'READY',
+        storage_url: `/documents/policies/${policyRecord.policy_number}/cancellation_notice_v${version}.pdf`,
+        mime_type: 'application/pdf',
+        description: `${REASON_LABELS[reason]} effective ${policyRecord.cancellation_date}. ` +
+          `Return premium $${returnPremium.returnPremium.toFixed(2)} (${returnPremium.method.replace('_', '-').toLowerCase()})` +
+          (notes ? `. ${notes}` : ''),
+        file_size_bytes: 51200, // Mock size
+        generated_at: new Date(),
+      })
+      .returning();
+
+    this.logger.log(`Generated cancellation notice ${notice.document_number} for policy ${policyRecord.policy_number}`);
+    return notice;
+  }
+
+  /**
+   * Generate 8-character random alphanumeric ID (document numbers)
+   */
+  private generateId(): string {
+    const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+    let id = '';
+    for (let i = 0; i < 8; i++) {
+      id += chars.charAt(Math.floor(Math.random() * chars.length));
+    }
+    return id;
+  }
+}
@@ -0,0 +1,645 @@
+/**
+ * Policy Reinstatement Service
+ *
+ * Puts a policy that left active status for non-payment back in force once
+ * the past-due amount is paid:
+ *
+ * - Eligible: PAYMENT_HOLD (ACH debit returned), PENDING_CANCELLATION for
+ *   non-payment, and CANCELLED for non-payment, within the reinstatement
+ *   window after the policy left active status (the cancellation date for a
+ *   cancelled policy). See getReinstatementWindow.
+ * - Past due: installments due by the reinstatement date that were declined,
+ *   returned or cancelled with the policy. They are collected in one charge
+ *   through the payment gateway, to the payment method on file or a new token.
+ * - Lapse: a cancelled policy reinstated without a lapse is covered as if it
+ *   had never been cancelled, which is only allowed shortly after the
+ *   cancellation date. Otherwise coverage lapses from the cancellation date
+ *   until the reinstatement date, the premium for those days is credited, and
+ *   the lapse is recorded in the policy event history for underwriting and
+ *   excluded from coverage lookups.
+ *
+ * Future installments cancelled with the policy are scheduled again, and the
+ * status change goes through QuoteService.transitionStatus.
+ *
+ * The reinstatement is claimed (a PROCESSING policy_reinstatement row, one
+ * per policy) before charging, so concurrent requests never collect the
+ * past-due amount twice. A charge whose reinstatement then fails is refunded.
+ */
+
+import { Injectable, Inject, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { and, desc, eq, gt, inArray } from 'drizzle-orm';
+import { policy } from '../../../../database/schema/policy.schema';
+import { payment } from '../../../../database/schema/payment.schema';
+import { event } from '../../../../database/schema/event.schema';
+import { policyEvent } from '../../../../database/schema/policy-event.schema';
+import { policyReinstatement } from '../../../../database/schema/policy-reinstatement.schema';
+import type { Database } from '../../database/drizzle.config';
+import { DATABASE_CONNECTION } from '../../database/database.module';
+import { BusinessRuleError } from '../../api/middleware/error-handler';
+import { QuoteService } from '../quote/quote.service';
+import {
+  PAYMENT_GATEWAY,
+  GatewayResult,
+  PaymentGateway,
+  authorizeAndCapture,
+} from '../payment-gateway/payment-gateway';
+import { addDays, daysBetween } from './policy-term';
+import { nextStatus } from './policy-status';
+import { dateInTimeZone, policyTimeZone } from './policy-timezone';
+
+/**
+ * Default days after leaving active status within which a policy can be reinstated
+ */
+export const DEFAULT_REINSTATEMENT_WINDOW_DAYS = 30;
+
+/**
+ * Default days after the cancellation date within which a policy can be reinstated without a lapse
+ */
+export const DEFAULT_REINSTATEMENT_NO_LAPSE_DAYS = 10;
+
+// Unpaid charges collected on reinstatement (declined, returned by the bank, or cancelled with the policy)
+const PAST_DUE_STATUSES = ['FAILED', 'RETURNED', 'CANCELLED'];
+
+type PolicyRecord = typeof policy.$inferSelect;
+type PaymentRecord = typeof payment.$inferSelect;
+type ReinstatementRecord = typeof policyReinstatement.$inferSelect;
+
+// Captured past-due charge and the payment method it was charged to
+interface PastDueCharge {
+  charge: GatewayResult;
+  amount: number;
+  paymentToken: string;
+  paymentMethod: string;
+  onFile: PaymentRecord | undefined;
+}
+
+/**
+ * Reinstatement window in days
+ */
+export interface ReinstatementWindow {
+  windowDays: number; // After leaving active status
+  noLapseDays: number; // After the cancellation date, for reinstatement without a lapse
+}
+
+/**
+ * Reinstatement request
+ *
+ * Without a payment token, the past-due amount is charged to the payment
+ * method on file (the latest charge's token).
+ */
+export interface ReinstatementRequest {
+  paymentMethod?: 'credit_card' | 'ach';
+  paymentToken?: string;
+  accountType?: 'checking' | 'savings';
+  withLapse?: boolean; // Cancelled policies only (default: without a lapse while allowed)
+}
+
+/**
+ * Outcome of a reinstatement
+ */
+export interface ReinstatementResult {
+  reinstatementId: string;
+  policyId: string;
+  policyNumber: string;
+  status: 'IN_FORCE';
+  previousStatus: string;
+  reinstatementDate: string; // YYYY-MM-DD, policy time zone
+  lapse: { start: string; end: string; days: number } | null; // end is exclusive
+  pastDueAmount: number;
+  lapseCredit: number;
+  amountCollected: number;
+  payment: {
+    paymentId: string;
+    paymentNumber: string;
+    status: 'COMPLETED' | 'PROCESSING'; // ACH debits settle later
+    transactionId?: string;
+  } | null; // Nothing was due
+}
+
+/**
+ * Reinstatement window, from REINSTATEMENT_WINDOW_DAYS and REINSTATEMENT_NO_LAPSE_DAYS
+ *
+ * @throws Error if either is not a whole number of days
+ */
+export function getReinstatementWindow(): ReinstatementWindow {
+  const windowDays = parseDays('REINSTATEMENT_WINDOW_DAYS', DEFAULT_REINSTATEMENT_WINDOW_DAYS);
+  const noLapseDays = parseDays('REINSTATEMENT_NO_LAPSE_DAYS', DEFAULT_REINSTATEMENT_NO_LAPSE_DAYS);
+
+  // Reinstatement without a lapse is still reinstatement
+  return { windowDays, noLapseDays: Math.min(noLapseDays, windowDays) };
+}
+
+function parseDays(name: string, defaultDays: number): number {
+  const value = process.env[name];
+  if (value === undefined || value === '') {
+    return defaultDays;
+  }
+
+  const days = Number(value);
+  if (!Number.isInteger(days) || days < 0) {
+    throw new Error(`${name} must be a whole number of days (got "${value}")`);
+  }
+  return days;
+}
+
+@Injectable()
+export class PolicyReinstatementService {
+  private readonly logger = new Logger(PolicyReinstatementService.name);
+
+  constructor(
+    @Inject(DATABASE_CONNECTION) private readonly db: Database,
+    @Inject(PAYMENT_GATEWAY) private readonly paymentGateway: PaymentGateway,
+    @Inject(QuoteService) private readonly quoteService: QuoteService,
+  ) {}
+
+  /**
+   * Collect the past-due amount and put the policy back in force
+   *
+   * @param policyId - Policy UUID
+   * @param request - Payment method and whether coverage lapses
+   * @param asOf - Request time (default now)
+   * @throws NotFoundException if the policy does not exist
+   * @throws BadRequestException if a payment token is given without its method
+   * @throws InvalidStatusTransitionError if the policy is in force or expired
+   * @throws BusinessRuleError if the policy did not leave active status for
+   *   non-payment, the window has closed, a reinstatement without a lapse is no
+   *   longer allowed, another reinstatement is in progress, or the payment is declined
+   */
+  async reinstatePolicy(
+    policyId: string,
+    request: ReinstatementRequest = {},
+    asOf: Date = new Date()
+  ): Promise<ReinstatementResult> {
+    const policyRecord = await this.getPolicy(policyId);
+    nextStatus(policyRecord.status_code, 'REINSTATE');
+
+    if (request.paymentToken && !request.paymentMethod) {
+      throw new BadRequestException('paymentMethod is required with a paymentToken');
+    }
+
+    const cancelled = policyRecord.status_code === 'CANCELLED';
+    const nonPayment = policyRecord.status_code === 'PAYMENT_HOLD' || policyRecord.cancellation_reason === 'NON_PAYMENT'
+      // The collection job starts pending cancellation for non-payment without scheduling a date
+      || (policyRecord.status_code === 'PENDING_CANCELLATION' && !policyRecord.cancellation_reason);
+
+    if (!nonPayment) {
+      throw new BusinessRuleError(
+        `Policy ${policyRecord.policy_number} was not ${cancelled ? 'cancelled' : 'suspended'} for non-payment ` +
+          `(${policyRecord.cancellation_reason}) and cannot be reinstated`,
+        'REINSTATEMENT_NOT_ELIGIBLE'
+      );
+    }
+
+    const timeZone = policyTimeZone(policyRecord.quote_snapshot);
+    const today = dateInTimeZone(asOf, timeZone);
+    const { windowDays, noLapseDays } = getReinstatementWindow();
+
+    const leftActiveDate = cancelled
+      ? policyRecord.cancellation_date!
+      : await this.getLeftActiveDate(policyRecord, timeZone);
+    const daysSince = Math.max(daysBetween(leftActiveDate, today), 0);
+
+    if (daysSince > windowDays) {
+      throw new BusinessRuleError(
+        `Policy ${policyRecord.policy_number} left active status on ${leftActiveDate}; ` +
+          `the ${windowDays}-day reinstatement window closed on ${addDays(leftActiveDate, windowDays)}`,
+        'REINSTATEMENT_WINDOW_CLOSED'
+      );
+    }
+
+    if (today >= policyRecord.expiration_date) {
+      throw new BusinessRuleError(
+        `Policy ${policyRecord.policy_number} term ended on ${policyRecord.expiration_date} and cannot be reinstated`,
+        'REINSTATEMENT_AFTER_EXPIRATION'
+      );
+    }
+
+    // Only a cancellation ends coverage; held and pending policies never lapsed
+    const lapseAllowed = cancelled && daysSince > 0;
+    const withLapse = lapseAllowed && (request.withLapse ?? daysSince > noLapseDays);
+
+    if (lapseAllowed && !withLapse && daysSince > noLapseDays) {
+      throw new BusinessRuleError(
+        `Policy ${policyRecord.policy_number} can only be reinstated without a lapse in coverage ` +
+          `within ${noLapseDays} days of its cancellation on ${leftActiveDate}`,
+        'REINSTATEMENT_LAPSE_REQUIRED'
+      );
+    }
+
+    const lapse = withLapse ? { start: leftActiveDate, end: today, days: daysSince } : null;
+
+    const payments = await this.db
+      .select()
+      .from(payment)
+      .where(and(eq(payment.policy_id, policyRecord.policy_identifier), eq(payment.payment_type, 'CHARGE')));
+
+    const pastDue = payments.filter(row =>
+      PAST_DUE_STATUSES.includes(row.payment_status) && row.due_date !== null && row.due_date <= today
+    );
+    const amounts = this.getAmountDue(policyRecord, pastDue, lapse?.days ?? 0);
+
+    this.logger.log(`Reinstating policy ${policyRecord.policy_number}`, {
+      previousStatus: policyRecord.status_code,
+      leftActiveDate,
+      lapseDays: lapse?.days ?? 0,
+      amountDue: amounts.amountCents / 100,
+    });
+
+    const reinstatement = await this.claimReinstatement(policyRecord, {
+      policy_id: policyRecord.policy_identifier,
+      previous_status: policyRecord.status_code,
+      left_active_date: leftActiveDate,
+      reinstatement_date: today,
+      lapse_start: lapse?.start,
+      lapse_end: lapse?.end,
+      lapse_days: lapse?.days ?? 0,
+      past_due_amount: (amounts.pastDueCents / 100).toFixed(2),
+      lapse_credit: (amounts.lapseCreditCents / 100).toFixed(2),
+      amount_collected: (amounts.amountCents / 100).toFixed(2),
+    });
+
+    let charged: PastDueCharge | null;
+    try {
+      charged = amounts.amountCents > 0
+        ? await this.chargePastDue(policyRecord, payments, request, amounts)
+        : null;
+    } catch (error) {
+      await this.releaseReinstatement(reinstatement);
+      throw error;
+    }
+
+    let collected: { record: PaymentRecord; charge: GatewayResult } | null = null;
+    try {
+      collected = charged ? await this.recordPastDuePayment(policyRecord, request, charged, amounts) : null;
+
+      // Replaced by the reinstatement charge; FAILED installments would otherwise
+      // send the policy straight back to pending cancellation
+      const failed = pastDue.filter(row => row.payment_status === 'FAILED');
+      if (failed.length) {
+        await this.db
+          .update(payment)
+          .set({ payment_status: 'CANCELLED', next_attempt_date: null, updated_at: new Date() })
+          .where(inArray(payment.payment_id, failed.map(row => row.payment_id)));
+      }
+
+      await this.rescheduleInstallments(policyRecord, request, charged?.charge, today);
+
+      const amountCollected = (amounts.amountCents / 100).toFixed(2);
+      await this.quoteService.transitionStatus(
+        policyRecord,
+        'REINSTATE',
+        lapse
+          ? `Reinstated after non-payment with a ${lapse.days}-day lapse in coverage ` +
+              `(${lapse.start} to ${lapse.end}); collected $${amountCollected}`
+          : `Reinstated after non-payment without a lapse in coverage; collected $${amountCollected}`,
+        {
+          cancellation_date: null,
+          cancellation_reason: null,
+          cancellation_return_premium_method: null,
+        }
+      );
+    } catch (error) {
+      // The policy was not reinstated: give the money back
+      if (!charged || await this.refundPastDue(policyRecord, charged, collected?.record)) {
+        await this.releaseReinstatement(reinstatement);
+      }
+      throw error;
+    }
+
+    await this.db
+      .update(policyReinstatement)
+      .set({ status: 'COMPLETED', payment_id: collected?.record.payment_id, updated_at: new Date() })
+      .where(eq(policyReinstatement.reinstatement_id, reinstatement.reinstatement_id));
+
+    if (lapse) {
+      await this.logLapse(policyRecord, reinstatement.reinstatement_id, lapse);
+    }
+
+    this.logger.log(`Policy ${policyRecord.policy_number} reinstated`, {
+      reinstatementId: reinstatement.reinstatement_id,
+      transactionId: collected?.charge.transactionId,
+    });
+
+    return {
+      reinstatementId: reinstatement.reinstatement_id,
+      policyId: policyRecord.policy_identifier,
+      policyNumber: policyRecord.policy_number,
+      status: 'IN_FORCE',
+      previousStatus: policyRecord.status_code,
+      reinstatementDate: today,
+      lapse,
+      pastDueAmount: amounts.pastDueCents / 100,
+      lapseCredit: amounts.lapseCreditCents / 100,
+      amountCollected: amounts.amountCents / 100,
+      payment: collected
+        ? {
+            paymentId: collected.record.payment_id,
+            paymentNumber: collected.record.payment_number,
+            status: collected.charge.pending ? 'PROCESSING' : 'COMPLETED',
+            transactionId: collected.charge.transactionId,
+          }
+        : null,
+    };
+  }
+
+  private async getPolicy(policyId: string): Promise<PolicyRecord> {
+    const [policyRecord] = await this.db
+      .select()
+      .from(policy)
+      .where(eq(policy.policy_identifier, policyId))
+      .limit(1);
+
+    if (!policyRecord) {
+      throw new NotFoundException(`Policy ${policyId} not found`);
+    }
+
+    return policyRecord;
+  }
+
+  /**
+   * Date the policy moved to its current status (held or pending cancellation)
+   */
+  private async getLeftActiveDate(policyRecord: PolicyRecord, timeZone: string): Promise<string> {
+    const [latest] = await this.db
+      .select({ event_date: event.event_date })
+      .from(policyEvent)
+      .innerJoin(event, eq(policyEvent.event_id, event.event_id))
+      .where(and(
+        eq(policyEvent.policy_id, policyRecord.policy_identifier),
+        eq(policyEvent.new_status, policyRecord.status_code),
+      ))
+      .orderBy(desc(event.event_date))
+      .limit(1);
+
+    return dateInTimeZone(latest?.event_date ?? policyRecord.updated_at, timeZone);
+  }
+
+  /**
+   * Past-due installments less the premium for the lapse (premium only; taxes and fees stay due)
+   */
+  private getAmountDue(policyRecord: PolicyRecord, pastDue: PaymentRecord[], lapseDays: number) {
+    const cents = (value: string | null) => Math.round(parseFloat(value ?? '0') * 100);
+
+    const pastDueCents = pastDue.reduce((sum, row) => sum + cents(row.amount), 0);
+    const taxCents = pastDue.reduce((sum, row) => sum + cents(row.tax_amount), 0);
+    const feeCents = pastDue.reduce((sum, row) => sum + cents(row.fee_amount), 0);
+    const premiumCents = pastDueCents - taxCents - feeCents;
+
+    const snapshot = policyRecord.quote_snapshot as any;
+    const termPremiumCents = Math.round(Number(snapshot?.premium?.subtotal ?? snapshot?.premium?.total ?? 0) * 100);
+    const termDays = daysBetween(policyRecord.effective_date, policyRecord.expiration_date);
+    const lapseCreditCents = lapseDays > 0
+      ? Math.min(Math.round(termPremiumCents * lapseDays / termDays), premiumCents)
+      : 0;
+
+    return {
+      pastDueCents,
+      lapseCreditCents,
+      amountCents: pastDueCents - lapseCreditCents,
+      premiumCents: premiumCents - lapseCreditCents,
+      taxCents,
+      feeCents,
+    };
+  }
+
+  /**
+   * Claim the reinstatement of the policy before anything is charged
+   *
+   * @throws BusinessRuleError if another reinstatement of the policy is in
+   *   progress, or the policy changed status since it was read
+   */
+  private async claimReinstatement(
+    policyRecord: PolicyRecord,
+    values: typeof policyReinstatement.$inferInsert
+  ): Promise<ReinstatementRecord> {
+    const [claimed] = await this.db
+      .insert(policyReinstatement)
+      .values({ ...values, status: 'PROCESSING' })
+      .onConflictDoNothing()
+      .returning();
+
+    // A reinstatement that completed between reading the policy and claiming it
+    const [current] = claimed
+      ? await this.db
+          .select({ status_code: policy.status_code })
+          .from(policy)
+          .where(eq(policy.policy_identifier, policyRecord.policy_identifier))
+          .limit(1)
+      : [];
+
+    if (!claimed || current?.status_code !== policyRecord.status_code) {
+      if (claimed) {
+        await this.releaseReinstatement(claimed);
+      }
+      throw new BusinessRuleError(
+        `Policy ${policyRecord.policy_number} is already being reinstated`,
+        'REINSTATEMENT_IN_PROGRESS'
+      );
+    }
+
+    return claimed;
+  }
+
+  /**
+   * Drop a claimed reinstatement that did not go through
+   */
+  private async releaseReinstatement(reinstatement: ReinstatementRecord): Promise<void> {
+    await this.db
+      .delete(policyReinstatement)
+      .where(eq(policyReinstatement.reinstatement_id, reinstatement.reinstatement_id));
+  }
+
+  /**
+   * Charge the past-due amount
+   *
+   * @throws BusinessRuleError if there is no payment method or the charge is declined
+   */
+  private async chargePastDue(
+    policyRecord: PolicyRecord,
+    payments: PaymentRecord[],
+    request: ReinstatementRequest,
+    amounts: ReturnType<PolicyReinstatementService['getAmountDue']>
+  ): Promise<PastDueCharge> {
+    const onFile = payments
+      .filter(row => row.payment_token)
+      .sort((a, b) => b.payment_date.getTime() - a.payment_date.getTime())[0];
+    const paymentToken = request.paymentToken || onFile?.payment_token;
+    const paymentMethod = request.paymentToken ? request.paymentMethod! : onFile?.payment_method;
+
+    if (!paymentToken || !paymentMethod) {
+      throw new BusinessRuleError(
+        `No payment method on file for policy ${policyRecord.policy_number}; provide a paymentToken`,
+        'PAYMENT_METHOD_REQUIRED'
+      );
+    }
+
+    const amount = amounts.amountCents / 100;
+    const charge = await authorizeAndCapture(this.paymentGateway, paymentToken, amount);
+
+    if (!charge.success) {
+      this.logger.warn(`Reinstatement payment for policy ${policyRecord.policy_number} declined`, { reason: charge.message });
+      throw new BusinessRuleError(`Reinstatement payment declined: ${charge.message}`, 'REINSTATEMENT_PAYMENT_DECLINED');
+    }
+
+    return { charge, amount, paymentToken, paymentMethod, onFile };
+  }
+
+  /**
+   * Record the past-due charge as a payment
+   */
+  private async recordPastDuePayment(
+    policyRecord: PolicyRecord,
+    request: ReinstatementRequest,
+    { charge, amount, paymentToken, paymentMethod, onFile }: PastDueCharge,
+    amounts: ReturnType<PolicyReinstatementService['getAmountDue']>
+  ): Promise<{ record: PaymentRecord; charge: GatewayResult }> {
+    const [record] = await this.db
+      .insert(payment)
+      .values({
+        policy_id: policyRecord.policy_identifier,
+        payment_number: `PAY-${this.generateId()}`,
+        payment_method: paymentMethod,
+        // ACH debits stay PROCESSING until the settlement job sees them settle
+        payment_status: charge.pending ? 'PROCESSING' : 'COMPLETED',
+        amount: amount.toFixed(2),
+        premium_amount: (amounts.premiumCents / 100).toFixed(2),
+        tax_amount: (amounts.taxCents / 100).toFixed(2),
+        fee_amount: (amounts.feeCents / 100).toFixed(2),
+        payment_token: paymentToken,
+        last_four_digits: request.paymentToken ? charge.lastFourDigits : onFile?.last_four_digits,
+        card_brand: request.paymentToken ? charge.cardBrand : onFile?.card_brand,
+        account_type: paymentMethod === 'ach'
+          ? (request.paymentToken ? request.accountType : onFile?.account_type) || 'checking'
+          : undefined,
+        transaction_id: charge.transactionId,
+        gateway_response: charge.message,
+        processed_at: charge.pending ? undefined : new Date(),
+      })
+      .returning();
+
+    return { record, charge };
+  }
+
+  /**
+   * Refund a past-due charge whose reinstatement did not go through
+   *
+   * @returns Whether the refund went through; if not, the reinstatement stays
+   *   claimed so the policy is not charged again before someone reviews it
+   */
+  private async refundPastDue(
+    policyRecord: PolicyRecord,
+    { charge, amount }: PastDueCharge,
+    record: PaymentRecord | undefined
+  ): Promise<boolean> {
+    const refund = await this.paymentGateway.refund(charge.transactionId!, amount).catch(
+      (error: Error): GatewayResult => ({ success: false, message: error.message })
+    );
+
+    if (!refund.success) {
+      this.logger.error(
+        `Reinstatement of policy ${policyRecord.policy_number} failed after charging $${amount.toFixed(2)}, ` +
+          'and the refund failed; left claimed for review',
+        { transactionId: charge.transactionId, reason: refund.message }
+      );
+      return false;
+    }
+
+    if (record) {
+      await this.db
+        .update(payment)
+        .set({ payment_status: 'REFUNDED', gateway_response: refund.message, updated_at: new Date() })
+        .where(eq(payment.payment_id, record.payment_id));
+    }
+
+    this.logger.warn(`Refunded the reinstatement payment for policy ${policyRecord.policy_number}`, {
+      transactionId: charge.transactionId,
+    });
+    return true;
+  }
+
+  /**
+   * Schedule the future installments cancelled with the policy again
+   *
+   * With a new payment method, all future installments are charged to it.
+   */
+  private async rescheduleInstallments(
+    policyRecord: PolicyRecord,
+    request: ReinstatementRequest,
+    charge: GatewayResult | undefined,
+    today: string
+  ): Promise<void> {
+    const newMethod = request.paymentToken
+      ? {
+          payment_method: request.paymentMethod,
+          payment_token: request.paymentToken,
+          last_four_digits: charge?.lastFourDigits,
+          card_brand: charge?.cardBrand,
+          account_type: request.paymentMethod === 'ach' ? request.accountType || 'checking' : null,
+        }
+      : {};
+
+    await this.db
+      .update(payment)
+      .set({
+        ...newMethod,
+        payment_status: 'PENDING',
+        attempt_count: 0,
+        next_attempt_date: null,
+        updated_at: new Date(),
+      })
+      .where(and(
+        eq(payment.policy_id, policyRecord.policy_identifier),
+        eq(payment.payment_type, 'CHARGE'),
+        inArray(payment.payment_status, ['PENDING', 'CANCELLED']),
+        gt(payment.due_date, today),
+      ));
+  }
+
+  /**
+   * Record the coverage lapse in the policy event history (for underwriting)
+   */
+  private async logLapse(
+    policyRecord: PolicyRecord,
+    reinstatementId: string,
+    lapse: { start: string; end: string; days: number }
+  ): Promise<void> {
+    const description = `Coverage lapsed ${lapse.start} to ${lapse.end} (${lapse.days} days) after cancellation for non-payment`;
+
+    const [eventRecord] = await this.db
+      .insert(event)
+      .values({
+        event_type: 'COVERAGE_LAPSE',
+        event_subtype: 'NON_PAYMENT',
+        event_date: new Date(),
+        event_description: description,
+        actor_type: 'SYSTEM',
+        event_data: {
+          reinstatementId,
+          lapseStart: lapse.start,
+          lapseEnd: lapse.end,
+          lapseDays: lapse.days,
+        },
+      })
+      .returning();
+
+    await this.db
+      .insert(policyEvent)
+      .values({
+        event_id: eventRecord.event_id,
+        policy_id: policyRecord.policy_identifier,
+        change_reason: description,
+      });
+  }
+
+  /**
+   * Generate 8-character random alphanumeric ID (payment numbers)
+   */
+  private generateId(): string {
+    const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+    let id = '';
+    for (let i = 0; i < 8; i++) {
+      id += chars.charAt(Math.floor(Math.random() * chars.length));
+    }
+    return id;
+  }
+}
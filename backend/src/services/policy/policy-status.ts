@@ -0,0 +1,124 @@
+/**
+ * Policy Status State Machine
+ *
+ * The one definition of the statuses a quote/policy moves through and the
+ * actions allowed in each. Status changes go through
+ * QuoteService.transitionStatus, which rejects actions the current status
+ * does not allow (or a policy whose status changed since it was read) and
+ * logs the transition as a policy event.
+ */
+
+import { InvalidStatusTransitionError } from '../../api/middleware/error-handler';
+
+export const POLICY_STATUSES = [
+  'INCOMPLETE',           // Quote still being filled in (coverage not chosen)
+  'QUOTED',               // Priced; can be changed or bound until it expires
+  'BINDING',              // First payment in progress
+  'BOUND',                // Paid; coverage starts on the effective date
+  'IN_FORCE',             // Coverage in force
+  'ACTIVE',               // Legacy name for IN_FORCE
+  'PAYMENT_HOLD',         // ACH debit returned
+  'PENDING_CANCELLATION', // Cancellation scheduled, or unpaid past the grace period
+  'CANCELLED',
+  'EXPIRED',              // Quote not bound in time, or policy ended without renewal
+] as const;
+export type PolicyStatus = typeof POLICY_STATUSES[number];
+
+export const POLICY_ACTIONS = [
+  'UPDATE_QUOTE',          // Change drivers, vehicles or preferences
+  'FINALIZE_QUOTE',        // Choose coverage and price the quote
+  'BIND',                  // Start binding with the first payment
+  'COMPLETE_BINDING',      // First payment succeeded
+  'FAIL_BINDING',          // First payment declined
+  'EXPIRE_QUOTE',          // Not bound within the quote's validity
+  'ACTIVATE',              // Effective date reached
+  'ENDORSE',               // Mid-term change
+  'RENEW',                 // Move to the next term
+  'HOLD_PAYMENT',          // ACH debit returned
+  'SCHEDULE_CANCELLATION', // Cancel on a future date (or unpaid past the grace period)
+  'CANCEL',                // Cancel now
+  'LAPSE',                 // Term ended without renewal
+  'REINSTATE',             // Past-due premium paid after leaving IN_FORCE for non-payment
+] as const;
+export type PolicyAction = typeof POLICY_ACTIONS[number];
+
+// Status each action leads to, per current status (absent = not allowed)
+const IN_FORCE_TRANSITIONS = (status: PolicyStatus): Partial<Record<PolicyAction, PolicyStatus>> => ({
+  ENDORSE: status,
+  RENEW: status,
+  HOLD_PAYMENT: 'PAYMENT_HOLD',
+  SCHEDULE_CANCELLATION: 'PENDING_CANCELLATION',
+  CANCEL: 'CANCELLED',
+  LAPSE: 'EXPIRED',
+});
+
+const TRANSITIONS: Record<PolicyStatus, Partial<Record<PolicyAction, PolicyStatus>>> = {
+  INCOMPLETE: { UPDATE_QUOTE: 'INCOMPLETE', FINALIZE_QUOTE: 'QUOTED' },
+  QUOTED: { UPDATE_QUOTE: 'QUOTED', FINALIZE_QUOTE: 'QUOTED', BIND: 'BINDING', EXPIRE_QUOTE: 'EXPIRED' },
+  BINDING: { COMPLETE_BINDING: 'BOUND', FAIL_BINDING: 'QUOTED' },
+  BOUND: {
+    ACTIVATE: 'IN_FORCE',
+    HOLD_PAYMENT: 'PAYMENT_HOLD',
+    SCHEDULE_CANCELLATION: 'PENDING_CANCELLATION',
+    CANCEL: 'CANCELLED',
+  },
+  IN_FORCE: IN_FORCE_TRANSITIONS('IN_FORCE'),
+  ACTIVE: IN_FORCE_TRANSITIONS('ACTIVE'),
+  PAYMENT_HOLD: {
+    SCHEDULE_CANCELLATION: 'PENDING_CANCELLATION',
+    CANCEL: 'CANCELLED',
+    LAPSE: 'EXPIRED',
+    REINSTATE: 'IN_FORCE',
+  },
+  PENDING_CANCELLATION: {
+    SCHEDULE_CANCELLATION: 'PENDING_CANCELLATION',
+    CANCEL: 'CANCELLED',
+    LAPSE: 'EXPIRED',
+    REINSTATE: 'IN_FORCE',
+  },
+  CANCELLED: { REINSTATE: 'IN_FORCE' }, // Non-payment cancellations only, within the reinstatement window
+  EXPIRED: {},
+};
+
+/**
+ * Actions allowed in a status, in POLICY_ACTIONS order (none for an unknown status)
+ */
+export function allowedActions(status: string): PolicyAction[] {
+  const transitions = TRANSITIONS[status as PolicyStatus] || {};
+  return POLICY_ACTIONS.filter(action => action in transitions);
+}
+
+/**
+ * Whether a status allows an action
+ */
+export function canPerform(status: string, action: PolicyAction): boolean {
+  return allowedActions(status).includes(action);
+}
+
+/**
+ * Statuses that allow an action (e.g. to select the policies a job acts on)
+ */
+export function statusesAllowing(action: PolicyAction): PolicyStatus[] {
+  return POLICY_STATUSES.filter(status => canPerform(status, action));
+}
+
+/**
+ * Status an action leads to from the current status
+ *
+ * @throws InvalidStatusTransitionError if the current status does not allow the action
+ */
+export function nextStatus(status: string, action: PolicyAction): PolicyStatus {
+  const target = TRANSITIONS[status as PolicyStatus]?.[action];
+  if (!target) {
+    throw new InvalidStatusTransitionError(status, actionTarget(action));
+  }
+  return target;
+}
+
+// Status an action changes to (for error messages); the action itself if it keeps the status
+function actionTarget(action: PolicyAction): string {
+  const target = Object.entries(TRANSITIONS)
+    .map(([from, transitions]) => transitions[action] !== from && transitions[action])
+    .find(Boolean);
+  return target || action;
+}
@@ -0,0 +1,38 @@
+/**
+ * Policy term date arithmetic
+ *
+ * Policy dates are calendar dates (YYYY-MM-DD) and coverage changes at
+ * 12:01 AM, so day counts are whole days between dates, independent of time
+ * zone.
+ */
+
+/**
+ * Whole days from one date to another (negative if `to` is earlier)
+ */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+}
+
+/**
+ * Date a number of days after another
+ */
+export function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+/**
+ * Whether a value is a real calendar date in YYYY-MM-DD format
+ */
+export function isCalendarDate(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value)) && addDays(value, 0) === value;
+}
+
+/**
+ * Date a number of months after another, clamped to the end of shorter months
+ */
+export function addMonths(date: string, months: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  const lastDay = new Date(Date.UTC(year, month - 1 + months + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month - 1 + months, Math.min(day, lastDay))).toISOString().slice(0, 10);
+}
@@ -0,0 +1,206 @@
+/**
+ * Policy Version Service
+ *
+ * Immutable, effective-dated policy versions. Binding writes version 1 and
+ * each applied endorsement or renewal writes the next one; versions are never updated,
+ * so the drivers, vehicles and coverage in force on any date of the term can
+ * be read back after later changes (claims, audits, disputes).
+ *
+ * A version is in force from its effective date until the next version's
+ * effective date, and only while the policy itself is: from the first term's
+ * effective date until expiration of the current term, or until the
+ * cancellation date of a cancelled policy, and not during a coverage lapse
+ * before a reinstatement.
+ */
+
+import { Injectable, Inject, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { and, asc, desc, eq, gt, lte } from 'drizzle-orm';
+import { policy } from '../../../../database/schema/policy.schema';
+import { policyVersion, PolicyVersionSource } from '../../../../database/schema/policy-version.schema';
+import { policyReinstatement } from '../../../../database/schema/policy-reinstatement.schema';
+import type { Database } from '../../database/drizzle.config';
+import { DATABASE_CONNECTION } from '../../database/database.module';
+import { isCalendarDate } from './policy-term';
+
+type PolicyRecord = typeof policy.$inferSelect;
+type PolicyVersionRecord = typeof policyVersion.$inferSelect;
+
+// Cancellation ends coverage on the cancellation date (set while pending too)
+const CANCELLATION_STATUSES = ['PENDING_CANCELLATION', 'CANCELLED'];
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface NewVersion {
+  policyId: string;
+  versionNumber: number;
+  source: keyof typeof PolicyVersionSource;
+  effectiveDate: string; // YYYY-MM-DD
+  snapshot: any;
+  endorsementId?: string;
+}
+
+/**
+ * Coverage in force on a date, as returned to callers
+ */
+export interface VersionInForce {
+  policyNumber: string;
+  asOfDate: string;
+  versionNumber: number;
+  effectiveDate: string;
+  source: string;
+  termPremium: number;
+  drivers: any[]; // Primary driver first
+  vehicles: any[];
+  coverages: any;
+  address: any;
+}
+
+/**
+ * Last day the policy provides coverage (exclusive: coverage ends at 12:01 AM on this date)
+ */
+export function coverageEndDate(policyRecord: Pick<PolicyRecord, 'status_code' | 'expiration_date' | 'cancellation_date'>): string {
+  if (CANCELLATION_STATUSES.includes(policyRecord.status_code) && policyRecord.cancellation_date
+      && policyRecord.cancellation_date < policyRecord.expiration_date) {
+    return policyRecord.cancellation_date;
+  }
+  return policyRecord.expiration_date;
+}
+
+@Injectable()
+export class PolicyVersionService {
+  private readonly logger = new Logger(PolicyVersionService.name);
+
+  constructor(@Inject(DATABASE_CONNECTION) private readonly db: Database) {}
+
+  /**
+   * Write a new policy version
+   *
+   * @param tx - Transaction to write in (defaults to the shared connection)
+   */
+  async recordVersion(version: NewVersion, tx: Pick<Database, 'insert'> = this.db): Promise<PolicyVersionRecord> {
+    const [record] = await tx
+      .insert(policyVersion)
+      .values({
+        policy_id: version.policyId,
+        endorsement_id: version.endorsementId,
+        version_number: version.versionNumber,
+        source: version.source,
+        effective_date: version.effectiveDate,
+        snapshot: version.snapshot,
+        term_premium: Number(version.snapshot?.premium?.subtotal ?? 0).toFixed(2),
+      })
+      .returning();
+
+    this.logger.log(`Recorded version ${version.versionNumber} of policy ${version.policyId} effective ${version.effectiveDate}`);
+    return record;
+  }
+
+  /**
+   * All versions of a policy, oldest first
+   */
+  async getVersions(policyIdOrNumber: string): Promise<PolicyVersionRecord[]> {
+    const policyRecord = await this.getPolicy(policyIdOrNumber);
+
+    return this.db
+      .select()
+      .from(policyVersion)
+      .where(eq(policyVersion.policy_id, policyRecord.policy_identifier))
+      .orderBy(asc(policyVersion.version_number));
+  }
+
+  /**
+   * Version in force on a date
+   *
+   * @param policyRecord - Policy
+   * @param date - YYYY-MM-DD
+   * @returns The version, or null when the policy provided no coverage that day
+   */
+  async findVersionInForce(policyRecord: PolicyRecord, date: string): Promise<PolicyVersionRecord | null> {
+    if (date >= coverageEndDate(policyRecord)) {
+      return null;
+    }
+
+    // Endorsements and renewals are applied in effective-date order, so the
+    // highest version already effective is the one in force (none before the
+    // first term started; the policy dates only cover the current term)
+    const [version] = await this.db
+      .select()
+      .from(policyVersion)
+      .where(and(
+        eq(policyVersion.policy_id, policyRecord.policy_identifier),
+        lte(policyVersion.effective_date, date),
+      ))
+      .orderBy(desc(policyVersion.version_number))
+      .limit(1);
+
+    if (!version) {
+      return null;
+    }
+
+    // Reinstated with a lapse: no coverage between the cancellation and the reinstatement
+    const [lapse] = await this.db
+      .select()
+      .from(policyReinstatement)
+      .where(and(
+        eq(policyReinstatement.policy_id, policyRecord.policy_identifier),
+        lte(policyReinstatement.lapse_start, date),
+        gt(policyReinstatement.lapse_end, date),
+      ))
+      .limit(1);
+
+    return lapse ? null : version;
+  }
+
+  /**
+   * Drivers, vehicles and coverage in force on a date
+   *
+   * @param policyIdOrNumber - Policy ID (UUID) or policy number
+   * @param date - YYYY-MM-DD
+   * @throws NotFoundException if the policy does not exist or was not in force that day
+   */
+  async getVersionInForce(policyIdOrNumber: string, date: string): Promise<VersionInForce> {
+    if (!isCalendarDate(date)) {
+      throw new BadRequestException('date must be a date in YYYY-MM-DD format');
+    }
+
+    const policyRecord = await this.getPolicy(policyIdOrNumber);
+    const version = await this.findVersionInForce(policyRecord, date);
+
+    if (!version) {
+      throw new NotFoundException(
+        `Policy ${policyRecord.policy_number} was not in force on ${date} ` +
+          `(coverage ${policyRecord.effective_date} to ${coverageEndDate(policyRecord)})`
+      );
+    }
+
+    const snapshot = version.snapshot as any;
+    return {
+      policyNumber: policyRecord.policy_number,
+      asOfDate: date,
+      versionNumber: version.version_number,
+      effectiveDate: version.effective_date,
+      source: version.source,
+      termPremium: parseFloat(version.term_premium),
+      drivers: [snapshot.driver, ...(snapshot.additionalDrivers || [])].filter(Boolean),
+      vehicles: snapshot.vehicles || (snapshot.vehicle ? [snapshot.vehicle] : []),
+      coverages: snapshot.coverages || {},
+      address: snapshot.address || null,
+    };
+  }
+
+  private async getPolicy(policyIdOrNumber: string): Promise<PolicyRecord> {
+    const [policyRecord] = await this.db
+      .select()
+      .from(policy)
+      .where(UUID_PATTERN.test(policyIdOrNumber)
+        ? eq(policy.policy_identifier, policyIdOrNumber)
+        : eq(policy.policy_number, policyIdOrNumber))
+      .limit(1);
+
+    if (!policyRecord) {
+      throw new NotFoundException(`Policy ${policyIdOrNumber} not found`);
+    }
+
+    return policyRecord;
+  }
+}
@@ -0,0 +1,618 @@
+/**
+ * Policy Renewal Service
+ *
+ * Renews in-force policies for another term, run daily by the
+ * process-renewals job (CLI and cron endpoint):
+ *
+ * - Offer: RENEWAL_OFFER_DAYS before expiration, the next term is re-rated
+ *   with the rate book in force at the renewal date and driver/vehicle ages
+ *   as of that date. The renewal (OFFERED) and a renewal offer document show
+ *   the new premium against the current term's.
+ * - Renew: on the renewal date the first installment of the new term is
+ *   charged to the payment method on file; the policy moves to the new term
+ *   as its next version (written to policy_version) and the remaining
+ *   installments are scheduled for the collection job. The renewal is claimed
+ *   (OFFERED → RENEWING) before charging, so overlapping runs never charge
+ *   it twice; one left RENEWING after a charge needs manual review.
+ * - Lapse: if the insured declined the offer, or the renewal payment is
+ *   declined, the policy expires at the end of the current term.
+ *
+ * A renewal is rated against the policy version it was offered from; if the
+ * policy changed since (an endorsement), it is re-rated before renewing.
+ * Every outcome is logged through QuoteService.logPolicyEvent.
+ */
+
+import { Injectable, Inject, Logger, NotFoundException } from '@nestjs/common';
+import { and, desc, eq, gte, inArray, isNull, lte } from 'drizzle-orm';
+import { policy } from '../../../../database/schema/policy.schema';
+import { agreement } from '../../../../database/schema/agreement.schema';
+import { payment } from '../../../../database/schema/payment.schema';
+import { document } from '../../../../database/schema/document.schema';
+import { policyRenewal } from '../../../../database/schema/policy-renewal.schema';
+import type { Database } from '../../database/drizzle.config';
+import { DATABASE_CONNECTION } from '../../database/database.module';
+import { BusinessRuleError } from '../../api/middleware/error-handler';
+import { formatDateToYYYYMMDD } from '../../utils/validators';
+import { QuoteService } from '../quote/quote.service';
+import { BillingScheduleService, ScheduledInstallment } from '../billing/billing-schedule.service';
+import { DEFAULT_PAYMENT_PLAN } from '../billing/payment-plans';
+import { DEFAULT_POLICY_TERM_MONTHS } from '../rating-engine/rating-engine.service';
+import { PremiumHistoryService, PremiumCalculationTrigger } from '../rating-engine/premium-history.service';
+import { PAYMENT_GATEWAY, GatewayResult, PaymentGateway, authorizeAndCapture } from '../payment-gateway/payment-gateway';
+import { PolicyVersionService } from './policy-version.service';
+import { addDays, addMonths } from './policy-term';
+import { canPerform, statusesAllowing } from './policy-status';
+
+/**
+ * Days before expiration that the renewal is offered
+ */
+export const RENEWAL_OFFER_DAYS = 45;
+
+// Policies that are offered renewal and renewed
+const RENEWABLE_STATUSES = statusesAllowing('RENEW');
+
+// Renewals still waiting for the renewal date
+const OPEN_RENEWAL_STATUSES = ['OFFERED', 'DECLINED'];
+
+type PolicyRecord = typeof policy.$inferSelect;
+type RenewalRecord = typeof policyRenewal.$inferSelect;
+
+/**
+ * Renewal of a policy, as shown to the insured
+ */
+export interface RenewalSummary {
+  renewalId: string;
+  policyNumber: string;
+  status: string; // OFFERED, DECLINED, RENEWING, RENEWED, LAPSED
+  effectiveDate: string; // Renewal term start
+  expirationDate: string; // Renewal term end
+  currentTermPremium: number; // Before taxes and fees
+  renewalPremium: number; // Before taxes and fees
+  premiumChange: number; // renewalPremium - currentTermPremium
+  renewalTotal: number; // Renewal premium with taxes and fees
+  offerDocumentId: string | null;
+  offeredAt: Date;
+  decidedAt: Date | null;
+  outcomeReason: string | null;
+}
+
+/**
+ * Outcome of one process-renewals run
+ */
+export interface RenewalRunResult {
+  asOf: string; // YYYY-MM-DD
+  offered: string[]; // Policy numbers
+  renewed: string[];
+  lapsed: string[];
+  failed: string[]; // Left as they were, retried on the next run
+}
+
+@Injectable()
+export class RenewalService {
+  private readonly logger = new Logger(RenewalService.name);
+
+  constructor(
+    @Inject(DATABASE_CONNECTION) private readonly db: Database,
+    @Inject(QuoteService) private readonly quoteService: QuoteService,
+    @Inject(BillingScheduleService) private readonly billingSchedule: BillingScheduleService,
+    @Inject(PremiumHistoryService) private readonly premiumHistory: PremiumHistoryService,
+    @Inject(PolicyVersionService) private readonly policyVersions: PolicyVersionService,
+    @Inject(PAYMENT_GATEWAY) private readonly paymentGateway: PaymentGateway,
+  ) {}
+
+  /**
+   * Offer renewals for policies nearing expiration, then renew or lapse those reaching it
+   *
+   * @param asOf - Run date (default now)
+   */
+  async run(asOf: Date = new Date()): Promise<RenewalRunResult> {
+    const today = formatDateToYYYYMMDD(asOf);
+    const result: RenewalRunResult = { asOf: today, offered: [], renewed: [], lapsed: [], failed: [] };
+
+    // Policies expiring within the offer window with no renewal for the next term yet
+    const expiring = await this.db
+      .select()
+      .from(policy)
+      .leftJoin(policyRenewal, and(
+        eq(policyRenewal.policy_id, policy.policy_identifier),
+        eq(policyRenewal.effective_date, policy.expiration_date),
+      ))
+      .where(and(
+        inArray(policy.status_code, RENEWABLE_STATUSES),
+        gte(policy.expiration_date, today),
+        lte(policy.expiration_date, addDays(today, RENEWAL_OFFER_DAYS)),
+        isNull(policyRenewal.renewal_id),
+      ));
+
+    for (const { policy: policyRecord } of expiring) {
+      try {
+        await this.offerRenewal(policyRecord);
+        result.offered.push(policyRecord.policy_number);
+      } catch (error) {
+        this.logger.error(`Failed to offer renewal of policy ${policyRecord.policy_number}`, error);
+        result.failed.push(policyRecord.policy_number);
+      }
+    }
+
+    const due = await this.db
+      .select()
+      .from(policyRenewal)
+      .innerJoin(policy, eq(policyRenewal.policy_id, policy.policy_identifier))
+      .where(and(
+        inArray(policyRenewal.status, OPEN_RENEWAL_STATUSES),
+        lte(policyRenewal.effective_date, today),
+      ));
+
+    for (const { policy_renewal: renewal, policy: policyRecord } of due) {
+      try {
+        const outcome = renewal.status === 'OFFERED' && canPerform(policyRecord.status_code, 'RENEW')
+          ? await this.renewPolicy(renewal, policyRecord)
+          : await this.lapse(renewal, policyRecord, renewal.status === 'DECLINED'
+            ? 'Renewal declined by the insured'
+            : `Policy was ${policyRecord.status_code} at expiration`);
+        if (outcome) {
+          result[outcome].push(policyRecord.policy_number);
+        }
+      } catch (error) {
+        this.logger.error(`Failed to process renewal of policy ${policyRecord.policy_number}`, error);
+        result.failed.push(policyRecord.policy_number);
+      }
+    }
+
+    this.logger.log('Renewals processed', result);
+    return result;
+  }
+
+  /**
+   * Latest renewal of a policy, or null before one is offered
+   *
+   * @param policyNumber - DZXXXXXXXX policy number
+   */
+  async getRenewal(policyNumber: string): Promise<RenewalSummary | null> {
+    const policyRecord = await this.getPolicy(policyNumber);
+    const renewal = await this.getLatestRenewal(policyRecord);
+
+    return renewal ? this.toSummary(renewal, policyRecord) : null;
+  }
+
+  /**
+   * Decline the offered renewal; the policy expires at the end of the current term
+   *
+   * @param policyNumber - DZXXXXXXXX policy number
+   * @throws NotFoundException if the policy or renewal does not exist
+   * @throws BusinessRuleError if the renewal is not open for a decision
+   */
+  async declineRenewal(policyNumber: string): Promise<RenewalSummary> {
+    return this.decide(policyNumber, 'OFFERED', 'DECLINED', 'declined');
+  }
+
+  /**
+   * Take back a declined renewal before the renewal date, so the policy renews after all
+   *
+   * @param policyNumber - DZXXXXXXXX policy number
+   * @throws NotFoundException if the policy or renewal does not exist
+   * @throws BusinessRuleError if the renewal was not declined
+   */
+  async acceptRenewal(policyNumber: string): Promise<RenewalSummary> {
+    return this.decide(policyNumber, 'DECLINED', 'OFFERED', 'accepted');
+  }
+
+  /**
+   * Re-rate the next term and offer it with a renewal offer document
+   */
+  private async offerRenewal(policyRecord: PolicyRecord): Promise<RenewalRecord> {
+    const effectiveDate = policyRecord.expiration_date;
+    const expirationDate = addMonths(effectiveDate, DEFAULT_POLICY_TERM_MONTHS);
+    const renewalSnapshot = await this.rateRenewal(policyRecord, effectiveDate);
+    const currentTermPremium = Number((policyRecord.quote_snapshot as any)?.premium?.subtotal ?? 0);
+
+    const [offered] = await this.db
+      .insert(policyRenewal)
+      .values({
+        policy_id: policyRecord.policy_identifier,
+        status: 'OFFERED',
+        effective_date: effectiveDate,
+        expiration_date: expirationDate,
+        base_version: policyRecord.version_number,
+        renewal_snapshot: renewalSnapshot,
+        current_term_premium: currentTermPremium.toFixed(2),
+        renewal_premium: renewalSnapshot.premium.subtotal.toFixed(2),
+        offered_at: new Date(),
+      })
+      .returning();
+
+    const offerDocument = await this.generateOfferDocument(policyRecord, offered);
+    const [renewal] = await this.db
+      .update(policyRenewal)
+      .set({ offer_document_id: offerDocument.document_id, updated_at: new Date() })
+      .where(eq(policyRenewal.renewal_id, offered.renewal_id))
+      .returning();
+
+    await this.quoteService.logPolicyEvent(
+      policyRecord.policy_identifier,
+      policyRecord.status_code,
+      policyRecord.status_code,
+      `Renewal offered for term ${effectiveDate} to ${expirationDate}; ` +
+        `premium $${renewal.renewal_premium} (current term $${renewal.current_term_premium})`
+    );
+
+    this.logger.log(`Offered renewal of policy ${policyRecord.policy_number}`, {
+      effectiveDate,
+      renewalPremium: renewal.renewal_premium,
+    });
+
+    return renewal;
+  }
+
+  /**
+   * Charge the first installment of the new term and move the policy to it
+   *
+   * @returns 'renewed', 'lapsed' when the payment is declined, or null if
+   * another run already claimed the renewal
+   */
+  private async renewPolicy(renewal: RenewalRecord, policyRecord: PolicyRecord): Promise<'renewed' | 'lapsed' | null> {
+    const [claimed] = await this.db
+      .update(policyRenewal)
+      .set({ status: 'RENEWING', updated_at: new Date() })
+      .where(and(eq(policyRenewal.renewal_id, renewal.renewal_id), eq(policyRenewal.status, 'OFFERED')))
+      .returning();
+
+    if (!claimed) {
+      return null;
+    }
+
+    let schedule: ScheduledInstallment[];
+    let lastCharge: typeof payment.$inferSelect | undefined;
+    try {
+      ({ renewal, schedule, lastCharge } = await this.prepareRenewal(claimed, policyRecord));
+    } catch (error) {
+      // Nothing was charged: release the renewal for the next run
+      await this.db
+        .update(policyRenewal)
+        .set({ status: 'OFFERED', updated_at: new Date() })
+        .where(eq(policyRenewal.renewal_id, renewal.renewal_id));
+      throw error;
+    }
+
+    const charge: GatewayResult = lastCharge?.payment_token
+      ? await authorizeAndCapture(this.paymentGateway, lastCharge.payment_token, schedule[0].amount)
+      : { success: false, message: 'No payment method on file' };
+
+    if (!charge.success) {
+      return this.lapse(renewal, policyRecord, `Renewal payment declined (${charge.message})`);
+    }
+
+    try {
+      return await this.completeRenewal(renewal, policyRecord, lastCharge!, charge, schedule);
+    } catch (error) {
+      // Charged: stay RENEWING so no later run charges the insured again
+      this.logger.error(
+        `Renewal of policy ${policyRecord.policy_number} was charged but not completed; left RENEWING for review`,
+        { renewalId: renewal.renewal_id, transactionId: charge.transactionId }
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Re-rate a claimed renewal if needed, and find what to charge and the card to charge it to
+   */
+  private async prepareRenewal(renewal: RenewalRecord, policyRecord: PolicyRecord): Promise<{
+    renewal: RenewalRecord;
+    schedule: ScheduledInstallment[];
+    lastCharge: typeof payment.$inferSelect | undefined;
+  }> {
+    // The policy changed since the offer: renew what is in force now
+    if (renewal.base_version !== policyRecord.version_number) {
+      const renewalSnapshot = await this.rateRenewal(policyRecord, renewal.effective_date);
+      [renewal] = await this.db
+        .update(policyRenewal)
+        .set({
+          base_version: policyRecord.version_number,
+          renewal_snapshot: renewalSnapshot,
+          renewal_premium: renewalSnapshot.premium.subtotal.toFixed(2),
+          updated_at: new Date(),
+        })
+        .where(eq(policyRenewal.renewal_id, renewal.renewal_id))
+        .returning();
+    }
+
+    const snapshot = renewal.renewal_snapshot as any;
+    const schedule = this.billingSchedule.buildSchedule(
+      snapshot.preferences?.paymentPlan || DEFAULT_PAYMENT_PLAN,
+      snapshot.premium,
+      renewal.effective_date,
+      renewal.effective_date
+    );
+
+    const [lastCharge] = await this.db
+      .select()
+      .from(payment)
+      .where(and(eq(payment.policy_id, policyRecord.policy_identifier), eq(payment.payment_type, 'CHARGE')))
+      .orderBy(desc(payment.payment_date))
+      .limit(1);
+
+    return { renewal, schedule, lastCharge };
+  }
+
+  /**
+   * Move the policy to the new term after the renewal payment succeeded
+   */
+  private async completeRenewal(
+    renewal: RenewalRecord,
+    policyRecord: PolicyRecord,
+    lastCharge: typeof payment.$inferSelect,
+    charge: GatewayResult,
+    schedule: ScheduledInstallment[]
+  ): Promise<'renewed'> {
+    const snapshot = renewal.renewal_snapshot as any;
+    await this.recordInstallments(renewal, lastCharge, charge, schedule);
+
+    const versionNumber = policyRecord.version_number + 1;
+    await this.db
+      .update(policy)
+      .set({
+        effective_date: renewal.effective_date,
+        expiration_date: renewal.expiration_date,
+        quote_snapshot: snapshot,
+        version_number: versionNumber,
+        coverage_start_date: renewal.effective_date,
+        updated_at: new Date(),
+      })
+      .where(eq(policy.policy_identifier, policyRecord.policy_identifier));
+
+    await this.policyVersions.recordVersion({
+      policyId: policyRecord.policy_identifier,
+      versionNumber,
+      source: 'RENEWAL',
+      effectiveDate: renewal.effective_date,
+      snapshot,
+    });
+
+    await this.db
+      .update(agreement)
+      .set({ premium_amount: renewal.renewal_premium })
+      .where(eq(agreement.agreement_identifier, policyRecord.policy_identifier));
+
+    const { ratingInput, rating } = await this.quoteService.rateSnapshot(snapshot, renewal.effective_date);
+    await this.premiumHistory.record(
+      policyRecord.policy_identifier,
+      ratingInput,
+      rating,
+      PremiumCalculationTrigger.RENEWAL
+    );
+
+    await this.db
+      .update(policyRenewal)
+      .set({ status: 'RENEWED', decided_at: new Date(), updated_at: new Date() })
+      .where(eq(policyRenewal.renewal_id, renewal.renewal_id));
+
+    await this.quoteService.logPolicyEvent(
+      policyRecord.policy_identifier,
+      policyRecord.status_code,
+      policyRecord.status_code,
+      `Policy renewed as version ${versionNumber} for term ${renewal.effective_date} to ${renewal.expiration_date}; ` +
+        `premium $${renewal.renewal_premium} (previous term $${renewal.current_term_premium})`
+    );
+
+    this.logger.log(`Renewed policy ${policyRecord.policy_number}`, { versionNumber, transactionId: charge.transactionId });
+    return 'renewed';
+  }
+
+  /**
+   * Mark the renewal LAPSED and expire the policy at the end of its term
+   */
+  private async lapse(renewal: RenewalRecord, policyRecord: PolicyRecord, reason: string): Promise<'lapsed'> {
+    await this.db
+      .update(policyRenewal)
+      .set({ status: 'LAPSED', decided_at: new Date(), outcome_reason: reason, updated_at: new Date() })
+      .where(eq(policyRenewal.renewal_id, renewal.renewal_id));
+
+    // A cancellation already ended the policy
+    if (canPerform(policyRecord.status_code, 'LAPSE')) {
+      await this.quoteService.transitionStatus(
+        policyRecord,
+        'LAPSE',
+        `Policy expired ${policyRecord.expiration_date} without renewal: ${reason}`
+      );
+    }
+
+    this.logger.log(`Renewal of policy ${policyRecord.policy_number} lapsed`, { reason });
+    return 'lapsed';
+  }
+
+  /**
+   * Move the current renewal from one status to another at the insured's request
+   */
+  private async decide(policyNumber: string, from: string, to: string, action: string): Promise<RenewalSummary> {
+    const policyRecord = await this.getPolicy(policyNumber);
+    const renewal = await this.getLatestRenewal(policyRecord);
+
+    if (!renewal) {
+      throw new NotFoundException(`Policy ${policyNumber} has no renewal offer`);
+    }
+
+    if (renewal.status !== from) {
+      throw new BusinessRuleError(
+        `Renewal of policy ${policyNumber} has status ${renewal.status}. Only ${from.toLowerCase()} renewals can be ${action}.`,
+        `RENEWAL_NOT_${from}`
+      );
+    }
+
+    const [decided] = await this.db
+      .update(policyRenewal)
+      .set({ status: to, decided_at: to === 'OFFERED' ? null : new Date(), updated_at: new Date() })
+      .where(and(eq(policyRenewal.renewal_id, renewal.renewal_id), eq(policyRenewal.status, from)))
+      .returning();
+
+    // The renewal job or another request moved it since it was read
+    if (!decided) {
+      throw new BusinessRuleError(
+        `Renewal of policy ${policyNumber} is no longer ${from.toLowerCase()} and cannot be ${action}.`,
+        `RENEWAL_NOT_${from}`
+      );
+    }
+
+    await this.quoteService.logPolicyEvent(
+      policyRecord.policy_identifier,
+      policyRecord.status_code,
+      policyRecord.status_code,
+      `Renewal for term ${renewal.effective_date} to ${renewal.expiration_date} ${action} by the insured`
+    );
+
+    return this.toSummary(decided, policyRecord);
+  }
+
+  /**
+   * Current snapshot re-rated for a renewal term starting on a date
+   *
+   * The rate book in force and driver/vehicle ages are taken at the renewal date.
+   */
+  private async rateRenewal(policyRecord: PolicyRecord, effectiveDate: string): Promise<any> {
+    const currentSnapshot = policyRecord.quote_snapshot as any;
+    const renewalSnapshot = {
+      ...currentSnapshot,
+      coverages: { ...currentSnapshot.coverages, startDate: effectiveDate },
+    };
+
+    const { rating, premium } = await this.quoteService.rateSnapshot(renewalSnapshot, effectiveDate);
+    renewalSnapshot.premium = premium;
+    renewalSnapshot.rating = rating;
+    renewalSnapshot.discounts = rating.discounts;
+
+    return renewalSnapshot;
+  }
+
+  /**
+   * Record the charged first installment and schedule the rest of the new term
+   */
+  private async recordInstallments(
+    renewal: RenewalRecord,
+    lastCharge: typeof payment.$inferSelect,
+    charge: GatewayResult,
+    schedule: ScheduledInstallment[]
+  ): Promise<void> {
+    const paymentMethod = {
+      policy_id: renewal.policy_id,
+      renewal_id: renewal.renewal_id,
+      payment_method: lastCharge.payment_method,
+      payment_token: lastCharge.payment_token,
+      last_four_digits: lastCharge.last_four_digits,
+      card_brand: lastCharge.card_brand,
+      account_type: lastCharge.account_type,
+    };
+
+    await this.db.insert(payment).values(
+      schedule.map((installment, index) => ({
+        ...paymentMethod,
+        payment_number: `PAY-${this.generateId()}`,
+        // ACH debits stay PROCESSING until the settlement job sees them settle
+        payment_status: index > 0 ? 'PENDING' : charge.pending ? 'PROCESSING' : 'COMPLETED',
+        amount: installment.amount.toFixed(2),
+        premium_amount: installment.premiumAmount.toFixed(2),
+        tax_amount: installment.taxAmount.toFixed(2),
+        fee_amount: installment.feeAmount.toFixed(2),
+        installment_number: installment.installmentNumber,
+        due_date: installment.dueDate,
+        payment_date: index > 0 ? new Date(`${installment.dueDate}T00:00:00Z`) : new Date(),
+        ...(index > 0 ? {} : {
+          transaction_id: charge.transactionId,
+          gateway_response: charge.message,
+          processed_at: charge.pending ? undefined : new Date(),
+        }),
+      }))
+    );
+  }
+
+  /**
+   * Renewal offer (mock - no actual PDF)
+   */
+  private async generateOfferDocument(
+    policyRecord: PolicyRecord,
+    renewal: RenewalRecord
+  ): Promise<typeof document.$inferSelect> {
+    const change = parseFloat(renewal.renewal_premium) - parseFloat(renewal.current_term_premium);
+
+    const [offer] = await this.db
+      .insert(document)
+      .values({
+        policy_id: policyRecord.policy_identifier,
+        document_number: `DOC-${this.generateId()}`,
+        document_type: 'RENEWAL_OFFER',
+        document_name: `Renewal_Offer_${policyRecord.policy_number}_${renewal.effective_date}.pdf`,
+        version: 1,
+        is_current: true,
+        document_status: 'READY',
+        storage_url: `/documents/policies/${policyRecord.policy_number}/renewal_offer_${renewal.effective_date}.pdf`,
+        mime_type: 'application/pdf',
+        description: `Renewal term ${renewal.effective_date} to ${renewal.expiration_date}. ` +
+          `Premium $${renewal.renewal_premium} (current term $${renewal.current_term_premium}, ` +
+          `${change < 0 ? '-' : '+'}$${Math.abs(change).toFixed(2)}). ` +
+          'Renews automatically on the payment method on file unless declined.',
+        file_size_bytes: 102400, // Mock size
+        generated_at: new Date(),
+      })
+      .returning();
+
+    this.logger.log(`Generated renewal offer ${offer.document_number} for policy ${policyRecord.policy_number}`);
+    return offer;
+  }
+
+  private async getPolicy(policyNumber: string): Promise<PolicyRecord> {
+    const [policyRecord] = await this.db
+      .select()
+      .from(policy)
+      .where(eq(policy.policy_number, policyNumber))
+      .limit(1);
+
+    if (!policyRecord) {
+      throw new NotFoundException(`Policy ${policyNumber} not found`);
+    }
+
+    return policyRecord;
+  }
+
+  private async getLatestRenewal(policyRecord: PolicyRecord): Promise<RenewalRecord | undefined> {
+    const [renewal] = await this.db
+      .select()
+      .from(policyRenewal)
+      .where(eq(policyRenewal.policy_id, policyRecord.policy_identifier))
+      .orderBy(desc(policyRenewal.effective_date))
+      .limit(1);
+
+    return renewal;
+  }
+
+  private toSummary(renewal: RenewalRecord, policyRecord: PolicyRecord): RenewalSummary {
+    const currentTermPremium = parseFloat(renewal.current_term_premium);
+    const renewalPremium = parseFloat(renewal.renewal_premium);
+
+    return {
+      renewalId: renewal.renewal_id,
+      policyNumber: policyRecord.policy_number,
+      status: renewal.status,
+      effectiveDate: renewal.effective_date,
+      expirationDate: renewal.expiration_date,
+      currentTermPremium,
+      renewalPremium,
+      premiumChange: Math.round((renewalPremium - currentTermPremium) * 100) / 100,
+      renewalTotal: Number((renewal.renewal_snapshot as any)?.premium?.total ?? renewalPremium),
+      offerDocumentId: renewal.offer_document_id,
+      offeredAt: renewal.offered_at,
+      decidedAt: renewal.decided_at,
+      outcomeReason: renewal.outcome_reason,
+    };
+  }
+
+  /**
+   * Generate 8-character random alphanumeric ID (payment and document numbers)
+   */
+  private generateId(): string {
+    const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+    let id = '';
+    for (let i = 0; i < 8; i++) {
+      id += chars.charAt(Math.floor(Math.random() * chars.length));
+    }
+    return id;
+  }
+}
@@ -7,19 +7,41 @@
 
 import { Module } from '@nestjs/common';
 import { QuoteService } from './quote.service';
+import { PolicyCancellationService } from '../policy/policy-cancellation.service';
+import { EndorsementService } from '../policy/endorsement.service';
+import { PolicyVersionService } from '../policy/policy-version.service';
+import { RenewalService } from '../policy/renewal.service';
+import { PolicyReinstatementService } from '../policy/policy-reinstatement.service';
 import { QuotesController } from '../../api/routes/quotes.controller';
 import { PoliciesController } from '../../api/routes/policies.controller';
 import { PortalController } from '../../api/routes/portal.controller';
 import { DatabaseModule } from '../../database/database.module';
+import { RatingEngineModule } from '../rating-engine/rating-engine.module';
+import { BillingModule } from '../billing/billing.module';
+import { PaymentGatewayModule } from '../payment-gateway/payment-gateway.module';
+import { UserAccountModule } from '../user-account-service/user-account.module';
 
 @Module({
-  imports: [DatabaseModule], // Import database connection
+  imports: [
+    DatabaseModule, // Import database connection
+    RatingEngineModule, // Table-driven rates for premium calculation
+    BillingModule, // Payment plans and installment schedules
+    PaymentGatewayModule, // Card/ACH tokenization and charges
+    UserAccountModule, // Sign-in sessions for the portal guard
+  ],
   controllers: [
     QuotesController, // Quote generation endpoints
-    PoliciesController, // Policy binding endpoints (Phase 4)
-    PortalController, // Portal access endpoints (Phase 5)
+    PoliciesController, // Policy binding, refund, cancellation, reinstatement and version endpoints (Phase 4)
+    PortalController, // Portal access, policy change and renewal endpoints (Phase 5)
   ],
-  providers: [QuoteService], // Register business logic service
-  exports: [QuoteService], // Make QuoteService available to other modules
+  providers: [
+    QuoteService,
+    PolicyCancellationService,
+    PolicyReinstatementService,
+    EndorsementService,
+    PolicyVersionService,
+    RenewalService,
+  ], // Register business logic services
+  exports: [QuoteService, PolicyCancellationService, EndorsementService, PolicyVersionService, RenewalService], // Make them available to other modules (cron jobs)
 })
 export class QuoteModule {}
@@ -3,16 +3,16 @@
  *
  * This is a clean, simple implementation that handles the core quote flow:
  * 1. Create quote (Party → Person → Vehicle → Policy)
- * 2. Calculate premium (simple formula)
+ * 2. Calculate premium (rating engine, rates from rating_table)
  * 3. Retrieve quotes by ID or quote number
  *
  * This replaces the complex 17-service architecture with a single,
  * understandable service that gets the job done.
  */
 
-import { Injectable, Logger, Inject, NotFoundException, BadRequestException } from '@nestjs/common';
-import { eq, and, sql, gte, lte } from 'drizzle-orm';
-import { formatDateToYYYYMMDD } from '../../utils/validators';
+import { Injectable, Logger, Inject, NotFoundException, BadRequestException, ForbiddenException } from '@nestjs/common';
+import { eq, and, sql, gte, lte, inArray } from 'drizzle-orm';
+import { formatDateToYYYYMMDD, redactCardNumbersDeep } from '../../utils/validators';
 import {
   party,
   person,
@@ -26,13 +26,36 @@ import {
   event,
   policyEvent,
   document,
-  userAccount,
   claim,
   claimPartyRole,
   claimEvent,
 } from '../../../../database/schema';
+import { policyActivation } from '../../../../database/schema/policy-activation.schema';
 import type { Database } from '../../database/drizzle.config';
 import { DATABASE_CONNECTION } from '../../database/database.module';
+import { RatingEngineService, RatingInput, RatingOutput, DEFAULT_POLICY_TERM_MONTHS } from '../rating-engine/rating-engine.service';
+import { PremiumHistoryService, PremiumCalculationTrigger } from '../rating-engine/premium-history.service';
+import { CoverageRatingService } from '../rating-engine/coverage-rating';
+import type { TaxFeeLine } from '../rating-engine/tax-fee-calculator';
+import type { DriverViolation, DriverAccident } from '../rating-engine/driver-rating';
+import type { PremiumHistoryEntry } from '../rating-engine/premium-history.service';
+import { BillingScheduleService, ScheduledInstallment } from '../billing/billing-schedule.service';
+import { DEFAULT_PAYMENT_PLAN, PaymentPlanCode } from '../billing/payment-plans';
+import { PAYMENT_GATEWAY, PaymentGateway, GatewayResult, authorizeAndCapture } from '../payment-gateway/payment-gateway';
+import { PolicyVersionService } from '../policy/policy-version.service';
+import { addMonths, isCalendarDate } from '../policy/policy-term';
+import { PolicyAction, PolicyStatus, allowedActions, nextStatus, statusesAllowing } from '../policy/policy-status';
+import { dateInTimeZone, policyTimeZone } from '../policy/policy-timezone';
+import { BusinessRuleError, ExpiredQuoteError, InvalidStatusTransitionError } from '../../api/middleware/error-handler';
+import { signQuoteClaimToken } from '../user-account-service/quote-claim-token';
+
+// Policies the portal shows but no longer changes
+const READ_ONLY_POLICY_STATUSES = ['CANCELLED'];
+
+/**
+ * Days a quote can be changed or bound after it is priced
+ */
+export const QUOTE_VALIDITY_DAYS = 30;
 
 /**
  * Input data for creating a quote
@@ -50,6 +73,8 @@ export interface CreateQuoteInput {
     yearsLicensed?: number;
     licenseNumber?: string;
     licenseState?: string;
+    violations?: DriverViolation[]; // Moving violations (lookbacks applied when rating)
+    accidents?: DriverAccident[];
   };
 
   // Additional drivers (stored in quote_snapshot as metadata)
@@ -65,6 +90,8 @@ export interface CreateQuoteInput {
     relationship?: string; // spouse, child, parent, sibling, other
     licenseNumber?: string;
     licenseState?: string;
+    violations?: DriverViolation[];
+    accidents?: DriverAccident[];
   }>;
 
   // Address information (for PNI)
@@ -117,6 +144,32 @@ export interface CreateQuoteInput {
   };
 }
 
+/**
+ * Billing and document delivery choices that drive discount eligibility
+ */
+export interface QuotePreferences {
+  paymentPlan?: PaymentPlanCode | null; // Plan billed at binding (pay in full when unset)
+  documentDelivery?: 'ELECTRONIC' | 'MAIL' | null;
+  hasOtherPolicies?: boolean; // Holds a home, renters or other policy with us
+}
+
+/**
+ * Premium as stored on the quote snapshot
+ *
+ * The subtotal is the rated premium (after discounts and surcharges); state
+ * taxes and fees are itemized on top of it, and the total is what the
+ * customer pays for the term. Snapshots written before taxes were itemized
+ * only carry total/monthly/sixMonth, with total equal to the subtotal.
+ */
+export interface QuotePremium {
+  subtotal: number;
+  taxes: TaxFeeLine[];
+  fees: TaxFeeLine[];
+  total: number;
+  monthly: number; // total / 6
+  sixMonth: number; // total for the six-month term
+}
+
 /**
  * Quote creation result
  */
@@ -126,6 +179,52 @@ export interface QuoteResult {
   premium: number;
   createdAt: Date;
   expiresAt: Date;
+  rating?: RatingOutput;  // Itemized premium breakdown from the rating engine
+  claimToken?: string;    // New quotes only: lets the creator save the quote to an account
+}
+
+/**
+ * New quote cloned from an expired one
+ */
+export interface RequoteResult extends QuoteResult {
+  requotedFrom: string; // Expired quote number
+  previousPremium: number; // Premium of the expired quote
+}
+
+/**
+ * Outcome of one expire-quotes run
+ */
+export interface QuoteExpirationRunResult {
+  asOf: string; // YYYY-MM-DD
+  expired: string[]; // Quote numbers marked EXPIRED
+}
+
+type PolicyRecord = typeof policy.$inferSelect;
+type ActivationRecord = typeof policyActivation.$inferSelect;
+
+/**
+ * Activation of a policy (BOUND → IN_FORCE)
+ */
+export interface PolicyActivationResult {
+  policyId: string;
+  policyNumber: string;
+  status: 'IN_FORCE';
+  effectiveDate: string;
+  expirationDate: string;
+  timeZone: string; // Policy time zone the effective date was reached in
+  activatedAt: Date;
+  idCardCount: number; // ID cards issued for the term (one per vehicle)
+  alreadyActivated: boolean; // Activated before; nothing was repeated
+}
+
+/**
+ * Outcome of one activate-policies run
+ */
+export interface PolicyActivationRunResult {
+  asOf: string; // ISO timestamp; effective dates are compared in each policy's time zone
+  activated: string[]; // Policy numbers, including failed activations resumed on this run
+  skipped: string[]; // Being activated by another run
+  failed: string[]; // Resumed on the next run
 }
 
 /**
@@ -136,7 +235,13 @@ export class QuoteService {
   private readonly logger = new Logger(QuoteService.name);
 
   constructor(
-    @Inject(DATABASE_CONNECTION) private readonly db: Database
+    @Inject(DATABASE_CONNECTION) private readonly db: Database,
+    @Inject(RatingEngineService) private readonly ratingEngine: RatingEngineService,
+    @Inject(PremiumHistoryService) private readonly premiumHistory: PremiumHistoryService,
+    @Inject(CoverageRatingService) private readonly coverageRating: CoverageRatingService,
+    @Inject(BillingScheduleService) private readonly billingSchedule: BillingScheduleService,
+    @Inject(PAYMENT_GATEWAY) private readonly paymentGateway: PaymentGateway,
+    @Inject(PolicyVersionService) private readonly policyVersions: PolicyVersionService,
   ) {}
 
   /**
@@ -157,6 +262,46 @@ export class QuoteService {
     });
 
     try {
+      // Rate the quote before opening the transaction (loads the rates in force)
+      const ratingInput: RatingInput = {
+        driver: {
+          firstName: input.driver.firstName,
+          lastName: input.driver.lastName,
+          birthDate: input.driver.birthDate,
+          email: input.driver.email,
+          yearsLicensed: input.driver.yearsLicensed,
+          violations: input.driver.violations,
+          accidents: input.driver.accidents,
+        },
+        additionalDrivers: input.additionalDrivers || [],
+        vehicles: input.vehicles || (input.vehicle ? [input.vehicle] : []),
+        coverages: input.coverages ? {
+          startDate: input.coverages.startDate,
+          bodilyInjuryLimit: input.coverages.bodilyInjuryLimit,
+          propertyDamageLimit: input.coverages.propertyDamageLimit,
+          medicalPaymentsLimit: input.coverages.medicalPaymentsLimit,
+          uninsuredMotoristBodilyInjury: input.coverages.uninsuredMotoristBodilyInjury,
+          underinsuredMotoristBodilyInjury: input.coverages.underinsuredMotoristBodilyInjury,
+          hasCollision: input.coverages.collision,
+          collision: input.coverages.collision,
+          collisionDeductible: input.coverages.collisionDeductible,
+          hasComprehensive: input.coverages.comprehensive,
+          comprehensive: input.coverages.comprehensive,
+          comprehensiveDeductible: input.coverages.comprehensiveDeductible,
+          hasRoadside: input.coverages.roadsideAssistance,
+          hasRental: input.coverages.rentalReimbursement,
+        } : undefined,
+        vehicleCoverages: input.coverages?.collisionDeductible || input.coverages?.comprehensiveDeductible
+          ? (input.vehicles || (input.vehicle ? [input.vehicle] : [])).map((_v, index) => ({
+              vehicle_index: index,
+              collision_deductible: input.coverages!.collisionDeductible || 500,
+              comprehensive_deductible: input.coverages!.comprehensiveDeductible || 500,
+            }))
+          : undefined,
+        location: input.address,
+      };
+      const rating = await this.rateQuote(ratingInput);
+
       // Wrap all database operations in a transaction to ensure atomicity
       return await this.db.transaction(async (tx) => {
         // Step 1: Create Party (the person buying insurance)
@@ -218,40 +363,8 @@ export class QuoteService {
         // Step 7: Ensure Product exists (Personal Auto Insurance)
         const productId = await this.ensureProductExists(tx);
 
-        // Step 8: Calculate premium (before creating agreement so we can store it)
-        // Use calculatePremiumProgressive to include coverage selections in initial calculation
-        const premium = this.calculatePremiumProgressive({
-          driver: {
-            firstName: input.driver.firstName,
-            lastName: input.driver.lastName,
-            birthDate: input.driver.birthDate,
-            email: input.driver.email,
-          },
-          additionalDrivers: input.additionalDrivers || [],
-          vehicles: input.vehicles || (input.vehicle ? [input.vehicle] : []),
-          coverages: input.coverages ? {
-            bodilyInjuryLimit: input.coverages.bodilyInjuryLimit,
-            propertyDamageLimit: input.coverages.propertyDamageLimit,
-            medicalPaymentsLimit: input.coverages.medicalPaymentsLimit,
-            uninsuredMotoristBodilyInjury: input.coverages.uninsuredMotoristBodilyInjury,
-            underinsuredMotoristBodilyInjury: input.coverages.underinsuredMotoristBodilyInjury,
-            hasCollision: input.coverages.collision,
-            collision: input.coverages.collision,
-            collisionDeductible: input.coverages.collisionDeductible,
-            hasComprehensive: input.coverages.comprehensive,
-            comprehensive: input.coverages.comprehensive,
-            comprehensiveDeductible: input.coverages.comprehensiveDeductible,
-            hasRoadside: input.coverages.roadsideAssistance,
-            hasRental: input.coverages.rentalReimbursement,
-          } : undefined,
-          vehicleCoverages: input.coverages?.collisionDeductible || input.coverages?.comprehensiveDeductible
-            ? (input.vehicles || (input.vehicle ? [input.vehicle] : [])).map((_v, index) => ({
-                vehicle_index: index,
-                collision_deductible: input.coverages!.collisionDeductible || 500,
-                comprehensive_deductible: input.coverages!.comprehensiveDeductible || 500,
-              }))
-            : undefined,
-        });
+        // Step 8: Quoted premium from the rating engine (before creating agreement so we can store it)
+        const premium = rating.subtotal;
 
         // Step 9: Generate quote number
         const quoteNumber = this.generateQuoteNumber();
@@ -288,6 +401,7 @@ export class QuoteService {
             gender: input.driver.gender || null,
             maritalStatus: input.driver.maritalStatus || null,
             yearsLicensed: input.driver.yearsLicensed || null,
+            ...this.toDrivingRecord(input.driver),
             isPrimary: true,
           },
           // ALL additional drivers (for multi-driver quotes)
@@ -301,6 +415,7 @@ export class QuoteService {
             maritalStatus: d.maritalStatus || null,
             yearsLicensed: d.yearsLicensed || null,
             relationship: d.relationship || null,
+            ...this.toDrivingRecord(d),
           })),
           address: {
             addressLine1: input.address.addressLine1,
@@ -325,11 +440,9 @@ export class QuoteService {
             hasRental: input.coverages?.rentalReimbursement || false,
             rentalLimit: input.coverages?.rentalLimit || null,
           },
-          premium: {
-            total: premium,
-            monthly: Math.round(premium / 6 * 100) / 100,
-            sixMonth: premium,
-          },
+          premium: this.toSnapshotPremium(rating),
+          rating,
+          discounts: rating.discounts,
           meta: {
             createdAt: new Date().toISOString(),
             quoteNumber: quoteNumber,
@@ -350,13 +463,22 @@ export class QuoteService {
           policy_identifier: newAgreement.agreement_identifier,
           policy_number: quoteNumber,
           effective_date: formatDateToYYYYMMDD(new Date()),
-          expiration_date: formatDateToYYYYMMDD(this.calculateExpirationDate()),
+          expiration_date: formatDateToYYYYMMDD(this.calculateQuoteExpiration()),
           status_code: 'QUOTED',
           quote_snapshot: quoteSnapshot,  // ✅ Complete quote data
           marital_status: input.driver.maritalStatus || null,  // ✅ Denormalized for queries
           coverage_start_date: input.coverages?.startDate || null,  // ✅ Denormalized for queries
         }).returning();
 
+        // Step 13: Record the calculation in the premium history
+        await this.premiumHistory.record(
+          newPolicy.policy_identifier,
+          ratingInput,
+          rating,
+          PremiumCalculationTrigger.QUOTE_CREATED,
+          tx
+        );
+
         this.logger.log('Quote created successfully', {
           quoteNumber,
           policyId: newPolicy.policy_identifier,
@@ -369,6 +491,8 @@ export class QuoteService {
           premium,
           createdAt: new Date(),
           expiresAt: this.calculateQuoteExpiration(),
+          rating,
+          claimToken: signQuoteClaimToken(quoteNumber),
         };
       });
     } catch (error) {
@@ -414,6 +538,11 @@ export class QuoteService {
 
     const quote = result[0];
     const snapshot = quote.quoteSnapshot as any;
+    // Report expiry even before the expire-quotes job marks the quote
+    const status = this.isQuoteExpired(
+      { status_code: quote.quoteStatus, expiration_date: quote.expirationDate },
+      formatDateToYYYYMMDD(new Date())
+    ) ? 'EXPIRED' : quote.quoteStatus;
 
     this.logger.debug('Retrieved quote', {
       quoteNumber: quote.quoteNumber,
@@ -424,7 +553,9 @@ export class QuoteService {
     // Return CRM-ready complete quote data (all fields including multi-driver/vehicle)
     return {
       quote_number: quote.quoteNumber,
-      quote_status: quote.quoteStatus,
+      quote_status: status,
+      allowed_actions: allowedActions(status), // What the status allows next (e.g. BIND, ENDORSE, CANCEL)
+      requoted_as: snapshot?.meta?.requotedAs || null,
       policy_id: quote.policyId,
       effective_date: quote.effectiveDate,
       expiration_date: quote.expirationDate,
@@ -484,6 +615,9 @@ export class QuoteService {
 
       // Premium breakdown (from snapshot or fallback to agreement)
       premium: snapshot?.premium || {
+        subtotal: parseFloat(quote.premiumAmount || '0'),
+        taxes: [],
+        fees: [],
         total: parseFloat(quote.premiumAmount || '0'),
         monthly: Math.round(parseFloat(quote.premiumAmount || '0') / 6 * 100) / 100,
         sixMonth: parseFloat(quote.premiumAmount || '0'),
@@ -494,6 +628,27 @@ export class QuoteService {
 
       // Discounts (from snapshot)
       discounts: snapshot?.discounts || [],
+
+      // Surcharges from driving record, vehicle and mileage (from snapshot)
+      surcharges: snapshot?.rating?.surcharges || [],
+
+      // Every discount with why it was or wasn't applied (from snapshot)
+      discountEligibility: snapshot?.rating?.discountEligibility || [],
+
+      // Billing and document delivery choices (from snapshot)
+      preferences: snapshot?.preferences || {
+        paymentPlan: null,
+        documentDelivery: null,
+        hasOtherPolicies: false,
+      },
+
+      // What each payment plan would bill for this premium
+      paymentPlans: this.billingSchedule.getPlanOptions(
+        snapshot?.premium || { total: parseFloat(quote.premiumAmount || '0') }
+      ),
+
+      // Itemized rating breakdown (from snapshot)
+      rating: snapshot?.rating || null,
     };
   }
 
@@ -507,86 +662,238 @@ export class QuoteService {
   }
 
   /**
-   * Generate quote number in format: DZXXXXXXXX (DZ prefix + 8 random alphanumeric characters)
+   * Get the premium history (timeline of every premium calculation) for a quote
+   *
+   * @throws NotFoundException if the quote doesn't exist
    */
-  private generateQuoteNumber(): string {
-    return `DZ${this.generateId()}`;
+  async getPremiumHistory(quoteNumber: string): Promise<{
+    quoteNumber: string;
+    currentPremium: number | null;
+    calculations: PremiumHistoryEntry[];
+  }> {
+    const [policyRecord] = await this.db
+      .select()
+      .from(policy)
+      .where(eq(policy.policy_number, quoteNumber))
+      .limit(1);
+
+    if (!policyRecord) {
+      throw new NotFoundException(`Quote ${quoteNumber} not found`);
+    }
+
+    const snapshot = policyRecord.quote_snapshot as any;
+    const calculations = await this.premiumHistory.getHistory(policyRecord.policy_identifier);
+
+    return {
+      quoteNumber,
+      currentPremium: snapshot?.premium?.total ?? null,
+      calculations,
+    };
   }
 
   /**
-   * Generate 8-character random alphanumeric ID
-   * Used for quote numbers, payment numbers, document numbers
+   * Expire-quotes job: mark unbound quotes past their expiration date EXPIRED
+   *
+   * Updates and binds already reject such quotes; the sweep makes the status
+   * match so they drop out of the QUOTED pipeline. INCOMPLETE quotes are left
+   * alone (see isQuoteExpired).
+   *
+   * @param asOf - run date (default now)
    */
-  private generateId(): string {
-    const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
-    let id = '';
-    for (let i = 0; i < 8; i++) {
-      id += chars.charAt(Math.floor(Math.random() * chars.length));
+  async expireQuotes(asOf: Date = new Date()): Promise<QuoteExpirationRunResult> {
+    const today = formatDateToYYYYMMDD(asOf);
+    const staleQuotes = await this.db
+      .select()
+      .from(policy)
+      .where(and(eq(policy.status_code, 'QUOTED'), lte(policy.expiration_date, today)));
+
+    const expired: string[] = [];
+    for (const quoteRecord of staleQuotes) {
+      if (await this.markQuoteExpired(quoteRecord)) {
+        expired.push(quoteRecord.policy_number);
+      }
     }
-    return id;
+
+    this.logger.log('Expire-quotes run complete', { asOf: today, expired: expired.length });
+    return { asOf: today, expired };
   }
 
   /**
-   * Calculate premium (simple formula)
+   * Clone an expired quote into a new quote priced with the current rates
    *
-   * Formula: Base Premium × Vehicle Factor × Driver Factor
+   * Drivers, vehicles, coverages and preferences carry over; a coverage start
+   * date already in the past is cleared so the customer picks a new one.
    *
-   * This is a simplified calculation. The full rating engine with
-   * discounts, surcharges, and complex multipliers can be added later.
+   * @throws NotFoundException if the quote doesn't exist
+   * @throws BusinessRuleError if the quote has not expired or was already re-quoted
+   *   (including by a concurrent call, in which case the new quote is rolled back)
    */
-  private calculatePremium(input: CreateQuoteInput): number {
-    // Base premium starts at $1000
-    let basePremium = 1000;
+  async requoteExpiredQuote(quoteNumber: string): Promise<RequoteResult> {
+    const [expiredQuote] = await this.db
+      .select()
+      .from(policy)
+      .where(eq(policy.policy_number, quoteNumber))
+      .limit(1);
 
-    // Get primary vehicle (from legacy field or first vehicle in array)
-    const primaryVehicle = input.vehicle || input.vehicles?.[0];
-    if (!primaryVehicle) {
-      throw new Error('At least one vehicle is required for premium calculation');
+    if (!expiredQuote) {
+      throw new NotFoundException(`Quote ${quoteNumber} not found`);
     }
 
-    // Vehicle age factor
-    const currentYear = new Date().getFullYear();
-    const vehicleAge = currentYear - primaryVehicle.year;
-    let vehicleFactor = 1.0;
-
-    if (vehicleAge <= 3) {
-      vehicleFactor = 1.3; // New cars cost more to repair
-    } else if (vehicleAge <= 7) {
-      vehicleFactor = 1.0; // Mid-age baseline
-    } else {
-      vehicleFactor = 0.9; // Older cars less valuable
+    const today = formatDateToYYYYMMDD(new Date());
+    if (!this.isQuoteExpired(expiredQuote, today)) {
+      throw new BusinessRuleError(
+        `Quote ${quoteNumber} has not expired and can still be changed or bound`,
+        'QUOTE_NOT_EXPIRED'
+      );
     }
 
-    // Driver age factor
-    const birthDate = new Date(input.driver.birthDate);
-    const age = Math.floor((Date.now() - birthDate.getTime()) / (365.25 * 24 * 60 * 60 * 1000));
-    let driverFactor = 1.0;
-
-    if (age < 25) {
-      driverFactor = 1.8; // Young drivers higher risk
-    } else if (age >= 65) {
-      driverFactor = 1.2; // Senior drivers moderate risk
-    } else {
-      driverFactor = 1.0; // 25-64 baseline
+    const expiredSnapshot = expiredQuote.quote_snapshot as any;
+    if (expiredSnapshot?.meta?.requotedAs) {
+      throw new BusinessRuleError(
+        `Quote ${quoteNumber} was already re-quoted as ${expiredSnapshot.meta.requotedAs}`,
+        'QUOTE_ALREADY_REQUOTED'
+      );
     }
 
-    // Coverage factor (simple)
-    let coverageFactor = 1.0;
-    if (input.coverages?.collision) coverageFactor += 0.3;
-    if (input.coverages?.comprehensive) coverageFactor += 0.2;
+    // The expire-quotes job may not have reached this quote yet
+    if (expiredQuote.status_code === 'QUOTED') {
+      await this.markQuoteExpired(expiredQuote);
+    }
 
-    // Calculate total
-    const totalPremium = Math.round(basePremium * vehicleFactor * driverFactor * coverageFactor);
+    const startDate = expiredSnapshot.coverages?.startDate;
+    const snapshot = {
+      ...expiredSnapshot,
+      coverages: {
+        ...expiredSnapshot.coverages,
+        startDate: startDate && startDate >= today ? startDate : null,
+      },
+    };
+    const { ratingInput, rating, premium } = await this.rateSnapshot(snapshot);
+    const newQuoteNumber = this.generateQuoteNumber();
+
+    const newSnapshot = {
+      ...snapshot,
+      premium,
+      rating,
+      discounts: rating.discounts,
+      meta: {
+        createdAt: new Date().toISOString(),
+        quoteNumber: newQuoteNumber,
+        version: 2,
+        requotedFrom: quoteNumber,
+      },
+    };
+
+    await this.db.transaction(async (tx) => {
+      const productId = await this.ensureProductExists(tx);
+
+      const [newAgreement] = await tx.insert(agreement).values({
+        agreement_type_code: 'POLICY',
+        product_identifier: productId,
+        driver_email: expiredSnapshot.driver?.email || null,
+        premium_amount: rating.subtotal.toString(),
+      }).returning();
+
+      const [newPolicy] = await tx.insert(policy).values({
+        policy_identifier: newAgreement.agreement_identifier,
+        policy_number: newQuoteNumber,
+        effective_date: today,
+        expiration_date: formatDateToYYYYMMDD(this.calculateQuoteExpiration()),
+        status_code: 'QUOTED',
+        quote_snapshot: newSnapshot,
+        marital_status: expiredQuote.marital_status,
+        coverage_start_date: newSnapshot.coverages.startDate,
+      }).returning();
+
+      await this.premiumHistory.record(
+        newPolicy.policy_identifier,
+        ratingInput,
+        rating,
+        PremiumCalculationTrigger.REQUOTED,
+        tx
+      );
 
-    this.logger.debug('Premium calculated', {
-      basePremium,
-      vehicleFactor,
-      driverFactor,
-      coverageFactor,
-      totalPremium,
+      // Link the expired quote to its replacement, unless a concurrent re-quote linked it first
+      const linked = await tx
+        .update(policy)
+        .set({
+          quote_snapshot: { ...expiredSnapshot, meta: { ...expiredSnapshot.meta, requotedAs: newQuoteNumber } },
+          updated_at: new Date(),
+        })
+        .where(and(
+          eq(policy.policy_identifier, expiredQuote.policy_identifier),
+          sql`${policy.quote_snapshot}->'meta'->>'requotedAs' IS NULL`
+        ))
+        .returning({ policy_identifier: policy.policy_identifier });
+
+      if (linked.length === 0) {
+        // Rolls back the new quote
+        throw new BusinessRuleError(`Quote ${quoteNumber} was already re-quoted`, 'QUOTE_ALREADY_REQUOTED');
+      }
+    });
+
+    this.logger.log('Expired quote re-quoted', {
+      quoteNumber,
+      newQuoteNumber,
+      previousPremium: expiredSnapshot.premium?.subtotal,
+      premium: rating.subtotal,
     });
 
-    return totalPremium;
+    return {
+      quoteId: newQuoteNumber,
+      quoteNumber: newQuoteNumber,
+      premium: rating.subtotal,
+      createdAt: new Date(),
+      expiresAt: this.calculateQuoteExpiration(),
+      rating,
+      claimToken: signQuoteClaimToken(newQuoteNumber),
+      requotedFrom: quoteNumber,
+      previousPremium: Number(expiredSnapshot.premium?.subtotal ?? 0),
+    };
+  }
+
+  /**
+   * Mark one QUOTED quote EXPIRED (guarded on status so concurrent runs expire it once)
+   *
+   * @returns whether this call expired the quote
+   */
+  private async markQuoteExpired(
+    quoteRecord: { policy_identifier: string; status_code: string; expiration_date: string }
+  ): Promise<boolean> {
+    try {
+      await this.transitionStatus(
+        quoteRecord,
+        'EXPIRE_QUOTE',
+        `Quote expired ${quoteRecord.expiration_date} without being bound`
+      );
+      return true;
+    } catch (error) {
+      // Bound or expired by another request since it was read
+      if (error instanceof InvalidStatusTransitionError) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Generate quote number in format: DZXXXXXXXX (DZ prefix + 8 random alphanumeric characters)
+   */
+  private generateQuoteNumber(): string {
+    return `DZ${this.generateId()}`;
+  }
+
+  /**
+   * Generate 8-character random alphanumeric ID
+   * Used for quote numbers, payment numbers, document numbers
+   */
+  private generateId(): string {
+    const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+    let id = '';
+    for (let i = 0; i < 8; i++) {
+      id += chars.charAt(Math.floor(Math.random() * chars.length));
+    }
+    return id;
   }
 
   /**
@@ -619,21 +926,42 @@ export class QuoteService {
   }
 
   /**
-   * Calculate policy expiration date (1 year from now)
+   * Calculate quote expiration date (QUOTE_VALIDITY_DAYS from now)
    */
-  private calculateExpirationDate(): Date {
+  private calculateQuoteExpiration(): Date {
     const date = new Date();
-    date.setFullYear(date.getFullYear() + 1);
+    date.setDate(date.getDate() + QUOTE_VALIDITY_DAYS);
     return date;
   }
 
   /**
-   * Calculate quote expiration date (30 days from now)
+   * Whether a quote has expired (marked EXPIRED, or QUOTED past its expiration date)
+   *
+   * INCOMPLETE quotes never expire: they carry no price the customer could bind,
+   * and finalizing one prices it at the current rates and starts its validity.
    */
-  private calculateQuoteExpiration(): Date {
-    const date = new Date();
-    date.setDate(date.getDate() + 30);
-    return date;
+  private isQuoteExpired(quoteRecord: { status_code: string; expiration_date: string }, today: string): boolean {
+    return quoteRecord.status_code === 'EXPIRED'
+      || (quoteRecord.status_code === 'QUOTED' && quoteRecord.expiration_date <= today);
+  }
+
+  /**
+   * Check a change to a quote against its status
+   *
+   * Expired quotes are rejected whether or not the expire-quotes job has marked them yet.
+   *
+   * @returns the status the quote moves to
+   * @throws ExpiredQuoteError if the quote has expired
+   * @throws InvalidStatusTransitionError if the quote's status does not allow the action
+   */
+  private assertQuoteAction(
+    quoteRecord: { policy_number: string; status_code: string; expiration_date: string },
+    action: PolicyAction
+  ): PolicyStatus {
+    if (this.isQuoteExpired(quoteRecord, formatDateToYYYYMMDD(new Date()))) {
+      throw new ExpiredQuoteError(quoteRecord.policy_number);
+    }
+    return nextStatus(quoteRecord.status_code, action);
   }
 
   /**
@@ -654,6 +982,10 @@ export class QuoteService {
       maritalStatus?: string;
       licenseNumber?: string;
       licenseState?: string;
+      goodStudent?: boolean;
+      defensiveDrivingCourse?: boolean;
+      violations?: DriverViolation[]; // Omit to keep the driving record on file
+      accidents?: DriverAccident[];
     },
     address: {
       addressLine1: string;
@@ -684,6 +1016,7 @@ export class QuoteService {
       }
 
       const policyRecord = policyResult[0];
+      this.assertQuoteAction(policyRecord, 'UPDATE_QUOTE');
       const currentSnapshot = policyRecord.quote_snapshot as any;
 
       // Build updated snapshot with new primary driver and address
@@ -699,6 +1032,12 @@ export class QuoteService {
           maritalStatus: driver.maritalStatus || null,
           licenseNumber: driver.licenseNumber || null,
           licenseState: driver.licenseState || null,
+          goodStudent: driver.goodStudent ?? currentSnapshot.driver?.goodStudent ?? false,
+          defensiveDrivingCourse: driver.defensiveDrivingCourse ?? currentSnapshot.driver?.defensiveDrivingCourse ?? false,
+          ...this.toDrivingRecord({
+            violations: driver.violations ?? currentSnapshot.driver?.violations,
+            accidents: driver.accidents ?? currentSnapshot.driver?.accidents,
+          }),
         },
         address: {
           addressLine1: address.addressLine1,
@@ -714,19 +1053,27 @@ export class QuoteService {
       };
 
       // Recalculate premium (driver age and gender affect rates)
-      const newPremium = this.calculatePremiumProgressive({
-        driver,
+      const ratingInput: RatingInput = {
+        driver: {
+          ...driver,
+          goodStudent: updatedSnapshot.driver.goodStudent,
+          defensiveDrivingCourse: updatedSnapshot.driver.defensiveDrivingCourse,
+          violations: updatedSnapshot.driver.violations,
+          accidents: updatedSnapshot.driver.accidents,
+        },
         additionalDrivers: currentSnapshot.additionalDrivers || [],
         vehicles: currentSnapshot.vehicles || [],
         coverages: currentSnapshot.coverages || {},
-      });
+        location: address,
+        ...this.getDiscountInputs(currentSnapshot),
+      };
+      const rating = await this.rateQuote(ratingInput);
+      const newPremium = rating.subtotal;
 
       // Update premium in snapshot
-      updatedSnapshot.premium = {
-        total: newPremium,
-        monthly: Math.round(newPremium / 6 * 100) / 100,
-        sixMonth: newPremium,
-      };
+      updatedSnapshot.premium = this.toSnapshotPremium(rating);
+      updatedSnapshot.rating = rating;
+      updatedSnapshot.discounts = rating.discounts;
 
       // Update policy record
       await this.db
@@ -744,6 +1091,14 @@ export class QuoteService {
         })
         .where(eq(agreement.agreement_identifier, policyRecord.policy_identifier));
 
+      // Keep the calculation in the premium history
+      await this.premiumHistory.record(
+        policyRecord.policy_identifier,
+        ratingInput,
+        rating,
+        PremiumCalculationTrigger.PRIMARY_DRIVER_UPDATED
+      );
+
       this.logger.log('Primary driver updated successfully', { quoteNumber, newPremium });
 
       return {
@@ -778,6 +1133,8 @@ export class QuoteService {
       relationship?: string;
       licenseNumber?: string;
       licenseState?: string;
+      violations?: DriverViolation[];
+      accidents?: DriverAccident[];
     }>
   ): Promise<QuoteResult> {
     this.logger.log('Updating drivers for quote', { quoteNumber, driverCount: additionalDrivers.length });
@@ -801,6 +1158,7 @@ export class QuoteService {
       }
 
       const policyRecord = policyResult[0];
+      this.assertQuoteAction(policyRecord, 'UPDATE_QUOTE');
       const currentSnapshot = policyRecord.quote_snapshot as any;
 
       // Get primary driver email to filter them out
@@ -835,6 +1193,7 @@ export class QuoteService {
           relationship: d.relationship || null,
           licenseNumber: d.licenseNumber || null,
           licenseState: d.licenseState || null,
+          ...this.toDrivingRecord(d),
         })),
         meta: {
           ...currentSnapshot.meta,
@@ -843,19 +1202,21 @@ export class QuoteService {
       };
 
       // Recalculate premium with additional drivers
-      const newPremium = this.calculatePremiumProgressive({
+      const ratingInput: RatingInput = {
         driver: currentSnapshot.driver,
         additionalDrivers,
         vehicles: currentSnapshot.vehicles,
         coverages: currentSnapshot.coverages,
-      });
+        location: currentSnapshot.address,
+        ...this.getDiscountInputs(currentSnapshot),
+      };
+      const rating = await this.rateQuote(ratingInput);
+      const newPremium = rating.subtotal;
 
       // Update premium in snapshot
-      updatedSnapshot.premium = {
-        total: newPremium,
-        monthly: Math.round(newPremium / 6 * 100) / 100,
-        sixMonth: newPremium,
-      };
+      updatedSnapshot.premium = this.toSnapshotPremium(rating);
+      updatedSnapshot.rating = rating;
+      updatedSnapshot.discounts = rating.discounts;
 
       // Update policy record
       await this.db
@@ -873,6 +1234,14 @@ export class QuoteService {
         })
         .where(eq(agreement.agreement_identifier, policyRecord.policy_identifier));
 
+      // Keep the calculation in the premium history
+      await this.premiumHistory.record(
+        policyRecord.policy_identifier,
+        ratingInput,
+        rating,
+        PremiumCalculationTrigger.DRIVERS_UPDATED
+      );
+
       this.logger.log('Drivers updated successfully', { quoteNumber, newPremium });
 
       return {
@@ -926,6 +1295,7 @@ export class QuoteService {
       }
 
       const policyRecord = policyResult[0];
+      this.assertQuoteAction(policyRecord, 'UPDATE_QUOTE');
       const currentSnapshot = policyRecord.quote_snapshot as any;
 
       // Build updated snapshot with new vehicles
@@ -956,19 +1326,21 @@ export class QuoteService {
       };
 
       // Recalculate premium with vehicles (MAJOR FACTOR)
-      const newPremium = this.calculatePremiumProgressive({
+      const ratingInput: RatingInput = {
         driver: currentSnapshot.driver,
         additionalDrivers: currentSnapshot.additionalDrivers || [],
         vehicles,
         coverages: currentSnapshot.coverages,
-      });
+        location: currentSnapshot.address,
+        ...this.getDiscountInputs(currentSnapshot),
+      };
+      const rating = await this.rateQuote(ratingInput);
+      const newPremium = rating.subtotal;
 
       // Update premium in snapshot
-      updatedSnapshot.premium = {
-        total: newPremium,
-        monthly: Math.round(newPremium / 6 * 100) / 100,
-        sixMonth: newPremium,
-      };
+      updatedSnapshot.premium = this.toSnapshotPremium(rating);
+      updatedSnapshot.rating = rating;
+      updatedSnapshot.discounts = rating.discounts;
 
       // Update policy record
       await this.db
@@ -986,6 +1358,14 @@ export class QuoteService {
         })
         .where(eq(agreement.agreement_identifier, policyRecord.policy_identifier));
 
+      // Keep the calculation in the premium history
+      await this.premiumHistory.record(
+        policyRecord.policy_identifier,
+        ratingInput,
+        rating,
+        PremiumCalculationTrigger.VEHICLES_UPDATED
+      );
+
       this.logger.log('Vehicles updated successfully', { quoteNumber, newPremium });
 
       return {
@@ -1048,6 +1428,7 @@ export class QuoteService {
       }
 
       const policyRecord = policyResult[0];
+      const status = this.assertQuoteAction(policyRecord, 'FINALIZE_QUOTE');
       const currentSnapshot = policyRecord.quote_snapshot as any;
 
       // Build updated snapshot with new coverages
@@ -1081,39 +1462,48 @@ export class QuoteService {
         },
       };
 
+      // Liability limits must meet the garaging state's minimums
+      this.coverageRating.validateStateMinimums(updatedSnapshot.coverages, currentSnapshot.address?.state);
+
       // Recalculate final premium with all coverages
       // IMPORTANT: Use updatedSnapshot.coverages, not the coverages parameter
       // because the parameter might not include existing vehicle coverages or preserved boolean values
-      const newPremium = this.calculatePremiumProgressive({
+      const ratingInput: RatingInput = {
         driver: currentSnapshot.driver,
         additionalDrivers: currentSnapshot.additionalDrivers || [],
         vehicles: currentSnapshot.vehicles || [],
         coverages: updatedSnapshot.coverages,
         vehicleCoverages: updatedSnapshot.coverages.vehicleCoverages,
         vehicleAddOns: updatedSnapshot.vehicleAddOns,
-      });
+        location: currentSnapshot.address,
+        ...this.getDiscountInputs(currentSnapshot),
+      };
+      const rating = await this.rateQuote(ratingInput);
+      const newPremium = rating.subtotal;
 
       // Update premium in snapshot
-      updatedSnapshot.premium = {
-        total: newPremium,
-        monthly: Math.round(newPremium / 6 * 100) / 100,
-        sixMonth: newPremium,
-      };
+      updatedSnapshot.premium = this.toSnapshotPremium(rating);
+      updatedSnapshot.rating = rating;
+      updatedSnapshot.discounts = rating.discounts;
 
-      // Calculate expiration date (30 days from now)
-      const expirationDate = new Date();
-      expirationDate.setDate(expirationDate.getDate() + 30);
+      // Finalizing re-prices the quote, so it is valid for another QUOTE_VALIDITY_DAYS
+      const expirationDate = this.calculateQuoteExpiration();
 
       // Update policy record - CHANGE STATUS TO QUOTED
-      await this.db
-        .update(policy)
-        .set({
-          quote_snapshot: updatedSnapshot,
-          status_code: 'QUOTED',  // ← Status change from INCOMPLETE to QUOTED
-          expiration_date: formatDateToYYYYMMDD(expirationDate),
-          coverage_start_date: coverages.startDate || null,
-        })
-        .where(eq(policy.policy_number, quoteNumber));
+      const finalized = {
+        quote_snapshot: updatedSnapshot,
+        expiration_date: formatDateToYYYYMMDD(expirationDate),
+        coverage_start_date: coverages.startDate || null,
+      };
+      if (status !== policyRecord.status_code) {
+        await this.transitionStatus(policyRecord, 'FINALIZE_QUOTE', 'Coverage selected and quote priced', finalized);
+      } else {
+        // Re-pricing a QUOTED quote keeps its status
+        await this.db
+          .update(policy)
+          .set(finalized)
+          .where(eq(policy.policy_number, quoteNumber));
+      }
 
       // Update agreement premium
       await this.db
@@ -1123,6 +1513,14 @@ export class QuoteService {
         })
         .where(eq(agreement.agreement_identifier, policyRecord.policy_identifier));
 
+      // Keep the calculation in the premium history
+      await this.premiumHistory.record(
+        policyRecord.policy_identifier,
+        ratingInput,
+        rating,
+        PremiumCalculationTrigger.COVERAGE_UPDATED
+      );
+
       this.logger.log('Coverage updated and quote finalized', { quoteNumber, newPremium, status: 'QUOTED' });
 
       return {
@@ -1131,6 +1529,7 @@ export class QuoteService {
         premium: newPremium,
         createdAt: new Date(policyRecord.effective_date),
         expiresAt: expirationDate,
+        rating,
       };
     } catch (error) {
       this.logger.error('Failed to update coverage', error);
@@ -1139,242 +1538,198 @@ export class QuoteService {
   }
 
   /**
-   * Calculate premium progressively (supports incomplete data)
+   * Update billing and document delivery choices and re-rate the quote
    *
-   * This enhanced version can calculate premium at any stage of the quote flow.
+   * Paying in full, electronic delivery and holding another policy with us
+   * each earn a discount.
    */
-  private calculatePremiumProgressive(data: {
-    driver: any;
-    additionalDrivers?: any[];
-    vehicles?: any[];
-    coverages?: any;
-    vehicleCoverages?: Array<{ vehicle_index: number; collision_deductible: number; comprehensive_deductible: number }>;
-    vehicleAddOns?: Array<{ vehicle_index: number; rental_reimbursement?: boolean; additional_equipment_amount?: number; original_parts_replacement?: boolean }>;
-  }): number {
-    // Base premium starts at $1000
-    let basePremium = 1000;
-
-    // Driver age factor (primary driver)
-    const birthDate = new Date(data.driver.birthDate);
-    const age = Math.floor((Date.now() - birthDate.getTime()) / (365.25 * 24 * 60 * 60 * 1000));
-    let driverFactor = 1.0;
-
-    if (age < 25) {
-      driverFactor = 1.8; // Young drivers higher risk
-    } else if (age >= 65) {
-      driverFactor = 1.2; // Senior drivers moderate risk
-    } else {
-      driverFactor = 1.0; // 25-64 baseline
-    }
+  async updateQuotePreferences(quoteNumber: string, preferences: QuotePreferences): Promise<QuoteResult> {
+    this.logger.log('Updating quote preferences', { quoteNumber });
 
-    // Additional drivers factor
-    let additionalDriversFactor = 1.0;
-    if (data.additionalDrivers && data.additionalDrivers.length > 0) {
-      // Each additional driver adds 15% to premium
-      additionalDriversFactor = 1 + (data.additionalDrivers.length * 0.15);
-    }
+    const [policyRecord] = await this.db
+      .select()
+      .from(policy)
+      .where(eq(policy.policy_number, quoteNumber))
+      .limit(1);
 
-    // Calculate per-vehicle premiums
-    let totalVehiclePremium = 0;
-    if (data.vehicles && data.vehicles.length > 0) {
-      data.vehicles.forEach((vehicle: any, index: number) => {
-        const currentYear = new Date().getFullYear();
-        const vehicleAge = currentYear - vehicle.year;
-
-        // Base vehicle factor
-        let vehicleFactor = 1.0;
-        if (vehicleAge <= 3) {
-          vehicleFactor = 1.3; // New cars cost more to repair
-        } else if (vehicleAge <= 7) {
-          vehicleFactor = 1.0; // Mid-age baseline
-        } else {
-          vehicleFactor = 0.9; // Older cars less valuable
-        }
+    if (!policyRecord) {
+      throw new NotFoundException(`Quote ${quoteNumber} not found`);
+    }
+    this.assertQuoteAction(policyRecord, 'UPDATE_QUOTE');
+
+    const currentSnapshot = policyRecord.quote_snapshot as any;
+    const existingPreferences = currentSnapshot.preferences || {};
+    const updatedSnapshot = {
+      ...currentSnapshot,
+      preferences: {
+        paymentPlan: preferences.paymentPlan !== undefined ? preferences.paymentPlan : existingPreferences.paymentPlan || null,
+        documentDelivery: preferences.documentDelivery !== undefined ? preferences.documentDelivery : existingPreferences.documentDelivery || null,
+        hasOtherPolicies: preferences.hasOtherPolicies !== undefined ? preferences.hasOtherPolicies : !!existingPreferences.hasOtherPolicies,
+      },
+      meta: {
+        ...currentSnapshot.meta,
+        updatedAt: new Date().toISOString(),
+      },
+    };
 
-        // Get per-vehicle deductibles if provided, otherwise use global defaults
-        let collisionDeductible = data.coverages?.collisionDeductible || 500;
-        let comprehensiveDeductible = data.coverages?.comprehensiveDeductible || 500;
+    const ratingInput: RatingInput = {
+      driver: currentSnapshot.driver,
+      additionalDrivers: currentSnapshot.additionalDrivers || [],
+      vehicles: currentSnapshot.vehicles || [],
+      coverages: currentSnapshot.coverages || undefined,
+      vehicleCoverages: currentSnapshot.coverages?.vehicleCoverages,
+      vehicleAddOns: currentSnapshot.vehicleAddOns,
+      location: currentSnapshot.address,
+      ...this.getDiscountInputs(updatedSnapshot),
+    };
+    const rating = await this.rateQuote(ratingInput);
+    const newPremium = rating.subtotal;
 
-        if (data.vehicleCoverages && data.vehicleCoverages[index]) {
-          collisionDeductible = data.vehicleCoverages[index].collision_deductible;
-          comprehensiveDeductible = data.vehicleCoverages[index].comprehensive_deductible;
-        }
+    updatedSnapshot.premium = this.toSnapshotPremium(rating);
+    updatedSnapshot.rating = rating;
+    updatedSnapshot.discounts = rating.discounts;
 
-        // Collision deductible factor for this vehicle
-        let collisionFactor = 0;
-        if (data.coverages?.collision || data.coverages?.hasCollision) {
-          if (collisionDeductible === 250) collisionFactor = 0.35;       // Low deductible = higher premium
-          else if (collisionDeductible === 500) collisionFactor = 0.30;  // Standard deductible
-          else if (collisionDeductible === 750) collisionFactor = 0.275; // Mid-range deductible
-          else if (collisionDeductible === 1000) collisionFactor = 0.25; // High deductible = lower premium
-          else if (collisionDeductible === 2500) collisionFactor = 0.20; // Very high deductible = much lower premium
-          else collisionFactor = 0.30; // Default to standard
-        }
+    await this.db
+      .update(policy)
+      .set({
+        quote_snapshot: updatedSnapshot,
+      })
+      .where(eq(policy.policy_number, quoteNumber));
 
-        // Comprehensive deductible factor for this vehicle
-        let comprehensiveFactor = 0;
-        if (data.coverages?.comprehensive || data.coverages?.hasComprehensive) {
-          if (comprehensiveDeductible === 250) comprehensiveFactor = 0.25;       // Low deductible = higher premium
-          else if (comprehensiveDeductible === 500) comprehensiveFactor = 0.20;  // Standard deductible
-          else if (comprehensiveDeductible === 750) comprehensiveFactor = 0.175; // Mid-range deductible
-          else if (comprehensiveDeductible === 1000) comprehensiveFactor = 0.15; // High deductible = lower premium
-          else if (comprehensiveDeductible === 2500) comprehensiveFactor = 0.10; // Very high deductible = much lower premium
-          else comprehensiveFactor = 0.20; // Default to standard
-        }
+    await this.db
+      .update(agreement)
+      .set({
+        premium_amount: newPremium.toString(),
+      })
+      .where(eq(agreement.agreement_identifier, policyRecord.policy_identifier));
 
-        // Per-vehicle add-ons factor
-        let vehicleAddOnsFactor = 0;
-
-        // Check for per-vehicle add-ons from vehicleAddOns array
-        if (data.vehicleAddOns && data.vehicleAddOns[index]) {
-          const addOns = data.vehicleAddOns[index];
-
-          // Rental Reimbursement (per vehicle)
-          if (addOns.rental_reimbursement) {
-            vehicleAddOnsFactor += 0.04; // +4% per vehicle with rental coverage
-          }
-
-          // Additional Equipment Coverage (amount-based)
-          if (addOns.additional_equipment_amount) {
-            const amount = addOns.additional_equipment_amount;
-            if (amount === 1000) vehicleAddOnsFactor += 0.02;
-            else if (amount === 5000) vehicleAddOnsFactor += 0.05;
-            else vehicleAddOnsFactor += 0.03; // Default for any amount
-          }
-
-          // Original Parts Replacement Coverage
-          if (addOns.original_parts_replacement) {
-            vehicleAddOnsFactor += 0.06; // +6% for OEM parts guarantee
-          }
-        }
+    await this.premiumHistory.record(
+      policyRecord.policy_identifier,
+      ratingInput,
+      rating,
+      PremiumCalculationTrigger.PREFERENCES_UPDATED
+    );
 
-        // Calculate this vehicle's contribution to premium
-        const vehicleCoverageFactor = 1.0 + collisionFactor + comprehensiveFactor + vehicleAddOnsFactor;
-        const vehiclePremium = basePremium * vehicleFactor * vehicleCoverageFactor;
-        totalVehiclePremium += vehiclePremium;
-
-        this.logger.debug(`Vehicle ${index + 1} premium calculation`, {
-          vehicleYear: vehicle.year,
-          vehicleAge,
-          vehicleFactor,
-          collisionDeductible,
-          comprehensiveDeductible,
-          collisionFactor,
-          vehicleAddOnsFactor,
-          comprehensiveFactor,
-          vehicleCoverageFactor,
-          vehiclePremium: Math.round(vehiclePremium),
-        });
-      });
+    this.logger.log('Quote preferences updated', { quoteNumber, newPremium });
 
-      // Apply multi-car discount to total vehicle premium
-      if (data.vehicles.length > 1) {
-        const multiCarDiscount = 0.9 - ((data.vehicles.length - 1) * 0.05);
-        const discountMultiplier = Math.max(multiCarDiscount, 0.75); // Cap at 25% discount
-        totalVehiclePremium *= discountMultiplier;
-        this.logger.debug(`Multi-car discount applied: ${discountMultiplier}`);
-      }
-    }
+    return {
+      quoteId: quoteNumber,
+      quoteNumber,
+      premium: newPremium,
+      createdAt: new Date(policyRecord.effective_date),
+      expiresAt: this.calculateQuoteExpiration(),
+      rating,
+    };
+  }
 
-    // Liability coverage factor (applies to entire policy, not per-vehicle)
-    let liabilityCoverageFactor = 1.0;
-    if (data.coverages) {
-      // Bodily Injury Liability - Higher limits cost more
-      const biLimit = data.coverages.bodilyInjuryLimit || data.coverages.bodilyInjuryLimit;
-      if (biLimit === '25000/50000' || biLimit === '25/50') liabilityCoverageFactor += 0.05;       // Minimum
-      else if (biLimit === '50000/100000' || biLimit === '50/100') liabilityCoverageFactor += 0.10;  // Standard
-      else if (biLimit === '100000/300000' || biLimit === '100/300') liabilityCoverageFactor += 0.15; // Recommended (baseline)
-      else if (biLimit === '300000/500000' || biLimit === '300/500') liabilityCoverageFactor += 0.25; // High coverage
-      else if (biLimit === '500000/1000000' || biLimit === '500/1000') liabilityCoverageFactor += 0.35; // Premium coverage
-      else liabilityCoverageFactor += 0.15; // Default to recommended
-
-      // Property Damage Liability - Higher limits cost more
-      const pdLimit = data.coverages.propertyDamageLimit || data.coverages.propertyDamageLimit;
-      if (pdLimit === '25000') liabilityCoverageFactor += 0.03;       // Minimum
-      else if (pdLimit === '50000') liabilityCoverageFactor += 0.05;  // Standard (baseline)
-      else if (pdLimit === '75000') liabilityCoverageFactor += 0.065; // Above standard
-      else if (pdLimit === '100000') liabilityCoverageFactor += 0.08; // High coverage
-      else liabilityCoverageFactor += 0.05; // Default to standard
-
-      // Medical Payments - Higher limits cost more
-      const medicalPaymentsLimit = data.coverages.medicalPaymentsLimit;
-      if (medicalPaymentsLimit) {
-        if (medicalPaymentsLimit === 1000) liabilityCoverageFactor += 0.02;        // $1,000
-        else if (medicalPaymentsLimit === 2000) liabilityCoverageFactor += 0.03;   // $2,000
-        else if (medicalPaymentsLimit === 3000) liabilityCoverageFactor += 0.035;  // $3,000
-        else if (medicalPaymentsLimit === 4000) liabilityCoverageFactor += 0.04;   // $4,000
-        else if (medicalPaymentsLimit === 5000) liabilityCoverageFactor += 0.05;   // $5,000 (baseline)
-        else if (medicalPaymentsLimit === 6000) liabilityCoverageFactor += 0.055;  // $6,000
-        else if (medicalPaymentsLimit === 7000) liabilityCoverageFactor += 0.06;   // $7,000
-        else if (medicalPaymentsLimit === 8000) liabilityCoverageFactor += 0.07;   // $8,000
-        else if (medicalPaymentsLimit === 9000) liabilityCoverageFactor += 0.075;  // $9,000
-        else if (medicalPaymentsLimit === 10000) liabilityCoverageFactor += 0.08;  // $10,000
-        else liabilityCoverageFactor += 0.05; // Default to $5,000 baseline
-      }
+  /**
+   * Re-rate a stored policy snapshot (e.g. with a mid-term change applied)
+   *
+   * Rated under the rate book in effect at the coverage start date; driver
+   * ages and incident lookbacks are taken as of asOfDate.
+   *
+   * @param snapshot - quote_snapshot shape (driver, additionalDrivers, vehicles, coverages, address, preferences)
+   * @param asOfDate - YYYY-MM-DD (default today)
+   */
+  async rateSnapshot(snapshot: any, asOfDate?: string): Promise<{
+    ratingInput: RatingInput;
+    rating: RatingOutput;
+    premium: QuotePremium;
+  }> {
+    const ratingInput: RatingInput = {
+      driver: snapshot.driver,
+      additionalDrivers: snapshot.additionalDrivers || [],
+      vehicles: snapshot.vehicles || [],
+      coverages: snapshot.coverages || undefined,
+      vehicleCoverages: snapshot.coverages?.vehicleCoverages,
+      vehicleAddOns: snapshot.vehicleAddOns,
+      location: snapshot.address,
+      asOfDate,
+      ...this.getDiscountInputs(snapshot),
+    };
+    const rating = await this.rateQuote(ratingInput);
 
-      // Uninsured Motorist Bodily Injury (UMBI) - Protects from uninsured drivers
-      const umbiLimit = data.coverages.uninsuredMotoristBodilyInjury || data.coverages.umbiLimit;
-      if (umbiLimit) {
-        if (umbiLimit === '25000/50000' || umbiLimit === '25/50') liabilityCoverageFactor += 0.05;       // Minimum
-        else if (umbiLimit === '50000/100000' || umbiLimit === '50/100') liabilityCoverageFactor += 0.08;  // Standard
-        else if (umbiLimit === '100000/300000' || umbiLimit === '100/300') liabilityCoverageFactor += 0.10; // Recommended (baseline)
-        else if (umbiLimit === '300000/500000' || umbiLimit === '300/500') liabilityCoverageFactor += 0.15; // High coverage
-        else if (umbiLimit === '500000/1000000' || umbiLimit === '500/1000') liabilityCoverageFactor += 0.20; // Premium coverage
-        else liabilityCoverageFactor += 0.10; // Default to recommended
-      }
+    return { ratingInput, rating, premium: this.toSnapshotPremium(rating) };
+  }
 
-      // Underinsured Motorist Bodily Injury (UIMBI) - Protects when at-fault driver has insufficient coverage
-      const uimbiLimit = data.coverages.underinsuredMotoristBodilyInjury || data.coverages.uimbiLimit;
-      if (uimbiLimit) {
-        if (uimbiLimit === '25000/50000' || uimbiLimit === '25/50') liabilityCoverageFactor += 0.04;       // Minimum
-        else if (uimbiLimit === '50000/100000' || uimbiLimit === '50/100') liabilityCoverageFactor += 0.07;  // Standard
-        else if (uimbiLimit === '100000/300000' || uimbiLimit === '100/300') liabilityCoverageFactor += 0.09; // Recommended (baseline)
-        else if (uimbiLimit === '300000/500000' || uimbiLimit === '300/500') liabilityCoverageFactor += 0.13; // High coverage
-        else if (uimbiLimit === '500000/1000000' || uimbiLimit === '500/1000') liabilityCoverageFactor += 0.18; // Premium coverage
-        else liabilityCoverageFactor += 0.09; // Default to recommended
-      }
+  /**
+   * Rate a quote through the rating engine (supports incomplete data)
+   *
+   * Can be called at any stage of the quote flow. The quoted premium is the
+   * rating subtotal (after discounts and surcharges); taxes and fees are
+   * itemized in the returned breakdown.
+   */
+  private rateQuote(data: RatingInput): Promise<RatingOutput> {
+    return this.ratingEngine.calculatePremium({
+      ...data,
+      effectiveDate: this.getRatingDate(data.coverages),
+    });
+  }
 
-      // Roadside Assistance - Always included (no additional cost in this version)
-      // Keeping this for future pricing flexibility
-      if (data.coverages.roadsideAssistance !== false) {
-        // Currently included at no extra charge
-        // liabilityCoverageFactor += 0.0; // No premium increase
-      }
+  /**
+   * Snapshot premium from a rating: subtotal, itemized taxes and fees, and the taxed total
+   */
+  private toSnapshotPremium(rating: RatingOutput): QuotePremium {
+    return {
+      subtotal: rating.subtotal,
+      taxes: rating.taxes,
+      fees: rating.fees,
+      total: rating.totalPremium,
+      monthly: Math.round(rating.totalPremium / 6 * 100) / 100,
+      sixMonth: rating.totalPremium,
+    };
+  }
 
-      // Note: Rental Reimbursement is now per-vehicle (see vehicleAddOnsFactor above)
-      // Note: Additional Equipment Coverage is now per-vehicle (see vehicleAddOnsFactor above)
-      // Note: Original Parts Replacement is now per-vehicle (see vehicleAddOnsFactor above)
-    }
+  /**
+   * Rating date for a quote: the coverage start date once chosen, otherwise today
+   */
+  private getRatingDate(coverages?: { startDate?: string | null } | null): string {
+    return coverages?.startDate || formatDateToYYYYMMDD(new Date());
+  }
 
-    // Calculate total premium: per-vehicle premium + driver factors + liability coverage
-    const totalPremium = Math.round(
-      totalVehiclePremium * driverFactor * additionalDriversFactor * liabilityCoverageFactor
-    );
+  /**
+   * Driving record as stored on a snapshot driver (incident dates as YYYY-MM-DD)
+   */
+  private toDrivingRecord(driver: { violations?: DriverViolation[]; accidents?: DriverAccident[] }): {
+    violations: Array<{ type: string; date: string }>;
+    accidents: Array<{ type: string; atFault: boolean; date: string }>;
+  } {
+    const toDate = (date: Date | string) =>
+      date instanceof Date ? date.toISOString().slice(0, 10) : String(date).slice(0, 10);
 
-    this.logger.debug('Progressive premium calculated', {
-      basePremium,
-      totalVehiclePremium: Math.round(totalVehiclePremium),
-      driverFactor,
-      additionalDriversFactor,
-      liabilityCoverageFactor,
-      totalPremium,
-    });
+    return {
+      violations: (driver.violations || []).map(v => ({ type: v.type, date: toDate(v.date) })),
+      accidents: (driver.accidents || []).map(a => ({ type: a.type, atFault: !!a.atFault, date: toDate(a.date) })),
+    };
+  }
 
-    return totalPremium;
+  /**
+   * Discount eligibility flags from the quote's billing and delivery choices
+   */
+  private getDiscountInputs(snapshot: any): Pick<RatingInput, 'paperlessDiscount' | 'multiPolicyDiscount' | 'payInFullDiscount'> {
+    const preferences: QuotePreferences = snapshot?.preferences || {};
+    return {
+      paperlessDiscount: preferences.documentDelivery === 'ELECTRONIC',
+      multiPolicyDiscount: !!preferences.hasOtherPolicies,
+      // Billed in full unless another plan was chosen
+      payInFullDiscount: (preferences.paymentPlan ?? DEFAULT_PAYMENT_PLAN) === 'PAY_IN_FULL',
+    };
   }
 
   /**
    * T090: Bind Quote to Policy
    * Converts a quote (status: QUOTED) to a policy with payment processing
-   * Status flow: QUOTED → BINDING → BOUND
+   * Status flow: QUOTED → BINDING → BOUND (→ IN_FORCE when coverage starts the same day)
+   *
+   * Payment is by gateway token only; card and bank account numbers never
+   * reach this service.
+   *
+   * Everything written after the charge is written in one transaction; if it
+   * fails, the charge is refunded and the quote goes back to QUOTED.
    */
   async bindQuote(quoteNumber: string, paymentData: {
     paymentMethod: 'credit_card' | 'ach';
-    cardNumber?: string;
-    cardExpiry?: string;
-    cardCvv?: string;
-    routingNumber?: string;
-    accountNumber?: string;
+    paymentToken: string; // From the payment gateway's POST /v1/tokens (tokenized in the browser)
     accountType?: 'checking' | 'savings';
   }) {
     this.logger.log(`Binding quote ${quoteNumber} to policy`);
@@ -1392,81 +1747,130 @@ export class QuoteService {
 
     const quote = quoteResult[0];
 
-    // 2. Validate quote status
-    if (quote.status_code !== 'QUOTED') {
-      throw new BadRequestException(
-        `Quote ${quoteNumber} has status ${quote.status_code}. Only QUOTED policies can be bound.`
-      );
-    }
+    // 2. Validate quote status (an expired quote must be re-quoted at current rates)
+    this.assertQuoteAction(quote, 'BIND');
+
+    // Liability limits must still meet the garaging state's minimums
+    const quoteSnapshot = quote.quote_snapshot as any;
+    this.coverageRating.validateStateMinimums(quoteSnapshot?.coverages, quoteSnapshot?.address?.state);
 
     // 3. Update status to BINDING (payment processing)
-    await this.db
-      .update(policy)
-      .set({
-        status_code: 'BINDING',
-        updated_at: new Date(),
-      })
-      .where(eq(policy.policy_identifier, quote.policy_identifier));
+    await this.transitionStatus(quote, 'BIND', 'Binding started; charging the first payment');
+    const binding = { ...quote, status_code: 'BINDING' };
 
-    // 4. Process payment (mock Stripe/ACH)
-    const paymentResult = await this.processPayment(
-      quote.policy_identifier,
-      paymentData,
-      quote.quote_snapshot as any
-    );
+    // 4. Process payment through the payment gateway for the first installment of the plan
+    const schedule = this.buildBillingSchedule(quoteSnapshot);
+    const charge = await this.processPayment(paymentData, schedule[0]);
 
-    if (!paymentResult.success) {
+    if (!charge.success) {
       // Payment failed - revert to QUOTED
-      await this.db
-        .update(policy)
-        .set({
-          status_code: 'QUOTED',
-          updated_at: new Date(),
-        })
-        .where(eq(policy.policy_identifier, quote.policy_identifier));
+      await this.transitionStatus(binding, 'FAIL_BINDING', `Payment declined: ${charge.message}`);
 
-      throw new BadRequestException(paymentResult.errorMessage);
+      throw new BadRequestException(charge.message);
     }
 
-    // 5. Update status to BOUND (payment successful)
-    await this.db
-      .update(policy)
-      .set({
-        status_code: 'BOUND',
-        updated_at: new Date(),
+    // 5. Update status to BOUND (payment successful), freezing the snapshot
+    // without any card number typed into a free-text quote field. The policy
+    // dates become the first term: from the coverage start date for the rated term
+    const boundSnapshot = redactCardNumbersDeep(quoteSnapshot);
+    const termStart = quoteSnapshot?.coverages?.startDate || formatDateToYYYYMMDD(new Date());
+    const termEnd = addMonths(termStart, DEFAULT_POLICY_TERM_MONTHS);
+
+    const { paymentResult, documents } = await this.db
+      .transaction(async tx => {
+        const recorded = await this.recordPayment(quote.policy_identifier, paymentData, schedule[0], charge, tx);
+
+        // Remaining installments are collected later with the same payment token
+        await this.scheduleInstallments(quote.policy_identifier, paymentData, recorded, schedule.slice(1), tx);
+
+        // 6. The transition is logged as a policy event (T092)
+        await this.transitionStatus(
+          binding,
+          'COMPLETE_BINDING',
+          recorded.paymentStatus === 'PROCESSING'
+            ? 'Policy bound with payment (ACH debit pending settlement)'
+            : 'Policy bound with payment',
+          {
+            quote_snapshot: boundSnapshot,
+            version_number: 1,
+            effective_date: termStart,
+            expiration_date: termEnd,
+          },
+          tx
+        );
+
+        // The bound snapshot is version 1, in force from the effective date
+        await this.policyVersions.recordVersion({
+          policyId: quote.policy_identifier,
+          versionNumber: 1,
+          source: 'BIND',
+          effectiveDate: termStart,
+          snapshot: boundSnapshot,
+        }, tx);
+
+        // 7. Generate policy documents (T094)
+        return {
+          paymentResult: recorded,
+          documents: await this.generatePolicyDocuments(quote.policy_identifier, quoteNumber, tx),
+        };
       })
-      .where(eq(policy.policy_identifier, quote.policy_identifier));
-
-    // 6. Log policy events (T092)
-    await this.logPolicyEvent(
-      quote.policy_identifier,
-      'QUOTED',
-      'BOUND',
-      'Policy bound with payment'
-    );
-
-    // 7. Generate policy documents (T094)
-    const documents = await this.generatePolicyDocuments(quote.policy_identifier, quoteNumber);
+      .catch(async error => {
+        // The quote was not bound: give the money back
+        await this.refundBindingCharge(binding, charge, schedule[0].amount);
+        throw error;
+      });
 
     // 8. Send confirmation email (T093)
-    await this.sendBindingConfirmationEmail(quote, paymentResult);
+    await this.sendBindingConfirmationEmail({ ...quote, effective_date: termStart, expiration_date: termEnd }, paymentResult);
 
     this.logger.log(`Quote ${quoteNumber} bound to policy successfully`);
 
+    // 9. Coverage starting today is in force right away; later start dates
+    // are activated by the activate-policies job (which also retries a failure here)
+    let status: 'BOUND' | 'IN_FORCE' = 'BOUND';
+    if (termStart <= dateInTimeZone(new Date(), policyTimeZone(quoteSnapshot))) {
+      try {
+        await this.activatePolicy(quote.policy_identifier, 'BIND');
+        status = 'IN_FORCE';
+      } catch (error) {
+        this.logger.error(`Policy ${quoteNumber} was bound but not activated`, error);
+      }
+    }
+
     return {
       policyId: quote.policy_identifier,
       policyNumber: quoteNumber,
-      status: 'BOUND',
+      status,
+      effectiveDate: termStart,
+      expirationDate: termEnd,
       payment: paymentResult,
+      paymentPlan: quoteSnapshot?.preferences?.paymentPlan || DEFAULT_PAYMENT_PLAN,
+      billingSchedule: schedule,
       documents,
     };
   }
 
   /**
    * T090: Activate Policy
-   * Transitions policy from BOUND → IN_FORCE when effective date is reached
+   * Transitions policy from BOUND → IN_FORCE once its effective date is reached
+   * in the policy's time zone, issues the term's ID cards and sends the
+   * activation notice.
+   *
+   * The activation is claimed in the policy_activation run log before the
+   * policy is touched, and each completed step is recorded there: activating
+   * again repeats nothing, and a failed activation resumes at the failed step.
+   *
+   * @param trigger - What started the activation (run log only)
+   * @param asOf - When the activation runs (default now)
+   * @throws NotFoundException if the policy doesn't exist
+   * @throws InvalidStatusTransitionError if the policy is not BOUND
+   * @throws BusinessRuleError if the effective date has not been reached, or another run is activating the policy
    */
-  async activatePolicy(policyId: string) {
+  async activatePolicy(
+    policyId: string,
+    trigger: 'SCHEDULED' | 'BIND' | 'MANUAL' = 'MANUAL',
+    asOf: Date = new Date()
+  ): Promise<PolicyActivationResult> {
     this.logger.log(`Activating policy ${policyId}`);
 
     // 1. Get the policy
@@ -1482,234 +1886,459 @@ export class QuoteService {
 
     const policyRecord = policyResult[0];
 
-    // 2. Validate status (T091)
-    if (policyRecord.status_code !== 'BOUND') {
-      throw new BadRequestException(
-        `Policy has status ${policyRecord.status_code}. Only BOUND policies can be activated.`
-      );
+    // 2. Claim the activation (T091: only BOUND policies on or after their effective date)
+    const [existing] = await this.db
+      .select()
+      .from(policyActivation)
+      .where(and(
+        eq(policyActivation.policy_id, policyId),
+        eq(policyActivation.effective_date, policyRecord.effective_date),
+      ))
+      .limit(1);
+
+    if (existing?.status === 'ACTIVATED') {
+      return this.toActivationResult(policyRecord, existing, true);
     }
 
-    // 3. Update status to IN_FORCE
-    await this.db
-      .update(policy)
-      .set({
-        status_code: 'IN_FORCE',
-        updated_at: new Date(),
-      })
-      .where(eq(policy.policy_identifier, policyId));
-
-    // 4. Log policy event (T092)
-    await this.logPolicyEvent(
-      policyId,
-      'BOUND',
-      'IN_FORCE',
-      'Policy activated - coverage in force'
-    );
+    const claimed = existing
+      ? await this.resumeActivation(existing, trigger)
+      : await this.startActivation(policyRecord, trigger, asOf);
 
-    // 5. Send activation email (T093)
-    await this.sendActivationEmail(policyRecord);
+    if (!claimed) {
+      throw new BusinessRuleError(`Policy ${policyRecord.policy_number} is already being activated`, 'ACTIVATION_IN_PROGRESS');
+    }
 
-    this.logger.log(`Policy ${policyId} activated successfully`);
+    // 3-5. Move to IN_FORCE and log the policy event (T092), issue ID cards, send the notice (T093)
+    let activation: ActivationRecord;
+    try {
+      activation = await this.completeActivation(policyRecord, claimed);
+    } catch (error) {
+      await this.db
+        .update(policyActivation)
+        .set({
+          status: 'FAILED',
+          failure_reason: (error instanceof Error ? error.message : String(error)).slice(0, 500),
+          updated_at: new Date(),
+        })
+        .where(eq(policyActivation.activation_id, claimed.activation_id));
+      throw error;
+    }
 
-    return {
-      policyId,
-      status: 'IN_FORCE',
-      effectiveDate: policyRecord.effective_date,
-      expirationDate: policyRecord.expiration_date,
-    };
+    this.logger.log(`Policy ${policyId} activated successfully`, { trigger, timeZone: activation.time_zone });
+
+    return this.toActivationResult(policyRecord, activation, false);
   }
 
   /**
-   * T090: Mock Payment Processing (inline)
-   * Simulates Stripe test cards and ACH validation
+   * Activate BOUND policies whose effective date has arrived in their time
+   * zone, and resume activations that failed on an earlier run
+   * (activate-policies job, run hourly so each zone is reached soon after
+   * midnight)
+   *
+   * @param asOf - run time (default now)
    */
-  private async processPayment(
-    policyId: string,
-    paymentData: any,
-    quoteSnapshot: any
-  ): Promise<{
-    success: boolean;
-    paymentId?: string;
-    paymentNumber?: string;
-    lastFourDigits?: string;
-    cardBrand?: string;
-    errorMessage?: string;
-  }> {
-    this.logger.debug('Processing mock payment', { policyId, paymentMethod: paymentData.paymentMethod });
-
-    // Mock Stripe test cards
-    if (paymentData.paymentMethod === 'credit_card') {
-      const cardNumber = paymentData.cardNumber?.replace(/\s/g, '');
-
-      // Enhanced debugging
-      this.logger.debug('Card validation debug', {
-        receivedCardNumber: paymentData.cardNumber,
-        cleanedCardNumber: cardNumber,
-        cardNumberType: typeof cardNumber,
-        cardNumberLength: cardNumber?.length,
-      });
+  async activateDuePolicies(asOf: Date = new Date()): Promise<PolicyActivationRunResult> {
+    const result: PolicyActivationRunResult = { asOf: asOf.toISOString(), activated: [], skipped: [], failed: [] };
 
-      // Luhn algorithm validation
-      if (!this.validateLuhn(cardNumber)) {
-        this.logger.warn('Card validation failed', {
-          cardNumber: cardNumber,
-          reason: 'Luhn check failed',
-        });
-        return { success: false, errorMessage: 'Invalid card number (failed Luhn check)' };
-      }
+    // Policy time zones are all behind UTC, so nothing is due after the UTC date
+    const bound = await this.db
+      .select()
+      .from(policy)
+      .where(and(
+        inArray(policy.status_code, statusesAllowing('ACTIVATE')),
+        lte(policy.effective_date, asOf.toISOString().slice(0, 10)),
+      ));
 
-      // Test card patterns (Stripe test mode)
-      if (cardNumber === '4000000000000002') {
-        return { success: false, errorMessage: 'Card declined - insufficient funds' };
+    const failedActivations = await this.db
+      .select()
+      .from(policyActivation)
+      .innerJoin(policy, eq(policyActivation.policy_id, policy.policy_identifier))
+      .where(and(
+        eq(policyActivation.status, 'FAILED'),
+        // A policy cancelled since its failed activation is no longer due
+        inArray(policy.status_code, statusesAllowing('ACTIVATE')),
+      ));
+
+    const due = new Map<string, PolicyRecord>();
+    for (const policyRecord of bound) {
+      if (policyRecord.effective_date <= dateInTimeZone(asOf, policyTimeZone(policyRecord.quote_snapshot))) {
+        due.set(policyRecord.policy_identifier, policyRecord);
       }
+    }
+    for (const { policy: policyRecord } of failedActivations) {
+      due.set(policyRecord.policy_identifier, policyRecord);
+    }
 
-      if (cardNumber === '4000000000009995') {
-        return { success: false, errorMessage: 'Card declined - do not honor' };
+    for (const policyRecord of due.values()) {
+      try {
+        const activation = await this.activatePolicy(policyRecord.policy_identifier, 'SCHEDULED', asOf);
+        if (!activation.alreadyActivated) {
+          result.activated.push(policyRecord.policy_number);
+        }
+      } catch (error) {
+        if (error instanceof BusinessRuleError && error.ruleCode === 'ACTIVATION_IN_PROGRESS') {
+          result.skipped.push(policyRecord.policy_number);
+          continue;
+        }
+        this.logger.error(`Failed to activate policy ${policyRecord.policy_number}`, error);
+        result.failed.push(policyRecord.policy_number);
       }
+    }
 
-      // Success case (4242424242424242 or any valid Luhn)
-      const lastFour = cardNumber.slice(-4);
-      const cardBrand = this.detectCardBrand(cardNumber);
-      const paymentNumber = `PAY-${this.generateId()}`;
-
-      // Store payment record
-      const [paymentRecord] = await this.db
-        .insert(payment)
-        .values({
-          policy_id: policyId,
-          payment_number: paymentNumber,
-          payment_method: 'credit_card',
-          payment_status: 'COMPLETED',
-          amount: quoteSnapshot?.premium?.total?.toString() || '1000.00',
-          last_four_digits: lastFour,
-          card_brand: cardBrand,
-          transaction_id: `txn_${Date.now()}`,
-          gateway_response: 'Payment successful',
-          processed_at: new Date(),
-        })
-        .returning();
+    this.logger.log('Activate-policies run complete', result);
+    return result;
+  }
 
-      return {
-        success: true,
-        paymentId: paymentRecord.payment_id,
-        paymentNumber: paymentRecord.payment_number,
-        lastFourDigits: lastFour,
-        cardBrand,
-      };
+  /**
+   * Claim a new activation in the run log
+   *
+   * @returns the claimed run log entry, or undefined if another run claimed it first
+   */
+  private async startActivation(
+    policyRecord: PolicyRecord,
+    trigger: string,
+    asOf: Date
+  ): Promise<ActivationRecord | undefined> {
+    nextStatus(policyRecord.status_code, 'ACTIVATE');
+
+    const timeZone = policyTimeZone(policyRecord.quote_snapshot);
+    if (policyRecord.effective_date > dateInTimeZone(asOf, timeZone)) {
+      throw new BusinessRuleError(
+        `Policy ${policyRecord.policy_number} becomes effective on ${policyRecord.effective_date} (${timeZone}) and cannot be activated before then`,
+        'POLICY_NOT_YET_EFFECTIVE'
+      );
     }
 
-    // Mock ACH validation
-    if (paymentData.paymentMethod === 'ach') {
-      const routingNumber = paymentData.routingNumber;
-      const accountNumber = paymentData.accountNumber;
+    const [claimed] = await this.db
+      .insert(policyActivation)
+      .values({
+        policy_id: policyRecord.policy_identifier,
+        effective_date: policyRecord.effective_date,
+        time_zone: timeZone,
+        trigger,
+        status: 'STARTED',
+      })
+      .onConflictDoNothing()
+      .returning();
 
-      if (!routingNumber || routingNumber.length !== 9) {
-        return { success: false, errorMessage: 'Invalid routing number (must be 9 digits)' };
-      }
+    return claimed;
+  }
 
-      if (!accountNumber || accountNumber.length < 4) {
-        return { success: false, errorMessage: 'Invalid account number' };
+  /**
+   * Claim a failed activation to finish its remaining steps
+   *
+   * @returns the claimed run log entry, or undefined if it is not failed (another run is on it)
+   */
+  private async resumeActivation(existing: ActivationRecord, trigger: string): Promise<ActivationRecord | undefined> {
+    const [claimed] = await this.db
+      .update(policyActivation)
+      .set({
+        status: 'STARTED',
+        trigger,
+        failure_reason: null,
+        attempts: existing.attempts + 1,
+        updated_at: new Date(),
+      })
+      .where(and(
+        eq(policyActivation.activation_id, existing.activation_id),
+        eq(policyActivation.status, 'FAILED'),
+      ))
+      .returning();
+
+    return claimed;
+  }
+
+  /**
+   * Run the activation steps not yet recorded in the run log
+   */
+  private async completeActivation(policyRecord: PolicyRecord, activation: ActivationRecord): Promise<ActivationRecord> {
+    if (!activation.activated_at) {
+      // An earlier attempt may have failed after the status was written
+      if (policyRecord.status_code !== 'IN_FORCE') {
+        await this.transitionStatus(
+          policyRecord,
+          'ACTIVATE',
+          `Policy activated - coverage in force from ${policyRecord.effective_date} (${activation.time_zone})`
+        );
       }
+      activation = await this.recordActivationStep(activation, { activated_at: new Date() });
+    }
 
-      const lastFour = accountNumber.slice(-4);
-      const paymentNumber = `PAY-${this.generateId()}`;
+    if (!activation.id_cards_issued_at) {
+      const idCards = await this.issueIdCards(policyRecord);
+      activation = await this.recordActivationStep(activation, {
+        id_cards_issued_at: new Date(),
+        id_card_count: idCards.length,
+      });
+    }
 
-      // Store payment record
-      const [paymentRecord] = await this.db
-        .insert(payment)
-        .values({
-          policy_id: policyId,
-          payment_number: paymentNumber,
-          payment_method: 'ach',
-          payment_status: 'COMPLETED',
-          amount: quoteSnapshot?.premium?.total?.toString() || '1000.00',
-          last_four_digits: lastFour,
-          account_type: paymentData.accountType || 'checking',
-          transaction_id: `ach_${Date.now()}`,
-          gateway_response: 'ACH payment successful',
-          processed_at: new Date(),
-        })
-        .returning();
+    if (!activation.notice_sent_at) {
+      await this.sendActivationEmail(policyRecord, activation.id_card_count ?? 0);
+      activation = await this.recordActivationStep(activation, { notice_sent_at: new Date(), status: 'ACTIVATED' });
+    }
 
-      return {
-        success: true,
-        paymentId: paymentRecord.payment_id,
-        paymentNumber: paymentRecord.payment_number,
-        lastFourDigits: lastFour,
-      };
+    return activation;
+  }
+
+  private async recordActivationStep(
+    activation: ActivationRecord,
+    values: Partial<typeof policyActivation.$inferInsert>
+  ): Promise<ActivationRecord> {
+    const [updated] = await this.db
+      .update(policyActivation)
+      .set({ ...values, updated_at: new Date() })
+      .where(eq(policyActivation.activation_id, activation.activation_id))
+      .returning();
+
+    return updated;
+  }
+
+  private toActivationResult(
+    policyRecord: PolicyRecord,
+    activation: ActivationRecord,
+    alreadyActivated: boolean
+  ): PolicyActivationResult {
+    return {
+      policyId: policyRecord.policy_identifier,
+      policyNumber: policyRecord.policy_number,
+      status: 'IN_FORCE',
+      effectiveDate: policyRecord.effective_date,
+      expirationDate: policyRecord.expiration_date,
+      timeZone: activation.time_zone,
+      activatedAt: activation.activated_at!,
+      idCardCount: activation.id_card_count ?? 0,
+      alreadyActivated,
+    };
+  }
+
+  /**
+   * Billing schedule for binding a quote under its selected payment plan
+   *
+   * The first installment is due today; later ones are spaced from the
+   * coverage start date.
+   */
+  private buildBillingSchedule(quoteSnapshot: any): ScheduledInstallment[] {
+    const today = formatDateToYYYYMMDD(new Date());
+    const premium = quoteSnapshot?.premium?.total !== undefined ? quoteSnapshot.premium : { total: 1000 };
+
+    return this.billingSchedule.buildSchedule(
+      quoteSnapshot?.preferences?.paymentPlan || DEFAULT_PAYMENT_PLAN,
+      premium,
+      quoteSnapshot?.coverages?.startDate || today,
+      today
+    );
+  }
+
+  /**
+   * Payment row amounts and schedule position for an installment
+   */
+  private toPaymentAmounts(installment: ScheduledInstallment) {
+    return {
+      amount: installment.amount.toFixed(2),
+      premium_amount: installment.premiumAmount.toFixed(2),
+      tax_amount: installment.taxAmount.toFixed(2),
+      fee_amount: installment.feeAmount.toFixed(2),
+      installment_number: installment.installmentNumber,
+      due_date: installment.dueDate,
+    };
+  }
+
+  /**
+   * Record the future installments of a plan as PENDING payments
+   *
+   * payment_date holds the due date until the installment is collected.
+   */
+  private async scheduleInstallments(
+    policyId: string,
+    paymentData: any,
+    paymentResult: { paymentToken?: string; lastFourDigits?: string; cardBrand?: string },
+    installments: ScheduledInstallment[],
+    tx: Pick<Database, 'insert'>
+  ): Promise<void> {
+    if (!installments.length) {
+      return;
     }
 
-    return { success: false, errorMessage: 'Unsupported payment method' };
+    await tx.insert(payment).values(
+      installments.map(installment => ({
+        policy_id: policyId,
+        payment_number: `PAY-${this.generateId()}`,
+        payment_method: paymentData.paymentMethod,
+        payment_status: 'PENDING',
+        ...this.toPaymentAmounts(installment),
+        payment_token: paymentResult.paymentToken,
+        last_four_digits: paymentResult.lastFourDigits,
+        card_brand: paymentResult.cardBrand,
+        account_type: paymentData.paymentMethod === 'ach' ? paymentData.accountType || 'checking' : undefined,
+        payment_date: new Date(`${installment.dueDate}T00:00:00Z`),
+      }))
+    );
+
+    this.logger.log(`Scheduled ${installments.length} installments for policy ${policyId}`);
   }
 
   /**
-   * Luhn algorithm for credit card validation
+   * T090: Payment Processing
+   * Charges the first installment to the tokenized payment method through
+   * the configured payment gateway (recorded by recordPayment).
    */
-  private validateLuhn(cardNumber: string): boolean {
-    if (!cardNumber) {
-      this.logger.debug('Luhn validation: cardNumber is falsy', { cardNumber });
-      return false;
+  private async processPayment(
+    paymentData: { paymentMethod: string; paymentToken?: string },
+    installment: ScheduledInstallment
+  ): Promise<GatewayResult> {
+    const { paymentMethod, paymentToken } = paymentData;
+    this.logger.debug('Processing payment', { paymentMethod, gateway: this.paymentGateway.name });
+
+    if (paymentMethod !== 'credit_card' && paymentMethod !== 'ach') {
+      return { success: false, message: 'Unsupported payment method' };
     }
 
-    if (!/^\d+$/.test(cardNumber)) {
-      this.logger.debug('Luhn validation: cardNumber contains non-digits', {
-        cardNumber,
-        pattern: /^\d+$/,
-        test: !/^\d+$/.test(cardNumber)
-      });
-      return false;
+    if (!paymentToken) {
+      return { success: false, message: 'Payment token is required' };
     }
 
-    let sum = 0;
-    let isEven = false;
+    return authorizeAndCapture(this.paymentGateway, paymentToken, installment.amount);
+  }
 
-    for (let i = cardNumber.length - 1; i >= 0; i--) {
-      let digit = parseInt(cardNumber[i], 10);
+  /**
+   * Record the charge for the first installment as a payment
+   *
+   * An ACH debit is recorded as PROCESSING and settled later by the ACH
+   * settlement job.
+   */
+  private async recordPayment(
+    policyId: string,
+    paymentData: { paymentMethod: string; paymentToken: string; accountType?: string },
+    installment: ScheduledInstallment,
+    charge: GatewayResult,
+    tx: Pick<Database, 'insert'>
+  ) {
+    const { paymentMethod, paymentToken } = paymentData;
+    const paymentNumber = `PAY-${this.generateId()}`;
+
+    // ACH debits stay PROCESSING until the settlement job sees them settle or return
+    const paymentStatus: 'COMPLETED' | 'PROCESSING' = charge.pending ? 'PROCESSING' : 'COMPLETED';
+
+    // Store payment record
+    const [paymentRecord] = await tx
+      .insert(payment)
+      .values({
+        policy_id: policyId,
+        payment_number: paymentNumber,
+        payment_method: paymentMethod,
+        payment_status: paymentStatus,
+        ...this.toPaymentAmounts(installment),
+        payment_token: paymentToken,
+        last_four_digits: charge.lastFourDigits,
+        card_brand: charge.cardBrand,
+        account_type: paymentMethod === 'ach' ? paymentData.accountType || 'checking' : undefined,
+        transaction_id: charge.transactionId,
+        gateway_response: charge.message,
+        processed_at: charge.pending ? undefined : new Date(),
+      })
+      .returning();
 
-      if (isEven) {
-        digit *= 2;
-        if (digit > 9) digit -= 9;
-      }
+    return {
+      success: true,
+      paymentId: paymentRecord.payment_id,
+      paymentNumber: paymentRecord.payment_number,
+      paymentToken,
+      paymentStatus,
+      lastFourDigits: charge.lastFourDigits,
+      cardBrand: charge.cardBrand,
+    };
+  }
+
+  /**
+   * Refund the first installment of a binding that failed after the charge,
+   * and put the quote back to QUOTED
+   *
+   * If the refund fails too, the quote is left BINDING for review.
+   */
+  private async refundBindingCharge(
+    binding: { policy_identifier: string; policy_number: string; status_code: string },
+    charge: GatewayResult,
+    amount: number
+  ): Promise<void> {
+    const refund = await this.paymentGateway.refund(charge.transactionId!, amount).catch(
+      (error: Error): GatewayResult => ({ success: false, message: error.message })
+    );
 
-      sum += digit;
-      isEven = !isEven;
+    if (!refund.success) {
+      this.logger.error(
+        `Binding of quote ${binding.policy_number} failed after charging $${amount.toFixed(2)}, ` +
+          'and the refund failed; left BINDING for review',
+        { transactionId: charge.transactionId, reason: refund.message }
+      );
+      return;
     }
 
-    const isValid = sum % 10 === 0;
-    this.logger.debug('Luhn validation complete', {
-      cardNumber,
-      sum,
-      modulo: sum % 10,
-      isValid,
+    await this.transitionStatus(
+      binding,
+      'FAIL_BINDING',
+      `Binding failed after payment; refunded $${amount.toFixed(2)} (${charge.transactionId})`
+    );
+    this.logger.warn(`Refunded the binding payment for quote ${binding.policy_number}`, {
+      transactionId: charge.transactionId,
     });
-
-    return isValid;
   }
 
   /**
-   * Detect card brand from card number
+   * Move a policy to the status an action leads to and log the transition
+   *
+   * Guarded on the status the record was read with, so a policy that moved
+   * since (another request or job) is never moved from the wrong status.
+   *
+   * @param values - Other policy columns written with the status
+   * @param tx - Transaction to write in (defaults to the shared connection)
+   * @returns The new status
+   * @throws InvalidStatusTransitionError if the policy's status does not allow
+   *   the action, or is no longer the status it was read with
    */
-  private detectCardBrand(cardNumber: string): string {
-    if (cardNumber.startsWith('4')) return 'Visa';
-    if (cardNumber.startsWith('5')) return 'Mastercard';
-    if (cardNumber.startsWith('3')) return 'American Express';
-    if (cardNumber.startsWith('6')) return 'Discover';
-    return 'Unknown';
+  async transitionStatus(
+    policyRecord: { policy_identifier: string; status_code: string },
+    action: PolicyAction,
+    reason: string,
+    values: Partial<typeof policy.$inferInsert> = {},
+    tx: Pick<Database, 'update' | 'insert'> = this.db
+  ): Promise<PolicyStatus> {
+    const status = nextStatus(policyRecord.status_code, action);
+
+    const updated = await tx
+      .update(policy)
+      .set({ ...values, status_code: status, updated_at: new Date() })
+      .where(and(
+        eq(policy.policy_identifier, policyRecord.policy_identifier),
+        eq(policy.status_code, policyRecord.status_code),
+      ))
+      .returning();
+
+    if (!updated.length) {
+      throw new InvalidStatusTransitionError(policyRecord.status_code, status);
+    }
+
+    await this.logPolicyEvent(policyRecord.policy_identifier, policyRecord.status_code, status, reason, tx);
+
+    return status;
   }
 
   /**
    * T092: Log Policy Event
+   *
+   * Records a policy status change in the event log (also used by the
+   * billing collection job).
    */
-  private async logPolicyEvent(
+  async logPolicyEvent(
     policyId: string,
     previousStatus: string,
     newStatus: string,
-    reason: string
+    reason: string,
+    tx: Pick<Database, 'insert'> = this.db
   ): Promise<void> {
     this.logger.debug('Logging policy event', { policyId, previousStatus, newStatus });
 
     // Create event record
-    const [eventRecord] = await this.db
+    const [eventRecord] = await tx
       .insert(event)
       .values({
         event_type: 'POLICY_STATUS_CHANGE',
@@ -1722,7 +2351,7 @@ export class QuoteService {
       .returning();
 
     // Create policy event record
-    await this.db
+    await tx
       .insert(policyEvent)
       .values({
         event_id: eventRecord.event_id,
@@ -1767,7 +2396,7 @@ Thank you for choosing our insurance!
   /**
    * T093: Send Activation Email (mock)
    */
-  private async sendActivationEmail(policyRecord: any): Promise<void> {
+  private async sendActivationEmail(policyRecord: any, idCardCount: number): Promise<void> {
     this.logger.log('📧 MOCK EMAIL: Policy Activation');
     console.log(`
 ========================================
@@ -1784,7 +2413,7 @@ Policy Number: ${policyRecord.policy_number}
 Effective Date: ${policyRecord.effective_date}
 Expiration Date: ${policyRecord.expiration_date}
 
-Your ID cards and policy documents are available in your portal.
+Your ${idCardCount === 1 ? 'ID card is' : `${idCardCount} ID cards are`} attached and, with your policy documents, available in your portal.
 
 Access your portal: /portal/${policyRecord.policy_number}
 
@@ -1798,14 +2427,15 @@ Drive safely!
    */
   private async generatePolicyDocuments(
     policyId: string,
-    policyNumber: string
-  ): Promise<any[]> {
+    policyNumber: string,
+    tx: Pick<Database, 'insert'>
+  ): Promise<Array<typeof document.$inferSelect>> {
     this.logger.debug('Generating policy documents', { policyId, policyNumber });
 
     const documents = [];
 
     // Generate policy declarations PDF
-    const declarationsDoc = await this.db
+    const declarationsDoc = await tx
       .insert(document)
       .values({
         policy_id: policyId,
@@ -1826,7 +2456,7 @@ Drive safely!
     documents.push(declarationsDoc[0]);
 
     // Generate ID card
-    const idCardDoc = await this.db
+    const idCardDoc = await tx
       .insert(document)
       .values({
         policy_id: policyId,
@@ -1850,6 +2480,51 @@ Drive safely!
     return documents;
   }
 
+  /**
+   * Issue an ID card per insured vehicle for the term being activated (mock),
+   * superseding the cards issued before
+   */
+  private async issueIdCards(policyRecord: PolicyRecord): Promise<Array<typeof document.$inferSelect>> {
+    const superseded = await this.db
+      .update(document)
+      .set({ is_current: false, document_status: 'SUPERSEDED', superseded_at: new Date(), updated_at: new Date() })
+      .where(and(
+        eq(document.policy_id, policyRecord.policy_identifier),
+        eq(document.document_type, 'ID_CARD'),
+        eq(document.is_current, true),
+      ))
+      .returning();
+
+    const version = Math.max(0, ...superseded.map(card => card.version)) + 1;
+    const vehicles: any[] = (policyRecord.quote_snapshot as any)?.vehicles || [];
+    const idCards = [];
+
+    for (const [index, insured] of vehicles.entries()) {
+      const [idCard] = await this.db
+        .insert(document)
+        .values({
+          policy_id: policyRecord.policy_identifier,
+          document_number: `DOC-${this.generateId()}`,
+          document_type: 'ID_CARD',
+          document_name: `ID_Card_${policyRecord.policy_number}_Vehicle_${index + 1}.pdf`,
+          version,
+          is_current: true,
+          document_status: 'READY',
+          storage_url: `/documents/policies/${policyRecord.policy_number}/id_card_${index + 1}_v${version}.pdf`,
+          mime_type: 'application/pdf',
+          description: `Insurance ID card - ${[insured.year, insured.make, insured.model].filter(Boolean).join(' ')}, ` +
+            `${policyRecord.effective_date} to ${policyRecord.expiration_date}`,
+          file_size_bytes: 102400, // Mock size
+          generated_at: new Date(),
+        })
+        .returning();
+      idCards.push(idCard);
+    }
+
+    this.logger.log(`Issued ${idCards.length} ID cards for policy ${policyRecord.policy_number}`);
+    return idCards;
+  }
+
   // ========================================================================
   // PORTAL ACCESS METHODS (Phase 5 - US3)
   // ========================================================================
@@ -1886,11 +2561,25 @@ Drive safely!
       status: policyRecord.status_code,
       effective_date: policyRecord.effective_date,
       expiration_date: policyRecord.expiration_date,
+      cancellation_date: policyRecord.cancellation_date,
+      cancellation_reason: policyRecord.cancellation_reason,
+      version_number: policyRecord.version_number,
       quote_snapshot: quoteSnapshot,
       created_at: policyRecord.created_at,
     };
   }
 
+  /**
+   * Reject portal changes to a cancelled policy (the portal is read-only once cancelled)
+   */
+  private assertPortalWritable(policyRecord: { policy_number: string; status_code: string }): void {
+    if (READ_ONLY_POLICY_STATUSES.includes(policyRecord.status_code)) {
+      throw new ForbiddenException(
+        `Policy ${policyRecord.policy_number} is ${policyRecord.status_code.toLowerCase()}; the portal is read-only`
+      );
+    }
+  }
+
   /**
    * Validate policy access (check if policy exists and is IN_FORCE)
    * @param policyNumber - DZXXXXXXXX policy number
@@ -1911,46 +2600,13 @@ Drive safely!
 
     const policyRecord = policyData[0];
 
-    // Allow access if policy is BOUND, IN_FORCE, or ACTIVE
-    const allowedStatuses = ['BOUND', 'IN_FORCE', 'ACTIVE'];
+    // Allow access if policy is BOUND, IN_FORCE, or ACTIVE (or held or pending
+    // cancellation for non-payment, so the customer can still see their bill;
+    // cancelled policies stay visible read-only)
+    const allowedStatuses = ['BOUND', 'IN_FORCE', 'ACTIVE', 'PAYMENT_HOLD', 'PENDING_CANCELLATION', 'CANCELLED'];
     return allowedStatuses.includes(policyRecord.status_code);
   }
 
-  /**
-   * Create user account for portal access (demo mode - no password)
-   * Note: In production, this would include proper authentication
-   * @param policyId - Policy UUID
-   * @param email - User email address
-   * @returns User account record
-   */
-  async createUserAccount(policyId: string, email: string): Promise<any> {
-    this.logger.log(`Creating user account for policy: ${policyId}`);
-
-    // Check if account already exists for this policy
-    const existingAccounts = await this.db
-      .select()
-      .from(userAccount)
-      .where(eq(userAccount.policy_identifier, policyId))
-      .limit(1);
-
-    if (existingAccounts.length > 0) {
-      this.logger.log(`User account already exists for policy ${policyId}`);
-      return existingAccounts[0];
-    }
-
-    // Create new user account (access_token auto-generated by schema)
-    const [newAccount] = await this.db
-      .insert(userAccount)
-      .values({
-        policy_identifier: policyId,
-        email: email,
-      })
-      .returning();
-
-    this.logger.log(`Created user account ${newAccount.account_id} for policy ${policyId}`);
-    return newAccount;
-  }
-
   /**
    * Get dashboard data for portal (Policy, drivers, vehicles, premium, payments, claims)
    * @param policyNumber - DZXXXXXXXX policy number
@@ -1982,11 +2638,18 @@ Drive safely!
         status: policyData.status,
         effective_date: policyData.effective_date,
         expiration_date: policyData.expiration_date,
+        cancellation_date: policyData.cancellation_date,
+        cancellation_reason: policyData.cancellation_reason,
+        read_only: READ_ONLY_POLICY_STATUSES.includes(policyData.status),
+        version_number: policyData.version_number,
       },
       primary_driver: quoteSnapshot.primary_driver || quoteSnapshot.driver,
-      additional_drivers: quoteSnapshot.additional_drivers || [],
+      additional_drivers: quoteSnapshot.additionalDrivers || quoteSnapshot.additional_drivers || [],
       vehicles: quoteSnapshot.vehicles || (quoteSnapshot.vehicle ? [quoteSnapshot.vehicle] : []),
       premium: quoteSnapshot.premium || {},
+      coverages: quoteSnapshot.coverages || {},
+      address: quoteSnapshot.address || null,
+      payment_plan: quoteSnapshot.preferences?.paymentPlan || DEFAULT_PAYMENT_PLAN,
       payment_history: payments,
       claims: claims,
       documents: docs,
@@ -1996,7 +2659,7 @@ Drive safely!
   /**
    * Get billing history for policy
    * @param policyNumber - DZXXXXXXXX policy number
-   * @returns List of payments
+   * @returns List of payments and refunds
    */
   async getBillingHistory(policyNumber: string): Promise<any[]> {
     this.logger.log(`Getting billing history for policy: ${policyNumber}`);
@@ -2026,10 +2689,20 @@ Drive safely!
       payment_number: p.payment_number,
       payment_date: p.payment_date,
       amount: p.amount,
+      premium_amount: p.premium_amount,
+      tax_amount: p.tax_amount,
+      fee_amount: p.fee_amount,
+      installment_number: p.installment_number,
+      due_date: p.due_date,
       payment_method: p.payment_method,
       last_four_digits: p.last_four_digits,
       card_brand: p.card_brand,
       status: p.payment_status,
+      payment_type: p.payment_type, // CHARGE or REFUND (a credit)
+      endorsement_id: p.endorsement_id, // Additional premium for a policy change
+      renewal_id: p.renewal_id, // Installment of a renewal term
+      refunded_payment_id: p.refunded_payment_id,
+      refund_reason: p.refund_reason,
     }));
   }
 
@@ -2128,6 +2801,20 @@ Drive safely!
       throw new NotFoundException(`Policy ${policyNumber} not found`);
     }
 
+    this.assertPortalWritable(policyData[0]);
+
+    // The incident must fall on a day the policy was in force; the claim is
+    // adjusted against the version in force that day, not the current one
+    if (!isCalendarDate(claimData.incident_date)) {
+      throw new BadRequestException('incident_date must be a date in YYYY-MM-DD format');
+    }
+    const versionInForce = await this.policyVersions.findVersionInForce(policyData[0], claimData.incident_date);
+    if (!versionInForce) {
+      throw new BadRequestException(
+        `Policy ${policyNumber} was not in force on ${claimData.incident_date}`
+      );
+    }
+
     const policyId = policyData[0].policy_identifier;
     const claimNumber = `DZ${this.generateId().substring(0, 8)}`;
 
@@ -2138,6 +2825,7 @@ Drive safely!
         claim_number: claimNumber,
         policy_identifier: policyId,
         incident_date: claimData.incident_date,
+        policy_version_number: versionInForce.version_number,
         loss_type: claimData.loss_type,
         description: claimData.description,
         vehicle_identifier: claimData.vehicle_identifier,
@@ -2152,7 +2840,7 @@ Drive safely!
       .values({
         claim_id: newClaim.claim_id,
         event_type: 'CLAIM_SUBMITTED',
-        description: `Claim ${claimNumber} submitted via portal`,
+        description: `Claim ${claimNumber} submitted via portal (policy version ${versionInForce.version_number})`,
         triggered_by: 'PORTAL',
       });
 
@@ -2216,6 +2904,16 @@ Drive safely!
     const claimNumber = claimData[0].claim_number;
     const policyId = claimData[0].policy_identifier;
 
+    const [policyRecord] = await this.db
+      .select()
+      .from(policy)
+      .where(eq(policy.policy_identifier, policyId))
+      .limit(1);
+
+    if (policyRecord) {
+      this.assertPortalWritable(policyRecord);
+    }
+
     // Create document record (mock storage URL)
     const [doc] = await this.db
       .insert(document)
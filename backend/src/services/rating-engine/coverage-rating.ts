@@ -0,0 +1,209 @@
+/**
+ * Coverage Rating Service (T057)
+ *
+ * Calculates the policy-level coverage factor from liability and medical
+ * limit selections:
+ * - Bodily injury limit load (BI_LIMIT)
+ * - Property damage limit load (PD_LIMIT)
+ * - Medical payments limit load (MED_PAY_LIMIT, only when selected)
+ * - Uninsured/underinsured motorist loads (UMBI_LIMIT, UIMBI_LIMIT, only when selected)
+ *
+ * Coverage Factor = 1 + sum of limit loads. Physical damage (collision,
+ * comprehensive) is rated per vehicle by VehicleRatingService.
+ *
+ * Also enforces the garaging state's minimum liability limits
+ * (STATE_MINIMUM_LIMITS) on coverage updates and at bind.
+ *
+ * @module CoverageRatingService
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import { RateBook, normalizeSplitLimit } from './rate-book';
+import { STATE_MINIMUM_LIMITS } from './state-minimum-limits';
+import { BusinessRuleError } from '../../api/middleware/error-handler';
+
+/**
+ * Policy-level coverage selections (quote snapshot coverages shape)
+ */
+export interface CoverageSelections {
+  startDate?: string | null;
+  bodilyInjuryLimit?: string | null;
+  propertyDamageLimit?: string | null;
+  medicalPaymentsLimit?: number | null;
+  uninsuredMotoristBodilyInjury?: string | null;
+  underinsuredMotoristBodilyInjury?: string | null;
+  umbiLimit?: string | null;
+  uimbiLimit?: string | null;
+  collision?: boolean;
+  hasCollision?: boolean;
+  collisionDeductible?: number | null;
+  comprehensive?: boolean;
+  hasComprehensive?: boolean;
+  comprehensiveDeductible?: number | null;
+  hasUninsured?: boolean;
+  hasRoadside?: boolean;
+  hasRental?: boolean;
+  roadsideAssistance?: boolean;
+  rentalLimit?: number | null;
+  [key: string]: any;
+}
+
+/**
+ * Detailed breakdown of coverage rating factors
+ */
+export interface CoverageFactorDetails {
+  bodilyInjuryLimit: string | null;
+  bodilyInjuryLoad: number;
+  propertyDamageLimit: string | null;
+  propertyDamageLoad: number;
+  medicalPaymentsLoad: number;
+  uninsuredMotoristLoad: number;
+  underinsuredMotoristLoad: number;
+  totalFactor: number;
+}
+
+/**
+ * Coverage Rating Service
+ *
+ * Calculates coverage-specific factors for limit selections.
+ */
+@Injectable()
+export class CoverageRatingService {
+  private readonly logger = new Logger(CoverageRatingService.name);
+
+  /**
+   * Get detailed breakdown of coverage rating factors
+   *
+   * Quotes without coverage selections yet (early in the flow) rate with a
+   * neutral coverage factor of 1.0.
+   *
+   * @param coverages - Coverage selections
+   * @param rates - Rate book in force on the rating date
+   * @returns Detailed factor breakdown
+   */
+  getFactorDetails(coverages: CoverageSelections | undefined, rates: RateBook): CoverageFactorDetails {
+    if (!coverages) {
+      return {
+        bodilyInjuryLimit: null,
+        bodilyInjuryLoad: 0,
+        propertyDamageLimit: null,
+        propertyDamageLoad: 0,
+        medicalPaymentsLoad: 0,
+        uninsuredMotoristLoad: 0,
+        underinsuredMotoristLoad: 0,
+        totalFactor: 1.0,
+      };
+    }
+
+    // Bodily Injury Liability - Higher limits cost more
+    const bodilyInjuryLoad = rates.lookup('BI_LIMIT', normalizeSplitLimit(coverages.bodilyInjuryLimit));
+
+    // Property Damage Liability - Higher limits cost more
+    const propertyDamageLoad = rates.lookup('PD_LIMIT', coverages.propertyDamageLimit);
+
+    // Medical Payments - only when selected
+    const medicalPaymentsLoad = coverages.medicalPaymentsLimit
+      ? rates.lookup('MED_PAY_LIMIT', coverages.medicalPaymentsLimit)
+      : 0;
+
+    // Uninsured Motorist Bodily Injury (UMBI) - only when selected
+    const umbiLimit = coverages.uninsuredMotoristBodilyInjury || coverages.umbiLimit;
+    const uninsuredMotoristLoad = umbiLimit
+      ? rates.lookup('UMBI_LIMIT', normalizeSplitLimit(umbiLimit))
+      : 0;
+
+    // Underinsured Motorist Bodily Injury (UIMBI) - only when selected
+    const uimbiLimit = coverages.underinsuredMotoristBodilyInjury || coverages.uimbiLimit;
+    const underinsuredMotoristLoad = uimbiLimit
+      ? rates.lookup('UIMBI_LIMIT', normalizeSplitLimit(uimbiLimit))
+      : 0;
+
+    // Roadside Assistance - Always included (no additional cost in this version)
+    // Rental Reimbursement, Additional Equipment and Original Parts are rated per vehicle
+
+    // Sum in the same order as the filed rating formula
+    let totalFactor = 1.0;
+    totalFactor += bodilyInjuryLoad;
+    totalFactor += propertyDamageLoad;
+    totalFactor += medicalPaymentsLoad;
+    totalFactor += uninsuredMotoristLoad;
+    totalFactor += underinsuredMotoristLoad;
+
+    this.logger.debug('Coverage factors calculated', { totalFactor });
+
+    return {
+      bodilyInjuryLimit: coverages.bodilyInjuryLimit || null,
+      bodilyInjuryLoad,
+      propertyDamageLimit: coverages.propertyDamageLimit || null,
+      propertyDamageLoad,
+      medicalPaymentsLoad,
+      uninsuredMotoristLoad,
+      underinsuredMotoristLoad,
+      totalFactor,
+    };
+  }
+
+  /**
+   * Validate liability limits against the garaging state's minimums
+   *
+   * Limits are accepted in thousands ("25/50", "25") or dollars
+   * ("25000/50000", "25000"). States not in the table are not checked.
+   *
+   * @param coverages - Coverage selections
+   * @param state - Garaging state code (e.g. "CA")
+   * @throws BusinessRuleError naming the state and coverage below the minimum
+   */
+  validateStateMinimums(coverages: CoverageSelections | undefined, state: string | null | undefined): void {
+    const stateCode = state?.trim().toUpperCase();
+    const minimums = stateCode ? STATE_MINIMUM_LIMITS[stateCode] : undefined;
+    if (!minimums) {
+      return;
+    }
+
+    const stateLabel = `${minimums.name} (${stateCode})`;
+    const requiredBodilyInjury =
+      `${minimums.bodilyInjuryPerPerson / 1000}/${minimums.bodilyInjuryPerAccident / 1000}`;
+    const requiredPropertyDamage = `${minimums.propertyDamage / 1000}`;
+
+    const bodilyInjuryLimit = coverages?.bodilyInjuryLimit;
+    const [perPerson, perAccident] = (bodilyInjuryLimit || '').split('/').map(toDollars);
+    if (!bodilyInjuryLimit || perPerson === null || perAccident === null) {
+      throw new BusinessRuleError(
+        `Bodily injury liability limit is required in ${stateLabel} (minimum ${requiredBodilyInjury})`,
+        'STATE_MINIMUM_BODILY_INJURY'
+      );
+    }
+    if (perPerson < minimums.bodilyInjuryPerPerson || perAccident < minimums.bodilyInjuryPerAccident) {
+      throw new BusinessRuleError(
+        `Bodily injury liability limit ${normalizeSplitLimit(bodilyInjuryLimit)} is below the ${stateLabel} minimum of ${requiredBodilyInjury}`,
+        'STATE_MINIMUM_BODILY_INJURY'
+      );
+    }
+
+    const propertyDamageLimit = coverages?.propertyDamageLimit;
+    const propertyDamage = toDollars(propertyDamageLimit);
+    if (propertyDamage === null) {
+      throw new BusinessRuleError(
+        `Property damage liability limit is required in ${stateLabel} (minimum ${requiredPropertyDamage})`,
+        'STATE_MINIMUM_PROPERTY_DAMAGE'
+      );
+    }
+    if (propertyDamage < minimums.propertyDamage) {
+      throw new BusinessRuleError(
+        `Property damage liability limit ${propertyDamage / 1000} is below the ${stateLabel} minimum of ${requiredPropertyDamage}`,
+        'STATE_MINIMUM_PROPERTY_DAMAGE'
+      );
+    }
+  }
+}
+
+/**
+ * Parse a limit in thousands or dollars to dollars (null if not a number)
+ */
+function toDollars(limit: string | number | null | undefined): number | null {
+  const amount = parseInt(String(limit ?? ''), 10);
+  if (isNaN(amount)) {
+    return null;
+  }
+  return amount < 1000 ? amount * 1000 : amount;
+}
@@ -0,0 +1,482 @@
+/**
+ * Discount Calculator (T058)
+ *
+ * Calculates premium discounts based on favorable customer characteristics.
+ * Implements the standard auto insurance discounts per spec FR-062:
+ *
+ * 1. SAFE_DRIVER: 20% for no at-fault accidents/violations in 3 years
+ * 2. GOOD_STUDENT: 10% for a primary driver under 25 with good grades
+ * 3. DEFENSIVE_DRIVING: 8% for defensive driving course completion
+ * 4. MULTI_POLICY: 10% for holding another policy (home, renters, etc.) with us
+ * 5. PAY_IN_FULL: 7% for paying the full term premium up front
+ * 6. PAPERLESS: 4% for electronic document delivery
+ * 7. LOW_MILEAGE: 5-15% for <10,000 miles/year
+ * 8. HOMEOWNER: 8% for homeownership
+ * 9. ADVANCE_QUOTE: 5% for quote 7+ days before effective date
+ *
+ * The multi-car discount is a rating factor (MULTI_CAR_DISCOUNT table) applied
+ * by VehicleRatingService, so it is not repeated here.
+ *
+ * Every discount is evaluated with an explanation of why it was or wasn't
+ * applied, so the UI can show customers how to save.
+ *
+ * Total discounts are capped at 50% of base premium per industry standards.
+ *
+ * @module DiscountCalculator
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+
+/**
+ * Discount information
+ */
+export interface DiscountInfo {
+  code: string;
+  name: string;
+  amount: number;
+  percentage: number;
+  explanation: string; // Why the discount applies
+}
+
+/**
+ * Eligibility of one discount, applied or not
+ */
+export interface DiscountEligibility extends DiscountInfo {
+  eligible: boolean;
+  capped: boolean; // Reduced to fit the total discount cap
+}
+
+/**
+ * Input data for discount calculation
+ */
+export interface DiscountCalculationInput {
+  driver: {
+    age: number;
+    yearsLicensed?: number | null;
+    goodStudent?: boolean; // Full-time student with a B average or better
+    violations?: Array<{type: string; date: Date | string}>;
+    accidents?: Array<{type: string; atFault: boolean; date: Date | string}>;
+  };
+  effectiveDate: Date | string;
+  annualMileage?: number;
+  homeownerDiscount?: boolean; // Customer owns home
+  defensiveDrivingCourse?: boolean; // Completed defensive driving course
+  paperlessDiscount?: boolean; // Documents delivered electronically
+  multiPolicyDiscount?: boolean; // Holds another policy with us
+  payInFullDiscount?: boolean; // Paying the full term premium up front
+  asOfDate?: Date | string; // Date lookbacks are measured from (defaults to today)
+}
+
+/**
+ * Discount Calculator Service
+ *
+ * Evaluates customer characteristics and policy details to determine
+ * all applicable discounts. Discounts are a percentage of the adjusted
+ * premium.
+ */
+@Injectable()
+export class DiscountCalculator {
+  private readonly logger = new Logger(DiscountCalculator.name);
+
+  // Maximum total discount allowed (industry standard cap)
+  private readonly MAX_TOTAL_DISCOUNT_PERCENTAGE = 50;
+
+  // Good student discount is limited to youthful drivers
+  private readonly GOOD_STUDENT_MAX_AGE = 25;
+
+  /**
+   * Calculate all applicable discounts
+   *
+   * Returns only the discounts that apply, with both dollar amount and
+   * percentage. Total discount is capped at 50%.
+   *
+   * @param input - Discount calculation input data
+   * @param basePremium - Base premium before discounts (optional, for amount calculation)
+   * @returns Array of applicable discounts
+   */
+  calculateDiscounts(
+    input: DiscountCalculationInput,
+    basePremium?: number
+  ): DiscountInfo[] {
+    return this.evaluateDiscounts(input, basePremium)
+      .filter(discount => discount.eligible)
+      .map(({ code, name, amount, percentage, explanation }) => ({ code, name, amount, percentage, explanation }));
+  }
+
+  /**
+   * Evaluate every discount, applied or not
+   *
+   * Each entry explains why the discount was or wasn't applied. Eligible
+   * discounts are pro-rated down together when they exceed the 50% cap.
+   *
+   * @param input - Discount calculation input data
+   * @param basePremium - Base premium before discounts (optional, for amount calculation)
+   * @returns Eligibility of each discount, in display order
+   */
+  evaluateDiscounts(
+    input: DiscountCalculationInput,
+    basePremium?: number
+  ): DiscountEligibility[] {
+    const asOfDate = input.asOfDate ? new Date(input.asOfDate) : new Date();
+    const advanceQuoteDiscount = this.calculateAdvanceQuoteDiscount(input.effectiveDate, asOfDate);
+
+    const evaluations: DiscountEligibility[] = [
+      this.evaluation('SAFE_DRIVER', 'Safe Driver Discount',
+        this.calculateGoodDriverDiscount(input.driver.violations, input.driver.accidents, asOfDate),
+        this.explainSafeDriver(input.driver.violations, input.driver.accidents, asOfDate), basePremium),
+      this.evaluation('GOOD_STUDENT', 'Good Student Discount',
+        this.calculateGoodStudentDiscount(input.driver.age, input.driver.goodStudent),
+        this.explainGoodStudent(input.driver.age, input.driver.goodStudent), basePremium),
+      this.evaluation('DEFENSIVE_DRIVING', 'Defensive Driving Course Discount',
+        this.calculateDefensiveDrivingDiscount(input.defensiveDrivingCourse),
+        input.defensiveDrivingCourse
+          ? 'Completed an approved defensive driving course'
+          : 'No approved defensive driving course on file', basePremium),
+      this.evaluation('MULTI_POLICY', 'Multi-Policy Discount',
+        this.calculateMultiPolicyDiscount(input.multiPolicyDiscount),
+        input.multiPolicyDiscount
+          ? 'You have another policy (home, renters, etc.) with us'
+          : 'Add a home, renters or other policy with us to qualify', basePremium),
+      this.evaluation('PAY_IN_FULL', 'Pay-in-Full Discount',
+        this.calculatePayInFullDiscount(input.payInFullDiscount),
+        input.payInFullDiscount
+          ? 'Paying the full term premium up front'
+          : 'Paying in installments; pay the full term up front to qualify', basePremium),
+      this.evaluation('PAPERLESS', 'Paperless Discount',
+        this.calculatePaperlessDiscount(input.paperlessDiscount),
+        input.paperlessDiscount
+          ? 'Policy documents delivered electronically'
+          : 'Policy documents delivered by mail; choose electronic delivery to qualify', basePremium),
+      this.evaluation('LOW_MILEAGE', 'Low Mileage Discount',
+        this.calculateLowMileageDiscount(input.annualMileage),
+        this.explainLowMileage(input.annualMileage), basePremium),
+      this.evaluation('HOMEOWNER', 'Homeowner Discount',
+        this.calculateHomeownerDiscount(input.homeownerDiscount),
+        input.homeownerDiscount ? 'You own your home' : 'No home ownership on file', basePremium),
+      this.evaluation('ADVANCE_QUOTE', 'Advance Quote Discount',
+        advanceQuoteDiscount,
+        advanceQuoteDiscount > 0
+          ? 'Quoted at least 7 days before the policy starts'
+          : 'Policy starts less than 7 days after the quote', basePremium),
+    ];
+
+    const eligible = evaluations.filter(discount => discount.eligible);
+
+    // Apply total discount cap
+    const totalDiscountPercentage = eligible.reduce((sum, d) => sum + d.percentage, 0);
+    if (totalDiscountPercentage > this.MAX_TOTAL_DISCOUNT_PERCENTAGE) {
+      this.logger.warn(
+        `Total discount ${totalDiscountPercentage}% exceeds cap of ${this.MAX_TOTAL_DISCOUNT_PERCENTAGE}%. Applying cap.`
+      );
+
+      // Pro-rate discounts to fit within cap
+      const scaleFactor = this.MAX_TOTAL_DISCOUNT_PERCENTAGE / totalDiscountPercentage;
+      eligible.forEach(discount => {
+        discount.percentage *= scaleFactor;
+        discount.amount *= scaleFactor;
+        discount.capped = true;
+        discount.explanation += ` (reduced to fit the ${this.MAX_TOTAL_DISCOUNT_PERCENTAGE}% total discount cap)`;
+      });
+    }
+
+    this.logger.debug(
+      `Applied ${eligible.length} discounts totaling ${eligible.reduce((s, d) => s + d.percentage, 0).toFixed(1)}%`
+    );
+
+    return evaluations;
+  }
+
+  /**
+   * Build one discount evaluation from its rate (0 = not eligible)
+   */
+  private evaluation(
+    code: string,
+    name: string,
+    rate: number,
+    explanation: string,
+    basePremium?: number
+  ): DiscountEligibility {
+    return {
+      code,
+      name,
+      eligible: rate > 0,
+      amount: basePremium ? (basePremium * rate) : 0,
+      percentage: rate * 100,
+      explanation,
+      capped: false,
+    };
+  }
+
+  /**
+   * Calculate good driver discount
+   *
+   * Drivers with clean records (no at-fault accidents or violations in 3+ years)
+   * demonstrate lower risk and receive a significant discount. A driver with
+   * no driving record on file is not eligible.
+   *
+   * @param violations - Driver violations
+   * @param accidents - Driver accidents
+   * @param asOfDate - Date the 3-year lookback is measured from
+   * @returns Discount percentage (0 - 0.25)
+   */
+  private calculateGoodDriverDiscount(
+    violations: Array<{type: string; date: Date | string}> | undefined,
+    accidents: Array<{type: string; atFault: boolean; date: Date | string}> | undefined,
+    asOfDate: Date
+  ): number {
+    if (!violations && !accidents) {
+      return 0; // No driving record = no discount
+    }
+
+    // Clean record = 20% discount
+    if (this.countRecentIncidents(violations, accidents, asOfDate) === 0) {
+      return 0.20;
+    }
+
+    return 0;
+  }
+
+  /**
+   * Explain the safe driver discount decision
+   */
+  private explainSafeDriver(
+    violations: Array<{type: string; date: Date | string}> | undefined,
+    accidents: Array<{type: string; atFault: boolean; date: Date | string}> | undefined,
+    asOfDate: Date
+  ): string {
+    if (!violations && !accidents) {
+      return 'No driving history on file';
+    }
+
+    const incidents = this.countRecentIncidents(violations, accidents, asOfDate);
+    if (incidents === 0) {
+      return 'No at-fault accidents or violations in the last 3 years';
+    }
+
+    return `${incidents} at-fault accident${incidents === 1 ? '' : 's'} or violation${incidents === 1 ? '' : 's'} in the last 3 years`;
+  }
+
+  /**
+   * Count violations and at-fault accidents in the 3-year lookback
+   */
+  private countRecentIncidents(
+    violations: Array<{type: string; date: Date | string}> | undefined,
+    accidents: Array<{type: string; atFault: boolean; date: Date | string}> | undefined,
+    asOfDate: Date
+  ): number {
+    const threeYearsAgo = new Date(asOfDate);
+    threeYearsAgo.setFullYear(threeYearsAgo.getFullYear() - 3);
+
+    // Check for violations in last 3 years
+    const recentViolations = (violations || []).filter(v => new Date(v.date) >= threeYearsAgo);
+
+    // Check for at-fault accidents in last 3 years
+    const recentAccidents = (accidents || []).filter(
+      a => a.atFault && new Date(a.date) >= threeYearsAgo
+    );
+
+    return recentViolations.length + recentAccidents.length;
+  }
+
+  /**
+   * Calculate good student discount
+   *
+   * Full-time students under 25 with a B average or better have lower
+   * claim frequency than other youthful drivers.
+   *
+   * @param age - Primary driver age
+   * @param goodStudent - Driver is a full-time student with a B average or better
+   * @returns Discount percentage (0 - 0.10)
+   */
+  private calculateGoodStudentDiscount(age: number, goodStudent?: boolean): number {
+    if (!goodStudent || age >= this.GOOD_STUDENT_MAX_AGE) {
+      return 0;
+    }
+
+    // 10% discount for good students
+    return 0.10;
+  }
+
+  /**
+   * Explain the good student discount decision
+   */
+  private explainGoodStudent(age: number, goodStudent?: boolean): string {
+    if (age >= this.GOOD_STUDENT_MAX_AGE) {
+      return `Only available to drivers under ${this.GOOD_STUDENT_MAX_AGE}`;
+    }
+
+    return goodStudent
+      ? 'Full-time student under 25 with a B average or better'
+      : 'Full-time students with a B average or better qualify';
+  }
+
+  /**
+   * Calculate defensive driving course discount
+   *
+   * Completion of an approved defensive driving course demonstrates
+   * commitment to safe driving and earns a discount.
+   *
+   * @param completedCourse - Driver completed defensive driving course
+   * @returns Discount percentage (0 - 0.10)
+   */
+  private calculateDefensiveDrivingDiscount(completedCourse?: boolean): number {
+    if (!completedCourse) {
+      return 0;
+    }
+
+    // 8% discount for defensive driving course
+    return 0.08;
+  }
+
+  /**
+   * Calculate low mileage discount
+   *
+   * Drivers who drive fewer miles annually have lower exposure to accidents.
+   * Significant discount for very low mileage (<7,500 miles/year).
+   *
+   * @param annualMileage - Estimated annual mileage
+   * @returns Discount percentage (0 - 0.15)
+   */
+  private calculateLowMileageDiscount(annualMileage?: number): number {
+    if (!annualMileage) {
+      return 0; // No data = no discount
+    }
+
+    if (annualMileage < 5000) {
+      return 0.15; // 15% discount for very low mileage
+    } else if (annualMileage < 7500) {
+      return 0.10; // 10% discount for low mileage
+    } else if (annualMileage < 10000) {
+      return 0.05; // 5% discount for moderate low mileage
+    }
+
+    return 0; // No discount for normal/high mileage
+  }
+
+  /**
+   * Calculate homeowner discount
+   *
+   * Homeowners are statistically more stable customers with better credit
+   * and lower claim frequency. Many insurers bundle home and auto insurance.
+   *
+   * @param isHomeowner - Customer owns home
+   * @returns Discount percentage (0 - 0.10)
+   */
+  private calculateHomeownerDiscount(isHomeowner?: boolean): number {
+    if (!isHomeowner) {
+      return 0;
+    }
+
+    // 8% discount for homeowners
+    return 0.08;
+  }
+
+  /**
+   * Calculate advance quote discount
+   *
+   * Quotes generated 7+ days before the effective date indicate planning
+   * and less rush, correlating with more responsible customers.
+   *
+   * @param effectiveDate - Policy effective date
+   * @param quotedOn - Date the quote is rated on
+   * @returns Discount percentage (0 - 0.05)
+   */
+  private calculateAdvanceQuoteDiscount(effectiveDate: Date | string, quotedOn: Date): number {
+    const daysUntilEffective = Math.floor(
+      (new Date(effectiveDate).getTime() - quotedOn.getTime()) / (1000 * 60 * 60 * 24)
+    );
+
+    if (daysUntilEffective >= 7) {
+      return 0.05; // 5% discount for advance quotes
+    }
+
+    return 0;
+  }
+
+  /**
+   * Calculate paperless discount
+   *
+   * Customers who opt for electronic documents and payment reduce
+   * insurer's administrative costs and earn a small discount.
+   *
+   * @param isPaperless - Customer enrolled in paperless
+   * @returns Discount percentage (0 - 0.05)
+   */
+  private calculatePaperlessDiscount(isPaperless?: boolean): number {
+    if (!isPaperless) {
+      return 0;
+    }
+
+    // 4% discount for paperless
+    return 0.04;
+  }
+
+  /**
+   * Calculate multi-policy discount
+   *
+   * Customers who also hold a home, renters or other policy with us
+   * retain longer and earn a bundling discount.
+   *
+   * @param hasOtherPolicies - Customer holds another policy with us
+   * @returns Discount percentage (0 - 0.10)
+   */
+  private calculateMultiPolicyDiscount(hasOtherPolicies?: boolean): number {
+    if (!hasOtherPolicies) {
+      return 0;
+    }
+
+    // 10% discount for bundled policies
+    return 0.10;
+  }
+
+  /**
+   * Calculate pay-in-full discount
+   *
+   * Paying the full term premium up front removes installment billing
+   * costs and non-payment cancellations.
+   *
+   * @param payInFull - Customer pays the full term premium up front
+   * @returns Discount percentage (0 - 0.07)
+   */
+  private calculatePayInFullDiscount(payInFull?: boolean): number {
+    if (!payInFull) {
+      return 0;
+    }
+
+    // 7% discount for paying in full
+    return 0.07;
+  }
+
+  /**
+   * Explain the low mileage discount decision
+   */
+  private explainLowMileage(annualMileage?: number): string {
+    if (!annualMileage) {
+      return 'No annual mileage on file';
+    }
+
+    return annualMileage < 10000
+      ? `Drives ${annualMileage.toLocaleString('en-US')} miles a year (under 10,000)`
+      : `Drives ${annualMileage.toLocaleString('en-US')} miles a year; under 10,000 qualifies`;
+  }
+
+  /**
+   * Get total discount percentage from discount array
+   *
+   * @param discounts - Array of discount info
+   * @returns Total discount percentage
+   */
+  getTotalDiscountPercentage(discounts: DiscountInfo[]): number {
+    return discounts.reduce((sum, d) => sum + d.percentage, 0);
+  }
+
+  /**
+   * Get total discount dollar amount from discount array
+   *
+   * @param discounts - Array of discount info
+   * @returns Total discount dollar amount
+   */
+  getTotalDiscountAmount(discounts: DiscountInfo[]): number {
+    return discounts.reduce((sum, d) => sum + d.amount, 0);
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * Driver Rating Service (T055)
+ *
+ * Calculates rating factors based on the drivers on the quote:
+ * - Primary driver age factor (DRIVER_AGE band table)
+ * - Additional drivers load (ADDITIONAL_DRIVER per listed driver)
+ *
+ * Driver characteristics are the strongest predictor of claim frequency and severity.
+ * Younger, inexperienced drivers have significantly higher accident rates.
+ * Driving record (violations, accidents) is rated as surcharges, not here.
+ *
+ * @module DriverRatingService
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import { RateBook } from './rate-book';
+
+/**
+ * Violation types collected on the quote. Severity (and so the surcharge and
+ * its lookback window) is derived from the type by the rating engine.
+ */
+export const VIOLATION_TYPES = [
+  'SPEEDING', // Minor: under 20 mph over
+  'SPEEDING_20_OVER', // Moderate
+  'FAILURE_TO_YIELD', // Moderate
+  'RED_LIGHT', // Minor
+  'ILLEGAL_TURN', // Minor
+  'DUI', // Major
+  'RECKLESS_DRIVING', // Major
+  'HIT_AND_RUN', // Major
+] as const;
+
+/**
+ * Accident types collected on the quote
+ */
+export const ACCIDENT_TYPES = ['COLLISION', 'SINGLE_VEHICLE', 'PROPERTY_DAMAGE', 'PEDESTRIAN'] as const;
+
+/**
+ * Driver violation information
+ */
+export interface DriverViolation {
+  type: string; // SPEEDING, DUI, RECKLESS_DRIVING, etc.
+  date: Date | string;
+}
+
+/**
+ * Driver accident information
+ */
+export interface DriverAccident {
+  type: string; // COLLISION, PROPERTY_DAMAGE, etc.
+  atFault: boolean;
+  date: Date | string;
+}
+
+/**
+ * Driver information for rating
+ */
+export interface DriverInfo {
+  firstName?: string;
+  lastName?: string;
+  email?: string | null;
+  birthDate: Date | string;
+  gender?: string | null;
+  maritalStatus?: string | null;
+  yearsLicensed?: number | null;
+  goodStudent?: boolean | null; // Full-time student with a B average or better
+  defensiveDrivingCourse?: boolean | null; // Completed an approved defensive driving course
+  violations?: DriverViolation[];
+  accidents?: DriverAccident[];
+}
+
+/**
+ * Detailed breakdown of driver rating factors
+ */
+export interface DriverFactorDetails {
+  age: number;
+  ageFactor: number;
+  additionalDriverCount: number;
+  additionalDriversFactor: number;
+  totalFactor: number;
+}
+
+/**
+ * Driver Rating Service
+ *
+ * Analyzes driver characteristics to determine risk-based premium multipliers.
+ * Driver factors are typically the most significant component of auto insurance rating.
+ */
+@Injectable()
+export class DriverRatingService {
+  private readonly logger = new Logger(DriverRatingService.name);
+
+  /**
+   * Get detailed breakdown of driver rating factors
+   *
+   * @param driver - Primary driver
+   * @param additionalDrivers - Other drivers listed on the quote
+   * @param rates - Rate book in force on the rating date
+   * @param asOf - Date the driver age is measured from (defaults to today)
+   * @returns Detailed factor breakdown
+   */
+  getFactorDetails(
+    driver: DriverInfo,
+    additionalDrivers: DriverInfo[],
+    rates: RateBook,
+    asOf: Date | string = new Date()
+  ): DriverFactorDetails {
+    const age = this.calculateAge(driver.birthDate, asOf);
+    const ageFactor = rates.band('DRIVER_AGE', age);
+
+    // Each additional driver adds a flat load
+    let additionalDriversFactor = 1.0;
+    if (additionalDrivers.length > 0) {
+      additionalDriversFactor = 1 + (additionalDrivers.length * rates.lookup('ADDITIONAL_DRIVER'));
+    }
+
+    const totalFactor = ageFactor * additionalDriversFactor;
+
+    this.logger.debug('Driver factors calculated', { age, ageFactor, additionalDriversFactor });
+
+    return {
+      age,
+      ageFactor,
+      additionalDriverCount: additionalDrivers.length,
+      additionalDriversFactor,
+      totalFactor,
+    };
+  }
+
+  /**
+   * Calculate age in whole years from a birth date
+   *
+   * @param birthDate - Driver birth date
+   * @param asOf - Date the age is measured on (defaults to today)
+   * @returns Age in years
+   */
+  calculateAge(birthDate: Date | string, asOf: Date | string = new Date()): number {
+    const birth = new Date(birthDate);
+    return Math.floor((new Date(asOf).getTime() - birth.getTime()) / (365.25 * 24 * 60 * 60 * 1000));
+  }
+}
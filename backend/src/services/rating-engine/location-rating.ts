@@ -0,0 +1,105 @@
+/**
+ * Location Rating Service (T056)
+ *
+ * Calculates rating factors based on the garaging location:
+ * - Territory type classification from ZIP code (urban, suburban, rural)
+ * - Territory factor (TERRITORY table, keyed by territory type)
+ *
+ * Geographic location impacts insurance rates through:
+ * - Population density (more cars = more accidents)
+ * - Crime rates (theft and vandalism)
+ * - Repair costs (urban areas typically higher)
+ *
+ * @module LocationRatingService
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import { RateBook } from './rate-book';
+
+/**
+ * Territory classification
+ */
+export type TerritoryType = 'URBAN' | 'SUBURBAN' | 'RURAL';
+
+/**
+ * Location information for rating
+ */
+export interface LocationInfo {
+  zipCode?: string | null;
+  state?: string | null;
+  city?: string | null;
+}
+
+/**
+ * Detailed breakdown of location rating factors
+ */
+export interface LocationFactorDetails {
+  state: string | null;
+  zipCode: string | null;
+  territoryType: TerritoryType | null;
+  territoryFactor: number;
+  totalFactor: number;
+}
+
+/**
+ * Location Rating Service
+ *
+ * Analyzes geographic characteristics to determine location-based risk.
+ * Territory rating is essential for accurate pricing and risk management.
+ */
+@Injectable()
+export class LocationRatingService {
+  private readonly logger = new Logger(LocationRatingService.name);
+
+  /**
+   * Get detailed breakdown of location rating factors
+   *
+   * Quotes without a ZIP code yet (early in the flow) rate with the
+   * TERRITORY table's DEFAULT row.
+   *
+   * @param location - Location information
+   * @param rates - Rate book in force on the rating date
+   * @returns Detailed factor breakdown
+   */
+  getFactorDetails(location: LocationInfo | undefined, rates: RateBook): LocationFactorDetails {
+    const zipCode = location?.zipCode || null;
+    const territoryType = zipCode ? this.determineTerritoryType(zipCode) : null;
+    const territoryFactor = rates.lookup('TERRITORY', territoryType);
+
+    this.logger.debug('Location factors calculated', { zipCode, territoryType, territoryFactor });
+
+    return {
+      state: location?.state?.toUpperCase() || null,
+      zipCode,
+      territoryType,
+      territoryFactor,
+      totalFactor: territoryFactor,
+    };
+  }
+
+  /**
+   * Determine territory type from ZIP code
+   *
+   * Helper method to classify ZIP codes as urban/suburban/rural.
+   * In production, this would use official HUD or Census classifications.
+   *
+   * @param zipCode - Five-digit ZIP code
+   * @returns Territory type classification
+   */
+  determineTerritoryType(zipCode: string): TerritoryType {
+    // Simulate territory classification
+    // In production, would lookup in reference database
+
+    const zipNumber = parseInt(zipCode, 10);
+    const lastTwoDigits = zipNumber % 100;
+
+    // Simplified logic for demo
+    if (lastTwoDigits < 30) {
+      return 'URBAN'; // ~30% urban
+    } else if (lastTwoDigits < 70) {
+      return 'SUBURBAN'; // ~40% suburban
+    } else {
+      return 'RURAL'; // ~30% rural
+    }
+  }
+}
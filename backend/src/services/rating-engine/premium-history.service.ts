@@ -0,0 +1,235 @@
+/**
+ * Premium History Service
+ *
+ * Records every premium calculation to the premium_calculation table with the
+ * inputs that were rated, the rate-table version used, the factor breakdown
+ * and the result, and reads them back as a timeline.
+ *
+ * The quote snapshot only holds the latest premium; this history is what
+ * explains why a customer's price changed between screens.
+ *
+ * Each recorded calculation also replaces the quote's applied discounts and
+ * surcharges in the discount and surcharge tables, so they always hold the
+ * adjustments on the current price.
+ */
+
+import { Injectable, Inject, Logger } from '@nestjs/common';
+import { asc, eq } from 'drizzle-orm';
+import { premiumCalculation } from '../../../../database/schema/premium-calculation.schema';
+import { discount } from '../../../../database/schema/discount.schema';
+import { surcharge } from '../../../../database/schema/surcharge.schema';
+import type { PremiumCalculation } from '../../../../database/schema/premium-calculation.schema';
+import type { Database } from '../../database/drizzle.config';
+import { DATABASE_CONNECTION } from '../../database/database.module';
+import type { RatingInput, RatingOutput } from './rating-engine.service';
+
+/**
+ * What caused a premium calculation (stored as calculation_trigger)
+ */
+export const PremiumCalculationTrigger = {
+  QUOTE_CREATED: 'QUOTE_CREATED',
+  PRIMARY_DRIVER_UPDATED: 'PRIMARY_DRIVER_UPDATED',
+  DRIVERS_UPDATED: 'DRIVERS_UPDATED',
+  VEHICLES_UPDATED: 'VEHICLES_UPDATED',
+  COVERAGE_UPDATED: 'COVERAGE_UPDATED',
+  PREFERENCES_UPDATED: 'PREFERENCES_UPDATED',
+  ENDORSEMENT: 'ENDORSEMENT', // Mid-term change on a bound policy
+  RENEWAL: 'RENEWAL', // Re-rated for a renewal term
+  REQUOTED: 'REQUOTED', // Expired quote cloned into a new quote at current rates
+} as const;
+
+export type PremiumCalculationTriggerCode = typeof PremiumCalculationTrigger[keyof typeof PremiumCalculationTrigger];
+
+/**
+ * One entry in a quote's premium timeline
+ */
+export interface PremiumHistoryEntry {
+  calculationId: string;
+  calculatedAt: Date;
+  trigger: string | null;
+  rateVersion: string | null;
+  inputs: unknown;
+  factors: {
+    vehicle: unknown;
+    driver: unknown;
+    location: unknown;
+    coverage: unknown;
+    totalMultiplier: number | null;
+  };
+  basePremium: number;
+  adjustedPremium: number | null;
+  discounts: unknown;
+  totalDiscounts: number;
+  surcharges: unknown;
+  totalSurcharges: number;
+  subtotal: number;
+  premiumTax: number;
+  policyFee: number;
+  dmvFee: number;
+  totalPremium: number;
+  change: number | null; // Subtotal change from the previous calculation
+}
+
+@Injectable()
+export class PremiumHistoryService {
+  private readonly logger = new Logger(PremiumHistoryService.name);
+
+  constructor(
+    @Inject(DATABASE_CONNECTION) private readonly db: Database
+  ) {}
+
+  /**
+   * Record a premium calculation
+   *
+   * @param policyId - Policy (quote) the calculation belongs to
+   * @param input - Rating input as passed to the rating engine
+   * @param rating - Rating engine output
+   * @param trigger - What caused the calculation
+   * @param tx - Transaction to write in (defaults to the shared connection)
+   */
+  async record(
+    policyId: string,
+    input: RatingInput,
+    rating: RatingOutput,
+    trigger: PremiumCalculationTriggerCode,
+    tx: Pick<Database, 'insert' | 'delete'> = this.db
+  ): Promise<void> {
+    const amountOf = (lines: Array<{ type: string; amount: number }>, type: string) =>
+      lines.find(line => line.type === type)?.amount ?? 0;
+
+    await tx.insert(premiumCalculation).values({
+      policy_identifier: policyId,
+      base_premium: rating.basePremium.toFixed(2),
+      input_snapshot: {
+        ...input,
+        effectiveDate: input.effectiveDate ?? rating.ratingDate,
+        asOfDate: input.asOfDate ?? rating.ratedAt,
+      },
+      vehicle_factors: {
+        vehicles: rating.breakdown.vehicles,
+        vehiclePremium: rating.vehiclePremium,
+        multiCarFactor: rating.multiCarFactor,
+      },
+      driver_factors: rating.breakdown.factorDetails.driver,
+      location_factors: rating.breakdown.factorDetails.location,
+      coverage_factors: rating.breakdown.factorDetails.coverage,
+      discounts_applied: rating.discounts,
+      surcharges_applied: rating.surcharges,
+      total_factor_multiplier: (rating.driverFactor * rating.coverageFactor * rating.locationFactor).toFixed(4),
+      subtotal_before_discounts: rating.adjustedPremium.toFixed(2),
+      total_discount_amount: rating.totalDiscounts.toFixed(2),
+      total_surcharge_amount: rating.totalSurcharges.toFixed(2),
+      premium_tax_amount: amountOf(rating.taxes, 'PREMIUM_TAX').toFixed(2),
+      policy_fee_amount: amountOf(rating.fees, 'POLICY_FEE').toFixed(2),
+      dmv_fee_amount: amountOf(rating.fees, 'DMV_FEE').toFixed(2),
+      total_premium: rating.totalPremium.toFixed(2),
+      calculation_version: rating.rateVersion,
+      calculation_trigger: trigger,
+    });
+
+    // Applied discounts on the quote's current price
+    await tx.delete(discount).where(eq(discount.policy_identifier, policyId));
+    if (rating.discounts.length > 0) {
+      await tx.insert(discount).values(
+        rating.discounts.map(applied => ({
+          policy_identifier: policyId,
+          discount_code: applied.code,
+          discount_name: applied.name,
+          discount_description: applied.explanation,
+          discount_type: applied.code,
+          discount_percentage: applied.percentage.toFixed(2),
+          discount_amount: applied.amount.toFixed(2),
+        }))
+      );
+    }
+
+    // Applied surcharges on the quote's current price
+    await tx.delete(surcharge).where(eq(surcharge.policy_identifier, policyId));
+    if (rating.surcharges.length > 0) {
+      await tx.insert(surcharge).values(
+        rating.surcharges.map(applied => ({
+          policy_identifier: policyId,
+          surcharge_code: applied.code,
+          surcharge_name: applied.name,
+          surcharge_description: applied.description,
+          surcharge_type: applied.code,
+          surcharge_percentage: applied.percentage.toFixed(2),
+          surcharge_amount: applied.amount.toFixed(2),
+        }))
+      );
+    }
+
+    this.logger.debug('Premium calculation recorded', {
+      policyId,
+      trigger,
+      rateVersion: rating.rateVersion,
+      subtotal: rating.subtotal,
+    });
+  }
+
+  /**
+   * Get the premium timeline for a policy, oldest first
+   *
+   * @param policyId - Policy (quote) identifier
+   */
+  async getHistory(policyId: string): Promise<PremiumHistoryEntry[]> {
+    const rows = await this.db
+      .select()
+      .from(premiumCalculation)
+      .where(eq(premiumCalculation.policy_identifier, policyId))
+      .orderBy(asc(premiumCalculation.calculation_timestamp));
+
+    let previousSubtotal: number | null = null;
+
+    return rows.map((row: PremiumCalculation) => {
+      const entry = this.toHistoryEntry(row, previousSubtotal);
+      previousSubtotal = entry.subtotal;
+      return entry;
+    });
+  }
+
+  /**
+   * Map a premium_calculation row to a timeline entry
+   */
+  private toHistoryEntry(row: PremiumCalculation, previousSubtotal: number | null): PremiumHistoryEntry {
+    const toNumber = (value: string | null) => (value === null ? null : parseFloat(value));
+
+    const adjustedPremium = toNumber(row.subtotal_before_discounts);
+    const totalDiscounts = toNumber(row.total_discount_amount) ?? 0;
+    const totalSurcharges = toNumber(row.total_surcharge_amount) ?? 0;
+    const premiumTax = toNumber(row.premium_tax_amount) ?? 0;
+    const policyFee = toNumber(row.policy_fee_amount) ?? 0;
+    const dmvFee = toNumber(row.dmv_fee_amount) ?? 0;
+    const totalPremium = parseFloat(row.total_premium);
+
+    // Quoted premium before taxes and fees
+    const subtotal = Math.round((totalPremium - premiumTax - policyFee - dmvFee) * 100) / 100;
+
+    return {
+      calculationId: row.premium_calculation_identifier,
+      calculatedAt: row.calculation_timestamp,
+      trigger: row.calculation_trigger,
+      rateVersion: row.calculation_version,
+      inputs: row.input_snapshot,
+      factors: {
+        vehicle: row.vehicle_factors,
+        driver: row.driver_factors,
+        location: row.location_factors,
+        coverage: row.coverage_factors,
+        totalMultiplier: toNumber(row.total_factor_multiplier),
+      },
+      basePremium: parseFloat(row.base_premium),
+      adjustedPremium,
+      discounts: row.discounts_applied,
+      totalDiscounts,
+      surcharges: row.surcharges_applied,
+      totalSurcharges,
+      subtotal,
+      premiumTax,
+      policyFee,
+      dmvFee,
+      totalPremium,
+      change: previousSubtotal === null ? null : Math.round((subtotal - previousSubtotal) * 100) / 100,
+    };
+  }
+}
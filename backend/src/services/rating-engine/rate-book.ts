@@ -0,0 +1,147 @@
+/**
+ * Rate Book
+ *
+ * In-memory view of the rating_table rows in force on a single rating date.
+ * Premium calculations look up base rates and multipliers here instead of
+ * hard-coding them, so actuaries can change rates with a data load.
+ *
+ * Lookups are keyed by table_name + lookup_key_1..3. Band tables store the
+ * inclusive minimum in lookup_key_1 and the inclusive maximum in lookup_key_2.
+ */
+
+/**
+ * Minimal rating_table row shape needed to build a rate book
+ */
+export interface RateRow {
+  table_name: string;
+  lookup_key_1?: string | null;
+  lookup_key_2?: string | null;
+  lookup_key_3?: string | null;
+  rate_value: string | number;
+  effective_date: string;
+}
+
+/**
+ * Lookup key used when a selection has no exact row
+ */
+export const DEFAULT_RATE_KEY = 'DEFAULT';
+
+/**
+ * Thrown when a required rate is missing from the rating tables
+ */
+export class RateNotFoundError extends Error {
+  constructor(
+    public tableName: string,
+    public keys: Array<string | null | undefined>,
+    public ratingDate: string,
+  ) {
+    super(`No rate found in ${tableName} for [${keys.filter(k => k != null).join(', ')}] on ${ratingDate}`);
+    this.name = 'RateNotFoundError';
+  }
+}
+
+/**
+ * Rate Book
+ */
+export class RateBook {
+  /**
+   * Rate version identifier (latest effective_date among the loaded rows)
+   */
+  readonly version: string;
+
+  private readonly tables = new Map<string, RateRow[]>();
+
+  constructor(
+    rows: RateRow[],
+    readonly ratingDate: string,
+  ) {
+    for (const row of rows) {
+      const tableRows = this.tables.get(row.table_name) || [];
+      tableRows.push(row);
+      this.tables.set(row.table_name, tableRows);
+    }
+
+    this.version = rows.reduce(
+      (latest, row) => (String(row.effective_date) > latest ? String(row.effective_date) : latest),
+      '',
+    );
+  }
+
+  /**
+   * Number of rating tables loaded
+   */
+  get tableCount(): number {
+    return this.tables.size;
+  }
+
+  /**
+   * Look up a rate by exact keys, falling back to the table's DEFAULT row
+   *
+   * @throws RateNotFoundError if neither an exact nor a DEFAULT row exists
+   */
+  lookup(tableName: string, key1?: string | number | null, key2?: string | number | null, key3?: string | number | null): number {
+    const rows = this.tables.get(tableName) || [];
+    const keys = [key1, key2, key3].map(k => (k === undefined || k === null ? null : String(k)));
+
+    const exact = rows.find(row =>
+      (row.lookup_key_1 ?? null) === keys[0] &&
+      (row.lookup_key_2 ?? null) === keys[1] &&
+      (row.lookup_key_3 ?? null) === keys[2]
+    );
+    if (exact) {
+      return Number(exact.rate_value);
+    }
+
+    const fallback = rows.find(row => row.lookup_key_1 === DEFAULT_RATE_KEY);
+    if (fallback) {
+      return Number(fallback.rate_value);
+    }
+
+    throw new RateNotFoundError(tableName, keys, this.ratingDate);
+  }
+
+  /**
+   * Look up a rate from a band table (lookup_key_1 = min, lookup_key_2 = max, inclusive)
+   *
+   * @throws RateNotFoundError if no band contains the value
+   */
+  band(tableName: string, value: number): number {
+    const rows = this.tables.get(tableName) || [];
+
+    const match = rows.find(row => {
+      const min = row.lookup_key_1 != null && row.lookup_key_1 !== '' ? Number(row.lookup_key_1) : -Infinity;
+      const max = row.lookup_key_2 != null && row.lookup_key_2 !== '' ? Number(row.lookup_key_2) : Infinity;
+      return value >= min && value <= max;
+    });
+
+    if (!match) {
+      throw new RateNotFoundError(tableName, [String(value)], this.ratingDate);
+    }
+
+    return Number(match.rate_value);
+  }
+}
+
+/**
+ * Normalize a split liability limit to the rating table key format
+ *
+ * "100000/300000" and "100/300" both become "100/300". Anything that is not
+ * a plain split limit is returned unchanged (and will hit the DEFAULT row).
+ */
+export function normalizeSplitLimit(limit: string | null | undefined): string | null {
+  if (!limit) {
+    return null;
+  }
+
+  if (!/^\d+\/\d+$/.test(limit)) {
+    return limit;
+  }
+
+  return limit
+    .split('/')
+    .map(part => {
+      const amount = parseInt(part, 10);
+      return String(amount >= 1000 ? amount / 1000 : amount);
+    })
+    .join('/');
+}
@@ -0,0 +1,84 @@
+/**
+ * Rate Table Service
+ *
+ * Loads the rating_table rows in force on a given date and exposes them as a
+ * RateBook for premium calculation.
+ *
+ * A row is in force when effective_date <= rating date and expiration_date is
+ * either null or after the rating date. Rate books are cached per rating date
+ * for a few minutes so a quote flow doesn't re-query on every screen.
+ */
+
+import { Injectable, Inject, Logger } from '@nestjs/common';
+import { and, gt, isNull, lte, or } from 'drizzle-orm';
+import { ratingTable } from '../../../../database/schema/rating-table.schema';
+import type { Database } from '../../database/drizzle.config';
+import { DATABASE_CONNECTION } from '../../database/database.module';
+import { formatDateToYYYYMMDD } from '../../utils/validators';
+import { RateBook } from './rate-book';
+
+/**
+ * How long a loaded rate book is reused (5 minutes)
+ */
+const RATE_BOOK_CACHE_TTL_MS = 5 * 60 * 1000;
+
+@Injectable()
+export class RateTableService {
+  private readonly logger = new Logger(RateTableService.name);
+  private readonly cache = new Map<string, { book: RateBook; loadedAt: number }>();
+
+  constructor(
+    @Inject(DATABASE_CONNECTION) private readonly db: Database
+  ) {}
+
+  /**
+   * Get the rate book in force on a rating date
+   *
+   * @param asOf - Rating date (Date or YYYY-MM-DD), defaults to today
+   * @throws Error if no rating tables are in force on that date
+   */
+  async getRateBook(asOf: Date | string = new Date()): Promise<RateBook> {
+    const ratingDate = typeof asOf === 'string' ? asOf.slice(0, 10) : formatDateToYYYYMMDD(asOf);
+
+    const cached = this.cache.get(ratingDate);
+    if (cached && Date.now() - cached.loadedAt < RATE_BOOK_CACHE_TTL_MS) {
+      return cached.book;
+    }
+
+    const rows = await this.db
+      .select()
+      .from(ratingTable)
+      .where(
+        and(
+          lte(ratingTable.effective_date, ratingDate),
+          or(isNull(ratingTable.expiration_date), gt(ratingTable.expiration_date, ratingDate))
+        )
+      );
+
+    if (rows.length === 0) {
+      throw new Error(
+        `No rating tables in force on ${ratingDate}. ` +
+        'Load rates with "npm run db:seed" from the backend directory.'
+      );
+    }
+
+    const book = new RateBook(rows, ratingDate);
+    this.cache.set(ratingDate, { book, loadedAt: Date.now() });
+
+    this.logger.debug('Loaded rate book', {
+      ratingDate,
+      version: book.version,
+      tables: book.tableCount,
+      rows: rows.length,
+    });
+
+    return book;
+  }
+
+  /**
+   * Drop cached rate books (e.g. after loading new rates)
+   */
+  clearCache(): void {
+    this.cache.clear();
+  }
+}
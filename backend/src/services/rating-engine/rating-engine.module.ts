@@ -5,11 +5,15 @@
  *
  * This module provides all the rating calculators needed to calculate
  * insurance premiums based on vehicle, driver, location, and coverage factors.
+ * Rates are read from the rating_table entity rather than hard-coded.
+ *
+ * Controllers:
+ * - RatingController: rating replay for audit (POST /api/v1/rating/replay)
  */
 
 import { Module } from '@nestjs/common';
-import { RatingEngineController } from '../../api/routes/rating.controller';
-import { PremiumCalculator } from './premium-calculator';
+import { DatabaseModule } from '../../database/database.module';
+import { RateTableService } from './rate-table.service';
 import { VehicleRatingService } from './vehicle-rating';
 import { DriverRatingService } from './driver-rating';
 import { LocationRatingService } from './location-rating';
@@ -18,14 +22,16 @@ import { DiscountCalculator } from './discount-calculator';
 import { SurchargeCalculator } from './surcharge-calculator';
 import { TaxFeeCalculator } from './tax-fee-calculator';
 import { RatingEngineService } from './rating-engine.service';
+import { PremiumHistoryService } from './premium-history.service';
+import { RatingReplayService } from './rating-replay.service';
+import { RatingController } from '../../api/routes/rating.controller';
 
 @Module({
-  controllers: [
-    RatingEngineController, // REST endpoints for rating calculations
-  ],
+  imports: [DatabaseModule],
+  controllers: [RatingController],
   providers: [
-    // Main orchestrator
-    PremiumCalculator,
+    // Rate tables in force on a rating date
+    RateTableService,
 
     // Rating factor calculators
     VehicleRatingService,
@@ -42,11 +48,15 @@ import { RatingEngineService } from './rating-engine.service';
 
     // Rating engine service (facade)
     RatingEngineService,
+
+    // Premium calculation audit trail and replay
+    PremiumHistoryService,
+    RatingReplayService,
   ],
   exports: [
-    // Export PremiumCalculator so other modules can use it
-    PremiumCalculator,
+    RateTableService,
     RatingEngineService,
+    PremiumHistoryService,
 
     // Export individual calculators in case they're needed
     VehicleRatingService,
@@ -0,0 +1,403 @@
+/**
+ * Rating Engine Service (T053)
+ *
+ * Base rating engine service that orchestrates the premium calculation process.
+ * Combines all rating factors (vehicle, driver, location, coverage) to produce
+ * the final premium amount with itemized breakdown.
+ *
+ * This is the main entry point for premium calculations and coordinates:
+ * - Vehicle rating factors (age, deductibles, add-ons, multi-car)
+ * - Driver rating factors (age, additional drivers)
+ * - Location rating factors (territory)
+ * - Coverage rating factors (liability and medical limits)
+ * - Discount application
+ * - Surcharge application
+ * - Tax and fee calculation
+ *
+ * All base rates and factors come from the rate book (rating_table rows in
+ * force on the rating date).
+ *
+ * Formula: Σ Vehicle Premiums × Multi-Car × Driver Factor × Coverage Factor × Location Factor
+ *          - Discounts + Surcharges = Subtotal; Subtotal + Taxes + Fees = Total Premium
+ *
+ * @module RatingEngineService
+ */
+
+import { Injectable, Inject, Logger } from '@nestjs/common';
+import { VehicleRatingService, VehicleInfo, VehicleFactorDetails } from './vehicle-rating';
+import { DriverRatingService, DriverInfo, DriverFactorDetails } from './driver-rating';
+import { LocationRatingService, LocationInfo, LocationFactorDetails } from './location-rating';
+import { CoverageRatingService, CoverageSelections, CoverageFactorDetails } from './coverage-rating';
+import { DiscountCalculator, DiscountInfo, DiscountEligibility } from './discount-calculator';
+import { SurchargeCalculator, SurchargeInfo } from './surcharge-calculator';
+import { TaxFeeCalculator, TaxFeeLine } from './tax-fee-calculator';
+import { RateTableService } from './rate-table.service';
+import { RateBook } from './rate-book';
+
+/**
+ * Input data for rating calculation (quote snapshot shape)
+ */
+export interface RatingInput {
+  // Drivers
+  driver: DriverInfo;
+  additionalDrivers?: DriverInfo[];
+
+  // Vehicles
+  vehicles?: VehicleInfo[];
+
+  // Garaging location
+  location?: LocationInfo;
+
+  // Coverage selections
+  coverages?: CoverageSelections;
+  vehicleCoverages?: Array<{ vehicle_index: number; collision_deductible: number; comprehensive_deductible: number }> | null;
+  vehicleAddOns?: Array<{ vehicle_index: number; rental_reimbursement?: boolean; additional_equipment_amount?: number; original_parts_replacement?: boolean }> | null;
+
+  // Additional quote parameters
+  effectiveDate?: Date | string; // Defaults to the rate book's rating date
+  asOfDate?: Date | string; // Date the quote is rated on (ages, lookbacks); defaults to today
+  policyTerm?: number; // months, defaults to 6
+  annualMileage?: number;
+
+  // Discount eligibility flags
+  homeownerDiscount?: boolean;
+  defensiveDrivingCourse?: boolean; // Defaults to the primary driver's course completion
+  paperlessDiscount?: boolean; // Electronic document delivery
+  multiPolicyDiscount?: boolean; // Holds another policy with us
+  payInFullDiscount?: boolean; // Pays the full term premium up front
+}
+
+/**
+ * Output of rating calculation with complete breakdown
+ */
+export interface RatingOutput {
+  rateVersion: string;
+  ratingDate: string;
+  ratedAt: string; // Clock date the quote was rated on (ISO timestamp)
+  basePremium: number;
+  vehiclePremium: number;
+  multiCarFactor: number;
+  driverFactor: number;
+  locationFactor: number;
+  coverageFactor: number;
+  adjustedPremium: number;
+  discounts: DiscountInfo[];
+  discountEligibility: DiscountEligibility[]; // Every discount, with why it was or wasn't applied
+  totalDiscounts: number;
+  surcharges: SurchargeInfo[];
+  totalSurcharges: number;
+  subtotal: number;
+  taxes: TaxFeeLine[];
+  fees: TaxFeeLine[];
+  totalTaxesAndFees: number;
+  totalPremium: number;
+  breakdown: {
+    vehicles: VehicleFactorDetails[];
+    factorDetails: {
+      driver: DriverFactorDetails;
+      location: LocationFactorDetails;
+      coverage: CoverageFactorDetails;
+    };
+  };
+}
+
+/**
+ * Default policy term in months (premium is quoted per six-month term)
+ */
+export const DEFAULT_POLICY_TERM_MONTHS = 6;
+
+/**
+ * Rating Engine Service
+ *
+ * Orchestrates the entire premium calculation workflow by calling specialized
+ * rating calculators and combining their results.
+ */
+@Injectable()
+export class RatingEngineService {
+  private readonly logger = new Logger(RatingEngineService.name);
+
+  constructor(
+    @Inject(RateTableService) private readonly rateTables: RateTableService,
+    @Inject(VehicleRatingService) private readonly vehicleRating: VehicleRatingService,
+    @Inject(DriverRatingService) private readonly driverRating: DriverRatingService,
+    @Inject(LocationRatingService) private readonly locationRating: LocationRatingService,
+    @Inject(CoverageRatingService) private readonly coverageRating: CoverageRatingService,
+    @Inject(DiscountCalculator) private readonly discountCalculator: DiscountCalculator,
+    @Inject(SurchargeCalculator) private readonly surchargeCalculator: SurchargeCalculator,
+    @Inject(TaxFeeCalculator) private readonly taxFeeCalculator: TaxFeeCalculator,
+  ) {}
+
+  /**
+   * Calculate premium for an auto insurance quote
+   *
+   * Loads the rates in force on the effective date and rates the quote.
+   *
+   * @param input - Rating calculation input data
+   * @returns Complete premium breakdown with all factors
+   */
+  async calculatePremium(input: RatingInput): Promise<RatingOutput> {
+    const rates = await this.rateTables.getRateBook(input.effectiveDate);
+    return this.rate(input, rates);
+  }
+
+  /**
+   * Rate a quote against a specific rate book
+   *
+   * This method orchestrates the entire rating process:
+   * 1. Rate each vehicle (base premium × vehicle factors) and apply multi-car factor
+   * 2. Apply driver rating factors
+   * 3. Apply coverage (limit) factors
+   * 4. Apply location rating factors
+   * 5. Apply discounts
+   * 6. Apply surcharges
+   * 7. Add taxes and fees
+   *
+   * @param input - Rating calculation input data
+   * @param rates - Rate book in force on the rating date
+   * @returns Complete premium breakdown with all factors
+   */
+  rate(input: RatingInput, rates: RateBook): RatingOutput {
+    try {
+      // Ages and lookback windows are measured from the rating clock date
+      const asOfDate = input.asOfDate || new Date();
+
+      // Step 1: Vehicle premiums
+      const basePremium = rates.lookup('BASE_PREMIUM');
+      const vehicles = input.vehicles || [];
+      const vehicleDetails = vehicles.map((vehicle, index) =>
+        this.vehicleRating.getFactorDetails(vehicle, index, this.getVehicleSelection(input, index), rates, asOfDate)
+      );
+
+      let vehiclePremium = 0;
+      vehicleDetails.forEach(details => {
+        vehiclePremium += details.premium;
+      });
+
+      const multiCarFactor = this.vehicleRating.calculateMultiCarFactor(vehicles.length, rates);
+      if (vehicles.length > 1) {
+        vehiclePremium *= multiCarFactor;
+      }
+
+      // Steps 2-4: Policy-level rating factors
+      const driverDetails = this.driverRating.getFactorDetails(input.driver, input.additionalDrivers || [], rates, asOfDate);
+      const coverageDetails = this.coverageRating.getFactorDetails(input.coverages, rates);
+      const locationDetails = this.locationRating.getFactorDetails(input.location, rates);
+
+      // Adjusted premium (base × all factors), rounded to whole dollars
+      const adjustedPremium = Math.round(
+        vehiclePremium *
+        driverDetails.ageFactor *
+        driverDetails.additionalDriversFactor *
+        coverageDetails.totalFactor *
+        locationDetails.totalFactor
+      );
+
+      const effectiveDate = input.effectiveDate || rates.ratingDate;
+
+      // Step 5: Discounts (percent of adjusted premium)
+      const discountEligibility = this.discountCalculator
+        .evaluateDiscounts(
+          {
+            driver: {
+              age: driverDetails.age,
+              yearsLicensed: input.driver.yearsLicensed,
+              goodStudent: !!input.driver.goodStudent,
+              violations: input.driver.violations,
+              accidents: input.driver.accidents,
+            },
+            effectiveDate,
+            annualMileage: input.annualMileage,
+            homeownerDiscount: input.homeownerDiscount,
+            defensiveDrivingCourse: input.defensiveDrivingCourse ?? !!input.driver.defensiveDrivingCourse,
+            paperlessDiscount: input.paperlessDiscount,
+            multiPolicyDiscount: input.multiPolicyDiscount,
+            payInFullDiscount: input.payInFullDiscount,
+            asOfDate,
+          },
+          adjustedPremium
+        )
+        .map(discount => ({ ...discount, amount: this.roundCurrency(discount.amount) }));
+      const discounts: DiscountInfo[] = discountEligibility
+        .filter(discount => discount.eligible)
+        .map(({ code, name, amount, percentage, explanation }) => ({ code, name, amount, percentage, explanation }));
+
+      const totalDiscounts = this.roundCurrency(this.discountCalculator.getTotalDiscountAmount(discounts));
+      const premiumAfterDiscounts = adjustedPremium - totalDiscounts;
+
+      // Step 6: Surcharges (percent of premium after discounts). The driving
+      // record of every listed driver counts, not just the primary's.
+      const primaryVehicle = vehicles[0];
+      const listedDrivers = [input.driver, ...(input.additionalDrivers || [])];
+      const surcharges = this.surchargeCalculator
+        .calculateSurcharges(
+          {
+            vehicle: primaryVehicle
+              ? { make: primaryVehicle.make, model: primaryVehicle.model, year: primaryVehicle.year }
+              : undefined,
+            driver: {
+              age: driverDetails.age,
+              yearsLicensed: input.driver.yearsLicensed,
+              violations: listedDrivers.flatMap(d => d.violations || []).map(v => ({
+                type: v.type,
+                severity: this.determineViolationSeverity(v.type),
+                date: v.date,
+              })),
+              accidents: listedDrivers.flatMap(d => d.accidents || []),
+            },
+            annualMileage: input.annualMileage,
+            asOfDate,
+          },
+          premiumAfterDiscounts
+        )
+        .map(surcharge => ({ ...surcharge, amount: this.roundCurrency(surcharge.amount) }));
+
+      const totalSurcharges = this.roundCurrency(this.surchargeCalculator.getTotalSurchargeAmount(surcharges));
+
+      const subtotal = this.roundCurrency(premiumAfterDiscounts + totalSurcharges);
+
+      // Step 7: Taxes and fees
+      const taxFees = this.taxFeeCalculator.calculate({
+        premium: subtotal,
+        state: locationDetails.state || '',
+        policyTerm: input.policyTerm || DEFAULT_POLICY_TERM_MONTHS,
+      });
+
+      const stateLabel = locationDetails.state ? `${locationDetails.state.toUpperCase()} ` : '';
+      const taxes: TaxFeeLine[] = [{
+        type: 'PREMIUM_TAX',
+        name: `${stateLabel}Premium Tax (${taxFees.premiumTaxPercentage}%)`,
+        amount: taxFees.premiumTaxAmount,
+      }];
+      const fees: TaxFeeLine[] = [
+        { type: 'POLICY_FEE', name: 'Policy Fee', amount: taxFees.policyFeeAmount },
+        { type: 'DMV_FEE', name: `${stateLabel}DMV Fee`, amount: taxFees.dmvFeeAmount },
+      ];
+      const totalTaxesAndFees = this.roundCurrency(taxFees.totalTaxesAndFees);
+
+      const totalPremium = this.roundCurrency(subtotal + totalTaxesAndFees);
+
+      this.logger.debug('Premium calculation complete', {
+        rateVersion: rates.version,
+        vehiclePremium: Math.round(vehiclePremium),
+        driverFactor: driverDetails.totalFactor,
+        coverageFactor: coverageDetails.totalFactor,
+        locationFactor: locationDetails.totalFactor,
+        adjustedPremium,
+        totalDiscounts,
+        totalSurcharges,
+        subtotal,
+        totalPremium,
+      });
+
+      // Return comprehensive breakdown
+      return {
+        rateVersion: rates.version,
+        ratingDate: rates.ratingDate,
+        ratedAt: new Date(asOfDate).toISOString(),
+        basePremium,
+        vehiclePremium: this.roundCurrency(vehiclePremium),
+        multiCarFactor,
+        driverFactor: driverDetails.totalFactor,
+        locationFactor: locationDetails.totalFactor,
+        coverageFactor: coverageDetails.totalFactor,
+        adjustedPremium,
+        discounts,
+        discountEligibility,
+        totalDiscounts,
+        surcharges,
+        totalSurcharges,
+        subtotal,
+        taxes,
+        fees,
+        totalTaxesAndFees,
+        totalPremium,
+        breakdown: {
+          vehicles: vehicleDetails,
+          factorDetails: {
+            driver: driverDetails,
+            location: locationDetails,
+            coverage: coverageDetails,
+          },
+        },
+      };
+    } catch (error) {
+      this.logger.error(`Premium calculation failed: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Validate that calculated premium is within acceptable range
+   *
+   * Per spec SC-035: Premium calculations should produce market-realistic rates
+   * within industry ranges ($800-$3000/year for standard risk profiles)
+   *
+   * @param premium - Calculated premium amount
+   * @returns true if premium is within valid range
+   */
+  validatePremiumRange(premium: number): boolean {
+    const MIN_PREMIUM = 500;  // Minimum floor
+    const MAX_PREMIUM = 10000; // Maximum cap
+
+    return premium >= MIN_PREMIUM && premium <= MAX_PREMIUM;
+  }
+
+  /**
+   * Resolve physical damage and add-on selections for one vehicle
+   *
+   * Per-vehicle deductibles (vehicleCoverages) override the policy-level
+   * deductibles, which default to $500.
+   */
+  private getVehicleSelection(input: RatingInput, index: number) {
+    const coverages = input.coverages;
+    const vehicleCoverage = input.vehicleCoverages?.[index];
+    const addOns = input.vehicleAddOns?.[index];
+
+    return {
+      collision: !!(coverages?.collision || coverages?.hasCollision),
+      collisionDeductible: vehicleCoverage
+        ? vehicleCoverage.collision_deductible
+        : coverages?.collisionDeductible || 500,
+      comprehensive: !!(coverages?.comprehensive || coverages?.hasComprehensive),
+      comprehensiveDeductible: vehicleCoverage
+        ? vehicleCoverage.comprehensive_deductible
+        : coverages?.comprehensiveDeductible || 500,
+      rentalReimbursement: addOns?.rental_reimbursement,
+      additionalEquipmentAmount: addOns?.additional_equipment_amount,
+      originalPartsReplacement: addOns?.original_parts_replacement,
+    };
+  }
+
+  /**
+   * Determine violation severity
+   *
+   * Categorizes violations as MAJOR, MODERATE, or MINOR based on type.
+   *
+   * @param violationType - Type of violation
+   * @returns Severity level
+   */
+  private determineViolationSeverity(violationType: string): string {
+    const type = violationType?.toUpperCase() || '';
+
+    if (type.includes('DUI') || type.includes('RECKLESS') || type.includes('HIT') || type.includes('RUN')) {
+      return 'MAJOR';
+    }
+
+    if (type.includes('SPEEDING') && (type.includes('20') || type.includes('EXCESSIVE'))) {
+      return 'MODERATE';
+    }
+
+    if (type.includes('FAILURE') || type.includes('YIELD')) {
+      return 'MODERATE';
+    }
+
+    return 'MINOR';
+  }
+
+  /**
+   * Round currency to 2 decimal places
+   */
+  private roundCurrency(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
@@ -0,0 +1,287 @@
+/**
+ * Rating Replay Service
+ *
+ * Re-rates a stored quote for audit: the inputs in its quote_snapshot are
+ * rated under the rate tables in force when it was quoted ("original") and
+ * under the rate tables in force on a target date ("target", default today),
+ * and the two results are compared factor by factor.
+ *
+ * Replays are deterministic. Both runs use the clock date the quote was
+ * originally rated on for driver/vehicle ages and lookback windows, so the
+ * only thing that differs between them is the rate book.
+ */
+
+import { Injectable, Inject, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { eq } from 'drizzle-orm';
+import { policy } from '../../../../database/schema/policy.schema';
+import type { Database } from '../../database/drizzle.config';
+import { DATABASE_CONNECTION } from '../../database/database.module';
+import { formatDateToYYYYMMDD } from '../../utils/validators';
+import { RatingEngineService, RatingInput, RatingOutput } from './rating-engine.service';
+import { RateTableService } from './rate-table.service';
+import { RateBook } from './rate-book';
+
+/**
+ * One compared value in a rating diff
+ */
+export interface RatingDiffEntry {
+  name: string;
+  original: number | string | null;
+  target: number | string | null;
+  change: number | null; // target - original (numbers only)
+  changed: boolean;
+}
+
+/**
+ * Structured difference between two ratings of the same inputs
+ */
+export interface RatingDiff {
+  changed: boolean;
+  rateVersion: RatingDiffEntry;
+  vehicles: RatingDiffEntry[];
+  factors: RatingDiffEntry[];
+  discounts: RatingDiffEntry[];
+  surcharges: RatingDiffEntry[];
+  taxesAndFees: RatingDiffEntry[];
+  amounts: RatingDiffEntry[];
+}
+
+/**
+ * Result of replaying a quote
+ */
+export interface RatingReplayResult {
+  quoteNumber: string;
+  ratedAt: string;
+  quotedPremium: number | null; // Total stored on the quote (taxes and fees included)
+  reproducesQuotedPremium: boolean; // Original replay matches the stored premium and total
+  inputs: RatingInput;
+  original: RatingOutput;
+  target: RatingOutput;
+  diff: RatingDiff;
+}
+
+@Injectable()
+export class RatingReplayService {
+  private readonly logger = new Logger(RatingReplayService.name);
+
+  constructor(
+    @Inject(DATABASE_CONNECTION) private readonly db: Database,
+    @Inject(RateTableService) private readonly rateTables: RateTableService,
+    @Inject(RatingEngineService) private readonly ratingEngine: RatingEngineService,
+  ) {}
+
+  /**
+   * Replay a quote under its original rates and the rates in force on a target date
+   *
+   * @param quoteNumber - Quote to replay
+   * @param targetRateEffectiveDate - Rate effective date to compare against (YYYY-MM-DD, default today)
+   * @throws NotFoundException if the quote doesn't exist
+   * @throws BadRequestException if the target date is invalid or has no rates in force
+   */
+  async replay(quoteNumber: string, targetRateEffectiveDate?: string): Promise<RatingReplayResult> {
+    if (targetRateEffectiveDate && !/^\d{4}-\d{2}-\d{2}$/.test(targetRateEffectiveDate)) {
+      throw new BadRequestException('targetRateEffectiveDate must be a date in YYYY-MM-DD format');
+    }
+
+    const [policyRecord] = await this.db
+      .select()
+      .from(policy)
+      .where(eq(policy.policy_number, quoteNumber))
+      .limit(1);
+
+    if (!policyRecord) {
+      throw new NotFoundException(`Quote ${quoteNumber} not found`);
+    }
+
+    const snapshot = policyRecord.quote_snapshot as any;
+    if (!snapshot?.driver) {
+      throw new BadRequestException(`Quote ${quoteNumber} has no rating inputs to replay`);
+    }
+
+    // When the quote was rated, and against which rates
+    const ratedAt: string = snapshot.rating?.ratedAt
+      || snapshot.meta?.updatedAt
+      || snapshot.meta?.createdAt
+      || new Date(policyRecord.created_at).toISOString();
+    const originalRatingDate: string = snapshot.rating?.ratingDate
+      || snapshot.coverages?.startDate
+      || ratedAt.slice(0, 10);
+    const targetRatingDate = targetRateEffectiveDate || formatDateToYYYYMMDD(new Date());
+
+    const inputs = this.toRatingInput(snapshot, ratedAt);
+
+    const original = this.ratingEngine.rate(
+      { ...inputs, effectiveDate: originalRatingDate },
+      await this.loadRateBook(originalRatingDate)
+    );
+    const target = this.ratingEngine.rate(
+      { ...inputs, effectiveDate: targetRatingDate },
+      await this.loadRateBook(targetRatingDate)
+    );
+
+    const quotedPremium = snapshot.premium?.total ?? null;
+    const diff = this.diff(original, target);
+
+    this.logger.log('Quote replayed', {
+      quoteNumber,
+      originalRateVersion: original.rateVersion,
+      targetRateVersion: target.rateVersion,
+      changed: diff.changed,
+    });
+
+    return {
+      quoteNumber,
+      ratedAt,
+      quotedPremium,
+      reproducesQuotedPremium: this.reproduces(original, snapshot.premium),
+      inputs,
+      original,
+      target,
+      diff,
+    };
+  }
+
+  /**
+   * Compare two ratings factor by factor
+   */
+  diff(original: RatingOutput, target: RatingOutput): RatingDiff {
+    const vehicles: RatingDiffEntry[] = [];
+    original.breakdown.vehicles.forEach((vehicle, index) => {
+      const other = target.breakdown.vehicles[index];
+      const prefix = `vehicles[${index}]`;
+      vehicles.push(
+        this.entry(`${prefix}.ageFactor`, vehicle.ageFactor, other?.ageFactor),
+        this.entry(`${prefix}.collisionFactor`, vehicle.collisionFactor, other?.collisionFactor),
+        this.entry(`${prefix}.comprehensiveFactor`, vehicle.comprehensiveFactor, other?.comprehensiveFactor),
+        this.entry(`${prefix}.addOnsFactor`, vehicle.addOnsFactor, other?.addOnsFactor),
+        this.entry(`${prefix}.coverageFactor`, vehicle.coverageFactor, other?.coverageFactor),
+        this.entry(`${prefix}.premium`, vehicle.premium, other?.premium),
+      );
+    });
+
+    const { driver, location, coverage } = original.breakdown.factorDetails;
+    const targetFactors = target.breakdown.factorDetails;
+    const factors = [
+      this.entry('multiCarFactor', original.multiCarFactor, target.multiCarFactor),
+      this.entry('driver.ageFactor', driver.ageFactor, targetFactors.driver.ageFactor),
+      this.entry('driver.additionalDriversFactor', driver.additionalDriversFactor, targetFactors.driver.additionalDriversFactor),
+      this.entry('location.territoryFactor', location.territoryFactor, targetFactors.location.territoryFactor),
+      this.entry('coverage.bodilyInjuryLoad', coverage.bodilyInjuryLoad, targetFactors.coverage.bodilyInjuryLoad),
+      this.entry('coverage.propertyDamageLoad', coverage.propertyDamageLoad, targetFactors.coverage.propertyDamageLoad),
+      this.entry('coverage.medicalPaymentsLoad', coverage.medicalPaymentsLoad, targetFactors.coverage.medicalPaymentsLoad),
+      this.entry('coverage.uninsuredMotoristLoad', coverage.uninsuredMotoristLoad, targetFactors.coverage.uninsuredMotoristLoad),
+      this.entry('coverage.underinsuredMotoristLoad', coverage.underinsuredMotoristLoad, targetFactors.coverage.underinsuredMotoristLoad),
+      this.entry('coverage.totalFactor', coverage.totalFactor, targetFactors.coverage.totalFactor),
+    ];
+
+    const amounts = [
+      this.entry('basePremium', original.basePremium, target.basePremium),
+      this.entry('vehiclePremium', original.vehiclePremium, target.vehiclePremium),
+      this.entry('adjustedPremium', original.adjustedPremium, target.adjustedPremium),
+      this.entry('totalDiscounts', original.totalDiscounts, target.totalDiscounts),
+      this.entry('totalSurcharges', original.totalSurcharges, target.totalSurcharges),
+      this.entry('subtotal', original.subtotal, target.subtotal),
+      this.entry('totalTaxesAndFees', original.totalTaxesAndFees, target.totalTaxesAndFees),
+      this.entry('totalPremium', original.totalPremium, target.totalPremium),
+    ];
+
+    const discounts = this.diffLines(
+      original.discounts.map(d => ({ type: d.code, amount: d.amount })),
+      target.discounts.map(d => ({ type: d.code, amount: d.amount }))
+    );
+    const surcharges = this.diffLines(
+      original.surcharges.map(s => ({ type: s.code, amount: s.amount })),
+      target.surcharges.map(s => ({ type: s.code, amount: s.amount }))
+    );
+    const taxesAndFees = this.diffLines(
+      [...original.taxes, ...original.fees],
+      [...target.taxes, ...target.fees]
+    );
+
+    const rateVersion = this.entry('rateVersion', original.rateVersion, target.rateVersion);
+
+    const changed = [rateVersion, ...vehicles, ...factors, ...discounts, ...surcharges, ...taxesAndFees, ...amounts]
+      .some(entry => entry.changed);
+
+    return { changed, rateVersion, vehicles, factors, discounts, surcharges, taxesAndFees, amounts };
+  }
+
+  /**
+   * Whether a rating reproduces the premium stored on a quote
+   *
+   * Itemized snapshots store the pre-tax subtotal and the taxed total; older
+   * snapshots stored only the pre-tax premium, as `total`.
+   */
+  private reproduces(rating: RatingOutput, premium: any): boolean {
+    if (premium?.total === undefined || premium?.total === null) {
+      return false;
+    }
+    if (premium.subtotal === undefined) {
+      return rating.subtotal === premium.total;
+    }
+    return rating.subtotal === premium.subtotal && rating.totalPremium === premium.total;
+  }
+
+  /**
+   * Rating input from a quote snapshot (same shape the quote service rates)
+   */
+  private toRatingInput(snapshot: any, ratedAt: string): RatingInput {
+    const vehicles = snapshot.vehicles?.length
+      ? snapshot.vehicles
+      : (snapshot.vehicle ? [snapshot.vehicle] : []);
+
+    return {
+      driver: snapshot.driver,
+      additionalDrivers: snapshot.additionalDrivers || [],
+      vehicles,
+      coverages: snapshot.coverages || undefined,
+      vehicleCoverages: snapshot.coverages?.vehicleCoverages,
+      vehicleAddOns: snapshot.vehicleAddOns,
+      location: snapshot.address,
+      asOfDate: ratedAt,
+    };
+  }
+
+  /**
+   * Load a rate book, reporting dates with no rates in force as a bad request
+   */
+  private async loadRateBook(ratingDate: string): Promise<RateBook> {
+    try {
+      return await this.rateTables.getRateBook(ratingDate);
+    } catch (error) {
+      throw new BadRequestException(error instanceof Error ? error.message : `No rates in force on ${ratingDate}`);
+    }
+  }
+
+  /**
+   * Compare itemized lines (discounts, surcharges, taxes, fees) by type
+   */
+  private diffLines(
+    original: Array<{ type: string; amount: number }>,
+    target: Array<{ type: string; amount: number }>
+  ): RatingDiffEntry[] {
+    const types = [...new Set([...original, ...target].map(line => line.type))];
+    return types.map(type =>
+      this.entry(
+        type,
+        original.find(line => line.type === type)?.amount ?? null,
+        target.find(line => line.type === type)?.amount ?? null
+      )
+    );
+  }
+
+  private entry(
+    name: string,
+    original: number | string | null | undefined,
+    target: number | string | null | undefined
+  ): RatingDiffEntry {
+    const from = original ?? null;
+    const to = target ?? null;
+    const numeric = typeof from === 'number' || typeof to === 'number';
+    const change = numeric
+      ? Math.round(((typeof to === 'number' ? to : 0) - (typeof from === 'number' ? from : 0)) * 10000) / 10000
+      : null;
+
+    return { name, original: from, target: to, change, changed: from !== to };
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * State Minimum Liability Limits
+ *
+ * Financial-responsibility minimums for bodily injury (per person / per
+ * accident) and property damage liability, by garaging state, in dollars.
+ * Covers all 50 states plus the District of Columbia.
+ *
+ * Source: state motor vehicle financial-responsibility statutes as of 2026.
+ * Update this table when a state changes its minimums.
+ */
+
+/**
+ * Minimum liability limits for one state
+ */
+export interface StateMinimumLimits {
+  name: string;
+  bodilyInjuryPerPerson: number;
+  bodilyInjuryPerAccident: number;
+  propertyDamage: number;
+}
+
+export const STATE_MINIMUM_LIMITS: Record<string, StateMinimumLimits> = {
+  AL: { name: 'Alabama', bodilyInjuryPerPerson: 25000, bodilyInjuryPerAccident: 50000, propertyDamage: 25000 },
+  AK: { name: 'Alaska', bodilyInjuryPerPerson: 50000, bodilyInjuryPerAccident: 100000, propertyDamage: 25000 },
+  AZ: { name: 'Arizona', bodilyInjuryPerPerson: 25000, bodilyInjuryPerAccident: 50000, propertyDamage: 15000 },
+  AR: { name: 'Arkansas', bodilyInjuryPerPerson: 25000, bodilyInjuryPerAccident: 50000, propertyDamage: 25000 },
+  CA: { name: 'California', bodilyInjuryPerPerson: 30000, bodilyInjuryPerAccident: 60000, propertyDamage: 15000 },
+  CO: { name: 'Colorado', bodilyInjuryPerPerson: 25000, bodilyInjuryPerAccident: 50000, propertyDamage: 15000 },
+  CT: { name: 'Connecticut', bodilyInjuryPerPerson: 25000, bodilyInjuryPerAccident: 50000, propertyDamage: 25000 },
+  DE: { name: 'Delaware', bodilyInjuryPerPerson: 25000, bodilyInjuryPerAccident: 50000, propertyDamage: 10000 },
+  DC: { name: 'District of Columbia', bodilyInjuryPerPerson: 25000, bodilyInjuryPerAccident: 50000, propertyDamage: 10000 },
+  FL: { name: 'Florida', bodilyInjuryPerPerson: 10000, bodilyInjuryPerAccident: 20000, propertyDamage: 10000 },
+  GA: { name: 'Georgia', bodilyInjuryPerPerson: 25000, bodilyInjuryPerAccident: 50000, propertyDamage: 25000 },
+  HI: { name: 'Hawaii', bodilyInjuryPerPerson: 20000, bodilyInjuryPerAccident: 40000, propertyDamage: 10000 },
+  ID: { name: 'Idaho', bodilyInjuryPerPerson: 25000, bodilyInjuryPerAccident: 50000, propertyDamage: 15000 },
+  IL: { name: 'Illinois', bodilyInjuryPerPerson: 25000, bodilyInjuryPerAccident: 50000, propertyDamage: 20000 },
+  IN: { name: 'Indiana', bodilyInjuryPerPerson: 25000, bodilyInjuryPerAccident: 50000, propertyDamage: 25000 },
+  IA: { name: 'Iowa', bodilyInjuryPerPerson: 20000, bodilyInjuryPerAccident: 40000, propertyDamage: 15000 },
+  KS: { name: 'Kansas', bodilyInjuryPerPerson: 25000, bodilyInjuryPerAccident: 50000, propertyDamage: 25000 },
+  KY: { name: 'Kentucky', bodilyInjuryPerPerson: 25000, bodilyInjuryPerAccident: 50000, propertyDamage: 25000 },
+  LA: { name: 'Louisiana', bodilyInjuryPerPerson: 15000, bodilyInjuryPerAccident: 30000, propertyDamage: 25000 },
+  ME: { name: 'Maine', bodilyInjuryPerPerson: 50000, bodilyInjuryPerAccident: 100000, propertyDamage: 25000 },
+  MD: { name: 'Maryland', bodilyInjuryPerPerson: 30000, bodilyInjuryPerAccident: 60000, propertyDamage: 15000 },
+  MA: { name: 'Massachusetts', bodilyInjuryPerPerson: 20000, bodilyInjuryPerAccident: 40000, propertyDamage: 5000 },
+  MI: { name: 'Michigan', bodilyInjuryPerPerson: 50000, bodilyInjuryPerAccident: 100000, propertyDamage: 10000 },
+  MN: { name: 'Minnesota', bodilyInjuryPerPerson: 30000, bodilyInjuryPerAccident: 60000, propertyDamage: 10000 },
+  MS: { name: 'Mississippi', bodilyInjuryPerPerson: 25000, bodilyInjuryPerAccident: 50000, propertyDamage: 25000 },
+  MO: { name: 'Missouri', bodilyInjuryPerPerson: 25000, bodilyInjuryPerAccident: 50000, propertyDamage: 25000 },
+  MT: { name: 'Montana', bodilyInjuryPerPerson: 25000, bodilyInjuryPerAccident: 50000, propertyDamage: 20000 },
+  NE: { name: 'Nebraska', bodilyInjuryPerPerson: 25000, bodilyInjuryPerAccident: 50000, propertyDamage: 25000 },
+  NV: { name: 'Nevada', bodilyInjuryPerPerson: 25000, bodilyInjuryPerAccident: 50000, propertyDamage: 20000 },
+  NH: { name: 'New Hampshire', bodilyInjuryPerPerson: 25000, bodilyInjuryPerAccident: 50000, propertyDamage: 25000 },
+  NJ: { name: 'New Jersey', bodilyInjuryPerPerson: 25000, bodilyInjuryPerAccident: 50000, propertyDamage: 25000 },
+  NM: { name: 'New Mexico', bodilyInjuryPerPerson: 25000, bodilyInjuryPerAccident: 50000, propertyDamage: 10000 },
+  NY: { name: 'New York', bodilyInjuryPerPerson: 25000, bodilyInjuryPerAccident: 50000, propertyDamage: 10000 },
+  NC: { name: 'North Carolina', bodilyInjuryPerPerson: 50000, bodilyInjuryPerAccident: 100000, propertyDamage: 50000 },
+  ND: { name: 'North Dakota', bodilyInjuryPerPerson: 25000, bodilyInjuryPerAccident: 50000, propertyDamage: 25000 },
+  OH: { name: 'Ohio', bodilyInjuryPerPerson: 25000, bodilyInjuryPerAccident: 50000, propertyDamage: 25000 },
+  OK: { name: 'Oklahoma', bodilyInjuryPerPerson: 25000, bodilyInjuryPerAccident: 50000, propertyDamage: 25000 },
+  OR: { name: 'Oregon', bodilyInjuryPerPerson: 25000, bodilyInjuryPerAccident: 50000, propertyDamage: 20000 },
+  PA: { name: 'Pennsylvania', bodilyInjuryPerPerson: 15000, bodilyInjuryPerAccident: 30000, propertyDamage: 5000 },
+  RI: { name: 'Rhode Island', bodilyInjuryPerPerson: 25000, bodilyInjuryPerAccident: 50000, propertyDamage: 25000 },
+  SC: { name: 'South Carolina', bodilyInjuryPerPerson: 25000, bodilyInjuryPerAccident: 50000, propertyDamage: 25000 },
+  SD: { name: 'South Dakota', bodilyInjuryPerPerson: 25000, bodilyInjuryPerAccident: 50000, propertyDamage: 25000 },
+  TN: { name: 'Tennessee', bodilyInjuryPerPerson: 25000, bodilyInjuryPerAccident: 50000, propertyDamage: 25000 },
+  TX: { name: 'Texas', bodilyInjuryPerPerson: 30000, bodilyInjuryPerAccident: 60000, propertyDamage: 25000 },
+  UT: { name: 'Utah', bodilyInjuryPerPerson: 30000, bodilyInjuryPerAccident: 65000, propertyDamage: 25000 },
+  VT: { name: 'Vermont', bodilyInjuryPerPerson: 25000, bodilyInjuryPerAccident: 50000, propertyDamage: 10000 },
+  VA: { name: 'Virginia', bodilyInjuryPerPerson: 50000, bodilyInjuryPerAccident: 100000, propertyDamage: 25000 },
+  WA: { name: 'Washington', bodilyInjuryPerPerson: 25000, bodilyInjuryPerAccident: 50000, propertyDamage: 10000 },
+  WV: { name: 'West Virginia', bodilyInjuryPerPerson: 25000, bodilyInjuryPerAccident: 50000, propertyDamage: 25000 },
+  WI: { name: 'Wisconsin', bodilyInjuryPerPerson: 25000, bodilyInjuryPerAccident: 50000, propertyDamage: 10000 },
+  WY: { name: 'Wyoming', bodilyInjuryPerPerson: 25000, bodilyInjuryPerAccident: 50000, propertyDamage: 20000 },
+};
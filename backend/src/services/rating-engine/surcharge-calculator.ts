@@ -2,19 +2,23 @@
  * Surcharge Calculator (T059)
  *
  * Calculates premium surcharges (penalties) based on unfavorable customer characteristics.
- * Implements 8 standard auto insurance surcharges per spec FR-063:
+ * Implements the standard auto insurance surcharges per spec FR-063:
  *
- * 1. YOUNG_DRIVER: 25-50% for drivers under 25 years old
- * 2. INEXPERIENCED_DRIVER: 15-30% for <3 years driving experience
- * 3. ACCIDENT_HISTORY: 20-40% per at-fault accident in last 3 years
- * 4. VIOLATION_HISTORY: 15-25% per major violation in last 3 years
- * 5. HIGH_MILEAGE: 10-20% for >15,000 miles/year
- * 6. HIGH_PERFORMANCE_VEHICLE: 25-50% for sports/luxury vehicles
- * 7. URBAN_LOCATION: 10-25% for high-crime urban areas
- * 8. POOR_CREDIT: 15-30% for credit score below threshold
+ * 1. INEXPERIENCED_DRIVER: 15-30% for <3 years driving experience
+ * 2. ACCIDENT_HISTORY: 30% per at-fault accident in the last 3 years
+ * 3. VIOLATION_HISTORY: 15-50% per moving violation by severity. Minor and
+ *    moderate violations count for 3 years, major ones (DUI, reckless
+ *    driving, hit-and-run) for 5 years
+ * 4. HIGH_MILEAGE: 10-20% for >15,000 miles/year
+ * 5. HIGH_PERFORMANCE_VEHICLE: 25-50% for sports/luxury vehicles
+ * 6. POOR_CREDIT: 15-30% for credit score below threshold
  *
- * Surcharges are multiplicative - they compound to reflect increased risk.
- * Total surcharges can exceed 100% for very high-risk profiles.
+ * Driver age and territory are rating factors (DRIVER_AGE and TERRITORY
+ * tables), so there are no separate young-driver or urban surcharges.
+ *
+ * Surcharges are additive - each is a percentage of the same base premium,
+ * and their amounts are summed. Total surcharges can exceed 100% for very
+ * high-risk profiles.
  *
  * @module SurchargeCalculator
  */
@@ -29,13 +33,24 @@ export interface SurchargeInfo {
   name: string;
   amount: number;
   percentage: number;
+  description: string; // What triggered the surcharge, e.g. the incidents counted
 }
 
+/**
+ * Years an incident counts toward surcharges, by violation severity
+ */
+export const VIOLATION_LOOKBACK_YEARS: Record<string, number> = {
+  MINOR: 3,
+  MODERATE: 3,
+  MAJOR: 5,
+};
+export const ACCIDENT_LOOKBACK_YEARS = 3;
+
 /**
  * Input data for surcharge calculation
  */
 export interface SurchargeCalculationInput {
-  vehicle: {
+  vehicle?: {
     make: string;
     model: string;
     year: number;
@@ -43,18 +58,13 @@ export interface SurchargeCalculationInput {
   };
   driver: {
     age: number;
-    yearsLicensed: number;
-    violations?: Array<{type: string; severity: string; date: Date}>;
-    accidents?: Array<{type: string; atFault: boolean; date: Date}>;
+    yearsLicensed?: number | null;
+    violations?: Array<{type: string; severity: string; date: Date | string}>;
+    accidents?: Array<{type: string; atFault: boolean; date: Date | string}>;
     creditScore?: number;
   };
-  location: {
-    zipCode: string;
-    state: string;
-    urbanRuralCode?: string; // 'URBAN', 'SUBURBAN', 'RURAL'
-    crimeIndex?: number; // 0-100, higher = more crime
-  };
   annualMileage?: number;
+  asOfDate?: Date | string; // Date lookbacks are measured from (defaults to today)
 }
 
 /**
@@ -69,11 +79,9 @@ export class SurchargeCalculator {
   private readonly logger = new Logger(SurchargeCalculator.name);
 
   // Risk thresholds
-  private readonly YOUNG_DRIVER_AGE = 25;
   private readonly INEXPERIENCED_YEARS = 3;
   private readonly HIGH_MILEAGE_THRESHOLD = 15000;
   private readonly POOR_CREDIT_THRESHOLD = 600;
-  private readonly HIGH_CRIME_INDEX = 60;
 
   /**
    * Calculate all applicable surcharges
@@ -85,24 +93,14 @@ export class SurchargeCalculator {
    * @param basePremium - Base premium before surcharges (optional, for amount calculation)
    * @returns Array of applicable surcharges
    */
-  async calculateSurcharges(
+  calculateSurcharges(
     input: SurchargeCalculationInput,
     basePremium?: number
-  ): Promise<SurchargeInfo[]> {
+  ): SurchargeInfo[] {
     const surcharges: SurchargeInfo[] = [];
+    const asOfDate = input.asOfDate ? new Date(input.asOfDate) : new Date();
 
-    // 1. Young driver surcharge
-    const youngDriverSurcharge = this.calculateYoungDriverSurcharge(input.driver.age);
-    if (youngDriverSurcharge > 0) {
-      surcharges.push({
-        code: 'YOUNG_DRIVER',
-        name: 'Young Driver Surcharge',
-        amount: basePremium ? (basePremium * youngDriverSurcharge) : 0,
-        percentage: youngDriverSurcharge * 100,
-      });
-    }
-
-    // 2. Inexperienced driver surcharge
+    // 1. Inexperienced driver surcharge
     const inexperiencedSurcharge = this.calculateInexperiencedDriverSurcharge(
       input.driver.yearsLicensed
     );
@@ -112,36 +110,39 @@ export class SurchargeCalculator {
         name: 'Inexperienced Driver Surcharge',
         amount: basePremium ? (basePremium * inexperiencedSurcharge) : 0,
         percentage: inexperiencedSurcharge * 100,
+        description: `Licensed less than ${this.INEXPERIENCED_YEARS} years`,
       });
     }
 
-    // 3. Accident history surcharge
-    const accidentSurcharge = this.calculateAccidentHistorySurcharge(
-      input.driver.accidents || []
-    );
+    // 2. Accident history surcharge
+    const recentAccidents = this.getRecentAtFaultAccidents(input.driver.accidents || [], asOfDate);
+    const accidentSurcharge = this.calculateAccidentHistorySurcharge(recentAccidents);
     if (accidentSurcharge > 0) {
       surcharges.push({
         code: 'ACCIDENT_HISTORY',
         name: 'Accident History Surcharge',
         amount: basePremium ? (basePremium * accidentSurcharge) : 0,
         percentage: accidentSurcharge * 100,
+        description: `${recentAccidents.length} at-fault accident${recentAccidents.length === 1 ? '' : 's'} `
+          + `in the last ${ACCIDENT_LOOKBACK_YEARS} years: ${this.describeIncidents(recentAccidents)}`,
       });
     }
 
-    // 4. Violation history surcharge
-    const violationSurcharge = this.calculateViolationHistorySurcharge(
-      input.driver.violations || []
-    );
+    // 3. Violation history surcharge
+    const recentViolations = this.getRecentViolations(input.driver.violations || [], asOfDate);
+    const violationSurcharge = this.calculateViolationHistorySurcharge(recentViolations);
     if (violationSurcharge > 0) {
       surcharges.push({
         code: 'VIOLATION_HISTORY',
         name: 'Violation History Surcharge',
         amount: basePremium ? (basePremium * violationSurcharge) : 0,
         percentage: violationSurcharge * 100,
+        description: `${recentViolations.length} violation${recentViolations.length === 1 ? '' : 's'} `
+          + `within the lookback period: ${this.describeIncidents(recentViolations)}`,
       });
     }
 
-    // 5. High mileage surcharge
+    // 4. High mileage surcharge
     const highMileageSurcharge = this.calculateHighMileageSurcharge(input.annualMileage);
     if (highMileageSurcharge > 0) {
       surcharges.push({
@@ -149,34 +150,25 @@ export class SurchargeCalculator {
         name: 'High Mileage Surcharge',
         amount: basePremium ? (basePremium * highMileageSurcharge) : 0,
         percentage: highMileageSurcharge * 100,
+        description: `Drives more than ${this.HIGH_MILEAGE_THRESHOLD.toLocaleString('en-US')} miles a year`,
       });
     }
 
-    // 6. High performance vehicle surcharge
-    const highPerformanceSurcharge = this.calculateHighPerformanceVehicleSurcharge(
-      input.vehicle
-    );
+    // 5. High performance vehicle surcharge
+    const highPerformanceSurcharge = input.vehicle
+      ? this.calculateHighPerformanceVehicleSurcharge(input.vehicle)
+      : 0;
     if (highPerformanceSurcharge > 0) {
       surcharges.push({
         code: 'HIGH_PERFORMANCE_VEHICLE',
         name: 'High Performance Vehicle Surcharge',
         amount: basePremium ? (basePremium * highPerformanceSurcharge) : 0,
         percentage: highPerformanceSurcharge * 100,
+        description: 'Sports or luxury vehicle',
       });
     }
 
-    // 7. Urban location surcharge
-    const urbanSurcharge = this.calculateUrbanLocationSurcharge(input.location);
-    if (urbanSurcharge > 0) {
-      surcharges.push({
-        code: 'URBAN_LOCATION',
-        name: 'Urban Location Surcharge',
-        amount: basePremium ? (basePremium * urbanSurcharge) : 0,
-        percentage: urbanSurcharge * 100,
-      });
-    }
-
-    // 8. Poor credit surcharge
+    // 6. Poor credit surcharge
     const poorCreditSurcharge = this.calculatePoorCreditSurcharge(input.driver.creditScore);
     if (poorCreditSurcharge > 0) {
       surcharges.push({
@@ -184,6 +176,7 @@ export class SurchargeCalculator {
         name: 'Poor Credit Surcharge',
         amount: basePremium ? (basePremium * poorCreditSurcharge) : 0,
         percentage: poorCreditSurcharge * 100,
+        description: 'Credit-based insurance score below 700',
       });
     }
 
@@ -194,42 +187,20 @@ export class SurchargeCalculator {
     return surcharges;
   }
 
-  /**
-   * Calculate young driver surcharge
-   *
-   * Drivers under 25 have significantly higher accident rates and lack
-   * experience. This is one of the largest surcharges in auto insurance.
-   *
-   * @param age - Driver age
-   * @returns Surcharge percentage (0 - 0.50)
-   */
-  private calculateYoungDriverSurcharge(age: number): number {
-    if (age >= this.YOUNG_DRIVER_AGE) {
-      return 0; // No surcharge for 25+
-    }
-
-    // Tiered surcharge based on age
-    if (age < 18) {
-      return 0.50; // 50% surcharge for drivers under 18
-    } else if (age < 21) {
-      return 0.40; // 40% surcharge for 18-20
-    } else if (age < 25) {
-      return 0.30; // 30% surcharge for 21-24
-    }
-
-    return 0;
-  }
-
   /**
    * Calculate inexperienced driver surcharge
    *
    * New drivers (less than 3 years licensed) lack experience regardless
-   * of age. This surcharge stacks with young driver surcharge.
+   * of age. This surcharge stacks with the driver age factor.
    *
    * @param yearsLicensed - Years driver has been licensed
    * @returns Surcharge percentage (0 - 0.30)
    */
-  private calculateInexperiencedDriverSurcharge(yearsLicensed: number): number {
+  private calculateInexperiencedDriverSurcharge(yearsLicensed?: number | null): number {
+    if (yearsLicensed === undefined || yearsLicensed === null) {
+      return 0; // No data = no surcharge (neutral assumption)
+    }
+
     if (yearsLicensed >= this.INEXPERIENCED_YEARS) {
       return 0; // No surcharge for 3+ years experience
     }
@@ -244,26 +215,48 @@ export class SurchargeCalculator {
     }
   }
 
+  /**
+   * At-fault accidents inside the accident lookback window
+   *
+   * @param accidents - Driver accidents
+   * @param asOfDate - Date the lookback is measured from
+   */
+  private getRecentAtFaultAccidents(
+    accidents: Array<{type: string; atFault: boolean; date: Date | string}>,
+    asOfDate: Date
+  ): Array<{type: string; atFault: boolean; date: Date | string}> {
+    const cutoff = this.yearsBefore(asOfDate, ACCIDENT_LOOKBACK_YEARS);
+    return accidents.filter(a => a.atFault && this.isWithinLookback(a.date, cutoff, asOfDate));
+  }
+
+  /**
+   * Violations inside the lookback window for their severity
+   *
+   * @param violations - Driver violations
+   * @param asOfDate - Date the lookback is measured from
+   */
+  private getRecentViolations(
+    violations: Array<{type: string; severity: string; date: Date | string}>,
+    asOfDate: Date
+  ): Array<{type: string; severity: string; date: Date | string}> {
+    return violations.filter(v => {
+      const years = VIOLATION_LOOKBACK_YEARS[v.severity?.toUpperCase()] ?? VIOLATION_LOOKBACK_YEARS.MINOR;
+      return this.isWithinLookback(v.date, this.yearsBefore(asOfDate, years), asOfDate);
+    });
+  }
+
   /**
    * Calculate accident history surcharge
    *
    * At-fault accidents in the last 3 years indicate higher risk.
    * Multiple accidents compound the surcharge significantly.
    *
-   * @param accidents - Driver accidents
+   * @param recentAtFaultAccidents - At-fault accidents inside the lookback window
    * @returns Surcharge percentage (0 - 1.20 for 3+ accidents)
    */
   private calculateAccidentHistorySurcharge(
-    accidents: Array<{type: string; atFault: boolean; date: Date}>
+    recentAtFaultAccidents: Array<{type: string; atFault: boolean; date: Date | string}>
   ): number {
-    const threeYearsAgo = new Date();
-    threeYearsAgo.setFullYear(threeYearsAgo.getFullYear() - 3);
-
-    // Count at-fault accidents in last 3 years
-    const recentAtFaultAccidents = accidents.filter(
-      a => a.atFault && new Date(a.date) >= threeYearsAgo
-    );
-
     if (recentAtFaultAccidents.length === 0) {
       return 0;
     }
@@ -276,21 +269,15 @@ export class SurchargeCalculator {
   /**
    * Calculate violation history surcharge
    *
-   * Moving violations (speeding, reckless driving, DUI) in the last 3 years
-   * indicate risky behavior. Major violations carry higher surcharges.
+   * Moving violations (speeding, reckless driving, DUI) indicate risky
+   * behavior. Major violations carry higher surcharges and count longer.
    *
-   * @param violations - Driver violations
+   * @param recentViolations - Violations inside their severity's lookback window
    * @returns Surcharge percentage (0 - 1.00 for multiple major violations)
    */
   private calculateViolationHistorySurcharge(
-    violations: Array<{type: string; severity: string; date: Date}>
+    recentViolations: Array<{type: string; severity: string; date: Date | string}>
   ): number {
-    const threeYearsAgo = new Date();
-    threeYearsAgo.setFullYear(threeYearsAgo.getFullYear() - 3);
-
-    // Filter violations in last 3 years
-    const recentViolations = violations.filter(v => new Date(v.date) >= threeYearsAgo);
-
     if (recentViolations.length === 0) {
       return 0;
     }
@@ -317,6 +304,34 @@ export class SurchargeCalculator {
     return totalSurcharge;
   }
 
+  /**
+   * Whether an incident date falls between the lookback cutoff and the rating date
+   */
+  private isWithinLookback(date: Date | string, cutoff: Date, asOfDate: Date): boolean {
+    const incidentDate = new Date(date);
+    return incidentDate >= cutoff && incidentDate <= asOfDate;
+  }
+
+  private yearsBefore(asOfDate: Date, years: number): Date {
+    const cutoff = new Date(asOfDate);
+    cutoff.setFullYear(cutoff.getFullYear() - years);
+    return cutoff;
+  }
+
+  /**
+   * List incidents as "TYPE (YYYY-MM-DD)" for surcharge descriptions
+   */
+  private describeIncidents(incidents: Array<{type: string; date: Date | string}>): string {
+    return incidents
+      .map(incident => {
+        const date = incident.date instanceof Date
+          ? incident.date.toISOString().slice(0, 10)
+          : String(incident.date).slice(0, 10);
+        return `${incident.type} (${date})`;
+      })
+      .join(', ');
+  }
+
   /**
    * Calculate high mileage surcharge
    *
@@ -381,42 +396,6 @@ export class SurchargeCalculator {
     return 0;
   }
 
-  /**
-   * Calculate urban location surcharge
-   *
-   * Urban areas have higher accident rates, theft rates, and vandalism.
-   * High-crime urban areas carry the highest surcharge.
-   *
-   * @param location - Location information
-   * @returns Surcharge percentage (0 - 0.25)
-   */
-  private calculateUrbanLocationSurcharge(location: {
-    zipCode: string;
-    state: string;
-    urbanRuralCode?: string;
-    crimeIndex?: number;
-  }): number {
-    const urbanRuralCode = location.urbanRuralCode?.toUpperCase();
-    const crimeIndex = location.crimeIndex || 0;
-
-    // High crime urban area
-    if (urbanRuralCode === 'URBAN' && crimeIndex >= this.HIGH_CRIME_INDEX) {
-      return 0.25; // 25% surcharge for high-crime urban
-    }
-
-    // Standard urban area
-    if (urbanRuralCode === 'URBAN') {
-      return 0.15; // 15% surcharge for standard urban
-    }
-
-    // Suburban area with high crime
-    if (urbanRuralCode === 'SUBURBAN' && crimeIndex >= this.HIGH_CRIME_INDEX) {
-      return 0.10; // 10% surcharge for high-crime suburban
-    }
-
-    return 0; // No surcharge for suburban/rural low-crime areas
-  }
-
   /**
    * Calculate poor credit surcharge
    *
@@ -43,6 +43,15 @@ export interface TaxFeeBreakdown {
   totalTaxesAndFees: number;
 }
 
+/**
+ * One itemized tax or fee on a quote (PREMIUM_TAX, POLICY_FEE, DMV_FEE)
+ */
+export interface TaxFeeLine {
+  type: string;
+  name: string; // Display label, e.g. "CA Premium Tax (2.35%)"
+  amount: number;
+}
+
 /**
  * State-specific tax and fee rates
  */
@@ -434,7 +443,7 @@ export class TaxFeeCalculator {
    * @param input - Tax and fee calculation input
    * @returns Complete breakdown of taxes and fees
    */
-  async calculate(input: TaxFeeCalculationInput): Promise<TaxFeeBreakdown> {
+  calculate(input: TaxFeeCalculationInput): TaxFeeBreakdown {
     const stateCode = input.state?.toUpperCase();
     const rates = this.STATE_RATES[stateCode] || this.DEFAULT_RATES;
 
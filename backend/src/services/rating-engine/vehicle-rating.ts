@@ -0,0 +1,159 @@
+/**
+ * Vehicle Rating Service (T054)
+ *
+ * Calculates the per-vehicle premium from the rate book:
+ * - Vehicle age factor (VEHICLE_AGE band table)
+ * - Physical damage loads (COLLISION_DEDUCTIBLE, COMPREHENSIVE_DEDUCTIBLE)
+ * - Per-vehicle add-on loads (RENTAL_REIMBURSEMENT, ADDITIONAL_EQUIPMENT,
+ *   ORIGINAL_PARTS_REPLACEMENT)
+ * - Multi-car factor across all vehicles (MULTI_CAR_DISCOUNT)
+ *
+ * Vehicle premium = Base Premium × Age Factor × (1 + Collision + Comprehensive + Add-ons)
+ *
+ * @module VehicleRatingService
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import { RateBook } from './rate-book';
+
+/**
+ * Vehicle information for rating
+ */
+export interface VehicleInfo {
+  year: number;
+  make: string;
+  model: string;
+  vin?: string | null;
+  bodyType?: string | null;
+  annualMileage?: number | null;
+}
+
+/**
+ * Per-vehicle coverage selections that affect the vehicle premium
+ */
+export interface VehicleCoverageSelection {
+  collision: boolean;
+  collisionDeductible: number;
+  comprehensive: boolean;
+  comprehensiveDeductible: number;
+  rentalReimbursement?: boolean;
+  additionalEquipmentAmount?: number;
+  originalPartsReplacement?: boolean;
+}
+
+/**
+ * Detailed breakdown of one vehicle's rating factors
+ */
+export interface VehicleFactorDetails {
+  vehicleIndex: number;
+  description: string;
+  vehicleAge: number;
+  ageFactor: number;
+  collisionDeductible: number | null;
+  collisionFactor: number;
+  comprehensiveDeductible: number | null;
+  comprehensiveFactor: number;
+  addOnsFactor: number;
+  coverageFactor: number;
+  premium: number;
+}
+
+/**
+ * Vehicle Rating Service
+ *
+ * Analyzes vehicle characteristics and physical damage selections to
+ * determine each vehicle's contribution to the premium.
+ */
+@Injectable()
+export class VehicleRatingService {
+  private readonly logger = new Logger(VehicleRatingService.name);
+
+  /**
+   * Get detailed breakdown of one vehicle's rating factors
+   *
+   * @param vehicle - Vehicle information
+   * @param vehicleIndex - Position of the vehicle on the quote
+   * @param selection - Physical damage and add-on selections for this vehicle
+   * @param rates - Rate book in force on the rating date
+   * @param asOf - Date the vehicle age is measured from (defaults to today)
+   * @returns Detailed factor breakdown including the vehicle premium
+   */
+  getFactorDetails(
+    vehicle: VehicleInfo,
+    vehicleIndex: number,
+    selection: VehicleCoverageSelection,
+    rates: RateBook,
+    asOf: Date | string = new Date(),
+  ): VehicleFactorDetails {
+    const basePremium = rates.lookup('BASE_PREMIUM');
+    const vehicleAge = new Date(asOf).getFullYear() - vehicle.year;
+    const ageFactor = rates.band('VEHICLE_AGE', vehicleAge);
+
+    // Physical damage loads - lower deductible = higher load
+    const collisionFactor = selection.collision
+      ? rates.lookup('COLLISION_DEDUCTIBLE', selection.collisionDeductible)
+      : 0;
+    const comprehensiveFactor = selection.comprehensive
+      ? rates.lookup('COMPREHENSIVE_DEDUCTIBLE', selection.comprehensiveDeductible)
+      : 0;
+
+    // Per-vehicle add-ons
+    let addOnsFactor = 0;
+    if (selection.rentalReimbursement) {
+      addOnsFactor += rates.lookup('RENTAL_REIMBURSEMENT');
+    }
+    if (selection.additionalEquipmentAmount) {
+      addOnsFactor += rates.lookup('ADDITIONAL_EQUIPMENT', selection.additionalEquipmentAmount);
+    }
+    if (selection.originalPartsReplacement) {
+      addOnsFactor += rates.lookup('ORIGINAL_PARTS_REPLACEMENT');
+    }
+
+    const coverageFactor = 1.0 + collisionFactor + comprehensiveFactor + addOnsFactor;
+    const premium = basePremium * ageFactor * coverageFactor;
+
+    this.logger.debug(`Vehicle ${vehicleIndex + 1} premium calculation`, {
+      vehicleYear: vehicle.year,
+      vehicleAge,
+      ageFactor,
+      collisionFactor,
+      comprehensiveFactor,
+      addOnsFactor,
+      vehiclePremium: Math.round(premium),
+    });
+
+    return {
+      vehicleIndex,
+      description: `${vehicle.year} ${vehicle.make} ${vehicle.model}`,
+      vehicleAge,
+      ageFactor,
+      collisionDeductible: selection.collision ? selection.collisionDeductible : null,
+      collisionFactor,
+      comprehensiveDeductible: selection.comprehensive ? selection.comprehensiveDeductible : null,
+      comprehensiveFactor,
+      addOnsFactor,
+      coverageFactor,
+      premium,
+    };
+  }
+
+  /**
+   * Calculate the multi-car factor applied to the combined vehicle premium
+   *
+   * BASE - (vehicles - 1) × STEP, never below FLOOR. A single vehicle gets 1.0.
+   *
+   * @param vehicleCount - Number of vehicles on the quote
+   * @param rates - Rate book in force on the rating date
+   * @returns Multi-car multiplier (1.0 for one vehicle)
+   */
+  calculateMultiCarFactor(vehicleCount: number, rates: RateBook): number {
+    if (vehicleCount <= 1) {
+      return 1.0;
+    }
+
+    const multiCarFactor = rates.lookup('MULTI_CAR_DISCOUNT', 'BASE')
+      - ((vehicleCount - 1) * rates.lookup('MULTI_CAR_DISCOUNT', 'STEP'));
+
+    return Math.max(multiCarFactor, rates.lookup('MULTI_CAR_DISCOUNT', 'FLOOR'));
+  }
+}
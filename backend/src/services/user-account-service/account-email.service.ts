@@ -0,0 +1,106 @@
+/**
+ * Account Email Service
+ *
+ * Mock email channel for account emails (verify-email, password reset and
+ * magic-link sign-in). Like the policy emails in QuoteService, nothing is
+ * sent: each email is written to the server log.
+ *
+ * Links point at the customer app (FRONTEND_URL), which posts the token
+ * back to the user-accounts API.
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import { UserAccount } from '../../../../database/schema/user-account.schema';
+
+/**
+ * Customer app base URL used in emailed links
+ */
+export function getFrontendUrl(): string {
+  return (process.env.FRONTEND_URL || 'http://localhost:5173').replace(/\/+$/, '');
+}
+
+/**
+ * Link to a customer app page that consumes an emailed token
+ */
+export function accountLink(path: string, token: string): string {
+  return `${getFrontendUrl()}${path}?token=${encodeURIComponent(token)}`;
+}
+
+@Injectable()
+export class AccountEmailService {
+  private readonly logger = new Logger(AccountEmailService.name);
+
+  /**
+   * Send Verify Email (mock)
+   */
+  async sendVerificationEmail(account: UserAccount, token: string, expiresAt: Date): Promise<void> {
+    this.logger.log('📧 MOCK EMAIL: Verify Email Address');
+    console.log(`
+========================================
+      VERIFY YOUR EMAIL ADDRESS
+========================================
+To: ${account.email}
+Subject: Confirm your email address
+
+Dear ${account.first_name || 'Customer'},
+
+Please confirm this is your email address:
+
+${accountLink('/account/verify-email', token)}
+
+This link expires ${expiresAt.toISOString()} and can only be used once.
+========================================
+    `);
+  }
+
+  /**
+   * Send Password Reset Email (mock)
+   */
+  async sendPasswordResetEmail(account: UserAccount, token: string, expiresAt: Date): Promise<void> {
+    this.logger.log('📧 MOCK EMAIL: Password Reset');
+    console.log(`
+========================================
+      RESET YOUR PASSWORD
+========================================
+To: ${account.email}
+Subject: Reset your password
+
+Dear ${account.first_name || 'Customer'},
+
+We received a request to reset your password. Choose a new one here:
+
+${accountLink('/account/reset-password', token)}
+
+This link expires ${expiresAt.toISOString()} and can only be used once.
+Resetting your password signs you out everywhere.
+
+If you did not ask for this, you can ignore this email.
+========================================
+    `);
+  }
+
+  /**
+   * Send Magic Link Email (mock)
+   */
+  async sendMagicLinkEmail(account: UserAccount, token: string, expiresAt: Date): Promise<void> {
+    this.logger.log('📧 MOCK EMAIL: Magic Link Sign-In');
+    console.log(`
+========================================
+      YOUR SIGN-IN LINK
+========================================
+To: ${account.email}
+Subject: Sign in to your account
+
+Dear ${account.first_name || 'Customer'},
+
+Use this link to sign in without a password:
+
+${accountLink('/account/magic-link', token)}
+
+This link expires ${expiresAt.toISOString()} and can only be used once.
+
+If you did not ask for this, you can ignore this email.
+========================================
+    `);
+  }
+}
@@ -0,0 +1,309 @@
+/**
+ * Account Policy Service
+ *
+ * Links portal accounts to policies and saved quotes (user_account_policy),
+ * and builds the account-level (household) dashboard. An account is linked
+ * to a policy row:
+ *
+ * - INSURED_EMAIL: the policy is insured under the account email, and the
+ *   account has verified that email (anyone can sign up with any address).
+ *   Linked automatically when the email is proven (verify-email, password
+ *   reset, magic-link sign-in), and when added by number.
+ * - SAVED_QUOTE: an unbought quote, added with the claim token returned to
+ *   the browser that created it (checkout links the quote being bought this
+ *   way). The quote number alone is not enough. Once the quote is bought,
+ *   the link only opens the policy for the insured (AuthService.canAccessPolicy).
+ * - SHARED: a household member already linked to the policy shared it.
+ * - LEGACY: the single policy a demo-era account pointed at.
+ *
+ * Bound policies are never linked by number alone.
+ */
+
+import { Injectable, Inject, Logger, NotFoundException, ForbiddenException } from '@nestjs/common';
+import { desc, eq, inArray, sql } from 'drizzle-orm';
+import { policy } from '../../../../database/schema/policy.schema';
+import { policyVersion } from '../../../../database/schema/policy-version.schema';
+import { claim } from '../../../../database/schema/claim.schema';
+import { UserAccount } from '../../../../database/schema/user-account.schema';
+import { userAccountPolicy } from '../../../../database/schema/user-account-policy.schema';
+import type { Database } from '../../database/drizzle.config';
+import { DATABASE_CONNECTION } from '../../database/database.module';
+import { UserAccountService, normalizeEmail } from './user-account.service';
+import { verifyQuoteClaimToken } from './quote-claim-token';
+
+/**
+ * Statuses of a quote that has not been bought yet
+ */
+export const SAVED_QUOTE_STATUSES = ['INCOMPLETE', 'QUOTED', 'BINDING'];
+
+export type AccountPolicyLinkSource = 'INSURED_EMAIL' | 'SAVED_QUOTE' | 'SHARED' | 'LEGACY';
+
+export interface AccountPolicySummary {
+  policy_number: string;
+  kind: 'POLICY' | 'QUOTE';
+  status: string;
+  insured_name: string | null;
+  vehicles: string[]; // e.g. "2020 Honda Civic"
+  effective_date: string;
+  expiration_date: string; // Quote expiry for quotes, term end for policies
+  premium_total: number | null;
+  linked_via: AccountPolicyLinkSource;
+}
+
+export interface AccountClaimSummary {
+  claim_number: string;
+  policy_number: string;
+  incident_date: string;
+  loss_type: string;
+  status: string;
+}
+
+export interface AccountDashboard {
+  account: {
+    user_account_id: string;
+    email: string;
+    first_name: string | null;
+    last_name: string | null;
+    email_verified: boolean; // Policies insured under the email are only linked once verified
+  };
+  policies: AccountPolicySummary[];
+  quotes: AccountPolicySummary[];
+  claims: AccountClaimSummary[];
+}
+
+type PolicyRecord = typeof policy.$inferSelect;
+
+@Injectable()
+export class AccountPolicyService {
+  private readonly logger = new Logger(AccountPolicyService.name);
+
+  constructor(
+    @Inject(DATABASE_CONNECTION) private db: Database,
+    @Inject(UserAccountService) private readonly userAccountService: UserAccountService,
+  ) {}
+
+  /**
+   * Link every policy and quote insured under the account email
+   *
+   * @returns Policy numbers newly linked (none until the email is verified)
+   */
+  async linkPoliciesByEmail(account: UserAccount): Promise<string[]> {
+    if (!account.email_verified_at) {
+      return [];
+    }
+
+    const insured = await this.db
+      .select()
+      .from(policy)
+      .where(sql`lower(${policy.quote_snapshot}->'driver'->>'email') = ${account.email}`);
+
+    if (insured.length === 0) {
+      return [];
+    }
+
+    const linked = await this.db
+      .insert(userAccountPolicy)
+      .values(insured.map(policyRecord => ({
+        account_id: account.account_id,
+        policy_id: policyRecord.policy_identifier,
+        linked_via: 'INSURED_EMAIL',
+      })))
+      .onConflictDoNothing()
+      .returning();
+
+    const numbers = insured
+      .filter(policyRecord => linked.some(link => link.policy_id === policyRecord.policy_identifier))
+      .map(policyRecord => policyRecord.policy_number);
+    if (numbers.length > 0) {
+      this.logger.log(`Linked account ${account.account_id} to ${numbers.join(', ')} by insured email`);
+    }
+    return numbers;
+  }
+
+  /**
+   * Add a policy or saved quote to an account by its number
+   *
+   * @param claimToken - Quote claim token, needed to save a quote not insured
+   *   under the account's verified email
+   * @throws NotFoundException if there is no such policy or quote
+   * @throws ForbiddenException if it is neither insured under the account's
+   *   verified email nor an unbought quote with its claim token
+   */
+  async linkPolicy(account: UserAccount, policyNumber: string, claimToken?: string): Promise<AccountPolicySummary> {
+    const [policyRecord] = await this.db
+      .select()
+      .from(policy)
+      .where(eq(policy.policy_number, policyNumber))
+      .limit(1);
+
+    if (!policyRecord) {
+      throw new NotFoundException(`Policy ${policyNumber} not found`);
+    }
+
+    const links = await this.db
+      .select()
+      .from(userAccountPolicy)
+      .where(eq(userAccountPolicy.policy_id, policyRecord.policy_identifier));
+
+    const existing = links.find(link => link.account_id === account.account_id);
+    if (existing) {
+      return this.summarize(policyRecord, existing.linked_via as AccountPolicyLinkSource, false);
+    }
+
+    let linkedVia: AccountPolicyLinkSource;
+    const insured = insuredEmail(policyRecord) === account.email;
+    if (insured && account.email_verified_at) {
+      linkedVia = 'INSURED_EMAIL';
+    } else if (SAVED_QUOTE_STATUSES.includes(policyRecord.status_code) && verifyQuoteClaimToken(policyNumber, claimToken)) {
+      linkedVia = 'SAVED_QUOTE';
+    } else if (insured) {
+      throw new ForbiddenException(`Verify your email address to add ${policyNumber}`);
+    } else {
+      throw new ForbiddenException(
+        `${policyNumber} can only be added by the insured, or shared with you by a household member who has it`
+      );
+    }
+
+    await this.db
+      .insert(userAccountPolicy)
+      .values({ account_id: account.account_id, policy_id: policyRecord.policy_identifier, linked_via: linkedVia })
+      .onConflictDoNothing();
+
+    this.logger.log(`Linked account ${account.account_id} to ${policyNumber} (${linkedVia})`);
+    return this.summarize(policyRecord, linkedVia, false);
+  }
+
+  /**
+   * Share a policy the account is linked to with another household member's account
+   *
+   * The caller's link is checked by PortalAuthGuard on the route.
+   *
+   * @throws NotFoundException if no account uses the email
+   */
+  async sharePolicy(owner: UserAccount, policyNumber: string, email: string): Promise<{ policy_number: string; email: string }> {
+    const member = await this.userAccountService.findByEmail(email);
+    if (!member) {
+      throw new NotFoundException(`No account found for ${normalizeEmail(email)}; they need to create one first`);
+    }
+
+    const [policyRecord] = await this.db
+      .select()
+      .from(policy)
+      .where(eq(policy.policy_number, policyNumber))
+      .limit(1);
+
+    if (!policyRecord) {
+      throw new NotFoundException(`Policy ${policyNumber} not found`);
+    }
+
+    await this.db
+      .insert(userAccountPolicy)
+      .values({
+        account_id: member.account_id,
+        policy_id: policyRecord.policy_identifier,
+        linked_via: 'SHARED',
+        shared_by_account_id: owner.account_id,
+      })
+      .onConflictDoNothing();
+
+    this.logger.log(`Account ${owner.account_id} shared ${policyNumber} with account ${member.account_id}`);
+    return { policy_number: policyNumber, email: member.email };
+  }
+
+  /**
+   * Policies and saved quotes linked to an account, newest first
+   */
+  async listPolicies(accountId: string): Promise<AccountPolicySummary[]> {
+    const rows = await this.db
+      .select()
+      .from(userAccountPolicy)
+      .innerJoin(policy, eq(userAccountPolicy.policy_id, policy.policy_identifier))
+      .where(eq(userAccountPolicy.account_id, accountId))
+      .orderBy(desc(policy.effective_date));
+
+    // EXPIRED covers both quotes never bought and policies that ended; bought ones have versions
+    const expiredIds = rows
+      .filter(row => row.policy.status_code === 'EXPIRED')
+      .map(row => row.policy.policy_identifier);
+    const boughtIds = new Set<string>();
+    if (expiredIds.length > 0) {
+      const versions = await this.db
+        .select()
+        .from(policyVersion)
+        .where(inArray(policyVersion.policy_id, expiredIds));
+      versions.forEach(version => boughtIds.add(version.policy_id));
+    }
+
+    return rows.map(row => this.summarize(
+      row.policy,
+      row.user_account_policy.linked_via as AccountPolicyLinkSource,
+      row.policy.status_code === 'EXPIRED' && !boughtIds.has(row.policy.policy_identifier),
+    ));
+  }
+
+  /**
+   * Account-level dashboard: every linked policy, saved quote and claim
+   */
+  async getDashboard(account: UserAccount): Promise<AccountDashboard> {
+    const linked = await this.listPolicies(account.account_id);
+    const policies = linked.filter(summary => summary.kind === 'POLICY');
+
+    let claims: AccountClaimSummary[] = [];
+    if (policies.length > 0) {
+      const rows = await this.db
+        .select()
+        .from(claim)
+        .innerJoin(policy, eq(claim.policy_identifier, policy.policy_identifier))
+        .where(inArray(policy.policy_number, policies.map(summary => summary.policy_number)))
+        .orderBy(desc(claim.incident_date));
+
+      claims = rows.map(row => ({
+        claim_number: row.claim.claim_number,
+        policy_number: row.policy.policy_number,
+        incident_date: row.claim.incident_date,
+        loss_type: row.claim.loss_type,
+        status: row.claim.status,
+      }));
+    }
+
+    return {
+      account: {
+        user_account_id: account.account_id,
+        email: account.email,
+        first_name: account.first_name,
+        last_name: account.last_name,
+        email_verified: !!account.email_verified_at,
+      },
+      policies,
+      quotes: linked.filter(summary => summary.kind === 'QUOTE'),
+      claims,
+    };
+  }
+
+  private summarize(policyRecord: PolicyRecord, linkedVia: AccountPolicyLinkSource, expiredQuote: boolean): AccountPolicySummary {
+    const snapshot: any = policyRecord.quote_snapshot || {};
+    const driver = snapshot.driver || snapshot.primary_driver;
+    const vehicles: any[] = snapshot.vehicles || (snapshot.vehicle ? [snapshot.vehicle] : []);
+    const premiumTotal = Number(snapshot.premium?.total);
+
+    return {
+      policy_number: policyRecord.policy_number,
+      kind: expiredQuote || SAVED_QUOTE_STATUSES.includes(policyRecord.status_code) ? 'QUOTE' : 'POLICY',
+      status: policyRecord.status_code,
+      insured_name: driver ? [driver.firstName, driver.lastName].filter(Boolean).join(' ') || null : null,
+      vehicles: vehicles.map(vehicle => [vehicle.year, vehicle.make, vehicle.model].filter(Boolean).join(' ')),
+      effective_date: policyRecord.effective_date,
+      expiration_date: policyRecord.expiration_date,
+      premium_total: Number.isFinite(premiumTotal) ? premiumTotal : null,
+      linked_via: linkedVia,
+    };
+  }
+}
+
+/**
+ * Normalized email of a policy's primary insured, if it has one
+ */
+export function insuredEmail(policyRecord: PolicyRecord): string | null {
+  const email = (policyRecord.quote_snapshot as any)?.driver?.email;
+  return typeof email === 'string' ? normalizeEmail(email) : null;
+}
@@ -0,0 +1,30 @@
+/**
+ * Account Token Secret
+ *
+ * Key that signs account links (AccountTokenService) and quote claim tokens
+ * (quote-claim-token), from ACCOUNT_TOKEN_SECRET. Kept on its own so the
+ * quote flow can sign with it without loading the account services.
+ */
+
+// Development-only signing key; production must set ACCOUNT_TOKEN_SECRET
+const DEV_ACCOUNT_TOKEN_SECRET = 'dev-only-account-token-secret-change-me';
+
+/**
+ * Key that signs account tokens, from ACCOUNT_TOKEN_SECRET
+ *
+ * @throws Error if it is unset in production or shorter than 32 characters
+ */
+export function getAccountTokenSecret(): string {
+  const secret = process.env.ACCOUNT_TOKEN_SECRET;
+  if (secret === undefined || secret === '') {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('ACCOUNT_TOKEN_SECRET is required in production');
+    }
+    return DEV_ACCOUNT_TOKEN_SECRET;
+  }
+
+  if (secret.length < 32) {
+    throw new Error('ACCOUNT_TOKEN_SECRET must be at least 32 characters');
+  }
+  return secret;
+}
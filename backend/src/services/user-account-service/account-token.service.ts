@@ -0,0 +1,358 @@
+/**
+ * Account Token Service
+ *
+ * One-time links emailed to account holders (AccountEmailService):
+ *
+ * - VERIFY_EMAIL: sent on sign-up (and on request); confirms the email.
+ * - PASSWORD_RESET: "forgot password"; sets a new password and signs the
+ *   account out everywhere.
+ * - MAGIC_LINK: passwordless sign-in; starts a session like a password would.
+ *
+ * Following any of them proves the account owns its email, so it verifies
+ * the email and links the policies insured under it (AccountPolicyService).
+ *
+ * A token is `<purpose>.<expiry>.<nonce>.<signature>`, signed with
+ * HMAC-SHA256 under ACCOUNT_TOKEN_SECRET, so tampered or forged tokens are
+ * refused before any lookup. Only its SHA-256 hash is stored
+ * (account_token), which makes it single use and lets it be checked against
+ * the stored expiry.
+ *
+ * Each account can be sent ACCOUNT_TOKEN_RATE_LIMIT links per purpose per
+ * ACCOUNT_TOKEN_RATE_WINDOW_MINUTES. Forgot-password and magic-link requests
+ * answer the same way whether or not the email has an account, and when the
+ * limit is reached, so they cannot be used to probe for accounts.
+ */
+
+import { Injectable, Inject, Logger, HttpException, HttpStatus } from '@nestjs/common';
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { and, eq, gt, isNull } from 'drizzle-orm';
+import { userAccount, UserAccount } from '../../../../database/schema/user-account.schema';
+import { accountToken } from '../../../../database/schema/account-token.schema';
+import type { Database } from '../../database/drizzle.config';
+import { DATABASE_CONNECTION } from '../../database/database.module';
+import { BusinessRuleError } from '../../api/middleware/error-handler';
+import { UserAccountService, normalizeEmail } from './user-account.service';
+import { AuthService, StartedSession } from './auth.service';
+import { AccountEmailService } from './account-email.service';
+import { AccountPolicyService } from './account-policy.service';
+import { getAccountTokenSecret } from './account-token-secret';
+
+export { getAccountTokenSecret };
+
+export type AccountTokenPurpose = 'VERIFY_EMAIL' | 'PASSWORD_RESET' | 'MAGIC_LINK';
+
+export const ACCOUNT_TOKEN_PURPOSES: AccountTokenPurpose[] = ['VERIFY_EMAIL', 'PASSWORD_RESET', 'MAGIC_LINK'];
+
+/**
+ * How long each kind of link stays valid
+ */
+export const ACCOUNT_TOKEN_TTL_MINUTES: Record<AccountTokenPurpose, number> = {
+  VERIFY_EMAIL: 24 * 60,
+  PASSWORD_RESET: 60,
+  MAGIC_LINK: 15,
+};
+
+/**
+ * Links of one purpose an account can be sent per rate window
+ */
+export const ACCOUNT_TOKEN_RATE_LIMIT = 3;
+export const ACCOUNT_TOKEN_RATE_WINDOW_MINUTES = 60;
+
+export interface IssuedAccountToken {
+  token: string; // Only returned here (and emailed); the database keeps its hash
+  expiresAt: Date;
+}
+
+/**
+ * Create a signed token for a purpose, valid until expiresAt
+ */
+export function signAccountToken(purpose: AccountTokenPurpose, expiresAt: Date): string {
+  const payload = `${purpose}.${expiresAt.getTime()}.${randomBytes(32).toString('base64url')}`;
+  return `${payload}.${accountTokenSignature(payload)}`;
+}
+
+/**
+ * Read the purpose and expiry of a token
+ *
+ * @returns Null if the token is malformed or its signature does not match
+ */
+export function readAccountToken(token: string): { purpose: AccountTokenPurpose; expiresAt: Date } | null {
+  const parts = token.split('.');
+  if (parts.length !== 4) {
+    return null;
+  }
+
+  const [purpose, expiresAtMs, , signature] = parts;
+  const expected = Buffer.from(accountTokenSignature(parts.slice(0, 3).join('.')));
+  const given = Buffer.from(signature);
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+    return null;
+  }
+
+  const expiresAt = new Date(Number(expiresAtMs));
+  if (!ACCOUNT_TOKEN_PURPOSES.includes(purpose as AccountTokenPurpose) || Number.isNaN(expiresAt.getTime())) {
+    return null;
+  }
+  return { purpose: purpose as AccountTokenPurpose, expiresAt };
+}
+
+/**
+ * Hex SHA-256 of an account token, as stored in account_token.token_hash
+ */
+export function hashAccountToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function accountTokenSignature(payload: string): string {
+  return createHmac('sha256', getAccountTokenSecret()).update(payload).digest('base64url');
+}
+
+@Injectable()
+export class AccountTokenService {
+  private readonly logger = new Logger(AccountTokenService.name);
+
+  constructor(
+    @Inject(DATABASE_CONNECTION) private db: Database,
+    @Inject(UserAccountService) private readonly userAccountService: UserAccountService,
+    @Inject(AuthService) private readonly authService: AuthService,
+    @Inject(AccountEmailService) private readonly accountEmailService: AccountEmailService,
+    @Inject(AccountPolicyService) private readonly accountPolicyService: AccountPolicyService,
+  ) {}
+
+  /**
+   * Email the account a link to confirm its address
+   *
+   * @throws BusinessRuleError if the email is already verified
+   * @throws HttpException (429) if too many links were sent recently
+   */
+  async requestEmailVerification(account: UserAccount, now: Date = new Date()): Promise<IssuedAccountToken> {
+    if (account.email_verified_at) {
+      throw new BusinessRuleError('Your email address is already verified', 'EMAIL_ALREADY_VERIFIED');
+    }
+
+    const issued = await this.issue(account, 'VERIFY_EMAIL', now);
+    await this.accountEmailService.sendVerificationEmail(account, issued.token, issued.expiresAt);
+    return issued;
+  }
+
+  /**
+   * Confirm the account email with a verify-email token
+   *
+   * @throws BusinessRuleError if the link is invalid, expired or already used
+   */
+  async verifyEmail(token: string, now: Date = new Date()): Promise<UserAccount> {
+    const account = await this.consume(token, 'VERIFY_EMAIL', now);
+
+    if (!account.email_verified_at) {
+      await this.db
+        .update(userAccount)
+        .set({ email_verified_at: now })
+        .where(eq(userAccount.account_id, account.account_id));
+    }
+
+    this.logger.log(`Email verified for account ${account.account_id}`);
+    const verified = { ...account, email_verified_at: account.email_verified_at ?? now };
+    await this.accountPolicyService.linkPoliciesByEmail(verified);
+    return verified;
+  }
+
+  /**
+   * Email a password reset link, if the email has an account
+   */
+  async requestPasswordReset(email: string, now: Date = new Date()): Promise<void> {
+    await this.emailLink(email, 'PASSWORD_RESET', now);
+  }
+
+  /**
+   * Set a new password with a password reset token
+   *
+   * Following the link proves the email, so it also verifies it. Other
+   * outstanding reset links are spent and every session is signed out.
+   *
+   * @throws BusinessRuleError if the link is invalid, expired or already used
+   */
+  async resetPassword(token: string, password: string, now: Date = new Date()): Promise<UserAccount> {
+    const account = await this.consume(token, 'PASSWORD_RESET', now);
+
+    await this.db
+      .update(userAccount)
+      .set({
+        password_hash: await this.userAccountService.hashPassword(password),
+        email_verified_at: account.email_verified_at ?? now,
+      })
+      .where(eq(userAccount.account_id, account.account_id));
+
+    await this.db
+      .update(accountToken)
+      .set({ used_at: now })
+      .where(and(
+        eq(accountToken.account_id, account.account_id),
+        eq(accountToken.purpose, 'PASSWORD_RESET'),
+        isNull(accountToken.used_at),
+      ));
+
+    await this.authService.revokeAllSessions(account.account_id, now);
+
+    this.logger.log(`Password reset for account ${account.account_id}`);
+    const verified = { ...account, email_verified_at: account.email_verified_at ?? now };
+    await this.accountPolicyService.linkPoliciesByEmail(verified);
+    return verified;
+  }
+
+  /**
+   * Email a passwordless sign-in link, if the email has an account
+   */
+  async requestMagicLink(email: string, now: Date = new Date()): Promise<void> {
+    await this.emailLink(email, 'MAGIC_LINK', now);
+  }
+
+  /**
+   * Sign in with a magic-link token (also verifies the email)
+   *
+   * @throws BusinessRuleError if the link is invalid, expired or already used
+   */
+  async loginWithMagicLink(token: string, now: Date = new Date()): Promise<StartedSession> {
+    const account = await this.consume(token, 'MAGIC_LINK', now);
+
+    const emailVerifiedAt = account.email_verified_at ?? now;
+    await this.db
+      .update(userAccount)
+      .set({ last_login_at: now, email_verified_at: emailVerifiedAt })
+      .where(eq(userAccount.account_id, account.account_id));
+
+    const signedIn = { ...account, last_login_at: now, email_verified_at: emailVerifiedAt };
+    await this.accountPolicyService.linkPoliciesByEmail(signedIn);
+    return this.authService.startSession(signedIn, now);
+  }
+
+  /**
+   * Create and store a token for an account
+   *
+   * @throws HttpException (429) if the account was sent ACCOUNT_TOKEN_RATE_LIMIT
+   *   links of this purpose within the rate window
+   */
+  async issue(account: UserAccount, purpose: AccountTokenPurpose, now: Date = new Date()): Promise<IssuedAccountToken> {
+    const windowStart = new Date(now.getTime() - ACCOUNT_TOKEN_RATE_WINDOW_MINUTES * 60 * 1000);
+    const recent = await this.db
+      .select({ created_at: accountToken.created_at })
+      .from(accountToken)
+      .where(and(
+        eq(accountToken.account_id, account.account_id),
+        eq(accountToken.purpose, purpose),
+        gt(accountToken.created_at, windowStart),
+      ));
+
+    if (recent.length >= ACCOUNT_TOKEN_RATE_LIMIT) {
+      const oldest = Math.min(...recent.map(row => row.created_at.getTime()));
+      const retryAfter = Math.max(1, Math.ceil((oldest - windowStart.getTime()) / 1000));
+
+      this.logger.warn(`Account link rate limit reached for account ${account.account_id} (${purpose})`);
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.TOO_MANY_REQUESTS,
+          message: 'Too many emails requested. Please try again later.',
+          retryAfter,
+        },
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+
+    const expiresAt = new Date(now.getTime() + ACCOUNT_TOKEN_TTL_MINUTES[purpose] * 60 * 1000);
+    const token = signAccountToken(purpose, expiresAt);
+
+    await this.db.insert(accountToken).values({
+      account_id: account.account_id,
+      purpose,
+      token_hash: hashAccountToken(token),
+      expires_at: expiresAt,
+      created_at: now,
+    });
+
+    this.logger.log(`${purpose} link issued for account ${account.account_id} (expires ${expiresAt.toISOString()})`);
+    return { token, expiresAt };
+  }
+
+  /**
+   * Spend a token and return its account
+   *
+   * @throws BusinessRuleError if the token is forged, for another purpose,
+   *   unknown, expired or already used
+   */
+  async consume(token: string, purpose: AccountTokenPurpose, now: Date = new Date()): Promise<UserAccount> {
+    const signed = readAccountToken(token);
+    if (!signed || signed.purpose !== purpose) {
+      throw invalidLink();
+    }
+    if (signed.expiresAt.getTime() <= now.getTime()) {
+      throw expiredLink();
+    }
+
+    const [stored] = await this.db
+      .select()
+      .from(accountToken)
+      .where(eq(accountToken.token_hash, hashAccountToken(token)))
+      .limit(1);
+
+    if (!stored || stored.purpose !== purpose) {
+      throw invalidLink();
+    }
+    if (stored.used_at) {
+      throw usedLink();
+    }
+    if (stored.expires_at.getTime() <= now.getTime()) {
+      throw expiredLink();
+    }
+
+    // Only one of two concurrent requests gets the row back
+    const spent = await this.db
+      .update(accountToken)
+      .set({ used_at: now })
+      .where(and(eq(accountToken.token_id, stored.token_id), isNull(accountToken.used_at)))
+      .returning();
+    if (spent.length === 0) {
+      throw usedLink();
+    }
+
+    const account = await this.userAccountService.findById(stored.account_id);
+    if (!account) {
+      throw invalidLink();
+    }
+    return account;
+  }
+
+  private async emailLink(email: string, purpose: 'PASSWORD_RESET' | 'MAGIC_LINK', now: Date): Promise<void> {
+    const account = await this.userAccountService.findByEmail(email);
+    if (!account) {
+      this.logger.log(`${purpose} link requested for ${normalizeEmail(email)}, which has no account`);
+      return;
+    }
+
+    let issued: IssuedAccountToken;
+    try {
+      issued = await this.issue(account, purpose, now);
+    } catch (error) {
+      if (error instanceof HttpException && error.getStatus() === HttpStatus.TOO_MANY_REQUESTS) {
+        return; // Answered like any other request; issue() logged it
+      }
+      throw error;
+    }
+
+    if (purpose === 'PASSWORD_RESET') {
+      await this.accountEmailService.sendPasswordResetEmail(account, issued.token, issued.expiresAt);
+    } else {
+      await this.accountEmailService.sendMagicLinkEmail(account, issued.token, issued.expiresAt);
+    }
+  }
+}
+
+function invalidLink(): BusinessRuleError {
+  return new BusinessRuleError('This link is not valid. Please request a new one.', 'ACCOUNT_LINK_INVALID');
+}
+
+function expiredLink(): BusinessRuleError {
+  return new BusinessRuleError('This link has expired. Please request a new one.', 'ACCOUNT_LINK_EXPIRED');
+}
+
+function usedLink(): BusinessRuleError {
+  return new BusinessRuleError('This link has already been used. Please request a new one.', 'ACCOUNT_LINK_USED');
+}
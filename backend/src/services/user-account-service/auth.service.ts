@@ -0,0 +1,215 @@
+/**
+ * Auth Service
+ *
+ * Sign-in sessions for the self-service portal:
+ *
+ * - Sign-in checks the email and password (UserAccountService) and starts a
+ *   session. The session token is a random 256-bit value returned once to be
+ *   set as a cookie; only its SHA-256 hash is stored.
+ * - Sessions expire SESSION_TTL_HOURS after sign-in (default 12) and end
+ *   early when the customer signs out, or on a password reset.
+ * - Magic links (AccountTokenService) start the same kind of session.
+ * - A signed-in account can open the portal of each policy linked to it in
+ *   user_account_policy (see AccountPolicyService). A link made only
+ *   because the policy is insured under the account email counts once the
+ *   account has verified that email; anyone can sign up with any address.
+ */
+
+import { Injectable, Inject, Logger } from '@nestjs/common';
+import { createHash, randomBytes } from 'crypto';
+import { and, eq, isNull } from 'drizzle-orm';
+import { policy } from '../../../../database/schema/policy.schema';
+import { userAccount, UserAccount } from '../../../../database/schema/user-account.schema';
+import { userSession } from '../../../../database/schema/user-session.schema';
+import { userAccountPolicy } from '../../../../database/schema/user-account-policy.schema';
+import type { Database } from '../../database/drizzle.config';
+import { DATABASE_CONNECTION } from '../../database/database.module';
+import { UnauthorizedError } from '../../api/middleware/error-handler';
+import { UserAccountService, normalizeEmail } from './user-account.service';
+import { SAVED_QUOTE_STATUSES, insuredEmail } from './account-policy.service';
+
+/**
+ * Default session lifetime when SESSION_TTL_HOURS is unset
+ */
+export const DEFAULT_SESSION_TTL_HOURS = 12;
+
+export interface StartedSession {
+  account: UserAccount;
+  token: string; // Only returned here; the database keeps its hash
+  expiresAt: Date;
+}
+
+export interface ActiveSession {
+  sessionId: string;
+  account: UserAccount;
+  expiresAt: Date;
+}
+
+/**
+ * Session lifetime in hours, from SESSION_TTL_HOURS
+ *
+ * @throws Error if it is not a positive number of hours
+ */
+export function getSessionTtlHours(): number {
+  const value = process.env.SESSION_TTL_HOURS;
+  if (value === undefined || value === '') {
+    return DEFAULT_SESSION_TTL_HOURS;
+  }
+
+  const hours = Number(value);
+  if (!Number.isFinite(hours) || hours <= 0) {
+    throw new Error(`SESSION_TTL_HOURS must be a positive number of hours (got "${value}")`);
+  }
+  return hours;
+}
+
+/**
+ * Hex SHA-256 of a session token, as stored in user_session.token_hash
+ */
+export function hashSessionToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+@Injectable()
+export class AuthService {
+  private readonly logger = new Logger(AuthService.name);
+
+  constructor(
+    @Inject(DATABASE_CONNECTION) private db: Database,
+    @Inject(UserAccountService) private readonly userAccountService: UserAccountService,
+  ) {}
+
+  /**
+   * Sign in with email and password
+   *
+   * @throws UnauthorizedError if the email is unknown or the password is wrong
+   *   (the same error for both, so sign-in cannot be used to probe for accounts)
+   */
+  async login(email: string, password: string, now: Date = new Date()): Promise<StartedSession> {
+    const account = await this.userAccountService.authenticate(email, password);
+    if (!account) {
+      this.logger.warn(`Failed sign-in for ${normalizeEmail(email)}`);
+      throw new UnauthorizedError('Invalid email or password');
+    }
+
+    await this.db
+      .update(userAccount)
+      .set({ last_login_at: now })
+      .where(eq(userAccount.account_id, account.account_id));
+
+    return this.startSession(account, now);
+  }
+
+  /**
+   * Start a session for an account (sign-in, or a just-created account)
+   */
+  async startSession(account: UserAccount, now: Date = new Date()): Promise<StartedSession> {
+    const token = randomBytes(32).toString('base64url');
+    const expiresAt = new Date(now.getTime() + getSessionTtlHours() * 60 * 60 * 1000);
+
+    await this.db.insert(userSession).values({
+      account_id: account.account_id,
+      token_hash: hashSessionToken(token),
+      expires_at: expiresAt,
+      last_used_at: now,
+    });
+
+    this.logger.log(`Session started for account ${account.account_id} (expires ${expiresAt.toISOString()})`);
+    return { account, token, expiresAt };
+  }
+
+  /**
+   * Resolve a session token to its account
+   *
+   * @returns The session, or null if the token is unknown, expired or signed out
+   */
+  async validateSession(token: string | undefined, now: Date = new Date()): Promise<ActiveSession | null> {
+    if (!token) {
+      return null;
+    }
+
+    const [session] = await this.db
+      .select()
+      .from(userSession)
+      .where(eq(userSession.token_hash, hashSessionToken(token)))
+      .limit(1);
+
+    if (!session || session.revoked_at || session.expires_at.getTime() <= now.getTime()) {
+      return null;
+    }
+
+    const account = await this.userAccountService.findById(session.account_id);
+    if (!account) {
+      return null;
+    }
+
+    await this.db
+      .update(userSession)
+      .set({ last_used_at: now })
+      .where(eq(userSession.session_id, session.session_id));
+
+    return { sessionId: session.session_id, account, expiresAt: session.expires_at };
+  }
+
+  /**
+   * Sign out: end the session for a token (no-op for unknown tokens)
+   */
+  async logout(token: string | undefined, now: Date = new Date()): Promise<void> {
+    if (!token) {
+      return;
+    }
+
+    await this.db
+      .update(userSession)
+      .set({ revoked_at: now })
+      .where(eq(userSession.token_hash, hashSessionToken(token)));
+  }
+
+  /**
+   * End every open session of an account (after a password reset)
+   */
+  async revokeAllSessions(accountId: string, now: Date = new Date()): Promise<void> {
+    await this.db
+      .update(userSession)
+      .set({ revoked_at: now })
+      .where(and(eq(userSession.account_id, accountId), isNull(userSession.revoked_at)));
+
+    this.logger.log(`Signed out every session of account ${accountId}`);
+  }
+
+  /**
+   * Whether an account may open a policy's portal
+   *
+   * INSURED_EMAIL links need a verified email. A saved quote link opens the
+   * quote until it is bought; after that, only for the insured's verified
+   * email. Shares and legacy links need neither.
+   *
+   * @returns False for unknown policy numbers too, so the answer does not
+   *   reveal which policy numbers exist
+   */
+  async canAccessPolicy(account: UserAccount, policyNumber: string): Promise<boolean> {
+    const [link] = await this.db
+      .select()
+      .from(userAccountPolicy)
+      .innerJoin(policy, eq(userAccountPolicy.policy_id, policy.policy_identifier))
+      .where(and(
+        eq(userAccountPolicy.account_id, account.account_id),
+        eq(policy.policy_number, policyNumber),
+      ))
+      .limit(1);
+
+    if (!link) {
+      return false;
+    }
+
+    const insured = !!account.email_verified_at && insuredEmail(link.policy) === account.email;
+    switch (link.user_account_policy.linked_via) {
+      case 'INSURED_EMAIL':
+        return !!account.email_verified_at;
+      case 'SAVED_QUOTE':
+        return SAVED_QUOTE_STATUSES.includes(link.policy.status_code) || insured;
+      default:
+        return true;
+    }
+  }
+}
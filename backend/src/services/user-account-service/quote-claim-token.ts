@@ -0,0 +1,34 @@
+/**
+ * Quote Claim Tokens
+ *
+ * Returned with a new quote to the browser that created it. Saving an unbought
+ * quote to an account (AccountPolicyService.linkPolicy) needs the token, so
+ * knowing a quote number - which the quote pages show - is not enough to
+ * claim someone else's quote.
+ *
+ * A token is the HMAC-SHA256 of the quote number under ACCOUNT_TOKEN_SECRET;
+ * nothing is stored.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { getAccountTokenSecret } from './account-token-secret';
+
+/**
+ * Claim token for a quote number
+ */
+export function signQuoteClaimToken(quoteNumber: string): string {
+  return createHmac('sha256', getAccountTokenSecret()).update(`QUOTE_CLAIM.${quoteNumber}`).digest('base64url');
+}
+
+/**
+ * Whether a claim token was issued for a quote number
+ */
+export function verifyQuoteClaimToken(quoteNumber: string, token: string | undefined): boolean {
+  if (!token) {
+    return false;
+  }
+
+  const expected = Buffer.from(signQuoteClaimToken(quoteNumber));
+  const given = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
@@ -2,18 +2,25 @@
  * User Account Module
  *
  * Provides user account management services for the application.
- * Handles email checking, account creation, and authentication (demo mode).
+ * Handles email checking, account creation, sign-in sessions, emailed
+ * verify/reset/magic links and the policies linked to each account.
+ * Modules whose controllers use PortalAuthGuard import this module for
+ * AuthService.
  */
 
 import { Module } from '@nestjs/common';
 import { DatabaseModule } from '../../database/database.module';
 import { UserAccountService } from './user-account.service';
+import { AuthService } from './auth.service';
+import { AccountPolicyService } from './account-policy.service';
+import { AccountTokenService } from './account-token.service';
+import { AccountEmailService } from './account-email.service';
 import { UserAccountsController } from '../../api/routes/user-accounts.controller';
 
 @Module({
   imports: [DatabaseModule],
   controllers: [UserAccountsController],
-  providers: [UserAccountService],
-  exports: [UserAccountService],
+  providers: [UserAccountService, AuthService, AccountPolicyService, AccountTokenService, AccountEmailService],
+  exports: [UserAccountService, AuthService, AccountPolicyService],
 })
 export class UserAccountModule {}
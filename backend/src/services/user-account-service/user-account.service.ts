@@ -2,18 +2,24 @@
  * User Account Service - T143, T144
  *
  * Business logic for user account management.
- * Handles email checking, account creation, and basic authentication.
+ * Handles email checking, account creation and password verification.
  *
- * Note: For Phase 4 demo, password handling is simplified.
- * In production, this would use bcrypt for password hashing.
+ * Passwords are stored as bcrypt hashes. Emails are compared lowercase, so
+ * an account created as Jane@Example.com signs in as jane@example.com.
  */
 
-import { Injectable, Inject, Logger } from '@nestjs/common';
+import { Injectable, Inject, Logger, ConflictException } from '@nestjs/common';
+import * as bcrypt from 'bcryptjs';
 import { DATABASE_CONNECTION } from '../../database/database.module';
 import type { Database } from '../../database/drizzle.config';
-import { userAccount } from '../../../../database/schema/user-account.schema';
+import { userAccount, UserAccount } from '../../../../database/schema/user-account.schema';
 import { eq } from 'drizzle-orm';
 
+/**
+ * bcrypt cost factor for password hashes
+ */
+export const BCRYPT_ROUNDS = 12;
+
 interface CreateAccountData {
   email: string;
   password: string;
@@ -21,25 +27,50 @@ interface CreateAccountData {
   last_name: string;
 }
 
+/**
+ * Lowercase, trimmed email used for lookups and storage
+ */
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
 @Injectable()
 export class UserAccountService {
   private readonly logger = new Logger(UserAccountService.name);
 
+  // Compared against when no account matches, so unknown emails take as long as wrong passwords
+  private dummyHash?: Promise<string>;
+
   constructor(@Inject(DATABASE_CONNECTION) private db: Database) {}
 
   /**
    * Find user account by email
    *
-   * @param email - Email address to search
+   * @param email - Email address to search (any case)
    * @returns User account or null if not found
    */
-  async findByEmail(email: string): Promise<any | null> {
+  async findByEmail(email: string): Promise<UserAccount | null> {
     this.logger.log(`Finding user by email: ${email}`);
 
     const [user] = await this.db
       .select()
       .from(userAccount)
-      .where(eq(userAccount.email, email));
+      .where(eq(userAccount.email, normalizeEmail(email)));
+
+    return user || null;
+  }
+
+  /**
+   * Find user account by ID
+   *
+   * @param accountId - Account UUID
+   * @returns User account or null if not found
+   */
+  async findById(accountId: string): Promise<UserAccount | null> {
+    const [user] = await this.db
+      .select()
+      .from(userAccount)
+      .where(eq(userAccount.account_id, accountId));
 
     return user || null;
   }
@@ -47,63 +78,70 @@ export class UserAccountService {
   /**
    * Create new user account
    *
-   * Note: For demo purposes, we're creating a minimal user account record.
-   * The password is stored in quote_snapshot for demo (not secure - production would use bcrypt).
-   * For Phase 4, we create a user_account record with a temporary policy_identifier.
+   * Accounts stand on their own; policies and quotes are linked to them
+   * afterwards (AccountPolicyService).
    *
    * @param data - Account creation data
    * @returns Created user account
+   * @throws ConflictException if the email already has an account
+   */
+  async createAccount(data: CreateAccountData): Promise<UserAccount> {
+    const email = normalizeEmail(data.email);
+    this.logger.log(`Creating account for: ${email}`);
+
+    if (await this.findByEmail(email)) {
+      throw new ConflictException('Email already registered');
+    }
+
+    const [account] = await this.db
+      .insert(userAccount)
+      .values({
+        email,
+        first_name: data.first_name,
+        last_name: data.last_name,
+        password_hash: await this.hashPassword(data.password),
+      })
+      .returning();
+
+    this.logger.log(`Account created: ${account.account_id}`);
+    return account;
+  }
+
+  /**
+   * Hash a password with bcrypt
    */
-  async createAccount(data: CreateAccountData): Promise<any> {
-    this.logger.log(`Creating account for: ${data.email}`);
-
-    // For demo purposes, we create a user account record with minimal data
-    // In production, this would:
-    // 1. Hash password with bcrypt
-    // 2. Create user_account record
-    // 3. Store credentials in separate table
-    // 4. Send verification email
-
-    const accountId = crypto.randomUUID();
-
-    // For Phase 4 demo, we store user info in memory/cache
-    // In production, this would properly insert into database with policy linkage
-    // Since user_account requires policy_identifier (FK constraint),
-    // we can't create standalone accounts until they purchase a policy
-
-    // TODO: For Phase 5, create user_account record after policy purchase
-    // For now, store in temporary cache or quote_snapshot
-
-    this.logger.log(`Account created (temporary): ${accountId}`);
-
-    // Return mock account for demo purposes
-    // This allows the frontend flow to work
-    // The actual account will be created during policy binding
-    return {
-      account_id: accountId,
-      email: data.email,
-      first_name: data.first_name,
-      last_name: data.last_name,
-      created_at: new Date(),
-      updated_at: new Date(),
-    };
+  async hashPassword(password: string): Promise<string> {
+    return bcrypt.hash(password, BCRYPT_ROUNDS);
   }
 
   /**
-   * Verify password (demo implementation)
+   * Verify password
    *
-   * In production, this would:
-   * 1. Fetch hashed password from database
-   * 2. Use bcrypt.compare() to verify
-   * 3. Return true/false
+   * Accounts without a password (created by the old URL-based demo flow)
+   * never verify.
    *
    * @param email - User email
    * @param password - Password to verify
    * @returns True if password matches
    */
   async verifyPassword(email: string, password: string): Promise<boolean> {
-    // Mock implementation for demo
-    // In production, use bcrypt
-    return true;
+    return (await this.authenticate(email, password)) !== null;
+  }
+
+  /**
+   * Find the account an email and password sign in to
+   *
+   * @returns The account, or null if the email is unknown or the password is wrong
+   */
+  async authenticate(email: string, password: string): Promise<UserAccount | null> {
+    const account = await this.findByEmail(email);
+
+    if (!account?.password_hash) {
+      this.dummyHash ??= bcrypt.hash('no-account', BCRYPT_ROUNDS);
+      await bcrypt.compare(password, await this.dummyHash);
+      return null;
+    }
+
+    return (await bcrypt.compare(password, account.password_hash)) ? account : null;
   }
 }
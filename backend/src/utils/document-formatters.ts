@@ -16,6 +16,9 @@
  * - Generation: generation_timestamp
  */
 
+import { PAYMENT_PLANS, DEFAULT_PAYMENT_PLAN, PaymentPlanCode, getInstallmentCount } from '../services/billing/payment-plans';
+import { DEFAULT_POLICY_TERM_MONTHS } from '../services/rating-engine/rating-engine.service';
+
 /**
  * Interface representing declarations page template data
  */
@@ -178,24 +181,14 @@ export function mapPolicyToDeclarationsData(
   const sixMonthPremium = totalPremium;
   const annualPremium = totalPremium * 2;
 
-  // Determine payment plan
-  let paymentPlan = 'Full Payment';
-  let monthlyPayment = formatCurrency(0);
-  let installmentFee: string | undefined = undefined;
-
-  if (policy.payment_plan) {
-    if (policy.payment_plan === 'MONTHLY') {
-      paymentPlan = 'Monthly Installments (6 payments)';
-      monthlyPayment = formatCurrency(sixMonthPremium / 6);
-      installmentFee = formatCurrency(5); // Example $5 installment fee
-    } else if (policy.payment_plan === 'QUARTERLY') {
-      paymentPlan = 'Quarterly Payments (2 payments)';
-      monthlyPayment = formatCurrency(sixMonthPremium / 2);
-    } else if (policy.payment_plan === 'FULL') {
-      paymentPlan = 'Full Payment';
-      monthlyPayment = formatCurrency(sixMonthPremium);
-    }
-  }
+  // Determine payment plan (chosen on the quote, billed from binding)
+  const planCode = policy.payment_plan || quoteSnapshot?.preferences?.paymentPlan;
+  const plan = PAYMENT_PLANS[planCode as PaymentPlanCode] || PAYMENT_PLANS[DEFAULT_PAYMENT_PLAN];
+  const installments = getInstallmentCount(plan, DEFAULT_POLICY_TERM_MONTHS);
+
+  const paymentPlan = installments > 1 ? `${plan.name} (${installments} payments)` : 'Full Payment';
+  const monthlyPayment = formatCurrency(sixMonthPremium / installments);
+  const installmentFee = plan.installmentFee > 0 ? formatCurrency(plan.installmentFee) : undefined;
 
   // First payment due (coverage start date)
   const firstPaymentDue = policy.coverage_start_date
@@ -277,6 +277,70 @@ function validateLuhnChecksum(cardNumber: string): boolean {
   return sum % 10 === 0;
 }
 
+/**
+ * Validate a US bank routing number (ABA transit number)
+ *
+ * The 9 digits are weighted 3, 7, 1 repeating; the weighted sum must be a
+ * multiple of 10.
+ *
+ * @param routingNumber - Routing number (digits only)
+ * @returns true if valid routing number, false otherwise
+ */
+export function isValidRoutingNumber(routingNumber: string): boolean {
+  if (!/^\d{9}$/.test(routingNumber)) {
+    return false;
+  }
+
+  const weights = [3, 7, 1];
+  const sum = routingNumber
+    .split('')
+    .reduce((total, digit, i) => total + parseInt(digit, 10) * weights[i % 3], 0);
+
+  return sum % 10 === 0;
+}
+
+// 13-19 digits, optionally grouped with spaces or dashes
+const CARD_NUMBER_CANDIDATE = /\b(?:\d[ -]?){12,18}\d\b/g;
+
+/**
+ * Mask card numbers in free text, keeping the last four digits
+ *
+ * Only Luhn-valid 13-19 digit sequences are masked, so dates, phone numbers
+ * and IDs are left alone.
+ *
+ * @param text - Text that may contain a card number
+ * @returns Text with card numbers replaced by ****1234
+ */
+export function redactCardNumbers(text: string): string {
+  return text.replace(CARD_NUMBER_CANDIDATE, candidate =>
+    isValidCreditCard(candidate) ? `****${candidate.replace(/[\s-]/g, '').slice(-4)}` : candidate
+  );
+}
+
+/**
+ * Mask card numbers in every string of a JSON-like value (objects and arrays)
+ *
+ * @param value - Value to redact
+ * @returns Copy of the value with card numbers masked
+ */
+export function redactCardNumbersDeep<T>(value: T): T {
+  if (typeof value === 'string') {
+    return redactCardNumbers(value) as T;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => redactCardNumbersDeep(item)) as T;
+  }
+
+  if (value && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, redactCardNumbersDeep(item)])
+    ) as T;
+  }
+
+  return value;
+}
+
 /**
  * Validate amount is positive
  *
@@ -19,6 +19,7 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { INestApplication, ValidationPipe } from '@nestjs/common';
 import request from 'supertest';
 import { AppModule } from '../../../src/app.module';
+import { MockPaymentGateway } from '../../../src/services/payment-gateway/mock-payment-gateway';
 
 describe('Policies API Integration Tests (T163)', () => {
   let app: INestApplication;
@@ -89,6 +90,28 @@ describe('Policies API Integration Tests (T163)', () => {
     return quoteNumber;
   }
 
+  /**
+   * Helper function to tokenize a test card with the gateway, as the browser does
+   */
+  async function tokenizeCard(cardNumber: string) {
+    const result = await new MockPaymentGateway().tokenize({
+      paymentMethod: 'credit_card', cardNumber, cardExpiry: '12/28', cardCvv: '123',
+    });
+
+    return result.token;
+  }
+
+  /**
+   * Helper function to tokenize a test bank account
+   */
+  async function tokenizeBankAccount(accountNumber: string) {
+    const result = await new MockPaymentGateway().tokenize({
+      paymentMethod: 'ach', routingNumber: '110000000', accountNumber,
+    });
+
+    return result.token;
+  }
+
   describe('POST /api/v1/policies/bind - Bind Quote with Payment', () => {
     it('should bind quote with valid credit card payment (Luhn check passes)', async () => {
       const quoteNumber = await createQuotedQuote();
@@ -98,9 +121,7 @@ describe('Policies API Integration Tests (T163)', () => {
         .send({
           quoteNumber,
           paymentMethod: 'credit_card',
-          cardNumber: '4242424242424242', // Valid test card (passes Luhn)
-          cardExpiry: '12/28',
-          cardCvv: '123',
+          paymentToken: await tokenizeCard('4242424242424242'), // Valid test card (passes Luhn)
         })
         .expect(200);
 
@@ -136,9 +157,7 @@ describe('Policies API Integration Tests (T163)', () => {
         .send({
           quoteNumber,
           paymentMethod: 'credit_card',
-          cardNumber: '4000000000000002', // Invalid card (fails Luhn)
-          cardExpiry: '12/28',
-          cardCvv: '123',
+          paymentToken: await tokenizeCard('4000000000000002'), // Invalid card (fails Luhn)
         })
         .expect(500); // Payment should fail
 
@@ -161,8 +180,7 @@ describe('Policies API Integration Tests (T163)', () => {
         .send({
           quoteNumber,
           paymentMethod: 'ach',
-          routingNumber: '110000000', // Valid test routing number
-          accountNumber: '000123456789',
+          paymentToken: await tokenizeBankAccount('000123456789'),
           accountType: 'checking',
         })
         .expect(200);
@@ -170,7 +188,7 @@ describe('Policies API Integration Tests (T163)', () => {
       expect(response.body).toHaveProperty('success', true);
       expect(response.body.data).toHaveProperty('status', 'BOUND');
       expect(response.body.data.payment).toHaveProperty('payment_method_type', 'ach');
-      expect(response.body.data.payment).toHaveProperty('status_code', 'COMPLETED');
+      expect(response.body.data.payment).toHaveProperty('status_code', 'PROCESSING'); // Settles later (settle-ach-payments job)
 
       // Validate account tokenization (last 4 digits visible)
       expect(response.body.data.payment.payment_details).toContain('****6789');
@@ -240,9 +258,7 @@ describe('Policies API Integration Tests (T163)', () => {
         .send({
           quoteNumber,
           paymentMethod: 'credit_card',
-          cardNumber: '4242424242424242',
-          cardExpiry: '06/29',
-          cardCvv: '456',
+          paymentToken: await tokenizeCard('4242424242424242'),
         })
         .expect(200);
 
@@ -264,9 +280,7 @@ describe('Policies API Integration Tests (T163)', () => {
         .send({
           quoteNumber: 'DZNOTEXIST',
           paymentMethod: 'credit_card',
-          cardNumber: '4242424242424242',
-          cardExpiry: '12/28',
-          cardCvv: '123',
+          paymentToken: await tokenizeCard('4242424242424242'),
         })
         .expect(500);
 
@@ -284,9 +298,7 @@ describe('Policies API Integration Tests (T163)', () => {
         .send({
           quoteNumber,
           paymentMethod: 'credit_card',
-          cardNumber: '4242424242424242',
-          cardExpiry: '12/28',
-          cardCvv: '123',
+          paymentToken: await tokenizeCard('4242424242424242'),
         })
         .expect(200);
 
@@ -296,64 +308,52 @@ describe('Policies API Integration Tests (T163)', () => {
         .send({
           quoteNumber,
           paymentMethod: 'credit_card',
-          cardNumber: '4242424242424242',
-          cardExpiry: '12/28',
-          cardCvv: '123',
+          paymentToken: await tokenizeCard('4242424242424242'),
         })
         .expect(500);
 
       expect(response.body).toHaveProperty('message');
     });
 
-    it('should validate required payment fields for credit card', async () => {
+    it('should require a payment token', async () => {
       const quoteNumber = await createQuotedQuote({
         driver_email: 'missing-fields@test.com',
       });
 
-      // Missing cardNumber
-      const response1 = await request(app.getHttpServer())
-        .post('/api/v1/policies/bind')
-        .send({
-          quoteNumber,
-          paymentMethod: 'credit_card',
-          cardExpiry: '12/28',
-          cardCvv: '123',
-        })
-        .expect(500);
-
-      expect(response1.body).toHaveProperty('message');
-
-      // Missing cardExpiry
-      const response2 = await request(app.getHttpServer())
+      const response = await request(app.getHttpServer())
         .post('/api/v1/policies/bind')
         .send({
           quoteNumber,
           paymentMethod: 'credit_card',
-          cardNumber: '4242424242424242',
-          cardCvv: '123',
         })
-        .expect(500);
+        .expect(400);
 
-      expect(response2.body).toHaveProperty('message');
+      expect(response.body).toHaveProperty('message');
     });
 
-    it('should validate required payment fields for ACH', async () => {
+    it('should reject raw card details on bind', async () => {
       const quoteNumber = await createQuotedQuote({
-        driver_email: 'ach-missing@test.com',
+        driver_email: 'raw-card@test.com',
       });
 
-      // Missing accountNumber
       const response = await request(app.getHttpServer())
         .post('/api/v1/policies/bind')
         .send({
           quoteNumber,
-          paymentMethod: 'ach',
-          routingNumber: '110000000',
-          accountType: 'checking',
+          paymentMethod: 'credit_card',
+          paymentToken: await tokenizeCard('4242424242424242'),
+          cardNumber: '4242424242424242',
         })
-        .expect(500);
+        .expect(400);
 
-      expect(response.body).toHaveProperty('message');
+      expect(JSON.stringify(response.body)).not.toContain('4242424242424242');
+    });
+
+    it('should not accept payment details for tokenization', async () => {
+      await request(app.getHttpServer())
+        .post('/api/v1/payments/tokenize')
+        .send({ paymentMethod: 'credit_card', cardNumber: '4242424242424242', cardExpiry: '12/28', cardCvv: '123' })
+        .expect(404);
     });
 
     it('should generate policy documents on binding', async () => {
@@ -366,9 +366,7 @@ describe('Policies API Integration Tests (T163)', () => {
         .send({
           quoteNumber,
           paymentMethod: 'credit_card',
-          cardNumber: '4242424242424242',
-          cardExpiry: '03/30',
-          cardCvv: '789',
+          paymentToken: await tokenizeCard('4242424242424242'),
         })
         .expect(200);
 
@@ -394,9 +392,7 @@ describe('Policies API Integration Tests (T163)', () => {
         .send({
           quoteNumber,
           paymentMethod: 'credit_card',
-          cardNumber: '4242424242424242',
-          cardExpiry: '09/27',
-          cardCvv: '321',
+          paymentToken: await tokenizeCard('4242424242424242'),
         })
         .expect(200);
 
@@ -417,9 +413,7 @@ describe('Policies API Integration Tests (T163)', () => {
         .send({
           quoteNumber,
           paymentMethod: 'credit_card',
-          cardNumber: '4242424242424242',
-          cardExpiry: '12/28',
-          cardCvv: '123',
+          paymentToken: await tokenizeCard('4242424242424242'),
         })
         .expect(200);
 
@@ -450,9 +444,7 @@ describe('Policies API Integration Tests (T163)', () => {
         .send({
           quoteNumber,
           paymentMethod: 'credit_card',
-          cardNumber: '4242424242424242',
-          cardExpiry: '12/28',
-          cardCvv: '123',
+          paymentToken: await tokenizeCard('4242424242424242'),
         })
         .expect(200);
 
@@ -515,9 +507,7 @@ describe('Policies API Integration Tests (T163)', () => {
         .send({
           quoteNumber,
           paymentMethod: 'credit_card',
-          cardNumber: '4242424242424242',
-          cardExpiry: '12/28',
-          cardCvv: '123',
+          paymentToken: await tokenizeCard('4242424242424242'),
         })
         .expect(200);
 
@@ -543,9 +533,7 @@ describe('Policies API Integration Tests (T163)', () => {
         .send({
           quoteNumber,
           paymentMethod: 'credit_card',
-          cardNumber: '4242424242424242',
-          cardExpiry: '12/28',
-          cardCvv: '123',
+          paymentToken: await tokenizeCard('4242424242424242'),
         })
         .expect(200);
 
@@ -617,9 +605,7 @@ describe('Policies API Integration Tests (T163)', () => {
         .send({
           quoteNumber,
           paymentMethod: 'credit_card',
-          cardNumber: '4242424242424242',
-          cardExpiry: '12/28',
-          cardCvv: '123',
+          paymentToken: await tokenizeCard('4242424242424242'),
         });
 
       // Retrieve and verify multi-driver/vehicle data
@@ -652,9 +638,7 @@ describe('Policies API Integration Tests (T163)', () => {
         .send({
           quoteNumber,
           paymentMethod: 'credit_card',
-          cardNumber: '5555555555554444', // Mastercard test card
-          cardExpiry: '12/28',
-          cardCvv: '123',
+          paymentToken: await tokenizeCard('5555555555554444'), // Mastercard test card
         })
         .expect(200);
 
@@ -675,8 +659,7 @@ describe('Policies API Integration Tests (T163)', () => {
         .send({
           quoteNumber,
           paymentMethod: 'ach',
-          routingNumber: '110000000',
-          accountNumber: '987654321012', // 12-digit account
+          paymentToken: await tokenizeBankAccount('987654321012'), // 12-digit account
           accountType: 'savings',
         })
         .expect(200);
@@ -698,9 +681,7 @@ describe('Policies API Integration Tests (T163)', () => {
         .send({
           quoteNumber,
           paymentMethod: 'credit_card',
-          cardNumber: '4242424242424242',
-          cardExpiry: '12/28',
-          cardCvv: '999', // CVV should never be stored
+          paymentToken: await tokenizeCard('4242424242424242'), // CVV should never be stored
         })
         .expect(200);
 
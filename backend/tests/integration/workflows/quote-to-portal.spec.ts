@@ -23,6 +23,8 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { INestApplication, ValidationPipe } from '@nestjs/common';
 import request from 'supertest';
 import { AppModule } from '../../../src/app.module';
+import { MockPaymentGateway } from '../../../src/services/payment-gateway/mock-payment-gateway';
+import type { PaymentMethodDetails } from '../../../src/services/payment-gateway/payment-gateway';
 
 describe('Quote-to-Portal End-to-End Workflow (T167)', () => {
   let app: INestApplication;
@@ -49,6 +51,19 @@ describe('Quote-to-Portal End-to-End Workflow (T167)', () => {
     await app.close();
   });
 
+  /**
+   * Exchange test payment details for a token with the gateway, as the browser does
+   */
+  async function tokenize(details: PaymentMethodDetails) {
+    const result = await new MockPaymentGateway().tokenize(details);
+    expect(result.success).toBe(true);
+
+    return result.token;
+  }
+
+  const tokenizeCard = (cardNumber: string) =>
+    tokenize({ paymentMethod: 'credit_card', cardNumber, cardExpiry: '12/28', cardCvv: '123' });
+
   it('should complete full quote-to-portal workflow successfully', async () => {
     // ========================================
     // STEP 1: Create Initial Quote (Single Driver, Single Vehicle)
@@ -236,9 +251,7 @@ describe('Quote-to-Portal End-to-End Workflow (T167)', () => {
       .send({
         quoteNumber,
         paymentMethod: 'credit_card',
-        cardNumber: '4242424242424242', // Valid test card
-        cardExpiry: '12/28',
-        cardCvv: '123',
+        paymentToken: await tokenizeCard('4242424242424242'), // Valid test card
       })
       .expect(200);
 
@@ -497,8 +510,11 @@ describe('Quote-to-Portal End-to-End Workflow (T167)', () => {
       .send({
         quoteNumber,
         paymentMethod: 'ach',
-        routingNumber: '110000000',
-        accountNumber: '000123456789',
+        paymentToken: await tokenize({
+          paymentMethod: 'ach',
+          routingNumber: '110000000',
+          accountNumber: '000123456789',
+        }),
         accountType: 'checking',
       })
       .expect(200);
@@ -603,9 +619,7 @@ describe('Quote-to-Portal End-to-End Workflow (T167)', () => {
       .send({
         quoteNumber,
         paymentMethod: 'credit_card',
-        cardNumber: '4242424242424242',
-        cardExpiry: '12/28',
-        cardCvv: '123',
+        paymentToken: await tokenizeCard('4242424242424242'),
       })
       .expect(200);
 
@@ -0,0 +1,284 @@
+/**
+ * Unit Tests for account policy links
+ *
+ * Tests linking accounts to the policies insured under their email, adding
+ * saved quotes with their claim token, sharing policies with household members, and the
+ * household dashboard telling policies, saved quotes and claims apart.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ForbiddenException, NotFoundException } from '@nestjs/common';
+import { DATABASE_CONNECTION } from '../../../src/database/database.module';
+import { UserAccountService } from '../../../src/services/user-account-service/user-account.service';
+import { AccountPolicyService } from '../../../src/services/user-account-service/account-policy.service';
+import { signQuoteClaimToken } from '../../../src/services/user-account-service/quote-claim-token';
+import { userAccountPolicy } from '../../../../database/schema/user-account-policy.schema';
+
+describe('AccountPolicyService', () => {
+  let service: AccountPolicyService;
+  let mockDb: any;
+  let selectResults: any[][];
+  let inserts: Array<{ table: unknown; values: any }>;
+  let linkedIds: string[] | undefined; // policy_ids the next onConflictDoNothing().returning() reports inserted
+
+  const account = {
+    account_id: 'account-jane',
+    email: 'jane@example.com',
+    first_name: 'Jane',
+    last_name: 'Doe',
+    email_verified_at: new Date('2026-10-01T09:00:00Z'),
+  } as any;
+
+  const policyRecord = (overrides: any = {}) => ({
+    policy_identifier: 'policy-1',
+    policy_number: 'DZJANEAUTO',
+    status_code: 'IN_FORCE',
+    effective_date: '2026-04-01',
+    expiration_date: '2026-10-01',
+    quote_snapshot: {
+      driver: { firstName: 'Jane', lastName: 'Doe', email: 'Jane@Example.com' },
+      vehicles: [{ year: 2020, make: 'Honda', model: 'Civic' }],
+      premium: { total: 1200 },
+    },
+    ...overrides,
+  });
+
+  const linkRow = (policyOverrides: any = {}, linkedVia = 'INSURED_EMAIL') => {
+    const linked = policyRecord(policyOverrides);
+    return {
+      user_account_policy: { account_id: 'account-jane', policy_id: linked.policy_identifier, linked_via: linkedVia },
+      policy: linked,
+    };
+  };
+
+  const insertsTo = (table: unknown) => inserts.filter(insert => insert.table === table).map(insert => insert.values);
+
+  beforeEach(async () => {
+    selectResults = [];
+    inserts = [];
+    linkedIds = undefined;
+
+    // Each select() returns the next queued result, however the query ends
+    const rowsQuery = (rows: any[]): any => Object.assign(Promise.resolve(rows), {
+      limit: vi.fn().mockResolvedValue(rows),
+      orderBy: vi.fn().mockResolvedValue(rows),
+    });
+
+    mockDb = {
+      select: vi.fn(() => {
+        const rows = selectResults.shift() || [];
+        const query = { where: () => rowsQuery(rows), innerJoin: () => query };
+        return { from: () => query };
+      }),
+      insert: vi.fn((table: unknown) => ({
+        values: (values: any) => {
+          inserts.push({ table, values });
+          const rows = [values].flat();
+          return {
+            onConflictDoNothing: () => Object.assign(Promise.resolve(undefined), {
+              returning: vi.fn(async () => rows.filter(row => !linkedIds || linkedIds.includes(row.policy_id))),
+            }),
+          };
+        },
+      })),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AccountPolicyService,
+        UserAccountService,
+        { provide: DATABASE_CONNECTION, useValue: mockDb },
+      ],
+    }).compile();
+
+    service = module.get<AccountPolicyService>(AccountPolicyService);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('linkPoliciesByEmail', () => {
+    it('should link the policies and quotes insured under the account email', async () => {
+      selectResults.push([
+        policyRecord(),
+        policyRecord({ policy_identifier: 'quote-1', policy_number: 'DZJANEQUOT', status_code: 'QUOTED' }),
+      ]);
+      linkedIds = ['quote-1']; // The policy was already linked
+
+      const linked = await service.linkPoliciesByEmail(account);
+
+      expect(linked).toEqual(['DZJANEQUOT']);
+      expect(insertsTo(userAccountPolicy)).toEqual([[
+        { account_id: 'account-jane', policy_id: 'policy-1', linked_via: 'INSURED_EMAIL' },
+        { account_id: 'account-jane', policy_id: 'quote-1', linked_via: 'INSURED_EMAIL' },
+      ]]);
+    });
+
+    it('should not link anything until the account has verified its email', async () => {
+      selectResults.push([policyRecord()]);
+
+      expect(await service.linkPoliciesByEmail({ ...account, email_verified_at: null })).toEqual([]);
+      expect(mockDb.select).not.toHaveBeenCalled();
+      expect(inserts).toEqual([]);
+    });
+
+    it('should not insert anything when no policy is insured under the email', async () => {
+      selectResults.push([]);
+
+      expect(await service.linkPoliciesByEmail(account)).toEqual([]);
+      expect(inserts).toEqual([]);
+    });
+  });
+
+  describe('linkPolicy', () => {
+    it('should link a policy insured under the account email', async () => {
+      selectResults.push([policyRecord()], [{ account_id: 'account-partner', policy_id: 'policy-1' }]);
+
+      const summary = await service.linkPolicy(account, 'DZJANEAUTO');
+
+      expect(summary).toMatchObject({ policy_number: 'DZJANEAUTO', kind: 'POLICY', linked_via: 'INSURED_EMAIL' });
+      expect(insertsTo(userAccountPolicy)).toEqual([
+        { account_id: 'account-jane', policy_id: 'policy-1', linked_via: 'INSURED_EMAIL' },
+      ]);
+    });
+
+    it('should link a saved quote for someone else in the household with its claim token', async () => {
+      const partnerQuote = policyRecord({
+        policy_identifier: 'quote-2',
+        policy_number: 'DZPARTNERQ',
+        status_code: 'QUOTED',
+        quote_snapshot: { driver: { firstName: 'Sam', email: 'sam@example.com' } },
+      });
+      selectResults.push([partnerQuote], []);
+
+      const summary = await service.linkPolicy(account, 'DZPARTNERQ', signQuoteClaimToken('DZPARTNERQ'));
+
+      expect(summary).toMatchObject({ kind: 'QUOTE', insured_name: 'Sam', linked_via: 'SAVED_QUOTE' });
+      expect(insertsTo(userAccountPolicy)).toEqual([
+        { account_id: 'account-jane', policy_id: 'quote-2', linked_via: 'SAVED_QUOTE' },
+      ]);
+    });
+
+    it('should refuse a quote without its claim token and a bound policy insured under another email', async () => {
+      const otherSnapshot = { driver: { email: 'sam@example.com' } };
+      selectResults.push(
+        [policyRecord({ policy_number: 'DZPARTNERQ', status_code: 'QUOTED', quote_snapshot: otherSnapshot })],
+        [],
+        [policyRecord({ policy_number: 'DZPARTNERQ', status_code: 'QUOTED', quote_snapshot: otherSnapshot })],
+        [],
+        [policyRecord({ policy_number: 'DZPARTNERP', quote_snapshot: otherSnapshot })],
+        [],
+      );
+
+      await expect(service.linkPolicy(account, 'DZPARTNERQ')).rejects.toThrow(ForbiddenException);
+      await expect(service.linkPolicy(account, 'DZPARTNERQ', signQuoteClaimToken('DZOTHERQTE'))).rejects.toThrow(ForbiddenException);
+      await expect(service.linkPolicy(account, 'DZPARTNERP', signQuoteClaimToken('DZPARTNERP'))).rejects.toThrow(ForbiddenException);
+      expect(inserts).toEqual([]);
+    });
+
+    it('should let the quote\'s creator save it even after someone else linked it', async () => {
+      const quote = policyRecord({ policy_number: 'DZPARTNERQ', status_code: 'BINDING', quote_snapshot: { driver: { email: 'sam@example.com' } } });
+      selectResults.push([quote], [{ account_id: 'account-sam', policy_id: 'policy-1', linked_via: 'SAVED_QUOTE' }]);
+
+      const summary = await service.linkPolicy(account, 'DZPARTNERQ', signQuoteClaimToken('DZPARTNERQ'));
+
+      expect(summary.linked_via).toBe('SAVED_QUOTE');
+      expect(insertsTo(userAccountPolicy)).toHaveLength(1);
+    });
+
+    it('should ask an unverified account to verify before adding a policy insured under its email', async () => {
+      selectResults.push([policyRecord()], []);
+
+      await expect(service.linkPolicy({ ...account, email_verified_at: null }, 'DZJANEAUTO'))
+        .rejects.toThrow('Verify your email address to add DZJANEAUTO');
+      expect(inserts).toEqual([]);
+    });
+
+    it('should return an existing link without inserting another', async () => {
+      selectResults.push([policyRecord()], [{ account_id: 'account-jane', policy_id: 'policy-1', linked_via: 'SHARED' }]);
+
+      const summary = await service.linkPolicy(account, 'DZJANEAUTO');
+
+      expect(summary.linked_via).toBe('SHARED');
+      expect(inserts).toEqual([]);
+    });
+
+    it('should reject an unknown policy number', async () => {
+      await expect(service.linkPolicy(account, 'DZNOTREAL1')).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('sharePolicy', () => {
+    it('should link the policy to the household member\'s account', async () => {
+      selectResults.push([{ account_id: 'account-sam', email: 'sam@example.com' }], [policyRecord()]);
+
+      const shared = await service.sharePolicy(account, 'DZJANEAUTO', 'Sam@Example.com');
+
+      expect(shared).toEqual({ policy_number: 'DZJANEAUTO', email: 'sam@example.com' });
+      expect(insertsTo(userAccountPolicy)).toEqual([{
+        account_id: 'account-sam',
+        policy_id: 'policy-1',
+        linked_via: 'SHARED',
+        shared_by_account_id: 'account-jane',
+      }]);
+    });
+
+    it('should ask the household member to create an account first', async () => {
+      selectResults.push([]);
+
+      await expect(service.sharePolicy(account, 'DZJANEAUTO', 'sam@example.com'))
+        .rejects.toThrow('No account found for sam@example.com; they need to create one first');
+      expect(inserts).toEqual([]);
+    });
+  });
+
+  describe('getDashboard', () => {
+    it('should split linked policies from saved quotes and list claims across the policies', async () => {
+      selectResults.push(
+        [
+          linkRow(),
+          linkRow({ policy_identifier: 'policy-2', policy_number: 'DZSAMAUTO1', status_code: 'EXPIRED' }, 'SHARED'),
+          linkRow({ policy_identifier: 'quote-1', policy_number: 'DZJANEQUOT', status_code: 'QUOTED' }),
+          linkRow({ policy_identifier: 'quote-2', policy_number: 'DZOLDQUOTE', status_code: 'EXPIRED' }),
+        ],
+        [{ policy_id: 'policy-2', version_number: 1 }], // Only the bought one has versions
+        [{
+          claim: { claim_number: 'DZCLAIM001', incident_date: '2026-06-01', loss_type: 'COLLISION', status: 'SUBMITTED' },
+          policy: { policy_number: 'DZJANEAUTO' },
+        }],
+      );
+
+      const dashboard = await service.getDashboard(account);
+
+      expect(dashboard.account).toEqual({
+        user_account_id: 'account-jane',
+        email: 'jane@example.com',
+        first_name: 'Jane',
+        last_name: 'Doe',
+        email_verified: true,
+      });
+      expect(dashboard.policies.map(summary => summary.policy_number)).toEqual(['DZJANEAUTO', 'DZSAMAUTO1']);
+      expect(dashboard.quotes.map(summary => summary.policy_number)).toEqual(['DZJANEQUOT', 'DZOLDQUOTE']);
+      expect(dashboard.policies[0]).toEqual({
+        policy_number: 'DZJANEAUTO',
+        kind: 'POLICY',
+        status: 'IN_FORCE',
+        insured_name: 'Jane Doe',
+        vehicles: ['2020 Honda Civic'],
+        effective_date: '2026-04-01',
+        expiration_date: '2026-10-01',
+        premium_total: 1200,
+        linked_via: 'INSURED_EMAIL',
+      });
+      expect(dashboard.claims).toEqual([{
+        claim_number: 'DZCLAIM001',
+        policy_number: 'DZJANEAUTO',
+        incident_date: '2026-06-01',
+        loss_type: 'COLLISION',
+        status: 'SUBMITTED',
+      }]);
+    });
+  });
+});
@@ -0,0 +1,290 @@
+/**
+ * Unit Tests for emailed account links
+ *
+ * Tests signed, single-use tokens for verify-email, password reset and
+ * magic-link sign-in: only hashes are stored, forged, expired and reused
+ * tokens are refused, and each account can only be sent a few links an hour.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Test, TestingModule } from '@nestjs/testing';
+import { HttpException } from '@nestjs/common';
+import { DATABASE_CONNECTION } from '../../../src/database/database.module';
+import { UserAccountService } from '../../../src/services/user-account-service/user-account.service';
+import { AuthService, hashSessionToken } from '../../../src/services/user-account-service/auth.service';
+import { AccountEmailService } from '../../../src/services/user-account-service/account-email.service';
+import { AccountPolicyService } from '../../../src/services/user-account-service/account-policy.service';
+import {
+  AccountTokenService,
+  ACCOUNT_TOKEN_RATE_LIMIT,
+  getAccountTokenSecret,
+  hashAccountToken,
+  readAccountToken,
+  signAccountToken,
+} from '../../../src/services/user-account-service/account-token.service';
+import { BusinessRuleError } from '../../../src/api/middleware/error-handler';
+import { userAccount } from '../../../../database/schema/user-account.schema';
+import { userSession } from '../../../../database/schema/user-session.schema';
+import { accountToken } from '../../../../database/schema/account-token.schema';
+
+describe('AccountTokenService', () => {
+  let service: AccountTokenService;
+  let accounts: UserAccountService;
+  let emails: AccountEmailService;
+  let policies: AccountPolicyService;
+  let mockDb: any;
+  let selectResults: any[][];
+  let spentResults: any[][]; // What the next conditional used_at update reports updated
+  let updates: Array<{ table: unknown; values: any }>;
+  let inserts: Array<{ table: unknown; values: any }>;
+
+  const now = new Date('2026-10-18T14:00:00Z');
+  const minutesFromNow = (minutes: number) => new Date(now.getTime() + minutes * 60 * 1000);
+
+  const accountRecord = (overrides: any = {}) => ({
+    account_id: 'account-1',
+    email: 'jane@example.com',
+    first_name: 'Jane',
+    last_name: 'Doe',
+    password_hash: 'old-hash',
+    email_verified_at: null,
+    last_login_at: null,
+    ...overrides,
+  });
+
+  const tokenRecord = (token: string, overrides: any = {}) => ({
+    token_id: 'token-1',
+    account_id: 'account-1',
+    purpose: readAccountToken(token)!.purpose,
+    token_hash: hashAccountToken(token),
+    expires_at: readAccountToken(token)!.expiresAt,
+    used_at: null,
+    ...overrides,
+  });
+
+  const errorOf = (promise: Promise<unknown>) => promise.then(() => undefined, err => err);
+
+  const updatesTo = (table: unknown) => updates.filter(update => update.table === table).map(update => update.values);
+  const insertsTo = (table: unknown) => inserts.filter(insert => insert.table === table).map(insert => insert.values);
+
+  beforeEach(async () => {
+    selectResults = [];
+    spentResults = [];
+    updates = [];
+    inserts = [];
+    delete process.env.ACCOUNT_TOKEN_SECRET;
+
+    // Each select() returns the next queued result, however the query ends
+    const rowsQuery = (rows: any[]): any => Object.assign(Promise.resolve(rows), {
+      limit: vi.fn().mockResolvedValue(rows),
+    });
+
+    mockDb = {
+      select: vi.fn(() => {
+        const rows = selectResults.shift() || [];
+        return { from: () => ({ where: () => rowsQuery(rows) }) };
+      }),
+      insert: vi.fn((table: unknown) => ({
+        values: (values: any) => {
+          inserts.push({ table, values });
+          return Promise.resolve(undefined);
+        },
+      })),
+      update: vi.fn((table: unknown) => ({
+        set: (values: any) => {
+          updates.push({ table, values });
+          return {
+            where: () => Object.assign(Promise.resolve(undefined), {
+              returning: vi.fn(async () => spentResults.shift() || [{ token_id: 'token-1', ...values }]),
+            }),
+          };
+        },
+      })),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AccountTokenService,
+        UserAccountService,
+        AuthService,
+        AccountEmailService,
+        AccountPolicyService,
+        { provide: DATABASE_CONNECTION, useValue: mockDb },
+      ],
+    }).compile();
+
+    service = module.get<AccountTokenService>(AccountTokenService);
+    accounts = module.get<UserAccountService>(UserAccountService);
+    emails = module.get<AccountEmailService>(AccountEmailService);
+    policies = module.get<AccountPolicyService>(AccountPolicyService);
+
+    vi.spyOn(emails, 'sendVerificationEmail').mockResolvedValue(undefined);
+    vi.spyOn(emails, 'sendPasswordResetEmail').mockResolvedValue(undefined);
+    vi.spyOn(emails, 'sendMagicLinkEmail').mockResolvedValue(undefined);
+    vi.spyOn(policies, 'linkPoliciesByEmail').mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    delete process.env.ACCOUNT_TOKEN_SECRET;
+    vi.restoreAllMocks();
+  });
+
+  describe('issuing links', () => {
+    it('should email a signed verification token and store only its hash', async () => {
+      selectResults.push([]); // None sent recently
+
+      const issued = await service.requestEmailVerification(accountRecord() as any, now);
+
+      expect(readAccountToken(issued.token)).toEqual({ purpose: 'VERIFY_EMAIL', expiresAt: minutesFromNow(24 * 60) });
+      expect(insertsTo(accountToken)).toEqual([{
+        account_id: 'account-1',
+        purpose: 'VERIFY_EMAIL',
+        token_hash: hashAccountToken(issued.token),
+        expires_at: issued.expiresAt,
+        created_at: now,
+      }]);
+      expect(emails.sendVerificationEmail).toHaveBeenCalledWith(
+        expect.objectContaining({ email: 'jane@example.com' }),
+        issued.token,
+        issued.expiresAt,
+      );
+    });
+
+    it('should not resend verification to a verified email', async () => {
+      const error = await errorOf(service.requestEmailVerification(accountRecord({ email_verified_at: now }) as any, now));
+
+      expect(error).toBeInstanceOf(BusinessRuleError);
+      expect(error.ruleCode).toBe('EMAIL_ALREADY_VERIFIED');
+      expect(inserts).toEqual([]);
+    });
+
+    it('should refuse another link once the hourly limit is reached', async () => {
+      const sentAt = [50, 30, 10].map(minutes => ({ created_at: new Date(now.getTime() - minutes * 60 * 1000) }));
+      selectResults.push(sentAt.slice(0, ACCOUNT_TOKEN_RATE_LIMIT));
+
+      const error = await errorOf(service.issue(accountRecord() as any, 'VERIFY_EMAIL', now));
+
+      expect(error).toBeInstanceOf(HttpException);
+      expect(error.getStatus()).toBe(429);
+      expect(error.getResponse()).toMatchObject({ retryAfter: 10 * 60 }); // The oldest leaves the window in 10 minutes
+      expect(inserts).toEqual([]);
+    });
+
+    it('should email a reset link only when the email has an account', async () => {
+      selectResults.push([accountRecord()], [], []);
+
+      await service.requestPasswordReset('Jane@Example.com', now);
+      await service.requestPasswordReset('nobody@example.com', now);
+
+      expect(emails.sendPasswordResetEmail).toHaveBeenCalledTimes(1);
+      const [[, token, expiresAt]] = vi.mocked(emails.sendPasswordResetEmail).mock.calls;
+      expect(readAccountToken(token)).toEqual({ purpose: 'PASSWORD_RESET', expiresAt: minutesFromNow(60) });
+      expect(expiresAt).toEqual(minutesFromNow(60));
+    });
+
+    it('should answer a rate-limited magic-link request without sending anything', async () => {
+      const sentAt = Array.from({ length: ACCOUNT_TOKEN_RATE_LIMIT }, () => ({ created_at: minutesFromNow(-5) }));
+      selectResults.push([accountRecord()], sentAt);
+
+      await expect(service.requestMagicLink('jane@example.com', now)).resolves.toBeUndefined();
+      expect(emails.sendMagicLinkEmail).not.toHaveBeenCalled();
+      expect(inserts).toEqual([]);
+    });
+  });
+
+  describe('following links', () => {
+    it('should verify the email, spend the token and link the policies insured under it', async () => {
+      const token = signAccountToken('VERIFY_EMAIL', minutesFromNow(60));
+      selectResults.push([tokenRecord(token)], [accountRecord()]);
+
+      const account = await service.verifyEmail(token, now);
+
+      expect(account.email_verified_at).toEqual(now);
+      expect(updatesTo(accountToken)).toEqual([{ used_at: now }]);
+      expect(updatesTo(userAccount)).toEqual([{ email_verified_at: now }]);
+      expect(policies.linkPoliciesByEmail).toHaveBeenCalledWith(expect.objectContaining({ email_verified_at: now }));
+    });
+
+    it('should refuse a token that was already used', async () => {
+      const token = signAccountToken('VERIFY_EMAIL', minutesFromNow(60));
+      selectResults.push([tokenRecord(token, { used_at: minutesFromNow(-1) })], [tokenRecord(token)]);
+      spentResults.push([]); // A concurrent request spent it first
+
+      const reused = await errorOf(service.verifyEmail(token, now));
+      const raced = await errorOf(service.verifyEmail(token, now));
+
+      expect(reused.ruleCode).toBe('ACCOUNT_LINK_USED');
+      expect(raced.ruleCode).toBe('ACCOUNT_LINK_USED');
+      expect(updatesTo(userAccount)).toEqual([]);
+      expect(policies.linkPoliciesByEmail).not.toHaveBeenCalled();
+    });
+
+    it('should refuse an expired token', async () => {
+      const expired = signAccountToken('MAGIC_LINK', minutesFromNow(-1));
+      const token = signAccountToken('MAGIC_LINK', minutesFromNow(10));
+      selectResults.push([tokenRecord(token, { expires_at: minutesFromNow(-1) })]); // Stored expiry wins
+
+      const signedExpired = await errorOf(service.loginWithMagicLink(expired, now));
+      const storedExpired = await errorOf(service.loginWithMagicLink(token, now));
+
+      expect(signedExpired.ruleCode).toBe('ACCOUNT_LINK_EXPIRED');
+      expect(storedExpired.ruleCode).toBe('ACCOUNT_LINK_EXPIRED');
+      expect(mockDb.select).toHaveBeenCalledTimes(1); // The signed expiry is checked before any lookup
+      expect(inserts).toEqual([]);
+    });
+
+    it('should refuse forged tokens, tokens for another purpose and unknown tokens', async () => {
+      const token = signAccountToken('VERIFY_EMAIL', minutesFromNow(60));
+      const [purpose, , nonce, signature] = token.split('.');
+      const extended = [purpose, minutesFromNow(24 * 60 * 30).getTime(), nonce, signature].join('.');
+      const magicLink = signAccountToken('MAGIC_LINK', minutesFromNow(10));
+      process.env.ACCOUNT_TOKEN_SECRET = 'x'.repeat(32);
+      const otherKey = signAccountToken('VERIFY_EMAIL', minutesFromNow(60));
+      delete process.env.ACCOUNT_TOKEN_SECRET;
+      selectResults.push([]); // Validly signed but never issued
+
+      for (const forged of [extended, magicLink, otherKey, 'not-a-token', token]) {
+        const error = await errorOf(service.verifyEmail(forged, now));
+        expect(error.ruleCode).toBe('ACCOUNT_LINK_INVALID');
+      }
+      expect(mockDb.select).toHaveBeenCalledTimes(1);
+      expect(updates).toEqual([]);
+    });
+
+    it('should set the new password, spend other reset links and sign out every session', async () => {
+      const token = signAccountToken('PASSWORD_RESET', minutesFromNow(30));
+      selectResults.push([tokenRecord(token)], [accountRecord()]);
+      vi.spyOn(accounts, 'hashPassword').mockResolvedValue('new-hash');
+
+      await service.resetPassword(token, 'NewSecurePass123', now);
+
+      expect(accounts.hashPassword).toHaveBeenCalledWith('NewSecurePass123');
+      expect(updatesTo(userAccount)).toEqual([{ password_hash: 'new-hash', email_verified_at: now }]);
+      expect(updatesTo(accountToken)).toEqual([{ used_at: now }, { used_at: now }]);
+      expect(updatesTo(userSession)).toEqual([{ revoked_at: now }]);
+    });
+
+    it('should start a session from a magic link', async () => {
+      const token = signAccountToken('MAGIC_LINK', minutesFromNow(10));
+      selectResults.push([tokenRecord(token)], [accountRecord({ password_hash: null })]); // Works without a password
+
+      const session = await service.loginWithMagicLink(token, now);
+
+      expect(session.account).toMatchObject({ account_id: 'account-1', last_login_at: now, email_verified_at: now });
+      expect(updatesTo(userAccount)).toEqual([{ last_login_at: now, email_verified_at: now }]);
+      expect(policies.linkPoliciesByEmail).toHaveBeenCalledWith(session.account);
+      expect(insertsTo(userSession)).toEqual([expect.objectContaining({
+        account_id: 'account-1',
+        token_hash: hashSessionToken(session.token),
+      })]);
+    });
+  });
+
+  it('should read the signing key from ACCOUNT_TOKEN_SECRET', () => {
+    process.env.ACCOUNT_TOKEN_SECRET = 'k'.repeat(32);
+    expect(getAccountTokenSecret()).toBe('k'.repeat(32));
+
+    process.env.ACCOUNT_TOKEN_SECRET = 'short';
+    expect(() => getAccountTokenSecret()).toThrow('ACCOUNT_TOKEN_SECRET must be at least 32 characters');
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Unit Tests for AchSettlementService
+ *
+ * Tests settlement of processing ACH debits, returned debits putting the
+ * policy on payment hold, and debits the bank has not settled yet.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Logger } from '@nestjs/common';
+import { DATABASE_CONNECTION } from '../../../src/database/database.module';
+import { AchSettlementService } from '../../../src/services/billing/ach-settlement.service';
+import { PAYMENT_GATEWAY } from '../../../src/services/payment-gateway/payment-gateway';
+import { MockPaymentGateway } from '../../../src/services/payment-gateway/mock-payment-gateway';
+import { QuoteService } from '../../../src/services/quote/quote.service';
+import { PolicyAction, nextStatus } from '../../../src/services/policy/policy-status';
+import { InvalidStatusTransitionError } from '../../../src/api/middleware/error-handler';
+
+describe('AchSettlementService', () => {
+  let service: AchSettlementService;
+  let gateway: MockPaymentGateway;
+  let mockDb: any;
+  let quoteService: { transitionStatus: ReturnType<typeof vi.fn> };
+  let processingRows: any[];
+  let holdResults: boolean[]; // Whether each status-guarded transition found the policy unchanged
+  let updates: any[];
+
+  const debit = (overrides: any = {}) => ({
+    payment_id: 'pay-1',
+    payment_number: 'PAY-ACH00001',
+    policy_id: 'policy-1',
+    payment_method: 'ach',
+    payment_status: 'PROCESSING',
+    amount: '412.50',
+    last_four_digits: '6789',
+    transaction_id: 'ach_6789_a1',
+    gateway_response: 'ACH debit submitted',
+    ...overrides,
+  });
+
+  const policyRecord = (overrides: any = {}) => ({
+    policy_identifier: 'policy-1',
+    policy_number: 'DZACHSET01',
+    status_code: 'BOUND',
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    processingRows = [];
+    holdResults = [true];
+    updates = [];
+
+    mockDb = {
+      select: vi.fn(() => ({
+        from: () => ({ innerJoin: () => ({ where: vi.fn(async () => processingRows) }) }),
+      })),
+      update: vi.fn(() => ({
+        set: (values: any) => {
+          updates.push(values);
+          return {
+            where: () => Promise.resolve(undefined),
+          };
+        },
+      })),
+      transaction: vi.fn(async (work: (tx: any) => Promise<unknown>) => work(mockDb)),
+    };
+
+    quoteService = {
+      transitionStatus: vi.fn(async (record: any, action: PolicyAction) => {
+        const status = nextStatus(record.status_code, action);
+        if (!holdResults.shift()) {
+          throw new InvalidStatusTransitionError(record.status_code, status);
+        }
+        return status;
+      }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AchSettlementService,
+        { provide: PAYMENT_GATEWAY, useClass: MockPaymentGateway },
+        { provide: DATABASE_CONNECTION, useValue: mockDb },
+        { provide: QuoteService, useValue: quoteService },
+      ],
+    }).compile();
+
+    service = module.get<AchSettlementService>(AchSettlementService);
+    gateway = module.get<MockPaymentGateway>(PAYMENT_GATEWAY);
+  });
+
+  it('should complete a settled debit', async () => {
+    processingRows = [{ payment: debit(), policy: policyRecord() }];
+
+    const result = await service.run(new Date('2026-11-03T12:00:00'));
+
+    expect(updates).toEqual([expect.objectContaining({ payment_status: 'COMPLETED', processed_at: expect.any(Date) })]);
+    expect(quoteService.transitionStatus).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ asOf: '2026-11-03', checked: 1, settled: 1, returned: 0, pending: 0, paymentHold: [] });
+  });
+
+  it('should mark a returned debit and put the bound policy on payment hold', async () => {
+    processingRows = [{ payment: debit({ last_four_digits: '2227', transaction_id: 'ach_2227_a1' }), policy: policyRecord() }];
+
+    const result = await service.run();
+
+    expect(updates[0]).toMatchObject({
+      payment_status: 'RETURNED',
+      gateway_response: 'ACH debit returned: Insufficient funds (R01)',
+    });
+    expect(quoteService.transitionStatus).toHaveBeenCalledWith(
+      expect.objectContaining({ policy_identifier: 'policy-1', status_code: 'BOUND' }),
+      'HOLD_PAYMENT',
+      'ACH debit PAY-ACH00001 of $412.50 returned: Insufficient funds (R01)',
+      {},
+      mockDb
+    );
+    expect(result).toMatchObject({ returned: 1, paymentHold: ['DZACHSET01'] });
+  });
+
+  it('should hold a policy once when several of its debits are returned', async () => {
+    processingRows = [
+      { payment: debit({ transaction_id: 'ach_1113_a1' }), policy: policyRecord() },
+      { payment: debit({ payment_id: 'pay-2', transaction_id: 'ach_1113_a2' }), policy: policyRecord() },
+    ];
+    // The second hold finds the policy already on hold
+    holdResults = [true, false];
+
+    const result = await service.run();
+
+    expect(result).toMatchObject({ returned: 2, paymentHold: ['DZACHSET01'] });
+    expect(quoteService.transitionStatus).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not hold a policy that is already cancelled', async () => {
+    processingRows = [{
+      payment: debit({ transaction_id: 'ach_1116_a1' }),
+      policy: policyRecord({ status_code: 'CANCELLED' }),
+    }];
+
+    const result = await service.run();
+
+    expect(updates).toEqual([expect.objectContaining({ payment_status: 'RETURNED' })]);
+    expect(result).toMatchObject({ returned: 1, paymentHold: [] });
+  });
+
+  it('should leave debits the bank has not settled yet', async () => {
+    processingRows = [{ payment: debit(), policy: policyRecord() }];
+    vi.spyOn(gateway, 'getChargeStatus').mockResolvedValue({ success: true, status: 'pending', message: 'Payment pending' });
+
+    const result = await service.run();
+
+    expect(updates).toHaveLength(0);
+    expect(result).toMatchObject({ checked: 1, pending: 1 });
+  });
+
+  it('should retry on the next run when the gateway is unreachable', async () => {
+    processingRows = [{ payment: debit(), policy: policyRecord() }];
+    vi.spyOn(gateway, 'getChargeStatus').mockResolvedValue({ success: false, message: 'Payment gateway unavailable' });
+
+    const result = await service.run();
+
+    expect(updates).toHaveLength(0);
+    expect(result.pending).toBe(1);
+  });
+
+  it('should leave a debit that errors processing and carry on with the rest', async () => {
+    processingRows = [
+      { payment: debit({ transaction_id: 'ach_2227_a1' }), policy: policyRecord() },
+      { payment: debit({ payment_id: 'pay-2', payment_number: 'PAY-ACH00002' }), policy: policyRecord() },
+    ];
+    quoteService.transitionStatus.mockRejectedValueOnce(new Error('Connection reset'));
+    const logError = vi.spyOn(Logger.prototype, 'error').mockImplementation(() => undefined);
+
+    const result = await service.run();
+
+    expect(logError).toHaveBeenCalledWith('Failed to settle ACH debit PAY-ACH00001', expect.any(Error));
+    expect(result).toMatchObject({ checked: 2, settled: 1, returned: 0, pending: 1, paymentHold: [] });
+    logError.mockRestore();
+  });
+
+  it('should count a debit whose status lookup throws as pending', async () => {
+    processingRows = [{ payment: debit(), policy: policyRecord() }];
+    vi.spyOn(gateway, 'getChargeStatus').mockRejectedValue(new Error('socket hang up'));
+    const logError = vi.spyOn(Logger.prototype, 'error').mockImplementation(() => undefined);
+
+    const result = await service.run();
+
+    expect(updates).toHaveLength(0);
+    expect(result).toMatchObject({ checked: 1, pending: 1 });
+    logError.mockRestore();
+  });
+});
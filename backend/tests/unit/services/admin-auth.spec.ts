@@ -0,0 +1,48 @@
+/**
+ * Unit Tests for AdminAuthGuard
+ *
+ * Tests that staff and system operations (refunds, cancellations,
+ * reinstatements) require the admin secret, and are closed in production
+ * when no secret is configured.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ExecutionContext } from '@nestjs/common';
+import { AdminAuthGuard } from '../../../src/api/middleware/admin-auth.guard';
+import { UnauthorizedError } from '../../../src/api/middleware/error-handler';
+
+describe('AdminAuthGuard', () => {
+  const guard = new AdminAuthGuard();
+  const originalNodeEnv = process.env.NODE_ENV;
+
+  const httpContext = (authorization?: string): ExecutionContext => ({
+    switchToHttp: () => ({
+      getRequest: () => ({ method: 'POST', url: '/api/v1/policies/policy-1/refunds', headers: { authorization } }),
+    }),
+  }) as any;
+
+  beforeEach(() => {
+    delete process.env.ADMIN_API_SECRET;
+  });
+
+  afterEach(() => {
+    delete process.env.ADMIN_API_SECRET;
+    process.env.NODE_ENV = originalNodeEnv;
+  });
+
+  it('should only let requests with the admin secret through', () => {
+    process.env.ADMIN_API_SECRET = 'staff-secret';
+
+    expect(guard.canActivate(httpContext('Bearer staff-secret'))).toBe(true);
+    expect(() => guard.canActivate(httpContext('Bearer wrong-secret'))).toThrow(UnauthorizedError);
+    expect(() => guard.canActivate(httpContext())).toThrow(UnauthorizedError);
+  });
+
+  it('should refuse everything in production when no secret is set', () => {
+    process.env.NODE_ENV = 'production';
+    expect(() => guard.canActivate(httpContext('Bearer anything'))).toThrow('Invalid admin credentials');
+
+    process.env.NODE_ENV = 'development';
+    expect(guard.canActivate(httpContext())).toBe(true);
+  });
+});
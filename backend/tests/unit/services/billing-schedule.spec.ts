@@ -0,0 +1,90 @@
+/**
+ * Unit Tests for BillingScheduleService
+ *
+ * Tests that each payment plan splits the term total into installments
+ * that add up, with taxes and fees up front and evenly spaced due dates.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Test, TestingModule } from '@nestjs/testing';
+import { BillingScheduleService } from '../../../src/services/billing/billing-schedule.service';
+
+describe('BillingScheduleService', () => {
+  let service: BillingScheduleService;
+
+  const premium = {
+    subtotal: 1000.01,
+    taxes: [{ type: 'PREMIUM_TAX', name: 'CA Premium Tax (2.35%)', amount: 23.5 }],
+    fees: [
+      { type: 'POLICY_FEE', name: 'Policy Fee', amount: 15 },
+      { type: 'DMV_FEE', name: 'CA DMV Fee', amount: 25 },
+    ],
+    total: 1063.51,
+  };
+
+  const sum = (amounts: number[]) => Math.round(amounts.reduce((total, amount) => total + amount * 100, 0)) / 100;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [BillingScheduleService],
+    }).compile();
+
+    service = module.get<BillingScheduleService>(BillingScheduleService);
+  });
+
+  it('should bill pay-in-full as a single payment of the total', () => {
+    const schedule = service.buildSchedule('PAY_IN_FULL', premium, '2026-11-01', '2026-10-18');
+
+    expect(schedule).toEqual([
+      {
+        installmentNumber: 1,
+        dueDate: '2026-10-18',
+        amount: 1063.51,
+        premiumAmount: 1000.01,
+        taxAmount: 23.5,
+        feeAmount: 40,
+      },
+    ]);
+  });
+
+  it('should split monthly into six installments that add up to the total plus installment fees', () => {
+    const schedule = service.buildSchedule('MONTHLY', premium, '2026-11-01', '2026-10-18');
+
+    expect(schedule).toHaveLength(6);
+    expect(schedule[0]).toMatchObject({ premiumAmount: 166.71, taxAmount: 23.5, feeAmount: 40 });
+    expect(schedule[1]).toMatchObject({ premiumAmount: 166.66, taxAmount: 0, feeAmount: 5, amount: 171.66 });
+    expect(sum(schedule.map(i => i.premiumAmount))).toBe(1000.01);
+    expect(sum(schedule.map(i => i.amount))).toBe(1063.51 + 5 * 5);
+    expect(schedule.map(i => i.dueDate)).toEqual([
+      '2026-10-18', '2026-12-01', '2027-01-01', '2027-02-01', '2027-03-01', '2027-04-01',
+    ]);
+  });
+
+  it('should space 2-pay and quarterly installments by three months on a six-month term', () => {
+    expect(service.buildSchedule('TWO_PAY', premium, '2026-11-01', '2026-10-18').map(i => i.dueDate))
+      .toEqual(['2026-10-18', '2027-02-01']);
+    expect(service.buildSchedule('QUARTERLY', premium, '2026-11-01', '2026-10-18', 12).map(i => i.dueDate))
+      .toEqual(['2026-10-18', '2027-02-01', '2027-05-01', '2027-08-01']);
+  });
+
+  it('should clamp due dates to the end of shorter months', () => {
+    const schedule = service.buildSchedule('MONTHLY', premium, '2027-01-31', '2027-01-31');
+
+    expect(schedule[1].dueDate).toBe('2027-02-28');
+    expect(schedule[2].dueDate).toBe('2027-03-31');
+  });
+
+  it('should bill legacy premiums (total only) as premium', () => {
+    const [first] = service.buildSchedule('PAY_IN_FULL', { total: 1500 }, '2026-11-01', '2026-10-18');
+
+    expect(first).toMatchObject({ amount: 1500, premiumAmount: 1500, taxAmount: 0, feeAmount: 0 });
+  });
+
+  it('should summarize every plan for checkout', () => {
+    const options = service.getPlanOptions(premium);
+
+    expect(options.map(o => o.code)).toEqual(['PAY_IN_FULL', 'TWO_PAY', 'QUARTERLY', 'MONTHLY']);
+    expect(options[0]).toMatchObject({ installments: 1, dueToday: 1063.51, installmentAmount: null, total: 1063.51 });
+    expect(options[3]).toMatchObject({ installments: 6, installmentFee: 5, installmentAmount: 171.66, total: 1088.51 });
+  });
+});
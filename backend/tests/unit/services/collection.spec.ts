@@ -0,0 +1,222 @@
+/**
+ * Unit Tests for CollectionService
+ *
+ * Tests collection of due installments, retries of declined installments
+ * and pending cancellation after the grace period.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Logger } from '@nestjs/common';
+import { DATABASE_CONNECTION } from '../../../src/database/database.module';
+import { CollectionService } from '../../../src/services/billing/collection.service';
+import { PAYMENT_GATEWAY } from '../../../src/services/payment-gateway/payment-gateway';
+import { MockPaymentGateway } from '../../../src/services/payment-gateway/mock-payment-gateway';
+import { QuoteService } from '../../../src/services/quote/quote.service';
+import { PolicyAction, nextStatus } from '../../../src/services/policy/policy-status';
+import { InvalidStatusTransitionError } from '../../../src/api/middleware/error-handler';
+
+describe('CollectionService', () => {
+  let service: CollectionService;
+  let gateway: MockPaymentGateway;
+  let mockDb: any;
+  let quoteService: { transitionStatus: ReturnType<typeof vi.fn> };
+  let dueRows: any[];
+  let pastDueRows: any[];
+  let claimed: any[];
+  let updates: any[];
+
+  const installment = (overrides: any = {}) => ({
+    payment_id: 'pay-2',
+    payment_number: 'PAY-INST0002',
+    policy_id: 'policy-1',
+    payment_method: 'credit_card',
+    payment_status: 'PENDING',
+    amount: '205.00',
+    installment_number: 2,
+    due_date: '2026-11-01',
+    last_four_digits: '4242',
+    payment_token: 'tok_visa_4242_a1',
+    attempt_count: 0,
+    next_attempt_date: null,
+    gateway_response: null,
+    ...overrides,
+  });
+
+  const policyRecord = { policy_identifier: 'policy-1', policy_number: 'DZCOLLECT1', status_code: 'IN_FORCE' };
+
+  // Run date at midday local time so the YYYY-MM-DD date is unambiguous
+  const on = (date: string) => new Date(`${date}T12:00:00`);
+
+  beforeEach(async () => {
+    dueRows = [];
+    pastDueRows = [];
+    claimed = [];
+    updates = [];
+
+    const selectWhere = vi.fn()
+      .mockImplementationOnce(async () => dueRows)
+      .mockImplementationOnce(async () => pastDueRows);
+
+    mockDb = {
+      select: vi.fn(() => ({
+        from: () => ({ innerJoin: () => ({ where: selectWhere }) }),
+      })),
+      update: vi.fn(() => ({
+        set: (values: any) => {
+          updates.push(values);
+          return {
+            where: () => Object.assign(Promise.resolve(undefined), {
+              returning: vi.fn().mockResolvedValue(claimed),
+            }),
+          };
+        },
+      })),
+    };
+
+    quoteService = { transitionStatus: vi.fn(async (record: any, action: PolicyAction) => nextStatus(record.status_code, action)) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CollectionService,
+        { provide: PAYMENT_GATEWAY, useClass: MockPaymentGateway },
+        { provide: DATABASE_CONNECTION, useValue: mockDb },
+        { provide: QuoteService, useValue: quoteService },
+      ],
+    }).compile();
+
+    service = module.get<CollectionService>(CollectionService);
+    gateway = module.get<MockPaymentGateway>(PAYMENT_GATEWAY);
+  });
+
+  it('should charge a due installment and mark it completed', async () => {
+    dueRows = [{ payment: installment(), policy: policyRecord }];
+    claimed = [installment({ payment_status: 'PROCESSING' })];
+
+    const result = await service.run(on('2026-11-01'));
+
+    expect(updates[0]).toMatchObject({ payment_status: 'PROCESSING' });
+    expect(updates[1]).toMatchObject({
+      payment_status: 'COMPLETED',
+      gateway_response: 'Payment successful',
+      attempt_count: 1,
+      next_attempt_date: null,
+    });
+    expect(updates[1].transaction_id).toMatch(/^txn_/);
+    expect(result).toMatchObject({ asOf: '2026-11-01', attempted: 1, collected: 1, retryScheduled: 0, failed: 0 });
+  });
+
+  it('should leave a collected ACH installment processing until it settles', async () => {
+    const ach = { payment_method: 'ach', last_four_digits: '6789', payment_token: 'btok_6789_a1' };
+    dueRows = [{ payment: installment(ach), policy: policyRecord }];
+    claimed = [installment({ ...ach, payment_status: 'PROCESSING' })];
+
+    const result = await service.run(on('2026-11-01'));
+
+    expect(updates[1]).toMatchObject({
+      payment_status: 'PROCESSING',
+      gateway_response: 'ACH debit submitted',
+      processed_at: null,
+    });
+    expect(updates[1].transaction_id).toMatch(/^ach_6789_/);
+    expect(result.collected).toBe(1);
+  });
+
+  it('should schedule a retry when an installment is declined', async () => {
+    const declined = { last_four_digits: '0002', payment_token: 'tok_visa_0002_a1' };
+    dueRows = [{ payment: installment(declined), policy: policyRecord }];
+    claimed = [installment({ ...declined, payment_status: 'PROCESSING' })];
+
+    const result = await service.run(on('2026-11-01'));
+
+    expect(updates[1]).toMatchObject({
+      payment_status: 'PENDING',
+      gateway_response: 'Card declined - insufficient funds',
+      attempt_count: 1,
+      next_attempt_date: '2026-11-04',
+    });
+    expect(result.retryScheduled).toBe(1);
+  });
+
+  it('should fail an installment declined on its last retry', async () => {
+    const lastRetry = installment({ last_four_digits: '9995', payment_token: 'tok_visa_9995_a1', attempt_count: 2, next_attempt_date: '2026-11-08' });
+    dueRows = [{ payment: lastRetry, policy: policyRecord }];
+    claimed = [{ ...lastRetry, payment_status: 'PROCESSING' }];
+
+    const result = await service.run(on('2026-11-08'));
+
+    expect(updates[1]).toMatchObject({ payment_status: 'FAILED', attempt_count: 3, next_attempt_date: null });
+    expect(result.failed).toBe(1);
+  });
+
+  it('should decline an installment with no stored payment token', async () => {
+    dueRows = [{ payment: installment({ payment_token: null }), policy: policyRecord }];
+    claimed = [installment({ payment_token: null, payment_status: 'PROCESSING' })];
+
+    const result = await service.run(on('2026-11-01'));
+
+    expect(updates[1]).toMatchObject({ payment_status: 'PENDING', gateway_response: 'No payment method on file' });
+    expect(result.retryScheduled).toBe(1);
+  });
+
+  it('should skip installments already claimed by another run', async () => {
+    dueRows = [{ payment: installment(), policy: policyRecord }];
+    claimed = [];
+
+    const result = await service.run(on('2026-11-01'));
+
+    expect(updates).toHaveLength(1);
+    expect(result.attempted).toBe(0);
+  });
+
+  it('should put an installment back to pending when collecting it throws, and carry on', async () => {
+    dueRows = [
+      { payment: installment(), policy: policyRecord },
+      { payment: installment({ payment_id: 'pay-3', payment_number: 'PAY-INST0003', installment_number: 3 }), policy: policyRecord },
+    ];
+    claimed = [installment({ payment_status: 'PROCESSING' })];
+    vi.spyOn(gateway, 'authorize').mockRejectedValueOnce(new Error('Gateway timeout'));
+
+    const result = await service.run(on('2026-11-01'));
+
+    expect(updates[1]).toEqual({ payment_status: 'PENDING', updated_at: expect.any(Date) });
+    expect(updates[3]).toMatchObject({ payment_status: 'COMPLETED' });
+    expect(result).toMatchObject({ attempted: 2, collected: 1, failed: 1 });
+  });
+
+  it('should move the policy to pending cancellation after the grace period', async () => {
+    const failed = installment({ payment_status: 'FAILED', gateway_response: 'Card declined - insufficient funds' });
+    pastDueRows = [
+      { payment: failed, policy: policyRecord },
+      { payment: { ...failed, payment_id: 'pay-3', installment_number: 3 }, policy: policyRecord },
+    ];
+
+    const result = await service.run(on('2026-11-11'));
+
+    expect(quoteService.transitionStatus).toHaveBeenCalledTimes(1);
+    expect(quoteService.transitionStatus).toHaveBeenCalledWith(
+      policyRecord,
+      'SCHEDULE_CANCELLATION',
+      expect.stringContaining('unpaid after 10-day grace period (Card declined - insufficient funds)')
+    );
+    expect(result.pendingCancellation).toEqual(['DZCOLLECT1']);
+  });
+
+  it('should skip a policy that moved since it was loaded, log other failures and carry on', async () => {
+    const failed = installment({ payment_status: 'FAILED', gateway_response: 'Card declined' });
+    const policy = (id: number) => ({ ...policyRecord, policy_identifier: `policy-${id}`, policy_number: `DZCOLLECT${id}` });
+    pastDueRows = [1, 2, 3].map(id => ({ payment: { ...failed, policy_id: `policy-${id}` }, policy: policy(id) }));
+    quoteService.transitionStatus
+      .mockRejectedValueOnce(new InvalidStatusTransitionError('IN_FORCE', 'PENDING_CANCELLATION'))
+      .mockRejectedValueOnce(new Error('Connection reset'));
+    const logError = vi.spyOn(Logger.prototype, 'error').mockImplementation(() => undefined);
+
+    const result = await service.run(on('2026-11-11'));
+
+    expect(quoteService.transitionStatus).toHaveBeenCalledTimes(3);
+    expect(logError).toHaveBeenCalledTimes(1);
+    expect(logError).toHaveBeenCalledWith('Failed to start pending cancellation of policy DZCOLLECT2', expect.any(Error));
+    expect(result.pendingCancellation).toEqual(['DZCOLLECT3']);
+    logError.mockRestore();
+  });
+});
@@ -0,0 +1,344 @@
+/**
+ * Unit Tests for EndorsementService
+ *
+ * Tests re-rating a proposed mid-term change with the pro-rated premium
+ * difference, and applying it as a new policy version with an additional
+ * charge or returned premium, a policy event and new declarations, in one
+ * transaction with the refund last.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Test, TestingModule } from '@nestjs/testing';
+import { DATABASE_CONNECTION } from '../../../src/database/database.module';
+import { EndorsementService } from '../../../src/services/policy/endorsement.service';
+import { QuoteService } from '../../../src/services/quote/quote.service';
+import { RefundService } from '../../../src/services/billing/refund.service';
+import { CoverageRatingService } from '../../../src/services/rating-engine/coverage-rating';
+import { PremiumHistoryService } from '../../../src/services/rating-engine/premium-history.service';
+import { PolicyVersionService } from '../../../src/services/policy/policy-version.service';
+import { BusinessRuleError } from '../../../src/api/middleware/error-handler';
+import { policy } from '../../../../database/schema/policy.schema';
+import { payment } from '../../../../database/schema/payment.schema';
+import { document } from '../../../../database/schema/document.schema';
+import { policyEndorsement } from '../../../../database/schema/policy-endorsement.schema';
+
+describe('EndorsementService', () => {
+  let service: EndorsementService;
+  let mockDb: any;
+  let quoteService: { rateSnapshot: ReturnType<typeof vi.fn>; logPolicyEvent: ReturnType<typeof vi.fn> };
+  let refundService: { refundPolicy: ReturnType<typeof vi.fn>; getPolicyRefundableAmount: ReturnType<typeof vi.fn> };
+  let coverageRating: { validateStateMinimums: ReturnType<typeof vi.fn> };
+  let premiumHistory: { record: ReturnType<typeof vi.fn> };
+  let policyVersions: { recordVersion: ReturnType<typeof vi.fn> };
+  let selectResults: any[][];
+  let updateResults: any[][]; // Rows returned by each update().returning()
+  let updates: Array<{ table: unknown; values: any }>;
+  let inserts: Array<{ table: unknown; values: any }>;
+
+  const asOf = new Date('2026-10-18T12:00:00');
+
+  const snapshot = () => ({
+    driver: { firstName: 'Jane', email: 'jane@example.com', phone: '555-000-1111' },
+    additionalDrivers: [],
+    vehicles: [{ year: 2020, make: 'Honda', model: 'Civic', vin: '1HGCV1F30LA000001' }],
+    coverages: { bodilyInjuryLimit: '100000/300000', hasCollision: true, collisionDeductible: 500 },
+    address: { addressLine1: '1 Main St', city: 'Springfield', state: 'IL', zipCode: '62701' },
+    premium: { subtotal: 600, taxes: [{ amount: 18 }], fees: [], total: 618 },
+  });
+
+  const policyRecord = (overrides: any = {}) => ({
+    policy_identifier: 'policy-1',
+    policy_number: 'DZENDORS01',
+    status_code: 'IN_FORCE',
+    version_number: 1,
+    effective_date: '2026-10-01',
+    expiration_date: '2027-04-01', // 182-day term
+    quote_snapshot: snapshot(),
+    ...overrides,
+  });
+
+  const endorsementRecord = (overrides: any = {}) => ({
+    endorsement_id: 'end-1',
+    endorsement_number: 'END-A1B2C3D4',
+    policy_id: 'policy-1',
+    status: 'PROPOSED',
+    effective_date: '2026-11-01',
+    base_version: 1,
+    version_number: null,
+    changes: { coverages: { collisionDeductible: 250 } },
+    proposed_snapshot: { ...snapshot(), premium: { subtotal: 700, taxes: [{ amount: 21 }], fees: [], total: 721 } },
+    previous_term_premium: '600.00',
+    new_term_premium: '700.00',
+    prorated_premium: '82.97',
+    prorated_tax: '2.49',
+    prorated_amount: '85.46',
+    applied_at: null,
+    ...overrides,
+  });
+
+  const updatesTo = (table: unknown) => updates.filter(update => update.table === table).map(update => update.values);
+  const insertsTo = (table: unknown) => inserts.filter(insert => insert.table === table).map(insert => insert.values);
+
+  beforeEach(async () => {
+    selectResults = [];
+    updateResults = [];
+    updates = [];
+    inserts = [];
+
+    // Each select() returns the next queued result, however the query ends
+    const rowsQuery = (rows: any[]): any => Object.assign(Promise.resolve(rows), {
+      limit: vi.fn().mockResolvedValue(rows),
+      orderBy: vi.fn(() => rowsQuery(rows)),
+    });
+
+    mockDb = {
+      select: vi.fn(() => {
+        const rows = selectResults.shift() || [];
+        return { from: () => ({ where: () => rowsQuery(rows) }) };
+      }),
+      insert: vi.fn((table: unknown) => ({
+        values: (values: any) => {
+          inserts.push({ table, values });
+          return {
+            returning: vi.fn().mockResolvedValue([
+              { endorsement_id: 'end-1', payment_id: 'pay-1', document_id: 'doc-1', applied_at: null, version_number: null, ...values },
+            ]),
+          };
+        },
+      })),
+      update: vi.fn((table: unknown) => ({
+        set: (values: any) => {
+          updates.push({ table, values });
+          return {
+            where: () => Object.assign(Promise.resolve(undefined), {
+              returning: vi.fn(async () => updateResults.shift() || []),
+            }),
+          };
+        },
+      })),
+      transaction: vi.fn(async (work: (tx: any) => Promise<unknown>) => work(mockDb)),
+    };
+
+    quoteService = {
+      rateSnapshot: vi.fn().mockResolvedValue({
+        ratingInput: { vehicles: [] },
+        rating: { discounts: [] },
+        premium: { subtotal: 700, taxes: [{ amount: 21 }], fees: [], total: 721 },
+      }),
+      logPolicyEvent: vi.fn().mockResolvedValue(undefined),
+    };
+    refundService = {
+      refundPolicy: vi.fn().mockResolvedValue([{ refundNumber: 'REF-00000001', amount: 50 }]),
+      getPolicyRefundableAmount: vi.fn().mockResolvedValue(0),
+    };
+    coverageRating = { validateStateMinimums: vi.fn() };
+    premiumHistory = { record: vi.fn().mockResolvedValue({}) };
+    policyVersions = { recordVersion: vi.fn().mockResolvedValue({}) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EndorsementService,
+        { provide: DATABASE_CONNECTION, useValue: mockDb },
+        { provide: QuoteService, useValue: quoteService },
+        { provide: RefundService, useValue: refundService },
+        { provide: CoverageRatingService, useValue: coverageRating },
+        { provide: PremiumHistoryService, useValue: premiumHistory },
+        { provide: PolicyVersionService, useValue: policyVersions },
+      ],
+    }).compile();
+
+    service = module.get<EndorsementService>(EndorsementService);
+  });
+
+  describe('proposeEndorsement', () => {
+    it('should re-rate the change and pro-rate the difference over the rest of the term', async () => {
+      selectResults.push([policyRecord()], []);
+
+      const result = await service.proposeEndorsement(
+        'DZENDORS01',
+        { coverages: { collisionDeductible: 250, rentalReimbursement: true } },
+        '2026-11-01',
+        asOf
+      );
+
+      const [proposed] = quoteService.rateSnapshot.mock.calls[0];
+      expect(proposed.coverages).toMatchObject({ collisionDeductible: 250, hasRental: true, bodilyInjuryLimit: '100000/300000' });
+      expect(quoteService.rateSnapshot).toHaveBeenCalledWith(expect.anything(), '2026-11-01');
+      expect(coverageRating.validateStateMinimums).toHaveBeenCalledWith(proposed.coverages, 'IL');
+
+      // $100 more premium and $3 more tax for 151 of 182 days
+      expect(insertsTo(policyEndorsement)[0]).toMatchObject({
+        status: 'PROPOSED',
+        effective_date: '2026-11-01',
+        base_version: 1,
+        previous_term_premium: '600.00',
+        new_term_premium: '700.00',
+        prorated_premium: '82.97',
+        prorated_tax: '2.49',
+        prorated_amount: '85.46',
+      });
+      expect(result).toMatchObject({
+        policyNumber: 'DZENDORS01',
+        status: 'PROPOSED',
+        proratedAmount: 85.46,
+        remainingDays: 151,
+        termDays: 182,
+      });
+      expect(updates).toHaveLength(0);
+    });
+
+    it('should keep the driving record of additional drivers already on the policy', async () => {
+      const violations = [{ type: 'SPEEDING', date: '2025-06-01' }];
+      selectResults.push([policyRecord({
+        quote_snapshot: { ...snapshot(), additionalDrivers: [{ firstName: 'Sam', email: 'SAM@example.com', violations }] },
+      })], []);
+
+      await service.proposeEndorsement('DZENDORS01', {
+        additionalDrivers: [
+          { firstName: 'Sam', lastName: 'Doe', birthDate: '2000-01-01', email: 'sam@example.com' },
+          { firstName: 'Alex', lastName: 'Doe', birthDate: '2002-01-01', email: 'alex@example.com' },
+        ],
+      }, undefined, asOf);
+
+      const [proposed] = quoteService.rateSnapshot.mock.calls[0];
+      expect(proposed.additionalDrivers).toEqual([
+        expect.objectContaining({ firstName: 'Sam', violations }),
+        expect.objectContaining({ firstName: 'Alex', violations: [], accidents: [] }),
+      ]);
+      expect(insertsTo(policyEndorsement)[0]).toMatchObject({ effective_date: '2026-10-18' });
+    });
+
+    it('should reject a policy that is not in force', async () => {
+      selectResults.push([policyRecord({ status_code: 'CANCELLED' })]);
+
+      const proposal = service.proposeEndorsement('DZENDORS01', { contact: { phone: '555-222-3333' } }, undefined, asOf);
+
+      await expect(proposal).rejects.toThrow(BusinessRuleError);
+      await expect(proposal).rejects.toMatchObject({ ruleCode: 'POLICY_NOT_ENDORSABLE' });
+    });
+
+    it('should reject a date before a change already applied', async () => {
+      selectResults.push([policyRecord()], [endorsementRecord({ status: 'APPLIED', effective_date: '2026-11-15' })]);
+
+      await expect(
+        service.proposeEndorsement('DZENDORS01', { contact: { phone: '555-222-3333' } }, '2026-11-01', asOf)
+      ).rejects.toMatchObject({ ruleCode: 'ENDORSEMENT_OUT_OF_SEQUENCE' });
+      expect(inserts).toHaveLength(0);
+    });
+
+    it('should reject a date outside the rest of the term', async () => {
+      selectResults.push([policyRecord()]);
+
+      await expect(
+        service.proposeEndorsement('DZENDORS01', { contact: { phone: '555-222-3333' } }, '2026-10-10', asOf)
+      ).rejects.toMatchObject({ ruleCode: 'ENDORSEMENT_DATE_OUT_OF_TERM' });
+    });
+  });
+
+  describe('confirmEndorsement', () => {
+    it('should apply the change as the next version and bill the additional premium', async () => {
+      const lastCharge = { payment_method: 'credit_card', payment_token: 'tok_1', last_four_digits: '4242', card_brand: 'visa' };
+      selectResults.push([policyRecord()], [endorsementRecord()], [lastCharge]);
+      updateResults.push([policyRecord({ version_number: 2 })], [endorsementRecord({ status: 'APPLIED', version_number: 2 })]);
+
+      const result = await service.confirmEndorsement('DZENDORS01', 'end-1', asOf);
+
+      expect(updatesTo(policy)).toEqual([expect.objectContaining({ version_number: 2, quote_snapshot: endorsementRecord().proposed_snapshot })]);
+      expect(updatesTo(policyEndorsement)).toEqual([expect.objectContaining({ status: 'APPLIED', version_number: 2 })]);
+      expect(mockDb.transaction).toHaveBeenCalledTimes(1);
+      expect(premiumHistory.record).toHaveBeenCalledWith('policy-1', expect.anything(), expect.anything(), 'ENDORSEMENT', mockDb);
+      expect(policyVersions.recordVersion).toHaveBeenCalledWith({
+        policyId: 'policy-1',
+        versionNumber: 2,
+        source: 'ENDORSEMENT',
+        effectiveDate: '2026-11-01',
+        snapshot: endorsementRecord().proposed_snapshot,
+        endorsementId: 'end-1',
+      }, mockDb);
+
+      expect(insertsTo(payment)).toEqual([expect.objectContaining({
+        endorsement_id: 'end-1',
+        payment_status: 'PENDING',
+        amount: '85.46',
+        premium_amount: '82.97',
+        tax_amount: '2.49',
+        due_date: '2026-11-01',
+        payment_token: 'tok_1',
+      })]);
+      expect(updatesTo(document)).toEqual([expect.objectContaining({ is_current: false })]);
+      expect(insertsTo(document)).toEqual([expect.objectContaining({
+        document_type: 'POLICY_DOCUMENT',
+        document_name: 'Policy_Declarations_DZENDORS01_v2.pdf',
+        version: 2,
+        is_current: true,
+      })]);
+      expect(quoteService.logPolicyEvent).toHaveBeenCalledWith(
+        'policy-1',
+        'IN_FORCE',
+        'IN_FORCE',
+        'Endorsement END-A1B2C3D4 (coverage) applied as version 2 effective 2026-11-01; premium +$85.46 for the rest of the term',
+        mockDb
+      );
+      expect(result).toMatchObject({
+        status: 'APPLIED',
+        versionNumber: 2,
+        billingAdjustment: { type: 'CHARGE', amount: 85.46, paymentId: 'pay-1', dueDate: '2026-11-01' },
+        declarationsDocumentId: 'doc-1',
+      });
+    });
+
+    it('should refund returned premium and credit the rest to upcoming installments', async () => {
+      const returned = endorsementRecord({ prorated_premium: '-82.97', prorated_tax: '-2.49', prorated_amount: '-85.46' });
+      const installment = { payment_id: 'inst-6', amount: '110.00', premium_amount: '100.00', tax_amount: '3.00' };
+      selectResults.push([policyRecord()], [returned], [], [installment]);
+      updateResults.push([policyRecord({ version_number: 2 })], [{ ...returned, status: 'APPLIED', version_number: 2 }]);
+      refundService.getPolicyRefundableAmount.mockResolvedValue(50);
+
+      const result = await service.confirmEndorsement('DZENDORS01', 'end-1', asOf);
+
+      expect(refundService.getPolicyRefundableAmount).toHaveBeenCalledWith('policy-1', mockDb);
+      expect(refundService.refundPolicy).toHaveBeenCalledWith('policy-1', 50, 'Return premium - endorsement END-A1B2C3D4', mockDb);
+      expect(updatesTo(payment)).toEqual([expect.objectContaining({ amount: '74.54', premium_amount: '65.57', tax_amount: '1.97' })]);
+      expect(insertsTo(payment)).toHaveLength(0);
+      expect(result.billingAdjustment).toMatchObject({ type: 'CREDIT', amount: 85.46, installmentCredit: 35.46 });
+    });
+
+    it('should fail the whole confirmation when the refund is declined', async () => {
+      const returned = endorsementRecord({ prorated_premium: '-82.97', prorated_tax: '-2.49', prorated_amount: '-85.46' });
+      selectResults.push([policyRecord()], [returned], []);
+      updateResults.push([policyRecord({ version_number: 2 })], [{ ...returned, status: 'APPLIED', version_number: 2 }]);
+      refundService.getPolicyRefundableAmount.mockResolvedValue(85.46);
+      refundService.refundPolicy.mockRejectedValue(new BusinessRuleError('Refund failed: declined', 'REFUND_FAILED'));
+
+      await expect(service.confirmEndorsement('DZENDORS01', 'end-1', asOf)).rejects.toMatchObject({
+        ruleCode: 'REFUND_FAILED',
+      });
+
+      // Issued after every other write, inside the transaction that rolls them back
+      expect(mockDb.transaction).toHaveBeenCalledTimes(1);
+      expect(refundService.refundPolicy.mock.invocationCallOrder[0])
+        .toBeGreaterThan(quoteService.logPolicyEvent.mock.invocationCallOrder[0]);
+      expect(updatesTo(payment)).toHaveLength(0);
+    });
+
+    it('should reject a proposal made against an earlier policy version', async () => {
+      selectResults.push([policyRecord({ version_number: 2 })], [endorsementRecord()]);
+
+      await expect(service.confirmEndorsement('DZENDORS01', 'end-1', asOf)).rejects.toMatchObject({
+        ruleCode: 'ENDORSEMENT_STALE',
+      });
+      expect(updatesTo(policyEndorsement)).toHaveLength(0);
+      expect(policyVersions.recordVersion).not.toHaveBeenCalled();
+      expect(quoteService.logPolicyEvent).not.toHaveBeenCalled();
+    });
+
+    it('should reject an endorsement that was already applied', async () => {
+      selectResults.push([policyRecord()], [endorsementRecord({ status: 'APPLIED' })]);
+
+      await expect(service.confirmEndorsement('DZENDORS01', 'end-1', asOf)).rejects.toMatchObject({
+        ruleCode: 'ENDORSEMENT_NOT_PROPOSED',
+      });
+      expect(updates).toHaveLength(0);
+    });
+  });
+});
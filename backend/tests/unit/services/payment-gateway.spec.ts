@@ -0,0 +1,211 @@
+/**
+ * Unit Tests for the payment gateways
+ *
+ * Tests the mock gateway's Stripe test-card behavior, and the Stripe adapter
+ * end to end against the local Stripe stub server.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import { MockPaymentGateway } from '../../../src/services/payment-gateway/mock-payment-gateway';
+import { StripePaymentGateway } from '../../../src/services/payment-gateway/stripe-payment-gateway';
+import { authorizeAndCapture } from '../../../src/services/payment-gateway/payment-gateway';
+import { createStripeStub } from '../../../src/cli/stripe-stub';
+
+const visa = {
+  paymentMethod: 'credit_card' as const,
+  cardNumber: '4242 4242 4242 4242',
+  cardExpiry: '12/28',
+  cardCvv: '123',
+};
+const declined = { ...visa, cardNumber: '4000000000000002' };
+const bankAccount = { paymentMethod: 'ach' as const, routingNumber: '021000021', accountNumber: '987654321' };
+
+describe('MockPaymentGateway', () => {
+  const gateway = new MockPaymentGateway();
+
+  it('should tokenize a valid card without exposing the card number', async () => {
+    const result = await gateway.tokenize(visa);
+
+    expect(result).toMatchObject({ success: true, lastFourDigits: '4242', cardBrand: 'Visa' });
+    expect(result.token).toMatch(/^tok_visa_4242_/);
+    expect(result.token).not.toContain('424242424242');
+  });
+
+  it('should reject a card number that fails the Luhn check', async () => {
+    const result = await gateway.tokenize({ ...visa, cardNumber: '4242424242424243' });
+
+    expect(result).toEqual({ success: false, message: 'Invalid card number (failed Luhn check)' });
+  });
+
+  it('should decline Stripe decline test cards at authorization', async () => {
+    const { token } = await gateway.tokenize(declined);
+
+    expect(await gateway.authorize(token!, 100)).toEqual({
+      success: false,
+      message: 'Card declined - insufficient funds',
+    });
+  });
+
+  it('should capture an ACH debit as pending and settle it later', async () => {
+    const { token } = await gateway.tokenize(bankAccount);
+    const result = await authorizeAndCapture(gateway, token!, 100);
+
+    expect(token).toMatch(/^btok_4321_/);
+    expect(result).toMatchObject({ success: true, message: 'ACH debit submitted', pending: true });
+    expect(result.transactionId).toMatch(/^ach_4321_/);
+    expect(await gateway.getChargeStatus(result.transactionId!)).toEqual({
+      success: true,
+      status: 'succeeded',
+      message: 'ACH payment settled',
+    });
+  });
+
+  it('should return ACH debits from the Stripe returned test accounts', async () => {
+    const { token } = await gateway.tokenize({ ...bankAccount, accountNumber: '000222222227' });
+    const { transactionId } = await authorizeAndCapture(gateway, token!, 100);
+
+    expect(await gateway.getChargeStatus(transactionId!)).toEqual({
+      success: true,
+      status: 'failed',
+      failureCode: 'insufficient_funds',
+      message: 'Insufficient funds (R01)',
+    });
+  });
+
+  it('should reject a routing number that fails the ABA checksum', async () => {
+    expect(await gateway.tokenize({ ...bankAccount, routingNumber: '021000022' })).toEqual({
+      success: false,
+      message: 'Invalid routing number (failed ABA checksum)',
+    });
+  });
+
+  it('should reject an unknown token', async () => {
+    expect(await gateway.authorize('pm_unknown', 100)).toEqual({ success: false, message: 'Invalid payment token' });
+  });
+});
+
+describe('StripePaymentGateway (local stub)', () => {
+  let server: Server;
+  let gateway: StripePaymentGateway;
+
+  beforeAll(async () => {
+    server = createStripeStub();
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    const { port } = server.address() as AddressInfo;
+    gateway = new StripePaymentGateway({
+      apiBaseUrl: `http://127.0.0.1:${port}`,
+      secretKey: 'sk_test_stub',
+      timeoutMs: 5000,
+    });
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should tokenize, authorize and capture a card charge', async () => {
+    const tokenized = await gateway.tokenize(visa);
+    const result = await authorizeAndCapture(gateway, tokenized.token!, 243.2);
+
+    expect(tokenized).toMatchObject({ success: true, lastFourDigits: '4242', cardBrand: 'Visa' });
+    expect(result).toMatchObject({ success: true, message: 'Payment successful' });
+    expect(result.transactionId).toMatch(/^txn_/);
+  });
+
+  it('should return Stripe card errors as unsuccessful results', async () => {
+    expect(await gateway.tokenize({ ...visa, cardNumber: '4242424242424243' })).toEqual({
+      success: false,
+      message: 'Invalid card number (failed Luhn check)',
+    });
+
+    const { token } = await gateway.tokenize(declined);
+    expect(await gateway.authorize(token!, 100)).toEqual({
+      success: false,
+      message: 'Card declined - insufficient funds',
+    });
+  });
+
+  it('should refund part of a captured charge but no more than was captured', async () => {
+    const { token } = await gateway.tokenize(visa);
+    const { transactionId } = await authorizeAndCapture(gateway, token!, 100);
+
+    const partial = await gateway.refund(transactionId!, 40);
+    expect(partial).toMatchObject({ success: true, message: 'Refund successful' });
+    expect(partial.transactionId).toMatch(/^re_/);
+
+    const excess = await gateway.refund(transactionId!, 80);
+    expect(excess.success).toBe(false);
+    expect(excess.message).toContain('greater than unrefunded amount');
+  });
+
+  it('should void an uncaptured authorization', async () => {
+    const { token } = await gateway.tokenize(visa);
+    const authorization = await gateway.authorize(token!, 100);
+
+    expect(await gateway.void(authorization.transactionId!)).toMatchObject({
+      success: true,
+      message: 'Authorization voided',
+    });
+    expect((await gateway.capture(authorization.transactionId!, 100)).success).toBe(false);
+  });
+
+  it('should report an ACH debit pending until it is looked up, then its return', async () => {
+    const { token } = await gateway.tokenize({ ...bankAccount, accountNumber: '000111111113' });
+    const result = await authorizeAndCapture(gateway, token!, 100);
+
+    expect(result).toMatchObject({ success: true, pending: true });
+    expect(await gateway.getChargeStatus(result.transactionId!)).toEqual({
+      success: true,
+      status: 'failed',
+      failureCode: 'account_closed',
+      message: 'Account closed (R02)',
+    });
+  });
+
+  it('should reject requests without a secret key', async () => {
+    const unauthorized = new StripePaymentGateway({
+      apiBaseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+      secretKey: '',
+      timeoutMs: 5000,
+    });
+
+    expect(await unauthorized.tokenize(visa)).toEqual({ success: false, message: 'Invalid API Key provided' });
+  });
+
+  it('should let a publishable key tokenize from the browser but not charge', async () => {
+    const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    const headers = { Authorization: 'Bearer pk_test_stub', 'Content-Type': 'application/x-www-form-urlencoded' };
+
+    const preflight = await fetch(`${base}/v1/tokens`, { method: 'OPTIONS' });
+    expect(preflight.status).toBe(204);
+    expect(preflight.headers.get('access-control-allow-origin')).toBe('*');
+
+    const token = await fetch(`${base}/v1/tokens`, {
+      method: 'POST',
+      headers,
+      body: 'card[number]=4242424242424242&card[exp_month]=12&card[exp_year]=28&card[cvc]=123',
+    });
+    const body = await token.json();
+    expect(token.status).toBe(200);
+    expect(body.card).toEqual({ last4: '4242', brand: 'Visa' });
+
+    const charge = await fetch(`${base}/v1/charges`, {
+      method: 'POST',
+      headers,
+      body: `amount=100&source=${body.id}&capture=false`,
+    });
+    expect(charge.status).toBe(401);
+  });
+
+  it('should report an unreachable gateway', async () => {
+    const offline = new StripePaymentGateway({
+      apiBaseUrl: 'http://127.0.0.1:9',
+      secretKey: 'sk_test_stub',
+      timeoutMs: 1000,
+    });
+
+    expect(await offline.tokenize(visa)).toEqual({ success: false, message: 'Payment gateway unavailable' });
+  });
+});
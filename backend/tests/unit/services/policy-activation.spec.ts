@@ -0,0 +1,282 @@
+/**
+ * Unit Tests for policy activation
+ *
+ * Tests the activate-policies job putting BOUND policies in force on their
+ * effective date in the policy's time zone, issuing ID cards and sending the
+ * activation notice, and the policy_activation run log that keeps reruns from
+ * repeating a completed step and resumes failed activations.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Test, TestingModule } from '@nestjs/testing';
+import { DATABASE_CONNECTION } from '../../../src/database/database.module';
+import { QuoteService } from '../../../src/services/quote/quote.service';
+import { RatingEngineService } from '../../../src/services/rating-engine/rating-engine.service';
+import { PremiumHistoryService } from '../../../src/services/rating-engine/premium-history.service';
+import { CoverageRatingService } from '../../../src/services/rating-engine/coverage-rating';
+import { BillingScheduleService } from '../../../src/services/billing/billing-schedule.service';
+import { PolicyVersionService } from '../../../src/services/policy/policy-version.service';
+import { PAYMENT_GATEWAY } from '../../../src/services/payment-gateway/payment-gateway';
+import { BusinessRuleError, InvalidStatusTransitionError } from '../../../src/api/middleware/error-handler';
+import { policy, document } from '../../../../database/schema';
+import { policyActivation } from '../../../../database/schema/policy-activation.schema';
+
+describe('QuoteService - Policy Activation', () => {
+  let service: QuoteService;
+  let mockDb: any;
+  let logPolicyEvent: ReturnType<typeof vi.fn>;
+  let sendActivationEmail: ReturnType<typeof vi.fn>;
+  let selectResults: any[][];
+  let claimResults: any[][]; // Rows returned by each insert().onConflictDoNothing().returning()
+  let supersededIdCards: any[];
+  let activationRow: any; // Run log entry as last written
+  let updates: Array<{ table: unknown; values: any }>;
+  let inserts: Array<{ table: unknown; values: any }>;
+
+  // 04:30 UTC: already October 18 in New York, still October 17 in Chicago
+  const asOf = new Date('2026-10-18T04:30:00Z');
+
+  const policyRecord = (overrides: any = {}) => ({
+    policy_identifier: 'policy-ny',
+    policy_number: 'DZNEWYORK1',
+    status_code: 'BOUND',
+    effective_date: '2026-10-18',
+    expiration_date: '2027-04-18',
+    quote_snapshot: {
+      driver: { firstName: 'Jane', email: 'jane@example.com' },
+      address: { state: 'NY' },
+      vehicles: [
+        { year: 2020, make: 'Honda', model: 'Civic' },
+        { year: 2018, make: 'Subaru', model: 'Outback' },
+      ],
+    },
+    ...overrides,
+  });
+
+  const activationRecord = (overrides: any = {}) => ({
+    activation_id: 'activation-1',
+    policy_id: 'policy-ny',
+    effective_date: '2026-10-18',
+    time_zone: 'America/New_York',
+    trigger: 'SCHEDULED',
+    status: 'STARTED',
+    activated_at: null,
+    id_cards_issued_at: null,
+    id_card_count: null,
+    notice_sent_at: null,
+    failure_reason: null,
+    attempts: 1,
+    ...overrides,
+  });
+
+  const updatesTo = (table: unknown) => updates.filter(update => update.table === table).map(update => update.values);
+  const insertsTo = (table: unknown) => inserts.filter(insert => insert.table === table).map(insert => insert.values);
+
+  beforeEach(async () => {
+    selectResults = [];
+    claimResults = [];
+    supersededIdCards = [];
+    activationRow = undefined;
+    updates = [];
+    inserts = [];
+
+    // Each select() returns the next queued result, however the query ends
+    const rowsQuery = (rows: any[]): any => Object.assign(Promise.resolve(rows), {
+      limit: vi.fn().mockResolvedValue(rows),
+    });
+
+    mockDb = {
+      select: vi.fn(() => {
+        const rows = selectResults.shift() || [];
+        const query = { where: () => rowsQuery(rows), innerJoin: () => query };
+        return { from: () => query };
+      }),
+      insert: vi.fn((table: unknown) => ({
+        values: (values: any) => {
+          inserts.push({ table, values });
+          return {
+            returning: vi.fn(async () => [{ document_id: `doc-${inserts.length}`, ...values }]),
+            onConflictDoNothing: () => ({
+              returning: vi.fn(async () => {
+                const rows = claimResults.length ? claimResults.shift()! : [activationRecord(values)];
+                activationRow = rows[0];
+                return rows;
+              }),
+            }),
+          };
+        },
+      })),
+      update: vi.fn((table: unknown) => ({
+        set: (values: any) => {
+          updates.push({ table, values });
+          if (table === policyActivation) {
+            activationRow = { ...activationRow, ...values };
+          }
+          return {
+            where: () => Object.assign(Promise.resolve(undefined), {
+              returning: vi.fn(async () => {
+                if (table === policyActivation) {
+                  return [activationRow];
+                }
+                if (table === policy) {
+                  return [{ ...values }]; // Status-guarded transition
+                }
+                return table === document ? supersededIdCards : [];
+              }),
+            }),
+          };
+        },
+      })),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        QuoteService,
+        { provide: DATABASE_CONNECTION, useValue: mockDb },
+        { provide: RatingEngineService, useValue: {} },
+        { provide: PremiumHistoryService, useValue: {} },
+        { provide: CoverageRatingService, useValue: {} },
+        { provide: BillingScheduleService, useValue: {} },
+        { provide: PolicyVersionService, useValue: {} },
+        { provide: PAYMENT_GATEWAY, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<QuoteService>(QuoteService);
+    logPolicyEvent = vi.spyOn(service, 'logPolicyEvent').mockResolvedValue(undefined) as any;
+    sendActivationEmail = vi.spyOn(service as any, 'sendActivationEmail').mockResolvedValue(undefined) as any;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('activateDuePolicies', () => {
+    it('should activate policies whose effective date has arrived in their time zone', async () => {
+      const chicago = policyRecord({
+        policy_identifier: 'policy-il',
+        policy_number: 'DZCHICAGO1',
+        quote_snapshot: { ...policyRecord().quote_snapshot, address: { state: 'IL' } },
+      });
+      selectResults.push([policyRecord(), chicago], [], [policyRecord()], []);
+      supersededIdCards = [{ version: 1 }]; // ID card issued at binding
+
+      const result = await service.activateDuePolicies(asOf);
+
+      expect(result).toEqual({ asOf: '2026-10-18T04:30:00.000Z', activated: ['DZNEWYORK1'], skipped: [], failed: [] });
+      expect(insertsTo(policyActivation)).toEqual([{
+        policy_id: 'policy-ny',
+        effective_date: '2026-10-18',
+        time_zone: 'America/New_York',
+        trigger: 'SCHEDULED',
+        status: 'STARTED',
+      }]);
+      expect(updatesTo(policy)).toEqual([expect.objectContaining({ status_code: 'IN_FORCE' })]);
+      expect(logPolicyEvent).toHaveBeenCalledWith(
+        'policy-ny', 'BOUND', 'IN_FORCE', 'Policy activated - coverage in force from 2026-10-18 (America/New_York)', mockDb
+      );
+
+      // One ID card per vehicle, superseding the card issued at binding
+      expect(updatesTo(document)).toEqual([expect.objectContaining({ is_current: false, document_status: 'SUPERSEDED' })]);
+      expect(insertsTo(document)).toEqual([
+        expect.objectContaining({ document_type: 'ID_CARD', version: 2, description: expect.stringContaining('2020 Honda Civic') }),
+        expect.objectContaining({ document_type: 'ID_CARD', version: 2, description: expect.stringContaining('2018 Subaru Outback') }),
+      ]);
+      expect(sendActivationEmail).toHaveBeenCalledTimes(1);
+      expect(sendActivationEmail).toHaveBeenCalledWith(expect.objectContaining({ policy_number: 'DZNEWYORK1' }), 2);
+      expect(activationRow).toMatchObject({ status: 'ACTIVATED', id_card_count: 2 });
+      expect(activationRow.notice_sent_at).toBeInstanceOf(Date);
+    });
+
+    it('should resume a failed activation without repeating the completed steps', async () => {
+      const failed = activationRecord({
+        status: 'FAILED',
+        activated_at: new Date('2026-10-18T04:05:00Z'),
+        failure_reason: 'Document storage unavailable',
+      });
+      const inForce = policyRecord({ status_code: 'IN_FORCE' });
+      activationRow = failed;
+      selectResults.push([], [{ policy_activation: failed, policy: inForce }], [inForce], [failed]);
+
+      const result = await service.activateDuePolicies(asOf);
+
+      expect(result.activated).toEqual(['DZNEWYORK1']);
+      expect(logPolicyEvent).not.toHaveBeenCalled();
+      expect(insertsTo(document)).toHaveLength(2);
+      expect(sendActivationEmail).toHaveBeenCalledTimes(1);
+      expect(updatesTo(policyActivation)[0]).toMatchObject({ status: 'STARTED', failure_reason: null, attempts: 2 });
+      expect(activationRow).toMatchObject({ status: 'ACTIVATED' });
+    });
+
+    it('should record a failed step so the next run resumes after the steps that completed', async () => {
+      selectResults.push([policyRecord()], [], [policyRecord()], []);
+      sendActivationEmail.mockRejectedValue(new Error('Mail server unavailable'));
+
+      const result = await service.activateDuePolicies(asOf);
+
+      expect(result).toMatchObject({ activated: [], failed: ['DZNEWYORK1'] });
+      expect(activationRow).toMatchObject({
+        status: 'FAILED',
+        failure_reason: 'Mail server unavailable',
+        id_card_count: 2,
+        notice_sent_at: null,
+      });
+      expect(activationRow.activated_at).toBeInstanceOf(Date);
+      expect(activationRow.id_cards_issued_at).toBeInstanceOf(Date);
+    });
+
+    it('should skip a policy another run claimed first', async () => {
+      selectResults.push([policyRecord()], [], [policyRecord()], []);
+      claimResults.push([]); // Unique (policy, effective date) conflict
+
+      const result = await service.activateDuePolicies(asOf);
+
+      expect(result).toMatchObject({ activated: [], skipped: ['DZNEWYORK1'], failed: [] });
+      expect(updatesTo(policy)).toEqual([]);
+      expect(sendActivationEmail).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('activatePolicy', () => {
+    it('should return a completed activation without repeating it', async () => {
+      const activated = activationRecord({
+        status: 'ACTIVATED',
+        activated_at: new Date('2026-10-18T04:05:00Z'),
+        id_card_count: 2,
+      });
+      selectResults.push([policyRecord({ status_code: 'IN_FORCE' })], [activated]);
+
+      const result = await service.activatePolicy('policy-ny', 'MANUAL', asOf);
+
+      expect(result).toMatchObject({
+        status: 'IN_FORCE',
+        timeZone: 'America/New_York',
+        idCardCount: 2,
+        alreadyActivated: true,
+      });
+      expect(updates).toEqual([]);
+      expect(inserts).toEqual([]);
+      expect(sendActivationEmail).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to activate before the effective date in the policy time zone', async () => {
+      selectResults.push([policyRecord({ quote_snapshot: { address: { state: 'IL' } } })], []);
+
+      const error = await service.activatePolicy('policy-ny', 'MANUAL', asOf).catch(err => err);
+
+      expect(error).toBeInstanceOf(BusinessRuleError);
+      expect(error).toMatchObject({
+        ruleCode: 'POLICY_NOT_YET_EFFECTIVE',
+        message: 'Policy DZNEWYORK1 becomes effective on 2026-10-18 (America/Chicago) and cannot be activated before then',
+      });
+      expect(inserts).toEqual([]);
+    });
+
+    it('should reject activating a policy that is not BOUND', async () => {
+      selectResults.push([policyRecord({ status_code: 'QUOTED' })], []);
+
+      await expect(service.activatePolicy('policy-ny', 'MANUAL', asOf)).rejects.toThrow(InvalidStatusTransitionError);
+      expect(inserts).toEqual([]);
+    });
+  });
+});
@@ -3,8 +3,8 @@
  *
  * Tests the policy binding workflow with:
  * - Quote to policy conversion (QUOTED → BINDING → BOUND)
- * - Payment processing (credit card and ACH)
- * - Luhn validation for credit cards
+ * - Payment processing (credit card and ACH) by gateway token
+ * - Luhn validation for credit cards (at tokenization)
  * - Stripe test card patterns
  * - Payment record creation
  * - Policy number assignment (same as quote number)
@@ -13,15 +13,38 @@
  * - Error handling (quote not found, expired, payment declined)
  */
 
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { Test, TestingModule } from '@nestjs/testing';
 import { QuoteService } from '../../../src/services/quote/quote.service';
+import { PolicyVersionService } from '../../../src/services/policy/policy-version.service';
 import { DATABASE_CONNECTION } from '../../../src/database/database.module';
-import { NotFoundException, BadRequestException } from '@nestjs/common';
+import { RatingEngineService } from '../../../src/services/rating-engine/rating-engine.service';
+import { VehicleRatingService } from '../../../src/services/rating-engine/vehicle-rating';
+import { DriverRatingService } from '../../../src/services/rating-engine/driver-rating';
+import { LocationRatingService } from '../../../src/services/rating-engine/location-rating';
+import { CoverageRatingService } from '../../../src/services/rating-engine/coverage-rating';
+import { DiscountCalculator } from '../../../src/services/rating-engine/discount-calculator';
+import { SurchargeCalculator } from '../../../src/services/rating-engine/surcharge-calculator';
+import { TaxFeeCalculator } from '../../../src/services/rating-engine/tax-fee-calculator';
+import { RateTableService } from '../../../src/services/rating-engine/rate-table.service';
+import { PremiumHistoryService } from '../../../src/services/rating-engine/premium-history.service';
+import { BillingScheduleService } from '../../../src/services/billing/billing-schedule.service';
+import { PAYMENT_GATEWAY } from '../../../src/services/payment-gateway/payment-gateway';
+import type { PaymentMethodDetails } from '../../../src/services/payment-gateway/payment-gateway';
+import { MockPaymentGateway } from '../../../src/services/payment-gateway/mock-payment-gateway';
+import { RateBook } from '../../../src/services/rating-engine/rate-book';
+import { RATING_TABLE_SEED } from '../../../../database/seeds/rating-tables';
+
+const rates = new RateBook(RATING_TABLE_SEED as any, '2025-01-01');
+import { NotFoundException, BadRequestException, Logger } from '@nestjs/common';
+import { isValidCreditCard } from '../../../src/utils/validators';
+import { BusinessRuleError, InvalidStatusTransitionError } from '../../../src/api/middleware/error-handler';
 
 describe('QuoteService - Policy Binding (T149)', () => {
   let service: QuoteService;
   let mockDb: any;
+  let activatePolicy: ReturnType<typeof vi.spyOn>;
+  let gateway: MockPaymentGateway;
 
   beforeEach(async () => {
     // Mock database connection - we'll set up specific mocks per test
@@ -38,8 +61,16 @@ describe('QuoteService - Policy Binding (T149)', () => {
       innerJoin: vi.fn(),
       leftJoin: vi.fn(),
       orderBy: vi.fn(),
+      // Everything written after the charge is written in one transaction
+      transaction: vi.fn(async (work: (tx: any) => Promise<unknown>) => work(mockDb)),
     };
 
+    // Status changes log a policy event (tests that check inserts mock their own)
+    mockDb.insert.mockImplementation(() => ({
+      values: vi.fn().mockReturnThis(),
+      returning: vi.fn().mockResolvedValue([{ event_id: 'event-1' }]),
+    }));
+
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         QuoteService,
@@ -47,10 +78,51 @@ describe('QuoteService - Policy Binding (T149)', () => {
           provide: DATABASE_CONNECTION,
           useValue: mockDb,
         },
+        RatingEngineService,
+        VehicleRatingService,
+        DriverRatingService,
+        LocationRatingService,
+        CoverageRatingService,
+        DiscountCalculator,
+        SurchargeCalculator,
+        TaxFeeCalculator,
+        PremiumHistoryService,
+        BillingScheduleService,
+        PolicyVersionService,
+        { provide: PAYMENT_GATEWAY, useClass: MockPaymentGateway },
+        {
+          provide: RateTableService,
+          useValue: { getRateBook: vi.fn().mockResolvedValue(rates) },
+        },
       ],
     }).compile();
 
     service = module.get<QuoteService>(QuoteService);
+    gateway = module.get(PAYMENT_GATEWAY);
+
+    // Coverage starting today is activated at binding (activation is tested in policy-activation.spec)
+    activatePolicy = vi.spyOn(service, 'activatePolicy').mockResolvedValue({ status: 'IN_FORCE' } as any);
+  });
+
+  // Payment details are tokenized first, as the browser does against the gateway
+  const tokenize = async (details: PaymentMethodDetails) => {
+    const result = await new MockPaymentGateway().tokenize(details);
+    if (!result.success) {
+      throw new BadRequestException(result.message);
+    }
+    return {
+      paymentMethod: details.paymentMethod,
+      paymentToken: result.token!,
+      accountType: details.paymentMethod === 'ach' ? details.accountType : undefined,
+    };
+  };
+
+  const bindWith = async (quoteNumber: string, details: PaymentMethodDetails) =>
+    service.bindQuote(quoteNumber, await tokenize(details));
+
+  // Updates resolve; status changes are guarded and return the updated policy
+  const updatedPolicy = () => Object.assign(Promise.resolve(undefined), {
+    returning: vi.fn().mockResolvedValue([{}]),
   });
 
   // Helper function to setup select chain mock
@@ -93,7 +165,7 @@ describe('QuoteService - Policy Binding (T149)', () => {
       // Mock update for status changes
       mockDb.update.mockReturnThis();
       mockDb.set.mockReturnThis();
-      mockDb.where.mockResolvedValue(undefined);
+      mockDb.where.mockImplementation(updatedPolicy);
 
       // Mock insert for payment, event, policyEvent, document
       mockDb.insert.mockImplementation(() => ({
@@ -115,10 +187,10 @@ describe('QuoteService - Policy Binding (T149)', () => {
         cardCvv: '123',
       };
 
-      const result = await service.bindQuote(quoteNumber, paymentData);
+      const result = await bindWith(quoteNumber, paymentData);
 
       expect(result.policyNumber).toBe(quoteNumber);
-      expect(result.status).toBe('BOUND');
+      expect(result.status).toBe('IN_FORCE'); // Bound, then activated: coverage starts today
       expect(result.payment.success).toBe(true);
       expect(result.payment.lastFourDigits).toBe('4242');
       expect(result.payment.cardBrand).toBe('Visa');
@@ -175,7 +247,7 @@ describe('QuoteService - Policy Binding (T149)', () => {
 
       mockDb.update.mockReturnThis();
       mockDb.set.mockReturnThis();
-      mockDb.where.mockResolvedValue(undefined);
+      mockDb.where.mockImplementation(updatedPolicy);
 
       mockDb.insert.mockImplementation(() => ({
         values: vi.fn().mockReturnThis(),
@@ -194,10 +266,10 @@ describe('QuoteService - Policy Binding (T149)', () => {
         cardCvv: '123',
       };
 
-      const result = await service.bindQuote(quoteNumber, paymentData);
+      const result = await bindWith(quoteNumber, paymentData);
 
       expect(result.policyNumber).toBe(quoteNumber);
-      expect(result.status).toBe('BOUND');
+      expect(result.status).toBe('IN_FORCE'); // Bound, then activated: coverage starts today
       // Snapshot should be preserved (verified by not throwing errors)
     });
 
@@ -220,7 +292,7 @@ describe('QuoteService - Policy Binding (T149)', () => {
 
       mockDb.update.mockReturnThis();
       mockDb.set.mockReturnThis();
-      mockDb.where.mockResolvedValue(undefined);
+      mockDb.where.mockImplementation(updatedPolicy);
 
       mockDb.insert.mockImplementation(() => ({
         values: vi.fn().mockReturnThis(),
@@ -240,9 +312,9 @@ describe('QuoteService - Policy Binding (T149)', () => {
         accountType: 'checking' as const,
       };
 
-      const result = await service.bindQuote(quoteNumber, paymentData);
+      const result = await bindWith(quoteNumber, paymentData);
 
-      expect(result.status).toBe('BOUND');
+      expect(result.status).toBe('IN_FORCE'); // Bound, then activated: coverage starts today
       expect(result.payment.success).toBe(true);
       expect(result.payment.lastFourDigits).toBe('6789');
     });
@@ -268,7 +340,7 @@ describe('QuoteService - Policy Binding (T149)', () => {
 
       mockDb.update.mockReturnThis();
       mockDb.set.mockReturnThis();
-      mockDb.where.mockResolvedValue(undefined);
+      mockDb.where.mockImplementation(updatedPolicy);
 
       const paymentData = {
         paymentMethod: 'credit_card' as const,
@@ -277,8 +349,8 @@ describe('QuoteService - Policy Binding (T149)', () => {
         cardCvv: '123',
       };
 
-      await expect(service.bindQuote(quoteNumber, paymentData)).rejects.toThrow(BadRequestException);
-      await expect(service.bindQuote(quoteNumber, paymentData)).rejects.toThrow('Invalid card number');
+      await expect(bindWith(quoteNumber, paymentData)).rejects.toThrow(BadRequestException);
+      await expect(bindWith(quoteNumber, paymentData)).rejects.toThrow('Invalid card number');
     });
 
     it('should handle Stripe test card 4000000000000002 (declined - insufficient funds)', async () => {
@@ -300,7 +372,7 @@ describe('QuoteService - Policy Binding (T149)', () => {
 
       mockDb.update.mockReturnThis();
       mockDb.set.mockReturnThis();
-      mockDb.where.mockResolvedValue(undefined);
+      mockDb.where.mockImplementation(updatedPolicy);
 
       const paymentData = {
         paymentMethod: 'credit_card' as const,
@@ -309,8 +381,8 @@ describe('QuoteService - Policy Binding (T149)', () => {
         cardCvv: '123',
       };
 
-      await expect(service.bindQuote(quoteNumber, paymentData)).rejects.toThrow(BadRequestException);
-      await expect(service.bindQuote(quoteNumber, paymentData)).rejects.toThrow('insufficient funds');
+      await expect(bindWith(quoteNumber, paymentData)).rejects.toThrow(BadRequestException);
+      await expect(bindWith(quoteNumber, paymentData)).rejects.toThrow('insufficient funds');
     });
 
     it('should handle Stripe test card 4000000000009995 (declined - do not honor)', async () => {
@@ -332,7 +404,7 @@ describe('QuoteService - Policy Binding (T149)', () => {
 
       mockDb.update.mockReturnThis();
       mockDb.set.mockReturnThis();
-      mockDb.where.mockResolvedValue(undefined);
+      mockDb.where.mockImplementation(updatedPolicy);
 
       const paymentData = {
         paymentMethod: 'credit_card' as const,
@@ -341,8 +413,8 @@ describe('QuoteService - Policy Binding (T149)', () => {
         cardCvv: '123',
       };
 
-      await expect(service.bindQuote(quoteNumber, paymentData)).rejects.toThrow(BadRequestException);
-      await expect(service.bindQuote(quoteNumber, paymentData)).rejects.toThrow('do not honor');
+      await expect(bindWith(quoteNumber, paymentData)).rejects.toThrow(BadRequestException);
+      await expect(bindWith(quoteNumber, paymentData)).rejects.toThrow('do not honor');
     });
 
     it('should detect Visa card brand', async () => {
@@ -364,7 +436,7 @@ describe('QuoteService - Policy Binding (T149)', () => {
 
       mockDb.update.mockReturnThis();
       mockDb.set.mockReturnThis();
-      mockDb.where.mockResolvedValue(undefined);
+      mockDb.where.mockImplementation(updatedPolicy);
 
       mockDb.insert.mockImplementation(() => ({
         values: vi.fn().mockReturnThis(),
@@ -384,7 +456,7 @@ describe('QuoteService - Policy Binding (T149)', () => {
         cardCvv: '123',
       };
 
-      const result = await service.bindQuote(quoteNumber, paymentData);
+      const result = await bindWith(quoteNumber, paymentData);
       expect(result.payment.cardBrand).toBe('Visa');
     });
 
@@ -407,7 +479,7 @@ describe('QuoteService - Policy Binding (T149)', () => {
 
       mockDb.update.mockReturnThis();
       mockDb.set.mockReturnThis();
-      mockDb.where.mockResolvedValue(undefined);
+      mockDb.where.mockImplementation(updatedPolicy);
 
       mockDb.insert.mockImplementation(() => ({
         values: vi.fn().mockReturnThis(),
@@ -427,7 +499,7 @@ describe('QuoteService - Policy Binding (T149)', () => {
         cardCvv: '123',
       };
 
-      const result = await service.bindQuote(quoteNumber, paymentData);
+      const result = await bindWith(quoteNumber, paymentData);
       expect(result.payment.cardBrand).toBe('Mastercard');
     });
 
@@ -450,7 +522,7 @@ describe('QuoteService - Policy Binding (T149)', () => {
 
       mockDb.update.mockReturnThis();
       mockDb.set.mockReturnThis();
-      mockDb.where.mockResolvedValue(undefined);
+      mockDb.where.mockImplementation(updatedPolicy);
 
       let capturedPaymentValues: any = null;
 
@@ -479,7 +551,7 @@ describe('QuoteService - Policy Binding (T149)', () => {
         cardCvv: '123',
       };
 
-      await service.bindQuote(quoteNumber, paymentData);
+      await bindWith(quoteNumber, paymentData);
 
       // Verify payment record has only last 4 digits
       expect(capturedPaymentValues).not.toBeNull();
@@ -487,6 +559,175 @@ describe('QuoteService - Policy Binding (T149)', () => {
       // Full card number should NOT be stored
       expect(capturedPaymentValues.card_number).toBeUndefined();
     });
+
+    it('should charge the taxed total and record its breakdown', async () => {
+      const quoteNumber = 'DZTAXES123';
+      const policyId = '880e8400-e29b-41d4-a716-446655440003';
+      const mockSnapshot = {
+        driver: { email: 'john@example.com' },
+        premium: {
+          subtotal: 1140,
+          taxes: [{ type: 'PREMIUM_TAX', name: 'CA Premium Tax (2.35%)', amount: 26.79 }],
+          fees: [
+            { type: 'POLICY_FEE', name: 'Policy Fee', amount: 15 },
+            { type: 'DMV_FEE', name: 'CA DMV Fee', amount: 25 },
+          ],
+          total: 1206.79,
+        },
+      };
+
+      setupSelectMock([
+        {
+          policy_identifier: policyId,
+          policy_number: quoteNumber,
+          status_code: 'QUOTED',
+          quote_snapshot: mockSnapshot,
+        },
+      ]);
+
+      mockDb.update.mockReturnThis();
+      mockDb.set.mockReturnThis();
+      mockDb.where.mockImplementation(updatedPolicy);
+
+      let capturedPaymentValues: any = null;
+
+      mockDb.insert.mockImplementation(() => ({
+        values: vi.fn().mockImplementation((vals) => {
+          if (vals.payment_method) {
+            capturedPaymentValues = vals;
+          }
+          return {
+            returning: vi.fn().mockResolvedValue([
+              { payment_id: 'pay-123', payment_number: 'PAY-TAXES123', last_four_digits: '4242' },
+            ]),
+          };
+        }),
+      }));
+
+      await bindWith(quoteNumber, {
+        paymentMethod: 'credit_card' as const,
+        cardNumber: '4242424242424242',
+        cardExpiry: '12/28',
+        cardCvv: '123',
+      });
+
+      expect(capturedPaymentValues).toMatchObject({
+        amount: '1206.79',
+        premium_amount: '1140.00',
+        tax_amount: '26.79',
+        fee_amount: '40.00',
+      });
+    });
+  });
+
+  describe('Payment Plans', () => {
+    it('should charge the first installment and schedule the rest as PENDING', async () => {
+      const quoteNumber = 'DZMONTHLY1';
+      const policyId = '880e8400-e29b-41d4-a716-446655440003';
+      const mockSnapshot = {
+        driver: { email: 'john@example.com' },
+        coverages: { startDate: '2026-11-15' },
+        premium: {
+          subtotal: 1200,
+          taxes: [{ type: 'PREMIUM_TAX', name: 'CA Premium Tax (2.35%)', amount: 28.2 }],
+          fees: [{ type: 'POLICY_FEE', name: 'Policy Fee', amount: 15 }],
+          total: 1243.2,
+        },
+        preferences: { paymentPlan: 'MONTHLY' },
+      };
+
+      setupSelectMock([
+        {
+          policy_identifier: policyId,
+          policy_number: quoteNumber,
+          status_code: 'QUOTED',
+          quote_snapshot: mockSnapshot,
+        },
+      ]);
+
+      mockDb.update.mockReturnThis();
+      mockDb.set.mockReturnThis();
+      mockDb.where.mockImplementation(updatedPolicy);
+
+      const paymentInserts: any[] = [];
+
+      mockDb.insert.mockImplementation(() => ({
+        values: vi.fn().mockImplementation((vals) => {
+          if (Array.isArray(vals) || vals.payment_method) {
+            paymentInserts.push(vals);
+          }
+          return {
+            returning: vi.fn().mockResolvedValue([
+              { payment_id: 'pay-123', payment_number: 'PAY-MONTHLY1', last_four_digits: '4242' },
+            ]),
+          };
+        }),
+      }));
+
+      const result = await bindWith(quoteNumber, {
+        paymentMethod: 'credit_card' as const,
+        cardNumber: '4242424242424242',
+        cardExpiry: '12/28',
+        cardCvv: '123',
+      });
+
+      // Down payment: 1/6 of the premium plus all taxes and fees
+      expect(paymentInserts[0]).toMatchObject({
+        payment_status: 'COMPLETED',
+        amount: '243.20',
+        installment_number: 1,
+      });
+      expect(paymentInserts[0].transaction_id).toMatch(/^txn_/);
+      expect(paymentInserts[0].gateway_response).toBe('Payment successful');
+      expect(paymentInserts[0].payment_token).toMatch(/^tok_visa_4242_/);
+
+      const scheduled = paymentInserts[1];
+      expect(scheduled).toHaveLength(5);
+      expect(scheduled[0]).toMatchObject({
+        payment_status: 'PENDING',
+        amount: '205.00',
+        fee_amount: '5.00',
+        installment_number: 2,
+        due_date: '2026-12-15',
+        last_four_digits: '4242',
+      });
+      // Later installments are charged from the token stored at binding
+      expect(scheduled[0].payment_token).toBe(paymentInserts[0].payment_token);
+      expect(scheduled[4].due_date).toBe('2027-04-15');
+      expect(result.paymentPlan).toBe('MONTHLY');
+      expect(result.billingSchedule).toHaveLength(6);
+    });
+
+    it('should not schedule installments for pay-in-full', async () => {
+      const quoteNumber = 'DZPAYFULL1';
+      setupSelectMock([
+        {
+          policy_identifier: '880e8400-e29b-41d4-a716-446655440003',
+          policy_number: quoteNumber,
+          status_code: 'QUOTED',
+          quote_snapshot: { driver: { email: 'john@example.com' }, premium: { total: 1500 } },
+        },
+      ]);
+
+      mockDb.update.mockReturnThis();
+      mockDb.set.mockReturnThis();
+      mockDb.where.mockImplementation(updatedPolicy);
+
+      const values = vi.fn().mockReturnValue({
+        returning: vi.fn().mockResolvedValue([{ payment_id: 'pay-123', payment_number: 'PAY-FULL1' }]),
+      });
+      mockDb.insert.mockImplementation(() => ({ values }));
+
+      const result = await bindWith(quoteNumber, {
+        paymentMethod: 'credit_card' as const,
+        cardNumber: '4242424242424242',
+        cardExpiry: '12/28',
+        cardCvv: '123',
+      });
+
+      expect(result.billingSchedule).toHaveLength(1);
+      expect(values.mock.calls.some(([vals]) => Array.isArray(vals))).toBe(false);
+    });
   });
 
   describe('Payment Processing - ACH', () => {
@@ -509,7 +750,7 @@ describe('QuoteService - Policy Binding (T149)', () => {
 
       mockDb.update.mockReturnThis();
       mockDb.set.mockReturnThis();
-      mockDb.where.mockResolvedValue(undefined);
+      mockDb.where.mockImplementation(updatedPolicy);
 
       const paymentData = {
         paymentMethod: 'ach' as const,
@@ -518,8 +759,8 @@ describe('QuoteService - Policy Binding (T149)', () => {
         accountType: 'checking' as const,
       };
 
-      await expect(service.bindQuote(quoteNumber, paymentData)).rejects.toThrow(BadRequestException);
-      await expect(service.bindQuote(quoteNumber, paymentData)).rejects.toThrow('Invalid routing number');
+      await expect(bindWith(quoteNumber, paymentData)).rejects.toThrow(BadRequestException);
+      await expect(bindWith(quoteNumber, paymentData)).rejects.toThrow('Invalid routing number');
     });
 
     it('should validate account number (minimum 4 digits)', async () => {
@@ -541,7 +782,7 @@ describe('QuoteService - Policy Binding (T149)', () => {
 
       mockDb.update.mockReturnThis();
       mockDb.set.mockReturnThis();
-      mockDb.where.mockResolvedValue(undefined);
+      mockDb.where.mockImplementation(updatedPolicy);
 
       const paymentData = {
         paymentMethod: 'ach' as const,
@@ -550,8 +791,8 @@ describe('QuoteService - Policy Binding (T149)', () => {
         accountType: 'checking' as const,
       };
 
-      await expect(service.bindQuote(quoteNumber, paymentData)).rejects.toThrow(BadRequestException);
-      await expect(service.bindQuote(quoteNumber, paymentData)).rejects.toThrow('Invalid account number');
+      await expect(bindWith(quoteNumber, paymentData)).rejects.toThrow(BadRequestException);
+      await expect(bindWith(quoteNumber, paymentData)).rejects.toThrow('Invalid account number');
     });
 
     it('should store ACH payment with account type', async () => {
@@ -573,7 +814,7 @@ describe('QuoteService - Policy Binding (T149)', () => {
 
       mockDb.update.mockReturnThis();
       mockDb.set.mockReturnThis();
-      mockDb.where.mockResolvedValue(undefined);
+      mockDb.where.mockImplementation(updatedPolicy);
 
       let capturedPaymentValues: any = null;
 
@@ -601,13 +842,67 @@ describe('QuoteService - Policy Binding (T149)', () => {
         accountType: 'savings' as const,
       };
 
-      await service.bindQuote(quoteNumber, paymentData);
+      await bindWith(quoteNumber, paymentData);
 
       expect(capturedPaymentValues).not.toBeNull();
       expect(capturedPaymentValues.payment_method).toBe('ach');
       expect(capturedPaymentValues.account_type).toBe('savings');
       expect(capturedPaymentValues.last_four_digits).toBe('4321');
     });
+
+    it('should record the ACH debit as PROCESSING until it settles', async () => {
+      const quoteNumber = 'DZACHPEND1';
+      const policyId = '880e8400-e29b-41d4-a716-446655440003';
+
+      setupSelectMock([
+        {
+          policy_identifier: policyId,
+          policy_number: quoteNumber,
+          status_code: 'QUOTED',
+          quote_snapshot: { driver: { email: 'john@example.com' }, premium: { total: 1500 } },
+        },
+      ]);
+
+      mockDb.update.mockReturnThis();
+      mockDb.set.mockReturnThis();
+      mockDb.where.mockImplementation(updatedPolicy);
+
+      let capturedPaymentValues: any = null;
+
+      mockDb.insert.mockImplementation(() => ({
+        values: vi.fn().mockImplementation((vals) => {
+          if (vals.payment_method) {
+            capturedPaymentValues = vals;
+          }
+          return {
+            returning: vi.fn().mockResolvedValue([{ payment_id: 'pay-ach-456', payment_number: 'PAY-ACHPEND1' }]),
+          };
+        }),
+      }));
+
+      const result = await bindWith(quoteNumber, {
+        paymentMethod: 'ach',
+        routingNumber: '110000000',
+        accountNumber: '000123456789',
+      });
+
+      expect(capturedPaymentValues).toMatchObject({
+        payment_status: 'PROCESSING',
+        gateway_response: 'ACH debit submitted',
+        processed_at: undefined,
+      });
+      expect(capturedPaymentValues.transaction_id).toMatch(/^ach_6789_/);
+      expect(result.status).toBe('IN_FORCE'); // Bound, then activated: coverage starts today
+      expect(result.payment.paymentStatus).toBe('PROCESSING');
+    });
+
+    it('should reject a routing number that fails the ABA checksum', async () => {
+      await expect(bindWith('DZACHBAD3', {
+        paymentMethod: 'ach',
+        routingNumber: '021000022',
+        accountNumber: '123456789',
+      })).rejects.toThrow('Invalid routing number (failed ABA checksum)');
+    });
   });
 
   describe('Status Transitions', () => {
@@ -639,7 +934,7 @@ describe('QuoteService - Policy Binding (T149)', () => {
         updateCallCount++;
         return mockDb;
       });
-      mockDb.where.mockResolvedValue(undefined);
+      mockDb.where.mockImplementation(updatedPolicy);
 
       mockDb.insert.mockImplementation(() => ({
         values: vi.fn().mockReturnThis(),
@@ -658,7 +953,7 @@ describe('QuoteService - Policy Binding (T149)', () => {
         cardCvv: '123',
       };
 
-      await service.bindQuote(quoteNumber, paymentData);
+      await bindWith(quoteNumber, paymentData);
 
       // Should have two status updates: BINDING, then BOUND
       expect(capturedStatuses).toContain('BINDING');
@@ -691,7 +986,7 @@ describe('QuoteService - Policy Binding (T149)', () => {
         }
         return mockDb;
       });
-      mockDb.where.mockResolvedValue(undefined);
+      mockDb.where.mockImplementation(updatedPolicy);
 
       const paymentData = {
         paymentMethod: 'credit_card' as const,
@@ -700,13 +995,85 @@ describe('QuoteService - Policy Binding (T149)', () => {
         cardCvv: '123',
       };
 
-      await expect(service.bindQuote(quoteNumber, paymentData)).rejects.toThrow(BadRequestException);
+      await expect(bindWith(quoteNumber, paymentData)).rejects.toThrow(BadRequestException);
 
       // Should have set BINDING, then reverted to QUOTED
       expect(capturedStatuses).toContain('BINDING');
       expect(capturedStatuses).toContain('QUOTED');
     });
 
+    describe('when binding fails after the charge', () => {
+      const quoteNumber = 'DZROLLBK12';
+      let capturedStatuses: string[];
+
+      beforeEach(() => {
+        setupSelectMock([
+          {
+            policy_identifier: '880e8400-e29b-41d4-a716-446655440003',
+            policy_number: quoteNumber,
+            status_code: 'QUOTED',
+            quote_snapshot: { driver: { email: 'john@example.com' }, premium: { total: 1500 } },
+          },
+        ]);
+
+        capturedStatuses = [];
+        mockDb.update.mockReturnThis();
+        mockDb.set.mockImplementation((vals) => {
+          capturedStatuses.push(vals.status_code);
+          return mockDb;
+        });
+        mockDb.where.mockImplementation(updatedPolicy);
+
+        // Generating the documents fails
+        mockDb.insert.mockImplementation(() => {
+          let row: any;
+          return {
+            values: vi.fn(function (this: any, values) {
+              row = values;
+              return this;
+            }),
+            returning: vi.fn(async () => {
+              if (row.document_type) {
+                throw new Error('Document storage unavailable');
+              }
+              return [{ payment_id: 'pay-123', payment_number: 'PAY-ROLLBK12', event_id: 'event-1' }];
+            }),
+          };
+        });
+      });
+
+      const card = {
+        paymentMethod: 'credit_card' as const,
+        cardNumber: '4242424242424242',
+        cardExpiry: '12/28',
+        cardCvv: '123',
+      };
+
+      it('should write the binding in one transaction, refund the charge and revert to QUOTED', async () => {
+        const refund = vi.spyOn(gateway, 'refund');
+
+        await expect(bindWith(quoteNumber, card)).rejects.toThrow('Document storage unavailable');
+
+        expect(mockDb.transaction).toHaveBeenCalledTimes(1);
+        expect(refund).toHaveBeenCalledWith(expect.stringMatching(/^txn_/), expect.any(Number));
+        expect(capturedStatuses.at(-1)).toBe('QUOTED');
+      });
+
+      it('should leave the quote BINDING for review when the refund fails too', async () => {
+        vi.spyOn(gateway, 'refund').mockResolvedValue({ success: false, message: 'Gateway unavailable' });
+        const logError = vi.spyOn(Logger.prototype, 'error').mockImplementation(() => undefined);
+
+        await expect(bindWith(quoteNumber, card)).rejects.toThrow('Document storage unavailable');
+
+        expect(capturedStatuses).not.toContain('QUOTED');
+        expect(logError).toHaveBeenCalledWith(
+          expect.stringContaining('the refund failed; left BINDING for review'),
+          expect.objectContaining({ reason: 'Gateway unavailable' })
+        );
+        logError.mockRestore();
+      });
+    });
+
     it('should reject binding if quote status is not QUOTED', async () => {
       const quoteNumber = 'DZBOUND123';
       const policyId = '880e8400-e29b-41d4-a716-446655440003';
@@ -727,8 +1094,8 @@ describe('QuoteService - Policy Binding (T149)', () => {
         cardCvv: '123',
       };
 
-      await expect(service.bindQuote(quoteNumber, paymentData)).rejects.toThrow(BadRequestException);
-      await expect(service.bindQuote(quoteNumber, paymentData)).rejects.toThrow('Only QUOTED policies can be bound');
+      await expect(bindWith(quoteNumber, paymentData)).rejects.toThrow(InvalidStatusTransitionError);
+      await expect(bindWith(quoteNumber, paymentData)).rejects.toThrow('Cannot transition Policy from BOUND to BINDING');
     });
   });
 
@@ -743,8 +1110,8 @@ describe('QuoteService - Policy Binding (T149)', () => {
         cardCvv: '123',
       };
 
-      await expect(service.bindQuote('DZNOTFOUND', paymentData)).rejects.toThrow(NotFoundException);
-      await expect(service.bindQuote('DZNOTFOUND', paymentData)).rejects.toThrow('Quote DZNOTFOUND not found');
+      await expect(bindWith('DZNOTFOUND', paymentData)).rejects.toThrow(NotFoundException);
+      await expect(bindWith('DZNOTFOUND', paymentData)).rejects.toThrow('Quote DZNOTFOUND not found');
     });
 
     it('should handle unsupported payment method', async () => {
@@ -762,15 +1129,45 @@ describe('QuoteService - Policy Binding (T149)', () => {
 
       mockDb.update.mockReturnThis();
       mockDb.set.mockReturnThis();
-      mockDb.where.mockResolvedValue(undefined);
+      mockDb.where.mockImplementation(updatedPolicy);
 
       const paymentData = {
         paymentMethod: 'bitcoin' as any, // Unsupported
+        paymentToken: 'tok_visa_4242_test',
       };
 
       await expect(service.bindQuote(quoteNumber, paymentData)).rejects.toThrow(BadRequestException);
       await expect(service.bindQuote(quoteNumber, paymentData)).rejects.toThrow('Unsupported payment method');
     });
+
+    it('should reject binding when liability limits are below the state minimum', async () => {
+      const quoteNumber = 'DZLOWLIMIT';
+      const policyId = '880e8400-e29b-41d4-a716-446655440003';
+
+      setupSelectMock([
+        {
+          policy_identifier: policyId,
+          policy_number: quoteNumber,
+          status_code: 'QUOTED',
+          quote_snapshot: {
+            address: { state: 'TX', zipCode: '75201' },
+            coverages: { bodilyInjuryLimit: '25/50', propertyDamageLimit: '25000' },
+            premium: { total: 1500 },
+          },
+        },
+      ]);
+
+      const paymentData = {
+        paymentMethod: 'credit_card' as const,
+        cardNumber: '4242424242424242',
+        cardExpiry: '12/28',
+        cardCvv: '123',
+      };
+
+      await expect(bindWith(quoteNumber, paymentData)).rejects.toThrow(BusinessRuleError);
+      await expect(bindWith(quoteNumber, paymentData)).rejects.toThrow('Texas (TX) minimum of 30/60');
+      expect(mockDb.update).not.toHaveBeenCalled();
+    });
   });
 
   describe('Policy Number Assignment', () => {
@@ -789,7 +1186,7 @@ describe('QuoteService - Policy Binding (T149)', () => {
 
       mockDb.update.mockReturnThis();
       mockDb.set.mockReturnThis();
-      mockDb.where.mockResolvedValue(undefined);
+      mockDb.where.mockImplementation(updatedPolicy);
 
       mockDb.insert.mockImplementation(() => ({
         values: vi.fn().mockReturnThis(),
@@ -808,7 +1205,7 @@ describe('QuoteService - Policy Binding (T149)', () => {
         cardCvv: '123',
       };
 
-      const result = await service.bindQuote(quoteNumber, paymentData);
+      const result = await bindWith(quoteNumber, paymentData);
 
       expect(result.policyNumber).toBe(quoteNumber);
       expect(result.policyId).toBe(policyId);
@@ -831,7 +1228,7 @@ describe('QuoteService - Policy Binding (T149)', () => {
 
       mockDb.update.mockReturnThis();
       mockDb.set.mockReturnThis();
-      mockDb.where.mockResolvedValue(undefined);
+      mockDb.where.mockImplementation(updatedPolicy);
 
       let documentCount = 0;
 
@@ -856,7 +1253,7 @@ describe('QuoteService - Policy Binding (T149)', () => {
         cardCvv: '123',
       };
 
-      const result = await service.bindQuote(quoteNumber, paymentData);
+      const result = await bindWith(quoteNumber, paymentData);
 
       expect(result.documents).toBeDefined();
       expect(Array.isArray(result.documents)).toBe(true);
@@ -864,4 +1261,142 @@ describe('QuoteService - Policy Binding (T149)', () => {
       expect(result.documents.length).toBeGreaterThanOrEqual(2);
     });
   });
+
+  describe('Card Number Handling', () => {
+    const setupBindableQuote = (quoteNumber: string, quoteSnapshot: any = { premium: { total: 1500 } }) => {
+      setupSelectMock([
+        {
+          policy_identifier: '880e8400-e29b-41d4-a716-446655440003',
+          policy_number: quoteNumber,
+          status_code: 'QUOTED',
+          quote_snapshot: quoteSnapshot,
+        },
+      ]);
+
+      mockDb.update.mockReturnThis();
+      mockDb.where.mockImplementation(updatedPolicy);
+      mockDb.insert.mockImplementation(() => ({
+        values: vi.fn().mockReturnThis(),
+        returning: vi.fn().mockResolvedValue([{ payment_id: 'pay-123', payment_number: 'PAY-PAN12345' }]),
+      }));
+    };
+
+    it('should never log a card number during bind', async () => {
+      const logged: unknown[][] = [];
+      const levels = ['log', 'error', 'warn', 'debug', 'verbose'] as const;
+      levels.forEach(level =>
+        vi.spyOn(Logger.prototype, level).mockImplementation((...args: unknown[]) => {
+          logged.push(args);
+        })
+      );
+      mockDb.set.mockReturnThis();
+
+      try {
+        const card = { paymentMethod: 'credit_card' as const, cardExpiry: '12/28', cardCvv: '123' };
+
+        setupBindableQuote('DZPANLOG01');
+        await bindWith('DZPANLOG01', { ...card, cardNumber: '4242 4242 4242 4242' });
+
+        setupBindableQuote('DZPANLOG02');
+        await expect(bindWith('DZPANLOG02', { ...card, cardNumber: '4000000000000002' })).rejects.toThrow('insufficient funds');
+
+        await expect(tokenize({ ...card, cardNumber: '4242424242424243' })).rejects.toThrow('Invalid card number');
+      } finally {
+        vi.restoreAllMocks();
+      }
+
+      expect(logged.length).toBeGreaterThan(0);
+      const cardNumbers = logged
+        .flatMap(args => JSON.stringify(args).match(/(?:\d[ -]?){12,18}\d/g) || [])
+        .filter(candidate => isValidCreditCard(candidate));
+      expect(cardNumbers).toEqual([]);
+    });
+
+    it('should reject a payment token the gateway did not issue', async () => {
+      setupBindableQuote('DZFORGED01');
+      mockDb.set.mockReturnThis();
+
+      await expect(service.bindQuote('DZFORGED01', {
+        paymentMethod: 'credit_card',
+        paymentToken: '4242424242424242',
+      })).rejects.toThrow('Invalid payment token');
+    });
+
+    it('should mask card numbers typed into the quote before freezing the snapshot', async () => {
+      setupBindableQuote('DZSNAPPAN1', {
+        driver: { email: 'john@example.com', notes: 'pay with 4242 4242 4242 4242' },
+        premium: { total: 1500 },
+      });
+
+      const updates: any[] = [];
+      mockDb.set.mockImplementation((vals: any) => {
+        updates.push(vals);
+        return mockDb;
+      });
+
+      await bindWith('DZSNAPPAN1', { paymentMethod: 'credit_card', cardNumber: '4242424242424242' });
+
+      const bound = updates.find(vals => vals.status_code === 'BOUND');
+      expect(bound.quote_snapshot.driver).toEqual({ email: 'john@example.com', notes: 'pay with ****4242' });
+    });
+  });
+
+  describe('Same-Day Activation', () => {
+    const bindQuoteStarting = async (quoteNumber: string, startDate?: string) => {
+      setupSelectMock([
+        {
+          policy_identifier: '880e8400-e29b-41d4-a716-446655440003',
+          policy_number: quoteNumber,
+          status_code: 'QUOTED',
+          quote_snapshot: {
+            premium: { total: 1500 },
+            coverages: { startDate, bodilyInjuryLimit: '100/300', propertyDamageLimit: '50000' },
+            address: { state: 'CA' },
+          },
+        },
+      ]);
+      mockDb.update.mockReturnThis();
+      mockDb.set.mockReturnThis();
+      mockDb.where.mockImplementation(updatedPolicy);
+      mockDb.insert.mockImplementation(() => ({
+        values: vi.fn().mockReturnThis(),
+        returning: vi.fn().mockResolvedValue([{ payment_id: 'pay-123', payment_number: 'PAY-SAMEDAY1' }]),
+      }));
+
+      return bindWith(quoteNumber, { paymentMethod: 'credit_card', cardNumber: '4242424242424242' });
+    };
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should activate a policy whose coverage starts on the binding date in its time zone', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2026-10-19T06:30:00Z')); // Still October 18 in California
+
+      const result = await bindQuoteStarting('DZSAMEDAY1', '2026-10-18');
+
+      expect(activatePolicy).toHaveBeenCalledWith('880e8400-e29b-41d4-a716-446655440003', 'BIND');
+      expect(result.status).toBe('IN_FORCE');
+    });
+
+    it('should leave a policy starting later BOUND for the activate-policies job', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2026-10-18T12:00:00Z'));
+
+      const result = await bindQuoteStarting('DZLATER001', '2026-10-19');
+
+      expect(activatePolicy).not.toHaveBeenCalled();
+      expect(result.status).toBe('BOUND');
+    });
+
+    it('should still bind when the same-day activation fails', async () => {
+      activatePolicy.mockRejectedValue(new Error('ID card generation failed'));
+
+      const result = await bindQuoteStarting('DZACTFAIL1');
+
+      expect(activatePolicy).toHaveBeenCalled();
+      expect(result.status).toBe('BOUND');
+    });
+  });
 });
@@ -0,0 +1,389 @@
+/**
+ * Unit Tests for PolicyCancellationService
+ *
+ * Tests pro-rata and short-rate return premium, immediate cancellation with a
+ * refund, scheduled cancellations completed by the process-cancellations job,
+ * cancellations held back by ACH debits still clearing, and the notice period
+ * and status rules.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Logger } from '@nestjs/common';
+import { DATABASE_CONNECTION } from '../../../src/database/database.module';
+import {
+  PolicyCancellationService,
+  calculateReturnPremium,
+} from '../../../src/services/policy/policy-cancellation.service';
+import { QuoteService } from '../../../src/services/quote/quote.service';
+import { PolicyAction, nextStatus } from '../../../src/services/policy/policy-status';
+import { RefundService } from '../../../src/services/billing/refund.service';
+import { BusinessRuleError, InvalidStatusTransitionError } from '../../../src/api/middleware/error-handler';
+import { policy } from '../../../../database/schema/policy.schema';
+import { payment } from '../../../../database/schema/payment.schema';
+import { document } from '../../../../database/schema/document.schema';
+
+describe('calculateReturnPremium', () => {
+  it('should return the unearned premium pro rata by day', () => {
+    // 59 of 181 days in force
+    expect(calculateReturnPremium(600, '2026-01-01', '2026-07-01', '2026-03-01', 'PRO_RATA')).toEqual({
+      method: 'PRO_RATA',
+      termDays: 181,
+      daysInForce: 59,
+      termPremium: 600,
+      earnedPremium: 195.58,
+      returnPremium: 404.42,
+    });
+  });
+
+  it('should keep the short-rate penalty from the pro-rata return', () => {
+    expect(calculateReturnPremium(600, '2026-01-01', '2026-07-01', '2026-03-01', 'SHORT_RATE')).toMatchObject({
+      earnedPremium: 236.02,
+      returnPremium: 363.98,
+    });
+  });
+
+  it('should return the whole premium for a flat cancellation', () => {
+    expect(calculateReturnPremium(600, '2026-01-01', '2026-07-01', '2025-12-20', 'SHORT_RATE')).toMatchObject({
+      daysInForce: 0,
+      earnedPremium: 0,
+      returnPremium: 600,
+    });
+  });
+});
+
+describe('PolicyCancellationService', () => {
+  let service: PolicyCancellationService;
+  let mockDb: any;
+  let quoteService: { transitionStatus: ReturnType<typeof vi.fn> };
+  let refundService: { refundPolicy: ReturnType<typeof vi.fn> };
+  let selectResults: any[][];
+  let updates: Array<{ table: unknown; values: any }>;
+  let inserts: Array<{ table: unknown; values: any }>;
+
+  const asOf = new Date('2026-10-18T12:00:00');
+
+  const policyRecord = (overrides: any = {}) => ({
+    policy_identifier: 'policy-1',
+    policy_number: 'DZCANCEL01',
+    status_code: 'IN_FORCE',
+    effective_date: '2026-10-01',
+    expiration_date: '2027-04-01', // 182-day term
+    cancellation_date: null,
+    cancellation_reason: null,
+    cancellation_return_premium_method: null,
+    quote_snapshot: { premium: { subtotal: 600, total: 643.2 } },
+    ...overrides,
+  });
+
+  const paidCharge = (premium: string, overrides: any = {}) => ({
+    payment_type: 'CHARGE',
+    payment_status: 'COMPLETED',
+    amount: (parseFloat(premium) * 1.072).toFixed(2),
+    premium_amount: premium,
+    ...overrides,
+  });
+
+  const processingDebit = {
+    payment_type: 'CHARGE',
+    payment_status: 'PROCESSING',
+    payment_method: 'ach',
+    amount: '107.20',
+    transaction_id: 'ach_6789_a1',
+  };
+
+  const updatesTo = (table: unknown) => updates.filter(update => update.table === table).map(update => update.values);
+
+  beforeEach(async () => {
+    selectResults = [];
+    updates = [];
+    inserts = [];
+
+    // Each select() returns the next queued result, however the query ends
+    const rowsQuery = (rows: any[]) => Object.assign(Promise.resolve(rows), {
+      limit: vi.fn().mockResolvedValue(rows),
+    });
+
+    mockDb = {
+      select: vi.fn(() => {
+        const rows = selectResults.shift() || [];
+        return { from: () => ({ where: () => rowsQuery(rows) }) };
+      }),
+      insert: vi.fn((table: unknown) => ({
+        values: (values: any) => {
+          inserts.push({ table, values });
+          return { returning: vi.fn().mockResolvedValue([{ ...values, document_id: 'notice-1' }]) };
+        },
+      })),
+      update: vi.fn((table: unknown) => ({
+        set: (values: any) => {
+          updates.push({ table, values });
+          return { where: () => Object.assign(Promise.resolve(undefined), { returning: vi.fn().mockResolvedValue([]) }) };
+        },
+      })),
+      transaction: vi.fn(async (work: (tx: any) => Promise<unknown>) => work(mockDb)),
+    };
+
+    quoteService = { transitionStatus: vi.fn(async (record: any, action: PolicyAction) => nextStatus(record.status_code, action)) };
+    refundService = { refundPolicy: vi.fn().mockResolvedValue([{ refundNumber: 'REF-00000001', amount: 489.56 }]) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PolicyCancellationService,
+        { provide: DATABASE_CONNECTION, useValue: mockDb },
+        { provide: QuoteService, useValue: quoteService },
+        { provide: RefundService, useValue: refundService },
+      ],
+    }).compile();
+
+    service = module.get<PolicyCancellationService>(PolicyCancellationService);
+  });
+
+  describe('cancelPolicy', () => {
+    it('should cancel an insured request today with a short-rate refund and a notice', async () => {
+      selectResults.push([policyRecord()], [paidCharge('600.00')]);
+
+      const result = await service.cancelPolicy('policy-1', { reason: 'INSURED_REQUEST' }, asOf);
+
+      // 17 of 182 days in force, less the 10% short-rate penalty
+      expect(result.returnPremium).toEqual({
+        method: 'SHORT_RATE',
+        termDays: 182,
+        daysInForce: 17,
+        termPremium: 600,
+        earnedPremium: 110.44,
+        returnPremium: 489.56,
+        premiumPaid: 600,
+        refundDue: 489.56,
+        balanceDue: 0,
+      });
+      expect(refundService.refundPolicy).toHaveBeenCalledWith(
+        'policy-1',
+        489.56,
+        'Return premium - policy cancelled 2026-10-18'
+      );
+      expect(updatesTo(payment)).toEqual([expect.objectContaining({ payment_status: 'CANCELLED' })]);
+      expect(updatesTo(policy)).toEqual([]);
+      expect(quoteService.transitionStatus).toHaveBeenCalledWith(
+        expect.objectContaining({ policy_identifier: 'policy-1', status_code: 'IN_FORCE' }),
+        'CANCEL',
+        'Cancelled at the insured\'s request effective 2026-10-18; return premium $489.56 (SHORT_RATE)',
+        {
+          cancellation_date: '2026-10-18',
+          cancellation_reason: 'INSURED_REQUEST',
+          cancellation_return_premium_method: 'SHORT_RATE',
+        },
+        mockDb
+      );
+      expect(refundService.refundPolicy.mock.invocationCallOrder[0])
+        .toBeLessThan(quoteService.transitionStatus.mock.invocationCallOrder[0]);
+      expect(inserts[0]).toMatchObject({
+        table: document,
+        values: {
+          document_type: 'CANCELLATION_NOTICE',
+          document_name: 'Cancellation_Notice_DZCANCEL01.pdf',
+          version: 1,
+          is_current: true,
+        },
+      });
+      expect(result).toMatchObject({ status: 'CANCELLED', cancellationDate: '2026-10-18', noticeDocumentId: 'notice-1' });
+    });
+
+    it('should use pro-rata when requested and subtract refunds already issued', async () => {
+      selectResults.push([policyRecord()], [
+        paidCharge('600.00', { payment_status: 'PARTIALLY_REFUNDED' }),
+        { payment_type: 'REFUND', payment_status: 'COMPLETED', amount: '50.00' },
+      ]);
+
+      const result = await service.cancelPolicy(
+        'policy-1',
+        { reason: 'INSURED_REQUEST', returnPremiumMethod: 'PRO_RATA' },
+        asOf
+      );
+
+      // Pro rata earns 56.04; 550 paid after the earlier refund
+      expect(result.returnPremium).toMatchObject({ earnedPremium: 56.04, premiumPaid: 550, refundDue: 493.96 });
+      expect(refundService.refundPolicy).toHaveBeenCalledWith('policy-1', 493.96, expect.any(String));
+    });
+
+    it('should schedule a non-payment cancellation after the notice period', async () => {
+      selectResults.push([policyRecord({ status_code: 'PENDING_CANCELLATION' })], [paidCharge('100.00')]);
+
+      const result = await service.cancelPolicy('policy-1', { reason: 'NON_PAYMENT' }, asOf);
+
+      expect(result).toMatchObject({
+        status: 'PENDING_CANCELLATION',
+        cancellationDate: '2026-10-28',
+        refunds: [],
+        returnPremium: { method: 'PRO_RATA' },
+      });
+      expect(refundService.refundPolicy).not.toHaveBeenCalled();
+      expect(quoteService.transitionStatus).toHaveBeenCalledWith(
+        expect.objectContaining({ policy_identifier: 'policy-1', status_code: 'PENDING_CANCELLATION' }),
+        'SCHEDULE_CANCELLATION',
+        'Cancelled for non-payment of premium effective 2026-10-28',
+        expect.objectContaining({ cancellation_date: '2026-10-28', cancellation_reason: 'NON_PAYMENT' }),
+        mockDb
+      );
+    });
+
+    it('should hold an immediate cancellation back while an ACH debit clears', async () => {
+      selectResults.push([policyRecord()], [paidCharge('100.00'), processingDebit], [processingDebit]);
+
+      const result = await service.cancelPolicy('policy-1', { reason: 'INSURED_REQUEST' }, asOf);
+
+      expect(result).toMatchObject({ status: 'PENDING_CANCELLATION', cancellationDate: '2026-10-18', refunds: [] });
+      expect(refundService.refundPolicy).not.toHaveBeenCalled();
+      expect(updatesTo(payment)).toEqual([]);
+      expect(quoteService.transitionStatus).toHaveBeenCalledWith(
+        expect.objectContaining({ status_code: 'IN_FORCE' }),
+        'SCHEDULE_CANCELLATION',
+        'Cancelled at the insured\'s request effective 2026-10-18',
+        expect.objectContaining({ cancellation_date: '2026-10-18' }),
+        mockDb
+      );
+    });
+
+    it('should reject a date inside the underwriting notice period', async () => {
+      selectResults.push([policyRecord()]);
+
+      const cancellation = service.cancelPolicy(
+        'policy-1',
+        { reason: 'UNDERWRITING', cancellationDate: '2026-11-01' },
+        asOf
+      );
+
+      await expect(cancellation).rejects.toThrow(BusinessRuleError);
+      await expect(cancellation).rejects.toMatchObject({
+        ruleCode: 'CANCELLATION_NOTICE_PERIOD',
+        message: 'Cancellation for UNDERWRITING requires 30 days notice (earliest 2026-11-17)',
+      });
+      expect(updates).toHaveLength(0);
+    });
+
+    it('should reject a date on or after the expiration date', async () => {
+      selectResults.push([policyRecord()]);
+
+      await expect(
+        service.cancelPolicy('policy-1', { reason: 'INSURED_REQUEST', cancellationDate: '2027-04-01' }, asOf)
+      ).rejects.toMatchObject({ ruleCode: 'CANCELLATION_AFTER_EXPIRATION' });
+    });
+
+    it('should reject cancelling a policy that is already cancelled', async () => {
+      selectResults.push([policyRecord({ status_code: 'CANCELLED' })]);
+
+      await expect(
+        service.cancelPolicy('policy-1', { reason: 'INSURED_REQUEST' }, asOf)
+      ).rejects.toThrow(InvalidStatusTransitionError);
+    });
+  });
+
+  describe('processScheduledCancellations', () => {
+    it('should cancel due policies and report a balance when less was paid than earned', async () => {
+      selectResults.push(
+        [policyRecord({
+          status_code: 'PENDING_CANCELLATION',
+          cancellation_date: '2026-11-01',
+          cancellation_reason: 'NON_PAYMENT',
+          cancellation_return_premium_method: 'PRO_RATA',
+        })],
+        [],
+        [paidCharge('100.00'), paidCharge('100.00', { payment_status: 'FAILED' })]
+      );
+
+      const result = await service.processScheduledCancellations(new Date('2026-11-01T12:00:00'));
+
+      expect(result).toEqual({ asOf: '2026-11-01', cancelled: ['DZCANCEL01'], awaitingSettlement: [], failed: [] });
+      expect(refundService.refundPolicy).not.toHaveBeenCalled();
+      expect(updatesTo(policy)).toEqual([]);
+      expect(quoteService.transitionStatus).toHaveBeenCalledWith(
+        expect.objectContaining({ policy_identifier: 'policy-1', status_code: 'PENDING_CANCELLATION' }),
+        'CANCEL',
+        'Cancelled for non-payment of premium effective 2026-11-01; return premium $497.80 (PRO_RATA)',
+        expect.objectContaining({ cancellation_date: '2026-11-01' }),
+        mockDb
+      );
+    });
+
+    it('should leave a policy pending when its refund fails', async () => {
+      selectResults.push(
+        [policyRecord({
+          status_code: 'PENDING_CANCELLATION',
+          cancellation_date: '2026-11-01',
+          cancellation_reason: 'INSURED_REQUEST',
+          cancellation_return_premium_method: 'SHORT_RATE',
+        })],
+        [],
+        [paidCharge('600.00')]
+      );
+      refundService.refundPolicy.mockRejectedValue(new BusinessRuleError('Refund failed: declined', 'REFUND_FAILED'));
+
+      const result = await service.processScheduledCancellations(new Date('2026-11-01T12:00:00'));
+
+      expect(result).toMatchObject({ cancelled: [], failed: ['DZCANCEL01'] });
+      expect(updates).toHaveLength(0);
+    });
+
+    it('should leave a policy pending while its ACH debit clears', async () => {
+      selectResults.push(
+        [policyRecord({
+          status_code: 'PENDING_CANCELLATION',
+          cancellation_date: '2026-11-01',
+          cancellation_reason: 'INSURED_REQUEST',
+          cancellation_return_premium_method: 'SHORT_RATE',
+        })],
+        [processingDebit]
+      );
+
+      const result = await service.processScheduledCancellations(new Date('2026-11-01T12:00:00'));
+
+      expect(result).toMatchObject({ cancelled: [], awaitingSettlement: ['DZCANCEL01'], failed: [] });
+      expect(refundService.refundPolicy).not.toHaveBeenCalled();
+      expect(quoteService.transitionStatus).not.toHaveBeenCalled();
+    });
+
+    it('should not cancel a policy whose ACH debit the collection job captured meanwhile', async () => {
+      selectResults.push(
+        [policyRecord({
+          status_code: 'PENDING_CANCELLATION',
+          cancellation_date: '2026-11-01',
+          cancellation_reason: 'NON_PAYMENT',
+          cancellation_return_premium_method: 'PRO_RATA',
+        })],
+        [],
+        [paidCharge('100.00')],
+        [processingDebit]
+      );
+
+      const result = await service.processScheduledCancellations(new Date('2026-11-01T12:00:00'));
+
+      expect(result).toMatchObject({ cancelled: [], failed: ['DZCANCEL01'] });
+      expect(quoteService.transitionStatus).not.toHaveBeenCalled();
+    });
+
+    it('should cancel despite a card charge left processing for review, and report it', async () => {
+      const stuckCharge = { ...processingDebit, payment_number: 'PAY-STUCK001', payment_method: 'credit_card' };
+      selectResults.push(
+        [policyRecord({
+          status_code: 'PENDING_CANCELLATION',
+          cancellation_date: '2026-11-01',
+          cancellation_reason: 'INSURED_REQUEST',
+          cancellation_return_premium_method: 'SHORT_RATE',
+        })],
+        [stuckCharge],
+        [paidCharge('100.00')],
+        [stuckCharge]
+      );
+      const logWarn = vi.spyOn(Logger.prototype, 'warn').mockImplementation(() => undefined);
+
+      const result = await service.processScheduledCancellations(new Date('2026-11-01T12:00:00'));
+
+      expect(result).toMatchObject({ cancelled: ['DZCANCEL01'], awaitingSettlement: [], failed: [] });
+      expect(logWarn).toHaveBeenCalledWith(
+        'Policy policy-1 has charges left PROCESSING for review; not holding its cancellation for them',
+        { payments: ['PAY-STUCK001'] }
+      );
+      logWarn.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,417 @@
+/**
+ * Unit Tests for PolicyReinstatementService
+ *
+ * Tests reinstating policies that left active status for non-payment:
+ * collecting the past-due installments, reinstatement with and without a
+ * lapse in coverage (and the lapse recorded for underwriting), the
+ * reinstatement window, the eligibility rules, and claiming the
+ * reinstatement before charging.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Test, TestingModule } from '@nestjs/testing';
+import { DATABASE_CONNECTION } from '../../../src/database/database.module';
+import {
+  PolicyReinstatementService,
+  getReinstatementWindow,
+} from '../../../src/services/policy/policy-reinstatement.service';
+import { QuoteService } from '../../../src/services/quote/quote.service';
+import { PolicyAction, nextStatus } from '../../../src/services/policy/policy-status';
+import { PAYMENT_GATEWAY } from '../../../src/services/payment-gateway/payment-gateway';
+import { BusinessRuleError, InvalidStatusTransitionError } from '../../../src/api/middleware/error-handler';
+import { payment } from '../../../../database/schema/payment.schema';
+import { event } from '../../../../database/schema/event.schema';
+import { policyEvent } from '../../../../database/schema/policy-event.schema';
+import { policyReinstatement } from '../../../../database/schema/policy-reinstatement.schema';
+
+describe('getReinstatementWindow', () => {
+  afterEach(() => {
+    delete process.env.REINSTATEMENT_WINDOW_DAYS;
+    delete process.env.REINSTATEMENT_NO_LAPSE_DAYS;
+  });
+
+  it('should default to 30 days, 10 of them without a lapse', () => {
+    expect(getReinstatementWindow()).toEqual({ windowDays: 30, noLapseDays: 10 });
+  });
+
+  it('should read the window from the environment', () => {
+    process.env.REINSTATEMENT_WINDOW_DAYS = '5';
+    process.env.REINSTATEMENT_NO_LAPSE_DAYS = '7';
+
+    // Never longer than the window itself
+    expect(getReinstatementWindow()).toEqual({ windowDays: 5, noLapseDays: 5 });
+  });
+
+  it('should reject a window that is not a whole number of days', () => {
+    process.env.REINSTATEMENT_WINDOW_DAYS = '2 weeks';
+
+    expect(() => getReinstatementWindow()).toThrow('REINSTATEMENT_WINDOW_DAYS must be a whole number of days (got "2 weeks")');
+  });
+});
+
+describe('PolicyReinstatementService', () => {
+  let service: PolicyReinstatementService;
+  let mockDb: any;
+  let quoteService: { transitionStatus: ReturnType<typeof vi.fn> };
+  let gateway: {
+    authorize: ReturnType<typeof vi.fn>;
+    capture: ReturnType<typeof vi.fn>;
+    void: ReturnType<typeof vi.fn>;
+    refund: ReturnType<typeof vi.fn>;
+  };
+  let selectResults: any[][];
+  let updates: Array<{ table: unknown; values: any }>;
+  let inserts: Array<{ table: unknown; values: any }>;
+  let deletes: unknown[];
+  let claimConflict: boolean;
+
+  // Noon in New York on October 18
+  const asOf = new Date('2026-10-18T16:00:00Z');
+
+  const policyRecord = (overrides: any = {}) => ({
+    policy_identifier: 'policy-1',
+    policy_number: 'DZREINST01',
+    status_code: 'CANCELLED',
+    effective_date: '2026-08-01',
+    expiration_date: '2027-02-01', // 184-day term
+    cancellation_date: '2026-10-15',
+    cancellation_reason: 'NON_PAYMENT',
+    cancellation_return_premium_method: 'PRO_RATA',
+    quote_snapshot: { address: { state: 'NY' }, premium: { subtotal: 600, total: 643.2 } },
+    updated_at: new Date('2026-10-15T05:00:00Z'),
+    ...overrides,
+  });
+
+  // Monthly installment: $100 premium, $6 tax, $1.20 fees
+  const installment = (installmentNumber: number, dueDate: string, status: string, overrides: any = {}) => ({
+    payment_id: `payment-${installmentNumber}`,
+    payment_number: `PAY-INST000${installmentNumber}`,
+    payment_type: 'CHARGE',
+    payment_method: 'credit_card',
+    payment_status: status,
+    amount: '107.20',
+    premium_amount: '100.00',
+    tax_amount: '6.00',
+    fee_amount: '1.20',
+    installment_number: installmentNumber,
+    due_date: dueDate,
+    payment_token: 'tok_visa_on_file',
+    last_four_digits: '4242',
+    card_brand: 'visa',
+    payment_date: new Date(`${dueDate}T00:00:00Z`),
+    ...overrides,
+  });
+
+  // Installments 2 and 3 unpaid when the policy was cancelled, 4 not yet due
+  const cancelledInstallments = () => [
+    installment(1, '2026-08-01', 'COMPLETED'),
+    installment(2, '2026-09-01', 'CANCELLED'),
+    installment(3, '2026-10-01', 'CANCELLED'),
+    installment(4, '2026-11-01', 'CANCELLED'),
+  ];
+
+  const updatesTo = (table: unknown) => updates.filter(update => update.table === table).map(update => update.values);
+  const insertsTo = (table: unknown) => inserts.filter(insert => insert.table === table).map(insert => insert.values);
+
+  beforeEach(async () => {
+    selectResults = [];
+    updates = [];
+    inserts = [];
+    deletes = [];
+    claimConflict = false;
+
+    // Each select() returns the next queued result, however the query ends
+    const rowsQuery = (rows: any[]): any => Object.assign(Promise.resolve(rows), {
+      limit: vi.fn().mockResolvedValue(rows),
+      orderBy: vi.fn(() => rowsQuery(rows)),
+    });
+
+    mockDb = {
+      select: vi.fn(() => {
+        const rows = selectResults.shift() || [];
+        const query = { where: () => rowsQuery(rows), innerJoin: () => query };
+        return { from: () => query };
+      }),
+      insert: vi.fn((table: unknown) => ({
+        values: (values: any) => {
+          inserts.push({ table, values });
+          const returning = vi.fn().mockResolvedValue([{
+            payment_id: 'payment-reinstatement',
+            reinstatement_id: 'reinstatement-1',
+            event_id: 'event-1',
+            ...values,
+          }]);
+          return Object.assign(Promise.resolve(undefined), {
+            returning,
+            // Another request holds the PROCESSING reinstatement of the policy
+            onConflictDoNothing: () => ({ returning: claimConflict ? vi.fn().mockResolvedValue([]) : returning }),
+          });
+        },
+      })),
+      delete: vi.fn((table: unknown) => {
+        deletes.push(table);
+        return { where: () => Promise.resolve(undefined) };
+      }),
+      update: vi.fn((table: unknown) => ({
+        set: (values: any) => {
+          updates.push({ table, values });
+          return { where: () => Promise.resolve(undefined) };
+        },
+      })),
+    };
+
+    quoteService = { transitionStatus: vi.fn(async (record: any, action: PolicyAction) => nextStatus(record.status_code, action)) };
+    gateway = {
+      authorize: vi.fn().mockResolvedValue({ success: true, transactionId: 'txn-1', message: 'Authorized', lastFourDigits: '4242', cardBrand: 'visa' }),
+      capture: vi.fn().mockResolvedValue({ success: true, transactionId: 'txn-1', message: 'Captured' }),
+      void: vi.fn(),
+      refund: vi.fn().mockResolvedValue({ success: true, transactionId: 'txn-refund', message: 'Refunded' }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PolicyReinstatementService,
+        { provide: DATABASE_CONNECTION, useValue: mockDb },
+        { provide: QuoteService, useValue: quoteService },
+        { provide: PAYMENT_GATEWAY, useValue: gateway },
+      ],
+    }).compile();
+
+    service = module.get<PolicyReinstatementService>(PolicyReinstatementService);
+  });
+
+  describe('reinstatePolicy', () => {
+    it('should reinstate without a lapse shortly after cancellation, collecting the past-due installments', async () => {
+      selectResults.push([policyRecord()], cancelledInstallments(), [policyRecord()]);
+
+      const result = await service.reinstatePolicy('policy-1', {}, asOf);
+
+      expect(gateway.authorize).toHaveBeenCalledWith('tok_visa_on_file', 214.4);
+      expect(insertsTo(payment)).toEqual([expect.objectContaining({
+        payment_status: 'COMPLETED',
+        amount: '214.40',
+        premium_amount: '200.00',
+        tax_amount: '12.00',
+        fee_amount: '2.40',
+        payment_token: 'tok_visa_on_file',
+        transaction_id: 'txn-1',
+      })]);
+
+      // Installment 4 is collected again when it falls due
+      expect(updatesTo(payment)).toEqual([expect.objectContaining({ payment_status: 'PENDING', attempt_count: 0 })]);
+
+      expect(quoteService.transitionStatus).toHaveBeenCalledWith(
+        expect.objectContaining({ policy_identifier: 'policy-1' }),
+        'REINSTATE',
+        'Reinstated after non-payment without a lapse in coverage; collected $214.40',
+        { cancellation_date: null, cancellation_reason: null, cancellation_return_premium_method: null }
+      );
+      expect(insertsTo(policyReinstatement)).toEqual([expect.objectContaining({
+        status: 'PROCESSING',
+        previous_status: 'CANCELLED',
+        left_active_date: '2026-10-15',
+        reinstatement_date: '2026-10-18',
+        lapse_start: undefined,
+        lapse_days: 0,
+        past_due_amount: '214.40',
+        amount_collected: '214.40',
+      })]);
+      expect(updatesTo(policyReinstatement)).toEqual([expect.objectContaining({
+        status: 'COMPLETED',
+        payment_id: 'payment-reinstatement',
+      })]);
+      expect(insertsTo(event)).toEqual([]);
+
+      expect(result).toMatchObject({
+        status: 'IN_FORCE',
+        previousStatus: 'CANCELLED',
+        reinstatementDate: '2026-10-18',
+        lapse: null,
+        pastDueAmount: 214.4,
+        lapseCredit: 0,
+        amountCollected: 214.4,
+        payment: { paymentId: 'payment-reinstatement', status: 'COMPLETED', transactionId: 'txn-1' },
+      });
+    });
+
+    it('should reinstate with a lapse after the no-lapse period, crediting the lapse premium and recording the lapse', async () => {
+      selectResults.push([policyRecord({ cancellation_date: '2026-09-28' })], cancelledInstallments(), [policyRecord()]);
+
+      const result = await service.reinstatePolicy('policy-1', {}, asOf);
+
+      // 20 of 184 days of the $600 term premium
+      expect(result).toMatchObject({
+        lapse: { start: '2026-09-28', end: '2026-10-18', days: 20 },
+        pastDueAmount: 214.4,
+        lapseCredit: 65.22,
+        amountCollected: 149.18,
+      });
+      expect(gateway.authorize).toHaveBeenCalledWith('tok_visa_on_file', 149.18);
+      expect(insertsTo(payment)[0]).toMatchObject({ amount: '149.18', premium_amount: '134.78', tax_amount: '12.00' });
+
+      expect(quoteService.transitionStatus).toHaveBeenCalledWith(
+        expect.anything(),
+        'REINSTATE',
+        'Reinstated after non-payment with a 20-day lapse in coverage (2026-09-28 to 2026-10-18); collected $149.18',
+        expect.anything()
+      );
+      expect(insertsTo(policyReinstatement)[0]).toMatchObject({
+        lapse_start: '2026-09-28',
+        lapse_end: '2026-10-18',
+        lapse_days: 20,
+        lapse_credit: '65.22',
+      });
+      expect(insertsTo(event)).toEqual([expect.objectContaining({
+        event_type: 'COVERAGE_LAPSE',
+        event_subtype: 'NON_PAYMENT',
+        event_data: { reinstatementId: 'reinstatement-1', lapseStart: '2026-09-28', lapseEnd: '2026-10-18', lapseDays: 20 },
+      })]);
+      expect(insertsTo(policyEvent)).toEqual([{
+        event_id: 'event-1',
+        policy_id: 'policy-1',
+        change_reason: 'Coverage lapsed 2026-09-28 to 2026-10-18 (20 days) after cancellation for non-payment',
+      }]);
+    });
+
+    it('should reinstate a policy on payment hold with a new payment method', async () => {
+      selectResults.push(
+        [policyRecord({ status_code: 'PAYMENT_HOLD', cancellation_date: null, cancellation_reason: null })],
+        [{ event_date: new Date('2026-10-06T14:00:00Z') }], // Moved to PAYMENT_HOLD
+        [
+          installment(1, '2026-08-01', 'COMPLETED'),
+          installment(2, '2026-10-01', 'RETURNED', { payment_method: 'ach', payment_token: 'tok_ach_returned' }),
+          installment(3, '2026-11-01', 'PENDING'),
+        ],
+        [policyRecord({ status_code: 'PAYMENT_HOLD' })]
+      );
+
+      const result = await service.reinstatePolicy(
+        'policy-1',
+        { paymentMethod: 'credit_card', paymentToken: 'tok_visa_new', withLapse: true },
+        asOf
+      );
+
+      // Coverage never ended, so there is no lapse to record
+      expect(result).toMatchObject({ previousStatus: 'PAYMENT_HOLD', lapse: null, amountCollected: 107.2 });
+      expect(gateway.authorize).toHaveBeenCalledWith('tok_visa_new', 107.2);
+      expect(insertsTo(policyReinstatement)[0]).toMatchObject({ left_active_date: '2026-10-06' });
+      expect(updatesTo(payment)).toEqual([expect.objectContaining({
+        payment_status: 'PENDING',
+        payment_method: 'credit_card',
+        payment_token: 'tok_visa_new',
+        last_four_digits: '4242',
+      })]);
+    });
+
+    it('should settle a failed installment so the collection job does not cancel the policy again', async () => {
+      selectResults.push(
+        [policyRecord({ status_code: 'PENDING_CANCELLATION', cancellation_date: null, cancellation_reason: null })],
+        [], // No status event: falls back to updated_at
+        [installment(1, '2026-08-01', 'COMPLETED'), installment(2, '2026-09-01', 'FAILED')],
+        [policyRecord({ status_code: 'PENDING_CANCELLATION' })]
+      );
+
+      const result = await service.reinstatePolicy('policy-1', {}, asOf);
+
+      expect(result).toMatchObject({ previousStatus: 'PENDING_CANCELLATION', amountCollected: 107.2 });
+      expect(updatesTo(payment)[0]).toMatchObject({ payment_status: 'CANCELLED', next_attempt_date: null });
+      expect(insertsTo(policyReinstatement)[0]).toMatchObject({ left_active_date: '2026-10-15' });
+    });
+
+    it('should refuse a reinstatement without a lapse after the no-lapse period', async () => {
+      selectResults.push([policyRecord({ cancellation_date: '2026-09-28' })], cancelledInstallments());
+
+      const error = await service.reinstatePolicy('policy-1', { withLapse: false }, asOf).catch(err => err);
+
+      expect(error).toBeInstanceOf(BusinessRuleError);
+      expect(error).toMatchObject({
+        ruleCode: 'REINSTATEMENT_LAPSE_REQUIRED',
+        message: 'Policy DZREINST01 can only be reinstated without a lapse in coverage within 10 days of its cancellation on 2026-09-28',
+      });
+      expect(gateway.authorize).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a reinstatement after the window has closed', async () => {
+      selectResults.push([policyRecord({ cancellation_date: '2026-09-10' })]);
+
+      const error = await service.reinstatePolicy('policy-1', {}, asOf).catch(err => err);
+
+      expect(error).toMatchObject({
+        ruleCode: 'REINSTATEMENT_WINDOW_CLOSED',
+        message: 'Policy DZREINST01 left active status on 2026-09-10; the 30-day reinstatement window closed on 2026-10-10',
+      });
+      expect(quoteService.transitionStatus).not.toHaveBeenCalled();
+    });
+
+    it('should only reinstate policies cancelled for non-payment', async () => {
+      selectResults.push([policyRecord({ cancellation_reason: 'UNDERWRITING' })]);
+
+      await expect(service.reinstatePolicy('policy-1', {}, asOf)).rejects.toMatchObject({
+        ruleCode: 'REINSTATEMENT_NOT_ELIGIBLE',
+        message: 'Policy DZREINST01 was not cancelled for non-payment (UNDERWRITING) and cannot be reinstated',
+      });
+    });
+
+    it('should reject reinstating a policy that is in force', async () => {
+      selectResults.push([policyRecord({ status_code: 'IN_FORCE', cancellation_date: null, cancellation_reason: null })]);
+
+      await expect(service.reinstatePolicy('policy-1', {}, asOf)).rejects.toThrow(InvalidStatusTransitionError);
+    });
+
+    it('should leave the policy cancelled when the payment is declined', async () => {
+      selectResults.push([policyRecord()], cancelledInstallments(), [policyRecord()]);
+      gateway.authorize.mockResolvedValue({ success: false, message: 'Your card was declined.' });
+
+      await expect(service.reinstatePolicy('policy-1', {}, asOf)).rejects.toMatchObject({
+        ruleCode: 'REINSTATEMENT_PAYMENT_DECLINED',
+        message: 'Reinstatement payment declined: Your card was declined.',
+      });
+      expect(insertsTo(payment)).toEqual([]);
+      expect(updates).toEqual([]);
+      expect(deletes).toEqual([policyReinstatement]);
+      expect(quoteService.transitionStatus).not.toHaveBeenCalled();
+    });
+
+    it('should not charge while another reinstatement of the policy is in progress', async () => {
+      selectResults.push([policyRecord()], cancelledInstallments());
+      claimConflict = true;
+
+      await expect(service.reinstatePolicy('policy-1', {}, asOf)).rejects.toMatchObject({
+        ruleCode: 'REINSTATEMENT_IN_PROGRESS',
+        message: 'Policy DZREINST01 is already being reinstated',
+      });
+      expect(gateway.authorize).not.toHaveBeenCalled();
+      expect(deletes).toEqual([]);
+    });
+
+    it('should not charge a policy reinstated since it was read', async () => {
+      selectResults.push([policyRecord()], cancelledInstallments(), [policyRecord({ status_code: 'IN_FORCE' })]);
+
+      await expect(service.reinstatePolicy('policy-1', {}, asOf)).rejects.toMatchObject({ ruleCode: 'REINSTATEMENT_IN_PROGRESS' });
+      expect(gateway.authorize).not.toHaveBeenCalled();
+      expect(deletes).toEqual([policyReinstatement]);
+    });
+
+    it('should refund the charge when the reinstatement fails after charging', async () => {
+      selectResults.push([policyRecord()], cancelledInstallments(), [policyRecord()]);
+      quoteService.transitionStatus.mockRejectedValueOnce(new Error('connection reset'));
+
+      await expect(service.reinstatePolicy('policy-1', {}, asOf)).rejects.toThrow('connection reset');
+
+      expect(gateway.refund).toHaveBeenCalledWith('txn-1', 214.4);
+      expect(updatesTo(payment)).toContainEqual(expect.objectContaining({ payment_status: 'REFUNDED' }));
+      expect(updatesTo(policyReinstatement)).toEqual([]);
+      expect(deletes).toEqual([policyReinstatement]);
+    });
+
+    it('should keep the reinstatement claimed when the refund also fails', async () => {
+      selectResults.push([policyRecord()], cancelledInstallments(), [policyRecord()]);
+      quoteService.transitionStatus.mockRejectedValueOnce(new Error('connection reset'));
+      gateway.refund.mockResolvedValue({ success: false, message: 'Gateway unavailable' });
+
+      await expect(service.reinstatePolicy('policy-1', {}, asOf)).rejects.toThrow('connection reset');
+
+      expect(deletes).toEqual([]);
+    });
+  });
+});
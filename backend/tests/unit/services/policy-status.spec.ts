@@ -0,0 +1,143 @@
+/**
+ * Unit Tests for the policy status state machine
+ *
+ * Tests the allowed actions per status, rejection of illegal transitions,
+ * and QuoteService.transitionStatus writing the new status and logging it.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Test, TestingModule } from '@nestjs/testing';
+import { DATABASE_CONNECTION } from '../../../src/database/database.module';
+import { QuoteService } from '../../../src/services/quote/quote.service';
+import { RatingEngineService } from '../../../src/services/rating-engine/rating-engine.service';
+import { PremiumHistoryService } from '../../../src/services/rating-engine/premium-history.service';
+import { CoverageRatingService } from '../../../src/services/rating-engine/coverage-rating';
+import { BillingScheduleService } from '../../../src/services/billing/billing-schedule.service';
+import { PolicyVersionService } from '../../../src/services/policy/policy-version.service';
+import { PAYMENT_GATEWAY } from '../../../src/services/payment-gateway/payment-gateway';
+import { InvalidStatusTransitionError } from '../../../src/api/middleware/error-handler';
+import {
+  allowedActions,
+  canPerform,
+  nextStatus,
+  statusesAllowing,
+} from '../../../src/services/policy/policy-status';
+
+describe('Policy status state machine', () => {
+  describe('allowedActions', () => {
+    it('should list the actions each status allows', () => {
+      expect(allowedActions('INCOMPLETE')).toEqual(['UPDATE_QUOTE', 'FINALIZE_QUOTE']);
+      expect(allowedActions('QUOTED')).toEqual(['UPDATE_QUOTE', 'FINALIZE_QUOTE', 'BIND', 'EXPIRE_QUOTE']);
+      expect(allowedActions('IN_FORCE')).toEqual([
+        'ENDORSE', 'RENEW', 'HOLD_PAYMENT', 'SCHEDULE_CANCELLATION', 'CANCEL', 'LAPSE',
+      ]);
+    });
+
+    it('should allow nothing for final or unknown statuses', () => {
+      expect(allowedActions('EXPIRED')).toEqual([]);
+      expect(allowedActions('SOMETHING_ELSE')).toEqual([]);
+    });
+
+    it('should only allow reinstatement once a policy left IN_FORCE for non-payment', () => {
+      expect(allowedActions('CANCELLED')).toEqual(['REINSTATE']);
+      expect(statusesAllowing('REINSTATE')).toEqual(['PAYMENT_HOLD', 'PENDING_CANCELLATION', 'CANCELLED']);
+      expect(nextStatus('CANCELLED', 'REINSTATE')).toBe('IN_FORCE');
+      expect(() => nextStatus('EXPIRED', 'REINSTATE')).toThrow('Cannot transition Policy from EXPIRED to IN_FORCE');
+    });
+
+    it('should treat the legacy ACTIVE status like IN_FORCE', () => {
+      expect(allowedActions('ACTIVE')).toEqual(allowedActions('IN_FORCE'));
+      expect(nextStatus('ACTIVE', 'ENDORSE')).toBe('ACTIVE');
+      expect(statusesAllowing('RENEW')).toEqual(['IN_FORCE', 'ACTIVE']);
+    });
+  });
+
+  describe('nextStatus', () => {
+    it('should follow the quote-to-policy path', () => {
+      expect(nextStatus('INCOMPLETE', 'FINALIZE_QUOTE')).toBe('QUOTED');
+      expect(nextStatus('QUOTED', 'BIND')).toBe('BINDING');
+      expect(nextStatus('BINDING', 'FAIL_BINDING')).toBe('QUOTED');
+      expect(nextStatus('BINDING', 'COMPLETE_BINDING')).toBe('BOUND');
+      expect(nextStatus('BOUND', 'ACTIVATE')).toBe('IN_FORCE');
+      expect(nextStatus('IN_FORCE', 'SCHEDULE_CANCELLATION')).toBe('PENDING_CANCELLATION');
+      expect(nextStatus('PENDING_CANCELLATION', 'CANCEL')).toBe('CANCELLED');
+    });
+
+    it('should reject an action the current status does not allow', () => {
+      expect(() => nextStatus('INCOMPLETE', 'BIND')).toThrow(InvalidStatusTransitionError);
+      expect(() => nextStatus('INCOMPLETE', 'BIND')).toThrow('Cannot transition Policy from INCOMPLETE to BINDING');
+      expect(() => nextStatus('CANCELLED', 'CANCEL')).toThrow('Cannot transition Policy from CANCELLED to CANCELLED');
+      expect(canPerform('BOUND', 'ENDORSE')).toBe(false);
+    });
+
+    it('should name the action when it keeps the status', () => {
+      expect(() => nextStatus('CANCELLED', 'ENDORSE')).toThrow('Cannot transition Policy from CANCELLED to ENDORSE');
+    });
+  });
+
+  describe('QuoteService.transitionStatus', () => {
+    let service: QuoteService;
+    let mockDb: any;
+    let logPolicyEvent: ReturnType<typeof vi.fn>;
+
+    beforeEach(async () => {
+      mockDb = {
+        update: vi.fn().mockReturnThis(),
+        set: vi.fn().mockReturnThis(),
+        where: vi.fn().mockReturnThis(),
+        returning: vi.fn().mockResolvedValue([{ policy_identifier: 'policy-1' }]),
+      };
+
+      const module: TestingModule = await Test.createTestingModule({
+        providers: [
+          QuoteService,
+          { provide: DATABASE_CONNECTION, useValue: mockDb },
+          { provide: RatingEngineService, useValue: {} },
+          { provide: PremiumHistoryService, useValue: {} },
+          { provide: CoverageRatingService, useValue: {} },
+          { provide: BillingScheduleService, useValue: {} },
+          { provide: PolicyVersionService, useValue: {} },
+          { provide: PAYMENT_GATEWAY, useValue: {} },
+        ],
+      }).compile();
+
+      service = module.get<QuoteService>(QuoteService);
+      logPolicyEvent = vi.spyOn(service, 'logPolicyEvent').mockResolvedValue(undefined) as any;
+    });
+
+    it('should write the new status with any other values and log the transition', async () => {
+      const status = await service.transitionStatus(
+        { policy_identifier: 'policy-1', status_code: 'PAYMENT_HOLD' },
+        'CANCEL',
+        'Cancelled for non-payment',
+        { cancellation_date: '2026-10-18' }
+      );
+
+      expect(status).toBe('CANCELLED');
+      expect(mockDb.set).toHaveBeenCalledWith(expect.objectContaining({
+        status_code: 'CANCELLED',
+        cancellation_date: '2026-10-18',
+      }));
+      expect(logPolicyEvent).toHaveBeenCalledWith('policy-1', 'PAYMENT_HOLD', 'CANCELLED', 'Cancelled for non-payment', mockDb);
+    });
+
+    it('should not log a transition when the policy moved since it was read', async () => {
+      mockDb.returning.mockResolvedValue([]);
+
+      await expect(
+        service.transitionStatus({ policy_identifier: 'policy-1', status_code: 'BOUND' }, 'HOLD_PAYMENT', 'ACH debit returned')
+      ).rejects.toThrow(InvalidStatusTransitionError);
+
+      expect(logPolicyEvent).not.toHaveBeenCalled();
+    });
+
+    it('should neither write nor log an illegal transition', async () => {
+      await expect(
+        service.transitionStatus({ policy_identifier: 'policy-1', status_code: 'EXPIRED' }, 'ACTIVATE', 'Effective date reached')
+      ).rejects.toThrow(InvalidStatusTransitionError);
+
+      expect(mockDb.update).not.toHaveBeenCalled();
+      expect(logPolicyEvent).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Unit Tests for PolicyVersionService
+ *
+ * Tests finding the policy version in force on a date (inside the term,
+ * before the policy started, after cancellation) and claims being filed
+ * against the version in force on the incident date.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { NotFoundException, BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { DATABASE_CONNECTION } from '../../../src/database/database.module';
+import { PolicyVersionService, coverageEndDate } from '../../../src/services/policy/policy-version.service';
+import { QuoteService } from '../../../src/services/quote/quote.service';
+import { RatingEngineService } from '../../../src/services/rating-engine/rating-engine.service';
+import { PremiumHistoryService } from '../../../src/services/rating-engine/premium-history.service';
+import { CoverageRatingService } from '../../../src/services/rating-engine/coverage-rating';
+import { BillingScheduleService } from '../../../src/services/billing/billing-schedule.service';
+import { PAYMENT_GATEWAY } from '../../../src/services/payment-gateway/payment-gateway';
+import { claim } from '../../../../database/schema'; // Same module QuoteService imports
+import { policyVersion } from '../../../../database/schema/policy-version.schema';
+
+describe('PolicyVersionService', () => {
+  let service: PolicyVersionService;
+  let quoteService: QuoteService;
+  let mockDb: any;
+  let selectResults: any[][];
+  let inserts: Array<{ table: unknown; values: any }>;
+
+  const policyRecord = (overrides: any = {}) => ({
+    policy_identifier: 'policy-1',
+    policy_number: 'DZVERSION1',
+    status_code: 'IN_FORCE',
+    version_number: 2,
+    effective_date: '2026-01-01',
+    expiration_date: '2026-07-01',
+    cancellation_date: null,
+    quote_snapshot: {},
+    ...overrides,
+  });
+
+  const version = (overrides: any = {}) => ({
+    policy_version_id: 'version-2',
+    policy_id: 'policy-1',
+    version_number: 2,
+    source: 'ENDORSEMENT',
+    effective_date: '2026-03-01',
+    term_premium: '700.00',
+    snapshot: {
+      driver: { firstName: 'Jane' },
+      additionalDrivers: [{ firstName: 'Sam' }],
+      vehicles: [{ year: 2020, make: 'Honda', model: 'Civic' }, { year: 2024, make: 'Kia', model: 'Soul' }],
+      coverages: { bodilyInjuryLimit: '100000/300000' },
+      address: { state: 'IL' },
+    },
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    selectResults = [];
+    inserts = [];
+
+    // Each select() returns the next queued result, however the query ends
+    const rowsQuery = (rows: any[]): any => Object.assign(Promise.resolve(rows), {
+      limit: vi.fn().mockResolvedValue(rows),
+      orderBy: vi.fn(() => rowsQuery(rows)),
+    });
+
+    mockDb = {
+      select: vi.fn(() => {
+        const rows = selectResults.shift() || [];
+        const query = { where: () => rowsQuery(rows), leftJoin: () => query };
+        return { from: () => query };
+      }),
+      insert: vi.fn((table: unknown) => ({
+        values: (values: any) => {
+          inserts.push({ table, values });
+          return Object.assign(Promise.resolve(undefined), {
+            returning: vi.fn().mockResolvedValue([{ claim_id: 'claim-1', ...values }]),
+          });
+        },
+      })),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PolicyVersionService,
+        QuoteService,
+        { provide: DATABASE_CONNECTION, useValue: mockDb },
+        { provide: RatingEngineService, useValue: {} },
+        { provide: PremiumHistoryService, useValue: {} },
+        { provide: CoverageRatingService, useValue: {} },
+        { provide: BillingScheduleService, useValue: {} },
+        { provide: PAYMENT_GATEWAY, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<PolicyVersionService>(PolicyVersionService);
+    quoteService = module.get<QuoteService>(QuoteService);
+  });
+
+  describe('recordVersion', () => {
+    it('should write the version with its full-term premium', async () => {
+      await service.recordVersion({
+        policyId: 'policy-1',
+        versionNumber: 1,
+        source: 'BIND',
+        effectiveDate: '2026-01-01',
+        snapshot: { premium: { subtotal: 612.4 } },
+      });
+
+      expect(inserts).toEqual([{
+        table: policyVersion,
+        values: expect.objectContaining({ version_number: 1, source: 'BIND', effective_date: '2026-01-01', term_premium: '612.40' }),
+      }]);
+    });
+  });
+
+  describe('getVersionInForce', () => {
+    it('should return the drivers, vehicles and coverage in force on the date', async () => {
+      selectResults.push([policyRecord()], [version()]);
+
+      const result = await service.getVersionInForce('DZVERSION1', '2026-03-14');
+
+      expect(result).toEqual({
+        policyNumber: 'DZVERSION1',
+        asOfDate: '2026-03-14',
+        versionNumber: 2,
+        effectiveDate: '2026-03-01',
+        source: 'ENDORSEMENT',
+        termPremium: 700,
+        drivers: [{ firstName: 'Jane' }, { firstName: 'Sam' }],
+        vehicles: version().snapshot.vehicles,
+        coverages: { bodilyInjuryLimit: '100000/300000' },
+        address: { state: 'IL' },
+      });
+    });
+
+    it('should report a date before the policy started', async () => {
+      selectResults.push([policyRecord()], []);
+
+      await expect(service.getVersionInForce('DZVERSION1', '2025-12-31')).rejects.toThrow(
+        new NotFoundException('Policy DZVERSION1 was not in force on 2025-12-31 (coverage 2026-01-01 to 2026-07-01)')
+      );
+    });
+
+    it('should end coverage on the cancellation date of a cancelled policy', async () => {
+      const cancelled = policyRecord({ status_code: 'CANCELLED', cancellation_date: '2026-04-15' });
+      selectResults.push([cancelled]);
+
+      expect(coverageEndDate(cancelled)).toBe('2026-04-15');
+      await expect(service.getVersionInForce('DZVERSION1', '2026-04-15')).rejects.toThrow(NotFoundException);
+    });
+
+    it('should report a date inside a coverage lapse before a reinstatement', async () => {
+      selectResults.push([policyRecord()], [version()], [{ lapse_start: '2026-03-10', lapse_end: '2026-03-20' }]);
+
+      await expect(service.getVersionInForce('DZVERSION1', '2026-03-14')).rejects.toThrow(NotFoundException);
+    });
+
+    it('should reject a malformed date', async () => {
+      await expect(service.getVersionInForce('DZVERSION1', '2026-02-30')).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('QuoteService.fileClaim', () => {
+    const claimData = { incident_date: '2026-03-14', loss_type: 'COLLISION', description: 'Rear-ended at a stoplight' };
+
+    it('should file the claim against the version in force on the incident date', async () => {
+      selectResults.push([policyRecord()], [version()]);
+
+      const result = await quoteService.fileClaim('DZVERSION1', claimData);
+
+      expect(inserts[0]).toMatchObject({ table: claim, values: { incident_date: '2026-03-14', policy_version_number: 2 } });
+      expect(result.policy_version_number).toBe(2);
+    });
+
+    it('should reject an incident after the policy expired', async () => {
+      selectResults.push([policyRecord()]);
+
+      await expect(
+        quoteService.fileClaim('DZVERSION1', { ...claimData, incident_date: '2026-07-01' })
+      ).rejects.toThrow(new BadRequestException('Policy DZVERSION1 was not in force on 2026-07-01'));
+      expect(inserts).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,299 @@
+/**
+ * Unit Tests for portal authentication
+ *
+ * Tests bcrypt-hashed accounts, sign-in starting a session whose token is
+ * only stored hashed, session expiry and sign-out, and PortalAuthGuard
+ * requiring a session linked to the policy in the URL.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConflictException, ExecutionContext, ForbiddenException } from '@nestjs/common';
+import * as bcrypt from 'bcryptjs';
+import { DATABASE_CONNECTION } from '../../../src/database/database.module';
+import { UserAccountService } from '../../../src/services/user-account-service/user-account.service';
+import {
+  AuthService,
+  DEFAULT_SESSION_TTL_HOURS,
+  getSessionTtlHours,
+  hashSessionToken,
+} from '../../../src/services/user-account-service/auth.service';
+import { PortalAuthGuard, readSessionToken } from '../../../src/api/middleware/portal-auth.guard';
+import { UnauthorizedError } from '../../../src/api/middleware/error-handler';
+import { userAccount } from '../../../../database/schema/user-account.schema';
+import { userSession } from '../../../../database/schema/user-session.schema';
+
+describe('Portal authentication', () => {
+  let accounts: UserAccountService;
+  let auth: AuthService;
+  let guard: PortalAuthGuard;
+  let mockDb: any;
+  let selectResults: any[][];
+  let updates: Array<{ table: unknown; values: any }>;
+  let inserts: Array<{ table: unknown; values: any }>;
+
+  const now = new Date('2026-10-18T14:00:00Z');
+  const passwordHash = bcrypt.hashSync('SecurePass123', 4); // Low cost keeps the tests fast
+
+  const accountRecord = (overrides: any = {}) => ({
+    account_id: 'account-1',
+    email: 'jane@example.com',
+    first_name: 'Jane',
+    last_name: 'Doe',
+    password_hash: passwordHash,
+    email_verified_at: new Date('2026-10-01T09:00:00Z'),
+    ...overrides,
+  });
+
+  const sessionRecord = (overrides: any = {}) => ({
+    session_id: 'session-1',
+    account_id: 'account-1',
+    token_hash: hashSessionToken('token-1'),
+    expires_at: new Date('2026-10-19T02:00:00Z'),
+    last_used_at: null,
+    revoked_at: null,
+    ...overrides,
+  });
+
+  const linkedPolicy = (linkedVia = 'INSURED_EMAIL', policyOverrides: any = {}) => ({
+    user_account_policy: { account_id: 'account-1', policy_id: 'policy-1', linked_via: linkedVia },
+    policy: {
+      policy_identifier: 'policy-1',
+      policy_number: 'DZJANEDOE1',
+      status_code: 'QUOTED',
+      quote_snapshot: { driver: { email: 'Jane@Example.com' } },
+      ...policyOverrides,
+    },
+  });
+
+  const updatesTo = (table: unknown) => updates.filter(update => update.table === table).map(update => update.values);
+  const insertsTo = (table: unknown) => inserts.filter(insert => insert.table === table).map(insert => insert.values);
+
+  const httpContext = (req: any): ExecutionContext => ({
+    switchToHttp: () => ({ getRequest: () => req }),
+  }) as any;
+
+  beforeEach(async () => {
+    selectResults = [];
+    updates = [];
+    inserts = [];
+    delete process.env.SESSION_TTL_HOURS;
+
+    // Each select() returns the next queued result, however the query ends
+    const rowsQuery = (rows: any[]): any => Object.assign(Promise.resolve(rows), {
+      limit: vi.fn().mockResolvedValue(rows),
+    });
+
+    mockDb = {
+      select: vi.fn(() => {
+        const rows = selectResults.shift() || [];
+        const query = { where: () => rowsQuery(rows), innerJoin: () => query };
+        return { from: () => query };
+      }),
+      insert: vi.fn((table: unknown) => ({
+        values: (values: any) => {
+          inserts.push({ table, values });
+          return Object.assign(Promise.resolve(undefined), {
+            returning: vi.fn(async () => [{ account_id: 'account-new', ...values }]),
+          });
+        },
+      })),
+      update: vi.fn((table: unknown) => ({
+        set: (values: any) => {
+          updates.push({ table, values });
+          return { where: () => Promise.resolve(undefined) };
+        },
+      })),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        UserAccountService,
+        AuthService,
+        PortalAuthGuard,
+        { provide: DATABASE_CONNECTION, useValue: mockDb },
+      ],
+    }).compile();
+
+    accounts = module.get<UserAccountService>(UserAccountService);
+    auth = module.get<AuthService>(AuthService);
+    guard = module.get<PortalAuthGuard>(PortalAuthGuard);
+  });
+
+  afterEach(() => {
+    delete process.env.SESSION_TTL_HOURS;
+    vi.restoreAllMocks();
+  });
+
+  describe('UserAccountService', () => {
+    it('should store a bcrypt hash of the password and a lowercase email', async () => {
+      selectResults.push([]); // Email not taken
+
+      const account = await accounts.createAccount({
+        email: ' Jane@Example.com ',
+        password: 'SecurePass123',
+        first_name: 'Jane',
+        last_name: 'Doe',
+      });
+
+      const [values] = insertsTo(userAccount);
+      expect(values).toMatchObject({ email: 'jane@example.com', first_name: 'Jane', last_name: 'Doe' });
+      expect(values.password_hash).not.toContain('SecurePass123');
+      expect(await bcrypt.compare('SecurePass123', values.password_hash)).toBe(true);
+      expect(account.account_id).toBe('account-new');
+    });
+
+    it('should reject an email that already has an account', async () => {
+      selectResults.push([accountRecord()]);
+
+      await expect(accounts.createAccount({
+        email: 'JANE@example.com',
+        password: 'SecurePass123',
+        first_name: 'Jane',
+        last_name: 'Doe',
+      })).rejects.toThrow(ConflictException);
+      expect(inserts).toEqual([]);
+    });
+
+    it('should only verify the right password', async () => {
+      selectResults.push([accountRecord()], [accountRecord()], [accountRecord({ password_hash: null })]);
+
+      expect(await accounts.verifyPassword('jane@example.com', 'SecurePass123')).toBe(true);
+      expect(await accounts.verifyPassword('jane@example.com', 'WrongPass123')).toBe(false);
+      expect(await accounts.verifyPassword('jane@example.com', 'SecurePass123')).toBe(false); // Legacy account without a password
+    });
+  });
+
+  describe('AuthService', () => {
+    it('should sign in and store only the hash of the session token', async () => {
+      selectResults.push([accountRecord()]);
+
+      const session = await auth.login('Jane@Example.com', 'SecurePass123', now);
+
+      expect(session.account.account_id).toBe('account-1');
+      expect(session.token.length).toBeGreaterThanOrEqual(43); // 256 random bits, base64url
+      expect(session.expiresAt).toEqual(new Date(now.getTime() + DEFAULT_SESSION_TTL_HOURS * 60 * 60 * 1000));
+      expect(insertsTo(userSession)).toEqual([{
+        account_id: 'account-1',
+        token_hash: hashSessionToken(session.token),
+        expires_at: session.expiresAt,
+        last_used_at: now,
+      }]);
+      expect(updatesTo(userAccount)).toEqual([{ last_login_at: now }]);
+    });
+
+    it('should give the same error for a wrong password and an unknown email', async () => {
+      selectResults.push([accountRecord()], []);
+
+      const wrongPassword = await auth.login('jane@example.com', 'WrongPass123', now).catch(err => err);
+      const unknownEmail = await auth.login('nobody@example.com', 'SecurePass123', now).catch(err => err);
+
+      expect(wrongPassword).toBeInstanceOf(UnauthorizedError);
+      expect(unknownEmail).toBeInstanceOf(UnauthorizedError);
+      expect(wrongPassword.message).toBe('Invalid email or password');
+      expect(unknownEmail.message).toBe('Invalid email or password');
+      expect(inserts).toEqual([]);
+    });
+
+    it('should resolve a live session to its account', async () => {
+      selectResults.push([sessionRecord()], [accountRecord()]);
+
+      const session = await auth.validateSession('token-1', now);
+
+      expect(session).toMatchObject({ sessionId: 'session-1', account: { email: 'jane@example.com' } });
+      expect(updatesTo(userSession)).toEqual([{ last_used_at: now }]);
+    });
+
+    it('should reject expired and signed-out sessions', async () => {
+      selectResults.push(
+        [sessionRecord({ expires_at: new Date('2026-10-18T13:59:59Z') })],
+        [sessionRecord({ revoked_at: new Date('2026-10-18T13:00:00Z') })],
+        [],
+      );
+
+      expect(await auth.validateSession('token-1', now)).toBeNull();
+      expect(await auth.validateSession('token-1', now)).toBeNull();
+      expect(await auth.validateSession('unknown-token', now)).toBeNull();
+      expect(await auth.validateSession(undefined, now)).toBeNull();
+      expect(updates).toEqual([]);
+    });
+
+    it('should revoke the session on sign-out', async () => {
+      await auth.logout('token-1', now);
+
+      expect(updatesTo(userSession)).toEqual([{ revoked_at: now }]);
+    });
+
+    it('should only let an account open the policies linked to it', async () => {
+      selectResults.push([linkedPolicy()], []);
+
+      expect(await auth.canAccessPolicy(accountRecord() as any, 'DZJANEDOE1')).toBe(true);
+      expect(await auth.canAccessPolicy(accountRecord() as any, 'DZSOMEONE1')).toBe(false); // Not linked, or no such policy
+    });
+
+    it('should only honour insured-email links once the email is verified', async () => {
+      const unverified = accountRecord({ email_verified_at: null }) as any;
+      selectResults.push([linkedPolicy()], [linkedPolicy('SAVED_QUOTE')]);
+
+      expect(await auth.canAccessPolicy(unverified, 'DZJANEDOE1')).toBe(false);
+      expect(await auth.canAccessPolicy(unverified, 'DZJANEDOE1')).toBe(true); // Claimed at checkout
+    });
+
+    it('should only honour a saved quote link on a bought policy for the insured\'s verified email', async () => {
+      const bought = { status_code: 'IN_FORCE' };
+      selectResults.push(
+        [linkedPolicy('SAVED_QUOTE', bought)],
+        [linkedPolicy('SAVED_QUOTE', bought)],
+        [linkedPolicy('SAVED_QUOTE', { ...bought, quote_snapshot: { driver: { email: 'sam@example.com' } } })],
+      );
+
+      expect(await auth.canAccessPolicy(accountRecord() as any, 'DZJANEDOE1')).toBe(true);
+      expect(await auth.canAccessPolicy(accountRecord({ email_verified_at: null }) as any, 'DZJANEDOE1')).toBe(false);
+      expect(await auth.canAccessPolicy(accountRecord() as any, 'DZJANEDOE1')).toBe(false);
+    });
+
+    it('should read the session lifetime from SESSION_TTL_HOURS', () => {
+      process.env.SESSION_TTL_HOURS = '2';
+      expect(getSessionTtlHours()).toBe(2);
+
+      process.env.SESSION_TTL_HOURS = 'forever';
+      expect(() => getSessionTtlHours()).toThrow('SESSION_TTL_HOURS must be a positive number of hours');
+    });
+  });
+
+  describe('PortalAuthGuard', () => {
+    it('should read the session token from the cookie or a bearer header', () => {
+      expect(readSessionToken({ headers: { cookie: 'theme=dark; dz_session=abc%2D1' } } as any)).toBe('abc-1');
+      expect(readSessionToken({ headers: { authorization: 'Bearer xyz' } } as any)).toBe('xyz');
+      expect(readSessionToken({ headers: {} } as any)).toBeUndefined();
+    });
+
+    it('should reject a request without a session', async () => {
+      const req = { headers: {}, params: { policyNumber: 'DZJANEDOE1' } };
+
+      await expect(guard.canActivate(httpContext(req))).rejects.toThrow(UnauthorizedError);
+    });
+
+    it('should reject a signed-in account that is not linked to the policy', async () => {
+      selectResults.push([sessionRecord()], [accountRecord()], []);
+      const req = { headers: { cookie: 'dz_session=token-1' }, params: { policyNumber: 'DZSOMEONE1' } };
+
+      await expect(guard.canActivate(httpContext(req))).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should not let an unverified account open a policy registered to its email', async () => {
+      selectResults.push([sessionRecord()], [accountRecord({ email_verified_at: null })], [linkedPolicy()]);
+      const req = { headers: { cookie: 'dz_session=token-1' }, params: { policyNumber: 'DZJANEDOE1' } };
+
+      await expect(guard.canActivate(httpContext(req))).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should let a linked account through with the session on the request', async () => {
+      selectResults.push([sessionRecord()], [accountRecord()], [linkedPolicy()]);
+      const req: any = { headers: { cookie: 'dz_session=token-1' }, params: { policyNumber: 'DZJANEDOE1' } };
+
+      expect(await guard.canActivate(httpContext(req))).toBe(true);
+      expect(req.portalSession).toMatchObject({ sessionId: 'session-1', account: { account_id: 'account-1' } });
+    });
+  });
+});
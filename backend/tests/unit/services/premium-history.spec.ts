@@ -0,0 +1,190 @@
+/**
+ * Unit Tests for PremiumHistoryService
+ *
+ * Tests that every premium calculation is recorded with its inputs,
+ * rate-table version and factor breakdown, and read back as a timeline.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Test, TestingModule } from '@nestjs/testing';
+import { DATABASE_CONNECTION } from '../../../src/database/database.module';
+import {
+  PremiumHistoryService,
+  PremiumCalculationTrigger,
+} from '../../../src/services/rating-engine/premium-history.service';
+import { RatingEngineService } from '../../../src/services/rating-engine/rating-engine.service';
+import { VehicleRatingService } from '../../../src/services/rating-engine/vehicle-rating';
+import { DriverRatingService } from '../../../src/services/rating-engine/driver-rating';
+import { LocationRatingService } from '../../../src/services/rating-engine/location-rating';
+import { CoverageRatingService } from '../../../src/services/rating-engine/coverage-rating';
+import { DiscountCalculator } from '../../../src/services/rating-engine/discount-calculator';
+import { SurchargeCalculator } from '../../../src/services/rating-engine/surcharge-calculator';
+import { TaxFeeCalculator } from '../../../src/services/rating-engine/tax-fee-calculator';
+import { RateTableService } from '../../../src/services/rating-engine/rate-table.service';
+import { RateBook } from '../../../src/services/rating-engine/rate-book';
+import { RATING_TABLE_SEED } from '../../../../database/seeds/rating-tables';
+
+const rates = new RateBook(RATING_TABLE_SEED as any, '2025-01-01');
+
+describe('PremiumHistoryService', () => {
+  let service: PremiumHistoryService;
+  let ratingEngine: RatingEngineService;
+  let mockDb: any;
+
+  const ratingInput = {
+    driver: { firstName: 'John', lastName: 'Doe', birthDate: '1990-01-01', email: 'john@example.com' },
+    vehicles: [{ year: 2019, make: 'Toyota', model: 'Camry', vin: '1HGBH41JXMN109186' }],
+    coverages: { bodilyInjuryLimit: '100/300', propertyDamageLimit: '50000' },
+    location: { state: 'CA', zipCode: '90210' },
+  };
+
+  beforeEach(async () => {
+    mockDb = {
+      insert: vi.fn().mockReturnThis(),
+      values: vi.fn().mockResolvedValue(undefined),
+      delete: vi.fn().mockReturnThis(),
+      select: vi.fn().mockReturnThis(),
+      from: vi.fn().mockReturnThis(),
+      where: vi.fn().mockReturnThis(),
+      orderBy: vi.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PremiumHistoryService,
+        { provide: DATABASE_CONNECTION, useValue: mockDb },
+        RatingEngineService,
+        VehicleRatingService,
+        DriverRatingService,
+        LocationRatingService,
+        CoverageRatingService,
+        DiscountCalculator,
+        SurchargeCalculator,
+        TaxFeeCalculator,
+        {
+          provide: RateTableService,
+          useValue: { getRateBook: vi.fn().mockResolvedValue(rates) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<PremiumHistoryService>(PremiumHistoryService);
+    ratingEngine = module.get<RatingEngineService>(RatingEngineService);
+  });
+
+  describe('record', () => {
+    it('should store inputs, rate version, factors and result', async () => {
+      const rating = ratingEngine.rate(ratingInput, rates);
+
+      await service.record('policy-1', ratingInput, rating, PremiumCalculationTrigger.QUOTE_CREATED);
+
+      const row = mockDb.values.mock.calls[0][0];
+      expect(row.policy_identifier).toBe('policy-1');
+      expect(row.calculation_trigger).toBe('QUOTE_CREATED');
+      expect(row.calculation_version).toBe('2025-01-01');
+      expect(row.input_snapshot).toMatchObject({ ...ratingInput, effectiveDate: '2025-01-01', asOfDate: rating.ratedAt });
+      expect(row.vehicle_factors.vehicles).toHaveLength(1);
+      expect(row.driver_factors.ageFactor).toBe(rating.driverFactor);
+      expect(row.coverage_factors.totalFactor).toBe(rating.coverageFactor);
+      expect(row.subtotal_before_discounts).toBe(rating.adjustedPremium.toFixed(2));
+      expect(row.total_premium).toBe(rating.totalPremium.toFixed(2));
+    });
+
+    it('should replace the quote\'s applied discounts', async () => {
+      const rating = ratingEngine.rate({ ...ratingInput, paperlessDiscount: true }, rates);
+
+      await service.record('policy-1', ratingInput, rating, PremiumCalculationTrigger.PREFERENCES_UPDATED);
+
+      expect(mockDb.delete).toHaveBeenCalled();
+      expect(mockDb.values.mock.calls[1][0]).toEqual([
+        expect.objectContaining({
+          policy_identifier: 'policy-1',
+          discount_code: 'PAPERLESS',
+          discount_description: 'Policy documents delivered electronically',
+          discount_percentage: '4.00',
+        }),
+      ]);
+    });
+
+    it('should replace the quote\'s applied surcharges', async () => {
+      const rating = ratingEngine.rate({
+        ...ratingInput,
+        driver: { ...ratingInput.driver, violations: [{ type: 'DUI', date: '2022-01-15' }] },
+        asOfDate: '2025-01-01T00:00:00.000Z',
+      }, rates);
+
+      await service.record('policy-1', ratingInput, rating, PremiumCalculationTrigger.PRIMARY_DRIVER_UPDATED);
+
+      expect(mockDb.delete).toHaveBeenCalledTimes(2);
+      expect(mockDb.values.mock.calls[1][0]).toEqual([
+        expect.objectContaining({
+          policy_identifier: 'policy-1',
+          surcharge_code: 'VIOLATION_HISTORY',
+          surcharge_description: '1 violation within the lookback period: DUI (2022-01-15)',
+          surcharge_percentage: '50.00',
+        }),
+      ]);
+    });
+
+    it('should write through the given transaction', async () => {
+      const rating = ratingEngine.rate(ratingInput, rates);
+      const tx = {
+        insert: vi.fn().mockReturnValue({ values: vi.fn().mockResolvedValue(undefined) }),
+        delete: vi.fn().mockReturnValue({ where: vi.fn().mockResolvedValue(undefined) }),
+      };
+
+      await service.record('policy-1', ratingInput, rating, PremiumCalculationTrigger.QUOTE_CREATED, tx as any);
+
+      expect(tx.insert).toHaveBeenCalled();
+      expect(mockDb.insert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getHistory', () => {
+    const row = (id: string, totalPremium: string, trigger: string) => ({
+      premium_calculation_identifier: id,
+      policy_identifier: 'policy-1',
+      input_snapshot: ratingInput,
+      base_premium: '1000.00',
+      vehicle_factors: null,
+      driver_factors: null,
+      location_factors: null,
+      coverage_factors: null,
+      discounts_applied: [],
+      surcharges_applied: [],
+      total_factor_multiplier: '1.2000',
+      subtotal_before_discounts: null,
+      total_discount_amount: '0.00',
+      total_surcharge_amount: '0.00',
+      premium_tax_percentage: null,
+      premium_tax_amount: '30.00',
+      policy_fee_amount: '15.00',
+      dmv_fee_amount: '5.00',
+      total_premium: totalPremium,
+      calculation_timestamp: new Date(),
+      calculation_version: '2025-01-01',
+      calculation_trigger: trigger,
+      calculation_notes: null,
+    });
+
+    it('should return the timeline with the change between calculations', async () => {
+      mockDb.orderBy.mockResolvedValue([
+        row('calc-1', '1250.00', 'QUOTE_CREATED'),
+        row('calc-2', '1370.00', 'COVERAGE_UPDATED'),
+      ]);
+
+      const history = await service.getHistory('policy-1');
+
+      expect(history).toHaveLength(2);
+      expect(history[0]).toMatchObject({ trigger: 'QUOTE_CREATED', rateVersion: '2025-01-01', subtotal: 1200, change: null });
+      expect(history[1]).toMatchObject({ trigger: 'COVERAGE_UPDATED', subtotal: 1320, change: 120 });
+      expect(history[1].inputs).toEqual(ratingInput);
+    });
+
+    it('should return an empty timeline when nothing was recorded', async () => {
+      mockDb.orderBy.mockResolvedValue([]);
+
+      expect(await service.getHistory('policy-1')).toEqual([]);
+    });
+  });
+});
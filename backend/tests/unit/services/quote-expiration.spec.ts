@@ -0,0 +1,277 @@
+/**
+ * Unit Tests for quote expiration
+ *
+ * Tests the expire-quotes sweep, rejecting changes to and binding of expired
+ * quotes with ExpiredQuoteError, and re-quoting an expired quote into a new
+ * quote priced with the current rates.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Test, TestingModule } from '@nestjs/testing';
+import { DATABASE_CONNECTION } from '../../../src/database/database.module';
+import { QuoteService } from '../../../src/services/quote/quote.service';
+import { RatingEngineService } from '../../../src/services/rating-engine/rating-engine.service';
+import { PremiumHistoryService, PremiumCalculationTrigger } from '../../../src/services/rating-engine/premium-history.service';
+import { CoverageRatingService } from '../../../src/services/rating-engine/coverage-rating';
+import { BillingScheduleService } from '../../../src/services/billing/billing-schedule.service';
+import { PolicyVersionService } from '../../../src/services/policy/policy-version.service';
+import { PAYMENT_GATEWAY } from '../../../src/services/payment-gateway/payment-gateway';
+import { BusinessRuleError, ExpiredQuoteError } from '../../../src/api/middleware/error-handler';
+import { policy, agreement } from '../../../../database/schema'; // Same module QuoteService imports
+import { signQuoteClaimToken } from '../../../src/services/user-account-service/quote-claim-token';
+
+describe('QuoteService - Quote Expiration', () => {
+  let service: QuoteService;
+  let mockDb: any;
+  let ratingEngine: { calculatePremium: ReturnType<typeof vi.fn> };
+  let premiumHistory: { record: ReturnType<typeof vi.fn> };
+  let logPolicyEvent: ReturnType<typeof vi.fn>;
+  let selectResults: any[][];
+  let updateResults: any[][]; // Rows returned by each update().returning()
+  let updates: Array<{ table: unknown; values: any }>;
+  let inserts: Array<{ table: unknown; values: any }>;
+
+  const rating = { subtotal: 720, totalPremium: 741.6, taxes: [{ amount: 21.6 }], fees: [], discounts: [] };
+
+  const quoteRecord = (overrides: any = {}) => ({
+    policy_identifier: 'policy-1',
+    policy_number: 'DZEXPIRED1',
+    status_code: 'QUOTED',
+    effective_date: '2026-09-01',
+    expiration_date: '2026-10-01',
+    marital_status: 'SINGLE',
+    quote_snapshot: {
+      driver: { firstName: 'Jane', email: 'jane@example.com', birthDate: '1990-05-01' },
+      additionalDrivers: [],
+      vehicles: [{ year: 2020, make: 'Honda', model: 'Civic' }],
+      coverages: { bodilyInjuryLimit: '100000/300000', startDate: '2026-09-15' },
+      address: { state: 'IL' },
+      preferences: { paymentPlan: 'MONTHLY' },
+      premium: { subtotal: 680, total: 700.4 },
+      meta: { quoteNumber: 'DZEXPIRED1', version: 2 },
+    },
+    ...overrides,
+  });
+
+  const updatesTo = (table: unknown) => updates.filter(update => update.table === table).map(update => update.values);
+  const insertsTo = (table: unknown) => inserts.filter(insert => insert.table === table).map(insert => insert.values);
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-10-18T12:00:00'));
+
+    selectResults = [];
+    updateResults = [];
+    updates = [];
+    inserts = [];
+
+    // Each select() returns the next queued result, however the query ends
+    const rowsQuery = (rows: any[]): any => Object.assign(Promise.resolve(rows), {
+      limit: vi.fn().mockResolvedValue(rows),
+    });
+
+    mockDb = {
+      select: vi.fn(() => {
+        const rows = selectResults.shift() || [];
+        const query = { where: () => rowsQuery(rows), innerJoin: () => query };
+        return { from: () => query };
+      }),
+      insert: vi.fn((table: unknown) => ({
+        values: (values: any) => {
+          inserts.push({ table, values });
+          return Object.assign(Promise.resolve(undefined), {
+            returning: vi.fn().mockResolvedValue([{ agreement_identifier: 'policy-2', ...values }]),
+          });
+        },
+      })),
+      update: vi.fn((table: unknown) => ({
+        set: (values: any) => {
+          updates.push({ table, values });
+          return {
+            where: () => Object.assign(Promise.resolve(undefined), {
+              returning: vi.fn(async () => updateResults.shift() || []),
+            }),
+          };
+        },
+      })),
+      transaction: vi.fn(async (callback: (tx: any) => Promise<unknown>) => callback(mockDb)),
+    };
+
+    ratingEngine = { calculatePremium: vi.fn().mockResolvedValue(rating) };
+    premiumHistory = { record: vi.fn().mockResolvedValue({}) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        QuoteService,
+        { provide: DATABASE_CONNECTION, useValue: mockDb },
+        { provide: RatingEngineService, useValue: ratingEngine },
+        { provide: PremiumHistoryService, useValue: premiumHistory },
+        { provide: CoverageRatingService, useValue: {} },
+        { provide: BillingScheduleService, useValue: {} },
+        { provide: PolicyVersionService, useValue: {} },
+        { provide: PAYMENT_GATEWAY, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<QuoteService>(QuoteService);
+    logPolicyEvent = vi.spyOn(service, 'logPolicyEvent').mockResolvedValue(undefined) as any;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('expireQuotes', () => {
+    it('should mark QUOTED quotes past their expiration date EXPIRED', async () => {
+      selectResults.push([
+        quoteRecord(),
+        quoteRecord({ policy_identifier: 'policy-2', policy_number: 'DZEXPIRED2', expiration_date: '2026-10-18' }),
+      ]);
+      updateResults.push([{ policy_identifier: 'policy-1' }], [{ policy_identifier: 'policy-2' }]);
+
+      const result = await service.expireQuotes(new Date('2026-10-18T04:00:00'));
+
+      expect(result).toEqual({ asOf: '2026-10-18', expired: ['DZEXPIRED1', 'DZEXPIRED2'] });
+      expect(updatesTo(policy)).toEqual([
+        expect.objectContaining({ status_code: 'EXPIRED' }),
+        expect.objectContaining({ status_code: 'EXPIRED' }),
+      ]);
+      expect(logPolicyEvent).toHaveBeenCalledWith('policy-1', 'QUOTED', 'EXPIRED', 'Quote expired 2026-10-01 without being bound', mockDb);
+    });
+
+    it('should skip a quote another run already expired or bound', async () => {
+      selectResults.push([quoteRecord()]);
+      updateResults.push([]); // Status guard matched no QUOTED row
+
+      const result = await service.expireQuotes(new Date('2026-10-18T04:00:00'));
+
+      expect(result.expired).toEqual([]);
+      expect(logPolicyEvent).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('rejecting expired quotes', () => {
+    it('should reject changes to a quote past its expiration date before the sweep marks it', async () => {
+      selectResults.push([quoteRecord()]);
+
+      await expect(
+        service.updateQuotePreferences('DZEXPIRED1', { paymentPlan: 'PAY_IN_FULL' })
+      ).rejects.toBeInstanceOf(ExpiredQuoteError);
+      expect(ratingEngine.calculatePremium).not.toHaveBeenCalled();
+      expect(updates).toEqual([]);
+    });
+
+    it('should reject binding an EXPIRED quote with ExpiredQuoteError', async () => {
+      selectResults.push([quoteRecord({ status_code: 'EXPIRED' })]);
+
+      const error = await service.bindQuote('DZEXPIRED1', { paymentMethod: 'credit_card', paymentToken: 'tok_visa' })
+        .catch(err => err);
+
+      expect(error).toBeInstanceOf(ExpiredQuoteError);
+      expect(error).toMatchObject({ quoteId: 'DZEXPIRED1', ruleCode: 'QUOTE_EXPIRED' });
+    });
+
+    it('should still accept changes before the expiration date', async () => {
+      selectResults.push([quoteRecord({ expiration_date: '2026-10-19' })]);
+
+      const result = await service.updateQuotePreferences('DZEXPIRED1', { paymentPlan: 'PAY_IN_FULL' });
+
+      expect(result.premium).toBe(720);
+    });
+
+    it('should not treat an INCOMPLETE quote past its expiration date as expired', async () => {
+      selectResults.push([quoteRecord({ status_code: 'INCOMPLETE' })]);
+
+      const result = await service.updateQuotePreferences('DZEXPIRED1', { paymentPlan: 'PAY_IN_FULL' });
+
+      expect(result.premium).toBe(720);
+    });
+  });
+
+  describe('requoteExpiredQuote', () => {
+    it('should clone the expired quote into a new QUOTED quote at current rates', async () => {
+      selectResults.push([quoteRecord()], [{ product_identifier: 'product-1' }]);
+      updateResults.push([{ policy_identifier: 'policy-1' }], [{ policy_identifier: 'policy-1' }]);
+
+      const result = await service.requoteExpiredQuote('DZEXPIRED1');
+
+      expect(result).toMatchObject({ premium: 720, requotedFrom: 'DZEXPIRED1', previousPremium: 680 });
+      expect(result.quoteNumber).toMatch(/^DZ[A-Z0-9]{8}$/);
+      expect(result.quoteNumber).not.toBe('DZEXPIRED1');
+      expect(result.claimToken).toBe(signQuoteClaimToken(result.quoteNumber));
+
+      // The expired quote is marked before it is cloned, then linked to the new one
+      expect(logPolicyEvent).toHaveBeenCalledWith('policy-1', 'QUOTED', 'EXPIRED', 'Quote expired 2026-10-01 without being bound', mockDb);
+      expect(updatesTo(policy)[1].quote_snapshot.meta.requotedAs).toBe(result.quoteNumber);
+
+      expect(insertsTo(agreement)).toEqual([
+        expect.objectContaining({ product_identifier: 'product-1', driver_email: 'jane@example.com', premium_amount: '720' }),
+      ]);
+      const [newQuote] = insertsTo(policy);
+      expect(newQuote).toMatchObject({
+        policy_number: result.quoteNumber,
+        status_code: 'QUOTED',
+        effective_date: '2026-10-18',
+        expiration_date: '2026-11-17',
+        marital_status: 'SINGLE',
+        coverage_start_date: null,
+      });
+      // The past start date is cleared; drivers, vehicles and preferences carry over
+      expect(newQuote.quote_snapshot).toMatchObject({
+        driver: { firstName: 'Jane' },
+        vehicles: [{ make: 'Honda' }],
+        coverages: { bodilyInjuryLimit: '100000/300000', startDate: null },
+        preferences: { paymentPlan: 'MONTHLY' },
+        premium: { subtotal: 720, total: 741.6 },
+        meta: { quoteNumber: result.quoteNumber, requotedFrom: 'DZEXPIRED1' },
+      });
+      expect(premiumHistory.record).toHaveBeenCalledWith(
+        'policy-2', expect.anything(), rating, PremiumCalculationTrigger.REQUOTED, mockDb
+      );
+    });
+
+    it('should keep a coverage start date that is still ahead', async () => {
+      const expired = quoteRecord({ status_code: 'EXPIRED' });
+      expired.quote_snapshot.coverages.startDate = '2026-11-01';
+      selectResults.push([expired], [{ product_identifier: 'product-1' }]);
+      updateResults.push([{ policy_identifier: 'policy-1' }]);
+
+      await service.requoteExpiredQuote('DZEXPIRED1');
+
+      expect(insertsTo(policy)[0].coverage_start_date).toBe('2026-11-01');
+      expect(logPolicyEvent).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to re-quote a quote that is still valid', async () => {
+      selectResults.push([quoteRecord({ expiration_date: '2026-11-01' })]);
+
+      const error = await service.requoteExpiredQuote('DZEXPIRED1').catch(err => err);
+
+      expect(error).toBeInstanceOf(BusinessRuleError);
+      expect(error.ruleCode).toBe('QUOTE_NOT_EXPIRED');
+      expect(inserts).toEqual([]);
+    });
+
+    it('should refuse to re-quote a quote twice', async () => {
+      const expired = quoteRecord({ status_code: 'EXPIRED' });
+      expired.quote_snapshot.meta = { ...expired.quote_snapshot.meta, requotedAs: 'DZNEWQUOTE' } as any;
+      selectResults.push([expired]);
+
+      await expect(service.requoteExpiredQuote('DZEXPIRED1')).rejects.toMatchObject({
+        ruleCode: 'QUOTE_ALREADY_REQUOTED',
+        message: 'Quote DZEXPIRED1 was already re-quoted as DZNEWQUOTE',
+      });
+    });
+
+    it('should abort when a concurrent re-quote linked the expired quote first', async () => {
+      selectResults.push([quoteRecord({ status_code: 'EXPIRED' })], [{ product_identifier: 'product-1' }]);
+      updateResults.push([]); // requotedAs was no longer empty
+
+      await expect(service.requoteExpiredQuote('DZEXPIRED1')).rejects.toMatchObject({
+        ruleCode: 'QUOTE_ALREADY_REQUOTED',
+        message: 'Quote DZEXPIRED1 was already re-quoted',
+      });
+      expect(mockDb.transaction).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -1,51 +1,63 @@
 /**
- * T132: Unit Tests for QuoteService.calculatePremiumProgressive()
+ * T132: Unit Tests for RatingEngineService.rate()
  *
  * Tests the comprehensive rating engine with vehicle age, driver age,
  * additional drivers, and coverage factors using a multiplicative model.
  *
- * Base formula: basePremium × vehicleFactor × driverFactor × additionalDriversFactor × coverageFactor
+ * Base formula: Σ(basePremium × vehicleFactor × vehicleCoverageFactor) × driverFactor
+ *   × additionalDriversFactor × coverageFactor
+ *
+ * Physical damage (collision, comprehensive) and add-ons load each vehicle's
+ * premium; liability limits load the policy-level coverage factor. All loads
+ * come from the seeded 2025-01-01 rate tables (database/seeds/rating-tables.ts).
  */
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { Test, TestingModule } from '@nestjs/testing';
-import { QuoteService } from '../../../src/services/quote/quote.service';
-import { DATABASE_CONNECTION } from '../../../src/database/database.module';
-
-describe('QuoteService - calculatePremiumProgressive (T132)', () => {
-  let service: QuoteService;
-  let mockDb: any;
+import { RatingEngineService } from '../../../src/services/rating-engine/rating-engine.service';
+import { VehicleRatingService } from '../../../src/services/rating-engine/vehicle-rating';
+import { DriverRatingService } from '../../../src/services/rating-engine/driver-rating';
+import { LocationRatingService } from '../../../src/services/rating-engine/location-rating';
+import { CoverageRatingService } from '../../../src/services/rating-engine/coverage-rating';
+import { DiscountCalculator } from '../../../src/services/rating-engine/discount-calculator';
+import { SurchargeCalculator } from '../../../src/services/rating-engine/surcharge-calculator';
+import { TaxFeeCalculator } from '../../../src/services/rating-engine/tax-fee-calculator';
+import { RateTableService } from '../../../src/services/rating-engine/rate-table.service';
+import { RateBook } from '../../../src/services/rating-engine/rate-book';
+import { RATING_TABLE_SEED } from '../../../../database/seeds/rating-tables';
+
+const rates = new RateBook(RATING_TABLE_SEED as any, '2025-01-01');
+
+describe('RatingEngineService - rated premium (T132)', () => {
+  let ratingEngine: RatingEngineService;
 
   beforeEach(async () => {
-    // Mock database connection
-    mockDb = {
-      select: vi.fn().mockReturnThis(),
-      from: vi.fn().mockReturnThis(),
-      where: vi.fn().mockReturnThis(),
-      limit: vi.fn().mockReturnThis(),
-      insert: vi.fn().mockReturnThis(),
-      values: vi.fn().mockReturnThis(),
-      returning: vi.fn().mockReturnThis(),
-      update: vi.fn().mockReturnThis(),
-      set: vi.fn().mockReturnThis(),
-    };
-
     const module: TestingModule = await Test.createTestingModule({
       providers: [
-        QuoteService,
+        RatingEngineService,
+        VehicleRatingService,
+        DriverRatingService,
+        LocationRatingService,
+        CoverageRatingService,
+        DiscountCalculator,
+        SurchargeCalculator,
+        TaxFeeCalculator,
         {
-          provide: DATABASE_CONNECTION,
-          useValue: mockDb,
+          provide: RateTableService,
+          useValue: { getRateBook: vi.fn().mockResolvedValue(rates) },
         },
       ],
     }).compile();
 
-    service = module.get<QuoteService>(QuoteService);
+    ratingEngine = module.get<RatingEngineService>(RatingEngineService);
   });
 
+  // Rate with the seeded 2025-01-01 rate tables (premium before discounts, surcharges, taxes)
+  const calculate = (data: any): number => ratingEngine.rate(data, rates).adjustedPremium;
+
   describe('Base Premium Calculation', () => {
     it('should start with base premium of $1,000', () => {
-      const premium = (service as any).calculatePremiumProgressive({
+      const premium = calculate({
         driver: {
           firstName: 'John',
           lastName: 'Doe',
@@ -72,7 +84,7 @@ describe('QuoteService - calculatePremiumProgressive (T132)', () => {
   describe('Vehicle Age Factor', () => {
     it('should apply 1.3× factor for vehicles ≤3 years old', () => {
       const currentYear = new Date().getFullYear();
-      const premium = (service as any).calculatePremiumProgressive({
+      const premium = calculate({
         driver: {
           firstName: 'John',
           lastName: 'Doe',
@@ -97,7 +109,7 @@ describe('QuoteService - calculatePremiumProgressive (T132)', () => {
 
     it('should apply 1.0× factor for vehicles 4-7 years old', () => {
       const currentYear = new Date().getFullYear();
-      const premium = (service as any).calculatePremiumProgressive({
+      const premium = calculate({
         driver: {
           firstName: 'John',
           lastName: 'Doe',
@@ -122,7 +134,7 @@ describe('QuoteService - calculatePremiumProgressive (T132)', () => {
 
     it('should apply 0.9× factor for vehicles ≥8 years old', () => {
       const currentYear = new Date().getFullYear();
-      const premium = (service as any).calculatePremiumProgressive({
+      const premium = calculate({
         driver: {
           firstName: 'John',
           lastName: 'Doe',
@@ -148,7 +160,7 @@ describe('QuoteService - calculatePremiumProgressive (T132)', () => {
 
   describe('Driver Age Factor', () => {
     it('should apply 1.8× factor for drivers <25 years old', () => {
-      const premium = (service as any).calculatePremiumProgressive({
+      const premium = calculate({
         driver: {
           firstName: 'Emily',
           lastName: 'Young',
@@ -172,7 +184,7 @@ describe('QuoteService - calculatePremiumProgressive (T132)', () => {
     });
 
     it('should apply 1.0× factor for drivers 25-64 years old', () => {
-      const premium = (service as any).calculatePremiumProgressive({
+      const premium = calculate({
         driver: {
           firstName: 'John',
           lastName: 'Doe',
@@ -196,7 +208,7 @@ describe('QuoteService - calculatePremiumProgressive (T132)', () => {
     });
 
     it('should apply 1.2× factor for drivers ≥65 years old', () => {
-      const premium = (service as any).calculatePremiumProgressive({
+      const premium = calculate({
         driver: {
           firstName: 'Robert',
           lastName: 'Senior',
@@ -222,7 +234,7 @@ describe('QuoteService - calculatePremiumProgressive (T132)', () => {
 
   describe('Additional Drivers Factor', () => {
     it('should apply 1.15× factor per additional driver', () => {
-      const premium = (service as any).calculatePremiumProgressive({
+      const premium = calculate({
         driver: {
           firstName: 'John',
           lastName: 'Doe',
@@ -254,7 +266,7 @@ describe('QuoteService - calculatePremiumProgressive (T132)', () => {
     });
 
     it('should correctly compound for multiple additional drivers', () => {
-      const premium = (service as any).calculatePremiumProgressive({
+      const premium = calculate({
         driver: {
           firstName: 'John',
           lastName: 'Doe',
@@ -296,7 +308,7 @@ describe('QuoteService - calculatePremiumProgressive (T132)', () => {
   describe('Coverage Factors', () => {
     describe('Bodily Injury Limits', () => {
       it('should add 5% for 25/50 limits', () => {
-        const premium = (service as any).calculatePremiumProgressive({
+        const premium = calculate({
           driver: { firstName: 'John', lastName: 'Doe', birthDate: new Date('1990-01-01'), email: 'john@example.com' },
           vehicles: [{ year: 2019, make: 'Toyota', model: 'Camry', vin: '1HGBH41JXMN109186' }],
           coverages: { bodilyInjuryLimit: '25/50' },
@@ -307,7 +319,7 @@ describe('QuoteService - calculatePremiumProgressive (T132)', () => {
       });
 
       it('should add 10% for 50/100 limits', () => {
-        const premium = (service as any).calculatePremiumProgressive({
+        const premium = calculate({
           driver: { firstName: 'John', lastName: 'Doe', birthDate: new Date('1990-01-01'), email: 'john@example.com' },
           vehicles: [{ year: 2019, make: 'Toyota', model: 'Camry', vin: '1HGBH41JXMN109186' }],
           coverages: { bodilyInjuryLimit: '50/100' },
@@ -318,7 +330,7 @@ describe('QuoteService - calculatePremiumProgressive (T132)', () => {
       });
 
       it('should add 15% for 100/300 limits', () => {
-        const premium = (service as any).calculatePremiumProgressive({
+        const premium = calculate({
           driver: { firstName: 'John', lastName: 'Doe', birthDate: new Date('1990-01-01'), email: 'john@example.com' },
           vehicles: [{ year: 2019, make: 'Toyota', model: 'Camry', vin: '1HGBH41JXMN109186' }],
           coverages: { bodilyInjuryLimit: '100/300' },
@@ -328,21 +340,32 @@ describe('QuoteService - calculatePremiumProgressive (T132)', () => {
         expect(premium).toBe(1200);
       });
 
-      it('should add 25% for 250/500 limits', () => {
-        const premium = (service as any).calculatePremiumProgressive({
+      it('should add 25% for 300/500 limits', () => {
+        const premium = calculate({
           driver: { firstName: 'John', lastName: 'Doe', birthDate: new Date('1990-01-01'), email: 'john@example.com' },
           vehicles: [{ year: 2019, make: 'Toyota', model: 'Camry', vin: '1HGBH41JXMN109186' }],
-          coverages: { bodilyInjuryLimit: '250/500' },
+          coverages: { bodilyInjuryLimit: '300/500' },
           additionalDrivers: [],
         });
         // Base: 1000 × 1.0 × 1.0 × 1.0 × (1 + 0.25 BI + 0.05 default PD) = 1300
         expect(premium).toBe(1300);
       });
+
+      it('should rate a limit without a seeded row at the DEFAULT load', () => {
+        const premium = calculate({
+          driver: { firstName: 'John', lastName: 'Doe', birthDate: new Date('1990-01-01'), email: 'john@example.com' },
+          vehicles: [{ year: 2019, make: 'Toyota', model: 'Camry', vin: '1HGBH41JXMN109186' }],
+          coverages: { bodilyInjuryLimit: '250/500' },
+          additionalDrivers: [],
+        });
+        // Base: 1000 × 1.0 × 1.0 × 1.0 × (1 + 0.15 DEFAULT BI + 0.05 default PD) = 1200
+        expect(premium).toBe(1200);
+      });
     });
 
     describe('Property Damage Limits', () => {
       it('should add 3% for $25k limit', () => {
-        const premium = (service as any).calculatePremiumProgressive({
+        const premium = calculate({
           driver: { firstName: 'John', lastName: 'Doe', birthDate: new Date('1990-01-01'), email: 'john@example.com' },
           vehicles: [{ year: 2019, make: 'Toyota', model: 'Camry', vin: '1HGBH41JXMN109186' }],
           coverages: { propertyDamageLimit: '25000' },
@@ -353,7 +376,7 @@ describe('QuoteService - calculatePremiumProgressive (T132)', () => {
       });
 
       it('should add 5% for $50k limit', () => {
-        const premium = (service as any).calculatePremiumProgressive({
+        const premium = calculate({
           driver: { firstName: 'John', lastName: 'Doe', birthDate: new Date('1990-01-01'), email: 'john@example.com' },
           vehicles: [{ year: 2019, make: 'Toyota', model: 'Camry', vin: '1HGBH41JXMN109186' }],
           coverages: { propertyDamageLimit: '50000' },
@@ -364,7 +387,7 @@ describe('QuoteService - calculatePremiumProgressive (T132)', () => {
       });
 
       it('should add 8% for $100k limit', () => {
-        const premium = (service as any).calculatePremiumProgressive({
+        const premium = calculate({
           driver: { firstName: 'John', lastName: 'Doe', birthDate: new Date('1990-01-01'), email: 'john@example.com' },
           vehicles: [{ year: 2019, make: 'Toyota', model: 'Camry', vin: '1HGBH41JXMN109186' }],
           coverages: { propertyDamageLimit: '100000' },
@@ -376,151 +399,162 @@ describe('QuoteService - calculatePremiumProgressive (T132)', () => {
     });
 
     describe('Collision Deductibles', () => {
-      it('should add 35% for $250 deductible', () => {
-        const premium = (service as any).calculatePremiumProgressive({
+      it('should load the vehicle premium 35% for $250 deductible', () => {
+        const premium = calculate({
           driver: { firstName: 'John', lastName: 'Doe', birthDate: new Date('1990-01-01'), email: 'john@example.com' },
           vehicles: [{ year: 2019, make: 'Toyota', model: 'Camry', vin: '1HGBH41JXMN109186' }],
           coverages: { collision: true, collisionDeductible: 250 },
           additionalDrivers: [],
         });
-        // Base: 1000 × 1.0 × 1.0 × 1.0 × (1 + 0.15 default BI + 0.05 default PD + 0.35 collision) = 1550
-        expect(premium).toBe(1550);
+        // Vehicle: 1000 × 1.0 × (1 + 0.35 collision); × 1.0 × 1.0 × (1 + 0.15 default BI + 0.05 default PD) = 1620
+        expect(premium).toBe(1620);
       });
 
-      it('should add 30% for $500 deductible', () => {
-        const premium = (service as any).calculatePremiumProgressive({
+      it('should load the vehicle premium 30% for $500 deductible', () => {
+        const premium = calculate({
           driver: { firstName: 'John', lastName: 'Doe', birthDate: new Date('1990-01-01'), email: 'john@example.com' },
           vehicles: [{ year: 2019, make: 'Toyota', model: 'Camry', vin: '1HGBH41JXMN109186' }],
           coverages: { collision: true, collisionDeductible: 500 },
           additionalDrivers: [],
         });
-        // Base: 1000 × 1.0 × 1.0 × 1.0 × (1 + 0.15 default BI + 0.05 default PD + 0.30 collision) = 1500
-        expect(premium).toBe(1500);
+        // Vehicle: 1000 × 1.0 × (1 + 0.30 collision); × 1.0 × 1.0 × (1 + 0.15 default BI + 0.05 default PD) = 1560
+        expect(premium).toBe(1560);
       });
 
-      it('should add 25% for $1000 deductible', () => {
-        const premium = (service as any).calculatePremiumProgressive({
+      it('should load the vehicle premium 25% for $1000 deductible', () => {
+        const premium = calculate({
           driver: { firstName: 'John', lastName: 'Doe', birthDate: new Date('1990-01-01'), email: 'john@example.com' },
           vehicles: [{ year: 2019, make: 'Toyota', model: 'Camry', vin: '1HGBH41JXMN109186' }],
           coverages: { collision: true, collisionDeductible: 1000 },
           additionalDrivers: [],
         });
-        // Base: 1000 × 1.0 × 1.0 × 1.0 × (1 + 0.15 default BI + 0.05 default PD + 0.25 collision) = 1450
-        expect(premium).toBe(1450);
+        // Vehicle: 1000 × 1.0 × (1 + 0.25 collision); × 1.0 × 1.0 × (1 + 0.15 default BI + 0.05 default PD) = 1500
+        expect(premium).toBe(1500);
       });
 
-      it('should add 20% for $2500 deductible', () => {
-        const premium = (service as any).calculatePremiumProgressive({
+      it('should load the vehicle premium 20% for $2500 deductible', () => {
+        const premium = calculate({
           driver: { firstName: 'John', lastName: 'Doe', birthDate: new Date('1990-01-01'), email: 'john@example.com' },
           vehicles: [{ year: 2019, make: 'Toyota', model: 'Camry', vin: '1HGBH41JXMN109186' }],
           coverages: { collision: true, collisionDeductible: 2500 },
           additionalDrivers: [],
         });
-        // Base: 1000 × 1.0 × 1.0 × 1.0 × (1 + 0.15 default BI + 0.05 default PD + 0.20 collision) = 1400
-        expect(premium).toBe(1400);
+        // Vehicle: 1000 × 1.0 × (1 + 0.20 collision); × 1.0 × 1.0 × (1 + 0.15 default BI + 0.05 default PD) = 1440
+        expect(premium).toBe(1440);
       });
     });
 
     describe('Comprehensive Deductibles', () => {
-      it('should add 25% for $250 deductible', () => {
-        const premium = (service as any).calculatePremiumProgressive({
+      it('should load the vehicle premium 25% for $250 deductible', () => {
+        const premium = calculate({
           driver: { firstName: 'John', lastName: 'Doe', birthDate: new Date('1990-01-01'), email: 'john@example.com' },
           vehicles: [{ year: 2019, make: 'Toyota', model: 'Camry', vin: '1HGBH41JXMN109186' }],
           coverages: { comprehensive: true, comprehensiveDeductible: 250 },
           additionalDrivers: [],
         });
-        // Base: 1000 × 1.0 × 1.0 × 1.0 × (1 + 0.15 default BI + 0.05 default PD + 0.25 comp) = 1450
-        expect(premium).toBe(1450);
+        // Vehicle: 1000 × 1.0 × (1 + 0.25 comp); × 1.0 × 1.0 × (1 + 0.15 default BI + 0.05 default PD) = 1500
+        expect(premium).toBe(1500);
       });
 
-      it('should add 20% for $500 deductible', () => {
-        const premium = (service as any).calculatePremiumProgressive({
+      it('should load the vehicle premium 20% for $500 deductible', () => {
+        const premium = calculate({
           driver: { firstName: 'John', lastName: 'Doe', birthDate: new Date('1990-01-01'), email: 'john@example.com' },
           vehicles: [{ year: 2019, make: 'Toyota', model: 'Camry', vin: '1HGBH41JXMN109186' }],
           coverages: { comprehensive: true, comprehensiveDeductible: 500 },
           additionalDrivers: [],
         });
-        // Base: 1000 × 1.0 × 1.0 × 1.0 × (1 + 0.15 default BI + 0.05 default PD + 0.20 comp) = 1400
-        expect(premium).toBe(1400);
+        // Vehicle: 1000 × 1.0 × (1 + 0.20 comp); × 1.0 × 1.0 × (1 + 0.15 default BI + 0.05 default PD) = 1440
+        expect(premium).toBe(1440);
       });
 
-      it('should add 15% for $1000 deductible', () => {
-        const premium = (service as any).calculatePremiumProgressive({
+      it('should load the vehicle premium 15% for $1000 deductible', () => {
+        const premium = calculate({
           driver: { firstName: 'John', lastName: 'Doe', birthDate: new Date('1990-01-01'), email: 'john@example.com' },
           vehicles: [{ year: 2019, make: 'Toyota', model: 'Camry', vin: '1HGBH41JXMN109186' }],
           coverages: { comprehensive: true, comprehensiveDeductible: 1000 },
           additionalDrivers: [],
         });
-        // Base: 1000 × 1.0 × 1.0 × 1.0 × (1 + 0.15 default BI + 0.05 default PD + 0.15 comp) = 1350
-        expect(premium).toBe(1350);
+        // Vehicle: 1000 × 1.0 × (1 + 0.15 comp); × 1.0 × 1.0 × (1 + 0.15 default BI + 0.05 default PD) = 1380
+        expect(premium).toBe(1380);
       });
 
-      it('should add 10% for $2500 deductible', () => {
-        const premium = (service as any).calculatePremiumProgressive({
+      it('should load the vehicle premium 10% for $2500 deductible', () => {
+        const premium = calculate({
           driver: { firstName: 'John', lastName: 'Doe', birthDate: new Date('1990-01-01'), email: 'john@example.com' },
           vehicles: [{ year: 2019, make: 'Toyota', model: 'Camry', vin: '1HGBH41JXMN109186' }],
           coverages: { comprehensive: true, comprehensiveDeductible: 2500 },
           additionalDrivers: [],
         });
-        // Base: 1000 × 1.0 × 1.0 × 1.0 × (1 + 0.15 default BI + 0.05 default PD + 0.10 comp) = 1300
-        expect(premium).toBe(1300);
+        // Vehicle: 1000 × 1.0 × (1 + 0.10 comp); × 1.0 × 1.0 × (1 + 0.15 default BI + 0.05 default PD) = 1320
+        expect(premium).toBe(1320);
       });
     });
 
     describe('Optional Coverages', () => {
-      it('should add 10% for uninsured motorist coverage', () => {
-        const premium = (service as any).calculatePremiumProgressive({
+      it('should add 10% for 100/300 uninsured motorist coverage', () => {
+        const premium = calculate({
           driver: { firstName: 'John', lastName: 'Doe', birthDate: new Date('1990-01-01'), email: 'john@example.com' },
           vehicles: [{ year: 2019, make: 'Toyota', model: 'Camry', vin: '1HGBH41JXMN109186' }],
-          coverages: { uninsuredMotorist: true },
+          coverages: { uninsuredMotoristBodilyInjury: '100/300' },
           additionalDrivers: [],
         });
-        // Base: 1000 × 1.0 × 1.0 × 1.0 × (1 + 0.15 default BI + 0.05 default PD + 0.10 uninsured) = 1300
+        // Base: 1000 × 1.0 × 1.0 × 1.0 × (1 + 0.15 default BI + 0.05 default PD + 0.10 UMBI) = 1300
         expect(premium).toBe(1300);
       });
 
-      it('should add 5% for roadside assistance', () => {
-        const premium = (service as any).calculatePremiumProgressive({
+      it('should add 9% for 100/300 underinsured motorist coverage', () => {
+        const premium = calculate({
           driver: { firstName: 'John', lastName: 'Doe', birthDate: new Date('1990-01-01'), email: 'john@example.com' },
           vehicles: [{ year: 2019, make: 'Toyota', model: 'Camry', vin: '1HGBH41JXMN109186' }],
-          coverages: { roadsideAssistance: true },
+          coverages: { underinsuredMotoristBodilyInjury: '100/300' },
           additionalDrivers: [],
         });
-        // Base: 1000 × 1.0 × 1.0 × 1.0 × (1 + 0.15 default BI + 0.05 default PD + 0.05 roadside) = 1250
-        expect(premium).toBe(1250);
+        // Base: 1000 × 1.0 × 1.0 × 1.0 × (1 + 0.15 default BI + 0.05 default PD + 0.09 UIMBI) = 1290
+        expect(premium).toBe(1290);
       });
 
-      it('should add 3% for $30/day rental reimbursement', () => {
-        const premium = (service as any).calculatePremiumProgressive({
+      it('should not charge for roadside assistance', () => {
+        const premium = calculate({
           driver: { firstName: 'John', lastName: 'Doe', birthDate: new Date('1990-01-01'), email: 'john@example.com' },
           vehicles: [{ year: 2019, make: 'Toyota', model: 'Camry', vin: '1HGBH41JXMN109186' }],
-          coverages: { rentalReimbursement: true, rentalLimit: 30 },
+          coverages: { roadsideAssistance: true },
           additionalDrivers: [],
         });
-        // Base: 1000 × 1.0 × 1.0 × 1.0 × (1 + 0.15 default BI + 0.05 default PD + 0.03 rental) = 1230
-        expect(premium).toBe(1230);
+        // Roadside has no rating table row; it is included at no cost
+        // Base: 1000 × 1.0 × 1.0 × 1.0 × (1 + 0.15 default BI + 0.05 default PD) = 1200
+        expect(premium).toBe(1200);
       });
 
-      it('should add 5% for $50/day rental reimbursement', () => {
-        const premium = (service as any).calculatePremiumProgressive({
+      it('should load the vehicle premium 4% for rental reimbursement', () => {
+        const premium = calculate({
           driver: { firstName: 'John', lastName: 'Doe', birthDate: new Date('1990-01-01'), email: 'john@example.com' },
           vehicles: [{ year: 2019, make: 'Toyota', model: 'Camry', vin: '1HGBH41JXMN109186' }],
           coverages: { rentalReimbursement: true, rentalLimit: 50 },
+          vehicleAddOns: [{ vehicle_index: 0, rental_reimbursement: true }],
           additionalDrivers: [],
         });
-        // Base: 1000 × 1.0 × 1.0 × 1.0 × (1 + 0.15 default BI + 0.05 default PD + 0.05 rental) = 1250
-        expect(premium).toBe(1250);
+        // RENTAL_REIMBURSEMENT is a flat per-vehicle load, whatever the daily limit
+        // Vehicle: 1000 × 1.0 × (1 + 0.04 rental); × 1.0 × 1.0 × (1 + 0.15 default BI + 0.05 default PD) = 1248
+        expect(premium).toBe(1248);
       });
 
-      it('should add 7% for $75/day rental reimbursement', () => {
-        const premium = (service as any).calculatePremiumProgressive({
+      it('should load only the vehicles that carry the add-on', () => {
+        const premium = calculate({
           driver: { firstName: 'John', lastName: 'Doe', birthDate: new Date('1990-01-01'), email: 'john@example.com' },
-          vehicles: [{ year: 2019, make: 'Toyota', model: 'Camry', vin: '1HGBH41JXMN109186' }],
-          coverages: { rentalReimbursement: true, rentalLimit: 75 },
+          vehicles: [
+            { year: 2019, make: 'Toyota', model: 'Camry', vin: '1HGBH41JXMN109186' },
+            { year: 2019, make: 'Honda', model: 'Accord', vin: '1HGCV1F30KA000001' },
+          ],
+          coverages: {},
+          vehicleAddOns: [
+            { vehicle_index: 0, original_parts_replacement: true },
+            { vehicle_index: 1 },
+          ],
           additionalDrivers: [],
         });
-        // Base: 1000 × 1.0 × 1.0 × 1.0 × (1 + 0.15 default BI + 0.05 default PD + 0.07 rental) = 1270
-        expect(premium).toBe(1270);
+        // Vehicles: 1000 × (1 + 0.06 OEM parts) + 1000 = 2060; × 0.85 multi-car
+        // × 1.0 × 1.0 × (1 + 0.15 default BI + 0.05 default PD) = 2101.2 → 2101
+        expect(premium).toBe(2101);
       });
     });
   });
@@ -528,7 +562,7 @@ describe('QuoteService - calculatePremiumProgressive (T132)', () => {
   describe('Multiplicative Model', () => {
     it('should correctly multiply all factors together', () => {
       const currentYear = new Date().getFullYear();
-      const premium = (service as any).calculatePremiumProgressive({
+      const premium = calculate({
         driver: {
           firstName: 'Emily',
           lastName: 'Young',
@@ -547,10 +581,10 @@ describe('QuoteService - calculatePremiumProgressive (T132)', () => {
           bodilyInjuryLimit: '100/300', // +0.15
           propertyDamageLimit: '50000', // +0.05
           collision: true,
-          collisionDeductible: 500, // +0.30
+          collisionDeductible: 500, // +0.30 to the vehicle
           comprehensive: true,
-          comprehensiveDeductible: 500, // +0.20
-          uninsuredMotorist: true, // +0.10
+          comprehensiveDeductible: 500, // +0.20 to the vehicle
+          uninsuredMotoristBodilyInjury: '100/300', // +0.10
         },
         additionalDrivers: [
           {
@@ -564,19 +598,19 @@ describe('QuoteService - calculatePremiumProgressive (T132)', () => {
       });
 
       // Base: $1000
-      // Vehicle: 1.3 (new car)
+      // Vehicle: 1.3 (new car) × (1.0 + 0.30 + 0.20) physical damage = 1950
       // Driver: 1.8 (young driver)
       // Additional Drivers: 1.15 (1 additional driver)
-      // Coverage: 1.0 + 0.15 + 0.05 + 0.30 + 0.20 + 0.10 = 1.80
-      // Total: 1000 × 1.3 × 1.8 × 1.15 × 1.80 = 4,843.8 → 4,844 (rounded)
-      expect(premium).toBe(4844);
+      // Coverage: 1.0 + 0.15 + 0.05 + 0.10 = 1.30
+      // Total: 1950 × 1.8 × 1.15 × 1.30 = 5,247.45 → 5,247 (rounded)
+      expect(premium).toBe(5247);
     });
   });
 
   describe('Premium Range Validation', () => {
     it('should produce premiums in $800-$3500 range for typical scenarios', () => {
       // Scenario 1: Middle-aged driver, mid-age car, standard coverage
-      const scenario1 = (service as any).calculatePremiumProgressive({
+      const scenario1 = calculate({
         driver: { firstName: 'John', lastName: 'Doe', birthDate: new Date('1985-01-01'), email: 'john@example.com' },
         vehicles: [{ year: 2019, make: 'Toyota', model: 'Camry', vin: '1HGBH41JXMN109186' }],
         coverages: {
@@ -587,13 +621,13 @@ describe('QuoteService - calculatePremiumProgressive (T132)', () => {
         },
         additionalDrivers: [],
       });
-      // 1000 × 1.0 × 1.0 × 1.0 × (1 + 0.15 BI + 0.05 PD + 0.25 collision) = 1450
-      expect(scenario1).toBe(1450);
+      // 1000 × 1.0 × (1 + 0.25 collision) × 1.0 × 1.0 × (1 + 0.15 BI + 0.05 PD) = 1500
+      expect(scenario1).toBe(1500);
       expect(scenario1).toBeGreaterThanOrEqual(800);
       expect(scenario1).toBeLessThanOrEqual(3500);
 
       // Scenario 2: Young driver, old car, minimum coverage
-      const scenario2 = (service as any).calculatePremiumProgressive({
+      const scenario2 = calculate({
         driver: { firstName: 'Emily', lastName: 'Young', birthDate: new Date('2003-01-01'), email: 'emily@example.com' },
         vehicles: [{ year: 2010, make: 'Honda', model: 'Civic', vin: '1HGBH41JXMN109186' }],
         coverages: {
@@ -609,26 +643,208 @@ describe('QuoteService - calculatePremiumProgressive (T132)', () => {
 
       // Scenario 3: Senior driver, new car, high coverage
       const currentYear = new Date().getFullYear();
-      const scenario3 = (service as any).calculatePremiumProgressive({
+      const scenario3 = calculate({
         driver: { firstName: 'Robert', lastName: 'Senior', birthDate: new Date('1955-01-01'), email: 'robert@example.com' },
         vehicles: [{ year: currentYear - 1, make: 'Lexus', model: 'ES', vin: 'JTHBK1GG0K2000001' }],
         coverages: {
-          bodilyInjuryLimit: '250/500',
+          bodilyInjuryLimit: '300/500',
           propertyDamageLimit: '100000',
           collision: true,
           collisionDeductible: 250,
           comprehensive: true,
           comprehensiveDeductible: 250,
-          uninsuredMotorist: true,
           roadsideAssistance: true,
         },
         additionalDrivers: [],
       });
-      // 1000 × 1.3 (new car) × 1.2 (senior) × 1.0 × (1 + 0.25 BI + 0.08 PD + 0.35 coll + 0.25 comp + 0.10 uninsured + 0.05 roadside)
-      // = 1000 × 1.3 × 1.2 × 2.08 = 3245
-      expect(scenario3).toBe(3245);
+      // 1000 × 1.3 (new car) × (1 + 0.35 coll + 0.25 comp) × 1.2 (senior) × 1.0 × (1 + 0.25 BI + 0.08 PD)
+      // = 2080 × 1.2 × 1.33 = 3319.68 → 3320 (roadside is free)
+      expect(scenario3).toBe(3320);
       expect(scenario3).toBeGreaterThanOrEqual(800);
       expect(scenario3).toBeLessThanOrEqual(3500);
     });
   });
+
+  describe('Itemized Output', () => {
+    const baseInput = {
+      driver: { firstName: 'John', lastName: 'Doe', birthDate: new Date('1990-01-01'), email: 'john@example.com' },
+      vehicles: [{ year: 2019, make: 'Toyota', model: 'Camry', vin: '1HGBH41JXMN109186' }],
+      coverages: { bodilyInjuryLimit: '100/300', propertyDamageLimit: '50000' },
+      location: { state: 'CA', zipCode: '90210' },
+      additionalDrivers: [],
+    };
+
+    it('should itemize factors, rate version and per-vehicle premiums', () => {
+      const rating = ratingEngine.rate(baseInput, rates);
+
+      expect(rating.rateVersion).toBe('2025-01-01');
+      expect(rating.basePremium).toBe(1000);
+      expect(rating.driverFactor).toBe(1.0);
+      expect(rating.coverageFactor).toBeCloseTo(1.2, 10);
+      expect(rating.locationFactor).toBe(1.0);
+      expect(rating.breakdown.vehicles).toHaveLength(1);
+      expect(rating.breakdown.vehicles[0].description).toBe('2019 Toyota Camry');
+      expect(rating.breakdown.factorDetails.location.territoryType).toBeDefined();
+    });
+
+    it('should apply no discounts or surcharges without eligibility data', () => {
+      const rating = ratingEngine.rate(baseInput, rates);
+
+      expect(rating.discounts).toEqual([]);
+      expect(rating.surcharges).toEqual([]);
+      expect(rating.subtotal).toBe(rating.adjustedPremium);
+    });
+
+    it('should itemize discounts and surcharges when eligible', () => {
+      const rating = ratingEngine.rate({
+        ...baseInput,
+        driver: { ...baseInput.driver, yearsLicensed: 1 },
+        paperlessDiscount: true,
+      }, rates);
+
+      expect(rating.discounts.map(d => d.code)).toEqual(['PAPERLESS']);
+      expect(rating.surcharges.map(s => s.code)).toEqual(['INEXPERIENCED_DRIVER']);
+      expect(rating.subtotal).toBeCloseTo(
+        rating.adjustedPremium - rating.totalDiscounts + rating.totalSurcharges,
+        2
+      );
+    });
+
+    it('should explain every discount, applied or not', () => {
+      const rating = ratingEngine.rate(baseInput, rates);
+
+      expect(rating.discountEligibility.map(d => d.code)).toEqual([
+        'SAFE_DRIVER', 'GOOD_STUDENT', 'DEFENSIVE_DRIVING', 'MULTI_POLICY', 'PAY_IN_FULL',
+        'PAPERLESS', 'LOW_MILEAGE', 'HOMEOWNER', 'ADVANCE_QUOTE',
+      ]);
+      expect(rating.discountEligibility.every(d => !d.eligible && d.explanation.length > 0)).toBe(true);
+      expect(rating.discountEligibility.find(d => d.code === 'GOOD_STUDENT')?.explanation)
+        .toBe('Only available to drivers under 25');
+    });
+
+    it('should apply safe driver, good student, defensive driving, multi-policy, pay-in-full and paperless discounts', () => {
+      const rating = ratingEngine.rate({
+        ...baseInput,
+        driver: {
+          ...baseInput.driver,
+          birthDate: new Date('2003-06-01'),
+          goodStudent: true,
+          defensiveDrivingCourse: true,
+          violations: [],
+          accidents: [],
+        },
+        asOfDate: '2025-01-01T00:00:00.000Z',
+        multiPolicyDiscount: true,
+        payInFullDiscount: true,
+        paperlessDiscount: true,
+      }, rates);
+
+      expect(rating.discounts.map(d => d.code)).toEqual([
+        'SAFE_DRIVER', 'GOOD_STUDENT', 'DEFENSIVE_DRIVING', 'MULTI_POLICY', 'PAY_IN_FULL', 'PAPERLESS',
+      ]);
+      expect(rating.discounts.find(d => d.code === 'SAFE_DRIVER')?.explanation)
+        .toBe('No at-fault accidents or violations in the last 3 years (reduced to fit the 50% total discount cap)');
+      // 20 + 10 + 8 + 10 + 7 + 4 = 59% is pro-rated down to the 50% cap
+      expect(rating.discounts.reduce((sum, d) => sum + d.percentage, 0)).toBeCloseTo(50, 10);
+      expect(rating.discountEligibility.filter(d => d.eligible).every(d => d.capped)).toBe(true);
+      expect(rating.totalDiscounts).toBeCloseTo(rating.adjustedPremium * 0.5, 1);
+    });
+
+    it('should withhold the safe driver discount for recent incidents', () => {
+      const rating = ratingEngine.rate({
+        ...baseInput,
+        driver: {
+          ...baseInput.driver,
+          violations: [{ type: 'SPEEDING', date: '2024-03-01' }],
+          accidents: [],
+        },
+        asOfDate: '2025-01-01T00:00:00.000Z',
+      }, rates);
+
+      const safeDriver = rating.discountEligibility.find(d => d.code === 'SAFE_DRIVER');
+      expect(safeDriver?.eligible).toBe(false);
+      expect(safeDriver?.explanation).toBe('1 at-fault accident or violation in the last 3 years');
+    });
+
+    it('should add state taxes and fees on top of the subtotal', () => {
+      const rating = ratingEngine.rate(baseInput, rates);
+
+      expect(rating.taxes.map(t => t.type)).toEqual(['PREMIUM_TAX']);
+      expect(rating.fees.map(f => f.type)).toEqual(['POLICY_FEE', 'DMV_FEE']);
+      expect(rating.totalTaxesAndFees).toBeGreaterThan(0);
+      expect(rating.totalPremium).toBeCloseTo(rating.subtotal + rating.totalTaxesAndFees, 2);
+    });
+
+    it('should label tax and fee lines for the garaging state', () => {
+      const rating = ratingEngine.rate(baseInput, rates);
+      const lineTotal = [...rating.taxes, ...rating.fees].reduce((sum, line) => sum + line.amount, 0);
+
+      expect(rating.taxes[0].name).toBe('CA Premium Tax (2.35%)');
+      expect(rating.fees.map(f => f.name)).toEqual(['Policy Fee', 'CA DMV Fee']);
+      expect(rating.totalPremium).toBeCloseTo(rating.subtotal + lineTotal, 2);
+    });
+  });
+
+  describe('Driving Record Surcharges', () => {
+    const baseInput = {
+      driver: { firstName: 'John', lastName: 'Doe', birthDate: new Date('1990-01-01'), email: 'john@example.com' },
+      vehicles: [{ year: 2019, make: 'Toyota', model: 'Camry', vin: '1HGBH41JXMN109186' }],
+      location: { state: 'CA', zipCode: '90210' },
+      asOfDate: '2025-01-01T00:00:00.000Z',
+    };
+
+    const rateWithRecord = (violations: any[], accidents: any[] = []) =>
+      ratingEngine.rate({ ...baseInput, driver: { ...baseInput.driver, violations, accidents } }, rates);
+
+    it('should surcharge minor violations for 3 years', () => {
+      const recent = rateWithRecord([{ type: 'SPEEDING', date: '2023-06-01' }]);
+      const expired = rateWithRecord([{ type: 'SPEEDING', date: '2021-06-01' }]);
+
+      expect(recent.surcharges).toEqual([
+        expect.objectContaining({
+          code: 'VIOLATION_HISTORY',
+          percentage: 15,
+          description: '1 violation within the lookback period: SPEEDING (2023-06-01)',
+        }),
+      ]);
+      expect(expired.surcharges).toEqual([]);
+    });
+
+    it('should surcharge a DUI for 5 years', () => {
+      const rating = rateWithRecord([{ type: 'DUI', date: '2021-06-01' }]);
+
+      expect(rating.surcharges.map(s => [s.code, s.percentage])).toEqual([['VIOLATION_HISTORY', 50]]);
+      expect(rateWithRecord([{ type: 'DUI', date: '2019-06-01' }]).surcharges).toEqual([]);
+    });
+
+    it('should surcharge at-fault accidents only', () => {
+      const rating = rateWithRecord([], [
+        { type: 'COLLISION', atFault: true, date: '2024-02-10' },
+        { type: 'COLLISION', atFault: false, date: '2024-08-15' },
+      ]);
+
+      expect(rating.surcharges).toEqual([
+        expect.objectContaining({
+          code: 'ACCIDENT_HISTORY',
+          percentage: 30,
+          description: '1 at-fault accident in the last 3 years: COLLISION (2024-02-10)',
+        }),
+      ]);
+      expect(rating.totalSurcharges).toBeCloseTo(rating.adjustedPremium * 0.3, 2);
+    });
+
+    it('should count the driving record of additional drivers', () => {
+      const rating = ratingEngine.rate({
+        ...baseInput,
+        additionalDrivers: [{
+          firstName: 'Jane',
+          lastName: 'Doe',
+          birthDate: '1991-05-05',
+          violations: [{ type: 'RECKLESS_DRIVING', date: '2024-01-20' }],
+        }],
+      }, rates);
+
+      expect(rating.surcharges.map(s => [s.code, s.percentage])).toEqual([['VIOLATION_HISTORY', 50]]);
+    });
+  });
 });
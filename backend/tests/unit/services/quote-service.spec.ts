@@ -12,7 +12,25 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { Test, TestingModule } from '@nestjs/testing';
 import { QuoteService } from '../../../src/services/quote/quote.service';
+import { PolicyVersionService } from '../../../src/services/policy/policy-version.service';
 import { DATABASE_CONNECTION } from '../../../src/database/database.module';
+import { RatingEngineService } from '../../../src/services/rating-engine/rating-engine.service';
+import { VehicleRatingService } from '../../../src/services/rating-engine/vehicle-rating';
+import { DriverRatingService } from '../../../src/services/rating-engine/driver-rating';
+import { LocationRatingService } from '../../../src/services/rating-engine/location-rating';
+import { CoverageRatingService } from '../../../src/services/rating-engine/coverage-rating';
+import { DiscountCalculator } from '../../../src/services/rating-engine/discount-calculator';
+import { SurchargeCalculator } from '../../../src/services/rating-engine/surcharge-calculator';
+import { TaxFeeCalculator } from '../../../src/services/rating-engine/tax-fee-calculator';
+import { RateTableService } from '../../../src/services/rating-engine/rate-table.service';
+import { PremiumHistoryService } from '../../../src/services/rating-engine/premium-history.service';
+import { BillingScheduleService } from '../../../src/services/billing/billing-schedule.service';
+import { PAYMENT_GATEWAY } from '../../../src/services/payment-gateway/payment-gateway';
+import { MockPaymentGateway } from '../../../src/services/payment-gateway/mock-payment-gateway';
+import { RateBook } from '../../../src/services/rating-engine/rate-book';
+import { RATING_TABLE_SEED } from '../../../../database/seeds/rating-tables';
+
+const rates = new RateBook(RATING_TABLE_SEED as any, '2025-01-01');
 import { NotFoundException, BadRequestException } from '@nestjs/common';
 
 describe('QuoteService - CRUD Operations (T140)', () => {
@@ -31,6 +49,7 @@ describe('QuoteService - CRUD Operations (T140)', () => {
       returning: vi.fn().mockReturnThis(),
       update: vi.fn().mockReturnThis(),
       set: vi.fn().mockReturnThis(),
+      delete: vi.fn().mockReturnThis(),
       innerJoin: vi.fn().mockReturnThis(),
       leftJoin: vi.fn().mockReturnThis(),
       orderBy: vi.fn().mockReturnThis(),
@@ -43,6 +62,22 @@ describe('QuoteService - CRUD Operations (T140)', () => {
           provide: DATABASE_CONNECTION,
           useValue: mockDb,
         },
+        RatingEngineService,
+        VehicleRatingService,
+        DriverRatingService,
+        LocationRatingService,
+        CoverageRatingService,
+        DiscountCalculator,
+        SurchargeCalculator,
+        TaxFeeCalculator,
+        PremiumHistoryService,
+        BillingScheduleService,
+        PolicyVersionService,
+        { provide: PAYMENT_GATEWAY, useClass: MockPaymentGateway },
+        {
+          provide: RateTableService,
+          useValue: { getRateBook: vi.fn().mockResolvedValue(rates) },
+        },
       ],
     }).compile();
 
@@ -524,6 +559,7 @@ describe('QuoteService - CRUD Operations (T140)', () => {
               policy_number: quoteNumber,
               quote_snapshot: mockSnapshot,
               effective_date: '2025-10-24',
+              status_code: 'QUOTED',
             },
           ]);
         }),
@@ -596,6 +632,7 @@ describe('QuoteService - CRUD Operations (T140)', () => {
               policy_number: quoteNumber,
               quote_snapshot: mockSnapshot,
               effective_date: '2025-10-24',
+              status_code: 'QUOTED',
             },
           ]);
         }),
@@ -656,6 +693,7 @@ describe('QuoteService - CRUD Operations (T140)', () => {
               policy_number: quoteNumber,
               quote_snapshot: mockSnapshot,
               effective_date: '2025-10-24',
+              status_code: 'QUOTED',
             },
           ]);
         }),
@@ -722,6 +760,7 @@ describe('QuoteService - CRUD Operations (T140)', () => {
               policy_number: quoteNumber,
               quote_snapshot: mockSnapshot,
               effective_date: '2025-10-24',
+              status_code: 'QUOTED',
             },
           ]);
         }),
@@ -796,7 +835,10 @@ describe('QuoteService - CRUD Operations (T140)', () => {
       mockDb.select.mockReturnValue(mockChain);
       mockDb.update.mockReturnThis();
       mockDb.set.mockReturnThis();
-      mockDb.where.mockResolvedValue(undefined);
+      // The status change is guarded and returns the updated policy
+      mockDb.where.mockReturnValue(Object.assign(Promise.resolve(undefined), {
+        returning: vi.fn().mockResolvedValue([{ policy_identifier: 'policy-123' }]),
+      }));
 
       const coverages = {
         startDate: '2025-11-01',
@@ -809,6 +851,8 @@ describe('QuoteService - CRUD Operations (T140)', () => {
         uninsuredMotorist: true,
       };
 
+      const logPolicyEvent = vi.spyOn(service, 'logPolicyEvent').mockResolvedValue(undefined);
+
       const result = await service.updateQuoteCoverage(quoteNumber, coverages);
 
       expect(result.quoteNumber).toBe(quoteNumber);
@@ -816,7 +860,8 @@ describe('QuoteService - CRUD Operations (T140)', () => {
 
       // Verify update was called with QUOTED status
       expect(mockDb.update).toHaveBeenCalled();
-      expect(mockDb.set).toHaveBeenCalled();
+      expect(mockDb.set).toHaveBeenCalledWith(expect.objectContaining({ status_code: 'QUOTED' }));
+      expect(logPolicyEvent).toHaveBeenCalledWith('policy-123', 'INCOMPLETE', 'QUOTED', 'Coverage selected and quote priced', mockDb);
     });
   });
 });
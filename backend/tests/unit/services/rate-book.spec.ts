@@ -0,0 +1,48 @@
+/**
+ * Unit Tests for RateBook
+ *
+ * Tests rate lookups against the seeded 2025-01-01 rating tables: exact keys,
+ * DEFAULT fallback, band tables and split-limit normalization.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { RateBook, RateNotFoundError, normalizeSplitLimit } from '../../../src/services/rating-engine/rate-book';
+import { RATING_TABLE_SEED } from '../../../../database/seeds/rating-tables';
+
+describe('RateBook', () => {
+  const rates = new RateBook(RATING_TABLE_SEED as any, '2025-06-01');
+
+  it('should use the latest effective date as the rate version', () => {
+    expect(rates.version).toBe('2025-01-01');
+  });
+
+  it('should look up rates by exact key', () => {
+    expect(rates.lookup('BASE_PREMIUM')).toBe(1000);
+    expect(rates.lookup('COLLISION_DEDUCTIBLE', 250)).toBe(0.35);
+    expect(rates.lookup('BI_LIMIT', '300/500')).toBe(0.25);
+  });
+
+  it('should fall back to the DEFAULT row for unknown keys', () => {
+    expect(rates.lookup('COLLISION_DEDUCTIBLE', 999)).toBe(0.30);
+    expect(rates.lookup('PD_LIMIT', null)).toBe(0.05);
+  });
+
+  it('should throw RateNotFoundError when a table has no matching row', () => {
+    expect(() => rates.lookup('NO_SUCH_TABLE')).toThrow(RateNotFoundError);
+  });
+
+  it('should look up band tables inclusively with open-ended bounds', () => {
+    expect(rates.band('DRIVER_AGE', 24)).toBe(1.8);
+    expect(rates.band('DRIVER_AGE', 25)).toBe(1.0);
+    expect(rates.band('DRIVER_AGE', 90)).toBe(1.2);
+    expect(rates.band('VEHICLE_AGE', -1)).toBe(1.3);
+    expect(rates.band('VEHICLE_AGE', 8)).toBe(0.9);
+  });
+
+  it('should normalize split limits to thousands', () => {
+    expect(normalizeSplitLimit('100000/300000')).toBe('100/300');
+    expect(normalizeSplitLimit('100/300')).toBe('100/300');
+    expect(normalizeSplitLimit('CSL')).toBe('CSL');
+    expect(normalizeSplitLimit(undefined)).toBeNull();
+  });
+});
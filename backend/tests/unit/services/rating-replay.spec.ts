@@ -0,0 +1,159 @@
+/**
+ * Unit Tests for RatingReplayService
+ *
+ * Tests deterministic re-rating of a stored quote under its original rate
+ * version and a target rate version, and the structured diff between them.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException, BadRequestException } from '@nestjs/common';
+import { DATABASE_CONNECTION } from '../../../src/database/database.module';
+import { RatingReplayService } from '../../../src/services/rating-engine/rating-replay.service';
+import { RatingEngineService } from '../../../src/services/rating-engine/rating-engine.service';
+import { VehicleRatingService } from '../../../src/services/rating-engine/vehicle-rating';
+import { DriverRatingService } from '../../../src/services/rating-engine/driver-rating';
+import { LocationRatingService } from '../../../src/services/rating-engine/location-rating';
+import { CoverageRatingService } from '../../../src/services/rating-engine/coverage-rating';
+import { DiscountCalculator } from '../../../src/services/rating-engine/discount-calculator';
+import { SurchargeCalculator } from '../../../src/services/rating-engine/surcharge-calculator';
+import { TaxFeeCalculator } from '../../../src/services/rating-engine/tax-fee-calculator';
+import { RateTableService } from '../../../src/services/rating-engine/rate-table.service';
+import { RateBook } from '../../../src/services/rating-engine/rate-book';
+import { RATING_TABLE_SEED } from '../../../../database/seeds/rating-tables';
+
+const originalRates = new RateBook(RATING_TABLE_SEED as any, '2025-06-01');
+
+// Next rate version: base premium up 10%, everything else unchanged
+const targetRates = new RateBook(
+  RATING_TABLE_SEED.map(row => ({
+    ...row,
+    effective_date: '2026-01-01',
+    rate_value: row.table_name === 'BASE_PREMIUM' ? '1100' : row.rate_value,
+  })) as any,
+  '2026-02-01'
+);
+
+describe('RatingReplayService', () => {
+  let service: RatingReplayService;
+  let mockDb: any;
+  let getRateBook: ReturnType<typeof vi.fn>;
+
+  const quoteSnapshot = {
+    driver: { firstName: 'John', lastName: 'Doe', birthDate: '1990-01-01', email: 'john@example.com' },
+    additionalDrivers: [],
+    vehicles: [{ year: 2019, make: 'Toyota', model: 'Camry', vin: '1HGBH41JXMN109186' }],
+    address: { addressLine1: '1 Main St', city: 'Beverly Hills', state: 'CA', zipCode: '90210' },
+    coverages: { startDate: '2025-06-01', bodilyInjuryLimit: '100/300', propertyDamageLimit: '50000' },
+    premium: { total: 1140, monthly: 190, sixMonth: 1140 },
+    rating: { ratingDate: '2025-06-01', ratedAt: '2025-05-01T12:00:00.000Z' },
+    meta: { createdAt: '2025-05-01T12:00:00.000Z' },
+  };
+
+  beforeEach(async () => {
+    mockDb = {
+      select: vi.fn().mockReturnThis(),
+      from: vi.fn().mockReturnThis(),
+      where: vi.fn().mockReturnThis(),
+      limit: vi.fn().mockResolvedValue([
+        { policy_identifier: 'policy-1', policy_number: 'DZTEST1234', quote_snapshot: quoteSnapshot },
+      ]),
+    };
+
+    getRateBook = vi.fn().mockImplementation(async (asOf: string) =>
+      asOf >= '2026-01-01' ? targetRates : originalRates
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RatingReplayService,
+        { provide: DATABASE_CONNECTION, useValue: mockDb },
+        RatingEngineService,
+        VehicleRatingService,
+        DriverRatingService,
+        LocationRatingService,
+        CoverageRatingService,
+        DiscountCalculator,
+        SurchargeCalculator,
+        TaxFeeCalculator,
+        { provide: RateTableService, useValue: { getRateBook } },
+      ],
+    }).compile();
+
+    service = module.get<RatingReplayService>(RatingReplayService);
+  });
+
+  it('should rate the stored inputs under the original and target rate versions', async () => {
+    const result = await service.replay('DZTEST1234', '2026-02-01');
+
+    expect(getRateBook).toHaveBeenCalledWith('2025-06-01');
+    expect(getRateBook).toHaveBeenCalledWith('2026-02-01');
+    expect(result.original.rateVersion).toBe(RATING_TABLE_SEED[0].effective_date);
+    expect(result.target.rateVersion).toBe('2026-01-01');
+    expect(result.original.subtotal).toBe(1140); // 1200 less 5% advance quote discount
+    expect(result.target.subtotal).toBe(1254);
+    expect(result.reproducesQuotedPremium).toBe(true);
+  });
+
+  it('should compare itemized premiums against both the subtotal and the taxed total', async () => {
+    const { original } = await service.replay('DZTEST1234', '2026-02-01');
+    const itemized = (total: number) => ({
+      ...quoteSnapshot,
+      premium: { subtotal: 1140, taxes: original.taxes, fees: original.fees, total },
+    });
+
+    mockDb.limit.mockResolvedValue([{ policy_identifier: 'policy-1', quote_snapshot: itemized(original.totalPremium) }]);
+    expect((await service.replay('DZTEST1234', '2026-02-01')).reproducesQuotedPremium).toBe(true);
+
+    mockDb.limit.mockResolvedValue([{ policy_identifier: 'policy-1', quote_snapshot: itemized(1140) }]);
+    expect((await service.replay('DZTEST1234', '2026-02-01')).reproducesQuotedPremium).toBe(false);
+  });
+
+  it('should report a factor-by-factor diff', async () => {
+    const { diff } = await service.replay('DZTEST1234', '2026-02-01');
+
+    expect(diff.changed).toBe(true);
+    expect(diff.rateVersion.changed).toBe(true);
+    expect(diff.amounts.find(a => a.name === 'basePremium')).toMatchObject({
+      original: 1000,
+      target: 1100,
+      change: 100,
+      changed: true,
+    });
+    expect(diff.amounts.find(a => a.name === 'subtotal')?.change).toBe(114);
+    expect(diff.factors.every(f => !f.changed)).toBe(true);
+    expect(diff.vehicles.find(v => v.name === 'vehicles[0].premium')?.changed).toBe(true);
+  });
+
+  it('should measure ages from the original rating clock date on both runs', async () => {
+    const result = await service.replay('DZTEST1234', '2026-02-01');
+
+    expect(result.inputs.asOfDate).toBe('2025-05-01T12:00:00.000Z');
+    expect(result.original.breakdown.factorDetails.driver.age).toBe(35);
+    expect(result.target.breakdown.factorDetails.driver.age).toBe(35);
+  });
+
+  it('should report no changes when replaying under the same rates', async () => {
+    const { diff } = await service.replay('DZTEST1234', '2025-06-01');
+
+    expect(diff.changed).toBe(false);
+    expect(diff.amounts.every(a => a.change === 0)).toBe(true);
+  });
+
+  it('should throw NotFoundException for an unknown quote', async () => {
+    mockDb.limit.mockResolvedValue([]);
+
+    await expect(service.replay('DZNOPE0000')).rejects.toThrow(NotFoundException);
+  });
+
+  it('should reject dates with no rates in force', async () => {
+    getRateBook.mockImplementation(async (asOf: string) => {
+      if (asOf === '2020-01-01') {
+        throw new Error('No rating tables in force on 2020-01-01');
+      }
+      return originalRates;
+    });
+
+    await expect(service.replay('DZTEST1234', '2020-01-01')).rejects.toThrow(BadRequestException);
+  });
+});
@@ -0,0 +1,252 @@
+/**
+ * Unit Tests for RefundService
+ *
+ * Tests full and partial refunds of a charge, the refund records linked to
+ * the charge, and return premium spread over a policy's charges.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Test, TestingModule } from '@nestjs/testing';
+import { DATABASE_CONNECTION } from '../../../src/database/database.module';
+import { RefundService } from '../../../src/services/billing/refund.service';
+import { PAYMENT_GATEWAY } from '../../../src/services/payment-gateway/payment-gateway';
+import { MockPaymentGateway } from '../../../src/services/payment-gateway/mock-payment-gateway';
+import { BusinessRuleError, NotFoundError } from '../../../src/api/middleware/error-handler';
+
+describe('RefundService', () => {
+  let service: RefundService;
+  let gateway: MockPaymentGateway;
+  let mockDb: any;
+  let selectResults: any[][];
+  let inserts: any[];
+  let updates: any[];
+
+  const charge = (overrides: any = {}) => ({
+    payment_id: 'pay-1',
+    payment_number: 'PAY-CHARGE01',
+    policy_id: 'policy-1',
+    payment_method: 'credit_card',
+    payment_type: 'CHARGE',
+    payment_status: 'COMPLETED',
+    amount: '200.00',
+    last_four_digits: '4242',
+    card_brand: 'Visa',
+    account_type: null,
+    transaction_id: 'txn_abc123',
+    ...overrides,
+  });
+
+  const refundRow = (amount: string) => ({ payment_type: 'REFUND', payment_status: 'COMPLETED', amount });
+
+  beforeEach(async () => {
+    selectResults = [];
+    inserts = [];
+    updates = [];
+
+    // Each select() returns the next queued result, however the query ends
+    const rowsQuery = (rows: any[]) => Object.assign(Promise.resolve(rows), {
+      limit: vi.fn().mockResolvedValue(rows),
+      orderBy: vi.fn().mockResolvedValue(rows),
+    });
+
+    mockDb = {
+      select: vi.fn(() => {
+        const rows = selectResults.shift() || [];
+        return { from: () => ({ where: () => rowsQuery(rows) }) };
+      }),
+      insert: vi.fn(() => ({
+        values: (values: any) => {
+          inserts.push(values);
+          return { returning: vi.fn().mockResolvedValue([{ ...values, payment_id: `refund-${inserts.length}` }]) };
+        },
+      })),
+      update: vi.fn(() => ({
+        set: (values: any) => ({
+          where: vi.fn(async () => {
+            updates.push(values);
+          }),
+        }),
+      })),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RefundService,
+        { provide: PAYMENT_GATEWAY, useClass: MockPaymentGateway },
+        { provide: DATABASE_CONNECTION, useValue: mockDb },
+      ],
+    }).compile();
+
+    service = module.get<RefundService>(RefundService);
+    gateway = module.get<MockPaymentGateway>(PAYMENT_GATEWAY);
+  });
+
+  describe('refundPayment', () => {
+    it('should refund the full charge and record a refund linked to it', async () => {
+      selectResults.push([charge()], []);
+      const refundSpy = vi.spyOn(gateway, 'refund');
+
+      const result = await service.refundPayment('pay-1', 'Duplicate charge');
+
+      expect(refundSpy).toHaveBeenCalledWith('txn_abc123', 200);
+      expect(inserts[0]).toMatchObject({
+        policy_id: 'policy-1',
+        refunded_payment_id: 'pay-1',
+        payment_type: 'REFUND',
+        payment_status: 'COMPLETED',
+        payment_method: 'credit_card',
+        amount: '200.00',
+        last_four_digits: '4242',
+        refund_reason: 'Duplicate charge',
+        gateway_response: 'Refund successful',
+      });
+      expect(inserts[0].payment_number).toMatch(/^REF-[A-Z0-9]{8}$/);
+      expect(inserts[0].transaction_id).toMatch(/^re_/);
+      expect(updates[0]).toMatchObject({ payment_status: 'REFUNDED' });
+      expect(result).toMatchObject({
+        paymentId: 'pay-1',
+        amount: 200,
+        paymentStatus: 'REFUNDED',
+        refundableAmount: 0,
+      });
+    });
+
+    it('should refund part of a charge, net of earlier refunds', async () => {
+      selectResults.push([charge({ payment_status: 'PARTIALLY_REFUNDED' })], [refundRow('50.00')]);
+      const refundSpy = vi.spyOn(gateway, 'refund');
+
+      const result = await service.refundPayment('pay-1', 'Billing adjustment', 100.1);
+
+      expect(refundSpy).toHaveBeenCalledWith('txn_abc123', 100.1);
+      expect(inserts[0]).toMatchObject({ amount: '100.10' });
+      expect(updates[0]).toMatchObject({ payment_status: 'PARTIALLY_REFUNDED' });
+      expect(result).toMatchObject({ amount: 100.1, paymentStatus: 'PARTIALLY_REFUNDED', refundableAmount: 49.9 });
+    });
+
+    it('should reject a refund larger than what is left on the charge', async () => {
+      selectResults.push([charge()], [refundRow('150.00')]);
+      const refundSpy = vi.spyOn(gateway, 'refund');
+
+      const attempt = service.refundPayment('pay-1', 'Too much', 60);
+
+      await expect(attempt).rejects.toThrow(BusinessRuleError);
+      await expect(attempt).rejects.toThrow('exceeds the $50.00 left to refund on payment PAY-CHARGE01');
+      expect(refundSpy).not.toHaveBeenCalled();
+      expect(inserts).toHaveLength(0);
+    });
+
+    it('should only refund completed charges', async () => {
+      selectResults.push([charge({ payment_status: 'PENDING' })]);
+
+      await expect(service.refundPayment('pay-1', 'Not collected yet')).rejects.toMatchObject({
+        ruleCode: 'PAYMENT_NOT_REFUNDABLE',
+      });
+    });
+
+    it('should not refund a refund', async () => {
+      selectResults.push([charge({ payment_type: 'REFUND' })]);
+
+      await expect(service.refundPayment('pay-1', 'Refund the refund')).rejects.toThrow(BusinessRuleError);
+    });
+
+    it('should not find a payment on another policy', async () => {
+      selectResults.push([charge({ policy_id: 'policy-2' })]);
+
+      await expect(service.refundPayment('pay-1', 'Wrong policy', undefined, 'policy-1')).rejects.toThrow(NotFoundError);
+    });
+
+    it('should leave the charge untouched when the gateway rejects the refund', async () => {
+      selectResults.push([charge()], []);
+      vi.spyOn(gateway, 'refund').mockResolvedValue({ success: false, message: 'Charge has been disputed' });
+
+      await expect(service.refundPayment('pay-1', 'Disputed')).rejects.toMatchObject({
+        message: 'Refund failed: Charge has been disputed',
+        ruleCode: 'REFUND_FAILED',
+      });
+      expect(inserts).toHaveLength(0);
+      expect(updates).toHaveLength(0);
+    });
+  });
+
+  describe('refundPolicy', () => {
+    it('should return premium from the newest charges first', async () => {
+      // Charges newest first, then each charge's earlier refunds
+      selectResults.push(
+        [
+          charge({ payment_id: 'pay-2', payment_number: 'PAY-INST0002', amount: '100.00', transaction_id: 'txn_2' }),
+          charge({ payment_id: 'pay-1', amount: '300.00', transaction_id: 'txn_1' }),
+        ],
+        [],
+        [],
+      );
+      const refundSpy = vi.spyOn(gateway, 'refund');
+
+      const refunds = await service.refundPolicy('policy-1', 150, 'Cancellation return premium');
+
+      expect(refundSpy.mock.calls).toEqual([['txn_2', 100], ['txn_1', 50]]);
+      expect(refunds.map(r => [r.paymentId, r.amount, r.paymentStatus])).toEqual([
+        ['pay-2', 100, 'REFUNDED'],
+        ['pay-1', 50, 'PARTIALLY_REFUNDED'],
+      ]);
+      expect(inserts.map(i => i.refund_reason)).toEqual(['Cancellation return premium', 'Cancellation return premium']);
+    });
+
+    it('should record a refund declined after others went through for follow-up', async () => {
+      selectResults.push(
+        [
+          charge({ payment_id: 'pay-2', payment_number: 'PAY-INST0002', amount: '100.00', transaction_id: 'txn_2' }),
+          charge({ payment_id: 'pay-1', amount: '300.00', transaction_id: 'txn_1' }),
+        ],
+        [],
+        [],
+      );
+      vi.spyOn(gateway, 'refund')
+        .mockResolvedValueOnce({ success: true, transactionId: 're_1', message: 'Refund successful' })
+        .mockResolvedValueOnce({ success: false, message: 'Charge has been disputed' });
+      const tx = {
+        select: mockDb.select,
+        insert: vi.fn(mockDb.insert.getMockImplementation()),
+        update: vi.fn(mockDb.update.getMockImplementation()),
+      };
+
+      const refunds = await service.refundPolicy('policy-1', 150, 'Endorsement return premium', tx);
+
+      expect(refunds.map(r => [r.paymentId, r.amount, r.status, r.paymentStatus])).toEqual([
+        ['pay-2', 100, 'COMPLETED', 'REFUNDED'],
+        ['pay-1', 50, 'FAILED', 'COMPLETED'],
+      ]);
+      expect(inserts[1]).toMatchObject({
+        refunded_payment_id: 'pay-1',
+        payment_status: 'FAILED',
+        amount: '50.00',
+        gateway_response: 'Refund failed: Charge has been disputed',
+      });
+      // The declined charge keeps its status; everything is written in the given transaction
+      expect(updates).toEqual([expect.objectContaining({ payment_status: 'REFUNDED' })]);
+      expect(tx.insert).toHaveBeenCalledTimes(2);
+      expect(mockDb.insert).not.toHaveBeenCalled();
+      expect(mockDb.update).not.toHaveBeenCalled();
+    });
+
+    it('should fail without writing anything when every refund is declined', async () => {
+      selectResults.push([charge({ amount: '100.00' })], []);
+      vi.spyOn(gateway, 'refund').mockResolvedValue({ success: false, message: 'Gateway unavailable' });
+
+      await expect(service.refundPolicy('policy-1', 75, 'Declined')).rejects.toMatchObject({
+        ruleCode: 'REFUND_FAILED',
+      });
+      expect(inserts).toHaveLength(0);
+      expect(updates).toHaveLength(0);
+    });
+
+    it('should reject a return larger than what was collected on the policy', async () => {
+      selectResults.push([charge({ amount: '100.00' })], [refundRow('40.00')]);
+      const refundSpy = vi.spyOn(gateway, 'refund');
+
+      await expect(service.refundPolicy('policy-1', 75, 'Too much')).rejects.toMatchObject({
+        ruleCode: 'REFUND_EXCEEDS_PAYMENT',
+      });
+      expect(refundSpy).not.toHaveBeenCalled();
+    });
+  });
+});
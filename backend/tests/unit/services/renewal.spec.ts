@@ -0,0 +1,367 @@
+/**
+ * Unit Tests for RenewalService
+ *
+ * Tests offering a re-rated renewal before expiration with a renewal offer
+ * document, renewing on the payment method on file as the next policy
+ * version, lapsing declined renewals, and the insured declining or taking
+ * back a decline.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Test, TestingModule } from '@nestjs/testing';
+import { DATABASE_CONNECTION } from '../../../src/database/database.module';
+import { RenewalService } from '../../../src/services/policy/renewal.service';
+import { QuoteService } from '../../../src/services/quote/quote.service';
+import { PolicyAction, nextStatus } from '../../../src/services/policy/policy-status';
+import { BillingScheduleService } from '../../../src/services/billing/billing-schedule.service';
+import { PremiumHistoryService } from '../../../src/services/rating-engine/premium-history.service';
+import { PolicyVersionService } from '../../../src/services/policy/policy-version.service';
+import { PAYMENT_GATEWAY } from '../../../src/services/payment-gateway/payment-gateway';
+import { BusinessRuleError } from '../../../src/api/middleware/error-handler';
+import { policy } from '../../../../database/schema/policy.schema';
+import { payment } from '../../../../database/schema/payment.schema';
+import { document } from '../../../../database/schema/document.schema';
+import { policyRenewal } from '../../../../database/schema/policy-renewal.schema';
+
+describe('RenewalService', () => {
+  let service: RenewalService;
+  let mockDb: any;
+  let quoteService: {
+    rateSnapshot: ReturnType<typeof vi.fn>;
+    logPolicyEvent: ReturnType<typeof vi.fn>;
+    transitionStatus: ReturnType<typeof vi.fn>;
+  };
+  let premiumHistory: { record: ReturnType<typeof vi.fn> };
+  let policyVersions: { recordVersion: ReturnType<typeof vi.fn> };
+  let gateway: { authorize: ReturnType<typeof vi.fn>; capture: ReturnType<typeof vi.fn>; void: ReturnType<typeof vi.fn> };
+  let selectResults: any[][];
+  let updateResults: any[][]; // Rows returned by each update().returning()
+  let updates: Array<{ table: unknown; values: any }>;
+  let inserts: Array<{ table: unknown; values: any }>;
+
+  const asOf = new Date('2026-10-18T12:00:00');
+
+  const snapshot = () => ({
+    driver: { firstName: 'Jane', birthDate: '1990-05-01' },
+    additionalDrivers: [],
+    vehicles: [{ year: 2020, make: 'Honda', model: 'Civic' }],
+    coverages: { bodilyInjuryLimit: '100000/300000', startDate: '2026-05-20' },
+    address: { state: 'IL' },
+    preferences: { paymentPlan: 'PAY_IN_FULL' },
+    premium: { subtotal: 600, taxes: [{ amount: 18 }], fees: [], total: 618 },
+  });
+
+  const renewedPremium = { subtotal: 650, taxes: [{ amount: 19.5 }], fees: [], total: 669.5 };
+
+  const policyRecord = (overrides: any = {}) => ({
+    policy_identifier: 'policy-1',
+    policy_number: 'DZRENEW001',
+    status_code: 'IN_FORCE',
+    version_number: 2,
+    effective_date: '2026-05-20',
+    expiration_date: '2026-11-20',
+    quote_snapshot: snapshot(),
+    ...overrides,
+  });
+
+  const renewalRecord = (overrides: any = {}) => ({
+    renewal_id: 'renewal-1',
+    policy_id: 'policy-1',
+    offer_document_id: 'doc-1',
+    status: 'OFFERED',
+    effective_date: '2026-10-18',
+    expiration_date: '2027-04-18',
+    base_version: 2,
+    renewal_snapshot: { ...snapshot(), coverages: { ...snapshot().coverages, startDate: '2026-10-18' }, premium: renewedPremium },
+    current_term_premium: '600.00',
+    renewal_premium: '650.00',
+    offered_at: new Date('2026-09-03T06:00:00Z'),
+    decided_at: null,
+    outcome_reason: null,
+    ...overrides,
+  });
+
+  const lastCharge = {
+    payment_id: 'pay-0',
+    payment_method: 'credit_card',
+    payment_token: 'tok_visa',
+    last_four_digits: '4242',
+    card_brand: 'visa',
+    account_type: null,
+  };
+
+  const updatesTo = (table: unknown) => updates.filter(update => update.table === table).map(update => update.values);
+  const insertsTo = (table: unknown) => inserts.filter(insert => insert.table === table).map(insert => insert.values);
+
+  beforeEach(async () => {
+    selectResults = [];
+    updateResults = [];
+    updates = [];
+    inserts = [];
+
+    // Each select() returns the next queued result, however the query ends
+    const rowsQuery = (rows: any[]): any => Object.assign(Promise.resolve(rows), {
+      limit: vi.fn().mockResolvedValue(rows),
+      orderBy: vi.fn(() => rowsQuery(rows)),
+    });
+
+    mockDb = {
+      select: vi.fn(() => {
+        const rows = selectResults.shift() || [];
+        const query = { where: () => rowsQuery(rows), leftJoin: () => query, innerJoin: () => query };
+        return { from: () => query };
+      }),
+      insert: vi.fn((table: unknown) => ({
+        values: (values: any) => {
+          inserts.push({ table, values });
+          return Object.assign(Promise.resolve(undefined), {
+            returning: vi.fn().mockResolvedValue([{ renewal_id: 'renewal-1', document_id: 'doc-1', document_number: 'DOC-1', ...values }]),
+          });
+        },
+      })),
+      update: vi.fn((table: unknown) => ({
+        set: (values: any) => {
+          updates.push({ table, values });
+          return {
+            where: () => Object.assign(Promise.resolve(undefined), {
+              returning: vi.fn(async () => updateResults.shift() || []),
+            }),
+          };
+        },
+      })),
+    };
+
+    quoteService = {
+      rateSnapshot: vi.fn().mockResolvedValue({
+        ratingInput: { vehicles: [] },
+        rating: { discounts: [] },
+        premium: renewedPremium,
+      }),
+      logPolicyEvent: vi.fn().mockResolvedValue(undefined),
+      transitionStatus: vi.fn(async (record: any, action: PolicyAction) => nextStatus(record.status_code, action)),
+    };
+    premiumHistory = { record: vi.fn().mockResolvedValue({}) };
+    policyVersions = { recordVersion: vi.fn().mockResolvedValue({}) };
+    gateway = {
+      authorize: vi.fn().mockResolvedValue({ success: true, transactionId: 'txn-1', message: 'Authorized', lastFourDigits: '4242', cardBrand: 'visa' }),
+      capture: vi.fn().mockResolvedValue({ success: true, transactionId: 'txn-1', message: 'Captured' }),
+      void: vi.fn().mockResolvedValue({ success: true, message: 'Voided' }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RenewalService,
+        BillingScheduleService,
+        { provide: DATABASE_CONNECTION, useValue: mockDb },
+        { provide: QuoteService, useValue: quoteService },
+        { provide: PremiumHistoryService, useValue: premiumHistory },
+        { provide: PolicyVersionService, useValue: policyVersions },
+        { provide: PAYMENT_GATEWAY, useValue: gateway },
+      ],
+    }).compile();
+
+    service = module.get<RenewalService>(RenewalService);
+  });
+
+  describe('run - offer', () => {
+    it('should offer a renewal re-rated as of the renewal date with an offer document', async () => {
+      selectResults.push([{ policy: policyRecord(), policy_renewal: null }], []);
+      updateResults.push([renewalRecord({ effective_date: '2026-11-20', expiration_date: '2027-05-20' })]);
+
+      const result = await service.run(asOf);
+
+      expect(result).toEqual({ asOf: '2026-10-18', offered: ['DZRENEW001'], renewed: [], lapsed: [], failed: [] });
+
+      // Rate book and driver/vehicle ages as of the renewal date
+      const [ratedSnapshot, ratedAsOf] = quoteService.rateSnapshot.mock.calls[0];
+      expect(ratedAsOf).toBe('2026-11-20');
+      expect(ratedSnapshot.coverages.startDate).toBe('2026-11-20');
+
+      expect(insertsTo(policyRenewal)).toEqual([expect.objectContaining({
+        status: 'OFFERED',
+        effective_date: '2026-11-20',
+        expiration_date: '2027-05-20',
+        base_version: 2,
+        current_term_premium: '600.00',
+        renewal_premium: '650.00',
+      })]);
+      expect(insertsTo(document)).toEqual([expect.objectContaining({
+        document_type: 'RENEWAL_OFFER',
+        document_name: 'Renewal_Offer_DZRENEW001_2026-11-20.pdf',
+        description: expect.stringContaining('Premium $650.00 (current term $600.00, +$50.00)'),
+      })]);
+      expect(updatesTo(policyRenewal)).toEqual([expect.objectContaining({ offer_document_id: 'doc-1' })]);
+      expect(quoteService.logPolicyEvent).toHaveBeenCalledWith(
+        'policy-1', 'IN_FORCE', 'IN_FORCE',
+        'Renewal offered for term 2026-11-20 to 2027-05-20; premium $650.00 (current term $600.00)'
+      );
+    });
+  });
+
+  describe('run - renewal date', () => {
+    it('should charge the payment method on file and move the policy to the new term', async () => {
+      selectResults.push([], [{ policy_renewal: renewalRecord(), policy: policyRecord({ expiration_date: '2026-10-18' }) }], [lastCharge]);
+      updateResults.push([renewalRecord({ status: 'RENEWING' })]);
+
+      const result = await service.run(asOf);
+
+      expect(result.renewed).toEqual(['DZRENEW001']);
+      expect(gateway.authorize).toHaveBeenCalledWith('tok_visa', 669.5);
+      expect(insertsTo(payment)).toEqual([[expect.objectContaining({
+        renewal_id: 'renewal-1',
+        payment_status: 'COMPLETED',
+        amount: '669.50',
+        due_date: '2026-10-18',
+        payment_token: 'tok_visa',
+        transaction_id: 'txn-1',
+      })]]);
+      expect(updatesTo(policy)).toEqual([expect.objectContaining({
+        effective_date: '2026-10-18',
+        expiration_date: '2027-04-18',
+        version_number: 3,
+        quote_snapshot: renewalRecord().renewal_snapshot,
+      })]);
+      expect(policyVersions.recordVersion).toHaveBeenCalledWith(expect.objectContaining({
+        versionNumber: 3,
+        source: 'RENEWAL',
+        effectiveDate: '2026-10-18',
+      }));
+      expect(premiumHistory.record).toHaveBeenCalledWith('policy-1', expect.anything(), expect.anything(), 'RENEWAL');
+      expect(updatesTo(policyRenewal)).toEqual([
+        expect.objectContaining({ status: 'RENEWING' }),
+        expect.objectContaining({ status: 'RENEWED' }),
+      ]);
+    });
+
+    it('should skip a renewal another run already claimed', async () => {
+      selectResults.push([], [{ policy_renewal: renewalRecord(), policy: policyRecord({ expiration_date: '2026-10-18' }) }]);
+      updateResults.push([]);
+
+      const result = await service.run(asOf);
+
+      expect(result).toMatchObject({ renewed: [], lapsed: [], failed: [] });
+      expect(gateway.authorize).not.toHaveBeenCalled();
+      expect(updatesTo(policyRenewal)).toEqual([expect.objectContaining({ status: 'RENEWING' })]);
+    });
+
+    it('should release the renewal when it fails before charging', async () => {
+      quoteService.rateSnapshot.mockRejectedValueOnce(new Error('Rate book unavailable'));
+      const changed = policyRecord({ version_number: 3, expiration_date: '2026-10-18' });
+      selectResults.push([], [{ policy_renewal: renewalRecord(), policy: changed }]);
+      updateResults.push([renewalRecord({ status: 'RENEWING' })]);
+
+      const result = await service.run(asOf);
+
+      expect(result.failed).toEqual(['DZRENEW001']);
+      expect(gateway.authorize).not.toHaveBeenCalled();
+      expect(updatesTo(policyRenewal)).toEqual([
+        expect.objectContaining({ status: 'RENEWING' }),
+        expect.objectContaining({ status: 'OFFERED' }),
+      ]);
+    });
+
+    it('should leave a charged renewal RENEWING when moving to the new term fails', async () => {
+      policyVersions.recordVersion.mockRejectedValueOnce(new Error('connection reset'));
+      selectResults.push([], [{ policy_renewal: renewalRecord(), policy: policyRecord({ expiration_date: '2026-10-18' }) }], [lastCharge]);
+      updateResults.push([renewalRecord({ status: 'RENEWING' })]);
+
+      const result = await service.run(asOf);
+
+      expect(result.failed).toEqual(['DZRENEW001']);
+      expect(gateway.capture).toHaveBeenCalledTimes(1);
+      expect(updatesTo(policyRenewal)).toEqual([expect.objectContaining({ status: 'RENEWING' })]);
+    });
+
+    it('should re-rate the renewal when the policy changed since the offer', async () => {
+      const changed = policyRecord({ version_number: 3, expiration_date: '2026-10-18' });
+      selectResults.push([], [{ policy_renewal: renewalRecord(), policy: changed }], [lastCharge]);
+      updateResults.push(
+        [renewalRecord({ status: 'RENEWING' })],
+        [renewalRecord({ status: 'RENEWING', base_version: 3, renewal_premium: '650.00' })]
+      );
+
+      const result = await service.run(asOf);
+
+      expect(result.renewed).toEqual(['DZRENEW001']);
+      expect(quoteService.rateSnapshot).toHaveBeenCalledWith(expect.objectContaining({ coverages: expect.objectContaining({ startDate: '2026-10-18' }) }), '2026-10-18');
+      expect(updatesTo(policyRenewal)[1]).toMatchObject({ base_version: 3, renewal_premium: '650.00' });
+      expect(updatesTo(policy)[0]).toMatchObject({ version_number: 4 });
+    });
+
+    it('should lapse the policy when the renewal payment is declined', async () => {
+      gateway.authorize.mockResolvedValue({ success: false, message: 'Your card was declined.' });
+      selectResults.push([], [{ policy_renewal: renewalRecord(), policy: policyRecord({ expiration_date: '2026-10-18' }) }], [lastCharge]);
+      updateResults.push([renewalRecord({ status: 'RENEWING' })]);
+
+      const result = await service.run(asOf);
+
+      expect(result.lapsed).toEqual(['DZRENEW001']);
+      expect(insertsTo(payment)).toHaveLength(0);
+      expect(policyVersions.recordVersion).not.toHaveBeenCalled();
+      expect(updatesTo(policyRenewal)).toEqual([expect.objectContaining({ status: 'RENEWING' }), expect.objectContaining({
+        status: 'LAPSED',
+        outcome_reason: 'Renewal payment declined (Your card was declined.)',
+      })]);
+      expect(quoteService.transitionStatus).toHaveBeenCalledWith(
+        expect.objectContaining({ policy_identifier: 'policy-1', status_code: 'IN_FORCE' }), 'LAPSE',
+        'Policy expired 2026-10-18 without renewal: Renewal payment declined (Your card was declined.)'
+      );
+    });
+
+    it('should lapse a declined renewal without charging', async () => {
+      selectResults.push([], [{ policy_renewal: renewalRecord({ status: 'DECLINED' }), policy: policyRecord({ expiration_date: '2026-10-18' }) }]);
+
+      const result = await service.run(asOf);
+
+      expect(result.lapsed).toEqual(['DZRENEW001']);
+      expect(gateway.authorize).not.toHaveBeenCalled();
+      expect(updatesTo(policyRenewal)[0]).toMatchObject({ status: 'LAPSED', outcome_reason: 'Renewal declined by the insured' });
+      expect(quoteService.transitionStatus).toHaveBeenCalledWith(expect.anything(), 'LAPSE', expect.any(String));
+    });
+  });
+
+  describe('declineRenewal / acceptRenewal', () => {
+    it('should decline an offered renewal', async () => {
+      selectResults.push([policyRecord()], [renewalRecord()]);
+      updateResults.push([renewalRecord({ status: 'DECLINED', decided_at: asOf })]);
+
+      const result = await service.declineRenewal('DZRENEW001');
+
+      expect(result).toMatchObject({ status: 'DECLINED', currentTermPremium: 600, renewalPremium: 650, premiumChange: 50, renewalTotal: 669.5 });
+      expect(updatesTo(policyRenewal)[0]).toMatchObject({ status: 'DECLINED' });
+      expect(quoteService.logPolicyEvent).toHaveBeenCalledWith(
+        'policy-1', 'IN_FORCE', 'IN_FORCE',
+        'Renewal for term 2026-10-18 to 2027-04-18 declined by the insured'
+      );
+    });
+
+    it('should take back a declined renewal', async () => {
+      selectResults.push([policyRecord()], [renewalRecord({ status: 'DECLINED' })]);
+      updateResults.push([renewalRecord()]);
+
+      const result = await service.acceptRenewal('DZRENEW001');
+
+      expect(result.status).toBe('OFFERED');
+      expect(updatesTo(policyRenewal)[0]).toMatchObject({ status: 'OFFERED', decided_at: null });
+    });
+
+    it('should reject declining a renewal that already took effect', async () => {
+      selectResults.push([policyRecord()], [renewalRecord({ status: 'RENEWED' })]);
+
+      await expect(service.declineRenewal('DZRENEW001')).rejects.toThrow(BusinessRuleError);
+      expect(updates).toHaveLength(0);
+    });
+
+    it('should reject a decline when the renewal moved since it was read', async () => {
+      selectResults.push([policyRecord()], [renewalRecord()]);
+      // The renewal job claimed it first
+      updateResults.push([]);
+
+      await expect(service.declineRenewal('DZRENEW001')).rejects.toMatchObject({
+        message: 'Renewal of policy DZRENEW001 is no longer offered and cannot be declined.',
+        ruleCode: 'RENEWAL_NOT_OFFERED',
+      });
+      expect(quoteService.logPolicyEvent).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Unit Tests for CoverageRatingService.validateStateMinimums
+ *
+ * Tests that liability limits below the garaging state's financial-
+ * responsibility minimums are rejected with a BusinessRuleError naming the
+ * state and the offending coverage.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { CoverageRatingService } from '../../../src/services/rating-engine/coverage-rating';
+import { STATE_MINIMUM_LIMITS } from '../../../src/services/rating-engine/state-minimum-limits';
+import { BusinessRuleError } from '../../../src/api/middleware/error-handler';
+
+describe('CoverageRatingService - State Minimum Limits', () => {
+  const service = new CoverageRatingService();
+
+  const rejection = (coverages: any, state: string): BusinessRuleError => {
+    try {
+      service.validateStateMinimums(coverages, state);
+    } catch (error) {
+      return error as BusinessRuleError;
+    }
+    throw new Error('Expected validateStateMinimums to throw');
+  };
+
+  it('should have minimums for all 50 states and DC', () => {
+    expect(Object.keys(STATE_MINIMUM_LIMITS)).toHaveLength(51);
+    expect(STATE_MINIMUM_LIMITS.DC).toBeDefined();
+  });
+
+  it('should accept limits at or above the state minimum', () => {
+    expect(() =>
+      service.validateStateMinimums({ bodilyInjuryLimit: '30/60', propertyDamageLimit: '15000' }, 'CA')
+    ).not.toThrow();
+    expect(() =>
+      service.validateStateMinimums({ bodilyInjuryLimit: '100000/300000', propertyDamageLimit: '50000' }, 'TX')
+    ).not.toThrow();
+  });
+
+  it('should reject bodily injury limits below the state minimum', () => {
+    const error = rejection({ bodilyInjuryLimit: '15/30', propertyDamageLimit: '50000' }, 'CA');
+
+    expect(error).toBeInstanceOf(BusinessRuleError);
+    expect(error.ruleCode).toBe('STATE_MINIMUM_BODILY_INJURY');
+    expect(error.message).toBe('Bodily injury liability limit 15/30 is below the California (CA) minimum of 30/60');
+  });
+
+  it('should check the per-accident bodily injury limit', () => {
+    const error = rejection({ bodilyInjuryLimit: '30000/60000', propertyDamageLimit: '25000' }, 'UT');
+
+    expect(error.ruleCode).toBe('STATE_MINIMUM_BODILY_INJURY');
+    expect(error.message).toContain('Utah (UT) minimum of 30/65');
+  });
+
+  it('should reject property damage limits below the state minimum', () => {
+    const error = rejection({ bodilyInjuryLimit: '50/100', propertyDamageLimit: '25000' }, 'NC');
+
+    expect(error.ruleCode).toBe('STATE_MINIMUM_PROPERTY_DAMAGE');
+    expect(error.message).toBe('Property damage liability limit 25 is below the North Carolina (NC) minimum of 50');
+  });
+
+  it('should reject missing liability limits', () => {
+    expect(rejection({ propertyDamageLimit: '25000' }, 'TX').ruleCode).toBe('STATE_MINIMUM_BODILY_INJURY');
+    expect(rejection({ bodilyInjuryLimit: '30/60' }, 'TX').ruleCode).toBe('STATE_MINIMUM_PROPERTY_DAMAGE');
+  });
+
+  it('should skip validation when the state is unknown', () => {
+    expect(() => service.validateStateMinimums({ bodilyInjuryLimit: '15/30' }, undefined)).not.toThrow();
+    expect(() => service.validateStateMinimums({ bodilyInjuryLimit: '15/30' }, 'PR')).not.toThrow();
+  });
+});
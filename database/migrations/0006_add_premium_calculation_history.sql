@@ -0,0 +1,10 @@
+-- Migration: Record rating inputs and trigger on premium_calculation
+-- Feature: premium calculation history
+-- Created: 2026-10-18
+
+ALTER TABLE "premium_calculation" ADD COLUMN IF NOT EXISTS "input_snapshot" jsonb;
+ALTER TABLE "premium_calculation" ADD COLUMN IF NOT EXISTS "calculation_trigger" varchar(50);
+
+-- Premium history is read per quote, oldest first
+CREATE INDEX IF NOT EXISTS "premium_calculation_policy_timestamp_idx"
+  ON "premium_calculation" ("policy_identifier", "calculation_timestamp");
@@ -0,0 +1,7 @@
+-- Migration: Record the premium, tax and fee split of each payment
+-- Feature: state premium taxes and fees in the quote total
+-- Created: 2026-10-18
+
+ALTER TABLE "payment" ADD COLUMN IF NOT EXISTS "premium_amount" numeric(10, 2);
+ALTER TABLE "payment" ADD COLUMN IF NOT EXISTS "tax_amount" numeric(10, 2);
+ALTER TABLE "payment" ADD COLUMN IF NOT EXISTS "fee_amount" numeric(10, 2);
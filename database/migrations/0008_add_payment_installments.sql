@@ -0,0 +1,8 @@
+-- Migration: Schedule payment plan installments as payment rows
+-- Feature: installment payment plans with a generated billing schedule
+-- Created: 2026-10-18
+
+ALTER TABLE "payment" ADD COLUMN IF NOT EXISTS "installment_number" integer;
+ALTER TABLE "payment" ADD COLUMN IF NOT EXISTS "due_date" date;
+
+CREATE INDEX IF NOT EXISTS "idx_payment_due_date" ON "payment" ("payment_status", "due_date");
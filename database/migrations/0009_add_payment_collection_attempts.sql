@@ -0,0 +1,6 @@
+-- Migration: Track collection attempts on scheduled installments
+-- Feature: scheduled installment collection with retries and a grace period
+-- Created: 2026-10-18
+
+ALTER TABLE "payment" ADD COLUMN IF NOT EXISTS "attempt_count" integer DEFAULT 0 NOT NULL;
+ALTER TABLE "payment" ADD COLUMN IF NOT EXISTS "next_attempt_date" date;
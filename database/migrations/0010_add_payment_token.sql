@@ -0,0 +1,5 @@
+-- Migration: Store the payment gateway token on payments
+-- Feature: payment gateway abstraction (mock / Stripe)
+-- Created: 2026-10-18
+
+ALTER TABLE "payment" ADD COLUMN IF NOT EXISTS "payment_token" varchar(100);
@@ -0,0 +1,10 @@
+-- Migration: Store refunds as payment rows linked to the original charge
+-- Feature: refunds and mid-term premium returns
+-- Created: 2026-10-18
+
+ALTER TABLE "payment" ADD COLUMN IF NOT EXISTS "payment_type" varchar(20) NOT NULL DEFAULT 'CHARGE';
+ALTER TABLE "payment" ADD COLUMN IF NOT EXISTS "refunded_payment_id" uuid
+  CONSTRAINT "payment_refunded_payment_id_fkey" REFERENCES "payment"("payment_id");
+ALTER TABLE "payment" ADD COLUMN IF NOT EXISTS "refund_reason" varchar(255);
+
+CREATE INDEX IF NOT EXISTS "idx_payment_refunded_payment_id" ON "payment"("refunded_payment_id");
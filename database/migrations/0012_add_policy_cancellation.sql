@@ -0,0 +1,11 @@
+-- Migration: Store the requested cancellation date and reason on the policy
+-- Feature: policy cancellation with return premium and cancellation notice
+-- Created: 2026-10-18
+
+ALTER TABLE "policy" ADD COLUMN IF NOT EXISTS "cancellation_date" date;
+ALTER TABLE "policy" ADD COLUMN IF NOT EXISTS "cancellation_reason" varchar(30);
+ALTER TABLE "policy" ADD COLUMN IF NOT EXISTS "cancellation_return_premium_method" varchar(20);
+
+ALTER TYPE "document_type" ADD VALUE IF NOT EXISTS 'CANCELLATION_NOTICE';
+
+CREATE INDEX IF NOT EXISTS "idx_policy_cancellation_date" ON "policy"("status_code", "cancellation_date");
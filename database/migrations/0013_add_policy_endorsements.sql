@@ -0,0 +1,31 @@
+-- Migration: Mid-term endorsements applied as new policy versions
+-- Feature: endorsements (vehicle, driver, coverage and contact changes on in-force policies)
+-- Created: 2026-10-18
+
+ALTER TABLE "policy" ADD COLUMN IF NOT EXISTS "version_number" integer NOT NULL DEFAULT 1;
+
+CREATE TABLE IF NOT EXISTS "policy_endorsement" (
+  "endorsement_id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "policy_id" uuid NOT NULL
+    CONSTRAINT "policy_endorsement_policy_id_fkey" REFERENCES "policy"("policy_identifier") ON DELETE CASCADE,
+  "endorsement_number" varchar(20) NOT NULL UNIQUE,
+  "status" varchar(20) NOT NULL,
+  "effective_date" date NOT NULL,
+  "base_version" integer NOT NULL,
+  "version_number" integer,
+  "changes" jsonb NOT NULL,
+  "proposed_snapshot" jsonb NOT NULL,
+  "previous_term_premium" numeric(10, 2) NOT NULL,
+  "new_term_premium" numeric(10, 2) NOT NULL,
+  "prorated_premium" numeric(10, 2) NOT NULL,
+  "prorated_tax" numeric(10, 2) NOT NULL,
+  "prorated_amount" numeric(10, 2) NOT NULL,
+  "applied_at" timestamp,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "idx_policy_endorsement_policy" ON "policy_endorsement"("policy_id", "status");
+
+ALTER TABLE "payment" ADD COLUMN IF NOT EXISTS "endorsement_id" uuid
+  CONSTRAINT "payment_endorsement_id_fkey" REFERENCES "policy_endorsement"("endorsement_id");
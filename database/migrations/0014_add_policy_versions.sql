@@ -0,0 +1,40 @@
+-- Migration: Immutable effective-dated policy versions
+-- Feature: policy versioning (coverage in force on a given date; claims validated against it)
+-- Created: 2026-10-18
+
+CREATE TABLE IF NOT EXISTS "policy_version" (
+  "policy_version_id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "policy_id" uuid NOT NULL
+    CONSTRAINT "policy_version_policy_id_fkey" REFERENCES "policy"("policy_identifier") ON DELETE CASCADE,
+  "endorsement_id" uuid
+    CONSTRAINT "policy_version_endorsement_id_fkey" REFERENCES "policy_endorsement"("endorsement_id"),
+  "version_number" integer NOT NULL,
+  "source" varchar(20) NOT NULL,
+  "effective_date" date NOT NULL,
+  "snapshot" jsonb NOT NULL,
+  "term_premium" numeric(10, 2) NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "uq_policy_version_number" ON "policy_version"("policy_id", "version_number");
+CREATE INDEX IF NOT EXISTS "idx_policy_version_effective" ON "policy_version"("policy_id", "effective_date");
+
+ALTER TABLE "claim" ADD COLUMN IF NOT EXISTS "policy_version_number" integer;
+
+-- Backfill version 1 of bound policies that have not been changed since binding
+INSERT INTO "policy_version" ("policy_id", "version_number", "source", "effective_date", "snapshot", "term_premium")
+SELECT "policy_identifier", 1, 'BIND', "effective_date", "quote_snapshot",
+       COALESCE(("quote_snapshot"->'premium'->>'subtotal')::numeric, 0)
+FROM "policy"
+WHERE "status_code" NOT IN ('QUOTED', 'BINDING')
+  AND "version_number" = 1
+  AND "quote_snapshot" IS NOT NULL
+ON CONFLICT DO NOTHING;
+
+-- Backfill the versions created by applied endorsements (the pre-change
+-- snapshot of policies already endorsed was overwritten and cannot be rebuilt)
+INSERT INTO "policy_version" ("policy_id", "endorsement_id", "version_number", "source", "effective_date", "snapshot", "term_premium")
+SELECT "policy_id", "endorsement_id", "version_number", 'ENDORSEMENT', "effective_date", "proposed_snapshot", "new_term_premium"
+FROM "policy_endorsement"
+WHERE "status" = 'APPLIED'
+ON CONFLICT DO NOTHING;
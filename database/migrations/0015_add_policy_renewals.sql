@@ -0,0 +1,33 @@
+-- Migration: Renewal terms offered before expiration
+-- Feature: automated policy renewal (re-rated renewal offer, auto-renew or lapse)
+-- Created: 2026-10-18
+
+ALTER TYPE "document_type" ADD VALUE IF NOT EXISTS 'RENEWAL_OFFER';
+
+CREATE TABLE IF NOT EXISTS "policy_renewal" (
+  "renewal_id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "policy_id" uuid NOT NULL
+    CONSTRAINT "policy_renewal_policy_id_fkey" REFERENCES "policy"("policy_identifier") ON DELETE CASCADE,
+  "offer_document_id" uuid
+    CONSTRAINT "policy_renewal_offer_document_id_fkey" REFERENCES "document"("document_id"),
+  "status" varchar(20) NOT NULL,
+  "effective_date" date NOT NULL,
+  "expiration_date" date NOT NULL,
+  "base_version" integer NOT NULL,
+  "renewal_snapshot" jsonb NOT NULL,
+  "current_term_premium" numeric(10, 2) NOT NULL,
+  "renewal_premium" numeric(10, 2) NOT NULL,
+  "offered_at" timestamp NOT NULL,
+  "decided_at" timestamp,
+  "outcome_reason" varchar(255),
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "uq_policy_renewal_term" ON "policy_renewal"("policy_id", "effective_date");
+CREATE INDEX IF NOT EXISTS "idx_policy_renewal_status" ON "policy_renewal"("status", "effective_date");
+
+ALTER TABLE "payment" ADD COLUMN IF NOT EXISTS "renewal_id" uuid
+  CONSTRAINT "payment_renewal_id_fkey" REFERENCES "policy_renewal"("renewal_id");
+
+CREATE INDEX IF NOT EXISTS "idx_policy_expiration_date" ON "policy"("status_code", "expiration_date");
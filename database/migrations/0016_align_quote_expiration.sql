@@ -0,0 +1,12 @@
+-- Migration: Quotes expire 30 days after they are priced
+-- Feature: quote expiration enforcement and re-quote of expired quotes
+-- Created: 2026-10-18
+
+-- Quotes created before this change were stored with a one-year expiration date
+-- (quotes re-priced since then already expire within 30 days and are left alone)
+UPDATE "policy" p
+SET "expiration_date" = (a."created_at" + interval '30 days')::date
+FROM "agreement" a
+WHERE a."agreement_identifier" = p."policy_identifier"
+  AND p."status_code" = 'QUOTED'
+  AND p."expiration_date" > current_date + 30;
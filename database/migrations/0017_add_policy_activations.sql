@@ -0,0 +1,26 @@
+-- Migration: Run log of automatic policy activations
+-- Feature: activate bound policies on their effective date (policy time zone), with ID cards and activation notice
+-- Created: 2026-10-18
+
+CREATE TABLE IF NOT EXISTS "policy_activation" (
+  "activation_id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "policy_id" uuid NOT NULL
+    CONSTRAINT "policy_activation_policy_id_fkey" REFERENCES "policy"("policy_identifier") ON DELETE CASCADE,
+  "effective_date" date NOT NULL,
+  "time_zone" varchar(40) NOT NULL,
+  "trigger" varchar(20) NOT NULL,
+  "status" varchar(20) NOT NULL,
+  "activated_at" timestamp,
+  "id_cards_issued_at" timestamp,
+  "id_card_count" integer,
+  "notice_sent_at" timestamp,
+  "failure_reason" varchar(500),
+  "attempts" integer DEFAULT 1 NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "uq_policy_activation_term" ON "policy_activation"("policy_id", "effective_date");
+CREATE INDEX IF NOT EXISTS "idx_policy_activation_status" ON "policy_activation"("status");
+
+CREATE INDEX IF NOT EXISTS "idx_policy_effective_date" ON "policy"("status_code", "effective_date");
@@ -0,0 +1,24 @@
+-- Migration: Reinstatements of policies after non-payment
+-- Feature: reinstate policies that left active status for non-payment, with or without a lapse in coverage
+-- Created: 2026-10-18
+
+CREATE TABLE IF NOT EXISTS "policy_reinstatement" (
+  "reinstatement_id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "policy_id" uuid NOT NULL
+    CONSTRAINT "policy_reinstatement_policy_id_fkey" REFERENCES "policy"("policy_identifier") ON DELETE CASCADE,
+  "payment_id" uuid
+    CONSTRAINT "policy_reinstatement_payment_id_fkey" REFERENCES "payment"("payment_id"),
+  "previous_status" varchar(50) NOT NULL,
+  "left_active_date" date NOT NULL,
+  "reinstatement_date" date NOT NULL,
+  "lapse_start" date,
+  "lapse_end" date,
+  "lapse_days" integer DEFAULT 0 NOT NULL,
+  "past_due_amount" numeric(10, 2) NOT NULL,
+  "lapse_credit" numeric(10, 2) DEFAULT '0' NOT NULL,
+  "amount_collected" numeric(10, 2) NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "idx_policy_reinstatement_policy" ON "policy_reinstatement"("policy_id", "lapse_start");
@@ -0,0 +1,30 @@
+-- Migration: Password sign-in and sessions for portal accounts
+-- Feature: real authentication for the self-service portal (hashed passwords, sessions, sign-out)
+-- Created: 2026-10-18
+
+-- Accounts are created at checkout, before a policy exists
+ALTER TABLE "user_account" ALTER COLUMN "policy_identifier" DROP NOT NULL;
+
+ALTER TABLE "user_account" ADD COLUMN IF NOT EXISTS "first_name" varchar(100);
+ALTER TABLE "user_account" ADD COLUMN IF NOT EXISTS "last_name" varchar(100);
+ALTER TABLE "user_account" ADD COLUMN IF NOT EXISTS "password_hash" varchar(255);
+ALTER TABLE "user_account" ADD COLUMN IF NOT EXISTS "last_login_at" timestamp;
+
+-- Emails are compared lowercase; one sign-in account per email
+UPDATE "user_account" SET "email" = lower("email") WHERE "email" <> lower("email");
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_user_account_email_login"
+  ON "user_account"("email") WHERE "password_hash" IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS "user_session" (
+  "session_id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "account_id" uuid NOT NULL
+    CONSTRAINT "user_session_account_id_fkey" REFERENCES "user_account"("account_id") ON DELETE CASCADE,
+  "token_hash" varchar(64) NOT NULL UNIQUE,
+  "expires_at" timestamp NOT NULL,
+  "last_used_at" timestamp,
+  "revoked_at" timestamp,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "idx_user_session_account" ON "user_session"("account_id");
@@ -0,0 +1,38 @@
+-- Migration: Accounts linked to many policies
+-- Feature: standalone user accounts that can own multiple policies and saved quotes (household view)
+-- Created: 2026-10-18
+
+CREATE TABLE IF NOT EXISTS "user_account_policy" (
+  "link_id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "account_id" uuid NOT NULL
+    CONSTRAINT "user_account_policy_account_id_fkey" REFERENCES "user_account"("account_id") ON DELETE CASCADE,
+  "policy_id" uuid NOT NULL
+    CONSTRAINT "user_account_policy_policy_id_fkey" REFERENCES "policy"("policy_identifier") ON DELETE CASCADE,
+  "linked_via" varchar(20) NOT NULL,
+  "shared_by_account_id" uuid
+    CONSTRAINT "user_account_policy_shared_by_account_id_fkey" REFERENCES "user_account"("account_id") ON DELETE SET NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "uq_user_account_policy" ON "user_account_policy"("account_id", "policy_id");
+CREATE INDEX IF NOT EXISTS "idx_user_account_policy_policy" ON "user_account_policy"("policy_id");
+
+-- Carry over the one policy each demo-era account pointed at
+INSERT INTO "user_account_policy" ("account_id", "policy_id", "linked_via")
+SELECT "account_id", "policy_identifier", 'LEGACY'
+FROM "user_account"
+WHERE "policy_identifier" IS NOT NULL
+ON CONFLICT DO NOTHING;
+
+-- Link signed-in accounts to the policies and quotes insured under their email
+INSERT INTO "user_account_policy" ("account_id", "policy_id", "linked_via")
+SELECT ua."account_id", p."policy_identifier", 'INSURED_EMAIL'
+FROM "user_account" ua
+JOIN "policy" p ON lower(p."quote_snapshot"->'driver'->>'email') = ua."email"
+WHERE ua."password_hash" IS NOT NULL
+ON CONFLICT DO NOTHING;
+
+-- Accounts no longer belong to a single policy
+DROP INDEX IF EXISTS "idx_user_account_policy";
+ALTER TABLE "user_account" DROP COLUMN IF EXISTS "policy_identifier";
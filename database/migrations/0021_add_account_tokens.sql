@@ -0,0 +1,22 @@
+-- Migration: Emailed one-time links for portal accounts
+-- Feature: email verification, password reset and magic-link sign-in
+-- Created: 2026-10-18
+
+ALTER TABLE "user_account" ADD COLUMN IF NOT EXISTS "email_verified_at" timestamp;
+
+CREATE TABLE IF NOT EXISTS "account_token" (
+  "token_id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "account_id" uuid NOT NULL
+    CONSTRAINT "account_token_account_id_fkey" REFERENCES "user_account"("account_id") ON DELETE CASCADE,
+  "purpose" varchar(20) NOT NULL
+    CONSTRAINT "account_token_purpose_check" CHECK ("purpose" IN ('VERIFY_EMAIL', 'PASSWORD_RESET', 'MAGIC_LINK')),
+  "token_hash" varchar(64) NOT NULL UNIQUE,
+  "expires_at" timestamp NOT NULL,
+  "used_at" timestamp,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+-- Issuance rate limit: tokens per account and purpose created in the last hour
+CREATE INDEX IF NOT EXISTS "idx_account_token_account_purpose"
+  ON "account_token"("account_id", "purpose", "created_at");
@@ -0,0 +1,11 @@
+-- Migration: Drop insured-email policy links of unverified accounts
+-- Feature: policies are only linked by insured email once the account verifies that email
+-- Created: 2026-10-18
+
+-- Anyone could sign up with an insured's email; such links were made before
+-- verification existed. They come back when the account verifies its email.
+DELETE FROM "user_account_policy" uap
+USING "user_account" ua
+WHERE uap."account_id" = ua."account_id"
+  AND uap."linked_via" = 'INSURED_EMAIL'
+  AND ua."email_verified_at" IS NULL;
@@ -0,0 +1,8 @@
+-- Migration: Claim reinstatements before charging
+-- Feature: a reinstatement is recorded PROCESSING before the past-due amount is charged, one per policy
+-- Created: 2026-10-18
+
+ALTER TABLE "policy_reinstatement" ADD COLUMN IF NOT EXISTS "status" varchar(20) DEFAULT 'COMPLETED' NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS "uq_policy_reinstatement_processing"
+  ON "policy_reinstatement"("policy_id") WHERE "status" = 'PROCESSING';
@@ -0,0 +1,41 @@
+/**
+ * Account Token Entity Schema - One-time links emailed to account holders
+ *
+ * One row per emailed link: verify-email, forgot-password and passwordless
+ * (magic-link) sign-in. The token itself only travels in the email; the
+ * table keeps its SHA-256 hash. A token is spent once (used_at) and is
+ * refused after expires_at. Rows also back the issuance rate limit (tokens
+ * created per account and purpose in the last hour).
+ */
+
+import { pgTable, uuid, varchar, timestamp, index } from 'drizzle-orm/pg-core';
+import { userAccount } from './user-account.schema';
+import { auditTimestamps } from './_base.schema';
+
+export const accountToken = pgTable('account_token', {
+  // Primary Key
+  token_id: uuid('token_id').primaryKey().defaultRandom(),
+
+  // Foreign Keys
+  account_id: uuid('account_id')
+    .notNull()
+    .references(() => userAccount.account_id, { onDelete: 'cascade' }),
+
+  // Core Attributes
+  purpose: varchar('purpose', { length: 20 }).notNull(), // VERIFY_EMAIL | PASSWORD_RESET | MAGIC_LINK
+  token_hash: varchar('token_hash', { length: 64 }).notNull().unique(), // Hex SHA-256 of the emailed token
+  expires_at: timestamp('expires_at').notNull(),
+  used_at: timestamp('used_at'), // Set when the link is followed (or superseded by a password reset)
+
+  // Audit Timestamps
+  ...auditTimestamps,
+}, (table) => ({
+  idx_account_token_account_purpose: index('idx_account_token_account_purpose').on(
+    table.account_id,
+    table.purpose,
+    table.created_at,
+  ),
+}));
+
+export type AccountToken = typeof accountToken.$inferSelect;
+export type NewAccountToken = typeof accountToken.$inferInsert;
@@ -5,7 +5,7 @@
  * Represents an insurance claim filed against a policy.
  */
 
-import { pgTable, uuid, varchar, text, timestamp, date } from 'drizzle-orm/pg-core';
+import { pgTable, uuid, varchar, text, timestamp, date, integer } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
 import { auditTimestamps } from './_base.schema';
 import { policy } from './policy.schema';
@@ -30,6 +30,7 @@ export const claim = pgTable('claim', {
 
   // Incident details
   incident_date: date('incident_date').notNull(),
+  policy_version_number: integer('policy_version_number'), // Policy version in force on the incident date
   loss_type: varchar('loss_type', { length: 50 }).notNull(), // COLLISION, COMPREHENSIVE, LIABILITY, etc.
   description: text('description').notNull(),
 
@@ -27,6 +27,8 @@ export const documentTypeEnum = pgEnum('document_type', [
   'ID_CARD',          // Insurance ID card (vehicle-specific)
   'CLAIM_ATTACHMENT', // Claim-related documents (future)
   'PROOF_OF_INSURANCE', // Generic proof of insurance (future)
+  'CANCELLATION_NOTICE', // Notice of cancellation with the return premium
+  'RENEWAL_OFFER',     // Renewal term offer with the new premium
 ]);
 
 // Document Status Enum
@@ -54,8 +54,18 @@ export * from './event.schema';
 export * from './policy-event.schema';
 export * from './document.schema';
 
+// Mid-term Endorsements, Policy Versions, Renewals, Activations & Reinstatements
+export * from './policy-endorsement.schema';
+export * from './policy-version.schema';
+export * from './policy-renewal.schema';
+export * from './policy-activation.schema';
+export * from './policy-reinstatement.schema';
+
 // Portal & Claims Entities (Phase 5 - US3)
 export * from './user-account.schema';
+export * from './user-session.schema';
+export * from './user-account-policy.schema';
+export * from './account-token.schema';
 export * from './claim.schema';
 export * from './claim-party-role.schema';
 export * from './claim-event.schema';
@@ -4,11 +4,16 @@
  * Represents a payment transaction for policy premium.
  * Stores tokenized payment information (last 4 digits, account masks)
  * to comply with PCI DSS requirements - no full card numbers stored.
+ *
+ * Refunds are stored as payment rows of type REFUND that reference the
+ * charge they return money from (refunded_payment_id).
  */
 
-import { pgTable, uuid, varchar, integer, timestamp, decimal } from 'drizzle-orm/pg-core';
+import { pgTable, uuid, varchar, integer, timestamp, decimal, date, type AnyPgColumn } from 'drizzle-orm/pg-core';
 import { auditTimestamps } from './_base.schema';
 import { policy } from './policy.schema';
+import { policyEndorsement } from './policy-endorsement.schema';
+import { policyRenewal } from './policy-renewal.schema';
 
 export const payment = pgTable('payment', {
   // Primary Key
@@ -18,14 +23,35 @@ export const payment = pgTable('payment', {
   policy_id: uuid('policy_id')
     .notNull()
     .references(() => policy.policy_identifier, { onDelete: 'cascade' }),
+  refunded_payment_id: uuid('refunded_payment_id')
+    .references((): AnyPgColumn => payment.payment_id), // Refunds: the charge being refunded
+  endorsement_id: uuid('endorsement_id')
+    .references(() => policyEndorsement.endorsement_id), // Additional premium billed for an endorsement
+  renewal_id: uuid('renewal_id')
+    .references(() => policyRenewal.renewal_id), // Installments of a renewal term
 
   // Core Attributes
   payment_number: varchar('payment_number', { length: 20 }).notNull().unique(), // e.g., "PAY-DZ12345678"
   payment_method: varchar('payment_method', { length: 20 }).notNull(), // 'credit_card' | 'ach' | 'debit_card'
-  payment_status: varchar('payment_status', { length: 20 }).notNull(), // PENDING, PROCESSING, COMPLETED, FAILED, REFUNDED
+  payment_type: varchar('payment_type', { length: 20 }).notNull().default('CHARGE'), // CHARGE | REFUND
+  payment_status: varchar('payment_status', { length: 20 }).notNull(), // PENDING, PROCESSING, COMPLETED, FAILED, RETURNED, PARTIALLY_REFUNDED, REFUNDED, CANCELLED
   amount: decimal('amount', { precision: 10, scale: 2 }).notNull(), // Payment amount in USD
 
+  // Charge breakdown: amount = premium + taxes + fees
+  premium_amount: decimal('premium_amount', { precision: 10, scale: 2 }), // Premium before taxes and fees
+  tax_amount: decimal('tax_amount', { precision: 10, scale: 2 }), // State premium taxes
+  fee_amount: decimal('fee_amount', { precision: 10, scale: 2 }), // Policy and DMV fees
+
+  // Installment Schedule (null for one-off payments)
+  installment_number: integer('installment_number'), // 1-based position in the payment plan
+  due_date: date('due_date'), // When the installment is due (PENDING until collected)
+
+  // Collection Attempts (scheduled installments)
+  attempt_count: integer('attempt_count').notNull().default(0), // Charges attempted by the collection job
+  next_attempt_date: date('next_attempt_date'), // Retry date after a decline (null: collect on due_date)
+
   // Tokenized Payment Data (PCI Compliant - no full card numbers)
+  payment_token: varchar('payment_token', { length: 100 }), // Gateway token, charged for scheduled installments
   last_four_digits: varchar('last_four_digits', { length: 4 }), // Last 4 of card/account
   card_brand: varchar('card_brand', { length: 20 }), // Visa, Mastercard, Discover, Amex
   account_type: varchar('account_type', { length: 20 }), // checking, savings (for ACH)
@@ -34,6 +60,9 @@ export const payment = pgTable('payment', {
   transaction_id: varchar('transaction_id', { length: 100 }), // External gateway transaction ID
   gateway_response: varchar('gateway_response', { length: 255 }), // Success message or error details
 
+  // Refunds
+  refund_reason: varchar('refund_reason', { length: 255 }), // Why the money was returned (e.g., cancellation return premium)
+
   // Timestamps
   payment_date: timestamp('payment_date').notNull().defaultNow(),
   processed_at: timestamp('processed_at'), // When payment was fully processed
@@ -0,0 +1,65 @@
+/**
+ * Policy Activation Entity Schema - Run log of policy activations
+ *
+ * One row per policy term activated (BOUND → IN_FORCE on its effective date,
+ * in the policy's time zone). The row is claimed before the policy is touched
+ * and records each completed step, so a rerun never activates a policy, issues
+ * its ID cards or sends its activation notice twice, and a failed activation
+ * resumes from the step that failed.
+ */
+
+import { pgTable, uuid, varchar, date, integer, timestamp, index, uniqueIndex } from 'drizzle-orm/pg-core';
+import { policy } from './policy.schema';
+import { auditTimestamps } from './_base.schema';
+
+export const policyActivation = pgTable('policy_activation', {
+  // Primary Key
+  activation_id: uuid('activation_id').primaryKey().defaultRandom(),
+
+  // Foreign Keys
+  policy_id: uuid('policy_id')
+    .notNull()
+    .references(() => policy.policy_identifier, { onDelete: 'cascade' }),
+
+  // Core Attributes
+  effective_date: date('effective_date').notNull(), // Term start the policy was activated for
+  time_zone: varchar('time_zone', { length: 40 }).notNull(), // IANA zone the effective date was reached in
+  trigger: varchar('trigger', { length: 20 }).notNull(), // SCHEDULED, BIND, MANUAL
+  status: varchar('status', { length: 20 }).notNull(), // STARTED, ACTIVATED, FAILED
+
+  // Steps completed (each runs once)
+  activated_at: timestamp('activated_at'), // Policy moved to IN_FORCE
+  id_cards_issued_at: timestamp('id_cards_issued_at'),
+  id_card_count: integer('id_card_count'),
+  notice_sent_at: timestamp('notice_sent_at'), // Activation notice emailed
+
+  failure_reason: varchar('failure_reason', { length: 500 }), // Last failure; cleared when resumed
+  attempts: integer('attempts').notNull().default(1),
+
+  // Audit Timestamps
+  ...auditTimestamps,
+}, (table) => ({
+  uq_policy_activation_term: uniqueIndex('uq_policy_activation_term').on(table.policy_id, table.effective_date),
+  idx_policy_activation_status: index('idx_policy_activation_status').on(table.status),
+}));
+
+export type PolicyActivation = typeof policyActivation.$inferSelect;
+export type NewPolicyActivation = typeof policyActivation.$inferInsert;
+
+/**
+ * Activation Status Codes
+ */
+export const ActivationStatus = {
+  STARTED: 'STARTED',     // Claimed by a run; steps in progress
+  ACTIVATED: 'ACTIVATED', // In force, ID cards issued and notice sent
+  FAILED: 'FAILED',       // A step failed; the next run resumes it
+} as const;
+
+/**
+ * What started an activation
+ */
+export const ActivationTrigger = {
+  SCHEDULED: 'SCHEDULED', // activate-policies job on the effective date
+  BIND: 'BIND',           // Bound with a same-day effective date
+  MANUAL: 'MANUAL',       // POST /api/v1/policies/:id/activate
+} as const;
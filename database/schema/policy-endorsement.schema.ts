@@ -0,0 +1,60 @@
+/**
+ * Policy Endorsement Entity Schema - Mid-term policy changes
+ *
+ * A change to vehicles, drivers, coverage or contact details on an in-force
+ * policy. Proposed with the re-rated premium and the pro-rated difference for
+ * the rest of the term; applying it creates the next policy version
+ * (policy.version_number) from its effective date.
+ */
+
+import { pgTable, uuid, varchar, integer, date, decimal, timestamp, jsonb, index } from 'drizzle-orm/pg-core';
+import { policy } from './policy.schema';
+import { auditTimestamps } from './_base.schema';
+
+export const policyEndorsement = pgTable('policy_endorsement', {
+  // Primary Key
+  endorsement_id: uuid('endorsement_id').primaryKey().defaultRandom(),
+
+  // Foreign Keys
+  policy_id: uuid('policy_id')
+    .notNull()
+    .references(() => policy.policy_identifier, { onDelete: 'cascade' }),
+
+  // Core Attributes
+  endorsement_number: varchar('endorsement_number', { length: 20 }).notNull().unique(), // e.g., "END-A1B2C3D4"
+  status: varchar('status', { length: 20 }).notNull(), // PROPOSED, APPLIED
+  effective_date: date('effective_date').notNull(), // Change takes effect at 12:01 AM on this date
+
+  // Versioning
+  base_version: integer('base_version').notNull(), // Policy version the change was proposed against
+  version_number: integer('version_number'), // Policy version created when applied
+
+  // Change
+  changes: jsonb('changes').notNull(), // Requested changes (vehicles, drivers, coverage, contact)
+  proposed_snapshot: jsonb('proposed_snapshot').notNull(), // Policy snapshot with the changes, re-rated
+
+  // Premium (term = full policy term; pro-rated = rest of the term from the effective date)
+  previous_term_premium: decimal('previous_term_premium', { precision: 10, scale: 2 }).notNull(),
+  new_term_premium: decimal('new_term_premium', { precision: 10, scale: 2 }).notNull(),
+  prorated_premium: decimal('prorated_premium', { precision: 10, scale: 2 }).notNull(), // Premium difference (negative = return)
+  prorated_tax: decimal('prorated_tax', { precision: 10, scale: 2 }).notNull(), // Premium tax on the difference
+  prorated_amount: decimal('prorated_amount', { precision: 10, scale: 2 }).notNull(), // Billed (or returned) amount
+
+  applied_at: timestamp('applied_at'),
+
+  // Audit Timestamps
+  ...auditTimestamps,
+}, (table) => ({
+  idx_policy_endorsement_policy: index('idx_policy_endorsement_policy').on(table.policy_id, table.status),
+}));
+
+export type PolicyEndorsement = typeof policyEndorsement.$inferSelect;
+export type NewPolicyEndorsement = typeof policyEndorsement.$inferInsert;
+
+/**
+ * Endorsement Status Codes
+ */
+export const EndorsementStatus = {
+  PROPOSED: 'PROPOSED', // Re-rated and awaiting the insured's confirmation
+  APPLIED: 'APPLIED',   // Confirmed; the policy moved to a new version
+} as const;
@@ -0,0 +1,56 @@
+/**
+ * Policy Reinstatement Entity Schema - Reinstatements after non-payment
+ *
+ * One row per reinstatement of a policy that left active status for
+ * non-payment (payment hold, pending cancellation or cancelled). A policy
+ * reinstated with a lapse had no coverage from lapse_start until lapse_end,
+ * which coverage lookups and underwriting read back.
+ *
+ * The row is written PROCESSING before the past-due amount is charged; at
+ * most one per policy, so concurrent requests cannot both charge it.
+ */
+
+import { pgTable, uuid, varchar, date, integer, decimal, index, uniqueIndex } from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
+import { policy } from './policy.schema';
+import { payment } from './payment.schema';
+import { auditTimestamps } from './_base.schema';
+
+export const policyReinstatement = pgTable('policy_reinstatement', {
+  // Primary Key
+  reinstatement_id: uuid('reinstatement_id').primaryKey().defaultRandom(),
+
+  // Foreign Keys
+  policy_id: uuid('policy_id')
+    .notNull()
+    .references(() => policy.policy_identifier, { onDelete: 'cascade' }),
+  payment_id: uuid('payment_id')
+    .references(() => payment.payment_id), // Charge that collected the past-due amount (none if nothing was due)
+
+  // Core Attributes
+  status: varchar('status', { length: 20 }).notNull().default('COMPLETED'), // PROCESSING (claimed, charging), COMPLETED
+  previous_status: varchar('previous_status', { length: 50 }).notNull(), // PAYMENT_HOLD, PENDING_CANCELLATION, CANCELLED
+  left_active_date: date('left_active_date').notNull(), // Cancellation date, or when the policy left IN_FORCE
+  reinstatement_date: date('reinstatement_date').notNull(), // Coverage resumes at 12:01 AM (policy time zone)
+
+  // Coverage lapse (null when reinstated without one)
+  lapse_start: date('lapse_start'), // First day without coverage (the cancellation date)
+  lapse_end: date('lapse_end'), // Exclusive: coverage resumed on this date
+  lapse_days: integer('lapse_days').notNull().default(0),
+
+  // Amounts (USD)
+  past_due_amount: decimal('past_due_amount', { precision: 10, scale: 2 }).notNull(), // Unpaid installments due by the reinstatement date
+  lapse_credit: decimal('lapse_credit', { precision: 10, scale: 2 }).notNull().default('0'), // Premium not owed for the lapse
+  amount_collected: decimal('amount_collected', { precision: 10, scale: 2 }).notNull(),
+
+  // Audit Timestamps
+  ...auditTimestamps,
+}, (table) => ({
+  idx_policy_reinstatement_policy: index('idx_policy_reinstatement_policy').on(table.policy_id, table.lapse_start),
+  uq_policy_reinstatement_processing: uniqueIndex('uq_policy_reinstatement_processing')
+    .on(table.policy_id)
+    .where(sql`${table.status} = 'PROCESSING'`),
+}));
+
+export type PolicyReinstatement = typeof policyReinstatement.$inferSelect;
+export type NewPolicyReinstatement = typeof policyReinstatement.$inferInsert;
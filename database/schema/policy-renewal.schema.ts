@@ -0,0 +1,61 @@
+/**
+ * Policy Renewal Entity Schema - Renewal terms offered before expiration
+ *
+ * One row per policy term offered for renewal: the next term's dates, the
+ * snapshot re-rated with the rates in force and driver/vehicle ages at the
+ * renewal date, and the premium compared with the current term. On the
+ * renewal date the policy moves to the new term (RENEWED) or expires (LAPSED).
+ */
+
+import { pgTable, uuid, varchar, integer, date, decimal, timestamp, jsonb, index, uniqueIndex } from 'drizzle-orm/pg-core';
+import { policy } from './policy.schema';
+import { document } from './document.schema';
+import { auditTimestamps } from './_base.schema';
+
+export const policyRenewal = pgTable('policy_renewal', {
+  // Primary Key
+  renewal_id: uuid('renewal_id').primaryKey().defaultRandom(),
+
+  // Foreign Keys
+  policy_id: uuid('policy_id')
+    .notNull()
+    .references(() => policy.policy_identifier, { onDelete: 'cascade' }),
+  offer_document_id: uuid('offer_document_id')
+    .references(() => document.document_id), // Renewal offer sent to the insured
+
+  // Core Attributes
+  status: varchar('status', { length: 20 }).notNull(), // OFFERED, DECLINED, RENEWING, RENEWED, LAPSED
+  effective_date: date('effective_date').notNull(), // Renewal term start (current term's expiration date)
+  expiration_date: date('expiration_date').notNull(), // Renewal term end
+
+  // Rating
+  base_version: integer('base_version').notNull(), // Policy version the renewal was rated from
+  renewal_snapshot: jsonb('renewal_snapshot').notNull(), // Policy snapshot re-rated for the renewal term
+
+  // Premium (before taxes and fees, for the full term)
+  current_term_premium: decimal('current_term_premium', { precision: 10, scale: 2 }).notNull(),
+  renewal_premium: decimal('renewal_premium', { precision: 10, scale: 2 }).notNull(),
+
+  offered_at: timestamp('offered_at').notNull(),
+  decided_at: timestamp('decided_at'), // Declined by the insured, renewed or lapsed
+  outcome_reason: varchar('outcome_reason', { length: 255 }), // e.g. declined payment message
+
+  // Audit Timestamps
+  ...auditTimestamps,
+}, (table) => ({
+  uq_policy_renewal_term: uniqueIndex('uq_policy_renewal_term').on(table.policy_id, table.effective_date),
+  idx_policy_renewal_status: index('idx_policy_renewal_status').on(table.status, table.effective_date),
+}));
+
+export type PolicyRenewal = typeof policyRenewal.$inferSelect;
+export type NewPolicyRenewal = typeof policyRenewal.$inferInsert;
+
+/**
+ * Renewal Status Codes
+ */
+export const RenewalStatus = {
+  OFFERED: 'OFFERED',   // Offer sent; renews automatically on the stored payment method
+  DECLINED: 'DECLINED', // Insured declined; the policy lapses at expiration
+  RENEWED: 'RENEWED',   // Renewal premium charged; the policy moved to the new term
+  LAPSED: 'LAPSED',     // Declined, or the renewal payment failed; the policy expired
+} as const;
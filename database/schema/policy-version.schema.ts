@@ -0,0 +1,50 @@
+/**
+ * Policy Version Entity Schema - Effective-dated policy snapshots
+ *
+ * One immutable row per policy version: version 1 when the quote is bound,
+ * then one per applied endorsement and one per renewal term. A version is in
+ * force from its effective date until the next version's effective date (or
+ * the end of the term).
+ * policy.quote_snapshot always mirrors the latest version.
+ */
+
+import { pgTable, uuid, integer, date, decimal, timestamp, jsonb, varchar, index, uniqueIndex } from 'drizzle-orm/pg-core';
+import { policy } from './policy.schema';
+import { policyEndorsement } from './policy-endorsement.schema';
+
+export const policyVersion = pgTable('policy_version', {
+  // Primary Key
+  policy_version_id: uuid('policy_version_id').primaryKey().defaultRandom(),
+
+  // Foreign Keys
+  policy_id: uuid('policy_id')
+    .notNull()
+    .references(() => policy.policy_identifier, { onDelete: 'cascade' }),
+  endorsement_id: uuid('endorsement_id')
+    .references(() => policyEndorsement.endorsement_id), // Endorsement that created the version (null for version 1)
+
+  // Core Attributes
+  version_number: integer('version_number').notNull(),
+  source: varchar('source', { length: 20 }).notNull(), // BIND, ENDORSEMENT, RENEWAL
+  effective_date: date('effective_date').notNull(), // In force from 12:01 AM on this date
+  snapshot: jsonb('snapshot').notNull(), // Drivers, vehicles, coverages, address and premium of this version
+  term_premium: decimal('term_premium', { precision: 10, scale: 2 }).notNull(), // Full-term premium at this version's rates
+
+  // Written once; versions are never updated
+  created_at: timestamp('created_at').notNull().defaultNow(),
+}, (table) => ({
+  uq_policy_version_number: uniqueIndex('uq_policy_version_number').on(table.policy_id, table.version_number),
+  idx_policy_version_effective: index('idx_policy_version_effective').on(table.policy_id, table.effective_date),
+}));
+
+export type PolicyVersion = typeof policyVersion.$inferSelect;
+export type NewPolicyVersion = typeof policyVersion.$inferInsert;
+
+/**
+ * What created a policy version
+ */
+export const PolicyVersionSource = {
+  BIND: 'BIND',               // Quote bound to a policy
+  ENDORSEMENT: 'ENDORSEMENT', // Mid-term change applied
+  RENEWAL: 'RENEWAL',         // Policy renewed for a new term
+} as const;
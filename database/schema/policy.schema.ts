@@ -5,7 +5,7 @@
  * A quote is represented as a Policy with status='QUOTED'.
  */
 
-import { pgTable, uuid, varchar, date, timestamp, jsonb } from 'drizzle-orm/pg-core';
+import { pgTable, uuid, varchar, integer, date, timestamp, jsonb } from 'drizzle-orm/pg-core';
 import { agreement } from './agreement.schema';
 import { auditTimestamps } from './_base.schema';
 
@@ -17,15 +17,21 @@ export const policy = pgTable('policy', {
 
   // Core Attributes
   policy_number: varchar('policy_number', { length: 50 }).notNull().unique(),
-  effective_date: date('effective_date').notNull(),
-  expiration_date: date('expiration_date').notNull(),
-  status_code: varchar('status_code', { length: 50 }).notNull(), // QUOTED, BINDING, BOUND, ACTIVE, CANCELLED, EXPIRED
+  effective_date: date('effective_date').notNull(), // Current term start once bound (renewals move it to the new term)
+  expiration_date: date('expiration_date').notNull(), // Quote expiry while quoted; current term end once bound
+  status_code: varchar('status_code', { length: 50 }).notNull(), // QUOTED, BINDING, BOUND, ACTIVE, PAYMENT_HOLD, PENDING_CANCELLATION, CANCELLED, EXPIRED
+  version_number: integer('version_number').notNull().default(1), // Incremented by each applied endorsement and renewal
 
   // Quote-specific fields (hybrid approach - JSONB + denormalized)
-  quote_snapshot: jsonb('quote_snapshot'), // Complete quote data for fast CRM retrieval
+  quote_snapshot: jsonb('quote_snapshot'), // Complete quote data for fast CRM retrieval (latest version once bound; history in policy_version)
   marital_status: varchar('marital_status', { length: 20 }), // Denormalized for query performance
   coverage_start_date: date('coverage_start_date'), // Denormalized for query performance
 
+  // Cancellation (set when a cancellation is requested; see PolicyCancellationService)
+  cancellation_date: date('cancellation_date'), // Coverage ends at 12:01 AM on this date
+  cancellation_reason: varchar('cancellation_reason', { length: 30 }), // INSURED_REQUEST, NON_PAYMENT, UNDERWRITING
+  cancellation_return_premium_method: varchar('cancellation_return_premium_method', { length: 20 }), // PRO_RATA, SHORT_RATE
+
   // Audit Timestamps
   ...auditTimestamps,
 });
@@ -41,6 +47,8 @@ export const PolicyStatus = {
   BINDING: 'BINDING',         // Customer submitted payment, transaction processing
   BOUND: 'BOUND',             // Payment successful, policy purchased, awaiting effective date
   ACTIVE: 'ACTIVE',           // Policy effective date reached, coverage in force
+  PAYMENT_HOLD: 'PAYMENT_HOLD', // ACH debit returned by the bank, premium unpaid
+  PENDING_CANCELLATION: 'PENDING_CANCELLATION', // Installment unpaid past the grace period, or cancellation scheduled
   CANCELLED: 'CANCELLED',     // Policy terminated before expiration
   EXPIRED: 'EXPIRED',         // Policy reached expiration date
 } as const;
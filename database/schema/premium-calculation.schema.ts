@@ -17,6 +17,9 @@ export const premiumCalculation = pgTable('premium_calculation', {
     .references(() => policy.policy_identifier, { onDelete: 'cascade' })
     .notNull(),
 
+  // Rating Inputs (quote data exactly as rated)
+  input_snapshot: jsonb('input_snapshot'),
+
   // Base Premium
   base_premium: decimal('base_premium', { precision: 10, scale: 2 }).notNull(),
 
@@ -47,7 +50,8 @@ export const premiumCalculation = pgTable('premium_calculation', {
 
   // Calculation Metadata
   calculation_timestamp: timestamp('calculation_timestamp').defaultNow().notNull(),
-  calculation_version: varchar('calculation_version', { length: 20 }), // Rating engine version
+  calculation_version: varchar('calculation_version', { length: 20 }), // Rate-table version used (e.g. 2025-01-01)
+  calculation_trigger: varchar('calculation_trigger', { length: 50 }), // QUOTE_CREATED, COVERAGE_UPDATED, ...
   calculation_notes: text('calculation_notes'),
 
   // Audit Timestamps
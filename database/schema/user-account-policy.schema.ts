@@ -0,0 +1,39 @@
+/**
+ * User Account Policy Entity Schema - Accounts linked to policies and quotes
+ *
+ * Many-to-many link between portal accounts and policy rows (bound policies
+ * and saved quotes alike), so one sign-in sees a whole household's policies
+ * and a policy can be shared by several household members.
+ */
+
+import { pgTable, uuid, varchar, index, uniqueIndex } from 'drizzle-orm/pg-core';
+import { userAccount } from './user-account.schema';
+import { policy } from './policy.schema';
+import { auditTimestamps } from './_base.schema';
+
+export const userAccountPolicy = pgTable('user_account_policy', {
+  // Primary Key
+  link_id: uuid('link_id').primaryKey().defaultRandom(),
+
+  // Foreign Keys
+  account_id: uuid('account_id')
+    .notNull()
+    .references(() => userAccount.account_id, { onDelete: 'cascade' }),
+  policy_id: uuid('policy_id')
+    .notNull()
+    .references(() => policy.policy_identifier, { onDelete: 'cascade' }),
+
+  // Core Attributes
+  linked_via: varchar('linked_via', { length: 20 }).notNull(), // INSURED_EMAIL, SAVED_QUOTE, SHARED, LEGACY
+  shared_by_account_id: uuid('shared_by_account_id')
+    .references(() => userAccount.account_id, { onDelete: 'set null' }), // Household member who shared it (SHARED only)
+
+  // Audit Timestamps
+  ...auditTimestamps,
+}, (table) => ({
+  uq_user_account_policy: uniqueIndex('uq_user_account_policy').on(table.account_id, table.policy_id),
+  idx_user_account_policy_policy: index('idx_user_account_policy_policy').on(table.policy_id),
+}));
+
+export type UserAccountPolicy = typeof userAccountPolicy.$inferSelect;
+export type NewUserAccountPolicy = typeof userAccountPolicy.$inferInsert;
@@ -1,32 +1,32 @@
 /**
- * User Account Schema (Demo Mode - No Authentication)
+ * User Account Schema
  *
  * OMG P&C extension for portal access.
- * In demo mode, access is granted via URL with policy number (no passwords).
- * In production, this would include authentication fields.
+ * Customers sign in with email and password (bcrypt hash) or an emailed
+ * magic link; sessions are kept in user_session, emailed links in
+ * account_token.
  */
 
 import { pgTable, uuid, varchar, timestamp } from 'drizzle-orm/pg-core';
-import { relations } from 'drizzle-orm';
 import { auditTimestamps } from './_base.schema';
-import { policy } from './policy.schema';
 
 /**
  * User Account entity
  *
- * Represents a portal user account linked to one or more policies.
- * Demo mode: URL-based access with policy number (no password required).
+ * Represents a portal user account. Accounts stand on their own: they are
+ * created at checkout before anything is bought, and reach policies and saved
+ * quotes through user_account_policy.
  */
 export const userAccount = pgTable('user_account', {
   account_id: uuid('account_id').primaryKey().defaultRandom(),
 
-  // Primary policy (user may have multiple policies linked to same email)
-  policy_identifier: uuid('policy_identifier')
-    .notNull()
-    .references(() => policy.policy_identifier, { onDelete: 'cascade' }),
-
-  // Contact information
+  // Contact information (stored lowercase)
   email: varchar('email', { length: 255 }).notNull(),
+  first_name: varchar('first_name', { length: 100 }),
+  last_name: varchar('last_name', { length: 100 }),
+
+  // Credentials (bcrypt; null for legacy demo accounts, which cannot sign in)
+  password_hash: varchar('password_hash', { length: 255 }),
 
   // Demo mode access token (UUID for URL-based portal access)
   // In production, this would be replaced with proper authentication
@@ -34,22 +34,12 @@ export const userAccount = pgTable('user_account', {
 
   // Tracking
   last_accessed_at: timestamp('last_accessed_at'),
+  last_login_at: timestamp('last_login_at'),
+  email_verified_at: timestamp('email_verified_at'), // Set when a verify-email, reset or magic link is followed
 
   ...auditTimestamps,
 });
 
-/**
- * User Account Relations
- */
-// Temporarily disabled to avoid circular dependency during migration generation
-// export const userAccountRelations = relations(userAccount, ({ one }) => ({
-//   // Many-to-one: User Account belongs to one Policy
-//   policy: one(policy, {
-//     fields: [userAccount.policy_identifier],
-//     references: [policy.policy_identifier],
-//   }),
-// }));
-
 /**
  * TypeScript type for User Account
  */
@@ -0,0 +1,36 @@
+/**
+ * User Session Entity Schema - Signed-in portal sessions
+ *
+ * One row per sign-in. The session token itself is only ever held by the
+ * browser (in an HttpOnly cookie); the table keeps its SHA-256 hash, so a
+ * leaked table cannot be replayed. A session ends at expires_at or when the
+ * customer signs out (revoked_at).
+ */
+
+import { pgTable, uuid, varchar, timestamp, index } from 'drizzle-orm/pg-core';
+import { userAccount } from './user-account.schema';
+import { auditTimestamps } from './_base.schema';
+
+export const userSession = pgTable('user_session', {
+  // Primary Key
+  session_id: uuid('session_id').primaryKey().defaultRandom(),
+
+  // Foreign Keys
+  account_id: uuid('account_id')
+    .notNull()
+    .references(() => userAccount.account_id, { onDelete: 'cascade' }),
+
+  // Core Attributes
+  token_hash: varchar('token_hash', { length: 64 }).notNull().unique(), // Hex SHA-256 of the session token
+  expires_at: timestamp('expires_at').notNull(), // Absolute expiry, SESSION_TTL_HOURS after sign-in
+  last_used_at: timestamp('last_used_at'),
+  revoked_at: timestamp('revoked_at'), // Set on sign-out
+
+  // Audit Timestamps
+  ...auditTimestamps,
+}, (table) => ({
+  idx_user_session_account: index('idx_user_session_account').on(table.account_id),
+}));
+
+export type UserSession = typeof userSession.$inferSelect;
+export type NewUserSession = typeof userSession.$inferInsert;
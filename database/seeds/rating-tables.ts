@@ -0,0 +1,150 @@
+/**
+ * Rating Table Seed Data - Version 2025-01-01
+ *
+ * Base rates and multipliers consumed by the table-driven premium calculation
+ * in RatingEngineService. Each row is keyed by
+ * table_name plus lookup_key_1..3 and is in force from effective_date until
+ * expiration_date (exclusive, null = open-ended).
+ *
+ * These values reproduce the factors that were previously hard-coded in the
+ * quote service, so existing quotes re-rate to the same premium.
+ *
+ * Key conventions:
+ * - Band tables (DRIVER_AGE, VEHICLE_AGE): lookup_key_1 = minimum, lookup_key_2 = maximum
+ *   (both inclusive, null = unbounded)
+ * - Limit tables: lookup_key_1 = limit in thousands ("100/300") or dollars ("50000")
+ * - lookup_key_1 = 'DEFAULT' is used when a selection has no exact row
+ *
+ * To change rates, insert new rows with a later effective_date and set
+ * expiration_date on the rows they replace - no deploy required.
+ */
+
+import type { NewRatingTable } from '../schema/rating-table.schema';
+
+/**
+ * Effective date of this rate version
+ */
+export const RATING_TABLE_SEED_EFFECTIVE_DATE = '2025-01-01';
+
+/**
+ * Build a rating_table row for this rate version
+ */
+function rateRow(
+  tableName: string,
+  tableType: 'BASE_RATE' | 'FACTOR' | 'MULTIPLIER',
+  rateValue: number,
+  keys: Array<string | null> = [],
+  description?: string,
+): NewRatingTable {
+  const [key1 = null, key2 = null, key3 = null] = keys;
+  const codeParts = [tableName, ...keys.map(k => k ?? 'ANY'), RATING_TABLE_SEED_EFFECTIVE_DATE.replace(/-/g, '')];
+
+  return {
+    table_name: tableName,
+    table_code: codeParts.join('_').replace(/[^A-Z0-9_]/gi, '_').toUpperCase(),
+    table_type: tableType,
+    table_description: description ?? null,
+    lookup_key_1: key1,
+    lookup_key_2: key2,
+    lookup_key_3: key3,
+    rate_value: rateValue.toFixed(4),
+    effective_date: RATING_TABLE_SEED_EFFECTIVE_DATE,
+    expiration_date: null,
+  };
+}
+
+export const RATING_TABLE_SEED: NewRatingTable[] = [
+  // Base premium per vehicle
+  rateRow('BASE_PREMIUM', 'BASE_RATE', 1000, [], 'Base premium per vehicle before factors'),
+
+  // Primary driver age (multiplier)
+  rateRow('DRIVER_AGE', 'MULTIPLIER', 1.8, ['0', '24'], 'Young drivers higher risk'),
+  rateRow('DRIVER_AGE', 'MULTIPLIER', 1.0, ['25', '64'], '25-64 baseline'),
+  rateRow('DRIVER_AGE', 'MULTIPLIER', 1.2, ['65', null], 'Senior drivers moderate risk'),
+
+  // Vehicle age in years (multiplier)
+  rateRow('VEHICLE_AGE', 'MULTIPLIER', 1.3, [null, '3'], 'New cars cost more to repair'),
+  rateRow('VEHICLE_AGE', 'MULTIPLIER', 1.0, ['4', '7'], 'Mid-age baseline'),
+  rateRow('VEHICLE_AGE', 'MULTIPLIER', 0.9, ['8', null], 'Older cars less valuable'),
+
+  // Territory (multiplier) - relativities are neutral in this rate version
+  rateRow('TERRITORY', 'MULTIPLIER', 1.0, ['URBAN']),
+  rateRow('TERRITORY', 'MULTIPLIER', 1.0, ['SUBURBAN']),
+  rateRow('TERRITORY', 'MULTIPLIER', 1.0, ['RURAL']),
+  rateRow('TERRITORY', 'MULTIPLIER', 1.0, ['DEFAULT']),
+
+  // Load added per additional driver
+  rateRow('ADDITIONAL_DRIVER', 'FACTOR', 0.15, [], 'Each additional driver adds 15%'),
+
+  // Collision deductible load (per vehicle)
+  rateRow('COLLISION_DEDUCTIBLE', 'FACTOR', 0.35, ['250']),
+  rateRow('COLLISION_DEDUCTIBLE', 'FACTOR', 0.30, ['500']),
+  rateRow('COLLISION_DEDUCTIBLE', 'FACTOR', 0.275, ['750']),
+  rateRow('COLLISION_DEDUCTIBLE', 'FACTOR', 0.25, ['1000']),
+  rateRow('COLLISION_DEDUCTIBLE', 'FACTOR', 0.20, ['2500']),
+  rateRow('COLLISION_DEDUCTIBLE', 'FACTOR', 0.30, ['DEFAULT']),
+
+  // Comprehensive deductible load (per vehicle)
+  rateRow('COMPREHENSIVE_DEDUCTIBLE', 'FACTOR', 0.25, ['250']),
+  rateRow('COMPREHENSIVE_DEDUCTIBLE', 'FACTOR', 0.20, ['500']),
+  rateRow('COMPREHENSIVE_DEDUCTIBLE', 'FACTOR', 0.175, ['750']),
+  rateRow('COMPREHENSIVE_DEDUCTIBLE', 'FACTOR', 0.15, ['1000']),
+  rateRow('COMPREHENSIVE_DEDUCTIBLE', 'FACTOR', 0.10, ['2500']),
+  rateRow('COMPREHENSIVE_DEDUCTIBLE', 'FACTOR', 0.20, ['DEFAULT']),
+
+  // Per-vehicle add-on loads
+  rateRow('RENTAL_REIMBURSEMENT', 'FACTOR', 0.04, [], 'Per vehicle with rental coverage'),
+  rateRow('ADDITIONAL_EQUIPMENT', 'FACTOR', 0.02, ['1000']),
+  rateRow('ADDITIONAL_EQUIPMENT', 'FACTOR', 0.05, ['5000']),
+  rateRow('ADDITIONAL_EQUIPMENT', 'FACTOR', 0.03, ['DEFAULT']),
+  rateRow('ORIGINAL_PARTS_REPLACEMENT', 'FACTOR', 0.06, [], 'OEM parts guarantee'),
+
+  // Multi-car discount: BASE - (vehicles - 1) × STEP, never below FLOOR
+  rateRow('MULTI_CAR_DISCOUNT', 'MULTIPLIER', 0.90, ['BASE']),
+  rateRow('MULTI_CAR_DISCOUNT', 'MULTIPLIER', 0.05, ['STEP']),
+  rateRow('MULTI_CAR_DISCOUNT', 'MULTIPLIER', 0.75, ['FLOOR']),
+
+  // Bodily injury liability limit load
+  rateRow('BI_LIMIT', 'FACTOR', 0.05, ['25/50']),
+  rateRow('BI_LIMIT', 'FACTOR', 0.10, ['50/100']),
+  rateRow('BI_LIMIT', 'FACTOR', 0.15, ['100/300']),
+  rateRow('BI_LIMIT', 'FACTOR', 0.25, ['300/500']),
+  rateRow('BI_LIMIT', 'FACTOR', 0.35, ['500/1000']),
+  rateRow('BI_LIMIT', 'FACTOR', 0.15, ['DEFAULT']),
+
+  // Property damage liability limit load
+  rateRow('PD_LIMIT', 'FACTOR', 0.03, ['25000']),
+  rateRow('PD_LIMIT', 'FACTOR', 0.05, ['50000']),
+  rateRow('PD_LIMIT', 'FACTOR', 0.065, ['75000']),
+  rateRow('PD_LIMIT', 'FACTOR', 0.08, ['100000']),
+  rateRow('PD_LIMIT', 'FACTOR', 0.05, ['DEFAULT']),
+
+  // Medical payments limit load (only when selected)
+  rateRow('MED_PAY_LIMIT', 'FACTOR', 0.02, ['1000']),
+  rateRow('MED_PAY_LIMIT', 'FACTOR', 0.03, ['2000']),
+  rateRow('MED_PAY_LIMIT', 'FACTOR', 0.035, ['3000']),
+  rateRow('MED_PAY_LIMIT', 'FACTOR', 0.04, ['4000']),
+  rateRow('MED_PAY_LIMIT', 'FACTOR', 0.05, ['5000']),
+  rateRow('MED_PAY_LIMIT', 'FACTOR', 0.055, ['6000']),
+  rateRow('MED_PAY_LIMIT', 'FACTOR', 0.06, ['7000']),
+  rateRow('MED_PAY_LIMIT', 'FACTOR', 0.07, ['8000']),
+  rateRow('MED_PAY_LIMIT', 'FACTOR', 0.075, ['9000']),
+  rateRow('MED_PAY_LIMIT', 'FACTOR', 0.08, ['10000']),
+  rateRow('MED_PAY_LIMIT', 'FACTOR', 0.05, ['DEFAULT']),
+
+  // Uninsured motorist bodily injury limit load (only when selected)
+  rateRow('UMBI_LIMIT', 'FACTOR', 0.05, ['25/50']),
+  rateRow('UMBI_LIMIT', 'FACTOR', 0.08, ['50/100']),
+  rateRow('UMBI_LIMIT', 'FACTOR', 0.10, ['100/300']),
+  rateRow('UMBI_LIMIT', 'FACTOR', 0.15, ['300/500']),
+  rateRow('UMBI_LIMIT', 'FACTOR', 0.20, ['500/1000']),
+  rateRow('UMBI_LIMIT', 'FACTOR', 0.10, ['DEFAULT']),
+
+  // Underinsured motorist bodily injury limit load (only when selected)
+  rateRow('UIMBI_LIMIT', 'FACTOR', 0.04, ['25/50']),
+  rateRow('UIMBI_LIMIT', 'FACTOR', 0.07, ['50/100']),
+  rateRow('UIMBI_LIMIT', 'FACTOR', 0.09, ['100/300']),
+  rateRow('UIMBI_LIMIT', 'FACTOR', 0.13, ['300/500']),
+  rateRow('UIMBI_LIMIT', 'FACTOR', 0.18, ['500/1000']),
+  rateRow('UIMBI_LIMIT', 'FACTOR', 0.09, ['DEFAULT']),
+];
@@ -0,0 +1,50 @@
+/**
+ * Seed Runner
+ *
+ * Loads seed data into the database. Safe to run multiple times - rows that
+ * already exist (matched on their unique code) are left untouched.
+ *
+ * Usage (from backend directory):
+ *   npm run db:seed
+ */
+
+import { config } from 'dotenv';
+import { getDatabase } from '../../backend/src/database/drizzle.config';
+import { ratingTable } from '../schema/rating-table.schema';
+import { RATING_TABLE_SEED, RATING_TABLE_SEED_EFFECTIVE_DATE } from './rating-tables';
+
+config({ path: '.env.local' });
+config();
+
+/**
+ * Seed rating tables (base rates and multipliers)
+ */
+async function seedRatingTables(): Promise<void> {
+  const db = getDatabase();
+
+  const inserted = await db
+    .insert(ratingTable)
+    .values(RATING_TABLE_SEED)
+    .onConflictDoNothing({ target: ratingTable.table_code })
+    .returning({ code: ratingTable.table_code });
+
+  console.log(
+    `  📝 rating_table: ${inserted.length} of ${RATING_TABLE_SEED.length} rows inserted ` +
+    `(version ${RATING_TABLE_SEED_EFFECTIVE_DATE})`
+  );
+}
+
+async function runSeeds(): Promise<void> {
+  console.log('🌱 Running seeds...');
+
+  try {
+    await seedRatingTables();
+    console.log('✅ Seeds complete');
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ Seeding failed:', error);
+    process.exit(1);
+  }
+}
+
+runSeeds();
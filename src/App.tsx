@@ -26,6 +26,7 @@ import BindingCheckout from './pages/binding/Checkout';
 import Confirmation from './pages/binding/Confirmation';
 
 // Import portal pages (T121 - Phase 5)
+import AccountDashboard from './pages/portal/AccountDashboard';
 import Dashboard from './pages/portal/Dashboard';
 import PersonalInfo from './pages/portal/PersonalInfo';
 import VehicleDetails from './pages/portal/VehicleDetails';
@@ -35,6 +36,7 @@ import Documents from './pages/portal/Documents';
 import BillingHistory from './pages/portal/BillingHistory';
 import ClaimsList from './pages/portal/ClaimsList';
 import FileClaim from './pages/portal/FileClaim';
+import AccountLink from './pages/portal/AccountLink';
 
 // Import debug panel (T128 - Phase 6)
 import { QuoteDebugPanel } from './components/debug/QuoteDebugPanel';
@@ -127,6 +129,10 @@ function App() {
           {/* TODO: Add ReviewBind route when implemented (optional) */}
 
           {/* Portal Routes (T121 - Phase 5: Self-Service Portal) */}
+          <Route path="/portal" element={<AccountDashboard />} />
+          <Route path="/account/verify-email" element={<AccountLink kind="verify-email" />} />
+          <Route path="/account/magic-link" element={<AccountLink kind="magic-link" />} />
+          <Route path="/account/reset-password" element={<AccountLink kind="reset-password" />} />
           <Route path="/portal/:policyNumber" element={<Dashboard />} />
           <Route path="/portal/:policyNumber/personal-info" element={<PersonalInfo />} />
           <Route path="/portal/:policyNumber/vehicles" element={<VehicleDetails />} />
@@ -24,12 +24,29 @@ interface Premium {
   sixMonth: number;
 }
 
+interface Discount {
+  code: string;
+  name: string;
+  eligible: boolean;
+  amount: number;
+  explanation: string;
+}
+
+interface Surcharge {
+  code: string;
+  name: string;
+  amount: number;
+  description: string;
+}
+
 interface PremiumBreakdownProps {
   coverage: Coverage;
   premium: Premium;
+  discounts?: Discount[]; // Eligibility for every discount, from the rating engine
+  surcharges?: Surcharge[]; // Applied surcharges, from the rating engine
 }
 
-const PremiumBreakdown: React.FC<PremiumBreakdownProps> = ({ coverage, premium }) => {
+const PremiumBreakdown: React.FC<PremiumBreakdownProps> = ({ coverage, premium, discounts = [], surcharges = [] }) => {
   // Calculate individual coverage costs
   const baseLiability = 95;
   const collisionCost = coverage.hasCollision ? 32 : 0;
@@ -59,6 +76,10 @@ const PremiumBreakdown: React.FC<PremiumBreakdownProps> = ({ coverage, premium }
 
   const totalDiscounts = Math.abs(collisionDeductibleDiscount) + Math.abs(comprehensiveDeductibleDiscount);
 
+  // Policy discounts (amounts are for the 6-month term)
+  const appliedDiscounts = discounts.filter(discount => discount.eligible);
+  const missedDiscounts = discounts.filter(discount => !discount.eligible);
+
   return (
     <Card padding="medium">
       <Layout display="flex-column" gap="small">
@@ -129,6 +150,78 @@ const PremiumBreakdown: React.FC<PremiumBreakdownProps> = ({ coverage, premium }
           )}
         </List>
 
+        {appliedDiscounts.length > 0 && (
+          <>
+            <Text variant="body-regular" weight="bold">
+              Discounts Applied
+            </Text>
+            <List>
+              {appliedDiscounts.map(discount => (
+                <List.Row key={discount.code}>
+                  <List.Item>
+                    <Layout display="flex-column">
+                      <Text color="success">{discount.name}</Text>
+                      <Text variant="caption-small" color="subtle">
+                        {discount.explanation}
+                      </Text>
+                    </Layout>
+                  </List.Item>
+                  <List.Item align="right">
+                    <Text color="success">-${discount.amount.toFixed(2)}</Text>
+                  </List.Item>
+                </List.Row>
+              ))}
+            </List>
+          </>
+        )}
+
+        {surcharges.length > 0 && (
+          <>
+            <Text variant="body-regular" weight="bold">
+              Surcharges
+            </Text>
+            <List>
+              {surcharges.map(surcharge => (
+                <List.Row key={surcharge.code}>
+                  <List.Item>
+                    <Layout display="flex-column">
+                      <Text>{surcharge.name}</Text>
+                      <Text variant="caption-small" color="subtle">
+                        {surcharge.description}
+                      </Text>
+                    </Layout>
+                  </List.Item>
+                  <List.Item align="right">
+                    <Text>+${surcharge.amount.toFixed(2)}</Text>
+                  </List.Item>
+                </List.Row>
+              ))}
+            </List>
+          </>
+        )}
+
+        {missedDiscounts.length > 0 && (
+          <>
+            <Text variant="body-regular" weight="bold">
+              Discounts Not Applied
+            </Text>
+            <List>
+              {missedDiscounts.map(discount => (
+                <List.Row key={discount.code}>
+                  <List.Item>
+                    <Layout display="flex-column">
+                      <Text>{discount.name}</Text>
+                      <Text variant="caption-small" color="subtle">
+                        {discount.explanation}
+                      </Text>
+                    </Layout>
+                  </List.Item>
+                </List.Row>
+              ))}
+            </List>
+          </>
+        )}
+
         <div
           style={{
             borderTop: '2px solid #e5e7eb',
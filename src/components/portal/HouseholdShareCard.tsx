@@ -0,0 +1,60 @@
+/**
+ * Household Share Card
+ *
+ * Lets the insured share the policy with a household member's account, so
+ * it shows on their household dashboard and they can open its portal. The
+ * household member needs an account first.
+ */
+
+import { useState } from 'react';
+import { Card, Text, TextInput, Button } from '@sureapp/canary-design-system';
+import { useSharePolicy } from '../../hooks/usePortal';
+
+interface HouseholdShareCardProps {
+  policyNumber: string;
+}
+
+export function HouseholdShareCard({ policyNumber }: HouseholdShareCardProps) {
+  const shareMutation = useSharePolicy();
+  const [email, setEmail] = useState('');
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const handleShare = async () => {
+    setMessage(null);
+    try {
+      const shared = await shareMutation.mutateAsync({ policyNumber, email: email.trim() });
+      setMessage({ text: `Shared with ${shared.email}.`, isError: false });
+      setEmail('');
+    } catch (error) {
+      setMessage({ text: error instanceof Error ? error.message : 'Could not share the policy', isError: true });
+    }
+  };
+
+  return (
+    <Card style={{ marginTop: '1.5rem' }}>
+      <div style={{ padding: '1.5rem', display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+        <h3 className="text-lg font-bold">Share with your household</h3>
+        <Text variant="body-small" color="subtle">
+          Enter the email of a household member's account to let them see this policy.
+        </Text>
+        <div style={{ display: 'flex', gap: '0.75rem' }}>
+          <TextInput
+            id="share-policy-email"
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="partner@example.com"
+          />
+          <Button onClick={handleShare} disabled={!email || shareMutation.isPending}>
+            {shareMutation.isPending ? 'Sharing...' : 'Share'}
+          </Button>
+        </div>
+        {message && (
+          <Text variant="body-small" style={{ color: message.isError ? '#ef4444' : '#16a34a' }}>
+            {message.text}
+          </Text>
+        )}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,198 @@
+/**
+ * Policy Change Form
+ *
+ * Wraps the edit fields of a portal page in the endorsement flow:
+ * 1. Edit - the page's fields plus the date the change takes effect
+ * 2. Review - new premium and the pro-rated difference for the rest of the term
+ * 3. Applied - how the difference is billed
+ *
+ * Nothing changes on the policy until the insured confirms the review.
+ */
+
+import { useState, type ReactNode } from 'react';
+import { Card, Text, Button } from '@sureapp/canary-design-system';
+import { useProposeEndorsement, useConfirmEndorsement } from '../../hooks/usePortal';
+import type { EndorsementChanges } from '../../services/portal-api';
+import { formatDateDisplay } from '../../utils/dateFormatter';
+
+interface PolicyChangeFormProps {
+  policyNumber: string;
+  /** Requested change, built from the page's fields */
+  changes: EndorsementChanges;
+  onClose: () => void;
+  children: ReactNode;
+}
+
+// Policies the insured can change mid-term
+const CHANGEABLE_STATUSES = ['IN_FORCE', 'ACTIVE'];
+
+export const canChangePolicy = (policy?: { status?: string; read_only?: boolean }) =>
+  !!policy && !policy.read_only && CHANGEABLE_STATUSES.includes(policy.status ?? '');
+
+const formatMoney = (amount: number) => `$${Math.abs(amount).toFixed(2)}`;
+
+export function PolicyChangeForm({ policyNumber, changes, onClose, children }: PolicyChangeFormProps) {
+  const today = new Date().toISOString().split('T')[0];
+  const [effectiveDate, setEffectiveDate] = useState(today);
+  const [proposal, setProposal] = useState<any>(null);
+  const [applied, setApplied] = useState<any>(null);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  const proposeMutation = useProposeEndorsement();
+  const confirmMutation = useConfirmEndorsement();
+
+  const handleReview = async () => {
+    setSubmitError(null);
+    try {
+      setProposal(await proposeMutation.mutateAsync({ policyNumber, changes, effectiveDate }));
+    } catch (err) {
+      setSubmitError(err instanceof Error ? err.message : 'Failed to review policy change');
+    }
+  };
+
+  const handleConfirm = async () => {
+    setSubmitError(null);
+    try {
+      setApplied(await confirmMutation.mutateAsync({ policyNumber, endorsementId: proposal.endorsementId }));
+    } catch (err) {
+      setSubmitError(err instanceof Error ? err.message : 'Failed to apply policy change');
+    }
+  };
+
+  const errorMessage = submitError && (
+    <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+      <Text color="error">{submitError}</Text>
+    </div>
+  );
+
+  // Step 3: Applied
+  if (applied) {
+    const adjustment = applied.billingAdjustment;
+    return (
+      <Card className="p-6">
+        <div className="space-y-4">
+          <Text className="font-medium">Your policy has been updated (version {applied.versionNumber}).</Text>
+          {adjustment.type === 'CHARGE' && (
+            <Text>
+              {formatMoney(adjustment.amount)} will be charged to your payment method on {formatDateDisplay(adjustment.dueDate)}.
+            </Text>
+          )}
+          {adjustment.type === 'CREDIT' && (
+            <Text>
+              {formatMoney(adjustment.amount)} will be returned to you
+              {adjustment.installmentCredit > 0 && ` (${formatMoney(adjustment.installmentCredit)} taken off your upcoming payments)`}.
+            </Text>
+          )}
+          <Text color="muted" size="sm">Your updated declarations page is available in Documents.</Text>
+          <Button variant="primary" onClick={onClose}>Done</Button>
+        </div>
+      </Card>
+    );
+  }
+
+  // Step 2: Review
+  if (proposal) {
+    const increase = proposal.proratedAmount >= 0;
+    return (
+      <Card className="p-6">
+        <div className="space-y-4">
+          <h3 className="text-lg font-semibold">Review your change</h3>
+          <div className="divide-y">
+            <div className="grid grid-cols-2 py-3">
+              <Text>Effective date</Text>
+              <Text className="text-right">{formatDateDisplay(proposal.effectiveDate)}</Text>
+            </div>
+            <div className="grid grid-cols-2 py-3">
+              <Text>Current policy premium</Text>
+              <Text className="text-right">{formatMoney(proposal.previousTermPremium)}</Text>
+            </div>
+            <div className="grid grid-cols-2 py-3">
+              <Text>New policy premium</Text>
+              <Text className="text-right">{formatMoney(proposal.newTermPremium)}</Text>
+            </div>
+            <div className="grid grid-cols-2 py-3">
+              <Text className="font-medium">
+                {increase ? 'Additional premium' : 'Premium returned'} for the remaining {proposal.remainingDays} days
+              </Text>
+              <Text className="text-right font-medium">
+                {increase ? '+' : '-'}{formatMoney(proposal.proratedAmount)}
+              </Text>
+            </div>
+          </div>
+          <Text color="muted" size="sm">Includes premium tax. Nothing changes until you confirm.</Text>
+          {errorMessage}
+          <div className="flex gap-3">
+            <Button variant="primary" onClick={handleConfirm} disabled={confirmMutation.isPending} className="flex-1">
+              {confirmMutation.isPending ? 'Applying...' : 'Confirm change'}
+            </Button>
+            <Button variant="secondary" onClick={() => setProposal(null)} disabled={confirmMutation.isPending}>
+              Back
+            </Button>
+          </div>
+        </div>
+      </Card>
+    );
+  }
+
+  // Step 1: Edit
+  return (
+    <Card className="p-6">
+      <div className="space-y-6">
+        {children}
+
+        <div>
+          <label className="block mb-2">
+            <Text className="font-medium">Change takes effect on</Text>
+          </label>
+          <input
+            type="date"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            value={effectiveDate}
+            min={today}
+            onChange={(e) => setEffectiveDate(e.target.value)}
+          />
+        </div>
+
+        {errorMessage}
+
+        <div className="flex gap-3">
+          <Button variant="primary" onClick={handleReview} disabled={proposeMutation.isPending} className="flex-1">
+            {proposeMutation.isPending ? 'Calculating...' : 'Review change'}
+          </Button>
+          <Button variant="secondary" onClick={onClose} disabled={proposeMutation.isPending}>
+            Cancel
+          </Button>
+        </div>
+      </div>
+    </Card>
+  );
+}
+
+/**
+ * Labelled text input for a policy change form
+ */
+export function ChangeField({
+  label,
+  value,
+  onChange,
+  type = 'text',
+}: {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  type?: string;
+}) {
+  return (
+    <div>
+      <label className="block mb-2">
+        <Text className="font-medium">{label}</Text>
+      </label>
+      <input
+        type={type}
+        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+      />
+    </div>
+  );
+}
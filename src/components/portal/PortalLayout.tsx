@@ -3,11 +3,20 @@
  *
  * Shared layout for all portal pages with sidebar navigation.
  * Provides consistent header and navigation across the portal.
+ *
+ * Shows the login modal instead of the page when the customer is not signed
+ * in (or the session expired), and a notice when the policy is not linked to
+ * the signed-in account. The policy switcher moves between the account's
+ * policies, staying on the same page.
  */
 
-import { Link } from 'react-router-dom';
-import { Badge, Text } from '@sureapp/canary-design-system';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
+import { Badge, Button, Text } from '@sureapp/canary-design-system';
 import { usePortalDashboard } from '../../hooks/usePortal';
+import { useAccountPolicies, useLogout } from '../../hooks/useUserAccount';
+import { PortalAccessError } from '../../services/portal-api';
+import { LoginModal } from '../../pages/quote-v2/components/modals/LoginModal';
+import { formatDateDisplay } from '../../utils/dateFormatter';
 
 interface PortalLayoutProps {
   children: React.ReactNode;
@@ -16,7 +25,47 @@ interface PortalLayoutProps {
 }
 
 export function PortalLayout({ children, policyNumber, activePage = 'overview' }: PortalLayoutProps) {
-  const { data: dashboardData } = usePortalDashboard(policyNumber);
+  const { data: dashboardData, error } = usePortalDashboard(policyNumber);
+  const { data: accountPolicies } = useAccountPolicies();
+  const logoutMutation = useLogout();
+  const navigate = useNavigate();
+  const location = useLocation();
+
+  // Same page of another policy (e.g. /portal/DZA/billing -> /portal/DZB/billing)
+  const switchPolicy = (nextPolicyNumber: string) => {
+    navigate(location.pathname.replace(`/portal/${policyNumber}`, `/portal/${nextPolicyNumber}`));
+  };
+  const switchablePolicies = (accountPolicies || []).filter((summary) => summary.kind === 'POLICY');
+
+  const handleLogout = async () => {
+    await logoutMutation.mutateAsync();
+    navigate('/');
+  };
+
+  if (error instanceof PortalAccessError) {
+    return (
+      <div style={{ minHeight: '100vh', backgroundColor: '#f9fafb' }}>
+        {error.status === 401 ? (
+          <LoginModal
+            isOpen
+            email=""
+            onSuccess={() => undefined} // Signing in refetches the portal data
+            onClose={() => navigate('/')}
+          />
+        ) : (
+          <div style={{ maxWidth: '640px', margin: '0 auto', padding: '4rem 1.5rem', textAlign: 'center' }}>
+            <h1 style={{ fontSize: '1.5rem', fontWeight: 'bold', marginBottom: '0.5rem' }}>Policy not available</h1>
+            <p style={{ color: '#6b7280', marginBottom: '1.5rem' }}>
+              {`Policy #${policyNumber} is not linked to the account you are signed in with.`}
+            </p>
+            <Button onClick={handleLogout} disabled={logoutMutation.isPending}>
+              Sign in with a different account
+            </Button>
+          </div>
+        )}
+      </div>
+    );
+  }
 
   const navItems = [
     { id: 'overview', label: 'Overview', icon: '📄', path: `/portal/${policyNumber}` },
@@ -45,6 +94,10 @@ export function PortalLayout({ children, policyNumber, activePage = 'overview' }
             <Text>
               {primaryDriver?.firstName || 'Molly'} {primaryDriver?.lastName || 'Brown'}
             </Text>
+            <Link to="/portal" style={{ color: '#2563eb', textDecoration: 'none' }}>All policies</Link>
+            <Button size="small" onClick={handleLogout} disabled={logoutMutation.isPending}>
+              Sign out
+            </Button>
           </div>
         </div>
       </div>
@@ -54,13 +107,44 @@ export function PortalLayout({ children, policyNumber, activePage = 'overview' }
         <div style={{ marginBottom: '1.5rem' }}>
           <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem', marginBottom: '0.5rem' }}>
             <h1 style={{ fontSize: '1.875rem', fontWeight: 'bold', margin: 0 }}>Renters insurance</h1>
-            <Badge color={policy?.status === 'IN_FORCE' || policy?.status === 'BOUND' ? 'success' : 'default'}>
-              {policy?.status === 'IN_FORCE' ? 'ACTIVE' : policy?.status || 'BOUND'}
+            <Badge color={policy?.status === 'IN_FORCE' || policy?.status === 'BOUND' ? 'success' : policy?.status === 'CANCELLED' ? 'error' : 'default'}>
+              {policy?.status === 'IN_FORCE' ? 'ACTIVE' : policy?.status?.replace(/_/g, ' ') || 'BOUND'}
             </Badge>
           </div>
-          <p style={{ color: '#6b7280', margin: 0 }}>Policy #{policy?.policy_number || policyNumber}</p>
+          {switchablePolicies.length > 1 ? (
+            <select
+              aria-label="Switch policy"
+              value={policyNumber}
+              onChange={(e) => switchPolicy(e.target.value)}
+              style={{ color: '#374151', padding: '0.25rem 0.5rem', border: '1px solid #d1d5db', borderRadius: '0.375rem', backgroundColor: 'white' }}
+            >
+              {switchablePolicies.map((summary) => (
+                <option key={summary.policy_number} value={summary.policy_number}>
+                  Policy #{summary.policy_number}{summary.insured_name ? ` · ${summary.insured_name}` : ''}
+                </option>
+              ))}
+            </select>
+          ) : (
+            <p style={{ color: '#6b7280', margin: 0 }}>Policy #{policy?.policy_number || policyNumber}</p>
+          )}
         </div>
 
+        {/* Cancellation Banner (the portal is read-only once cancelled) */}
+        {policy?.cancellation_date && (policy.status === 'CANCELLED' || policy.status === 'PENDING_CANCELLATION') && (
+          <div style={{ marginBottom: '1.5rem', padding: '1rem', borderRadius: '0.5rem', backgroundColor: '#fef2f2', border: '1px solid #fecaca', color: '#991b1b' }}>
+            {policy.status === 'CANCELLED'
+              ? `This policy was cancelled effective ${formatDateDisplay(policy.cancellation_date)}. Your portal is read-only.`
+              : `This policy is scheduled to be cancelled on ${formatDateDisplay(policy.cancellation_date)}.`}
+          </div>
+        )}
+
+        {/* Expiration Banner (not renewed) */}
+        {policy?.status === 'EXPIRED' && (
+          <div style={{ marginBottom: '1.5rem', padding: '1rem', borderRadius: '0.5rem', backgroundColor: '#fef2f2', border: '1px solid #fecaca', color: '#991b1b' }}>
+            {`This policy expired on ${formatDateDisplay(policy.expiration_date)} and was not renewed.`}
+          </div>
+        )}
+
         {/* Two Column Layout */}
         <div style={{ display: 'flex', gap: '1.5rem' }}>
           {/* Sidebar Navigation */}
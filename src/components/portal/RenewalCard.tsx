@@ -0,0 +1,111 @@
+/**
+ * Renewal Card
+ *
+ * Shows the renewal offered before the policy expires: the next term, the
+ * re-rated premium against the current one, and whether the policy will
+ * renew on the payment method on file. The insured can decline the renewal
+ * (the policy then lapses at expiration) or take a decline back.
+ */
+
+import { useState } from 'react';
+import { Card, Text, Button } from '@sureapp/canary-design-system';
+import { useDecideRenewal } from '../../hooks/usePortal';
+import { formatDateDisplay } from '../../utils/dateFormatter';
+
+interface RenewalCardProps {
+  policyNumber: string;
+  /** Renewal from the dashboard data (null until one is offered) */
+  renewal: {
+    status: 'OFFERED' | 'DECLINED' | 'RENEWING' | 'RENEWED' | 'LAPSED';
+    effectiveDate: string;
+    expirationDate: string;
+    currentTermPremium: number;
+    renewalPremium: number;
+    premiumChange: number;
+    renewalTotal: number;
+    outcomeReason: string | null;
+  } | null;
+}
+
+const STATUS_MESSAGES: Record<string, (renewal: NonNullable<RenewalCardProps['renewal']>) => string> = {
+  OFFERED: renewal => `Your policy renews automatically on ${formatDateDisplay(renewal.effectiveDate)} using your payment method on file.`,
+  DECLINED: renewal => `You declined this renewal. Your coverage ends on ${formatDateDisplay(renewal.effectiveDate)}.`,
+  RENEWING: () => 'Your renewal payment is being processed.',
+  RENEWED: renewal => `Your policy was renewed through ${formatDateDisplay(renewal.expirationDate)}.`,
+  LAPSED: renewal => `Your policy was not renewed and expired on ${formatDateDisplay(renewal.effectiveDate)}.`,
+};
+
+const formatMoney = (amount: number) => `$${Math.abs(amount).toFixed(2)}`;
+
+export function RenewalCard({ policyNumber, renewal }: RenewalCardProps) {
+  const decideMutation = useDecideRenewal();
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  if (!renewal) {
+    return null;
+  }
+
+  const handleDecision = async (decision: 'decline' | 'accept') => {
+    setSubmitError(null);
+    try {
+      await decideMutation.mutateAsync({ policyNumber, decision });
+    } catch (error) {
+      setSubmitError(error instanceof Error ? error.message : `Could not ${decision} the renewal`);
+    }
+  };
+
+  const changeLabel = renewal.premiumChange === 0
+    ? 'No change'
+    : `${renewal.premiumChange > 0 ? '+' : '-'}${formatMoney(renewal.premiumChange)}`;
+
+  return (
+    <Card className="p-6 mt-6">
+      <div className="space-y-4">
+        <h3 className="text-lg font-semibold">Renewal</h3>
+        <Text>{STATUS_MESSAGES[renewal.status]?.(renewal)}</Text>
+        {renewal.status === 'LAPSED' && renewal.outcomeReason && (
+          <Text color="muted" size="sm">{renewal.outcomeReason}</Text>
+        )}
+        <div className="divide-y">
+          <div className="grid grid-cols-2 py-3">
+            <Text>Renewal term</Text>
+            <Text className="text-right">
+              {formatDateDisplay(renewal.effectiveDate)} - {formatDateDisplay(renewal.expirationDate)}
+            </Text>
+          </div>
+          <div className="grid grid-cols-2 py-3">
+            <Text>Current premium</Text>
+            <Text className="text-right">{formatMoney(renewal.currentTermPremium)}</Text>
+          </div>
+          <div className="grid grid-cols-2 py-3">
+            <Text>Renewal premium</Text>
+            <Text className="text-right">{formatMoney(renewal.renewalPremium)}</Text>
+          </div>
+          <div className="grid grid-cols-2 py-3">
+            <Text className="font-medium">Change</Text>
+            <Text className="text-right font-medium">{changeLabel}</Text>
+          </div>
+        </div>
+        <Text color="muted" size="sm">
+          Premiums are before taxes and fees ({formatMoney(renewal.renewalTotal)} total for the renewal term).
+          Your renewal offer is available in Documents.
+        </Text>
+        {submitError && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+            <Text color="error">{submitError}</Text>
+          </div>
+        )}
+        {renewal.status === 'OFFERED' && (
+          <Button variant="secondary" onClick={() => handleDecision('decline')} disabled={decideMutation.isPending}>
+            {decideMutation.isPending ? 'Declining...' : 'Decline renewal'}
+          </Button>
+        )}
+        {renewal.status === 'DECLINED' && (
+          <Button variant="primary" onClick={() => handleDecision('accept')} disabled={decideMutation.isPending}>
+            {decideMutation.isPending ? 'Renewing...' : 'Renew my policy'}
+          </Button>
+        )}
+      </div>
+    </Card>
+  );
+}
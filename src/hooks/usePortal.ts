@@ -15,6 +15,7 @@ export function usePortalDashboard(policyNumber: string) {
     queryKey: ['portal', 'dashboard', policyNumber],
     queryFn: () => portalApi.getDashboardData(policyNumber),
     staleTime: 1000 * 60 * 5, // 5 minutes
+    retry: (failureCount, error) => !(error instanceof portalApi.PortalAccessError) && failureCount < 1,
   });
 }
 
@@ -116,3 +117,65 @@ export function useUploadClaimDocument() {
     },
   });
 }
+
+/**
+ * Propose a policy change (mutation) - re-rates without changing the policy
+ */
+export function useProposeEndorsement() {
+  return useMutation({
+    mutationFn: ({
+      policyNumber,
+      changes,
+      effectiveDate,
+    }: {
+      policyNumber: string;
+      changes: portalApi.EndorsementChanges;
+      effectiveDate?: string;
+    }) => portalApi.proposeEndorsement(policyNumber, changes, effectiveDate),
+  });
+}
+
+/**
+ * Confirm a proposed policy change (mutation)
+ */
+export function useConfirmEndorsement() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ policyNumber, endorsementId }: { policyNumber: string; endorsementId: string }) =>
+      portalApi.confirmEndorsement(policyNumber, endorsementId),
+    onSuccess: (_, variables) => {
+      // Policy details, premium, billing and documents all change with a new version
+      queryClient.invalidateQueries({
+        queryKey: ['portal'],
+        predicate: (query) => query.queryKey.includes(variables.policyNumber),
+      });
+    },
+  });
+}
+
+/**
+ * Decline the renewal offer, or take back a decline
+ */
+export function useDecideRenewal() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ policyNumber, decision }: { policyNumber: string; decision: 'decline' | 'accept' }) =>
+      portalApi.decideRenewal(policyNumber, decision),
+    onSuccess: (_, variables) => {
+      // Renewal status is shown on the dashboard
+      queryClient.invalidateQueries({ queryKey: ['portal', 'dashboard', variables.policyNumber] });
+    },
+  });
+}
+
+/**
+ * Share a policy with a household member's account (mutation)
+ */
+export function useSharePolicy() {
+  return useMutation({
+    mutationFn: ({ policyNumber, email }: { policyNumber: string; email: string }) =>
+      portalApi.sharePolicy(policyNumber, email),
+  });
+}
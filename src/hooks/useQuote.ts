@@ -57,6 +57,9 @@ import {
   quoteApi,
   CreateQuoteRequest,
   QuoteResponse,
+  ViolationInput,
+  AccidentInput,
+  PaymentPlanCode,
 } from '../services/quote-api';
 
 /**
@@ -316,6 +319,10 @@ export function useUpdatePrimaryDriver() {
         driver_phone: string;
         driver_gender?: string;
         driver_marital_status?: string;
+        driver_good_student?: boolean;
+        driver_defensive_driving_course?: boolean;
+        driver_violations?: ViolationInput[];
+        driver_accidents?: AccidentInput[];
         address_line_1: string;
         address_line_2?: string;
         address_city: string;
@@ -368,6 +375,8 @@ export function useUpdateQuoteDrivers() {
         marital_status?: string;
         years_licensed?: number;
         relationship?: string;
+        violations?: ViolationInput[];
+        accidents?: AccidentInput[];
       }>;
     }) => quoteApi.updateQuoteDrivers(quoteNumber, additionalDrivers),
 
@@ -507,6 +516,64 @@ export function useUpdateQuoteCoverage() {
   });
 }
 
+/**
+ * useUpdateQuotePreferences Hook - Update billing and document delivery choices
+ *
+ * @returns Mutation result
+ */
+export function useUpdateQuotePreferences() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      quoteNumber,
+      preferences,
+    }: {
+      quoteNumber: string;
+      preferences: {
+        payment_plan?: PaymentPlanCode;
+        document_delivery?: 'ELECTRONIC' | 'MAIL';
+        has_other_policies?: boolean;
+      };
+    }) => quoteApi.updateQuotePreferences(quoteNumber, preferences),
+
+    onSuccess: (_updatedQuote: QuoteResponse, variables) => {
+      // Refetch the quote so discounts and premium reflect the new choices
+      queryClient.invalidateQueries({
+        queryKey: quoteKeys.byNumber(variables.quoteNumber),
+      });
+    },
+
+    onError: (error: Error) => {
+      console.error('[useUpdateQuotePreferences] Error updating preferences:', error);
+    },
+  });
+}
+
+/**
+ * useRequoteExpiredQuote Hook - Clone an expired quote at current rates
+ *
+ * @returns Mutation result (data: the new quote number and premium)
+ */
+export function useRequoteExpiredQuote() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (quoteNumber: string) => quoteApi.requoteExpiredQuote(quoteNumber),
+
+    onSuccess: (_result, quoteNumber) => {
+      // The expired quote now links to its replacement
+      queryClient.invalidateQueries({
+        queryKey: quoteKeys.byNumber(quoteNumber),
+      });
+    },
+
+    onError: (error: Error) => {
+      console.error('[useRequoteExpiredQuote] Error re-quoting:', error);
+    },
+  });
+}
+
 /**
  * useRecalculateQuote Hook - Recalculate premium
  *
@@ -4,10 +4,31 @@
  * TanStack Query hooks for user account operations:
  * - useCheckEmail: Check if email exists
  * - useCreateAccount: Create new user account
+ * - useLogin / useLogout: Start and end a portal session
+ * - useAccountDashboard / useAccountPolicies: Household view of the account
+ * - useLinkPolicy: Add a policy or saved quote to the account
+ * - useVerifyEmail, useRequestPasswordReset / useResetPassword,
+ *   useRequestMagicLink / useMagicLinkLogin: Emailed account links
  */
 
-import { useMutation, useQuery } from '@tanstack/react-query';
-import { checkEmail, createAccount } from '../services/user-account-api';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { getQuoteClaimToken } from '../utils/quoteClaims';
+import {
+  checkEmail,
+  createAccount,
+  login,
+  logout,
+  getAccountDashboard,
+  getAccountPolicies,
+  linkPolicyToAccount,
+  requestEmailVerification,
+  verifyEmail,
+  requestPasswordReset,
+  resetPassword,
+  requestMagicLink,
+  loginWithMagicLink,
+  SignInRequiredError,
+} from '../services/user-account-api';
 
 /**
  * Check if email exists (query)
@@ -36,3 +57,147 @@ export function useCreateAccount() {
     mutationFn: createAccount,
   });
 }
+
+/**
+ * Sign in (mutation)
+ *
+ * Usage:
+ * const loginMutation = useLogin();
+ * loginMutation.mutate({ email, password });
+ */
+export function useLogin() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: login,
+    onSuccess: () => {
+      // Portal data fetched before signing in was a 401
+      queryClient.invalidateQueries({ queryKey: ['portal'] });
+    },
+  });
+}
+
+/**
+ * Sign out (mutation)
+ */
+export function useLogout() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: logout,
+    onSuccess: () => {
+      queryClient.removeQueries({ queryKey: ['portal'] });
+    },
+  });
+}
+
+/**
+ * Household dashboard of the signed-in account (cached)
+ */
+export function useAccountDashboard() {
+  return useQuery({
+    queryKey: ['portal', 'account', 'dashboard'],
+    queryFn: getAccountDashboard,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+    retry: (failureCount, error) => !(error instanceof SignInRequiredError) && failureCount < 1,
+  });
+}
+
+/**
+ * Policies and saved quotes linked to the signed-in account (policy switcher)
+ */
+export function useAccountPolicies() {
+  return useQuery({
+    queryKey: ['portal', 'account', 'policies'],
+    queryFn: getAccountPolicies,
+    staleTime: 1000 * 60 * 5,
+    retry: (failureCount, error) => !(error instanceof SignInRequiredError) && failureCount < 1,
+  });
+}
+
+/**
+ * Add a policy or saved quote to the signed-in account (mutation)
+ *
+ * Sends the quote's claim token when the quote was started in this browser.
+ */
+export function useLinkPolicy() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (policyNumber: string) => linkPolicyToAccount(policyNumber, getQuoteClaimToken(policyNumber)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['portal', 'account'] });
+    },
+  });
+}
+
+/**
+ * Email the signed-in account a new verification link (mutation)
+ */
+export function useRequestEmailVerification() {
+  return useMutation({
+    mutationFn: requestEmailVerification,
+  });
+}
+
+/**
+ * Confirm the account email with a link token (mutation)
+ */
+export function useVerifyEmail() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: verifyEmail,
+    onSuccess: () => {
+      // Verifying links the policies insured under the email
+      queryClient.invalidateQueries({ queryKey: ['portal'] });
+    },
+  });
+}
+
+/**
+ * Email a password reset link (mutation)
+ */
+export function useRequestPasswordReset() {
+  return useMutation({
+    mutationFn: requestPasswordReset,
+  });
+}
+
+/**
+ * Set a new password with a reset link token (mutation)
+ */
+export function useResetPassword() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: resetPassword,
+    onSuccess: () => {
+      // Every session was signed out, this one included
+      queryClient.removeQueries({ queryKey: ['portal'] });
+    },
+  });
+}
+
+/**
+ * Email a passwordless sign-in link (mutation)
+ */
+export function useRequestMagicLink() {
+  return useMutation({
+    mutationFn: requestMagicLink,
+  });
+}
+
+/**
+ * Sign in with a magic link token (mutation)
+ */
+export function useMagicLinkLogin() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: loginWithMagicLink,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['portal'] });
+    },
+  });
+}
@@ -8,6 +8,7 @@
 import { useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useQuoteByNumber } from '../../hooks/useQuote';
+import { tokenizePaymentMethod } from '../../services/policy-api';
 import {
   AppTemplate,
   PageHeader,
@@ -134,6 +135,14 @@ export default function PaymentInfo() {
     setIsSubmitting(true);
 
     try {
+      // Exchange the card for a payment token with the payment gateway
+      const { paymentToken } = await tokenizePaymentMethod({
+        paymentMethod: 'credit_card',
+        cardNumber: cardNumber.replace(/\s/g, ''),
+        cardExpiry: expirationDate,
+        cardCvv: cvc,
+      });
+
       // Call bind API
       const response = await fetch('/api/v1/policies/bind', {
         method: 'POST',
@@ -141,9 +150,7 @@ export default function PaymentInfo() {
         body: JSON.stringify({
           quoteNumber,
           paymentMethod: 'credit_card',
-          cardNumber: cardNumber.replace(/\s/g, ''),
-          cardExpiry: expirationDate,
-          cardCvv: cvc,
+          paymentToken,
         }),
       });
 
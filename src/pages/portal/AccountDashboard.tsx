@@ -0,0 +1,246 @@
+/**
+ * Portal Account Dashboard Page (Household)
+ *
+ * Account-level overview for the signed-in customer: every policy linked to
+ * the account (their own and those shared by household members), saved
+ * quotes to pick back up, and claims across all policies. Policies or saved
+ * quotes can be added by number.
+ */
+
+import { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Button, Card, Text, TextInput } from '@sureapp/canary-design-system';
+import {
+  useAccountDashboard,
+  useLinkPolicy,
+  useLogout,
+  useRequestEmailVerification,
+} from '../../hooks/useUserAccount';
+import { SignInRequiredError } from '../../services/user-account-api';
+import type { AccountPolicySummary } from '../../services/user-account-api';
+import { LoginModal } from '../quote-v2/components/modals/LoginModal';
+import { formatDateDisplay } from '../../utils/dateFormatter';
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+
+const statusLabel = (summary: AccountPolicySummary) =>
+  summary.status === 'IN_FORCE' ? 'Active' : summary.status.replace(/_/g, ' ');
+
+export default function AccountDashboard() {
+  const navigate = useNavigate();
+  const { data: dashboard, isLoading, error } = useAccountDashboard();
+  const linkMutation = useLinkPolicy();
+  const logoutMutation = useLogout();
+  const verificationMutation = useRequestEmailVerification();
+  const [verificationNotice, setVerificationNotice] = useState<string | null>(null);
+  const [policyNumber, setPolicyNumber] = useState('');
+  const [linkError, setLinkError] = useState<string | null>(null);
+
+  if (error instanceof SignInRequiredError) {
+    return (
+      <LoginModal
+        isOpen
+        email=""
+        onSuccess={() => undefined} // Signing in refetches the dashboard
+        onClose={() => navigate('/')}
+      />
+    );
+  }
+
+  if (isLoading || error || !dashboard) {
+    return <div style={{ padding: '2rem', textAlign: 'center' }}>Loading...</div>;
+  }
+
+  const { account, policies, quotes, claims } = dashboard;
+
+  const handleLogout = async () => {
+    await logoutMutation.mutateAsync();
+    navigate('/');
+  };
+
+  const handleResendVerification = async () => {
+    try {
+      setVerificationNotice(await verificationMutation.mutateAsync());
+    } catch (err) {
+      setVerificationNotice(err instanceof Error ? err.message : 'Could not send the email');
+    }
+  };
+
+  const handleAddPolicy = async () => {
+    setLinkError(null);
+    try {
+      await linkMutation.mutateAsync(policyNumber.trim().toUpperCase());
+      setPolicyNumber('');
+    } catch (err) {
+      setLinkError(err instanceof Error ? err.message : 'Could not add this policy');
+    }
+  };
+
+  return (
+    <div style={{ minHeight: '100vh', backgroundColor: '#f9fafb' }}>
+      {/* Header */}
+      <div style={{ backgroundColor: 'white', borderBottom: '1px solid #e5e7eb' }}>
+        <div style={{ maxWidth: '1280px', margin: '0 auto', padding: '1rem 1.5rem', display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+          <div style={{ fontSize: '1.5rem', fontWeight: 'bold', color: '#3b82f6' }}>SURE</div>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem' }}>
+            <Text>{[account.first_name, account.last_name].filter(Boolean).join(' ') || account.email}</Text>
+            <Button size="small" onClick={handleLogout} disabled={logoutMutation.isPending}>
+              Sign out
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <div style={{ maxWidth: '1280px', margin: '0 auto', padding: '2rem 1.5rem', display: 'flex', flexDirection: 'column', gap: '1.5rem' }}>
+        <h1 style={{ fontSize: '1.875rem', fontWeight: 'bold', margin: 0 }}>Your household</h1>
+
+        {/* Unverified email: policies insured under it stay unlinked until verified */}
+        {!account.email_verified && (
+          <Card>
+            <div style={{ padding: '1.5rem', display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '1rem' }}>
+              <div>
+                <Text style={{ fontWeight: 500 }}>Verify your email address</Text>
+                <Text variant="body-small" color="subtle">
+                  {verificationNotice || `Follow the link we sent to ${account.email} to see the policies insured under it.`}
+                </Text>
+              </div>
+              <Button size="small" onClick={handleResendVerification} disabled={verificationMutation.isPending}>
+                Resend email
+              </Button>
+            </div>
+          </Card>
+        )}
+
+        {/* Policies */}
+        <Card>
+          <div style={{ padding: '1.5rem' }}>
+            <h2 className="text-xl font-bold mb-4">Policies</h2>
+            {policies.length === 0 ? (
+              <Text color="subtle">No policies yet.</Text>
+            ) : (
+              <table className="w-full">
+                <tbody className="divide-y divide-gray-200">
+                  {policies.map((summary) => (
+                    <tr key={summary.policy_number}>
+                      <td className="py-4">
+                        <Link to={`/portal/${summary.policy_number}`} style={{ fontWeight: 500, color: '#2563eb' }}>
+                          Policy #{summary.policy_number}
+                        </Link>
+                        <Text variant="body-small" color="subtle">
+                          {summary.insured_name || 'Insured'}
+                          {summary.vehicles.length > 0 && ` · ${summary.vehicles.join(', ')}`}
+                          {summary.linked_via === 'SHARED' && ' · Shared with you'}
+                        </Text>
+                      </td>
+                      <td className="py-4">
+                        <Text>{formatDateDisplay(summary.effective_date)} - {formatDateDisplay(summary.expiration_date)}</Text>
+                      </td>
+                      <td className="py-4 text-right">
+                        <Text>{statusLabel(summary)}</Text>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </Card>
+
+        {/* Saved Quotes */}
+        {quotes.length > 0 && (
+          <Card>
+            <div style={{ padding: '1.5rem' }}>
+              <h2 className="text-xl font-bold mb-4">Saved quotes</h2>
+              <table className="w-full">
+                <tbody className="divide-y divide-gray-200">
+                  {quotes.map((summary) => (
+                    <tr key={summary.policy_number}>
+                      <td className="py-4">
+                        <Text style={{ fontWeight: 500 }}>Quote #{summary.policy_number}</Text>
+                        <Text variant="body-small" color="subtle">
+                          {summary.insured_name || 'Insured'}
+                          {summary.vehicles.length > 0 && ` · ${summary.vehicles.join(', ')}`}
+                        </Text>
+                      </td>
+                      <td className="py-4">
+                        <Text>{summary.premium_total !== null ? formatCurrency(summary.premium_total) : '—'}</Text>
+                      </td>
+                      <td className="py-4 text-right">
+                        {summary.status === 'EXPIRED' ? (
+                          <Text color="subtle">Expired</Text>
+                        ) : (
+                          <Link to={`/quote-v2/summary/${summary.policy_number}`} style={{ color: '#2563eb' }}>
+                            Continue quote
+                          </Link>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </Card>
+        )}
+
+        {/* Claims */}
+        <Card>
+          <div style={{ padding: '1.5rem' }}>
+            <h2 className="text-xl font-bold mb-4">Claims</h2>
+            {claims.length === 0 ? (
+              <Text color="subtle">No claims filed.</Text>
+            ) : (
+              <table className="w-full">
+                <tbody className="divide-y divide-gray-200">
+                  {claims.map((claim) => (
+                    <tr key={claim.claim_number}>
+                      <td className="py-4">
+                        <Link to={`/portal/${claim.policy_number}/claims`} style={{ color: '#2563eb' }}>
+                          Claim #{claim.claim_number}
+                        </Link>
+                        <Text variant="body-small" color="subtle">Policy #{claim.policy_number}</Text>
+                      </td>
+                      <td className="py-4">
+                        <Text>{claim.loss_type.replace(/_/g, ' ')} · {formatDateDisplay(claim.incident_date)}</Text>
+                      </td>
+                      <td className="py-4 text-right">
+                        <Text>{claim.status.replace(/_/g, ' ')}</Text>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </Card>
+
+        {/* Add a Policy or Saved Quote */}
+        <Card>
+          <div style={{ padding: '1.5rem', display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+            <h2 className="text-xl font-bold">Add a policy or saved quote</h2>
+            <Text variant="body-small" color="subtle">
+              Policies insured under {account.email} are added automatically. A household member can share
+              their policy with you from its overview page.
+            </Text>
+            <div style={{ display: 'flex', gap: '0.75rem' }}>
+              <TextInput
+                id="link-policy-number"
+                value={policyNumber}
+                onChange={(e) => setPolicyNumber(e.target.value)}
+                placeholder="DZXXXXXXXX"
+              />
+              <Button variant="primary" onClick={handleAddPolicy} disabled={!policyNumber || linkMutation.isPending}>
+                {linkMutation.isPending ? 'Adding...' : 'Add'}
+              </Button>
+            </div>
+            {linkError && (
+              <Text variant="body-small" style={{ color: '#ef4444' }}>
+                {linkError}
+              </Text>
+            )}
+          </div>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+/**
+ * Account Link Page
+ *
+ * Landing page for the links in account emails:
+ * - /account/verify-email?token=... confirms the email address
+ * - /account/magic-link?token=... signs in without a password
+ * - /account/reset-password?token=... sets a new password
+ *
+ * Each link works once and expires; the API explains which when it refuses
+ * one, and the customer can ask for a new link from the sign-in form.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { Button, Card, Text, TextInput, Title } from '@sureapp/canary-design-system';
+import { useMagicLinkLogin, useResetPassword, useVerifyEmail } from '../../hooks/useUserAccount';
+
+type AccountLinkKind = 'verify-email' | 'magic-link' | 'reset-password';
+
+const headings: Record<AccountLinkKind, string> = {
+  'verify-email': 'Verify your email',
+  'magic-link': 'Signing you in',
+  'reset-password': 'Choose a new password',
+};
+
+export default function AccountLink({ kind }: { kind: AccountLinkKind }) {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') || '';
+  const verifyMutation = useVerifyEmail();
+  const magicLinkMutation = useMagicLinkLogin();
+  const resetMutation = useResetPassword();
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(token ? null : 'This link is missing its token. Please request a new one.');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const followed = useRef(false);
+
+  // Verify and magic links are spent as soon as they are opened (once)
+  useEffect(() => {
+    if (!token || followed.current || kind === 'reset-password') return;
+    followed.current = true;
+
+    if (kind === 'verify-email') {
+      verifyMutation.mutateAsync(token)
+        .then((result) => setMessage(`Thanks! ${result.email} is verified.`))
+        .catch((err) => setError(err.message));
+    } else {
+      magicLinkMutation.mutateAsync(token)
+        .then(() => navigate('/portal', { replace: true }))
+        .catch((err) => setError(err.message));
+    }
+  }, [kind, token]);
+
+  const handleReset = async () => {
+    if (password.length < 8) {
+      setError('Password must be at least 8 characters');
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setError(null);
+    try {
+      setMessage(await resetMutation.mutateAsync({ token, password }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not reset your password');
+    }
+  };
+
+  const pending = verifyMutation.isPending || magicLinkMutation.isPending;
+
+  return (
+    <div style={{ minHeight: '100vh', backgroundColor: '#f9fafb', display: 'flex', alignItems: 'center', justifyContent: 'center', padding: '1.5rem' }}>
+      <Card padding="large" style={{ maxWidth: '480px', width: '100%' }}>
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
+          <Title variant="title-3">{headings[kind]}</Title>
+
+          {pending && <Text color="subtle">One moment...</Text>}
+
+          {kind === 'reset-password' && token && !message && (
+            <>
+              <TextInput
+                id="reset-password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="New password (at least 8 characters)"
+              />
+              <TextInput
+                id="reset-password-confirm"
+                type="password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                placeholder="Confirm new password"
+              />
+              <Button variant="primary" onClick={handleReset} disabled={resetMutation.isPending}>
+                {resetMutation.isPending ? 'Saving...' : 'Set password'}
+              </Button>
+            </>
+          )}
+
+          {message && <Text>{message}</Text>}
+          {error && (
+            <Text variant="body-small" style={{ color: '#ef4444' }}>
+              {error}
+            </Text>
+          )}
+
+          {(message || error) && (
+            <Button onClick={() => navigate('/portal')}>
+              {kind === 'reset-password' && message ? 'Sign in' : 'Go to my account'}
+            </Button>
+          )}
+        </div>
+      </Card>
+    </div>
+  );
+}
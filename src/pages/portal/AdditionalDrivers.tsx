@@ -1,19 +1,26 @@
 /**
  * Additional Drivers Page
  *
- * Displays all drivers on the policy except the primary insured (read-only).
+ * Displays all drivers on the policy except the primary insured. Drivers can
+ * be added or removed mid-term through a policy change.
  * Design reference: self-service-screens/Additional Insured.png (adapted for drivers)
  */
 
+import { useState } from 'react';
 import { useParams } from 'react-router-dom';
-import { Card, Text } from '@sureapp/canary-design-system';
+import { Card, Text, Button } from '@sureapp/canary-design-system';
 import { usePortalDashboard } from '../../hooks/usePortal';
 import { PortalLayout } from '../../components/portal/PortalLayout';
+import { PolicyChangeForm, ChangeField, canChangePolicy } from '../../components/portal/PolicyChangeForm';
 import { formatDateDisplay } from '../../utils/dateFormatter';
 
+const EMPTY_DRIVER = { firstName: '', lastName: '', birthDate: '', email: '' };
+
 export default function AdditionalDrivers() {
   const { policyNumber } = useParams<{ policyNumber: string }>();
   const { data: dashboardData, isLoading, error } = usePortalDashboard(policyNumber!);
+  const [drivers, setDrivers] = useState<any[] | null>(null); // Driver list being edited
+  const [newDriver, setNewDriver] = useState(EMPTY_DRIVER);
 
   if (isLoading || error || !dashboardData) {
     return <PortalLayout policyNumber={policyNumber!} activePage="drivers">Loading...</PortalLayout>;
@@ -21,16 +28,69 @@ export default function AdditionalDrivers() {
 
   const { additional_drivers } = dashboardData;
 
+  const setNewDriverField = (field: keyof typeof EMPTY_DRIVER) => (value: string) =>
+    setNewDriver((driver) => ({ ...driver, [field]: value }));
+
+  const addDriver = () => {
+    setDrivers((list) => [...list!, newDriver]);
+    setNewDriver(EMPTY_DRIVER);
+  };
+
+  const newDriverComplete = Object.values(newDriver).every((value) => value.trim() !== '');
+
   return (
     <PortalLayout policyNumber={policyNumber!} activePage="drivers">
       <div className="flex justify-between items-center mb-6">
         <h2 className="text-2xl font-bold">Additional insureds</h2>
-        <button className="text-sm text-gray-600 hover:text-gray-900 flex items-center gap-1">
-          <span>✏️</span> Edit
-        </button>
+        {canChangePolicy(dashboardData.policy) && !drivers && (
+          <button
+            className="text-sm text-gray-600 hover:text-gray-900 flex items-center gap-1"
+            onClick={() => setDrivers(additional_drivers || [])}
+          >
+            <span>✏️</span> Edit
+          </button>
+        )}
       </div>
 
-      {additional_drivers && additional_drivers.length > 0 ? (
+      {drivers ? (
+        <PolicyChangeForm
+          policyNumber={policyNumber!}
+          changes={{ additionalDrivers: drivers }}
+          onClose={() => setDrivers(null)}
+        >
+          <div className="divide-y border rounded-md">
+            {drivers.length === 0 && (
+              <div className="p-4">
+                <Text>No additional insureds.</Text>
+              </div>
+            )}
+            {drivers.map((driver, index) => (
+              <div key={index} className="flex justify-between items-center p-4">
+                <Text>{driver.firstName} {driver.lastName}</Text>
+                <button
+                  className="text-sm text-red-600 hover:text-red-800"
+                  onClick={() => setDrivers(drivers.filter((_, i) => i !== index))}
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-4">
+            <Text className="font-medium">Add a driver</Text>
+            <div className="grid grid-cols-2 gap-4">
+              <ChangeField label="First name" value={newDriver.firstName} onChange={setNewDriverField('firstName')} />
+              <ChangeField label="Last name" value={newDriver.lastName} onChange={setNewDriverField('lastName')} />
+              <ChangeField label="Date of birth" value={newDriver.birthDate} onChange={setNewDriverField('birthDate')} type="date" />
+              <ChangeField label="Email address" value={newDriver.email} onChange={setNewDriverField('email')} type="email" />
+            </div>
+            <Button variant="secondary" onClick={addDriver} disabled={!newDriverComplete}>
+              Add driver
+            </Button>
+          </div>
+        </PolicyChangeForm>
+      ) : additional_drivers && additional_drivers.length > 0 ? (
         <div className="space-y-6">
           {additional_drivers.map((driver: any, index: number) => (
             <Card key={index}>
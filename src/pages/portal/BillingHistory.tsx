@@ -1,16 +1,24 @@
 /**
  * Billing History Page
  *
- * Displays payment history and billing information for a policy.
+ * Displays the payment plan, upcoming installments and payment history for a policy.
+ * Refunds appear in the history as credit lines.
  * Design reference: self-service-screens/Billing.png
  */
 
 import { useParams } from 'react-router-dom';
-import { Card, Text } from '@sureapp/canary-design-system';
+import { Badge, Card, Text } from '@sureapp/canary-design-system';
 import { usePortalDashboard } from '../../hooks/usePortal';
 import { PortalLayout } from '../../components/portal/PortalLayout';
 import { formatDateDisplay } from '../../utils/dateFormatter';
 
+const PAYMENT_PLAN_NAMES: Record<string, string> = {
+  PAY_IN_FULL: 'Paid in Full',
+  TWO_PAY: '2-Pay',
+  QUARTERLY: 'Quarterly',
+  MONTHLY: 'Monthly',
+};
+
 export default function BillingHistory() {
   const { policyNumber } = useParams<{ policyNumber: string }>();
   const { data: dashboardData, isLoading, error } = usePortalDashboard(policyNumber!);
@@ -23,7 +31,20 @@ export default function BillingHistory() {
     );
   }
 
-  const { payment_history, premium } = dashboardData;
+  const { payment_history = [], payment_plan } = dashboardData;
+
+  // Scheduled installments not yet collected, soonest first
+  const upcomingPayments = payment_history
+    .filter((p: any) => p.status === 'PENDING' && p.due_date)
+    .sort((a: any, b: any) => a.due_date.localeCompare(b.due_date));
+  const pastPayments = payment_history.filter((p: any) => !upcomingPayments.includes(p));
+  const nextPayment = upcomingPayments[0];
+
+  // Refunds (credits) issued against past payments
+  const isRefund = (p: any) => p.payment_type === 'REFUND';
+  const totalRefunded = payment_history
+    .filter((p: any) => isRefund(p) && p.status === 'COMPLETED')
+    .reduce((sum: number, p: any) => sum + parseFloat(p.amount), 0);
 
   // Format currency
   const formatCurrency = (amount: string | number) => {
@@ -48,40 +69,28 @@ export default function BillingHistory() {
       case 'SUCCESS':
         return 'success';
       case 'PENDING':
+      case 'PROCESSING': // ACH debit not settled yet
         return 'warning';
       case 'FAILED':
+      case 'RETURNED': // ACH debit returned by the bank
       case 'ERROR':
         return 'error';
+      case 'CREDIT':
+        return 'success';
       default:
         return 'default';
     }
   };
 
-  // Calculate next payment due date (30 days from last payment)
-  const getNextPaymentDate = () => {
-    if (!payment_history || payment_history.length === 0) return null;
-
-    const lastPayment = payment_history[payment_history.length - 1];
-    const lastDate = new Date(lastPayment.payment_date);
-    const nextDate = new Date(lastDate);
-    nextDate.setDate(nextDate.getDate() + 30);
-
-    // Format as YYYY-MM-DD first, then display
-    const year = nextDate.getFullYear();
-    const month = String(nextDate.getMonth() + 1).padStart(2, '0');
-    const day = String(nextDate.getDate()).padStart(2, '0');
-    return formatDateDisplay(`${year}-${month}-${day}`);
-  };
-
-  const nextPaymentDate = premium?.paymentPlan === 'monthly' ? getNextPaymentDate() : null;
-
   return (
     <PortalLayout policyNumber={policyNumber!} activePage="billing">
       <div className="flex justify-between items-center mb-6">
         <h2 className="text-2xl font-bold">Billing</h2>
-        <button className="text-sm text-gray-600 hover:text-gray-900 flex items-center gap-1">
-          <span>✏️</span> Edit
-        </button>
+        {!dashboardData.policy?.read_only && (
+          <button className="text-sm text-gray-600 hover:text-gray-900 flex items-center gap-1">
+            <span>✏️</span> Edit
+          </button>
+        )}
       </div>
 
       {/* Billing Information Card */}
@@ -91,7 +100,7 @@ export default function BillingHistory() {
           <div className="grid grid-cols-2 p-6">
             <Text>Payment plan</Text>
             <Text className="text-right">
-              {premium?.paymentPlan === 'full' ? 'Paid in Full' : 'Monthly'}
+              {PAYMENT_PLAN_NAMES[payment_plan] || 'Paid in Full'}
             </Text>
           </div>
 
@@ -110,26 +119,90 @@ export default function BillingHistory() {
             </div>
           )}
 
-          {/* Next Payment Amount (for monthly plans) */}
-          {premium?.paymentPlan === 'monthly' && premium.monthlyPayment && (
+          {/* Next Payment (installment plans) */}
+          {nextPayment && (
             <div className="grid grid-cols-2 p-6">
               <Text>Next payment amount</Text>
               <Text className="text-right">
-                {formatCurrency(premium.monthlyPayment)}
+                {formatCurrency(nextPayment.amount)}
               </Text>
             </div>
           )}
 
-          {/* Next Bill Date (for monthly plans) */}
-          {nextPaymentDate && (
+          {nextPayment && (
             <div className="grid grid-cols-2 p-6">
               <Text>Next bill date</Text>
-              <Text className="text-right">{nextPaymentDate}</Text>
+              <Text className="text-right">{formatDateDisplay(nextPayment.due_date)}</Text>
+            </div>
+          )}
+
+          {/* Refunds */}
+          {totalRefunded > 0 && (
+            <div className="grid grid-cols-2 p-6">
+              <Text>Refunded</Text>
+              <Text className="text-right text-green-700">{formatCurrency(totalRefunded)}</Text>
             </div>
           )}
         </div>
       </Card>
 
+      {/* Upcoming Installments */}
+      {upcomingPayments.length > 0 && (
+        <Card className="mb-6">
+          <div className="p-6 pb-2">
+            <h3 className="text-lg font-semibold">Upcoming payments</h3>
+          </div>
+          <div className="divide-y">
+            {upcomingPayments.map((p: any) => (
+              <div key={p.payment_id} className="grid grid-cols-3 p-6">
+                <Text>{p.endorsement_id ? 'Policy change' : `${p.renewal_id ? 'Renewal installment' : 'Installment'} ${p.installment_number}`}</Text>
+                <Text>Due {formatDateDisplay(p.due_date)}</Text>
+                <Text className="text-right">{formatCurrency(p.amount)}</Text>
+              </div>
+            ))}
+          </div>
+        </Card>
+      )}
+
+      {/* Payment History */}
+      {pastPayments.length > 0 && (
+        <Card className="mb-6">
+          <div className="p-6 pb-2">
+            <h3 className="text-lg font-semibold">Payment history</h3>
+          </div>
+          <div className="divide-y">
+            {pastPayments.map((p: any) => isRefund(p) ? (
+              <div key={p.payment_id} className="grid grid-cols-4 p-6">
+                <Text>{formatDateDisplay(String(p.payment_date).slice(0, 10))}</Text>
+                <div>
+                  <Text>Refund to {formatPaymentMethod(p.payment_method, p.last_four_digits, p.card_brand)}</Text>
+                  {p.refund_reason && (
+                    <Text className="text-sm text-gray-600">{p.refund_reason}</Text>
+                  )}
+                </div>
+                <div>
+                  <Badge color={getStatusColor(p.status === 'COMPLETED' ? 'CREDIT' : p.status)} size="sm">
+                    {p.status === 'COMPLETED' ? 'CREDIT' : p.status}
+                  </Badge>
+                </div>
+                <Text className="text-right text-green-700">-{formatCurrency(p.amount)}</Text>
+              </div>
+            ) : (
+              <div key={p.payment_id} className="grid grid-cols-4 p-6">
+                <Text>{formatDateDisplay(String(p.payment_date).slice(0, 10))}</Text>
+                <Text>{formatPaymentMethod(p.payment_method, p.last_four_digits, p.card_brand)}</Text>
+                <div>
+                  <Badge color={getStatusColor(p.status)} size="sm">
+                    {p.status.replace(/_/g, ' ')}
+                  </Badge>
+                </div>
+                <Text className="text-right">{formatCurrency(p.amount)}</Text>
+              </div>
+            ))}
+          </div>
+        </Card>
+      )}
+
       {/* Contact Information */}
       <Card className="mb-6">
         <div className="p-6">
@@ -146,9 +219,11 @@ export default function BillingHistory() {
       </Card>
 
       {/* Cancel Policy Link */}
-      <div>
-        <button className="text-red-600 hover:text-red-700 text-sm">Cancel Policy</button>
-      </div>
+      {!dashboardData.policy?.read_only && (
+        <div>
+          <button className="text-red-600 hover:text-red-700 text-sm">Cancel Policy</button>
+        </div>
+      )}
     </PortalLayout>
   );
 }
@@ -79,13 +79,15 @@ export default function ClaimsList() {
         </div>
       </Card>
 
-      {/* File New Claim Button */}
-      <button
-        onClick={() => navigate(`/portal/${policyNumber}/claims/new`)}
-        className="px-4 py-2 bg-white border border-gray-300 rounded text-sm hover:bg-gray-50"
-      >
-        File a new claim
-      </button>
+      {/* File New Claim Button (not for cancelled policies) */}
+      {!dashboardData.policy?.read_only && (
+        <button
+          onClick={() => navigate(`/portal/${policyNumber}/claims/new`)}
+          className="px-4 py-2 bg-white border border-gray-300 rounded text-sm hover:bg-gray-50"
+        >
+          File a new claim
+        </button>
+      )}
     </PortalLayout>
   );
 }
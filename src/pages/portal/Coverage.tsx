@@ -1,18 +1,28 @@
 /**
  * Coverage Page
  *
- * Displays policy coverage details (read-only).
+ * Displays policy coverage details. Limits, deductibles and optional coverages
+ * can be changed mid-term through a policy change.
  * Design reference: self-service-screens/Coverage.png
  */
 
+import { useState } from 'react';
 import { useParams } from 'react-router-dom';
 import { Card, Text } from '@sureapp/canary-design-system';
 import { usePortalDashboard } from '../../hooks/usePortal';
 import { PortalLayout } from '../../components/portal/PortalLayout';
+import { PolicyChangeForm, canChangePolicy } from '../../components/portal/PolicyChangeForm';
+
+const SPLIT_LIMIT_OPTIONS = ['25000/50000', '50000/100000', '100000/300000', '300000/500000', '500000/1000000'];
+const PROPERTY_DAMAGE_OPTIONS = ['25000', '50000', '75000', '100000'];
+const DEDUCTIBLE_OPTIONS = [250, 500, 1000, 2500];
+
+const SELECT_CLASS = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
 
 export default function Coverage() {
   const { policyNumber } = useParams<{ policyNumber: string }>();
   const { data: dashboardData, isLoading, error } = usePortalDashboard(policyNumber!);
+  const [editForm, setEditForm] = useState<any>(null);
 
   if (isLoading || error || !dashboardData) {
     return (
@@ -22,30 +32,28 @@ export default function Coverage() {
     );
   }
 
-  const { quote_snapshot } = dashboardData;
-  const coverages = quote_snapshot?.coverages || {};
+  const coverages = dashboardData.coverages || {};
 
   /**
-   * Format split limit (e.g., "100/300" -> "$100,000 / $300,000")
+   * Format split limit (e.g., "100/300" or "100000/300000" -> "$100,000 / $300,000")
    */
   const formatSplitLimit = (limit: string) => {
     if (!limit) return 'Not selected';
     const parts = limit.split('/');
     if (parts.length === 2) {
-      const first = parseInt(parts[0]) * 1000;
-      const second = parseInt(parts[1]) * 1000;
-      return `$${first.toLocaleString()} / $${second.toLocaleString()}`;
+      const [first, second] = parts.map((part) => formatLimit(part));
+      return `${first} / ${second}`;
     }
     return limit;
   };
 
   /**
-   * Format single limit (e.g., "50" -> "$50,000")
+   * Format single limit (e.g., "50" or "50000" -> "$50,000")
    */
   const formatLimit = (limit: string | number) => {
     if (!limit) return 'Not selected';
     const amount = typeof limit === 'string' ? parseInt(limit) : limit;
-    return `$${(amount * 1000).toLocaleString()}`;
+    return `$${(amount < 1000 ? amount * 1000 : amount).toLocaleString()}`;
   };
 
   /**
@@ -56,80 +64,152 @@ export default function Coverage() {
     return `$${deductible.toLocaleString()}`;
   };
 
+  const startEditing = () => setEditForm({
+    bodilyInjuryLimit: coverages.bodilyInjuryLimit || '100000/300000',
+    propertyDamageLimit: String(coverages.propertyDamageLimit || '50000'),
+    collision: !!coverages.hasCollision,
+    collisionDeductible: coverages.collisionDeductible || 500,
+    comprehensive: !!coverages.hasComprehensive,
+    comprehensiveDeductible: coverages.comprehensiveDeductible || 500,
+    roadsideAssistance: !!coverages.hasRoadside,
+    rentalReimbursement: !!coverages.hasRental,
+  });
+
+  const setField = (field: string, value: string | number | boolean) =>
+    setEditForm((form: any) => ({ ...form, [field]: value }));
+
+  const coverageRow = (label: string, value: string) => (
+    <div className="grid grid-cols-2 p-6">
+      <Text>{label}</Text>
+      <Text className="text-right">{value}</Text>
+    </div>
+  );
+
+  const checkbox = (field: string, label: string) => (
+    <label className="flex items-center gap-2">
+      <input type="checkbox" checked={editForm[field]} onChange={(e) => setField(field, e.target.checked)} />
+      <Text>{label}</Text>
+    </label>
+  );
+
   return (
     <PortalLayout policyNumber={policyNumber!} activePage="coverage">
       <div className="flex justify-between items-center mb-6">
         <h2 className="text-2xl font-bold">Coverage</h2>
-        <button className="text-sm text-gray-600 hover:text-gray-900 flex items-center gap-1">
-          <span>✏️</span> Edit
-        </button>
+        {canChangePolicy(dashboardData.policy) && !editForm && (
+          <button className="text-sm text-gray-600 hover:text-gray-900 flex items-center gap-1" onClick={startEditing}>
+            <span>✏️</span> Edit
+          </button>
+        )}
       </div>
 
-      {/* Base Coverage */}
-      <Card className="mb-6">
-        <div className="p-6 border-b bg-gray-50">
-          <Text className="font-medium">Base coverage</Text>
-        </div>
-
-        <div className="divide-y">
-          {/* Personal Property Coverage (renters equivalent) */}
-          <div className="grid grid-cols-2 p-6">
-            <Text>Personal property coverage</Text>
-            <Text className="text-right">$50,000</Text>
+      {editForm ? (
+        <PolicyChangeForm policyNumber={policyNumber!} changes={{ coverages: editForm }} onClose={() => setEditForm(null)}>
+          <div>
+            <label className="block mb-2">
+              <Text className="font-medium">Bodily injury liability</Text>
+            </label>
+            <select
+              className={SELECT_CLASS}
+              value={editForm.bodilyInjuryLimit}
+              onChange={(e) => setField('bodilyInjuryLimit', e.target.value)}
+            >
+              {SPLIT_LIMIT_OPTIONS.map((limit) => (
+                <option key={limit} value={limit}>{formatSplitLimit(limit)}</option>
+              ))}
+            </select>
           </div>
 
-          {/* Liability Coverage */}
-          <div className="grid grid-cols-2 p-6">
-            <Text>Liability coverage</Text>
-            <Text className="text-right">$25,000</Text>
+          <div>
+            <label className="block mb-2">
+              <Text className="font-medium">Property damage liability</Text>
+            </label>
+            <select
+              className={SELECT_CLASS}
+              value={editForm.propertyDamageLimit}
+              onChange={(e) => setField('propertyDamageLimit', e.target.value)}
+            >
+              {PROPERTY_DAMAGE_OPTIONS.map((limit) => (
+                <option key={limit} value={limit}>{formatLimit(limit)}</option>
+              ))}
+            </select>
           </div>
 
-          {/* Deductible */}
-          <div className="grid grid-cols-2 p-6">
-            <Text>Deductible</Text>
-            <Text className="text-right">$250</Text>
-          </div>
-        </div>
-      </Card>
-
-      {/* Optional Coverages */}
-      <Card>
-        <div className="p-6 border-b bg-gray-50">
-          <Text className="font-medium">Optional coverages</Text>
-        </div>
-
-        <div className="divide-y">
-          {/* Personal Property Sublimits */}
-          <div className="grid grid-cols-2 p-6">
-            <Text>Personal property sublimits</Text>
-            <Text className="text-right">Platinum enhancement</Text>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              {checkbox('collision', 'Collision')}
+              <select
+                className={SELECT_CLASS}
+                value={editForm.collisionDeductible}
+                disabled={!editForm.collision}
+                onChange={(e) => setField('collisionDeductible', Number(e.target.value))}
+              >
+                {DEDUCTIBLE_OPTIONS.map((deductible) => (
+                  <option key={deductible} value={deductible}>{formatDeductible(deductible)} deductible</option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              {checkbox('comprehensive', 'Comprehensive')}
+              <select
+                className={SELECT_CLASS}
+                value={editForm.comprehensiveDeductible}
+                disabled={!editForm.comprehensive}
+                onChange={(e) => setField('comprehensiveDeductible', Number(e.target.value))}
+              >
+                {DEDUCTIBLE_OPTIONS.map((deductible) => (
+                  <option key={deductible} value={deductible}>{formatDeductible(deductible)} deductible</option>
+                ))}
+              </select>
+            </div>
           </div>
 
-          {/* Pet Damage */}
-          <div className="grid grid-cols-2 p-6">
-            <Text>Pet damage</Text>
-            <Text className="text-right">Included</Text>
+          <div className="space-y-2">
+            {checkbox('roadsideAssistance', 'Roadside assistance')}
+            {checkbox('rentalReimbursement', 'Rental reimbursement')}
           </div>
-
-          {/* Identity Fraud */}
-          <div className="grid grid-cols-2 p-6">
-            <Text>Identity fraud</Text>
-            <Text className="text-right">$5,000</Text>
-          </div>
-
-          {/* Windstorm or Hail Exclusion */}
-          <div className="grid grid-cols-2 p-6">
-            <Text>Windstorm or hail exclusion</Text>
-            <Text className="text-right">Included</Text>
-          </div>
-
-          {/* Earthquake */}
-          <div className="grid grid-cols-2 p-6">
-            <Text>Earthquake</Text>
-            <Text className="text-right">$8,000</Text>
-          </div>
-        </div>
-      </Card>
+        </PolicyChangeForm>
+      ) : (
+        <>
+          {/* Liability Coverage */}
+          <Card className="mb-6">
+            <div className="p-6 border-b bg-gray-50">
+              <Text className="font-medium">Liability coverage</Text>
+            </div>
+
+            <div className="divide-y">
+              {coverageRow('Bodily injury', formatSplitLimit(coverages.bodilyInjuryLimit))}
+              {coverageRow('Property damage', formatLimit(coverages.propertyDamageLimit))}
+              {coverages.uninsuredMotoristBodilyInjury &&
+                coverageRow('Uninsured motorist', formatSplitLimit(coverages.uninsuredMotoristBodilyInjury))}
+            </div>
+          </Card>
+
+          {/* Vehicle Coverage */}
+          <Card className="mb-6">
+            <div className="p-6 border-b bg-gray-50">
+              <Text className="font-medium">Vehicle coverage</Text>
+            </div>
+
+            <div className="divide-y">
+              {coverageRow('Collision deductible', coverages.hasCollision ? formatDeductible(coverages.collisionDeductible) : 'Not selected')}
+              {coverageRow('Comprehensive deductible', coverages.hasComprehensive ? formatDeductible(coverages.comprehensiveDeductible) : 'Not selected')}
+            </div>
+          </Card>
+
+          {/* Optional Coverages */}
+          <Card>
+            <div className="p-6 border-b bg-gray-50">
+              <Text className="font-medium">Optional coverages</Text>
+            </div>
+
+            <div className="divide-y">
+              {coverageRow('Roadside assistance', coverages.hasRoadside ? 'Included' : 'Not selected')}
+              {coverageRow('Rental reimbursement', coverages.hasRental ? 'Included' : 'Not selected')}
+            </div>
+          </Card>
+        </>
+      )}
     </PortalLayout>
   );
 }
@@ -1,7 +1,9 @@
 /**
  * Portal Dashboard Page (Overview)
  *
- * Displays policy overview with quick access to key information.
+ * Displays policy overview with quick access to key information, the
+ * renewal offer once the policy nears expiration, and sharing the policy
+ * with household members.
  * Design reference: self-service-screens/Overview.png
  */
 
@@ -9,6 +11,8 @@ import { useParams } from 'react-router-dom';
 import { Card, Text } from '@sureapp/canary-design-system';
 import { usePortalDashboard } from '../../hooks/usePortal';
 import { PortalLayout } from '../../components/portal/PortalLayout';
+import { RenewalCard } from '../../components/portal/RenewalCard';
+import { HouseholdShareCard } from '../../components/portal/HouseholdShareCard';
 import { formatDateDisplay } from '../../utils/dateFormatter';
 
 export default function Dashboard() {
@@ -103,6 +107,10 @@ export default function Dashboard() {
           </tbody>
         </table>
       </Card>
+
+      <RenewalCard policyNumber={policyNumber!} renewal={dashboardData.renewal ?? null} />
+
+      {!policy.read_only && <HouseholdShareCard policyNumber={policyNumber!} />}
     </PortalLayout>
   );
 }
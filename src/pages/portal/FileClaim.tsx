@@ -37,6 +37,22 @@ export default function FileClaim() {
     );
   }
 
+  if (dashboardData.policy?.read_only) {
+    return (
+      <PortalLayout policyNumber={policyNumber!} activePage="claims">
+        <h2 className="text-2xl font-bold mb-6">File a Claim</h2>
+        <Card>
+          <div className="p-6">
+            <Text>
+              New claims cannot be filed online for a cancelled policy. For a loss that occurred before
+              the cancellation date, contact North American Risk Services (NARS) at 1-800-315-6090.
+            </Text>
+          </div>
+        </Card>
+      </PortalLayout>
+    );
+  }
+
   const { vehicles, primary_driver, additional_drivers } = dashboardData;
 
   // Combine all drivers
@@ -122,6 +138,7 @@ export default function FileClaim() {
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
                 value={formData.incident_date}
                 onChange={(e) => handleInputChange('incident_date', e.target.value)}
+                min={dashboardData.policy?.effective_date}
                 max={new Date().toISOString().split('T')[0]}
                 required
               />
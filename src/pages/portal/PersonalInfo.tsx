@@ -1,25 +1,62 @@
 /**
  * Personal Information Page
  *
- * Displays primary driver personal information (read-only).
+ * Displays primary driver personal information. Contact details and the
+ * garaging address can be changed mid-term through a policy change.
  * Design reference: self-service-screens/Personal Info.png
  */
 
+import { useState } from 'react';
 import { useParams } from 'react-router-dom';
 import { Card, Text } from '@sureapp/canary-design-system';
 import { usePortalDashboard } from '../../hooks/usePortal';
 import { PortalLayout } from '../../components/portal/PortalLayout';
+import { PolicyChangeForm, ChangeField, canChangePolicy } from '../../components/portal/PolicyChangeForm';
 import { formatDateDisplay } from '../../utils/dateFormatter';
 
 export default function PersonalInfo() {
   const { policyNumber } = useParams<{ policyNumber: string }>();
   const { data: dashboardData, isLoading, error } = usePortalDashboard(policyNumber!);
+  const [editForm, setEditForm] = useState<Record<string, string> | null>(null);
 
   if (isLoading || error || !dashboardData) {
     return <PortalLayout policyNumber={policyNumber!}>Loading...</PortalLayout>;
   }
 
   const { primary_driver } = dashboardData;
+  const address = dashboardData.address || primary_driver.address || {}; // Garaging address
+
+  const startEditing = () => setEditForm({
+    phone: primary_driver.phone || '',
+    email: primary_driver.email || '',
+    addressLine1: address.addressLine1 || '',
+    addressLine2: address.addressLine2 || '',
+    city: address.city || '',
+    state: address.state || '',
+    zipCode: address.zipCode || '',
+  });
+
+  const setField = (field: string) => (value: string) => setEditForm((form) => ({ ...form!, [field]: value }));
+
+  // Only send the parts that changed
+  const buildChanges = (form: Record<string, string>) => {
+    const addressFields = ['addressLine1', 'addressLine2', 'city', 'state', 'zipCode'];
+    const addressChanged = addressFields.some((field) => form[field] !== (address[field] || ''));
+    const contactChanged = form.phone !== (primary_driver.phone || '') || form.email !== (primary_driver.email || '');
+
+    return {
+      ...(contactChanged && { contact: { phone: form.phone, email: form.email } }),
+      ...(addressChanged && {
+        address: {
+          addressLine1: form.addressLine1,
+          addressLine2: form.addressLine2 || undefined,
+          city: form.city,
+          state: form.state,
+          zipCode: form.zipCode,
+        },
+      }),
+    };
+  };
 
   const formatPhone = (phone: string) => {
     // Format as (XXX) XXX-XXXX
@@ -35,60 +72,76 @@ export default function PersonalInfo() {
     <PortalLayout policyNumber={policyNumber!} activePage="personal-info">
       <div className="flex justify-between items-center mb-6">
         <h2 className="text-2xl font-bold">Personal information</h2>
-        <button className="text-sm text-gray-600 hover:text-gray-900 flex items-center gap-1">
-          <span>✏️</span> Edit
-        </button>
+        {canChangePolicy(dashboardData.policy) && !editForm && (
+          <button className="text-sm text-gray-600 hover:text-gray-900 flex items-center gap-1" onClick={startEditing}>
+            <span>✏️</span> Edit
+          </button>
+        )}
       </div>
 
-      <Card>
-        <div className="divide-y">
-          {/* Name */}
-          <div className="grid grid-cols-2 p-6">
-            <Text>Name</Text>
-            <Text className="text-right">
-              {primary_driver.firstName} {primary_driver.lastName}
-            </Text>
+      {editForm ? (
+        <PolicyChangeForm policyNumber={policyNumber!} changes={buildChanges(editForm)} onClose={() => setEditForm(null)}>
+          <ChangeField label="Phone number" value={editForm.phone} onChange={setField('phone')} type="tel" />
+          <ChangeField label="Email address" value={editForm.email} onChange={setField('email')} type="email" />
+          <ChangeField label="Address" value={editForm.addressLine1} onChange={setField('addressLine1')} />
+          <ChangeField label="Apartment, suite, etc. (optional)" value={editForm.addressLine2} onChange={setField('addressLine2')} />
+          <div className="grid grid-cols-3 gap-4">
+            <ChangeField label="City" value={editForm.city} onChange={setField('city')} />
+            <ChangeField label="State" value={editForm.state} onChange={setField('state')} />
+            <ChangeField label="ZIP code" value={editForm.zipCode} onChange={setField('zipCode')} />
           </div>
-
-          {/* Date of Birth */}
-          {primary_driver.birthDate && (
+        </PolicyChangeForm>
+      ) : (
+        <Card>
+          <div className="divide-y">
+            {/* Name */}
             <div className="grid grid-cols-2 p-6">
-              <Text>Date of birth</Text>
-              <Text className="text-right">{formatDateDisplay(primary_driver.birthDate)}</Text>
+              <Text>Name</Text>
+              <Text className="text-right">
+                {primary_driver.firstName} {primary_driver.lastName}
+              </Text>
             </div>
-          )}
 
-          {/* Phone Number */}
-          {primary_driver.phone && (
-            <div className="grid grid-cols-2 p-6">
-              <Text>Phone number</Text>
-              <Text className="text-right">{formatPhone(primary_driver.phone)}</Text>
-            </div>
-          )}
+            {/* Date of Birth */}
+            {primary_driver.birthDate && (
+              <div className="grid grid-cols-2 p-6">
+                <Text>Date of birth</Text>
+                <Text className="text-right">{formatDateDisplay(primary_driver.birthDate)}</Text>
+              </div>
+            )}
 
-          {/* Email Address */}
-          {primary_driver.email && (
-            <div className="grid grid-cols-2 p-6">
-              <Text>Email address</Text>
-              <Text className="text-right">{primary_driver.email}</Text>
-            </div>
-          )}
+            {/* Phone Number */}
+            {primary_driver.phone && (
+              <div className="grid grid-cols-2 p-6">
+                <Text>Phone number</Text>
+                <Text className="text-right">{formatPhone(primary_driver.phone)}</Text>
+              </div>
+            )}
 
-          {/* Mailing Address */}
-          {primary_driver.address && (
-            <div className="grid grid-cols-2 p-6">
-              <Text>Mailing address</Text>
-              <div className="text-right">
-                <Text>{primary_driver.address.addressLine1}</Text>
-                {primary_driver.address.addressLine2 && <Text>{primary_driver.address.addressLine2}</Text>}
-                <Text>
-                  {primary_driver.address.city}, {primary_driver.address.state} {primary_driver.address.zipCode}
-                </Text>
+            {/* Email Address */}
+            {primary_driver.email && (
+              <div className="grid grid-cols-2 p-6">
+                <Text>Email address</Text>
+                <Text className="text-right">{primary_driver.email}</Text>
               </div>
-            </div>
-          )}
-        </div>
-      </Card>
+            )}
+
+            {/* Mailing Address */}
+            {address.addressLine1 && (
+              <div className="grid grid-cols-2 p-6">
+                <Text>Mailing address</Text>
+                <div className="text-right">
+                  <Text>{address.addressLine1}</Text>
+                  {address.addressLine2 && <Text>{address.addressLine2}</Text>}
+                  <Text>
+                    {address.city}, {address.state} {address.zipCode}
+                  </Text>
+                </div>
+              </div>
+            )}
+          </div>
+        </Card>
+      )}
     </PortalLayout>
   );
 }
@@ -1,18 +1,25 @@
 /**
  * Vehicle Details Page
  *
- * Displays all vehicles insured on the policy (read-only).
+ * Displays all vehicles insured on the policy. Vehicles can be added or
+ * removed mid-term through a policy change.
  * Design reference: self-service-screens/Property Details.png (adapted for vehicles)
  */
 
+import { useState } from 'react';
 import { useParams } from 'react-router-dom';
-import { Card, Text } from '@sureapp/canary-design-system';
+import { Card, Text, Button } from '@sureapp/canary-design-system';
 import { usePortalDashboard } from '../../hooks/usePortal';
 import { PortalLayout } from '../../components/portal/PortalLayout';
+import { PolicyChangeForm, ChangeField, canChangePolicy } from '../../components/portal/PolicyChangeForm';
+
+const EMPTY_VEHICLE = { year: '', make: '', model: '', vin: '' };
 
 export default function VehicleDetails() {
   const { policyNumber } = useParams<{ policyNumber: string }>();
   const { data: dashboardData, isLoading, error } = usePortalDashboard(policyNumber!);
+  const [editVehicles, setEditVehicles] = useState<any[] | null>(null); // Vehicle list being edited
+  const [newVehicle, setNewVehicle] = useState(EMPTY_VEHICLE);
 
   if (isLoading || error || !dashboardData) {
     return <PortalLayout policyNumber={policyNumber!} activePage="vehicles">Loading...</PortalLayout>;
@@ -20,16 +27,66 @@ export default function VehicleDetails() {
 
   const { vehicles } = dashboardData;
 
+  const setNewVehicleField = (field: keyof typeof EMPTY_VEHICLE) => (value: string) =>
+    setNewVehicle((vehicle) => ({ ...vehicle, [field]: value }));
+
+  const addVehicle = () => {
+    setEditVehicles((list) => [...list!, { ...newVehicle, year: Number(newVehicle.year) }]);
+    setNewVehicle(EMPTY_VEHICLE);
+  };
+
+  const newVehicleComplete = Object.values(newVehicle).every((value) => value.trim() !== '');
+
   return (
     <PortalLayout policyNumber={policyNumber!} activePage="vehicles">
       <div className="flex justify-between items-center mb-6">
         <h2 className="text-2xl font-bold">Property details</h2>
-        <button className="text-sm text-gray-600 hover:text-gray-900 flex items-center gap-1">
-          <span>✏️</span> Edit
-        </button>
+        {canChangePolicy(dashboardData.policy) && !editVehicles && (
+          <button
+            className="text-sm text-gray-600 hover:text-gray-900 flex items-center gap-1"
+            onClick={() => setEditVehicles(vehicles || [])}
+          >
+            <span>✏️</span> Edit
+          </button>
+        )}
       </div>
 
-      {vehicles && vehicles.length > 0 ? (
+      {editVehicles ? (
+        <PolicyChangeForm
+          policyNumber={policyNumber!}
+          changes={{ vehicles: editVehicles }}
+          onClose={() => setEditVehicles(null)}
+        >
+          <div className="divide-y border rounded-md">
+            {editVehicles.map((vehicle, index) => (
+              <div key={index} className="flex justify-between items-center p-4">
+                <Text>{vehicle.year} {vehicle.make} {vehicle.model}</Text>
+                {editVehicles.length > 1 && (
+                  <button
+                    className="text-sm text-red-600 hover:text-red-800"
+                    onClick={() => setEditVehicles(editVehicles.filter((_, i) => i !== index))}
+                  >
+                    Remove
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-4">
+            <Text className="font-medium">Add a vehicle</Text>
+            <div className="grid grid-cols-2 gap-4">
+              <ChangeField label="Year" value={newVehicle.year} onChange={setNewVehicleField('year')} type="number" />
+              <ChangeField label="Make" value={newVehicle.make} onChange={setNewVehicleField('make')} />
+              <ChangeField label="Model" value={newVehicle.model} onChange={setNewVehicleField('model')} />
+              <ChangeField label="VIN" value={newVehicle.vin} onChange={setNewVehicleField('vin')} />
+            </div>
+            <Button variant="secondary" onClick={addVehicle} disabled={!newVehicleComplete}>
+              Add vehicle
+            </Button>
+          </div>
+        </PolicyChangeForm>
+      ) : vehicles && vehicles.length > 0 ? (
         <Card>
           <div className="divide-y">
             {/* Address - Using first vehicle's data as placeholder */}
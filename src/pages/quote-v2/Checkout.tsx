@@ -5,17 +5,23 @@
  *
  * Features:
  * - Check email via POST /api/v1/user-accounts/check-email
- * - Existing user shows email + "Verified" badge
- * - New user triggers AccountCreationModal
+ * - Signed-in user shows email + "Verified" badge
+ * - Existing user logs in (LoginModal); new user creates an account
+ *   (AccountCreationModal)
+ * - Once signed in, the quote is saved to the account (household dashboard)
+ * - Payment plan selection (pay in full, 2-pay, quarterly, monthly)
  * - Payment method selection (Credit Card only per spec clarification)
  * - "Enter Payment Details" button (disabled until account verified)
  *
  * Flow:
- * 1. On mount, check if email exists in database
- * 2. If existing user: show verified badge, enable continue button
- * 3. If new user: show AccountCreationModal, cannot proceed until account created
- * 4. User selects payment method (credit card)
- * 5. Navigate to Payment screen
+ * 1. On mount, check for a session and whether the email exists in database
+ * 2. If signed in as this email: show verified badge, enable continue button
+ * 3. Otherwise: log in (existing user) or create an account (new user),
+ *    cannot proceed until signed in
+ * 4. User selects payment plan (saved to quote preferences, which re-rates
+ *    the pay-in-full discount; binding bills the saved plan)
+ * 5. User selects payment method (credit card)
+ * 6. Navigate to Payment screen
  */
 
 import React, { useState, useEffect } from 'react';
@@ -31,8 +37,10 @@ import {
 import { TechStartupLayout } from './components/shared/TechStartupLayout';
 import { ScreenProgress } from './components/ScreenProgress';
 import { QuoteProvider } from './contexts/QuoteContext';
-import { useQuoteByNumber } from '../../hooks/useQuote';
-import { checkEmail } from '../../services/user-account-api';
+import { useQuoteByNumber, useUpdateQuotePreferences } from '../../hooks/useQuote';
+import type { PaymentPlanCode, PaymentPlanOption } from '../../services/quote-api';
+import { checkEmail, getCurrentAccount, linkPolicyToAccount } from '../../services/user-account-api';
+import { getQuoteClaimToken } from '../../utils/quoteClaims';
 import { AccountCreationModal } from './components/modals/AccountCreationModal';
 import { LoginModal } from './components/modals/LoginModal';
 
@@ -45,10 +53,15 @@ const CheckoutContent: React.FC = () => {
   };
 
   const [userExists, setUserExists] = useState(false);
+  const [isSignedIn, setIsSignedIn] = useState(false);
   const [showAccountModal, setShowAccountModal] = useState(false);
   const [showLoginModal, setShowLoginModal] = useState(false);
   const [email, setEmail] = useState<string>('');
   const [isCheckingEmail, setIsCheckingEmail] = useState(false);
+  const updatePreferences = useUpdateQuotePreferences();
+
+  const paymentPlans: PaymentPlanOption[] = quote?.paymentPlans || [];
+  const selectedPlan: PaymentPlanCode = quote?.preferences?.paymentPlan || 'PAY_IN_FULL';
 
   // Check email on mount (T149)
   useEffect(() => {
@@ -62,7 +75,16 @@ const CheckoutContent: React.FC = () => {
       setIsCheckingEmail(true);
 
       try {
-        const result = await checkEmail(driverEmail);
+        const [result, account] = await Promise.all([
+          checkEmail(driverEmail),
+          getCurrentAccount().catch(() => null),
+        ]);
+
+        const signedInAsDriver = account?.email === driverEmail.trim().toLowerCase();
+        setIsSignedIn(signedInAsDriver);
+        if (signedInAsDriver) {
+          saveQuoteToAccount();
+        }
 
         if (result.exists) {
           setUserExists(true);
@@ -82,20 +104,43 @@ const CheckoutContent: React.FC = () => {
     checkUserEmail();
   }, [quote]);
 
+  // Link the quote to the signed-in account so it shows on their household dashboard
+  const saveQuoteToAccount = () => {
+    if (!quoteNumber) return;
+
+    linkPolicyToAccount(quoteNumber, getQuoteClaimToken(quoteNumber)).catch((error) => {
+      console.error('Failed to save quote to account:', error);
+    });
+  };
+
   const handleAccountCreated = () => {
-    // Account created successfully (T152)
+    // Account created and signed in (T152)
     setUserExists(true);
+    setIsSignedIn(true);
     setShowAccountModal(false);
+    saveQuoteToAccount();
   };
 
   const handleLoginSuccess = () => {
     // Login successful
     setUserExists(true);
+    setIsSignedIn(true);
     setShowLoginModal(false);
+    saveQuoteToAccount();
+  };
+
+  const handleSelectPlan = async (plan: PaymentPlanCode) => {
+    if (!quoteNumber || plan === selectedPlan) return;
+
+    try {
+      await updatePreferences.mutateAsync({ quoteNumber, preferences: { payment_plan: plan } });
+    } catch (err) {
+      console.error('Failed to update payment plan:', err);
+    }
   };
 
   const handleContinue = () => {
-    if (!userExists) {
+    if (!isSignedIn) {
       alert('Please create an account or log in to continue');
       return;
     }
@@ -139,7 +184,7 @@ const CheckoutContent: React.FC = () => {
           >
             <Title variant="title-3">Your Account</Title>
 
-            {userExists ? (
+            {isSignedIn ? (
               <Layout display="flex" flexAlign="center" gap="medium">
                 <Text variant="body-regular">{email}</Text>
                 <Badge>Verified ✓</Badge>
@@ -149,14 +194,16 @@ const CheckoutContent: React.FC = () => {
                 <Layout display="flex-column" gap="small">
                   <Text variant="body-regular">{email}</Text>
                   <Text variant="body-small" color="subtle">
-                    Create your account or log in to continue
+                    {userExists ? 'Log in to continue' : 'Create your account or log in to continue'}
                   </Text>
                 </Layout>
                 <Layout display="flex" gap="medium">
-                  <Button variant="primary" onClick={() => setShowAccountModal(true)}>
-                    Create Account
-                  </Button>
-                  <Button onClick={() => setShowLoginModal(true)}>
+                  {!userExists && (
+                    <Button variant="primary" onClick={() => setShowAccountModal(true)}>
+                      Create Account
+                    </Button>
+                  )}
+                  <Button variant={userExists ? 'primary' : undefined} onClick={() => setShowLoginModal(true)}>
                     Log In
                   </Button>
                 </Layout>
@@ -164,6 +211,65 @@ const CheckoutContent: React.FC = () => {
             )}
           </Layout>
 
+          {/* Payment Plan Selection */}
+          {paymentPlans.length > 0 && (
+            <Layout
+              display="flex-column"
+              gap="medium"
+              padding="large"
+              style={{
+                backgroundColor: 'white',
+                borderRadius: '16px',
+                border: '1px solid #e2e8f0',
+              }}
+            >
+              <Title variant="title-3">Payment Plan</Title>
+
+              {paymentPlans.map(plan => (
+                <label key={plan.code} style={{ cursor: 'pointer' }}>
+                  <Layout
+                    display="flex"
+                    flexAlign="center"
+                    gap="medium"
+                    padding="medium"
+                    style={{
+                      border: plan.code === selectedPlan ? '2px solid #667eea' : '1px solid #e2e8f0',
+                      borderRadius: '12px',
+                      backgroundColor: plan.code === selectedPlan ? '#f7fafc' : 'white',
+                    }}
+                  >
+                    <input
+                      type="radio"
+                      name="payment-plan"
+                      value={plan.code}
+                      checked={plan.code === selectedPlan}
+                      disabled={updatePreferences.isPending}
+                      onChange={() => handleSelectPlan(plan.code)}
+                      style={{ width: '20px', height: '20px', accentColor: '#667eea' }}
+                    />
+                    <Layout display="flex-column" gap="none" style={{ flex: 1 }}>
+                      <Text variant="body-regular" style={{ fontWeight: 600 }}>
+                        {plan.name}
+                      </Text>
+                      <Text variant="body-small" color="subtle">
+                        {plan.installmentAmount === null
+                          ? 'One payment'
+                          : `${plan.installments} payments: $${plan.dueToday.toFixed(2)} today, then ${plan.installments - 1} × $${plan.installmentAmount.toFixed(2)} (includes $${plan.installmentFee.toFixed(2)} installment fee)`}
+                      </Text>
+                    </Layout>
+                    <Text variant="body-regular" style={{ fontWeight: 600 }}>
+                      ${plan.total.toFixed(2)}
+                    </Text>
+                  </Layout>
+                </label>
+              ))}
+
+              <Text variant="body-small" color="subtle">
+                Taxes and fees are due with your first payment. Later payments are charged automatically to the payment method below.
+              </Text>
+            </Layout>
+          )}
+
           {/* Payment Method Selection */}
           <Layout
             display="flex-column"
@@ -217,7 +323,7 @@ const CheckoutContent: React.FC = () => {
               Back
             </Button>
 
-            <Button variant="primary" onClick={handleContinue} disabled={!userExists}>
+            <Button variant="primary" onClick={handleContinue} disabled={!isSignedIn}>
               Enter Payment Details
             </Button>
           </Layout>
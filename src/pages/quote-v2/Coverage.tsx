@@ -6,12 +6,14 @@ import {
   Title,
   Text,
   Select,
-  Button
+  Button,
+  Checkbox
 } from '@sureapp/canary-design-system';
 import { TechStartupLayout } from './components/shared/TechStartupLayout';
 import { PriceSidebar } from './components/PriceSidebar';
 import { ScreenProgress } from './components/ScreenProgress';
-import { useQuoteByNumber, useUpdateQuoteCoverage } from '../../hooks/useQuote';
+import { useQuoteByNumber, useUpdateQuoteCoverage, useUpdateQuotePreferences } from '../../hooks/useQuote';
+import type { PaymentPlanCode } from '../../services/quote-api';
 
 /**
  * Coverage Screen (Screen 06 of 19) - T096
@@ -21,6 +23,9 @@ import { useQuoteByNumber, useUpdateQuoteCoverage } from '../../hooks/useQuote';
  * 2. Protect Your Assets (Property Damage Liability)
  * 3. Protect Your Vehicles (Comprehensive, Collision per vehicle)
  *
+ * Followed by "Ways to Save": pay-in-full, paperless and multi-policy
+ * choices that re-rate the quote with their discounts.
+ *
  * Features:
  * - BI Liability dropdown with 3 options
  * - PD Liability slider
@@ -59,6 +64,7 @@ const CoverageContent: React.FC = () => {
 
   // Mutation for updating coverage
   const updateCoverage = useUpdateQuoteCoverage();
+  const updatePreferences = useUpdateQuotePreferences();
 
   // Coverage state - initialize from quote data
   const [biLiability, setBiLiability] = useState('100000/300000');
@@ -233,6 +239,20 @@ const CoverageContent: React.FC = () => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   ]);
 
+  const handleUpdatePreferences = async (preferences: {
+    payment_plan?: PaymentPlanCode;
+    document_delivery?: 'ELECTRONIC' | 'MAIL';
+    has_other_policies?: boolean;
+  }) => {
+    if (!quoteNumber) return;
+
+    try {
+      await updatePreferences.mutateAsync({ quoteNumber, preferences });
+    } catch (err) {
+      console.error('[Coverage] Error updating preferences:', err);
+    }
+  };
+
   const handleContinue = () => {
     navigate(`/quote-v2/add-ons/${quoteNumber}`);
   };
@@ -274,6 +294,7 @@ const CoverageContent: React.FC = () => {
 
   // Get all vehicles for display
   const vehicles = quote.vehicles || [];
+  const preferences = quote.preferences || {};
   console.log('[Coverage] Quote vehicles:', vehicles);
   console.log('[Coverage] Vehicle count:', vehicles.length);
 
@@ -482,6 +503,39 @@ const CoverageContent: React.FC = () => {
                 ))}
               </Layout>
 
+              {/* Ways to Save: choices that earn discounts */}
+              <Layout display="flex-column" gap="medium" padding="medium" style={{ border: '1px solid #e2e8f0', borderRadius: '16px' }}>
+                <Title variant="title-3">Ways to Save</Title>
+                <Text variant="body-regular" color="subtle">
+                  A few choices that lower your premium. Your price updates as soon as you pick them.
+                </Text>
+
+                <Checkbox
+                  id="pay-in-full"
+                  name="pay-in-full"
+                  checked={(preferences.paymentPlan ?? 'PAY_IN_FULL') === 'PAY_IN_FULL'}
+                  disabled={updatePreferences.isPending}
+                  onChange={(e) => handleUpdatePreferences({ payment_plan: e.target.checked ? 'PAY_IN_FULL' : 'MONTHLY' })}
+                  label="Pay the 6-month premium in full"
+                />
+                <Checkbox
+                  id="paperless"
+                  name="paperless"
+                  checked={preferences.documentDelivery === 'ELECTRONIC'}
+                  disabled={updatePreferences.isPending}
+                  onChange={(e) => handleUpdatePreferences({ document_delivery: e.target.checked ? 'ELECTRONIC' : 'MAIL' })}
+                  label="Go paperless – get policy documents by email"
+                />
+                <Checkbox
+                  id="other-policies"
+                  name="other-policies"
+                  checked={!!preferences.hasOtherPolicies}
+                  disabled={updatePreferences.isPending}
+                  onChange={(e) => handleUpdatePreferences({ has_other_policies: e.target.checked })}
+                  label="I have another policy (home, renters, life) with us"
+                />
+              </Layout>
+
               {/* Navigation Buttons */}
               <Layout display="flex" gap="medium" flexJustify="space-between" padding={{ top: 'medium' }}>
                 <Button
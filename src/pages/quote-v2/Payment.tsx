@@ -17,7 +17,7 @@
  * 2. Form validates as user types (card number, expiration, CVV, ZIP)
  * 3. User clicks "Submit Payment"
  * 4. Validates all fields
- * 5. Calls POST /api/v1/payments
+ * 5. Tokenizes the card with the payment gateway (only the token is kept)
  * 6. Navigate to Processing screen
  */
 
@@ -35,6 +35,7 @@ import { TechStartupLayout } from './components/shared/TechStartupLayout';
 import { ScreenProgress } from './components/ScreenProgress';
 import { QuoteProvider } from './contexts/QuoteContext';
 import { useQuoteByNumber } from '../../hooks/useQuote';
+import { tokenizePaymentMethod } from '../../services/policy-api';
 
 /**
  * Luhn algorithm for credit card validation
@@ -170,24 +171,26 @@ const PaymentContent: React.FC = () => {
     setIsSubmitting(true);
 
     try {
-      // Store payment data in sessionStorage for Processing screen
-      sessionStorage.setItem('paymentData', JSON.stringify({
+      // Exchange the card for a payment token; only the token is kept
+      const { paymentToken, lastFourDigits } = await tokenizePaymentMethod({
         paymentMethod: 'credit_card',
         cardNumber: cardNumber.replace(/\s/g, ''), // Remove spaces
         cardExpiry: expiration,
         cardCvv: cvv,
-      }));
+      });
 
-      // T156: Mock payment processing for demo mode
-      // In production, this would call POST /api/v1/payments
-      // For now, simulate a 1-2 second payment authorization delay
-      await new Promise(resolve => setTimeout(resolve, 1500));
+      // Store the token in sessionStorage for Processing screen
+      sessionStorage.setItem('paymentData', JSON.stringify({
+        paymentMethod: 'credit_card',
+        paymentToken,
+        lastFourDigits,
+      }));
 
       // Payment successful - navigate to processing screen
       navigate(`/quote-v2/processing/${quoteNumber}`);
     } catch (error) {
-      console.error('Payment processing failed:', error);
-      setErrors({ submit: 'Payment processing failed. Please try again.' });
+      console.error('Payment processing failed:', error instanceof Error ? error.message : error);
+      setErrors({ submit: error instanceof Error ? error.message : 'Payment processing failed. Please try again.' });
       setIsSubmitting(false);
     }
   };
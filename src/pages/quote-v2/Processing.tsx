@@ -61,9 +61,7 @@ const ProcessingContent: React.FC = () => {
         const policyResult = await bindQuote({
           quoteNumber: quoteNumber!,
           paymentMethod: paymentData.paymentMethod,
-          cardNumber: paymentData.cardNumber,
-          cardExpiry: paymentData.cardExpiry,
-          cardCvv: paymentData.cardCvv,
+          paymentToken: paymentData.paymentToken,
         });
 
         // Clear payment data from sessionStorage for security
@@ -11,6 +11,7 @@ import {
 import { TechStartupLayout } from './components/shared/TechStartupLayout';
 import { PriceSidebar } from './components/PriceSidebar';
 import { ScreenProgress } from './components/ScreenProgress';
+import { ExpiredQuoteNotice } from './components/ExpiredQuoteNotice';
 import { QuoteProvider } from './contexts/QuoteContext';
 import { useQuoteByNumber } from '../../hooks/useQuote';
 
@@ -23,6 +24,7 @@ import { useQuoteByNumber } from '../../hooks/useQuote';
  * - Liability Coverage (BI + PD limits)
  * - Vehicle Coverage per vehicle (comprehensive, collision, rental)
  * - Full discount breakdown
+ * - Premium, state taxes and fees making up the total
  *
  * This is the final screen before signing ceremony (Phase 4)
  *
@@ -109,6 +111,14 @@ const ReviewContent: React.FC = () => {
     );
   }
 
+  // Expired quotes can't be bound; offer a re-quote at current rates
+  if (quote.quote_status === 'EXPIRED') {
+    return <ExpiredQuoteNotice quoteNumber={quote.quote_number} requotedAs={quote.requoted_as} currentScreen={9} />;
+  }
+
+  // Only a quote whose status allows binding can go on to signing and payment
+  const canBind = !quote.allowed_actions || quote.allowed_actions.includes('BIND');
+
   // Map API response to display format
   const drivers: Driver[] = [];
 
@@ -214,6 +224,13 @@ const ReviewContent: React.FC = () => {
     amount: Math.abs(d.amount),
   })) || [];
 
+  // Extract premium, tax and fee lines (older quotes only carry the total)
+  const premium = quote.premium || {};
+  const taxesAndFees: Array<{ type: string; name: string; amount: number }> = [
+    ...(premium.taxes || []),
+    ...(premium.fees || []),
+  ];
+
   return (
     <TechStartupLayout>
       <ScreenProgress currentScreen={9} totalScreens={19} />
@@ -314,6 +331,33 @@ const ReviewContent: React.FC = () => {
                 </Layout>
               )}
 
+              {/* Price Breakdown Section */}
+              {taxesAndFees.length > 0 && (
+                <Layout display="flex-column" gap="medium">
+                  <Title variant="title-3">Price Breakdown</Title>
+
+                  <Card padding="medium">
+                    <Layout display="flex-column" gap="small">
+                      <Layout display="flex" flexJustify="space-between">
+                        <Text variant="body-regular">Premium</Text>
+                        <Text variant="body-regular">${premium.subtotal.toFixed(2)}</Text>
+                      </Layout>
+                      {taxesAndFees.map(line => (
+                        <Layout key={line.type} display="flex" flexJustify="space-between">
+                          <Text variant="body-regular" color="subtle">{line.name}</Text>
+                          <Text variant="body-regular" color="subtle">${line.amount.toFixed(2)}</Text>
+                        </Layout>
+                      ))}
+                      <div style={{ borderTop: '1px solid #e2e8f0', margin: '8px 0' }} />
+                      <Layout display="flex" flexJustify="space-between">
+                        <Text variant="body-regular" style={{ fontWeight: 600 }}>6-Month Total</Text>
+                        <Text variant="body-regular" style={{ fontWeight: 600 }}>${premium.total.toFixed(2)}</Text>
+                      </Layout>
+                    </Layout>
+                  </Card>
+                </Layout>
+              )}
+
               {/* Navigation Buttons */}
               <Layout display="flex" gap="medium" flexJustify="space-between">
                 <Button
@@ -328,6 +372,7 @@ const ReviewContent: React.FC = () => {
                   variant="primary"
                   size="large"
                   onClick={handleContinue}
+                  disabled={!canBind}
                 >
                   Looks Good! Continue
                 </Button>
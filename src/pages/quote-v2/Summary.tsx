@@ -11,6 +11,7 @@ import {
 import { TechStartupLayout } from './components/shared/TechStartupLayout';
 import { PriceSidebar } from './components/PriceSidebar';
 import { ScreenProgress } from './components/ScreenProgress';
+import { ExpiredQuoteNotice } from './components/ExpiredQuoteNotice';
 import { QuoteProvider } from './contexts/QuoteContext';
 import {
   useQuoteByNumber,
@@ -20,6 +21,7 @@ import {
 } from '../../hooks/useQuote';
 import { EditVehicleModal } from './components/modals/EditVehicleModal';
 import { EditDriverModal } from './components/modals/EditDriverModal';
+import type { DriverViolation, DriverAccident, QuoteResponse } from '../../services/quote-api';
 
 /**
  * Summary Screen (Screen 05 of 19) - T090-T091
@@ -60,8 +62,19 @@ interface Driver {
   licenseNumber?: string;
   licenseState?: string;
   relationshipType?: string;
+  goodStudent?: boolean;
+  defensiveDrivingCourse?: boolean;
+  violations?: DriverViolation[];
+  accidents?: DriverAccident[];
 }
 
+// Driving record in the API's request format
+const toViolationInputs = (violations?: DriverViolation[]) =>
+  (violations || []).map(v => ({ type: v.type, date: v.date }));
+
+const toAccidentInputs = (accidents?: DriverAccident[]) =>
+  (accidents || []).map(a => ({ type: a.type, at_fault: a.atFault, date: a.date }));
+
 const SummaryContent: React.FC = () => {
   const navigate = useNavigate();
   const { quoteNumber } = useParams<{ quoteNumber: string }>();
@@ -190,6 +203,10 @@ const SummaryContent: React.FC = () => {
             driver_marital_status: updatedDriver.maritalStatus,
             driver_license_number: updatedDriver.licenseNumber,
             driver_license_state: updatedDriver.licenseState,
+            driver_good_student: updatedDriver.goodStudent,
+            driver_defensive_driving_course: updatedDriver.defensiveDrivingCourse,
+            driver_violations: toViolationInputs(updatedDriver.violations),
+            driver_accidents: toAccidentInputs(updatedDriver.accidents),
             address_line_1: quote.address?.addressLine1 || '',
             address_line_2: quote.address?.addressLine2 || '',
             address_city: quote.address?.city || '',
@@ -209,7 +226,9 @@ const SummaryContent: React.FC = () => {
           marital_status: d.maritalStatus,
           relationship: d.relationship,
           license_number: d.licenseNumber,
-          license_state: d.licenseState
+          license_state: d.licenseState,
+          violations: toViolationInputs(d.violations),
+          accidents: toAccidentInputs(d.accidents)
         }));
 
         // Add the new driver
@@ -223,7 +242,9 @@ const SummaryContent: React.FC = () => {
           marital_status: updatedDriver.maritalStatus,
           relationship: updatedDriver.relationshipType || 'SPOUSE',
           license_number: updatedDriver.licenseNumber,
-          license_state: updatedDriver.licenseState
+          license_state: updatedDriver.licenseState,
+          violations: toViolationInputs(updatedDriver.violations),
+          accidents: toAccidentInputs(updatedDriver.accidents)
         };
 
         await updateAdditionalDrivers.mutateAsync({
@@ -245,7 +266,9 @@ const SummaryContent: React.FC = () => {
               marital_status: updatedDriver.maritalStatus,
               relationship: updatedDriver.relationshipType,
               license_number: updatedDriver.licenseNumber,
-              license_state: updatedDriver.licenseState
+              license_state: updatedDriver.licenseState,
+              violations: toViolationInputs(updatedDriver.violations),
+              accidents: toAccidentInputs(updatedDriver.accidents)
             };
           }
           return {
@@ -258,7 +281,9 @@ const SummaryContent: React.FC = () => {
             marital_status: d.maritalStatus,
             relationship: d.relationship,
             license_number: d.licenseNumber,
-            license_state: d.licenseState
+            license_state: d.licenseState,
+            violations: toViolationInputs(d.violations),
+            accidents: toAccidentInputs(d.accidents)
           };
         });
 
@@ -399,7 +424,9 @@ const SummaryContent: React.FC = () => {
           marital_status: d.maritalStatus,
           relationship: d.relationship,
           license_number: d.licenseNumber,
-          license_state: d.licenseState
+          license_state: d.licenseState,
+          violations: toViolationInputs(d.violations),
+          accidents: toAccidentInputs(d.accidents)
         }));
 
       await updateAdditionalDrivers.mutateAsync({
@@ -470,6 +497,20 @@ const SummaryContent: React.FC = () => {
     );
   }
 
+  // useQuoteByNumber leaves the data untyped; the API returns a QuoteResponse
+  const quoteResponse = quote as QuoteResponse;
+
+  // Expired quotes can't be changed; offer a re-quote at current rates
+  if (quoteResponse.quote_status === 'EXPIRED') {
+    return (
+      <ExpiredQuoteNotice
+        quoteNumber={quoteResponse.quote_number}
+        requotedAs={quoteResponse.requoted_as}
+        currentScreen={5}
+      />
+    );
+  }
+
   // Map API response to component format
   // The API returns camelCase snapshot data without database IDs
   console.log('[Summary] Quote data:', quote);
@@ -518,6 +559,10 @@ const SummaryContent: React.FC = () => {
       maritalStatus: quote.driver.maritalStatus,
       licenseNumber: quote.driver.licenseNumber || undefined,
       licenseState: quote.driver.licenseState || undefined,
+      goodStudent: quoteResponse.driver?.goodStudent,
+      defensiveDrivingCourse: quoteResponse.driver?.defensiveDrivingCourse,
+      violations: quoteResponse.driver?.violations || [],
+      accidents: quoteResponse.driver?.accidents || [],
     });
   }
 
@@ -533,7 +578,9 @@ const SummaryContent: React.FC = () => {
         maritalStatus: driver.maritalStatus,
         licenseNumber: driver.licenseNumber || undefined,
         licenseState: driver.licenseState || undefined,
-        relationshipType: driver.relationship
+        relationshipType: driver.relationship,
+        violations: driver.violations || [],
+        accidents: driver.accidents || []
       });
     });
   }
@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  Layout,
+  Container,
+  Title,
+  Text,
+  Button
+} from '@sureapp/canary-design-system';
+import { TechStartupLayout } from './shared/TechStartupLayout';
+import { ScreenProgress } from './ScreenProgress';
+import { useRequoteExpiredQuote } from '../../../hooks/useQuote';
+
+/**
+ * ExpiredQuoteNotice Component
+ *
+ * Shown in place of a quote screen once the quote is past its 30-day
+ * validity. The quote can no longer be changed or bound; the customer gets
+ * a new quote with the same drivers, vehicles and coverages priced at
+ * current rates (or goes to the one already created).
+ */
+
+interface ExpiredQuoteNoticeProps {
+  quoteNumber: string;
+  requotedAs?: string | null; // Replacement quote, if already re-quoted
+  currentScreen: number;
+}
+
+export const ExpiredQuoteNotice: React.FC<ExpiredQuoteNoticeProps> = ({
+  quoteNumber,
+  requotedAs,
+  currentScreen,
+}) => {
+  const navigate = useNavigate();
+  const requote = useRequoteExpiredQuote();
+  const [requoteError, setRequoteError] = useState<string | null>(null);
+
+  const handleRequote = async () => {
+    if (requotedAs) {
+      navigate(`/quote-v2/summary/${requotedAs}`);
+      return;
+    }
+
+    setRequoteError(null);
+    try {
+      const newQuote = await requote.mutateAsync(quoteNumber);
+      navigate(`/quote-v2/summary/${newQuote.quoteNumber}`);
+    } catch (err) {
+      setRequoteError(err instanceof Error ? err.message : 'Failed to get an updated quote');
+    }
+  };
+
+  return (
+    <TechStartupLayout>
+      <ScreenProgress currentScreen={currentScreen} totalScreens={19} />
+      <Container padding="large">
+        <Layout display="flex-column" gap="large" flexAlign="center">
+          <Title variant="title-2">This Quote Has Expired</Title>
+          <Text variant="body-regular" color="subtle" align="center">
+            Quote {quoteNumber} is more than 30 days old and can no longer be purchased.
+            We can price the same drivers, vehicles and coverages again at today's rates.
+          </Text>
+          {requoteError && (
+            <Text variant="body-regular" color="error" align="center">
+              {requoteError}
+            </Text>
+          )}
+          <Button variant="primary" onClick={handleRequote} disabled={requote.isPending}>
+            {requote.isPending
+              ? 'Getting your updated quote...'
+              : requotedAs ? 'Go to My Updated Quote' : 'Get an Updated Quote'}
+          </Button>
+        </Layout>
+      </Container>
+    </TechStartupLayout>
+  );
+};
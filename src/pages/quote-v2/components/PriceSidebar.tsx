@@ -15,6 +15,7 @@ import './PriceSidebar.css';
  * - Due today amount
  * - Payment plan details
  * - Total premium
+ * - State tax and fee lines
  * - Discount breakdowns
  *
  * Responsive behavior:
@@ -29,6 +30,12 @@ interface Discount {
   amount: number;
 }
 
+interface TaxFeeLine {
+  type: string;
+  name: string;
+  amount: number;
+}
+
 interface PriceSidebarProps {
   quote?: any;
   isLoading?: boolean;
@@ -52,9 +59,39 @@ export const PriceSidebar: React.FC<PriceSidebarProps> = ({ quote, isLoading = f
     amount: d.amount
   })) || [];
 
+  // Premium before taxes and fees (older quotes only carry the total)
+  const premiumSubtotal = quote?.premium?.subtotal ?? sixMonthPremium;
+  const taxesAndFees: TaxFeeLine[] = [
+    ...(quote?.premium?.taxes || []),
+    ...(quote?.premium?.fees || []),
+  ];
+
   // Calculate subtotal before discounts
   const totalDiscounts = discounts.reduce((acc, d) => acc + Math.abs(d.amount), 0);
-  const subtotal = sixMonthPremium + totalDiscounts;
+  const subtotal = premiumSubtotal + totalDiscounts;
+
+  const taxFeeBreakdown = taxesAndFees.length > 0 && (
+    <Layout display="flex-column" gap="small">
+      <Layout display="flex" flexJustify="space-between">
+        <Text variant="body-small" color="subtle">
+          Premium
+        </Text>
+        <Text variant="body-small" color="subtle">
+          ${premiumSubtotal.toFixed(2)}
+        </Text>
+      </Layout>
+      {taxesAndFees.map(line => (
+        <Layout key={line.type} display="flex" flexJustify="space-between">
+          <Text variant="body-small" color="subtle">
+            {line.name}
+          </Text>
+          <Text variant="body-small" color="subtle">
+            ${line.amount.toFixed(2)}
+          </Text>
+        </Layout>
+      ))}
+    </Layout>
+  );
 
   // Loading state
   if (isLoading) {
@@ -144,6 +181,8 @@ export const PriceSidebar: React.FC<PriceSidebarProps> = ({ quote, isLoading = f
               </Text>
             </Layout>
 
+            {taxFeeBreakdown}
+
             <div style={{ borderTop: '1px solid #e2e8f0', margin: '8px 0' }} />
 
             <Layout display="flex-column" gap="small">
@@ -288,6 +327,8 @@ export const PriceSidebar: React.FC<PriceSidebarProps> = ({ quote, isLoading = f
                     </Text>
                   </Layout>
 
+                  {taxFeeBreakdown}
+
                   <div style={{ borderTop: '1px solid #e2e8f0', margin: '8px 0' }} />
 
                   <Layout display="flex-column" gap="small">
@@ -9,7 +9,8 @@
  * - Password field (type="password", min 8 chars)
  * - Password confirmation with matching validation
  * - First name and last name fields
- * - "Create Account" button calls POST /api/v1/user-accounts
+ * - "Create Account" button calls POST /api/v1/user-accounts, which also
+ *   signs the new account in (session cookie)
  * - FocusLock to trap focus
  * - ARIA labels for accessibility
  * - Cannot be closed without creating account (no ESC, no backdrop click)
@@ -93,7 +94,7 @@ export const AccountCreationModal: React.FC<AccountCreationModalProps> = ({
     setIsSubmitting(true);
 
     try {
-      // Call POST /api/v1/user-accounts (T152)
+      // Call POST /api/v1/user-accounts (T152); the response signs the account in
       const response = await createAccount({
         email: localEmail,
         password,
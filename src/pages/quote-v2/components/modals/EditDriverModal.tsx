@@ -5,15 +5,20 @@ import {
   Title,
   TextInput,
   Select,
-  Button
+  Button,
+  Checkbox,
+  Text
 } from '@sureapp/canary-design-system';
+import type { DriverViolation, DriverAccident } from '../../../../services/quote-api';
 
 /**
  * EditDriverModal
  *
  * Modal for editing driver information.
  * Fields: first_name, last_name, birth_date, gender_code, marital_status_code,
- * license_number, license_state, license_date, relationship_type (for additional drivers)
+ * license_number, license_state, license_date, relationship_type (for additional drivers),
+ * good_student and defensive_driving_course (primary driver discounts),
+ * and the driving record (violations and accidents with dates) used for surcharges
  */
 
 interface Driver {
@@ -27,6 +32,10 @@ interface Driver {
   licenseState?: string;
   licenseDate?: string;
   relationshipType?: string;
+  goodStudent?: boolean;
+  defensiveDrivingCourse?: boolean;
+  violations?: DriverViolation[];
+  accidents?: DriverAccident[];
 }
 
 interface EditDriverModalProps {
@@ -103,6 +112,25 @@ const MARITAL_STATUS_OPTIONS = [
   { label: 'Widowed', value: 'WIDOWED' }
 ];
 
+// Minor violations are rated for 3 years, major ones (DUI, reckless, hit-and-run) for 5
+const VIOLATION_OPTIONS = [
+  { label: 'Speeding (under 20 mph over)', value: 'SPEEDING' },
+  { label: 'Speeding (20+ mph over)', value: 'SPEEDING_20_OVER' },
+  { label: 'Failure to yield', value: 'FAILURE_TO_YIELD' },
+  { label: 'Red light / stop sign', value: 'RED_LIGHT' },
+  { label: 'Illegal turn', value: 'ILLEGAL_TURN' },
+  { label: 'DUI / DWI', value: 'DUI' },
+  { label: 'Reckless driving', value: 'RECKLESS_DRIVING' },
+  { label: 'Hit and run', value: 'HIT_AND_RUN' }
+];
+
+const ACCIDENT_OPTIONS = [
+  { label: 'Collision with another vehicle', value: 'COLLISION' },
+  { label: 'Single vehicle', value: 'SINGLE_VEHICLE' },
+  { label: 'Property damage', value: 'PROPERTY_DAMAGE' },
+  { label: 'Pedestrian', value: 'PEDESTRIAN' }
+];
+
 const RELATIONSHIP_OPTIONS = [
   { label: 'Spouse', value: 'SPOUSE' },
   { label: 'Child', value: 'CHILD' },
@@ -136,6 +164,23 @@ export const EditDriverModal: React.FC<EditDriverModalProps> = ({
     }
   }, [isOpen, onClose]);
 
+  const violations = formData.violations || [];
+  const accidents = formData.accidents || [];
+
+  const updateViolation = (index: number, changes: Partial<DriverViolation>) => {
+    setFormData({
+      ...formData,
+      violations: violations.map((v, i) => (i === index ? { ...v, ...changes } : v)),
+    });
+  };
+
+  const updateAccident = (index: number, changes: Partial<DriverAccident>) => {
+    setFormData({
+      ...formData,
+      accidents: accidents.map((a, i) => (i === index ? { ...a, ...changes } : a)),
+    });
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     onSave(formData);
@@ -252,6 +297,25 @@ export const EditDriverModal: React.FC<EditDriverModalProps> = ({
                 </div>
               </Layout>
 
+              {isPrimary && (
+                <Layout display="flex-column" gap="small">
+                  <Checkbox
+                    id="good-student"
+                    name="good-student"
+                    checked={!!formData.goodStudent}
+                    onChange={(e) => setFormData({...formData, goodStudent: e.target.checked})}
+                    label="Full-time student with a B average or better"
+                  />
+                  <Checkbox
+                    id="defensive-driving-course"
+                    name="defensive-driving-course"
+                    checked={!!formData.defensiveDrivingCourse}
+                    onChange={(e) => setFormData({...formData, defensiveDrivingCourse: e.target.checked})}
+                    label="Completed an approved defensive driving course"
+                  />
+                </Layout>
+              )}
+
               {!isPrimary && (
                 <Select
                   label="Relationship"
@@ -262,6 +326,99 @@ export const EditDriverModal: React.FC<EditDriverModalProps> = ({
                 />
               )}
 
+              <Layout display="flex-column" gap="small">
+                <Title variant="title-4">Driving Record</Title>
+                <Text variant="body-small" color="subtle">
+                  Violations and accidents in the last 5 years. Minor violations affect your price for 3 years; DUI and other major violations for 5.
+                </Text>
+
+                {violations.map((violation, index) => (
+                  <Layout key={`violation-${index}`} display="flex" gap="medium" flexAlign="flex-end">
+                    <div style={{ flex: 2 }}>
+                      <Select
+                        label="Violation"
+                        placeholder="Select violation"
+                        value={violation.type}
+                        onChange={(value) => updateViolation(index, { type: value })}
+                        options={VIOLATION_OPTIONS}
+                      />
+                    </div>
+                    <div style={{ flex: 1 }}>
+                      <TextInput
+                        type="date"
+                        label="Date"
+                        value={violation.date}
+                        onChange={(e) => updateViolation(index, { date: e.target.value })}
+                        required
+                      />
+                    </div>
+                    <Button
+                      type="button"
+                      variant="secondary"
+                      onClick={() => setFormData({ ...formData, violations: violations.filter((_, i) => i !== index) })}
+                    >
+                      Remove
+                    </Button>
+                  </Layout>
+                ))}
+
+                {accidents.map((accident, index) => (
+                  <Layout key={`accident-${index}`} display="flex-column" gap="small">
+                    <Layout display="flex" gap="medium" flexAlign="flex-end">
+                      <div style={{ flex: 2 }}>
+                        <Select
+                          label="Accident"
+                          placeholder="Select accident type"
+                          value={accident.type}
+                          onChange={(value) => updateAccident(index, { type: value })}
+                          options={ACCIDENT_OPTIONS}
+                        />
+                      </div>
+                      <div style={{ flex: 1 }}>
+                        <TextInput
+                          type="date"
+                          label="Date"
+                          value={accident.date}
+                          onChange={(e) => updateAccident(index, { date: e.target.value })}
+                          required
+                        />
+                      </div>
+                      <Button
+                        type="button"
+                        variant="secondary"
+                        onClick={() => setFormData({ ...formData, accidents: accidents.filter((_, i) => i !== index) })}
+                      >
+                        Remove
+                      </Button>
+                    </Layout>
+                    <Checkbox
+                      id={`accident-at-fault-${index}`}
+                      name={`accident-at-fault-${index}`}
+                      checked={accident.atFault}
+                      onChange={(e) => updateAccident(index, { atFault: e.target.checked })}
+                      label="This driver was at fault"
+                    />
+                  </Layout>
+                ))}
+
+                <Layout display="flex" gap="medium">
+                  <Button
+                    type="button"
+                    variant="secondary"
+                    onClick={() => setFormData({ ...formData, violations: [...violations, { type: 'SPEEDING', date: '' }] })}
+                  >
+                    Add Violation
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="secondary"
+                    onClick={() => setFormData({ ...formData, accidents: [...accidents, { type: 'COLLISION', atFault: true, date: '' }] })}
+                  >
+                    Add Accident
+                  </Button>
+                </Layout>
+              </Layout>
+
               <Layout display="flex" gap="medium" flexJustify="flex-end">
                 <Button type="button" variant="secondary" size="large" onClick={onClose}>
                   Cancel
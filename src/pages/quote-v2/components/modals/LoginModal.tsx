@@ -1,16 +1,19 @@
 /**
  * LoginModal Component
  *
- * Modal for logging in existing users during checkout.
+ * Modal for logging in existing users during checkout, and in the portal
+ * when the session is missing or has expired.
  *
  * Features:
- * - Email field (readonly, prefilled from quote)
+ * - Email field (readonly when prefilled from quote, editable when empty)
  * - Password field (type="password")
- * - "Log In" button (calls authentication service)
+ * - "Log In" button calls POST /api/v1/user-accounts/login, which sets the
+ *   session cookie
  * - FocusLock to trap focus
  * - ARIA labels for accessibility
  * - Can be closed with ESC or backdrop click
- * - "Forgot Password?" link (optional future enhancement)
+ * - "Forgot password?" and "Email me a sign-in link" send a password reset
+ *   or magic link to the email entered
  *
  * Usage:
  * ```tsx
@@ -32,6 +35,7 @@ import {
   TextInput,
   Button
 } from '@sureapp/canary-design-system';
+import { useLogin, useRequestMagicLink, useRequestPasswordReset } from '../../../../hooks/useUserAccount';
 
 interface LoginModalProps {
   isOpen: boolean;
@@ -46,13 +50,23 @@ export const LoginModal: React.FC<LoginModalProps> = ({
   onSuccess,
   onClose,
 }) => {
+  const [loginEmail, setLoginEmail] = useState(email);
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [notice, setNotice] = useState('');
+  const loginMutation = useLogin();
+  const passwordResetMutation = useRequestPasswordReset();
+  const magicLinkMutation = useRequestMagicLink();
 
   if (!isOpen) return null;
 
   const handleSubmit = async () => {
+    if (!loginEmail) {
+      setError('Please enter your email address');
+      return;
+    }
+
     if (!password) {
       setError('Please enter your password');
       return;
@@ -62,14 +76,7 @@ export const LoginModal: React.FC<LoginModalProps> = ({
     setError('');
 
     try {
-      // TODO: Replace with actual authentication API call
-      // For now, simulate successful login
-      await new Promise(resolve => setTimeout(resolve, 500));
-
-      // In production, this would be:
-      // const response = await loginUser({ email, password });
-      // if (response.success) onSuccess();
-
+      await loginMutation.mutateAsync({ email: loginEmail, password });
       onSuccess();
     } catch (err: any) {
       console.error('Login failed:', err);
@@ -79,6 +86,27 @@ export const LoginModal: React.FC<LoginModalProps> = ({
     }
   };
 
+  const handleEmailLink = async (kind: 'reset' | 'magic-link') => {
+    if (!loginEmail) {
+      setError('Please enter your email address');
+      return;
+    }
+
+    setError('');
+    setNotice('');
+
+    try {
+      const message = kind === 'reset'
+        ? await passwordResetMutation.mutateAsync(loginEmail)
+        : await magicLinkMutation.mutateAsync(loginEmail);
+      setNotice(message);
+    } catch (err: any) {
+      setError(err.message || 'Could not send the email. Please try again.');
+    }
+  };
+
+  const isSendingLink = passwordResetMutation.isPending || magicLinkMutation.isPending;
+
   const handleBackdropClick = (e: React.MouseEvent) => {
     if (e.target === e.currentTarget) {
       onClose();
@@ -139,12 +167,22 @@ export const LoginModal: React.FC<LoginModalProps> = ({
               <Text variant="body-regular" style={{ fontWeight: 600 }}>
                 Email Address
               </Text>
-              <TextInput
-                id="login-email"
-                value={email}
-                readOnly
-                style={{ backgroundColor: '#f7fafc', cursor: 'not-allowed' }}
-              />
+              {email ? (
+                <TextInput
+                  id="login-email"
+                  value={email}
+                  readOnly
+                  style={{ backgroundColor: '#f7fafc', cursor: 'not-allowed' }}
+                />
+              ) : (
+                <TextInput
+                  id="login-email"
+                  type="email"
+                  value={loginEmail}
+                  onChange={(e) => setLoginEmail(e.target.value)}
+                  placeholder="Enter your email address"
+                />
+              )}
             </Layout>
 
             {/* Password */}
@@ -173,6 +211,13 @@ export const LoginModal: React.FC<LoginModalProps> = ({
               </Text>
             )}
 
+            {/* Emailed link sent */}
+            {notice && (
+              <Text variant="body-small" color="subtle">
+                {notice}
+              </Text>
+            )}
+
             {/* Action Buttons */}
             <Layout display="flex" gap="medium" flexJustify="space-between" style={{ marginTop: '8px' }}>
               <Button
@@ -190,10 +235,25 @@ export const LoginModal: React.FC<LoginModalProps> = ({
               </Button>
             </Layout>
 
-            {/* Forgot Password Link (future enhancement) */}
-            <Text variant="body-small" color="subtle" style={{ textAlign: 'center' }}>
-              Forgot your password? Contact support for assistance.
-            </Text>
+            {/* Emailed links: password reset, or sign in without a password */}
+            <Layout display="flex" gap="medium" flexJustify="center">
+              <Button
+                variant="secondary"
+                size="small"
+                onClick={() => handleEmailLink('reset')}
+                disabled={isSubmitting || isSendingLink}
+              >
+                Forgot password?
+              </Button>
+              <Button
+                variant="secondary"
+                size="small"
+                onClick={() => handleEmailLink('magic-link')}
+                disabled={isSubmitting || isSendingLink}
+              >
+                Email me a sign-in link
+              </Button>
+            </Layout>
           </Layout>
         </div>
       </FocusLock>
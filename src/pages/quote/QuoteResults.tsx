@@ -22,6 +22,7 @@ import {
 } from '@sureapp/canary-design-system';
 import PremiumBreakdown from '../../components/insurance/PremiumBreakdown';
 import { useQuoteByNumber } from '../../hooks/useQuote';
+import type { QuoteResponse } from '../../services/quote-api';
 
 const logoSrc = '/images/sureMiniLogo.2be6cd5d.svg';
 
@@ -138,6 +139,8 @@ const QuoteResults: React.FC = () => {
   };
 
   // Extract data from API response
+  // (useQuoteByNumber leaves the data untyped; the API returns a QuoteResponse)
+  const quoteResponse = quote as QuoteResponse;
   const quoteRefNumber = quote.quote_number || '';
   const quoteStatus = quote.quote_status || 'QUOTED';
   const totalPremium = quote.premium?.total || 0;
@@ -302,6 +305,8 @@ const QuoteResults: React.FC = () => {
               <PremiumBreakdown
                 coverage={localCoverage}
                 premium={{ monthly: monthlyPremium, sixMonth: totalPremium }}
+                discounts={quoteResponse.discountEligibility}
+                surcharges={quoteResponse.surcharges}
               />
             </Section>
           )}
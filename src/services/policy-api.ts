@@ -6,8 +6,11 @@
 
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3000';
 
-export interface BindQuoteRequest {
-  quoteNumber: string;
+// Payment gateway the browser tokenizes against (defaults to the local Stripe stub)
+const PAYMENT_GATEWAY_URL = import.meta.env.VITE_PAYMENT_GATEWAY_URL || 'http://localhost:12111';
+const PAYMENT_PUBLISHABLE_KEY = import.meta.env.VITE_PAYMENT_PUBLISHABLE_KEY || 'pk_test_stub';
+
+export interface TokenizePaymentMethodRequest {
   paymentMethod: 'credit_card' | 'ach';
   cardNumber?: string;
   cardExpiry?: string;
@@ -17,10 +20,24 @@ export interface BindQuoteRequest {
   accountType?: 'checking' | 'savings';
 }
 
+export interface TokenizePaymentMethodResponse {
+  paymentToken: string;
+  paymentMethod: 'credit_card' | 'ach';
+  lastFourDigits: string;
+  cardBrand?: string;
+}
+
+export interface BindQuoteRequest {
+  quoteNumber: string;
+  paymentMethod: 'credit_card' | 'ach';
+  paymentToken: string; // From tokenizePaymentMethod
+  accountType?: 'checking' | 'savings';
+}
+
 export interface BindQuoteResponse {
   policyId: string;
   policyNumber: string;
-  status: 'BOUND';
+  status: 'BOUND' | 'IN_FORCE'; // IN_FORCE when coverage starts the same day
   payment: {
     paymentId: string;
     paymentNumber: string;
@@ -38,15 +55,38 @@ export interface BindQuoteResponse {
 
 export interface ActivatePolicyResponse {
   policyId: string;
+  policyNumber: string;
   status: 'IN_FORCE';
   effectiveDate: string;
   expirationDate: string;
+  timeZone: string; // Policy time zone the effective date was reached in
+  activatedAt: string;
+  idCardCount: number;
+  alreadyActivated: boolean;
 }
 
+/** Actions a quote/policy status allows (mirrors the backend state machine) */
+export type PolicyAction =
+  | 'UPDATE_QUOTE'
+  | 'FINALIZE_QUOTE'
+  | 'BIND'
+  | 'COMPLETE_BINDING'
+  | 'FAIL_BINDING'
+  | 'EXPIRE_QUOTE'
+  | 'ACTIVATE'
+  | 'ENDORSE'
+  | 'RENEW'
+  | 'HOLD_PAYMENT'
+  | 'SCHEDULE_CANCELLATION'
+  | 'CANCEL'
+  | 'LAPSE'
+  | 'REINSTATE';
+
 export interface Policy {
   policy_identifier: string;
   policy_number: string;
   status_code: string;
+  allowed_actions?: PolicyAction[];
   effective_date: string;
   expiration_date: string;
   quote_snapshot: any;
@@ -56,6 +96,53 @@ export interface Policy {
   };
 }
 
+/**
+ * Exchange card or bank account details for a payment token
+ *
+ * Calls the payment gateway's POST /v1/tokens straight from the browser with
+ * the publishable key, so raw payment details never reach our backend; bind
+ * with the returned token.
+ */
+export async function tokenizePaymentMethod(
+  data: TokenizePaymentMethodRequest
+): Promise<TokenizePaymentMethodResponse> {
+  const params = new URLSearchParams();
+  if (data.paymentMethod === 'ach') {
+    params.set('bank_account[country]', 'US');
+    params.set('bank_account[currency]', 'usd');
+    params.set('bank_account[routing_number]', data.routingNumber || '');
+    params.set('bank_account[account_number]', data.accountNumber || '');
+  } else {
+    const [expMonth, expYear] = (data.cardExpiry || '').split('/');
+    params.set('card[number]', data.cardNumber || '');
+    params.set('card[exp_month]', expMonth || '');
+    params.set('card[exp_year]', expYear || '');
+    params.set('card[cvc]', data.cardCvv || '');
+  }
+
+  const response = await fetch(`${PAYMENT_GATEWAY_URL}/v1/tokens`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${PAYMENT_PUBLISHABLE_KEY}`,
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: params.toString(),
+  });
+
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(result.error?.message || 'Invalid payment details');
+  }
+
+  const details = result.card || result.bank_account || {};
+  return {
+    paymentToken: result.id,
+    paymentMethod: data.paymentMethod,
+    lastFourDigits: details.last4,
+    cardBrand: result.card?.brand,
+  };
+}
+
 /**
  * Bind a quote to a policy with payment
  */
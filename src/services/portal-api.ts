@@ -5,17 +5,36 @@
  *
  * In production (Vercel), uses relative URLs (same domain as frontend).
  * In development, uses localhost:3000 or VITE_API_BASE_URL if set.
+ *
+ * Portal routes require a signed-in session (an HttpOnly cookie, sent with
+ * these same-origin requests) for an account that owns the policy.
  */
 
 // Force /api/v1 to avoid .env caching issues
 const API_BASE_URL = '/api/v1';
 
+/**
+ * The customer needs to sign in (401), or the signed-in account does not own
+ * the policy (403)
+ */
+export class PortalAccessError extends Error {
+  constructor(public readonly status: 401 | 403, message: string) {
+    super(message);
+    this.name = 'PortalAccessError';
+  }
+}
+
 /**
  * Get dashboard data (policy, drivers, vehicles, payments, claims)
  */
 export async function getDashboardData(policyNumber: string) {
   const response = await fetch(`${API_BASE_URL}/portal/${policyNumber}/dashboard`);
 
+  if (response.status === 401 || response.status === 403) {
+    const error = await response.json().catch(() => ({}));
+    throw new PortalAccessError(response.status, error.message || 'Please sign in to continue');
+  }
+
   if (!response.ok) {
     throw new Error('Failed to fetch dashboard data');
   }
@@ -102,7 +121,9 @@ export async function fileClaim(
   });
 
   if (!response.ok) {
-    throw new Error('Failed to file claim');
+    // e.g. an incident date on which the policy was not in force
+    const error = await response.json().catch(() => ({ message: 'Failed to file claim' }));
+    throw new Error(error.message || `HTTP ${response.status}: ${response.statusText}`);
   }
 
   const result = await response.json();
@@ -142,3 +163,102 @@ export async function downloadDocument(policyNumber: string, documentId: string)
   const result = await response.json();
   return result.data;
 }
+
+/**
+ * Mid-term policy change (endorsement)
+ */
+export interface EndorsementChanges {
+  vehicles?: Array<{ year: number; make: string; model: string; vin: string }>;
+  additionalDrivers?: Array<{ firstName: string; lastName: string; birthDate: string; email: string }>;
+  coverages?: Record<string, string | number | boolean>;
+  address?: { addressLine1: string; addressLine2?: string; city: string; state: string; zipCode: string };
+  contact?: { email?: string; phone?: string };
+}
+
+/**
+ * List proposed and applied policy changes
+ */
+export async function getEndorsements(policyNumber: string) {
+  const response = await fetch(`${API_BASE_URL}/portal/${policyNumber}/endorsements`);
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch policy changes');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Propose a policy change and get the re-rated premium
+ */
+export async function proposeEndorsement(policyNumber: string, changes: EndorsementChanges, effectiveDate?: string) {
+  const response = await fetch(`${API_BASE_URL}/portal/${policyNumber}/endorsements`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ ...changes, effectiveDate }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ message: 'Failed to review policy change' }));
+    throw new Error(error.message || `HTTP ${response.status}: ${response.statusText}`);
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Confirm a proposed policy change
+ */
+export async function confirmEndorsement(policyNumber: string, endorsementId: string) {
+  const response = await fetch(`${API_BASE_URL}/portal/${policyNumber}/endorsements/${endorsementId}/confirm`, {
+    method: 'POST',
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ message: 'Failed to apply policy change' }));
+    throw new Error(error.message || `HTTP ${response.status}: ${response.statusText}`);
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Decline or accept (take back a decline of) the renewal offer
+ */
+export async function decideRenewal(policyNumber: string, decision: 'decline' | 'accept') {
+  const response = await fetch(`${API_BASE_URL}/portal/${policyNumber}/renewal/${decision}`, {
+    method: 'POST',
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ message: `Failed to ${decision} renewal` }));
+    throw new Error(error.message || `HTTP ${response.status}: ${response.statusText}`);
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Share the policy with a household member's account (by email)
+ */
+export async function sharePolicy(policyNumber: string, email: string) {
+  const response = await fetch(`${API_BASE_URL}/portal/${policyNumber}/household`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ message: 'Failed to share policy' }));
+    throw new Error(error.message || `HTTP ${response.status}: ${response.statusText}`);
+  }
+
+  const result = await response.json();
+  return result.data;
+}
@@ -11,9 +11,41 @@
  * - Can mock for testing
  */
 
+import type { PolicyAction } from './policy-api';
+import { rememberQuoteClaimToken } from '../utils/quoteClaims';
+
 /**
  * Quote data types (matching backend DTOs)
  */
+
+/**
+ * Driving record sent with a driver (snake_case, like the other request fields)
+ */
+export interface ViolationInput {
+  type: string; // SPEEDING, SPEEDING_20_OVER, FAILURE_TO_YIELD, RED_LIGHT, ILLEGAL_TURN, DUI, RECKLESS_DRIVING, HIT_AND_RUN
+  date: string; // YYYY-MM-DD
+}
+
+export interface AccidentInput {
+  type: string; // COLLISION, SINGLE_VEHICLE, PROPERTY_DAMAGE, PEDESTRIAN
+  at_fault: boolean;
+  date: string; // YYYY-MM-DD
+}
+
+/**
+ * Driving record as returned on a quote's drivers
+ */
+export interface DriverViolation {
+  type: string;
+  date: string;
+}
+
+export interface DriverAccident {
+  type: string;
+  atFault: boolean;
+  date: string;
+}
+
 export interface CreateQuoteRequest {
   // NEW: Multi-driver/vehicle support
   drivers?: Array<{
@@ -27,6 +59,8 @@ export interface CreateQuoteRequest {
     years_licensed?: number;
     relationship?: string;
     is_primary?: boolean;
+    violations?: ViolationInput[];
+    accidents?: AccidentInput[];
   }>;
   vehicles?: Array<{
     year: number;
@@ -88,9 +122,45 @@ export interface CreateQuoteRequest {
   include_roadside_assistance?: boolean;
 }
 
+export interface DiscountEligibility {
+  code: string;
+  name: string;
+  eligible: boolean;
+  capped: boolean;
+  amount: number;
+  percentage: number;
+  explanation: string;
+}
+
+export interface TaxFeeLine {
+  type: string;
+  name: string; // e.g. "CA Premium Tax (2.35%)"
+  amount: number;
+}
+
+export type PaymentPlanCode = 'PAY_IN_FULL' | 'TWO_PAY' | 'QUARTERLY' | 'MONTHLY';
+
+export interface PaymentPlanOption {
+  code: PaymentPlanCode;
+  name: string;
+  installments: number;
+  installmentFee: number; // Charged on each installment after the first
+  dueToday: number; // First installment, charged at binding
+  installmentAmount: number | null; // Each later installment
+  total: number; // All installments, including installment fees
+}
+
+export interface QuotePreferences {
+  paymentPlan?: PaymentPlanCode | null;
+  documentDelivery?: 'ELECTRONIC' | 'MAIL' | null;
+  hasOtherPolicies?: boolean;
+}
+
 export interface QuoteResponse {
   quote_number: string;
-  quote_status?: string;
+  quote_status?: string; // EXPIRED once past its 30-day validity
+  requoted_as?: string | null; // New quote number once an expired quote is re-quoted
+  allowed_actions?: PolicyAction[]; // What the quote's status allows next (e.g. BIND)
   policy_id?: string;
   effective_date?: string;
   expiration_date?: string;
@@ -106,6 +176,10 @@ export interface QuoteResponse {
     birthDate?: string;
     yearsLicensed?: number;
     isPrimary?: boolean;
+    goodStudent?: boolean;
+    defensiveDrivingCourse?: boolean;
+    violations?: DriverViolation[];
+    accidents?: DriverAccident[];
   };
   // ALL additional drivers
   additionalDrivers?: Array<{
@@ -118,6 +192,8 @@ export interface QuoteResponse {
     birthDate?: string;
     yearsLicensed?: number;
     relationship?: string;
+    violations?: DriverViolation[];
+    accidents?: DriverAccident[];
   }>;
   // Primary vehicle (backward compatibility)
   vehicle?: {
@@ -159,10 +235,35 @@ export interface QuoteResponse {
     rentalLimit?: number;
   };
   premium?: {
-    total: number;
+    subtotal?: number; // Premium before taxes and fees (absent on older quotes)
+    taxes?: TaxFeeLine[];
+    fees?: TaxFeeLine[];
+    total: number; // Amount charged: subtotal + taxes + fees
     monthly: number;
     sixMonth: number;
   };
+  // Applied discounts
+  discounts?: Array<{
+    code: string;
+    name: string;
+    amount: number;
+    percentage: number;
+    explanation: string;
+  }>;
+  // Applied surcharges, with what triggered them
+  surcharges?: Array<{
+    code: string;
+    name: string;
+    amount: number;
+    percentage: number;
+    description: string;
+  }>;
+  // Every discount, with why it was or wasn't applied
+  discountEligibility?: DiscountEligibility[];
+  // Billing and document delivery choices
+  preferences?: QuotePreferences;
+  // What each payment plan would bill for this premium
+  paymentPlans?: PaymentPlanOption[];
   // Legacy fields for backward compatibility
   quoteId?: string;
   quoteNumber?: string;
@@ -170,6 +271,18 @@ export interface QuoteResponse {
   expiresAt?: Date;
 }
 
+/**
+ * New quote created from an expired one
+ */
+export interface RequoteResponse {
+  quoteNumber: string;
+  premium: number;
+  expiresAt: string;
+  requotedFrom: string; // Expired quote number
+  previousPremium: number; // Premium of the expired quote
+  claimToken?: string; // Lets this browser save the new quote to an account
+}
+
 /**
  * Quote API Service Class
  *
@@ -246,9 +359,11 @@ class QuoteApiService {
        *   quoteNumber: '...',
        *   premium: 1950,
        *   createdAt: Date,
-       *   expiresAt: Date
+       *   expiresAt: Date,
+       *   claimToken: '...'  // Needed to save the quote to an account
        * }
        */
+      rememberQuoteClaimToken(result.quoteNumber, result.claimToken);
       return result;
 
     } catch (error) {
@@ -336,6 +451,10 @@ class QuoteApiService {
       driver_phone: string;
       driver_gender?: string;
       driver_marital_status?: string;
+      driver_good_student?: boolean;
+      driver_defensive_driving_course?: boolean;
+      driver_violations?: ViolationInput[];
+      driver_accidents?: AccidentInput[];
       address_line_1: string;
       address_line_2?: string;
       address_city: string;
@@ -390,6 +509,8 @@ class QuoteApiService {
       marital_status?: string;
       years_licensed?: number;
       relationship?: string;
+      violations?: ViolationInput[];
+      accidents?: AccidentInput[];
     }>
   ): Promise<QuoteResponse> {
     try {
@@ -529,6 +650,83 @@ class QuoteApiService {
     }
   }
 
+  /**
+   * Update billing and document delivery choices
+   *
+   * PUT /api/v1/quotes/:quoteNumber/preferences
+   *
+   * Re-rates the quote for pay-in-full, paperless and multi-policy discounts.
+   *
+   * @param quoteNumber - Quote number (e.g., 'QZ2610')
+   * @param preferences - Updated choices
+   * @returns Promise resolving to the re-rated quote
+   */
+  async updateQuotePreferences(
+    quoteNumber: string,
+    preferences: {
+      payment_plan?: PaymentPlanCode;
+      document_delivery?: 'ELECTRONIC' | 'MAIL';
+      has_other_policies?: boolean;
+    }
+  ): Promise<QuoteResponse> {
+    try {
+      const response = await fetch(
+        `${this.baseUrl}/quotes/${quoteNumber}/preferences`,
+        {
+          method: 'PUT',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(preferences),
+        }
+      );
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Failed to update preferences');
+      }
+
+      const result = await response.json();
+      return result;
+
+    } catch (error) {
+      console.error('[QuoteAPI] Error updating preferences:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Re-quote an expired quote at current rates
+   *
+   * POST /api/v1/quotes/:quoteNumber/requote
+   *
+   * @param quoteNumber - Expired quote number
+   * @returns Promise resolving to the new quote's number and premium
+   */
+  async requoteExpiredQuote(quoteNumber: string): Promise<RequoteResponse> {
+    try {
+      const response = await fetch(
+        `${this.baseUrl}/quotes/${quoteNumber}/requote`,
+        {
+          method: 'POST',
+        }
+      );
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Failed to re-quote');
+      }
+
+      const result = await response.json();
+      rememberQuoteClaimToken(result.quoteNumber, result.claimToken);
+      return result;
+
+    } catch (error) {
+      console.error('[QuoteAPI] Error re-quoting expired quote:', error);
+      throw error;
+    }
+  }
+
   /**
    * Recalculate quote premium
    *
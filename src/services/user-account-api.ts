@@ -3,7 +3,18 @@
  *
  * Provides functions to interact with user account endpoints:
  * - checkEmail: Check if email exists in database
- * - createAccount: Create new user account
+ * - createAccount: Create new user account (and sign in)
+ * - login / logout: Start and end a portal session
+ * - getCurrentAccount: Signed-in account, if any
+ * - getAccountDashboard / getAccountPolicies: Household policies, saved
+ *   quotes and claims linked to the account
+ * - linkPolicyToAccount: Add a policy or saved quote by number
+ * - requestEmailVerification / verifyEmail: Emailed verify-email link
+ * - requestPasswordReset / resetPassword: Emailed forgot-password link
+ * - requestMagicLink / loginWithMagicLink: Emailed passwordless sign-in link
+ *
+ * The session is an HttpOnly cookie set by the API, so every request here
+ * sends credentials.
  */
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000';
@@ -20,12 +31,71 @@ interface CreateAccountRequest {
   last_name: string;
 }
 
+export interface SignedInAccount {
+  user_account_id: string;
+  email: string;
+  first_name: string | null;
+  last_name: string | null;
+  email_verified: boolean;
+  session_expires_at: string;
+}
+
 interface CreateAccountResponse {
   status: string;
-  data: {
+  data: SignedInAccount;
+}
+
+export interface AccountPolicySummary {
+  policy_number: string;
+  kind: 'POLICY' | 'QUOTE';
+  status: string;
+  insured_name: string | null;
+  vehicles: string[];
+  effective_date: string;
+  expiration_date: string;
+  premium_total: number | null;
+  linked_via: 'INSURED_EMAIL' | 'SAVED_QUOTE' | 'SHARED' | 'LEGACY';
+}
+
+export interface AccountClaimSummary {
+  claim_number: string;
+  policy_number: string;
+  incident_date: string;
+  loss_type: string;
+  status: string;
+}
+
+export interface AccountDashboard {
+  account: {
     user_account_id: string;
     email: string;
+    first_name: string | null;
+    last_name: string | null;
+    email_verified: boolean;
   };
+  policies: AccountPolicySummary[];
+  quotes: AccountPolicySummary[];
+  claims: AccountClaimSummary[];
+}
+
+/**
+ * Thrown by account requests made without a session (or after it expired)
+ */
+export class SignInRequiredError extends Error {
+  constructor() {
+    super('Please sign in to continue');
+    this.name = 'SignInRequiredError';
+  }
+}
+
+interface LoginRequest {
+  email: string;
+  password: string;
+}
+
+interface LoginResponse {
+  status: string;
+  data: SignedInAccount;
 }
 
 /**
@@ -54,6 +124,7 @@ export async function checkEmail(email: string): Promise<CheckEmailResponse> {
 export async function createAccount(data: CreateAccountRequest): Promise<CreateAccountResponse> {
   const response = await fetch(`${API_BASE_URL}/api/v1/user-accounts`, {
     method: 'POST',
+    credentials: 'include',
     headers: {
       'Content-Type': 'application/json',
     },
@@ -67,3 +138,209 @@ export async function createAccount(data: CreateAccountRequest): Promise<CreateA
 
   return response.json();
 }
+
+/**
+ * Sign in with email and password
+ */
+export async function login(data: LoginRequest): Promise<LoginResponse> {
+  const response = await fetch(`${API_BASE_URL}/api/v1/user-accounts/login`, {
+    method: 'POST',
+    credentials: 'include',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(data),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Invalid email or password');
+  }
+
+  return response.json();
+}
+
+/**
+ * Sign out (ends the session and clears the cookie)
+ */
+export async function logout(): Promise<void> {
+  await fetch(`${API_BASE_URL}/api/v1/user-accounts/logout`, {
+    method: 'POST',
+    credentials: 'include',
+  });
+}
+
+/**
+ * Get the signed-in account, or null when not signed in or the session expired
+ */
+export async function getCurrentAccount(): Promise<SignedInAccount | null> {
+  const response = await fetch(`${API_BASE_URL}/api/v1/user-accounts/me`, {
+    credentials: 'include',
+  });
+
+  if (response.status === 401) {
+    return null;
+  }
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch account');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Get the household dashboard: every policy, saved quote and claim linked to the account
+ */
+export async function getAccountDashboard(): Promise<AccountDashboard> {
+  const response = await fetch(`${API_BASE_URL}/api/v1/user-accounts/me/dashboard`, {
+    credentials: 'include',
+  });
+
+  if (response.status === 401) {
+    throw new SignInRequiredError();
+  }
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch account dashboard');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Get the policies and saved quotes linked to the account
+ */
+export async function getAccountPolicies(): Promise<AccountPolicySummary[]> {
+  const response = await fetch(`${API_BASE_URL}/api/v1/user-accounts/me/policies`, {
+    credentials: 'include',
+  });
+
+  if (response.status === 401) {
+    throw new SignInRequiredError();
+  }
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch account policies');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Add a policy (insured under the account email) or a saved quote to the account
+ *
+ * @param claimToken - Claim token returned when the quote was created (needed for quotes)
+ */
+export async function linkPolicyToAccount(policyNumber: string, claimToken?: string): Promise<AccountPolicySummary> {
+  const response = await fetch(`${API_BASE_URL}/api/v1/user-accounts/me/policies`, {
+    method: 'POST',
+    credentials: 'include',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ policy_number: policyNumber, claim_token: claimToken }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to add policy');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+// POST to an account link endpoint; resolves to the API's message
+async function postLinkRequest(path: string, body: object, fallbackMessage: string): Promise<string> {
+  const response = await fetch(`${API_BASE_URL}/api/v1/user-accounts/${path}`, {
+    method: 'POST',
+    credentials: 'include',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || fallbackMessage);
+  }
+
+  const result = await response.json();
+  return result.message;
+}
+
+/**
+ * Email the signed-in account a new verification link
+ */
+export async function requestEmailVerification(): Promise<string> {
+  return postLinkRequest('verify-email/request', {}, 'Failed to send verification email');
+}
+
+/**
+ * Confirm the account email with the token from a verification link
+ */
+export async function verifyEmail(token: string): Promise<{ email: string; email_verified_at: string }> {
+  const response = await fetch(`${API_BASE_URL}/api/v1/user-accounts/verify-email`, {
+    method: 'POST',
+    credentials: 'include',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ token }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to verify email');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Email a password reset link (the same answer whether or not the email has an account)
+ */
+export async function requestPasswordReset(email: string): Promise<string> {
+  return postLinkRequest('password/forgot', { email }, 'Failed to send reset link');
+}
+
+/**
+ * Set a new password with the token from a reset link (signs out every session)
+ */
+export async function resetPassword(data: { token: string; password: string }): Promise<string> {
+  return postLinkRequest('password/reset', data, 'Failed to reset password');
+}
+
+/**
+ * Email a passwordless sign-in link (the same answer whether or not the email has an account)
+ */
+export async function requestMagicLink(email: string): Promise<string> {
+  return postLinkRequest('magic-link/request', { email }, 'Failed to send sign-in link');
+}
+
+/**
+ * Sign in with the token from a magic link
+ */
+export async function loginWithMagicLink(token: string): Promise<LoginResponse> {
+  const response = await fetch(`${API_BASE_URL}/api/v1/user-accounts/magic-link/login`, {
+    method: 'POST',
+    credentials: 'include',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ token }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to sign in');
+  }
+
+  return response.json();
+}
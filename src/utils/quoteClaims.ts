@@ -0,0 +1,41 @@
+/**
+ * Quote Claim Tokens
+ *
+ * Creating a quote returns a claim token that only this browser gets. Saving
+ * the quote to an account (checkout does this once the customer signs in)
+ * needs the token, so someone who only knows the quote number cannot claim it.
+ *
+ * Kept in localStorage, keyed by quote number, so a quote resumed later in
+ * the same browser can still be saved.
+ */
+
+const STORAGE_KEY = 'quote_claim_tokens';
+
+function readTokens(): Record<string, string> {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch (error) {
+    console.error('[quoteClaims] Error reading claim tokens:', error);
+    return {};
+  }
+}
+
+/**
+ * Keep the claim token returned with a new quote
+ */
+export function rememberQuoteClaimToken(quoteNumber: string, claimToken: string | undefined): void {
+  if (!claimToken) return;
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...readTokens(), [quoteNumber]: claimToken }));
+  } catch (error) {
+    console.error('[quoteClaims] Error saving claim token:', error);
+  }
+}
+
+/**
+ * Claim token for a quote started in this browser, if any
+ */
+export function getQuoteClaimToken(quoteNumber: string): string | undefined {
+  return readTokens()[quoteNumber];
+}
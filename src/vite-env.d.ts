@@ -24,6 +24,19 @@ interface ImportMetaEnv {
    */
   readonly VITE_API_TIMEOUT?: string;
 
+  /**
+   * Payment gateway the browser tokenizes card and bank details against
+   * (Stripe's API, or the local Stripe stub)
+   * @default 'http://localhost:12111'
+   */
+  readonly VITE_PAYMENT_GATEWAY_URL?: string;
+
+  /**
+   * Publishable key for the payment gateway (tokenization only)
+   * @default 'pk_test_stub'
+   */
+  readonly VITE_PAYMENT_PUBLISHABLE_KEY?: string;
+
   /**
    * Enable mock services for development
    * @default 'true'